@@ -28,6 +28,7 @@
  */
 
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 
 export interface FileUploadProps {
   /** Accepted file types (e.g., "image/*", ".pdf") */
@@ -98,6 +99,7 @@ export function FileUpload({
 
       const response = await fetch(endpoint, {
         method: 'POST',
+        headers: await getCsrfHeaders(),
         body: formData,
         credentials: 'include',
       });
@@ -0,0 +1,83 @@
+/**
+ * Notification Actions Component
+ *
+ * Buttons from a notification's actions: links open their URL, API actions
+ * call the endpoint as the signed-in user. Either way the notification is
+ * then marked as read (onDone).
+ *
+ * @example
+ * ```tsx
+ * <NotificationActions
+ *   notification={notification}
+ *   onDone={() => markAsRead(notification.id)}
+ * />
+ * ```
+ */
+
+import { useSignal } from '@preact/signals';
+import { type NotificationActionData, notificationApi } from '../lib/api-client.ts';
+import type { Notification } from '../lib/store.ts';
+
+export interface NotificationActionsProps {
+  notification: Notification;
+  /** Called after an action ran (or a link was followed) */
+  onDone: () => void;
+  /** Smaller buttons for the dropdown */
+  compact?: boolean;
+}
+
+export default function NotificationActions({ notification, onDone, compact = false }: NotificationActionsProps) {
+  const running = useSignal<number | null>(null);
+  const error = useSignal<string | null>(null);
+
+  if (!notification.actions?.length) return null;
+
+  const runApiAction = async (action: Extract<NotificationActionData, { type: 'api' }>, index: number) => {
+    running.value = index;
+    error.value = null;
+
+    try {
+      await notificationApi.runAction(action);
+      onDone();
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Action failed';
+    } finally {
+      running.value = null;
+    }
+  };
+
+  const buttonClass = compact
+    ? 'px-2 py-1 text-xs font-medium rounded border border-blue-200 text-blue-700 hover:bg-blue-50 disabled:opacity-50'
+    : 'px-3 py-1.5 text-sm font-medium rounded-lg border border-blue-200 dark:border-blue-700 text-blue-700 dark:text-blue-300 hover:bg-blue-50 dark:hover:bg-blue-900 disabled:opacity-50';
+
+  return (
+    <div class="mt-2">
+      <div class="flex flex-wrap gap-2">
+        {notification.actions.map((action, index) =>
+          action.type === 'link' ? (
+            <a
+              key={index}
+              href={action.url}
+              onClick={onDone}
+              class={buttonClass}
+              {...(/^https?:\/\//.test(action.url) && { target: '_blank', rel: 'noopener noreferrer' })}
+            >
+              {action.label}
+            </a>
+          ) : (
+            <button
+              key={index}
+              type="button"
+              onClick={() => runApiAction(action, index)}
+              disabled={running.value !== null}
+              class={buttonClass}
+            >
+              {running.value === index ? 'Working...' : action.label}
+            </button>
+          )
+        )}
+      </div>
+      {error.value && <p class="mt-1 text-xs text-red-600 dark:text-red-400">{error.value}</p>}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 // This file SHOULD be checked into source version control.
 // This file is automatically updated during development when running `dev.ts`.
 
+import * as $_well_known_jwks_json from "./routes/.well-known/jwks.json.ts";
 import * as $_2fa_setup from "./routes/2fa/setup.tsx";
 import * as $_401 from "./routes/401.tsx";
 import * as $_403 from "./routes/403.tsx";
@@ -11,8 +12,10 @@ import * as $_404_1 from "./routes/_404.tsx";
 import * as $_app from "./routes/_app.tsx";
 import * as $_middleware from "./routes/_middleware.ts";
 import * as $admin_middleware from "./routes/admin/_middleware.ts";
+import * as $admin_audit from "./routes/admin/audit.tsx";
 import * as $admin_data from "./routes/admin/data.tsx";
 import * as $admin_jobs from "./routes/admin/jobs.tsx";
+import * as $admin_notifications from "./routes/admin/notifications.tsx";
 import * as $admin_users from "./routes/admin/users.tsx";
 import * as $api_2fa_disable from "./routes/api/2fa/disable.ts";
 import * as $api_2fa_enable from "./routes/api/2fa/enable.ts";
@@ -21,6 +24,10 @@ import * as $api_2fa_setup from "./routes/api/2fa/setup.ts";
 import * as $api_2fa_status from "./routes/api/2fa/status.ts";
 import * as $api_2fa_verify from "./routes/api/2fa/verify.ts";
 import * as $api_middleware from "./routes/api/_middleware.ts";
+import * as $api_admin_audit_export from "./routes/api/admin/audit/export.ts";
+import * as $api_admin_audit_index from "./routes/api/admin/audit/index.ts";
+import * as $api_admin_broadcasts_id_ from "./routes/api/admin/broadcasts/[id].ts";
+import * as $api_admin_broadcasts_index from "./routes/api/admin/broadcasts/index.ts";
 import * as $api_admin_data_model_ from "./routes/api/admin/data/[model].ts";
 import * as $api_admin_data_models from "./routes/api/admin/data/models.ts";
 import * as $api_admin_stats from "./routes/api/admin/stats.ts";
@@ -28,27 +35,46 @@ import * as $api_admin_users_id_ from "./routes/api/admin/users/[id].ts";
 import * as $api_admin_users_id_index from "./routes/api/admin/users/[id]/index.ts";
 import * as $api_admin_users_id_role from "./routes/api/admin/users/[id]/role.ts";
 import * as $api_admin_users_id_sessions from "./routes/api/admin/users/[id]/sessions.ts";
+import * as $api_admin_users_id_sessions_sessionId_ from "./routes/api/admin/users/[id]/sessions/[sessionId].ts";
 import * as $api_admin_users_id_verify_email from "./routes/api/admin/users/[id]/verify-email.ts";
 import * as $api_admin_users_index from "./routes/api/admin/users/index.ts";
 import * as $api_auth_csrf_token from "./routes/api/auth/csrf-token.ts";
 import * as $api_auth_forgot_password from "./routes/api/auth/forgot-password.ts";
 import * as $api_auth_login from "./routes/api/auth/login.ts";
+import * as $api_auth_login_2fa from "./routes/api/auth/login/2fa.ts";
 import * as $api_auth_logout from "./routes/api/auth/logout.ts";
 import * as $api_auth_me from "./routes/api/auth/me.ts";
+import * as $api_auth_oidc_provider_callback from "./routes/api/auth/oidc/[provider]/callback.ts";
+import * as $api_auth_oidc_provider_link from "./routes/api/auth/oidc/[provider]/link.ts";
+import * as $api_auth_oidc_provider_start from "./routes/api/auth/oidc/[provider]/start.ts";
+import * as $api_auth_oidc_exchange from "./routes/api/auth/oidc/exchange.ts";
 import * as $api_auth_refresh from "./routes/api/auth/refresh.ts";
 import * as $api_auth_resend_verification from "./routes/api/auth/resend-verification.ts";
 import * as $api_auth_reset_password from "./routes/api/auth/reset-password.ts";
 import * as $api_auth_signup from "./routes/api/auth/signup.ts";
 import * as $api_auth_verify_email from "./routes/api/auth/verify-email.ts";
 import * as $api_auth_verify from "./routes/api/auth/verify.ts";
+import * as $api_auth_webauthn_2fa_options from "./routes/api/auth/webauthn/2fa/options.ts";
+import * as $api_auth_webauthn_2fa_verify from "./routes/api/auth/webauthn/2fa/verify.ts";
+import * as $api_auth_webauthn_credentials_id_ from "./routes/api/auth/webauthn/credentials/[id].ts";
+import * as $api_auth_webauthn_credentials_index from "./routes/api/auth/webauthn/credentials/index.ts";
+import * as $api_auth_webauthn_login_options from "./routes/api/auth/webauthn/login/options.ts";
+import * as $api_auth_webauthn_login_verify from "./routes/api/auth/webauthn/login/verify.ts";
+import * as $api_auth_webauthn_register_options from "./routes/api/auth/webauthn/register/options.ts";
+import * as $api_auth_webauthn_register_verify from "./routes/api/auth/webauthn/register/verify.ts";
+import * as $api_jobs_id_cancel from "./routes/api/jobs/[id]/cancel.ts";
 import * as $api_jobs_id_delete from "./routes/api/jobs/[id]/delete.ts";
 import * as $api_jobs_id_index from "./routes/api/jobs/[id]/index.ts";
+import * as $api_jobs_id_logs from "./routes/api/jobs/[id]/logs.ts";
 import * as $api_jobs_id_retry from "./routes/api/jobs/[id]/retry.ts";
+import * as $api_jobs_flows_id_ from "./routes/api/jobs/flows/[id].ts";
+import * as $api_jobs_flows_index from "./routes/api/jobs/flows/index.ts";
 import * as $api_jobs_index from "./routes/api/jobs/index.ts";
 import * as $api_jobs_schedules_id_ from "./routes/api/jobs/schedules/[id].ts";
 import * as $api_jobs_schedules_name_delete from "./routes/api/jobs/schedules/[name]/delete.ts";
 import * as $api_jobs_schedules_name_disable from "./routes/api/jobs/schedules/[name]/disable.ts";
 import * as $api_jobs_schedules_name_enable from "./routes/api/jobs/schedules/[name]/enable.ts";
+import * as $api_jobs_schedules_name_history from "./routes/api/jobs/schedules/[name]/history.ts";
 import * as $api_jobs_schedules_name_trigger from "./routes/api/jobs/schedules/[name]/trigger.ts";
 import * as $api_jobs_schedules_index from "./routes/api/jobs/schedules/index.ts";
 import * as $api_jobs_stats from "./routes/api/jobs/stats.ts";
@@ -60,6 +86,22 @@ import * as $api_notifications_read_all from "./routes/api/notifications/read-al
 import * as $api_notifications_test_create from "./routes/api/notifications/test-create.ts";
 import * as $api_notifications_unread_count from "./routes/api/notifications/unread-count.ts";
 import * as $api_notifications_ws from "./routes/api/notifications/ws.ts";
+import * as $api_uploads_id_ from "./routes/api/uploads/[id].ts";
+import * as $api_uploads_index from "./routes/api/uploads/index.ts";
+import * as $api_uploads_upload from "./routes/api/uploads/upload.ts";
+import * as $api_uploads_upload_avatar from "./routes/api/uploads/upload/avatar.ts";
+import * as $api_uploads_upload_image from "./routes/api/uploads/upload/image.ts";
+import * as $api_user_change_password from "./routes/api/user/change-password.ts";
+import * as $api_user_email_confirm from "./routes/api/user/email/confirm.ts";
+import * as $api_user_identities_provider_ from "./routes/api/user/identities/[provider].ts";
+import * as $api_user_identities_index from "./routes/api/user/identities/index.ts";
+import * as $api_user_notification_preferences from "./routes/api/user/notification-preferences.ts";
+import * as $api_user_profile from "./routes/api/user/profile.ts";
+import * as $api_user_push_subscriptions from "./routes/api/user/push-subscriptions.ts";
+import * as $api_user_sessions_id_ from "./routes/api/user/sessions/[id].ts";
+import * as $api_user_sessions_index from "./routes/api/user/sessions/index.ts";
+import * as $cancel_email_change from "./routes/cancel-email-change.tsx";
+import * as $confirm_email from "./routes/confirm-email.tsx";
 import * as $design_system from "./routes/design-system.tsx";
 import * as $error from "./routes/error.tsx";
 import * as $forgot_password from "./routes/forgot-password.tsx";
@@ -72,6 +114,8 @@ import * as $profile from "./routes/profile.tsx";
 import * as $resend_verification from "./routes/resend-verification.tsx";
 import * as $reset_password from "./routes/reset-password.tsx";
 import * as $signup from "./routes/signup.tsx";
+import * as $unlock_account from "./routes/unlock-account.tsx";
+import * as $unsubscribe from "./routes/unsubscribe.tsx";
 import * as $verify_email from "./routes/verify-email.tsx";
 import * as $AdminDataBrowser from "./islands/AdminDataBrowser.tsx";
 import * as $AdminHeaderActions from "./islands/AdminHeaderActions.tsx";
@@ -93,6 +137,8 @@ import * as $ResetPasswordForm from "./islands/ResetPasswordForm.tsx";
 import * as $SignupForm from "./islands/SignupForm.tsx";
 import * as $TwoFactorSetup from "./islands/TwoFactorSetup.tsx";
 import * as $UserProfileDropdown from "./islands/UserProfileDropdown.tsx";
+import * as $admin_AuditLogViewer from "./islands/admin/AuditLogViewer.tsx";
+import * as $admin_BroadcastComposer from "./islands/admin/BroadcastComposer.tsx";
 import * as $admin_CreateJobModal from "./islands/admin/CreateJobModal.tsx";
 import * as $admin_CreateScheduleModal from "./islands/admin/CreateScheduleModal.tsx";
 import * as $admin_JobDashboard from "./islands/admin/JobDashboard.tsx";
@@ -100,6 +146,7 @@ import type { Manifest } from "$fresh/server.ts";
 
 const manifest = {
   routes: {
+    "./routes/.well-known/jwks.json.ts": $_well_known_jwks_json,
     "./routes/2fa/setup.tsx": $_2fa_setup,
     "./routes/401.tsx": $_401,
     "./routes/403.tsx": $_403,
@@ -109,8 +156,10 @@ const manifest = {
     "./routes/_app.tsx": $_app,
     "./routes/_middleware.ts": $_middleware,
     "./routes/admin/_middleware.ts": $admin_middleware,
+    "./routes/admin/audit.tsx": $admin_audit,
     "./routes/admin/data.tsx": $admin_data,
     "./routes/admin/jobs.tsx": $admin_jobs,
+    "./routes/admin/notifications.tsx": $admin_notifications,
     "./routes/admin/users.tsx": $admin_users,
     "./routes/api/2fa/disable.ts": $api_2fa_disable,
     "./routes/api/2fa/enable.ts": $api_2fa_enable,
@@ -120,6 +169,10 @@ const manifest = {
     "./routes/api/2fa/status.ts": $api_2fa_status,
     "./routes/api/2fa/verify.ts": $api_2fa_verify,
     "./routes/api/_middleware.ts": $api_middleware,
+    "./routes/api/admin/audit/export.ts": $api_admin_audit_export,
+    "./routes/api/admin/audit/index.ts": $api_admin_audit_index,
+    "./routes/api/admin/broadcasts/[id].ts": $api_admin_broadcasts_id_,
+    "./routes/api/admin/broadcasts/index.ts": $api_admin_broadcasts_index,
     "./routes/api/admin/data/[model].ts": $api_admin_data_model_,
     "./routes/api/admin/data/models.ts": $api_admin_data_models,
     "./routes/api/admin/stats.ts": $api_admin_stats,
@@ -127,23 +180,49 @@ const manifest = {
     "./routes/api/admin/users/[id]/index.ts": $api_admin_users_id_index,
     "./routes/api/admin/users/[id]/role.ts": $api_admin_users_id_role,
     "./routes/api/admin/users/[id]/sessions.ts": $api_admin_users_id_sessions,
+    "./routes/api/admin/users/[id]/sessions/[sessionId].ts":
+      $api_admin_users_id_sessions_sessionId_,
     "./routes/api/admin/users/[id]/verify-email.ts":
       $api_admin_users_id_verify_email,
     "./routes/api/admin/users/index.ts": $api_admin_users_index,
     "./routes/api/auth/csrf-token.ts": $api_auth_csrf_token,
     "./routes/api/auth/forgot-password.ts": $api_auth_forgot_password,
     "./routes/api/auth/login.ts": $api_auth_login,
+    "./routes/api/auth/login/2fa.ts": $api_auth_login_2fa,
     "./routes/api/auth/logout.ts": $api_auth_logout,
     "./routes/api/auth/me.ts": $api_auth_me,
+    "./routes/api/auth/oidc/[provider]/callback.ts":
+      $api_auth_oidc_provider_callback,
+    "./routes/api/auth/oidc/[provider]/link.ts": $api_auth_oidc_provider_link,
+    "./routes/api/auth/oidc/[provider]/start.ts": $api_auth_oidc_provider_start,
+    "./routes/api/auth/oidc/exchange.ts": $api_auth_oidc_exchange,
     "./routes/api/auth/refresh.ts": $api_auth_refresh,
     "./routes/api/auth/resend-verification.ts": $api_auth_resend_verification,
     "./routes/api/auth/reset-password.ts": $api_auth_reset_password,
     "./routes/api/auth/signup.ts": $api_auth_signup,
     "./routes/api/auth/verify-email.ts": $api_auth_verify_email,
     "./routes/api/auth/verify.ts": $api_auth_verify,
+    "./routes/api/auth/webauthn/2fa/options.ts": $api_auth_webauthn_2fa_options,
+    "./routes/api/auth/webauthn/2fa/verify.ts": $api_auth_webauthn_2fa_verify,
+    "./routes/api/auth/webauthn/credentials/[id].ts":
+      $api_auth_webauthn_credentials_id_,
+    "./routes/api/auth/webauthn/credentials/index.ts":
+      $api_auth_webauthn_credentials_index,
+    "./routes/api/auth/webauthn/login/options.ts":
+      $api_auth_webauthn_login_options,
+    "./routes/api/auth/webauthn/login/verify.ts":
+      $api_auth_webauthn_login_verify,
+    "./routes/api/auth/webauthn/register/options.ts":
+      $api_auth_webauthn_register_options,
+    "./routes/api/auth/webauthn/register/verify.ts":
+      $api_auth_webauthn_register_verify,
+    "./routes/api/jobs/[id]/cancel.ts": $api_jobs_id_cancel,
     "./routes/api/jobs/[id]/delete.ts": $api_jobs_id_delete,
     "./routes/api/jobs/[id]/index.ts": $api_jobs_id_index,
+    "./routes/api/jobs/[id]/logs.ts": $api_jobs_id_logs,
     "./routes/api/jobs/[id]/retry.ts": $api_jobs_id_retry,
+    "./routes/api/jobs/flows/[id].ts": $api_jobs_flows_id_,
+    "./routes/api/jobs/flows/index.ts": $api_jobs_flows_index,
     "./routes/api/jobs/index.ts": $api_jobs_index,
     "./routes/api/jobs/schedules/[id].ts": $api_jobs_schedules_id_,
     "./routes/api/jobs/schedules/[name]/delete.ts":
@@ -152,6 +231,8 @@ const manifest = {
       $api_jobs_schedules_name_disable,
     "./routes/api/jobs/schedules/[name]/enable.ts":
       $api_jobs_schedules_name_enable,
+    "./routes/api/jobs/schedules/[name]/history.ts":
+      $api_jobs_schedules_name_history,
     "./routes/api/jobs/schedules/[name]/trigger.ts":
       $api_jobs_schedules_name_trigger,
     "./routes/api/jobs/schedules/index.ts": $api_jobs_schedules_index,
@@ -165,6 +246,24 @@ const manifest = {
     "./routes/api/notifications/unread-count.ts":
       $api_notifications_unread_count,
     "./routes/api/notifications/ws.ts": $api_notifications_ws,
+    "./routes/api/uploads/[id].ts": $api_uploads_id_,
+    "./routes/api/uploads/index.ts": $api_uploads_index,
+    "./routes/api/uploads/upload.ts": $api_uploads_upload,
+    "./routes/api/uploads/upload/avatar.ts": $api_uploads_upload_avatar,
+    "./routes/api/uploads/upload/image.ts": $api_uploads_upload_image,
+    "./routes/api/user/change-password.ts": $api_user_change_password,
+    "./routes/api/user/email/confirm.ts": $api_user_email_confirm,
+    "./routes/api/user/identities/[provider].ts":
+      $api_user_identities_provider_,
+    "./routes/api/user/identities/index.ts": $api_user_identities_index,
+    "./routes/api/user/notification-preferences.ts":
+      $api_user_notification_preferences,
+    "./routes/api/user/profile.ts": $api_user_profile,
+    "./routes/api/user/push-subscriptions.ts": $api_user_push_subscriptions,
+    "./routes/api/user/sessions/[id].ts": $api_user_sessions_id_,
+    "./routes/api/user/sessions/index.ts": $api_user_sessions_index,
+    "./routes/cancel-email-change.tsx": $cancel_email_change,
+    "./routes/confirm-email.tsx": $confirm_email,
     "./routes/design-system.tsx": $design_system,
     "./routes/error.tsx": $error,
     "./routes/forgot-password.tsx": $forgot_password,
@@ -177,6 +276,8 @@ const manifest = {
     "./routes/resend-verification.tsx": $resend_verification,
     "./routes/reset-password.tsx": $reset_password,
     "./routes/signup.tsx": $signup,
+    "./routes/unlock-account.tsx": $unlock_account,
+    "./routes/unsubscribe.tsx": $unsubscribe,
     "./routes/verify-email.tsx": $verify_email,
   },
   islands: {
@@ -200,6 +301,8 @@ const manifest = {
     "./islands/SignupForm.tsx": $SignupForm,
     "./islands/TwoFactorSetup.tsx": $TwoFactorSetup,
     "./islands/UserProfileDropdown.tsx": $UserProfileDropdown,
+    "./islands/admin/AuditLogViewer.tsx": $admin_AuditLogViewer,
+    "./islands/admin/BroadcastComposer.tsx": $admin_BroadcastComposer,
     "./islands/admin/CreateJobModal.tsx": $admin_CreateJobModal,
     "./islands/admin/CreateScheduleModal.tsx": $admin_CreateScheduleModal,
     "./islands/admin/JobDashboard.tsx": $admin_JobDashboard,
@@ -7,7 +7,7 @@ import { IS_BROWSER } from '$fresh/runtime.ts';
 import { TokenStorage } from '../lib/storage.ts';
 
 interface AdminHeaderActionsProps {
-  currentPage: 'users' | 'data' | 'jobs';
+  currentPage: 'users' | 'data' | 'jobs' | 'notifications' | 'audit';
 }
 
 export default function AdminHeaderActions({ currentPage }: AdminHeaderActionsProps) {
@@ -41,6 +41,12 @@ export default function AdminHeaderActions({ currentPage }: AdminHeaderActionsPr
       <a href="/admin/jobs" class={getLinkClass('jobs')}>
         Jobs
       </a>
+      <a href="/admin/notifications" class={getLinkClass('notifications')}>
+        Notifications
+      </a>
+      <a href="/admin/audit" class={getLinkClass('audit')}>
+        Audit Log
+      </a>
       
     </div>
   );
@@ -4,6 +4,7 @@
  */
 
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 
 interface User {
   id: string;
@@ -16,6 +17,14 @@ interface User {
   updatedAt: string;
 }
 
+interface Session {
+  id: string;
+  deviceLabel: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
 interface Pagination {
   page: number;
   limit: number;
@@ -40,6 +49,8 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
   const loading = useSignal(false);
   const error = useSignal('');
   const success = useSignal('');
+  const sessionsUser = useSignal<User | null>(null);
+  const userSessions = useSignal<Session[]>([]);
 
   // Get token from cookie
   const getToken = () => {
@@ -107,6 +118,7 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
       const response = await fetch(`${apiUrl}/api/admin/users/${userId}/role`, {
         method: 'PATCH',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
@@ -142,6 +154,7 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
       const response = await fetch(`${apiUrl}/api/admin/users/${userId}/verify-email`, {
         method: 'PATCH',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
       });
@@ -173,9 +186,10 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
     try {
       const apiUrl = window.location.origin;
       const token = getToken();
-      const response = await fetch(`${apiUrl}/api/admin/users/${userId}/revoke-sessions`, {
-        method: 'POST',
+      const response = await fetch(`${apiUrl}/api/admin/users/${userId}/sessions`, {
+        method: 'DELETE',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
       });
@@ -185,6 +199,72 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
       }
 
       success.value = 'All sessions revoked successfully';
+      if (sessionsUser.value?.id === userId) {
+        userSessions.value = [];
+      }
+    } catch (err) {
+      error.value = err.message;
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  // Show a user's signed-in devices
+  const viewSessions = async (user: User) => {
+    loading.value = true;
+    error.value = '';
+
+    try {
+      const apiUrl = window.location.origin;
+      const token = getToken();
+      const response = await fetch(`${apiUrl}/api/admin/users/${user.id}/sessions`, {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to load sessions');
+      }
+
+      const data = await response.json();
+      userSessions.value = data.data.sessions;
+      sessionsUser.value = user;
+    } catch (err) {
+      error.value = err.message;
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  // Revoke a single session
+  const revokeSession = async (userId: string, session: Session) => {
+    if (!confirm(`Sign out ${session.deviceLabel}?`)) {
+      return;
+    }
+
+    loading.value = true;
+    error.value = '';
+    success.value = '';
+
+    try {
+      const apiUrl = window.location.origin;
+      const token = getToken();
+      const response = await fetch(`${apiUrl}/api/admin/users/${userId}/sessions/${session.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...(await getCsrfHeaders()),
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error?.message || 'Failed to revoke session');
+      }
+
+      userSessions.value = userSessions.value.filter((s) => s.id !== session.id);
+      success.value = 'Session revoked successfully';
     } catch (err) {
       error.value = err.message;
     } finally {
@@ -208,6 +288,7 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
       const response = await fetch(`${apiUrl}/api/admin/users/${userId}`, {
         method: 'DELETE',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
       });
@@ -394,6 +475,16 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
                       </button>
                     )}
 
+                    {/* View Sessions */}
+                    <button
+                      type="button"
+                      onClick={() => viewSessions(user)}
+                      class="text-blue-600 hover:text-blue-900"
+                      title="View sessions"
+                    >
+                      💻
+                    </button>
+
                     {/* Revoke Sessions */}
                     <button
                       type="button"
@@ -423,6 +514,49 @@ export default function AdminUserTable({ users: initialUsers, pagination: initia
         </table>
       </div>
 
+      {/* Sessions */}
+      {sessionsUser.value && (
+        <div class="mt-6 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <div class="px-4 py-3 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+            <h3 class="text-sm font-medium text-gray-900 dark:text-gray-100">
+              Sessions for {sessionsUser.value.name} ({userSessions.value.length})
+            </h3>
+            <button
+              type="button"
+              onClick={() => sessionsUser.value = null}
+              class="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              title="Close"
+            >
+              ✕
+            </button>
+          </div>
+          {userSessions.value.length === 0 ? (
+            <p class="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No active sessions</p>
+          ) : (
+            <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+              {userSessions.value.map((session) => (
+                <li key={session.id} class="px-4 py-3 flex justify-between items-center">
+                  <div>
+                    <div class="text-sm text-gray-900 dark:text-gray-100">{session.deviceLabel}</div>
+                    <div class="text-xs text-gray-500 dark:text-gray-400">
+                      {session.ipAddress || 'Unknown IP'} · Last active {formatDate(session.lastUsedAt)} · Signed in {formatDate(session.createdAt)}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => revokeSession(sessionsUser.value!.id, session)}
+                    class="text-orange-600 hover:text-orange-900 text-sm"
+                    disabled={loading.value}
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Pagination */}
       {pagination.value.totalPages > 1 && (
         <div class="mt-6 flex justify-between items-center">
@@ -7,6 +7,7 @@
  */
 
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 
 export interface AvatarUploadProps {
   /** Current avatar URL */
@@ -53,6 +54,7 @@ export default function AvatarUpload({
 
       const response = await fetch(endpoint, {
         method: 'POST',
+        headers: await getCsrfHeaders(),
         body: formData,
         credentials: 'include',
       });
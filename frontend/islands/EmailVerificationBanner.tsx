@@ -8,6 +8,7 @@
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
 import { useEffect } from 'preact/hooks';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 import { TokenStorage } from '../lib/storage.ts';
 
 export default function EmailVerificationBanner() {
@@ -39,6 +40,7 @@ export default function EmailVerificationBanner() {
       const response = await fetch(`${apiUrl}/api/auth/resend-verification`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ email: userEmail.value }),
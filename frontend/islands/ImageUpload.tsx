@@ -7,6 +7,7 @@
  */
 
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 
 export interface ImageUploadProps {
   /** Upload endpoint */
@@ -68,6 +69,7 @@ export default function ImageUpload({
 
       const response = await fetch(url, {
         method: 'POST',
+        headers: await getCsrfHeaders(),
         body: formData,
         credentials: 'include',
       });
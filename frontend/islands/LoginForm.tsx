@@ -1,6 +1,9 @@
 /**
  * Login Form Island
  * Handles authentication and JWT token storage
+ * Two-step when 2FA is enabled: password first, then TOTP, backup code or passkey
+ * Passwordless sign-in with a passkey is offered when the browser supports it
+ * Social sign-in returns here with a one-time code (or an error) in the URL fragment
  *
  * MIGRATED TO API CLIENT
  * REFACTORED: Uses centralized validation utilities
@@ -8,20 +11,173 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
-import { authApi } from '../lib/api-client.ts';
+import { useEffect } from 'preact/hooks';
+import {
+  authApi,
+  type LoginResponse,
+  oidcApi,
+  type OidcProviderInfo,
+  type TwoFactorChallengeResponse,
+  webauthnApi,
+} from '../lib/api-client.ts';
 import { TokenStorage } from '../lib/storage.ts';
 import { setAccessToken, setUser } from '../lib/store.ts';
 import { validateLoginForm } from '../lib/validation.ts';
+import { getPasskey, isPasskeySupported } from '../lib/webauthn.ts';
 
 interface LoginFormProps {
   redirectTo?: string;
+  providers?: OidcProviderInfo[];
 }
 
-export default function LoginForm({ redirectTo = '/' }: LoginFormProps) {
+export default function LoginForm({ redirectTo = '/', providers = [] }: LoginFormProps) {
   const email = useSignal('');
   const password = useSignal('');
   const error = useSignal('');
   const isLoading = useSignal(false);
+  const challengeToken = useSignal<string | null>(null);
+  const twoFactorCode = useSignal('');
+  const twoFactorMethods = useSignal<TwoFactorChallengeResponse['methods']>([]);
+  const passkeySupported = useSignal(false);
+
+  useEffect(() => {
+    passkeySupported.value = isPasskeySupported();
+
+    // Back from a social sign-in (see /api/auth/oidc/[provider]/callback)
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const oidcCode = params.get('oidc_code');
+    const oidcError = params.get('oidc_error');
+    if (oidcCode || oidcError) {
+      // Codes are single-use - don't leave them in history
+      history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+    if (oidcError) {
+      error.value = oidcError;
+    } else if (oidcCode) {
+      handleSocialLogin(oidcCode);
+    }
+  }, []);
+
+  const clearExistingAuth = () => {
+    // Clear any existing auth cookies before logging in
+    // This prevents issues with stale/expired tokens
+    if (IS_BROWSER) {
+      console.log('🧹 [Login] Clearing existing auth cookies');
+      document.cookie = 'auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 UTC; SameSite=Lax';
+      document.cookie = 'refresh_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 UTC; SameSite=Strict';
+      TokenStorage.clearAuth();
+    }
+  };
+
+  const completeLogin = (data: LoginResponse) => {
+    // Store user session using storage abstraction
+    if (IS_BROWSER) {
+      TokenStorage.setUserSession({
+        accessToken: data.accessToken,
+        email: data.user.email,
+        role: data.user.role,
+        emailVerified: data.user.emailVerified,
+      });
+
+      // Update global state store
+      setUser({
+        email: data.user.email,
+        role: data.user.role,
+        emailVerified: data.user.emailVerified,
+      });
+      setAccessToken(data.accessToken);
+
+      // Also set access token in cookie for server-side auth check (15 minutes expiry)
+      const expiryDate = new Date();
+      expiryDate.setMinutes(expiryDate.getMinutes() + 15);
+      document.cookie = `auth_token=${data.accessToken}; path=/; expires=${expiryDate.toUTCString()}; SameSite=Lax`;
+
+      // Redirect to intended page or home
+      window.location.href = redirectTo;
+    }
+  };
+
+  const handleTwoFactorSubmit = async (e: Event) => {
+    e.preventDefault();
+    error.value = '';
+
+    const code = twoFactorCode.value.trim();
+    if (code.length < 6) {
+      error.value = 'Enter the 6-digit code from your authenticator app or a backup code';
+      return;
+    }
+
+    isLoading.value = true;
+
+    try {
+      const data = await authApi.loginTwoFactor(challengeToken.value!, code);
+      completeLogin(data);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Verification failed';
+      isLoading.value = false;
+    }
+  };
+
+  const handleTwoFactorPasskey = async () => {
+    error.value = '';
+    isLoading.value = true;
+
+    try {
+      const { challengeId, options } = await webauthnApi.twoFactorOptions(challengeToken.value!);
+      const credential = await getPasskey(options);
+      const data = await webauthnApi.twoFactorVerify(challengeToken.value!, challengeId, credential);
+      completeLogin(data);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Passkey verification failed';
+      isLoading.value = false;
+    }
+  };
+
+  const handlePasskeyLogin = async () => {
+    error.value = '';
+    isLoading.value = true;
+    clearExistingAuth();
+
+    try {
+      const { challengeId, options } = await webauthnApi.loginOptions();
+      const credential = await getPasskey(options);
+      const data = await webauthnApi.loginVerify(challengeId, credential);
+      completeLogin(data);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Passkey sign-in failed';
+      isLoading.value = false;
+    }
+  };
+
+  const handleSocialLogin = async (code: string) => {
+    isLoading.value = true;
+    clearExistingAuth();
+
+    try {
+      const data = await oidcApi.exchange(code);
+
+      // 2FA enabled - switch to the code / passkey step
+      if ('requiresTwoFactor' in data) {
+        challengeToken.value = data.challengeToken;
+        twoFactorMethods.value = data.methods;
+        isLoading.value = false;
+        return;
+      }
+
+      completeLogin(data);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Sign-in failed';
+      isLoading.value = false;
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    challengeToken.value = null;
+    twoFactorMethods.value = [];
+    twoFactorCode.value = '';
+    password.value = '';
+    error.value = '';
+  };
 
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
@@ -39,51 +195,93 @@ export default function LoginForm({ redirectTo = '/' }: LoginFormProps) {
     }
 
     isLoading.value = true;
-
-    // Clear any existing auth cookies before logging in
-    // This prevents issues with stale/expired tokens
-    if (IS_BROWSER) {
-      console.log('🧹 [Login] Clearing existing auth cookies');
-      document.cookie = 'auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 UTC; SameSite=Lax';
-      document.cookie = 'refresh_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 UTC; SameSite=Strict';
-      TokenStorage.clearAuth();
-    }
+    clearExistingAuth();
 
     try {
       // Use API client for login
       const data = await authApi.login(email.value, password.value);
 
-      // Store user session using storage abstraction
-      if (IS_BROWSER) {
-        TokenStorage.setUserSession({
-          accessToken: data.accessToken,
-          email: data.user.email,
-          role: data.user.role,
-          emailVerified: data.user.emailVerified,
-        });
-
-        // Update global state store
-        setUser({
-          email: data.user.email,
-          role: data.user.role,
-          emailVerified: data.user.emailVerified,
-        });
-        setAccessToken(data.accessToken);
-
-        // Also set access token in cookie for server-side auth check (15 minutes expiry)
-        const expiryDate = new Date();
-        expiryDate.setMinutes(expiryDate.getMinutes() + 15);
-        document.cookie = `auth_token=${data.accessToken}; path=/; expires=${expiryDate.toUTCString()}; SameSite=Lax`;
-
-        // Redirect to intended page or home
-        window.location.href = redirectTo;
+      // 2FA enabled - switch to the code / passkey step
+      if ('requiresTwoFactor' in data) {
+        challengeToken.value = data.challengeToken;
+        twoFactorMethods.value = data.methods;
+        isLoading.value = false;
+        return;
       }
+
+      completeLogin(data);
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Login failed';
       isLoading.value = false;
     }
   };
 
+  if (challengeToken.value) {
+    return (
+      <form onSubmit={handleTwoFactorSubmit} class="space-y-6">
+        {error.value && (
+          <div class="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-900 text-red-700 dark:text-red-200 px-4 py-3 rounded-lg text-sm">
+            {error.value}
+          </div>
+        )}
+
+        {twoFactorMethods.value.includes('passkey') && (
+          <button
+            type="button"
+            onClick={handleTwoFactorPasskey}
+            disabled={isLoading.value}
+            class="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+          >
+            {isLoading.value ? 'Waiting for passkey...' : 'Use a Passkey'}
+          </button>
+        )}
+
+        {twoFactorMethods.value.includes('totp') && (
+          <>
+            <div>
+              <label htmlFor="twoFactorCode" class="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Authentication Code
+              </label>
+              <input
+                type="text"
+                id="twoFactorCode"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={twoFactorCode.value}
+                onInput={(e) => twoFactorCode.value = (e.target as HTMLInputElement).value}
+                required
+                maxLength={8}
+                class="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-center tracking-widest font-mono"
+                placeholder="000000"
+                disabled={isLoading.value}
+              />
+              <p class="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Enter the code from your authenticator app, or one of your backup codes.
+              </p>
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading.value}
+              class="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white font-semibold py-2 px-4 rounded-lg transition-colors"
+            >
+              {isLoading.value ? 'Verifying...' : 'Verify'}
+            </button>
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={cancelTwoFactor}
+          disabled={isLoading.value}
+          class="w-full text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200"
+        >
+          Back to sign in
+        </button>
+      </form>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} class="space-y-6">
       {error.value && (
@@ -131,6 +329,39 @@ export default function LoginForm({ redirectTo = '/' }: LoginFormProps) {
       >
         {isLoading.value ? 'Signing in...' : 'Sign In'}
       </button>
+
+      {passkeySupported.value && (
+        <button
+          type="button"
+          onClick={handlePasskeyLogin}
+          disabled={isLoading.value}
+          class="w-full border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 font-semibold py-2 px-4 rounded-lg transition-colors"
+        >
+          Sign in with a Passkey
+        </button>
+      )}
+
+      {providers.length > 0 && (
+        <div class="space-y-3">
+          <div class="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+            <span class="flex-1 border-t border-gray-200 dark:border-gray-700" />
+            or continue with
+            <span class="flex-1 border-t border-gray-200 dark:border-gray-700" />
+          </div>
+          {providers.map((provider) => (
+            <a
+              key={provider.id}
+              href={`/api/auth/oidc/${provider.id}/start?redirect=${encodeURIComponent(redirectTo)}`}
+              f-client-nav={false}
+              class={`block w-full text-center border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 font-semibold py-2 px-4 rounded-lg transition-colors ${
+                isLoading.value ? 'pointer-events-none opacity-50' : ''
+              }`}
+            >
+              Sign in with {provider.name}
+            </a>
+          ))}
+        </div>
+      )}
     </form>
   );
 }
@@ -2,22 +2,33 @@
  * Notification Bell Island
  * Real-time notifications dropdown
  *
+ * High and urgent notifications also pop up as toasts: high ones disappear
+ * after a few seconds, urgent ones stay until dismissed or read.
+ *
  * MIGRATED TO PREACT SIGNALS - uses global state store
  */
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
 import { useEffect } from 'preact/hooks';
+import NotificationActions from '../components/NotificationActions.tsx';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 import {
   accessToken,
+  dismissToast,
+  isNotificationExpired,
   isWsConnected,
   markAllNotificationsAsRead,
   markNotificationAsRead,
+  type Notification,
+  notificationToasts,
   notifications,
   removeNotification,
   unreadCount
 } from '../lib/store.ts';
 
+const TOAST_DURATION_MS = 8000;
+
 export default function NotificationBell() {
   // Local UI state
   const isOpen = useSignal(false);
@@ -65,6 +76,7 @@ export default function NotificationBell() {
         {
           method: 'PATCH',
           headers: {
+            ...(await getCsrfHeaders()),
             'Authorization': `Bearer ${token}`,
           },
           credentials: 'include',
@@ -93,6 +105,7 @@ export default function NotificationBell() {
       const response = await fetch(`/api/notifications/read-all`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
         credentials: 'include',
@@ -122,6 +135,7 @@ export default function NotificationBell() {
         {
           method: 'DELETE',
           headers: {
+            ...(await getCsrfHeaders()),
             'Authorization': `Bearer ${token}`,
           },
           credentials: 'include',
@@ -144,6 +158,17 @@ export default function NotificationBell() {
     }
   }, [isOpen.value]);
 
+  // Dismiss high priority toasts after a while (urgent ones stay)
+  useEffect(() => {
+    if (!IS_BROWSER) return;
+
+    const timers = notificationToasts.value
+      .filter((toast) => toast.priority === 'high')
+      .map((toast) => setTimeout(() => dismissToast(toast.id), TOAST_DURATION_MS));
+
+    return () => timers.forEach(clearTimeout);
+  }, [notificationToasts.value]);
+
   // Close dropdown when clicking outside
   useEffect(() => {
     if (!IS_BROWSER) return;
@@ -170,6 +195,15 @@ export default function NotificationBell() {
   // Don't render if user is not logged in
   if (!accessToken.value) return null;
 
+  // Expired notifications stay in the list until cleanup deletes them
+  const visibleNotifications = notifications.value.filter((n) => !isNotificationExpired(n));
+
+  const markAsReadIfUnread = (notification: Notification) => {
+    if (!notification.read) {
+      markAsRead(notification.id);
+    }
+  };
+
   // Icon colors based on notification type
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -216,6 +250,48 @@ export default function NotificationBell() {
 
   return (
     <div class="notification-dropdown relative">
+      {/* Toasts for high and urgent notifications */}
+      {notificationToasts.value.length > 0 && (
+        <div class="fixed top-4 right-4 z-50 flex flex-col gap-2 w-80" role="status" aria-live="polite">
+          {notificationToasts.value.slice(0, 3).map((toast) => (
+            <div
+              key={toast.id}
+              class={`bg-white rounded-lg shadow-lg border-l-4 p-4 ${
+                toast.priority === 'urgent' ? 'border-red-500' : 'border-yellow-500'
+              }`}
+            >
+              <div class="flex items-start gap-3">
+                <span class={`text-lg ${getTypeColor(toast.type)}`}>{getTypeIcon(toast.type)}</span>
+                <div class="flex-1 min-w-0">
+                  <h4 class="text-sm font-medium text-gray-900">
+                    {toast.title}
+                    {(toast.groupCount ?? 1) > 1 && (
+                      <span class="ml-2 text-xs font-semibold text-gray-500">×{toast.groupCount}</span>
+                    )}
+                  </h4>
+                  <p class="text-sm text-gray-600 mt-1">{toast.message}</p>
+                  <NotificationActions
+                    notification={toast}
+                    onDone={() => markAsReadIfUnread(toast)}
+                    compact
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => dismissToast(toast.id)}
+                  class="text-gray-400 hover:text-gray-600 flex-shrink-0"
+                  aria-label="Dismiss"
+                >
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Bell Icon with Badge */}
       <button
         type="button"
@@ -259,7 +335,7 @@ export default function NotificationBell() {
           {/* Header */}
           <div class="flex items-center justify-between px-4 py-3 border-b border-gray-200">
             <h3 class="text-lg font-semibold text-gray-900">Notifications</h3>
-            {notifications.value.length > 0 && unreadCount.value > 0 && (
+            {visibleNotifications.length > 0 && unreadCount.value > 0 && (
               <button
                 type="button"
                 onClick={markAllAsRead}
@@ -273,7 +349,7 @@ export default function NotificationBell() {
 
           {/* Notification List */}
           <div class="max-h-96 overflow-y-auto">
-            {notifications.value.length === 0 ? (
+            {visibleNotifications.length === 0 ? (
               <div class="px-4 py-8 text-center text-gray-500">
                 <svg
                   class="w-12 h-12 mx-auto mb-2 text-gray-400"
@@ -291,11 +367,13 @@ export default function NotificationBell() {
                 <p>No notifications yet</p>
               </div>
             ) : (
-              notifications.value.map((notification) => (
+              visibleNotifications.map((notification) => (
                 <div
                   key={notification.id}
                   class={`px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
                     !notification.read ? 'bg-blue-50' : ''
+                  } ${notification.priority === 'urgent' ? 'border-l-4 border-l-red-500' : ''} ${
+                    notification.priority === 'low' ? 'opacity-75' : ''
                   }`}
                 >
                   <div class="flex items-start gap-3">
@@ -321,6 +399,14 @@ export default function NotificationBell() {
                           }`}
                         >
                           {notification.title}
+                          {(notification.groupCount ?? 1) > 1 && (
+                            <span
+                              class="ml-2 inline-flex items-center px-1.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700"
+                              title={`${notification.groupCount} similar notifications`}
+                            >
+                              ×{notification.groupCount}
+                            </span>
+                          )}
                         </h4>
                         <button
                           type="button"
@@ -346,6 +432,11 @@ export default function NotificationBell() {
                       <p class="text-sm text-gray-600 mt-1">
                         {notification.message}
                       </p>
+                      <NotificationActions
+                        notification={notification}
+                        onDone={() => markAsReadIfUnread(notification)}
+                        compact
+                      />
                       <div class="flex items-center justify-between mt-2">
                         <span class="text-xs text-gray-500">
                           {formatRelativeTime(notification.createdAt)}
@@ -380,7 +471,7 @@ export default function NotificationBell() {
           </div>
 
           {/* Footer */}
-          {notifications.value.length > 0 && (
+          {visibleNotifications.length > 0 && (
             <div class="px-4 py-3 border-t border-gray-200 text-center">
               <a
                 href="/notifications"
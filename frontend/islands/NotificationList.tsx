@@ -2,13 +2,19 @@
  * Notification List Island
  *
  * MIGRATED TO PREACT SIGNALS - uses global state store
+ * Loads notifications a page at a time and fetches the next page as the
+ * end of the list scrolls into view. Shows action buttons, group counts and
+ * priority; expired notifications are hidden.
  */
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useComputed, useSignal } from '@preact/signals';
-import { useEffect } from 'preact/hooks';
+import { useEffect, useRef } from 'preact/hooks';
+import NotificationActions from '../components/NotificationActions.tsx';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 import {
     accessToken,
+    isNotificationExpired,
     isWsConnected,
     markAllNotificationsAsRead as markAllAsReadGlobal,
     markNotificationAsRead as markAsReadGlobal,
@@ -17,19 +23,25 @@ import {
     unreadCount,
 } from '../lib/store.ts';
 
+const PAGE_SIZE = 20;
+
 export default function NotificationList() {
   const isLoading = useSignal(true);
+  const isLoadingMore = useSignal(false);
   const filter = useSignal<'all' | 'unread'>('all');
+  const cursor = useSignal<string | null>(null);
+  const hasMore = useSignal(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
 
   // Filtered notifications based on current filter
   const filteredNotifications = useComputed(() =>
-    filter.value === 'unread'
-      ? notifications.value.filter((n) => !n.read)
-      : notifications.value
+    notifications.value.filter((n) =>
+      !isNotificationExpired(n) && (filter.value === 'all' || !n.read)
+    )
   );
 
-  // Fetch all notifications
-  const fetchNotifications = async () => {
+  // Fetch the first page (reset) or the page after the current cursor
+  const fetchNotifications = async (reset = true) => {
     if (!IS_BROWSER) return;
 
     const token = accessToken.value;
@@ -38,12 +50,23 @@ export default function NotificationList() {
       return;
     }
 
-    isLoading.value = true;
+    if (reset) {
+      isLoading.value = true;
+    } else {
+      isLoadingMore.value = true;
+    }
 
     try {
       const apiUrl = window.location.origin;
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+      if (filter.value === 'unread') {
+        params.set('read', 'false');
+      }
+      if (!reset && cursor.value) {
+        params.set('cursor', cursor.value);
+      }
 
-      const response = await fetch(`${apiUrl}/api/notifications?limit=100`, {
+      const response = await fetch(`${apiUrl}/api/notifications?${params}`, {
         headers: {
           'Authorization': `Bearer ${token}`,
         },
@@ -52,16 +75,40 @@ export default function NotificationList() {
 
       if (response.ok) {
         const data = await response.json();
-        notifications.value = data.data?.notifications || [];
+        const page = data.data?.notifications || [];
+
+        if (reset) {
+          notifications.value = page;
+        } else {
+          // Skip anything already shown (e.g. delivered over the WebSocket meanwhile)
+          const loaded = new Set(notifications.value.map((n) => n.id));
+          notifications.value = [...notifications.value, ...page.filter((n: { id: string }) => !loaded.has(n.id))];
+        }
+
+        cursor.value = data.data?.cursor ?? null;
+        hasMore.value = data.data?.hasMore ?? false;
         unreadCount.value = data.data?.unreadCount || 0;
       }
     } catch (error) {
       console.error('Error fetching notifications:', error);
     } finally {
       isLoading.value = false;
+      isLoadingMore.value = false;
     }
   };
 
+  const loadMore = () => {
+    if (isLoading.value || isLoadingMore.value || !hasMore.value) return;
+    fetchNotifications(false);
+  };
+
+  const selectFilter = (next: 'all' | 'unread') => {
+    if (filter.value === next) return;
+    filter.value = next;
+    cursor.value = null;
+    fetchNotifications();
+  };
+
   // Mark notification as read
   const markAsRead = async (notificationId: string) => {
     if (!IS_BROWSER) return;
@@ -77,6 +124,7 @@ export default function NotificationList() {
         {
           method: 'PATCH',
           headers: {
+            ...(await getCsrfHeaders()),
             'Authorization': `Bearer ${token}`,
           },
           credentials: 'include',
@@ -104,6 +152,7 @@ export default function NotificationList() {
       const response = await fetch(`${apiUrl}/api/notifications/read-all`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
         credentials: 'include',
@@ -132,6 +181,7 @@ export default function NotificationList() {
         {
           method: 'DELETE',
           headers: {
+            ...(await getCsrfHeaders()),
             'Authorization': `Bearer ${token}`,
           },
           credentials: 'include',
@@ -151,6 +201,22 @@ export default function NotificationList() {
     fetchNotifications();
   }, []);
 
+  // Load the next page when the end of the list comes into view. Re-observing
+  // after each page fires again if the end is still visible (short pages).
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore.value) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore.value, isLoading.value, isLoadingMore.value, notifications.value.length]);
+
   if (!IS_BROWSER) return null;
 
   // Icon colors based on notification type
@@ -245,18 +311,18 @@ export default function NotificationList() {
 
             <button
               type="button"
-              onClick={() => filter.value = 'all'}
+              onClick={() => selectFilter('all')}
               class={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                 filter.value === 'all'
                   ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200'
                   : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
               }`}
             >
-              All ({notifications.value.length})
+              All
             </button>
             <button
               type="button"
-              onClick={() => filter.value = 'unread'}
+              onClick={() => selectFilter('unread')}
               class={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
                 filter.value === 'unread'
                   ? 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-200'
@@ -316,7 +382,7 @@ export default function NotificationList() {
               key={notification.id}
               class={`px-6 py-4 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${
                 !notification.read ? 'bg-blue-50 dark:bg-blue-900' : 'dark:bg-gray-800'
-              }`}
+              } ${notification.priority === 'urgent' ? 'border-l-4 border-red-500' : ''}`}
             >
               <div class="flex items-start gap-4">
                 {/* Icon */}
@@ -330,12 +396,41 @@ export default function NotificationList() {
                     <div class="flex-1">
                       <h3 class={`text-base font-medium ${!notification.read ? 'text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'}`}>
                         {notification.title}
+                        {(notification.groupCount ?? 1) > 1 && (
+                          <span
+                            class="ml-2 inline-flex items-center px-2 rounded-full text-xs font-semibold bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200"
+                            title={`${notification.groupCount} similar notifications`}
+                          >
+                            ×{notification.groupCount}
+                          </span>
+                        )}
+                        {(notification.priority === 'high' || notification.priority === 'urgent') && (
+                          <span
+                            class={`ml-2 inline-flex items-center px-2 rounded-full text-xs font-medium ${
+                              notification.priority === 'urgent'
+                                ? 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200'
+                                : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-200'
+                            }`}
+                          >
+                            {notification.priority === 'urgent' ? 'Urgent' : 'Important'}
+                          </span>
+                        )}
                       </h3>
                       <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
                         {notification.message}
                       </p>
                       <div class="mt-2 flex items-center gap-4 text-xs text-gray-500 dark:text-gray-400">
                         <span>{formatDate(notification.createdAt)}</span>
+                        {notification.expiresAt && (
+                          <span>
+                            Expires {new Date(notification.expiresAt).toLocaleString('en-US', {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: 'numeric',
+                              minute: '2-digit',
+                            })}
+                          </span>
+                        )}
                         {notification.read && notification.readAt && (
                           <span class="flex items-center gap-1">
                             <svg class="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
@@ -374,6 +469,11 @@ export default function NotificationList() {
                     </div>
                   </div>
 
+                  <NotificationActions
+                    notification={notification}
+                    onDone={() => !notification.read && markAsRead(notification.id)}
+                  />
+
                   {/* Link */}
                   {notification.link && (
                     <a
@@ -393,6 +493,21 @@ export default function NotificationList() {
           ))
         )}
       </div>
+
+      {/* Infinite scroll sentinel */}
+      {!isLoading.value && hasMore.value && (
+        <div ref={sentinelRef} class="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          {isLoadingMore.value ? 'Loading more...' : (
+            <button
+              type="button"
+              onClick={loadMore}
+              class="text-blue-600 dark:text-blue-300 hover:text-blue-800 dark:hover:text-blue-400"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -7,7 +7,20 @@
 import { IS_BROWSER } from "$fresh/runtime.ts";
 import { useSignal } from "@preact/signals";
 import { useEffect } from "preact/hooks";
-import { userApi } from "../lib/api-client.ts";
+import {
+  type EmailDeliveryOption,
+  type LinkedIdentityData,
+  type NotificationCategoryKey,
+  notificationApi,
+  type NotificationPreferencesData,
+  type NotificationPreferencesUpdate,
+  type NotificationTypeKey,
+  oidcApi,
+  type OidcProviderInfo,
+  type SessionData,
+  userApi,
+} from "../lib/api-client.ts";
+import { disablePush, enablePush, getPushSubscription, isPushSupported } from "../lib/push-notifications.ts";
 import { TokenStorage } from "../lib/storage.ts";
 
 interface User {
@@ -18,13 +31,67 @@ interface User {
   createdAt: string;
   emailVerified: boolean;
   twoFactorEnabled: boolean;
+  pendingEmail?: string | null;
 }
 
+const notificationCategories: { key: NotificationCategoryKey; label: string; description: string }[] = [
+  { key: "general", label: "General", description: "Everyday updates" },
+  { key: "account", label: "Account", description: "Changes to your profile and settings" },
+  { key: "security", label: "Security", description: "Sign-ins and security alerts - always shown in-app" },
+  { key: "announcements", label: "Announcements", description: "News about the service" },
+];
+
+const emailDeliveryOptions: { value: EmailDeliveryOption; label: string }[] = [
+  { value: "immediate", label: "Right away" },
+  { value: "daily", label: "Daily digest" },
+  { value: "weekly", label: "Weekly digest" },
+  { value: "off", label: "Off" },
+];
+
+const notificationTypes: NotificationTypeKey[] = ["info", "success", "warning", "error"];
+
+const inputClass = "mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400";
+
 export default function ProfileSettings() {
   const user = useSignal<User | null>(null);
   const error = useSignal<string | null>(null);
   const loading = useSignal(true);
 
+  // Profile edit form
+  const nameInput = useSignal("");
+  const emailInput = useSignal("");
+  const emailPasswordInput = useSignal("");
+  const profileSaving = useSignal(false);
+  const profileMessage = useSignal<string | null>(null);
+  const profileError = useSignal<string | null>(null);
+
+  // Change password form
+  const currentPassword = useSignal("");
+  const newPassword = useSignal("");
+  const passwordSaving = useSignal(false);
+  const passwordMessage = useSignal<string | null>(null);
+  const passwordError = useSignal<string | null>(null);
+
+  // Signed-in devices
+  const sessions = useSignal<SessionData[]>([]);
+  const sessionsError = useSignal<string | null>(null);
+  const revokingSession = useSignal<string | null>(null);
+
+  // Linked social accounts
+  const identities = useSignal<LinkedIdentityData[]>([]);
+  const providers = useSignal<OidcProviderInfo[]>([]);
+  const identitiesMessage = useSignal<string | null>(null);
+  const identitiesError = useSignal<string | null>(null);
+  const identityBusy = useSignal<string | null>(null);
+
+  // Notification delivery preferences
+  const notificationPrefs = useSignal<NotificationPreferencesData | null>(null);
+  const notificationPrefsError = useSignal<string | null>(null);
+  const notificationPrefsSaving = useSignal(false);
+  const pushSupported = useSignal(false);
+  const pushEnabled = useSignal(false);
+  const pushBusy = useSignal(false);
+
   useEffect(() => {
     if (!IS_BROWSER) return;
 
@@ -39,6 +106,12 @@ export default function ProfileSettings() {
         // Use API client for profile fetch
         const data = await userApi.getProfile();
         user.value = data as unknown as User;
+        nameInput.value = user.value.name || "";
+        emailInput.value = user.value.email;
+        await fetchSessions();
+        await fetchIdentities();
+        await fetchNotificationPreferences();
+        await fetchPushStatus();
       } catch (err) {
         console.error("Profile fetch error:", err);
         if (err instanceof Error && err.message.includes('Authentication required')) {
@@ -52,9 +125,184 @@ export default function ProfileSettings() {
       }
     }
 
+    // Back from linking a social account (see /api/auth/oidc/[provider]/callback)
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const linked = params.get("oidc_linked");
+    const linkError = params.get("oidc_error");
+    if (linked || linkError) {
+      history.replaceState(null, "", window.location.pathname + window.location.search);
+      identitiesMessage.value = linked ? "Account linked successfully" : null;
+      identitiesError.value = linkError;
+    }
+
     fetchProfile();
   }, []);
 
+  async function fetchSessions() {
+    try {
+      const data = await userApi.getSessions();
+      sessions.value = data.sessions;
+      sessionsError.value = null;
+    } catch (err) {
+      sessionsError.value = err instanceof Error ? err.message : "Failed to load devices";
+    }
+  }
+
+  async function fetchIdentities() {
+    try {
+      const data = await oidcApi.listIdentities();
+      identities.value = data.identities;
+      providers.value = data.providers;
+    } catch (err) {
+      identitiesError.value = err instanceof Error ? err.message : "Failed to load linked accounts";
+    }
+  }
+
+  async function fetchNotificationPreferences() {
+    try {
+      notificationPrefs.value = await notificationApi.getPreferences();
+    } catch (err) {
+      notificationPrefsError.value = err instanceof Error ? err.message : "Failed to load notification settings";
+    }
+  }
+
+  async function fetchPushStatus() {
+    pushSupported.value = isPushSupported();
+    if (!pushSupported.value) return;
+
+    try {
+      pushEnabled.value = (await getPushSubscription()) !== null;
+    } catch {
+      pushEnabled.value = false;
+    }
+  }
+
+  async function handlePushToggle(enabled: boolean) {
+    pushBusy.value = true;
+    notificationPrefsError.value = null;
+
+    try {
+      if (enabled) {
+        await enablePush();
+      } else {
+        await disablePush();
+      }
+      pushEnabled.value = enabled;
+    } catch (err) {
+      notificationPrefsError.value = err instanceof Error ? err.message : "Failed to update push notifications";
+    } finally {
+      pushBusy.value = false;
+    }
+  }
+
+  async function handleNotificationPrefsChange(updates: NotificationPreferencesUpdate) {
+    notificationPrefsSaving.value = true;
+    notificationPrefsError.value = null;
+
+    try {
+      notificationPrefs.value = await notificationApi.updatePreferences(updates);
+    } catch (err) {
+      notificationPrefsError.value = err instanceof Error ? err.message : "Failed to save notification settings";
+    } finally {
+      notificationPrefsSaving.value = false;
+    }
+  }
+
+  async function handleLinkIdentity(provider: OidcProviderInfo) {
+    identityBusy.value = provider.id;
+    identitiesMessage.value = null;
+    identitiesError.value = null;
+
+    try {
+      const { authorizationUrl } = await oidcApi.startLink(provider.id);
+      window.location.href = authorizationUrl;
+    } catch (err) {
+      identitiesError.value = err instanceof Error ? err.message : "Failed to link account";
+      identityBusy.value = null;
+    }
+  }
+
+  async function handleUnlinkIdentity(identity: LinkedIdentityData) {
+    if (!confirm(`Unlink your ${identity.providerName} account? You won't be able to sign in with it any more.`)) return;
+
+    identityBusy.value = identity.provider;
+    identitiesMessage.value = null;
+    identitiesError.value = null;
+
+    try {
+      await oidcApi.unlink(identity.provider);
+      identities.value = identities.value.filter((i) => i.provider !== identity.provider);
+    } catch (err) {
+      identitiesError.value = err instanceof Error ? err.message : "Failed to unlink account";
+    } finally {
+      identityBusy.value = null;
+    }
+  }
+
+  async function handleRevokeSession(session: SessionData) {
+    if (!confirm(`Sign out ${session.deviceLabel}?`)) return;
+
+    revokingSession.value = session.id;
+    sessionsError.value = null;
+
+    try {
+      await userApi.revokeSession(session.id);
+      sessions.value = sessions.value.filter((s) => s.id !== session.id);
+    } catch (err) {
+      sessionsError.value = err instanceof Error ? err.message : "Failed to sign out device";
+    } finally {
+      revokingSession.value = null;
+    }
+  }
+
+  async function handleProfileSubmit(e: Event) {
+    e.preventDefault();
+    if (!user.value) return;
+
+    const updates: { name?: string; email?: string; currentPassword?: string } = {};
+    if (nameInput.value.trim() !== (user.value.name || "")) updates.name = nameInput.value.trim();
+    if (emailInput.value.trim() !== user.value.email) {
+      updates.email = emailInput.value.trim();
+      updates.currentPassword = emailPasswordInput.value;
+    }
+    if (Object.keys(updates).length === 0) return;
+
+    profileSaving.value = true;
+    profileMessage.value = null;
+    profileError.value = null;
+
+    try {
+      const { message, ...profile } = await userApi.updateProfile(updates);
+      user.value = { ...user.value, ...profile } as User;
+      emailInput.value = user.value.email;
+      emailPasswordInput.value = "";
+      profileMessage.value = message || "Profile updated";
+    } catch (err) {
+      profileError.value = err instanceof Error ? err.message : "Failed to update profile";
+    } finally {
+      profileSaving.value = false;
+    }
+  }
+
+  async function handlePasswordSubmit(e: Event) {
+    e.preventDefault();
+
+    passwordSaving.value = true;
+    passwordMessage.value = null;
+    passwordError.value = null;
+
+    try {
+      const result = await userApi.changePassword(currentPassword.value, newPassword.value);
+      passwordMessage.value = result.message;
+      currentPassword.value = "";
+      newPassword.value = "";
+    } catch (err) {
+      passwordError.value = err instanceof Error ? err.message : "Failed to change password";
+    } finally {
+      passwordSaving.value = false;
+    }
+  }
+
   if (!IS_BROWSER) {
     return <div class="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
       <div class="text-gray-600 dark:text-gray-300">Loading...</div>
@@ -129,6 +377,11 @@ export default function ProfileSettings() {
               <div>
                 <label class="block text-sm font-medium text-gray-700 dark:text-gray-300">Email</label>
                 <p class="mt-1 text-sm text-gray-900 dark:text-gray-100">{user.value.email}</p>
+                {user.value.pendingEmail && (
+                  <p class="mt-1 text-xs text-yellow-700 dark:text-yellow-300">
+                    Pending change to {user.value.pendingEmail} - check that inbox to confirm
+                  </p>
+                )}
               </div>
               <div>
                 <label class="block text-sm font-medium text-gray-700 dark:text-gray-300">Role</label>
@@ -155,9 +408,129 @@ export default function ProfileSettings() {
                 </div>
               </div>
             </div>
+
+            <form onSubmit={handleProfileSubmit} class="border-t border-gray-200 dark:border-gray-700 pt-4 space-y-4">
+              {profileMessage.value && (
+                <div class="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-4 py-3 rounded-lg text-sm">
+                  {profileMessage.value}
+                </div>
+              )}
+              {profileError.value && (
+                <div class="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm">
+                  {profileError.value}
+                </div>
+              )}
+              <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="profile-name" class="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                  <input
+                    id="profile-name"
+                    type="text"
+                    value={nameInput.value}
+                    onInput={(e) => nameInput.value = (e.target as HTMLInputElement).value}
+                    required
+                    maxLength={100}
+                    class={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="profile-email" class="block text-sm font-medium text-gray-700 dark:text-gray-300">Email</label>
+                  <input
+                    id="profile-email"
+                    type="email"
+                    value={emailInput.value}
+                    onInput={(e) => emailInput.value = (e.target as HTMLInputElement).value}
+                    required
+                    class={inputClass}
+                  />
+                </div>
+              </div>
+              {user.value && emailInput.value.trim() !== user.value.email && (
+                <div>
+                  <label htmlFor="profile-email-password" class="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Current password
+                  </label>
+                  <input
+                    id="profile-email-password"
+                    type="password"
+                    autocomplete="current-password"
+                    value={emailPasswordInput.value}
+                    onInput={(e) => emailPasswordInput.value = (e.target as HTMLInputElement).value}
+                    required
+                    class={inputClass}
+                  />
+                </div>
+              )}
+              <p class="text-xs text-gray-500 dark:text-gray-400">
+                Changing your email needs your current password and sends a confirmation link to the new address. Your current email stays active until you confirm, and gets a link to cancel the change.
+              </p>
+              <button
+                type="submit"
+                disabled={profileSaving.value}
+                class="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+              >
+                {profileSaving.value ? "Saving..." : "Save Changes"}
+              </button>
+            </form>
           </div>
         </div>
 
+        {/* Change Password */}
+        <div id="change-password" class="bg-white dark:bg-gray-800 shadow rounded-lg mb-6">
+          <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100">Change Password</h2>
+          </div>
+          <form onSubmit={handlePasswordSubmit} class="px-6 py-4 space-y-4">
+            {passwordMessage.value && (
+              <div class="bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-4 py-3 rounded-lg text-sm">
+                {passwordMessage.value}
+              </div>
+            )}
+            {passwordError.value && (
+              <div class="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm">
+                {passwordError.value}
+              </div>
+            )}
+            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="current-password" class="block text-sm font-medium text-gray-700 dark:text-gray-300">Current Password</label>
+                <input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword.value}
+                  onInput={(e) => currentPassword.value = (e.target as HTMLInputElement).value}
+                  required
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="new-password" class="block text-sm font-medium text-gray-700 dark:text-gray-300">New Password</label>
+                <input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword.value}
+                  onInput={(e) => newPassword.value = (e.target as HTMLInputElement).value}
+                  required
+                  minLength={8}
+                  class={inputClass}
+                />
+              </div>
+            </div>
+            <p class="text-xs text-gray-500 dark:text-gray-400">
+              At least 8 characters with upper and lower case letters and a number. Other devices will be signed out.
+            </p>
+            <button
+              type="submit"
+              disabled={passwordSaving.value}
+              class="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+            >
+              {passwordSaving.value ? "Updating..." : "Update Password"}
+            </button>
+          </form>
+        </div>
+
         {/* Security Settings */}
         <div class="bg-white dark:bg-gray-800 shadow rounded-lg mb-6">
           <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
@@ -205,6 +578,222 @@ export default function ProfileSettings() {
           </div>
         </div>
 
+        {/* Linked Accounts */}
+        {(providers.value.length > 0 || identities.value.length > 0) && (
+          <div id="linked-accounts" class="bg-white dark:bg-gray-800 shadow rounded-lg mb-6">
+            <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100">Linked Accounts</h2>
+              <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+                Sign in with these accounts instead of your password.
+              </p>
+            </div>
+            <div class="px-6 py-4">
+              {identitiesMessage.value && (
+                <div class="mb-4 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-4 py-3 rounded-lg text-sm">
+                  {identitiesMessage.value}
+                </div>
+              )}
+              {identitiesError.value && (
+                <div class="mb-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm">
+                  {identitiesError.value}
+                </div>
+              )}
+              <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+                {identities.value.map((identity) => (
+                  <li key={identity.provider} class="py-3 flex items-center justify-between gap-4">
+                    <div class="min-w-0">
+                      <p class="text-sm font-medium text-gray-900 dark:text-gray-100">{identity.providerName}</p>
+                      <p class="text-xs text-gray-600 dark:text-gray-400">
+                        {identity.email || identity.name || "Linked"} · Linked {new Date(identity.linkedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleUnlinkIdentity(identity)}
+                      disabled={identityBusy.value === identity.provider}
+                      class="shrink-0 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-3 py-1.5 rounded-md text-sm font-medium transition-colors"
+                    >
+                      {identityBusy.value === identity.provider ? "Unlinking..." : "Unlink"}
+                    </button>
+                  </li>
+                ))}
+                {providers.value
+                  .filter((provider) => !identities.value.some((i) => i.provider === provider.id))
+                  .map((provider) => (
+                    <li key={provider.id} class="py-3 flex items-center justify-between gap-4">
+                      <p class="text-sm font-medium text-gray-900 dark:text-gray-100">{provider.name}</p>
+                      <button
+                        type="button"
+                        onClick={() => handleLinkIdentity(provider)}
+                        disabled={identityBusy.value === provider.id}
+                        class="shrink-0 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-1.5 rounded-md text-sm font-medium transition-colors"
+                      >
+                        {identityBusy.value === provider.id ? "Redirecting..." : "Link"}
+                      </button>
+                    </li>
+                  ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
+        {/* Your Devices */}
+        <div id="devices" class="bg-white dark:bg-gray-800 shadow rounded-lg mb-6">
+          <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100">Your Devices</h2>
+            <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Devices currently signed in to your account. Sign out any you don't recognise.
+            </p>
+          </div>
+          <div class="px-6 py-4">
+            {sessionsError.value && (
+              <div class="mb-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm">
+                {sessionsError.value}
+              </div>
+            )}
+            {sessions.value.length === 0 ? (
+              <p class="text-sm text-gray-600 dark:text-gray-400">No active sessions</p>
+            ) : (
+              <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+                {sessions.value.map((session) => (
+                  <li key={session.id} class="py-3 flex items-center justify-between gap-4">
+                    <div class="min-w-0">
+                      <p class="text-sm font-medium text-gray-900 dark:text-gray-100">
+                        {session.deviceLabel}
+                        {session.current && (
+                          <span class="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200">
+                            This device
+                          </span>
+                        )}
+                      </p>
+                      <p class="text-xs text-gray-600 dark:text-gray-400">
+                        {session.ipAddress || "Unknown IP"} · Last active {new Date(session.lastUsedAt).toLocaleString()}
+                      </p>
+                      <p class="text-xs text-gray-500 dark:text-gray-500">
+                        Signed in {new Date(session.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    {!session.current && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevokeSession(session)}
+                        disabled={revokingSession.value === session.id}
+                        class="shrink-0 bg-gray-600 hover:bg-gray-700 disabled:bg-gray-400 text-white px-3 py-1.5 rounded-md text-sm font-medium transition-colors"
+                      >
+                        {revokingSession.value === session.id ? "Signing out..." : "Sign out"}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {/* Notifications */}
+        <div id="notifications" class="bg-white dark:bg-gray-800 shadow rounded-lg mb-6">
+          <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h2 class="text-lg font-medium text-gray-900 dark:text-gray-100">Notifications</h2>
+            <p class="mt-1 text-sm text-gray-600 dark:text-gray-400">
+              Choose how you hear about each kind of notification. Changes are saved straight away.
+            </p>
+          </div>
+          <div class="px-6 py-4">
+            {notificationPrefsError.value && (
+              <div class="mb-4 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-lg text-sm">
+                {notificationPrefsError.value}
+              </div>
+            )}
+            {notificationPrefs.value && (
+              <>
+                <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+                  {notificationCategories.map(({ key, label, description }) => {
+                    const channels = notificationPrefs.value!.categories[key];
+                    return (
+                      <li key={key} class="py-3 flex flex-wrap items-center justify-between gap-4">
+                        <div class="min-w-0">
+                          <p class="text-sm font-medium text-gray-900 dark:text-gray-100">{label}</p>
+                          <p class="text-xs text-gray-600 dark:text-gray-400">{description}</p>
+                        </div>
+                        <div class="flex items-center gap-4">
+                          <label class="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={channels.inApp || key === "security"}
+                              disabled={key === "security" || notificationPrefsSaving.value}
+                              onChange={(e) =>
+                                handleNotificationPrefsChange({
+                                  categories: { [key]: { inApp: (e.target as HTMLInputElement).checked } },
+                                })}
+                            />
+                            In-app
+                          </label>
+                          <label class="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            Email
+                            <select
+                              value={channels.email}
+                              disabled={notificationPrefsSaving.value}
+                              onChange={(e) =>
+                                handleNotificationPrefsChange({
+                                  categories: {
+                                    [key]: { email: (e.target as HTMLSelectElement).value as EmailDeliveryOption },
+                                  },
+                                })}
+                              class="px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md text-sm"
+                            >
+                              {emailDeliveryOptions.map((option) => (
+                                <option key={option.value} value={option.value}>{option.label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div class="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <p class="text-sm font-medium text-gray-900 dark:text-gray-100">Email me about</p>
+                  <div class="mt-2 flex flex-wrap gap-4">
+                    {notificationTypes.map((type) => (
+                      <label key={type} class="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 capitalize">
+                        <input
+                          type="checkbox"
+                          checked={notificationPrefs.value!.emailTypes[type]}
+                          disabled={notificationPrefsSaving.value}
+                          onChange={(e) =>
+                            handleNotificationPrefsChange({
+                              emailTypes: { [type]: (e.target as HTMLInputElement).checked },
+                            })}
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                {pushSupported.value && (
+                  <div class="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-4">
+                    <div class="min-w-0">
+                      <p class="text-sm font-medium text-gray-900 dark:text-gray-100">Browser push</p>
+                      <p class="text-xs text-gray-600 dark:text-gray-400">
+                        Show notifications on this device when the site isn't open.
+                      </p>
+                    </div>
+                    <label class="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={pushEnabled.value}
+                        disabled={pushBusy.value}
+                        onChange={(e) => handlePushToggle((e.target as HTMLInputElement).checked)}
+                      />
+                      {pushBusy.value ? "Updating..." : "This browser"}
+                    </label>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
         {/* Quick Actions */}
         <div class="bg-white dark:bg-gray-800 shadow rounded-lg">
           <div class="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
@@ -213,7 +802,7 @@ export default function ProfileSettings() {
           <div class="px-6 py-4">
             <div class="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
               <a
-                href="/forgot-password"
+                href="#change-password"
                 class="border border-gray-300 dark:border-gray-700 rounded-lg p-4 hover:border-blue-500 dark:hover:border-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900 transition-colors"
               >
                 <div class="text-lg">🔒</div>
@@ -1,20 +1,23 @@
 /**
  * Two-Factor Authentication Setup Island
- * Handles 2FA enrollment with QR code display
+ * Handles 2FA enrollment with QR code display, or registering a passkey
+ * as the second factor, and lists the user's passkeys
  *
  * MIGRATED TO API CLIENT
  */
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
-import { twoFactorApi } from '../lib/api-client.ts';
+import { useEffect } from 'preact/hooks';
+import { type PasskeyInfo, twoFactorApi, webauthnApi } from '../lib/api-client.ts';
+import { createPasskey, isPasskeySupported } from '../lib/webauthn.ts';
 
 interface TwoFactorSetupProps {
   onComplete?: () => void;
 }
 
 export default function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
-  const step = useSignal<'password' | 'scan' | 'verify' | 'backup'>('password');
+  const step = useSignal<'password' | 'scan' | 'verify' | 'backup' | 'passkey-added'>('password');
   const password = useSignal('');
   const verificationCode = useSignal('');
   const qrCodeURL = useSignal('');
@@ -22,6 +25,63 @@ export default function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
   const backupCodes = useSignal<string[]>([]);
   const error = useSignal('');
   const isLoading = useSignal(false);
+  const passkeys = useSignal<PasskeyInfo[]>([]);
+  const passkeyName = useSignal('');
+  const passkeySupported = useSignal(false);
+
+  const loadPasskeys = async () => {
+    try {
+      const data = await webauthnApi.listPasskeys();
+      passkeys.value = data.passkeys;
+    } catch {
+      // List is informational - setup still works without it
+    }
+  };
+
+  useEffect(() => {
+    passkeySupported.value = isPasskeySupported();
+    loadPasskeys();
+  }, []);
+
+  const handleAddPasskey = async () => {
+    error.value = '';
+    if (!password.value) {
+      error.value = 'Enter your password to add a passkey';
+      return;
+    }
+
+    isLoading.value = true;
+
+    try {
+      const { challengeId, options } = await webauthnApi.registerOptions(password.value);
+      const credential = await createPasskey(options);
+      await webauthnApi.registerVerify(challengeId, credential, passkeyName.value.trim() || undefined);
+
+      password.value = '';
+      passkeyName.value = '';
+      await loadPasskeys();
+      step.value = 'passkey-added';
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to add passkey';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  const handleRemovePasskey = async (passkey: PasskeyInfo) => {
+    if (IS_BROWSER && !confirm(`Remove the passkey "${passkey.name}"? You won't be able to sign in with it anymore.`)) {
+      return;
+    }
+
+    error.value = '';
+
+    try {
+      await webauthnApi.deletePasskey(passkey.id);
+      passkeys.value = passkeys.value.filter((p) => p.id !== passkey.id);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to remove passkey';
+    }
+  };
 
   const handlePasswordSubmit = async (e: Event) => {
     e.preventDefault();
@@ -113,12 +173,92 @@ export default function TwoFactorSetup({ onComplete }: TwoFactorSetupProps) {
               disabled={isLoading.value}
               class="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 text-white font-medium py-2 px-4 rounded-md transition-colors"
             >
-              {isLoading.value ? 'Setting up...' : 'Continue'}
+              {isLoading.value ? 'Setting up...' : 'Continue with Authenticator App'}
             </button>
+
+            {passkeySupported.value && (
+              <div class="border-t border-gray-200 pt-4 space-y-3">
+                <p class="text-sm text-gray-600">
+                  Or use a passkey instead: your device's fingerprint, face or screen lock, or a security key.
+                  Passkeys also let you sign in without a password.
+                </p>
+                <input
+                  type="text"
+                  value={passkeyName.value}
+                  onInput={(e) => passkeyName.value = (e.target as HTMLInputElement).value}
+                  maxLength={100}
+                  class="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  placeholder="Passkey name (e.g. MacBook Touch ID)"
+                  disabled={isLoading.value}
+                />
+                <button
+                  type="button"
+                  onClick={handleAddPasskey}
+                  disabled={isLoading.value}
+                  class="w-full border border-purple-600 text-purple-700 hover:bg-purple-50 disabled:opacity-50 font-medium py-2 px-4 rounded-md transition-colors"
+                >
+                  {isLoading.value ? 'Waiting for passkey...' : 'Use a Passkey Instead'}
+                </button>
+              </div>
+            )}
           </form>
         </div>
       )}
 
+      {/* Passkey Added Step */}
+      {step.value === 'passkey-added' && (
+        <div class="bg-white rounded-lg shadow-lg p-8">
+          <div class="flex items-center gap-3 mb-4">
+            <svg class="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" />
+            </svg>
+            <h2 class="text-2xl font-bold text-gray-900">Passkey Added</h2>
+          </div>
+          <p class="text-gray-600 mb-6">
+            You'll be asked for your passkey after your password when signing in, and you can use it on its own
+            with "Sign in with a passkey".
+          </p>
+
+          <button
+            type="button"
+            onClick={handleFinish}
+            class="w-full bg-purple-600 hover:bg-purple-700 text-white font-medium py-2 px-4 rounded-md transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* Registered Passkeys */}
+      {passkeys.value.length > 0 && (step.value === 'password' || step.value === 'passkey-added') && (
+        <div class="bg-white rounded-lg shadow-lg p-8 mt-6">
+          <h3 class="text-lg font-semibold text-gray-900 mb-4">Your Passkeys</h3>
+          <ul class="divide-y divide-gray-200">
+            {passkeys.value.map((passkey) => (
+              <li key={passkey.id} class="flex items-center justify-between py-3">
+                <div>
+                  <p class="text-sm font-medium text-gray-900">
+                    {passkey.name}
+                    {passkey.backedUp && <span class="ml-2 text-xs text-gray-500">Synced</span>}
+                  </p>
+                  <p class="text-xs text-gray-500">
+                    Added {new Date(passkey.createdAt).toLocaleDateString()}
+                    {passkey.lastUsedAt && ` · Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemovePasskey(passkey)}
+                  class="text-sm text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* QR Code Scan Step */}
       {step.value === 'scan' && (
         <div class="bg-white rounded-lg shadow-lg p-8">
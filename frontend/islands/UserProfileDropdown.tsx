@@ -8,7 +8,9 @@
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useComputed, useSignal } from '@preact/signals';
 import { useEffect, useRef } from 'preact/hooks';
+import { getCsrfHeaders } from '../lib/api-client.ts';
 import { isTokenExpired } from '../lib/jwt.ts';
+import { disablePush } from '../lib/push-notifications.ts';
 import { TokenStorage } from '../lib/storage.ts';
 import {
   accessToken,
@@ -209,6 +211,7 @@ export default function UserProfileDropdown({ initialEmail, initialRole }: UserP
       const response = await fetch(`/api/notifications/${notificationId}/read`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${token}`,
         },
         credentials: 'include',
@@ -232,9 +235,17 @@ export default function UserProfileDropdown({ initialEmail, initialRole }: UserP
     // Clean up WebSocket connections immediately
     cleanupWebSocket();
 
+    // Stop pushes to this browser while still signed in to tell the server
+    try {
+      await disablePush();
+    } catch (error) {
+      console.error('Push unsubscribe error:', error);
+    }
+
     try {
       await fetch(`/api/auth/logout`, {
         method: 'POST',
+        headers: await getCsrfHeaders(),
         credentials: 'include',
       });
     } catch (error) {
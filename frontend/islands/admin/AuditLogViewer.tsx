@@ -0,0 +1,318 @@
+/**
+ * Audit Log Viewer Island
+ * Filter, page through and export the security audit log
+ */
+
+import { IS_BROWSER } from '$fresh/runtime.ts';
+import { useSignal } from '@preact/signals';
+import { useEffect } from 'preact/hooks';
+import { TokenStorage } from '../../lib/storage.ts';
+
+interface AuditLogEntry {
+  id: string;
+  action: string;
+  actorId: string | null;
+  targetId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  metadata: Record<string, unknown>;
+  timestamp: string;
+}
+
+// Mirrors AuditActionSchema in shared/types/audit.ts
+const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'auth.account_locked',
+  'auth.logout',
+  'auth.2fa_enabled',
+  'auth.2fa_disabled',
+  'auth.2fa_backup_codes_regenerated',
+  'auth.passkey_registered',
+  'auth.passkey_removed',
+  'auth.identity_linked',
+  'auth.identity_unlinked',
+  'user.role_changed',
+  'user.deleted',
+  'session.revoked',
+  'session.revoked_all',
+];
+
+const PAGE_SIZE = 50;
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-md text-sm';
+const secondaryButtonClass =
+  'px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:bg-gray-100 dark:disabled:bg-gray-800 disabled:cursor-not-allowed text-sm font-medium';
+
+export default function AuditLogViewer() {
+  const entries = useSignal<AuditLogEntry[]>([]);
+  const cursor = useSignal<string | null>(null);
+  const loading = useSignal(false);
+  const exporting = useSignal(false);
+  const error = useSignal('');
+
+  const action = useSignal('');
+  const actorId = useSignal('');
+  const targetId = useSignal('');
+  const from = useSignal('');
+  const to = useSignal('');
+
+  useEffect(() => {
+    if (IS_BROWSER) {
+      fetchEntries();
+    }
+  }, []);
+
+  // Build filter params shared by the list and the CSV export
+  const buildFilterParams = (): URLSearchParams => {
+    const params = new URLSearchParams();
+
+    if (action.value) params.append('action', action.value);
+    if (actorId.value.trim()) params.append('actorId', actorId.value.trim());
+    if (targetId.value.trim()) params.append('targetId', targetId.value.trim());
+    // datetime-local inputs are in local time; the API expects ISO 8601
+    if (from.value) params.append('from', new Date(from.value).toISOString());
+    if (to.value) params.append('to', new Date(to.value).toISOString());
+
+    return params;
+  };
+
+  const fetchEntries = async (append = false) => {
+    loading.value = true;
+    error.value = '';
+
+    try {
+      const params = buildFilterParams();
+      params.append('limit', PAGE_SIZE.toString());
+      if (append && cursor.value) {
+        params.append('cursor', cursor.value);
+      }
+
+      const response = await fetch(`/api/admin/audit?${params}`, {
+        headers: {
+          'Authorization': `Bearer ${TokenStorage.getAccessToken()}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        error.value = data.error?.message || 'Failed to fetch audit log';
+        return;
+      }
+
+      entries.value = append ? [...entries.value, ...data.data.entries] : data.data.entries;
+      cursor.value = data.data.hasMore ? data.data.cursor : null;
+    } catch (_err) {
+      error.value = 'Network error. Please try again.';
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  // The API only accepts Bearer auth, so fetch the CSV and save it as a blob
+  const exportCsv = async () => {
+    exporting.value = true;
+    error.value = '';
+
+    try {
+      const response = await fetch(`/api/admin/audit/export?${buildFilterParams()}`, {
+        headers: {
+          'Authorization': `Bearer ${TokenStorage.getAccessToken()}`,
+        },
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        error.value = data?.error?.message || 'Failed to export audit log';
+        return;
+      }
+
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ||
+        'audit-log.csv';
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (_err) {
+      error.value = 'Network error. Please try again.';
+    } finally {
+      exporting.value = false;
+    }
+  };
+
+  const handleFilterClear = () => {
+    action.value = '';
+    actorId.value = '';
+    targetId.value = '';
+    from.value = '';
+    to.value = '';
+    fetchEntries();
+  };
+
+  const formatMetadata = (metadata: Record<string, unknown>): string => {
+    const keys = Object.keys(metadata);
+    return keys.length === 0 ? '' : JSON.stringify(metadata);
+  };
+
+  return (
+    <div class="space-y-6">
+      {error.value && (
+        <div class="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error.value}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div class="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-4">
+        <h3 class="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Filter</h3>
+        <div class="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-3">
+          <div>
+            <label class="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Action</label>
+            <select
+              value={action.value}
+              onChange={(e) => action.value = (e.target as HTMLSelectElement).value}
+              class={inputClass}
+            >
+              <option value="">All actions</option>
+              {AUDIT_ACTIONS.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Actor ID</label>
+            <input
+              type="text"
+              value={actorId.value}
+              onInput={(e) => actorId.value = (e.target as HTMLInputElement).value}
+              placeholder="User who acted..."
+              class={inputClass}
+            />
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Target ID</label>
+            <input
+              type="text"
+              value={targetId.value}
+              onInput={(e) => targetId.value = (e.target as HTMLInputElement).value}
+              placeholder="User acted on..."
+              class={inputClass}
+            />
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+            <input
+              type="datetime-local"
+              value={from.value}
+              onInput={(e) => from.value = (e.target as HTMLInputElement).value}
+              class={inputClass}
+            />
+          </div>
+
+          <div>
+            <label class="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+            <input
+              type="datetime-local"
+              value={to.value}
+              onInput={(e) => to.value = (e.target as HTMLInputElement).value}
+              class={inputClass}
+            />
+          </div>
+        </div>
+
+        <div class="flex gap-2 mt-4">
+          <button
+            type="button"
+            onClick={() => fetchEntries()}
+            disabled={loading.value}
+            class="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm font-medium"
+          >
+            Apply
+          </button>
+          <button type="button" onClick={handleFilterClear} disabled={loading.value} class={secondaryButtonClass}>
+            Clear
+          </button>
+          <button
+            type="button"
+            onClick={exportCsv}
+            disabled={exporting.value}
+            class={`${secondaryButtonClass} ml-auto`}
+          >
+            {exporting.value ? 'Exporting...' : 'Export CSV'}
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div class="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden">
+        <div class="overflow-x-auto">
+          <table class="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead class="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                {['Time', 'Action', 'Actor', 'Target', 'IP Address', 'Details'].map((heading) => (
+                  <th
+                    key={heading}
+                    class="px-4 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider whitespace-nowrap"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody class="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {entries.value.map((entry) => (
+                <tr key={entry.id} class="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td class="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {new Date(entry.timestamp).toLocaleString()}
+                  </td>
+                  <td class="px-4 py-3 text-sm font-mono text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    {entry.action}
+                  </td>
+                  <td class="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 max-w-xs truncate">
+                    <span title={entry.actorId ?? ''}>{entry.actorId ?? '—'}</span>
+                  </td>
+                  <td class="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 max-w-xs truncate">
+                    <span title={entry.targetId ?? ''}>{entry.targetId ?? '—'}</span>
+                  </td>
+                  <td class="px-4 py-3 text-sm text-gray-900 dark:text-gray-100 whitespace-nowrap">
+                    <span title={entry.userAgent ?? ''}>{entry.ipAddress ?? '—'}</span>
+                  </td>
+                  <td class="px-4 py-3 text-sm text-gray-600 dark:text-gray-400 max-w-md truncate">
+                    <span title={formatMetadata(entry.metadata)}>{formatMetadata(entry.metadata)}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!loading.value && entries.value.length === 0 && (
+          <p class="px-4 py-8 text-center text-sm text-gray-600 dark:text-gray-400">
+            No audit log entries match these filters.
+          </p>
+        )}
+      </div>
+
+      {loading.value && (
+        <div class="flex justify-center items-center py-6">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {!loading.value && cursor.value && (
+        <div class="flex justify-center">
+          <button type="button" onClick={() => fetchEntries(true)} class={secondaryButtonClass}>
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
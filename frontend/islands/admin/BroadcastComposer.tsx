@@ -0,0 +1,386 @@
+/**
+ * Broadcast Composer Island
+ * Compose a notification for many users and follow its delivery
+ */
+
+import { IS_BROWSER } from '$fresh/runtime.ts';
+import { useSignal } from '@preact/signals';
+import { useEffect } from 'preact/hooks';
+import { getCsrfHeaders } from '../../lib/api-client.ts';
+import { TokenStorage } from '../../lib/storage.ts';
+
+type Audience =
+  | { type: 'all' }
+  | { type: 'segment'; role?: 'admin' | 'user'; emailVerified?: boolean }
+  | { type: 'users'; userIds: string[] };
+
+interface Broadcast {
+  id: string;
+  type: string;
+  category: string;
+  title: string;
+  message: string;
+  link?: string;
+  audience: Audience;
+  status: 'queued' | 'sending' | 'completed' | 'failed';
+  createdAt: string;
+  completedAt: string | null;
+  error?: string;
+  recipients: number;
+  progress: {
+    delivered: number;
+    skipped: number;
+    failed: number;
+  };
+}
+
+// Mirrors NotificationTypeSchema / NotificationCategorySchema in shared/types/notifications.ts
+const TYPES = ['info', 'success', 'warning', 'error'];
+const CATEGORIES = ['announcements', 'general', 'account', 'security'];
+
+const POLL_INTERVAL_MS = 2000;
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-100 rounded-md text-sm';
+const labelClass = 'block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+const statusClasses: Record<Broadcast['status'], string> = {
+  queued: 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200',
+  sending: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
+  completed: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  failed: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+};
+
+function describeAudience(audience: Audience): string {
+  if (audience.type === 'all') return 'All users';
+  if (audience.type === 'users') return `${audience.userIds.length} selected user(s)`;
+
+  const parts = [
+    audience.emailVerified === undefined ? null : audience.emailVerified ? 'Verified' : 'Unverified',
+    audience.role === 'admin' ? 'admins' : audience.role === 'user' ? 'users (non-admin)' : 'users',
+  ];
+  return parts.filter(Boolean).join(' ');
+}
+
+export default function BroadcastComposer() {
+  const broadcasts = useSignal<Broadcast[]>([]);
+  const loading = useSignal(false);
+  const sending = useSignal(false);
+  const error = useSignal('');
+  const success = useSignal('');
+
+  const title = useSignal('');
+  const message = useSignal('');
+  const link = useSignal('');
+  const type = useSignal('info');
+  const category = useSignal('announcements');
+  const audienceType = useSignal<Audience['type']>('segment');
+  const role = useSignal('');
+  const verification = useSignal('verified');
+  const userIds = useSignal('');
+
+  useEffect(() => {
+    if (IS_BROWSER) {
+      fetchBroadcasts();
+    }
+  }, []);
+
+  // Keep polling while anything is still being delivered
+  const active = broadcasts.value.some((b) => b.status === 'queued' || b.status === 'sending');
+  useEffect(() => {
+    if (!IS_BROWSER || !active) return;
+    const timer = setTimeout(() => fetchBroadcasts(true), POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [active, broadcasts.value]);
+
+  const fetchBroadcasts = async (quiet = false) => {
+    if (!quiet) loading.value = true;
+
+    try {
+      const response = await fetch('/api/admin/broadcasts', {
+        headers: {
+          'Authorization': `Bearer ${TokenStorage.getAccessToken()}`,
+        },
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        error.value = data.error?.message || 'Failed to fetch broadcasts';
+        return;
+      }
+
+      broadcasts.value = data.data.broadcasts;
+    } catch (_err) {
+      error.value = 'Network error. Please try again.';
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  const buildAudience = (): Audience => {
+    if (audienceType.value === 'all') {
+      return { type: 'all' };
+    }
+    if (audienceType.value === 'users') {
+      return { type: 'users', userIds: userIds.value.split(/[\s,]+/).filter(Boolean) };
+    }
+    return {
+      type: 'segment',
+      ...(role.value && { role: role.value as 'admin' | 'user' }),
+      ...(verification.value && { emailVerified: verification.value === 'verified' }),
+    };
+  };
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+    error.value = '';
+    success.value = '';
+
+    const audience = buildAudience();
+    if (!confirm(`Send "${title.value}" to ${describeAudience(audience).toLowerCase()}?`)) return;
+
+    sending.value = true;
+
+    try {
+      const response = await fetch('/api/admin/broadcasts', {
+        method: 'POST',
+        headers: {
+          ...(await getCsrfHeaders()),
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${TokenStorage.getAccessToken()}`,
+        },
+        body: JSON.stringify({
+          type: type.value,
+          category: category.value,
+          title: title.value.trim(),
+          message: message.value.trim(),
+          ...(link.value.trim() && { link: link.value.trim() }),
+          audience,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        error.value = data.error?.message || 'Failed to send broadcast';
+        return;
+      }
+
+      success.value = 'Broadcast queued. Delivery progress is shown below.';
+      title.value = '';
+      message.value = '';
+      link.value = '';
+      userIds.value = '';
+      await fetchBroadcasts(true);
+    } catch (_err) {
+      error.value = 'Network error. Please try again.';
+    } finally {
+      sending.value = false;
+    }
+  };
+
+  return (
+    <div class="space-y-6">
+      {error.value && (
+        <div class="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error.value}
+        </div>
+      )}
+      {success.value && (
+        <div class="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+          {success.value}
+        </div>
+      )}
+
+      {/* Compose */}
+      <form
+        onSubmit={handleSubmit}
+        class="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg p-4 space-y-4"
+      >
+        <h3 class="text-sm font-semibold text-gray-700 dark:text-gray-300">New Broadcast</h3>
+
+        <div class="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <label class={labelClass}>Title</label>
+            <input
+              type="text"
+              required
+              maxLength={200}
+              value={title.value}
+              onInput={(e) => title.value = (e.target as HTMLInputElement).value}
+              placeholder="Scheduled maintenance"
+              class={inputClass}
+            />
+          </div>
+          <div>
+            <label class={labelClass}>Link (optional)</label>
+            <input
+              type="text"
+              value={link.value}
+              onInput={(e) => link.value = (e.target as HTMLInputElement).value}
+              placeholder="/status"
+              class={inputClass}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label class={labelClass}>Message</label>
+          <textarea
+            required
+            maxLength={1000}
+            rows={3}
+            value={message.value}
+            onInput={(e) => message.value = (e.target as HTMLTextAreaElement).value}
+            class={inputClass}
+          />
+        </div>
+
+        <div class="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label class={labelClass}>Type</label>
+            <select
+              value={type.value}
+              onChange={(e) => type.value = (e.target as HTMLSelectElement).value}
+              class={inputClass}
+            >
+              {TYPES.map((name) => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label class={labelClass}>Category</label>
+            <select
+              value={category.value}
+              onChange={(e) => category.value = (e.target as HTMLSelectElement).value}
+              class={inputClass}
+            >
+              {CATEGORIES.map((name) => <option key={name} value={name}>{name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label class={labelClass}>Audience</label>
+            <select
+              value={audienceType.value}
+              onChange={(e) => audienceType.value = (e.target as HTMLSelectElement).value as Audience['type']}
+              class={inputClass}
+            >
+              <option value="all">All users</option>
+              <option value="segment">Segment</option>
+              <option value="users">Specific users</option>
+            </select>
+          </div>
+        </div>
+
+        {audienceType.value === 'segment' && (
+          <div class="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <label class={labelClass}>Role</label>
+              <select
+                value={role.value}
+                onChange={(e) => role.value = (e.target as HTMLSelectElement).value}
+                class={inputClass}
+              >
+                <option value="">Any role</option>
+                <option value="admin">Admins</option>
+                <option value="user">Users (non-admin)</option>
+              </select>
+            </div>
+            <div>
+              <label class={labelClass}>Email</label>
+              <select
+                value={verification.value}
+                onChange={(e) => verification.value = (e.target as HTMLSelectElement).value}
+                class={inputClass}
+              >
+                <option value="">Verified or not</option>
+                <option value="verified">Verified</option>
+                <option value="unverified">Unverified</option>
+              </select>
+            </div>
+          </div>
+        )}
+
+        {audienceType.value === 'users' && (
+          <div>
+            <label class={labelClass}>User IDs (one per line or comma separated, up to 1000)</label>
+            <textarea
+              required
+              rows={3}
+              value={userIds.value}
+              onInput={(e) => userIds.value = (e.target as HTMLTextAreaElement).value}
+              class={`${inputClass} font-mono`}
+            />
+          </div>
+        )}
+
+        <p class="text-xs text-gray-600 dark:text-gray-400">
+          Each recipient's notification preferences decide whether it appears in-app, by email or in their digest.
+        </p>
+
+        <button
+          type="submit"
+          disabled={sending.value}
+          class="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-sm font-medium"
+        >
+          {sending.value ? 'Sending...' : 'Send Broadcast'}
+        </button>
+      </form>
+
+      {/* Recent broadcasts */}
+      <div class="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-lg overflow-hidden">
+        <ul class="divide-y divide-gray-200 dark:divide-gray-700">
+          {broadcasts.value.map((broadcast) => {
+            const { delivered, skipped, failed } = broadcast.progress;
+            const processed = delivered + skipped + failed;
+            const percent = broadcast.recipients > 0 ? Math.round((processed / broadcast.recipients) * 100) : 0;
+
+            return (
+              <li key={broadcast.id} class="px-4 py-3">
+                <div class="flex items-center justify-between gap-4">
+                  <div class="min-w-0">
+                    <p class="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{broadcast.title}</p>
+                    <p class="text-xs text-gray-600 dark:text-gray-400">
+                      {describeAudience(broadcast.audience)} · {broadcast.category} ·{' '}
+                      {new Date(broadcast.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <span
+                    class={`shrink-0 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
+                      statusClasses[broadcast.status]
+                    }`}
+                  >
+                    {broadcast.status}
+                  </span>
+                </div>
+                <div class="mt-2 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    class={`h-full ${broadcast.status === 'failed' ? 'bg-red-500' : 'bg-blue-600'}`}
+                    style={{ width: `${broadcast.status === 'completed' ? 100 : percent}%` }}
+                  />
+                </div>
+                <p class="mt-1 text-xs text-gray-600 dark:text-gray-400">
+                  {processed} of {broadcast.recipients} recipient(s) processed · {delivered} delivered · {skipped}{' '}
+                  skipped · {failed} failed
+                  {broadcast.error && <span class="text-red-600 dark:text-red-400"> · {broadcast.error}</span>}
+                </p>
+              </li>
+            );
+          })}
+        </ul>
+
+        {!loading.value && broadcasts.value.length === 0 && (
+          <p class="px-4 py-8 text-center text-sm text-gray-600 dark:text-gray-400">
+            No broadcasts sent yet.
+          </p>
+        )}
+      </div>
+
+      {loading.value && (
+        <div class="flex justify-center items-center py-6">
+          <div class="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+    </div>
+  );
+}
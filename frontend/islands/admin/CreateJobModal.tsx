@@ -6,6 +6,7 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../../lib/api-client.ts';
 import { TokenStorage } from '../../lib/storage.ts';
 
 interface CreateJobModalProps {
@@ -103,6 +104,7 @@ export default function CreateJobModal({ onClose, onJobCreated }: CreateJobModal
       const response = await fetch(`${apiUrl}/api/jobs`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -6,6 +6,7 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
+import { getCsrfHeaders } from '../../lib/api-client.ts';
 import { TokenStorage } from '../../lib/storage.ts';
 
 interface CreateScheduleModalProps {
@@ -103,6 +104,12 @@ const JOB_TYPES = [
   },
 ];
 
+const MISFIRE_POLICIES = {
+  'run-once': 'Run once to catch up',
+  'run-all': 'Run every missed tick',
+  'skip': 'Skip missed runs',
+};
+
 const TIMEZONES = [
   'UTC',
   'America/New_York',
@@ -123,6 +130,8 @@ export default function CreateScheduleModal({ onClose, onScheduleCreated }: Crea
   const jobData = useSignal(JSON.stringify(JOB_TYPES[0].dataTemplate, null, 2));
   const timezone = useSignal('UTC');
   const enabled = useSignal(true);
+  const misfirePolicy = useSignal<keyof typeof MISFIRE_POLICIES>('run-once');
+  const maxCatchUp = useSignal(10);
   const loading = useSignal(false);
   const error = useSignal<string | null>(null);
 
@@ -188,6 +197,7 @@ export default function CreateScheduleModal({ onClose, onScheduleCreated }: Crea
       const response = await fetch(`${apiUrl}/api/jobs/schedules`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -198,6 +208,8 @@ export default function CreateScheduleModal({ onClose, onScheduleCreated }: Crea
           jobData: parsedData,
           enabled: enabled.value,
           timezone: timezone.value,
+          misfirePolicy: misfirePolicy.value,
+          ...(misfirePolicy.value === 'run-all' && { maxCatchUp: maxCatchUp.value }),
         }),
       });
 
@@ -340,6 +352,40 @@ export default function CreateScheduleModal({ onClose, onScheduleCreated }: Crea
             </div>
           </div>
 
+          {/* Missed Runs */}
+          <div class="grid grid-cols-2 gap-4">
+            <div class="mb-5">
+              <label class="block mb-2 font-semibold text-gray-700 dark:text-gray-200">Missed Runs:</label>
+              <select
+                value={misfirePolicy.value}
+                onChange={(e) => misfirePolicy.value = (e.target as HTMLSelectElement).value as keyof typeof MISFIRE_POLICIES}
+                class="w-full px-2.5 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+              >
+                {Object.entries(MISFIRE_POLICIES).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <small class="block mt-1 text-xs text-gray-600 dark:text-gray-400">What to do with runs missed while the server was down</small>
+            </div>
+
+            {misfirePolicy.value === 'run-all' && (
+              <div class="mb-5">
+                <label class="block mb-2 font-semibold text-gray-700 dark:text-gray-200">Max Catch-up Runs:</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={maxCatchUp.value}
+                  onInput={(e) => maxCatchUp.value = parseInt((e.target as HTMLInputElement).value) || 1}
+                  class="w-full px-2.5 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                />
+                <small class="block mt-1 text-xs text-gray-600 dark:text-gray-400">Oldest missed runs first; the rest are skipped</small>
+              </div>
+            )}
+          </div>
+
           {/* Error Display */}
           {error.value && (
             <div class="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-900 text-red-700 dark:text-red-200 px-3 py-2 rounded-md mb-5 text-sm">
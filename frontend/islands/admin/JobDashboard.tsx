@@ -7,7 +7,9 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { useSignal } from '@preact/signals';
+import { Fragment } from 'preact';
 import { useEffect } from 'preact/hooks';
+import { getCsrfHeaders } from '../../lib/api-client.ts';
 import { TokenStorage } from '../../lib/storage.ts';
 import {
   jobs,
@@ -16,20 +18,31 @@ import {
   setJobs,
   setSchedules,
   updateJob,
+  updateJobProgress,
   updateJobStats,
-  type Job
+  type Job,
+  type JobFlow,
+  type JobLogEntry,
+  type ScheduleRun,
+  type SchedulerLeader
 } from '../../lib/store.ts';
 import { subscribeToChannel } from '../../lib/websocket.ts';
 import CreateJobModal from './CreateJobModal.tsx';
 import CreateScheduleModal from './CreateScheduleModal.tsx';
 
 export default function JobDashboard() {
-  const selectedTab = useSignal<'jobs' | 'schedules'>('jobs');
+  const selectedTab = useSignal<'jobs' | 'flows' | 'schedules' | 'history'>('jobs');
   const statusFilter = useSignal<string>('all');
   const loading = useSignal(false);
   const error = useSignal<string | null>(null);
   const showCreateModal = useSignal(false);
   const showCreateScheduleModal = useSignal(false);
+  const expandedJobId = useSignal<string | null>(null);
+  const jobLogs = useSignal<JobLogEntry[]>([]);
+  const flows = useSignal<JobFlow[]>([]);
+  const schedulerLeader = useSignal<SchedulerLeader | null>(null);
+  const historySchedule = useSignal<string | null>(null);
+  const scheduleRuns = useSignal<ScheduleRun[]>([]);
 
   // Get API URL (now using same-origin Fresh API)
   const getApiUrl = () => {
@@ -43,6 +56,7 @@ export default function JobDashboard() {
       const apiUrl = getApiUrl();
       const response = await fetch(`${apiUrl}/api/auth/refresh`, {
         method: 'POST',
+        headers: await getCsrfHeaders(),
         credentials: 'include', // Send refresh_token cookie
       });
 
@@ -162,11 +176,102 @@ export default function JobDashboard() {
       const data = await response.json();
       console.log('[JobDashboard] Fetched schedules response:', data);
       setSchedules(data.data?.schedules || []);
+      schedulerLeader.value = data.data?.leader ?? null;
     } catch (err) {
       console.error('Failed to fetch schedules:', err);
     }
   };
 
+  // Fetch run history of a schedule
+  const fetchScheduleHistory = async (name: string) => {
+    try {
+      const apiUrl = getApiUrl();
+      const accessToken = IS_BROWSER ? TokenStorage.getAccessToken() : null;
+      const response = await fetch(`${apiUrl}/api/jobs/schedules/${name}/history`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (response.status === 401) {
+        // Will be handled by fetchJobs
+        return;
+      }
+
+      if (!response.ok) throw new Error('Failed to fetch schedule history');
+
+      const data = await response.json();
+      scheduleRuns.value = data.data?.runs || [];
+    } catch (err) {
+      console.error('Failed to fetch schedule history:', err);
+    }
+  };
+
+  // Open the history tab for a schedule
+  const showScheduleHistory = (name: string) => {
+    historySchedule.value = name;
+    scheduleRuns.value = [];
+    selectedTab.value = 'history';
+    fetchScheduleHistory(name);
+  };
+
+  // Fetch flows
+  const fetchFlows = async () => {
+    try {
+      const apiUrl = getApiUrl();
+      const accessToken = IS_BROWSER ? TokenStorage.getAccessToken() : null;
+      const response = await fetch(`${apiUrl}/api/jobs/flows`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (response.status === 401) {
+        // Will be handled by fetchJobs
+        return;
+      }
+
+      if (!response.ok) throw new Error('Failed to fetch flows');
+
+      const data = await response.json();
+      flows.value = data.data?.flows || [];
+    } catch (err) {
+      console.error('Failed to fetch flows:', err);
+    }
+  };
+
+  // Fetch logs for one job
+  const fetchJobLogs = async (jobId: string) => {
+    try {
+      const apiUrl = getApiUrl();
+      const accessToken = IS_BROWSER ? TokenStorage.getAccessToken() : null;
+      const response = await fetch(`${apiUrl}/api/jobs/${jobId}/logs`, {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) throw new Error('Failed to fetch job logs');
+
+      const data = await response.json();
+      jobLogs.value = data.data?.logs || [];
+    } catch (err) {
+      console.error('Failed to fetch job logs:', err);
+    }
+  };
+
+  // Show/hide the log panel for a job
+  const toggleJobLogs = async (jobId: string) => {
+    if (expandedJobId.value === jobId) {
+      expandedJobId.value = null;
+      return;
+    }
+
+    expandedJobId.value = jobId;
+    jobLogs.value = [];
+    await fetchJobLogs(jobId);
+  };
+
   // Retry job
   const retryJob = async (jobId: string) => {
     try {
@@ -175,6 +280,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/${jobId}/retry`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${accessToken}`,
         },
       });
@@ -188,6 +294,30 @@ export default function JobDashboard() {
     }
   };
 
+  // Cancel job
+  const cancelJob = async (jobId: string) => {
+    if (!confirm('Are you sure you want to cancel this job?')) return;
+
+    try {
+      const apiUrl = getApiUrl();
+      const accessToken = IS_BROWSER ? TokenStorage.getAccessToken() : null;
+      const response = await fetch(`${apiUrl}/api/jobs/${jobId}/cancel`, {
+        method: 'POST',
+        headers: {
+          ...(await getCsrfHeaders()),
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) throw new Error('Failed to cancel job');
+
+      await fetchJobs();
+      await fetchStats();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to cancel job');
+    }
+  };
+
   // Delete job
   const deleteJob = async (jobId: string) => {
     if (!confirm('Are you sure you want to delete this job?')) return;
@@ -198,6 +328,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/${jobId}`, {
         method: 'DELETE',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${accessToken}`,
         },
       });
@@ -219,6 +350,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/schedules/${name}/trigger`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${accessToken}`,
         },
       });
@@ -241,6 +373,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/schedules/${name}/${endpoint}`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${accessToken}`,
         },
       });
@@ -263,6 +396,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/schedules/${name}`, {
         method: 'DELETE',
         headers: {
+          ...(await getCsrfHeaders()),
           'Authorization': `Bearer ${accessToken}`,
         },
       });
@@ -286,6 +420,7 @@ export default function JobDashboard() {
       const response = await fetch(`${apiUrl}/api/jobs/cleanup`, {
         method: 'POST',
         headers: {
+          ...(await getCsrfHeaders()),
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${accessToken}`,
         },
@@ -327,6 +462,29 @@ export default function JobDashboard() {
           if (message.job) {
             console.log('[JobDashboard] Job update:', message.job.id);
             updateJob(message.job);
+
+            // Keep open flow trees in sync
+            if (message.job.flowId) {
+              flows.value = flows.value.map((flow) =>
+                flow.id === message.job.flowId
+                  ? { ...flow, jobs: flow.jobs.map((j) => j.id === message.job.id ? message.job : j) }
+                  : flow
+              );
+            }
+          }
+          break;
+
+        case 'job_progress':
+          // Update progress bar
+          if (message.jobId && message.progress) {
+            updateJobProgress(message.jobId, message.progress);
+          }
+          break;
+
+        case 'job_log':
+          // Append to the open log panel
+          if (message.entry && message.jobId === expandedJobId.value) {
+            jobLogs.value = [...jobLogs.value, message.entry];
           }
           break;
 
@@ -359,6 +517,30 @@ export default function JobDashboard() {
     return new Date(dateStr).toLocaleString();
   };
 
+  // Render a flow job and the jobs that depend on it
+  const renderFlowNode = (flow: JobFlow, job: Job) => {
+    const children = flow.jobs.filter((j) => j.parentIds?.includes(job.id));
+
+    return (
+      <li key={job.id}>
+        <div class="flow-node">
+          <span class={`status-badge status-${job.status}`}>{job.status}</span>
+          <span class="job-name">{job.name}</span>
+          <span class="job-id">{job.id.slice(0, 8)}</span>
+          {job.status === 'running' && job.progress && (
+            <span class="progress-label">{job.progress.percent}%</span>
+          )}
+          {job.error && <span class="flow-node-error" title={job.error}>{job.error}</span>}
+        </div>
+        {children.length > 0 && (
+          <ul class="flow-tree">
+            {children.map((child) => renderFlowNode(flow, child))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
   // Format duration
   const formatDuration = (job: Job) => {
     if (!job.startedAt) return 'N/A';
@@ -404,6 +586,10 @@ export default function JobDashboard() {
       {/* Stats Cards */}
       {jobStats.value && (
         <div class="stats-grid">
+          <div class="stat-card">
+            <div class="stat-value">{jobStats.value.waiting}</div>
+            <div class="stat-label">Waiting</div>
+          </div>
           <div class="stat-card">
             <div class="stat-value">{jobStats.value.pending}</div>
             <div class="stat-label">Pending</div>
@@ -420,6 +606,10 @@ export default function JobDashboard() {
             <div class="stat-value">{jobStats.value.failed}</div>
             <div class="stat-label">Failed</div>
           </div>
+          <div class="stat-card">
+            <div class="stat-value">{jobStats.value.cancelled}</div>
+            <div class="stat-label">Cancelled</div>
+          </div>
           <div class="stat-card">
             <div class="stat-value">{jobStats.value.total}</div>
             <div class="stat-label">Total</div>
@@ -436,6 +626,16 @@ export default function JobDashboard() {
         >
           📋 Jobs
         </button>
+        <button
+          type="button"
+          class={`tab ${selectedTab.value === 'flows' ? 'active' : ''}`}
+          onClick={() => {
+            selectedTab.value = 'flows';
+            fetchFlows();
+          }}
+        >
+          🌳 Flows
+        </button>
         <button
           type="button"
           class={`tab ${selectedTab.value === 'schedules' ? 'active' : ''}`}
@@ -443,6 +643,20 @@ export default function JobDashboard() {
         >
           ⏰ Schedules
         </button>
+        <button
+          type="button"
+          class={`tab ${selectedTab.value === 'history' ? 'active' : ''}`}
+          onClick={() => {
+            const name = historySchedule.value ?? schedules.value[0]?.name;
+            if (name) {
+              showScheduleHistory(name);
+            } else {
+              selectedTab.value = 'history';
+            }
+          }}
+        >
+          📜 History
+        </button>
       </div>
 
       {/* Jobs Tab */}
@@ -457,11 +671,13 @@ export default function JobDashboard() {
                 onChange={(e) => statusFilter.value = (e.target as HTMLSelectElement).value}
               >
                 <option value="all">All</option>
+                <option value="waiting">Waiting</option>
                 <option value="pending">Pending</option>
                 <option value="running">Running</option>
                 <option value="completed">Completed</option>
                 <option value="failed">Failed</option>
                 <option value="retrying">Retrying</option>
+                <option value="cancelled">Cancelled</option>
               </select>
             </label>
           </div>
@@ -490,42 +706,93 @@ export default function JobDashboard() {
                     </tr>
                   )}
                   {jobs.value.map((job) => (
-                    <tr key={job.id}>
-                      <td>
-                        <div class="job-name">{job.name}</div>
-                        <div class="job-id">{job.id.slice(0, 8)}</div>
-                      </td>
-                      <td>
-                        <span class={`status-badge status-${job.status}`}>
-                          {job.status}
-                        </span>
-                      </td>
-                      <td>{job.attempts} / {job.maxRetries}</td>
-                      <td>{formatDate(job.createdAt)}</td>
-                      <td>{formatDuration(job)}</td>
-                      <td>
-                        <div class="action-buttons">
-                          {job.status === 'failed' && (
+                    <Fragment key={job.id}>
+                      <tr>
+                        <td>
+                          <div class="job-name">{job.name}</div>
+                          <div class="job-id">{job.id.slice(0, 8)}</div>
+                        </td>
+                        <td>
+                          <span class={`status-badge status-${job.status}`}>
+                            {job.status}
+                          </span>
+                          {job.status === 'running' && job.progress && (
+                            <div class="job-progress" title={job.progress.message}>
+                              <div class="progress-track">
+                                <div class="progress-fill" style={{ width: `${job.progress.percent}%` }} />
+                              </div>
+                              <div class="progress-label">
+                                {job.progress.percent}%{job.progress.message ? ` · ${job.progress.message}` : ''}
+                              </div>
+                            </div>
+                          )}
+                        </td>
+                        <td>{job.attempts} / {job.maxRetries}</td>
+                        <td>{formatDate(job.createdAt)}</td>
+                        <td>{formatDuration(job)}</td>
+                        <td>
+                          <div class="action-buttons">
                             <button
                               type="button"
-                              onClick={() => retryJob(job.id)}
-                              class="btn btn-sm btn-primary"
-                              title="Retry"
+                              onClick={() => toggleJobLogs(job.id)}
+                              class="btn btn-sm btn-secondary"
+                              title="Logs"
                             >
-                              🔄
+                              📜
                             </button>
-                          )}
-                          <button
-                            type="button"
-                            onClick={() => deleteJob(job.id)}
-                            class="btn btn-sm btn-danger"
-                            title="Delete"
-                          >
-                            🗑️
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
+                            {(job.status === 'failed' || job.status === 'cancelled') && (
+                              <button
+                                type="button"
+                                onClick={() => retryJob(job.id)}
+                                class="btn btn-sm btn-primary"
+                                title="Retry"
+                              >
+                                🔄
+                              </button>
+                            )}
+                            {['waiting', 'pending', 'running', 'retrying'].includes(job.status) && (
+                              <button
+                                type="button"
+                                onClick={() => cancelJob(job.id)}
+                                class="btn btn-sm btn-secondary"
+                                title="Cancel"
+                              >
+                                ⏹️
+                              </button>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => deleteJob(job.id)}
+                              class="btn btn-sm btn-danger"
+                              title="Delete"
+                            >
+                              🗑️
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                      {expandedJobId.value === job.id && (
+                        <tr class="job-details-row">
+                          <td colSpan={6}>
+                            {job.error && <div class="job-error">{job.error}</div>}
+                            {job.result !== undefined && (
+                              <pre class="job-result">{JSON.stringify(job.result, null, 2)}</pre>
+                            )}
+                            <div class="job-logs">
+                              {jobLogs.value.length === 0 && <div class="text-center">No log output</div>}
+                              {jobLogs.value.map((entry, i) => (
+                                <div key={i} class="job-log-line">
+                                  <span class="job-log-time">
+                                    #{entry.attempt} {new Date(entry.timestamp).toLocaleTimeString()}
+                                  </span>
+                                  {entry.line}
+                                </div>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
                   ))}
                 </tbody>
               </table>
@@ -534,10 +801,42 @@ export default function JobDashboard() {
         </div>
       )}
 
+      {/* Flows Tab */}
+      {selectedTab.value === 'flows' && (
+        <div class="flows-section">
+          <div class="section-header">
+            <button type="button" onClick={fetchFlows} class="btn btn-secondary">
+              🔄 Refresh
+            </button>
+          </div>
+          {flows.value.length === 0 && <div class="text-center">No flows found</div>}
+          {flows.value.map((flow) => {
+            const root = flow.jobs.find((j) => j.id === flow.rootJobId);
+            return (
+              <div key={flow.id} class="flow-card">
+                <div class="flow-header">
+                  <span class="job-name">{flow.name}</span>
+                  <span class="job-id">{flow.id.slice(0, 8)}</span>
+                  <span class="flow-date">{formatDate(flow.createdAt)}</span>
+                </div>
+                {root
+                  ? <ul class="flow-tree flow-root">{renderFlowNode(flow, root)}</ul>
+                  : <div class="text-center">Root job was deleted</div>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Schedules Tab */}
       {selectedTab.value === 'schedules' && (
         <div class="schedules-section">
           <div class="section-header">
+            <span class="scheduler-leader">
+              {schedulerLeader.value
+                ? <>Running on <code>{schedulerLeader.value.instanceId}</code></>
+                : 'No instance holds the scheduler lease'}
+            </span>
             <button type="button" onClick={() => showCreateScheduleModal.value = true} class="btn btn-primary">
               ➕ Create Schedule
             </button>
@@ -583,6 +882,14 @@ export default function JobDashboard() {
                         >
                           ▶️
                         </button>
+                        <button
+                          type="button"
+                          onClick={() => showScheduleHistory(schedule.name)}
+                          class="btn btn-sm btn-secondary"
+                          title="Run History"
+                        >
+                          📜
+                        </button>
                         <button
                           type="button"
                           onClick={() => toggleSchedule(schedule.name, schedule.enabled)}
@@ -609,6 +916,64 @@ export default function JobDashboard() {
         </div>
       )}
 
+      {/* History Tab */}
+      {selectedTab.value === 'history' && (
+        <div class="history-section">
+          <div class="section-header">
+            <select
+              value={historySchedule.value ?? ''}
+              onChange={(e) => showScheduleHistory((e.target as HTMLSelectElement).value)}
+            >
+              {schedules.value.map((schedule) => (
+                <option key={schedule.name} value={schedule.name}>{schedule.name}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => historySchedule.value && fetchScheduleHistory(historySchedule.value)}
+              class="btn btn-secondary"
+            >
+              🔄 Refresh
+            </button>
+          </div>
+          <div class="table-container">
+            <table class="schedules-table">
+              <thead>
+                <tr>
+                  <th>Started</th>
+                  <th>Scheduled For</th>
+                  <th>Trigger</th>
+                  <th>Status</th>
+                  <th>Finished</th>
+                  <th>Instance</th>
+                  <th>Error</th>
+                </tr>
+              </thead>
+              <tbody>
+                {scheduleRuns.value.length === 0 && (
+                  <tr>
+                    <td colSpan={7} class="text-center">No runs recorded</td>
+                  </tr>
+                )}
+                {scheduleRuns.value.map((run) => (
+                  <tr key={run.id}>
+                    <td>{formatDate(run.startedAt)}</td>
+                    <td>{formatDate(run.scheduledFor)}</td>
+                    <td>{run.trigger}</td>
+                    <td>
+                      <span class={`status-badge status-${run.status}`}>{run.status}</span>
+                    </td>
+                    <td>{formatDate(run.finishedAt)}</td>
+                    <td><code>{run.instanceId}</code></td>
+                    <td class="job-error">{run.error || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       <style>{`
         .job-dashboard {
           padding: 20px;
@@ -730,9 +1095,17 @@ export default function JobDashboard() {
         .section-header {
           display: flex;
           justify-content: flex-end;
+          align-items: center;
+          gap: 16px;
           margin-bottom: 16px;
         }
 
+        .scheduler-leader {
+          margin-right: auto;
+          font-size: 13px;
+          color: #6b7280;
+        }
+
 
         .table-container {
           overflow-x: auto;
@@ -798,6 +1171,120 @@ export default function JobDashboard() {
           font-family: monospace;
         }
 
+        .job-progress {
+          margin-top: 6px;
+          min-width: 120px;
+        }
+
+        .progress-track {
+          height: 6px;
+          background: #e5e7eb;
+          border-radius: 3px;
+          overflow: hidden;
+        }
+
+        .progress-fill {
+          height: 100%;
+          background: #3b82f6;
+          transition: width 0.3s ease;
+        }
+
+        .progress-label {
+          margin-top: 2px;
+          font-size: 11px;
+          color: #6b7280;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          max-width: 220px;
+        }
+
+        .flow-card {
+          margin-bottom: 16px;
+          padding: 12px 16px;
+          border: 1px solid #e5e7eb;
+          border-radius: 8px;
+        }
+        .dark .flow-card {
+          border-color: #374151;
+        }
+
+        .flow-header {
+          display: flex;
+          gap: 12px;
+          align-items: baseline;
+          margin-bottom: 8px;
+        }
+
+        .flow-date {
+          margin-left: auto;
+          font-size: 12px;
+          color: #6b7280;
+        }
+
+        .flow-tree {
+          list-style: none;
+          margin: 0;
+          padding-left: 20px;
+          border-left: 1px dashed #d1d5db;
+        }
+
+        .flow-tree.flow-root {
+          padding-left: 0;
+          border-left: none;
+        }
+
+        .flow-node {
+          display: flex;
+          gap: 8px;
+          align-items: center;
+          padding: 4px 0;
+        }
+
+        .flow-node-error {
+          font-size: 12px;
+          color: #991b1b;
+          white-space: nowrap;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          max-width: 320px;
+        }
+
+        .job-details-row td {
+          background: #f9fafb;
+        }
+        .dark .job-details-row td {
+          background: #111827;
+        }
+
+        .job-error {
+          margin-bottom: 8px;
+          color: #991b1b;
+          font-size: 13px;
+        }
+
+        .job-result,
+        .job-logs {
+          margin: 0 0 8px;
+          padding: 8px 12px;
+          max-height: 240px;
+          overflow: auto;
+          background: #1f2937;
+          color: #e5e7eb;
+          border-radius: 6px;
+          font-family: monospace;
+          font-size: 12px;
+        }
+
+        .job-log-line {
+          white-space: pre-wrap;
+        }
+
+        .job-log-time {
+          margin-right: 8px;
+          color: #9ca3af;
+        }
+
         .status-badge {
           display: inline-block;
           padding: 4px 12px;
@@ -832,6 +1319,16 @@ export default function JobDashboard() {
           color: #831843;
         }
 
+        .status-waiting {
+          background: #ede9fe;
+          color: #5b21b6;
+        }
+
+        .status-cancelled {
+          background: #f3f4f6;
+          color: #4b5563;
+        }
+
         .status-enabled {
           background: #d1fae5;
           color: #065f46;
@@ -12,7 +12,14 @@
  */
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
+import { isAllowedNotificationApiAction } from '../../shared/lib/notification-actions.ts';
 import { TokenStorage } from './storage.ts';
+import type {
+  AuthenticationCredentialJSON,
+  AuthenticationOptionsJSON,
+  RegistrationCredentialJSON,
+  RegistrationOptionsJSON,
+} from './webauthn.ts';
 
 // ============================================================================
 // Types
@@ -91,8 +98,10 @@ export class ApiClient {
 
   /**
    * Fetch CSRF token (with caching to prevent redundant requests)
+   * Tokens are bound to the refresh session, so the cache is cleared
+   * and the request retried once when the server rejects a token.
    */
-  private async getCsrfToken(): Promise<string> {
+  async getCsrfToken(): Promise<string> {
     const cached = this.csrfCache.get();
     if (cached) {
       return cached;
@@ -182,7 +191,8 @@ export class ApiClient {
    */
   async request<T = unknown>(
     endpoint: string,
-    options: RequestOptions = {}
+    options: RequestOptions = {},
+    isRetry = false
   ): Promise<T> {
     const {
       method = 'GET',
@@ -202,6 +212,12 @@ export class ApiClient {
 
       const data = await response.json() as ApiResponse<T>;
 
+      // Stale CSRF token (session changed since it was cached) - refetch once
+      if (response.status === 403 && data.error?.code === 'CSRF_TOKEN_INVALID' && options.requireCsrf && !isRetry) {
+        this.csrfCache.clear();
+        return this.request<T>(endpoint, options, true);
+      }
+
       if (!response.ok && !skipErrorHandling) {
         this.handleError(response, data);
       }
@@ -300,6 +316,13 @@ export class ApiClient {
 
 export const apiClient = new ApiClient();
 
+/**
+ * CSRF header for requests that call fetch() directly (e.g. multipart uploads)
+ */
+export async function getCsrfHeaders(): Promise<Record<string, string>> {
+  return { 'X-CSRF-Token': await apiClient.getCsrfToken() };
+}
+
 // ============================================================================
 // Type-Safe API Methods (Domain-Specific)
 // ============================================================================
@@ -313,6 +336,13 @@ export interface LoginResponse {
   };
 }
 
+export interface TwoFactorChallengeResponse {
+  requiresTwoFactor: true;
+  challengeToken: string;
+  expiresIn: number;
+  methods: Array<'totp' | 'passkey'>;
+}
+
 export interface SignupResponse {
   accessToken: string;
   user: {
@@ -344,15 +374,93 @@ export interface UserProfile {
   createdAt: string;
   updatedAt: string;
   name?: string;
+  pendingEmail?: string | null;
+}
+
+export interface ProfileUpdateResponse extends UserProfile {
+  message?: string;
+}
+
+export interface SessionData {
+  id: string;
+  deviceLabel: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  transports: string[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
 }
 
+export interface PasskeyOptionsResponse<T> {
+  challengeId: string;
+  options: T;
+}
+
+export interface OidcProviderInfo {
+  id: string;
+  name: string;
+}
+
+export interface LinkedIdentityData {
+  provider: string;
+  providerName: string;
+  email: string | null;
+  name: string | null;
+  linkedAt: string;
+  lastUsedAt: string | null;
+}
+
+export type NotificationActionData =
+  | { type: 'link'; label: string; url: string }
+  | { type: 'api'; label: string; method: 'POST' | 'PATCH' | 'DELETE'; path: string };
+
+export type NotificationPriorityKey = 'low' | 'normal' | 'high' | 'urgent';
+
 export interface NotificationData {
   id: string;
   type: string;
   title: string;
   message: string;
   read: boolean;
+  link?: string;
+  actions?: NotificationActionData[];
+  groupKey?: string;
+  groupCount?: number;
+  priority?: NotificationPriorityKey;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export type NotificationCategoryKey = 'general' | 'account' | 'security' | 'announcements';
+export type NotificationTypeKey = 'info' | 'success' | 'warning' | 'error';
+export type EmailDeliveryOption = 'off' | 'immediate' | 'daily' | 'weekly';
+
+export interface NotificationPreferencesData {
+  categories: Record<NotificationCategoryKey, { inApp: boolean; email: EmailDeliveryOption }>;
+  emailTypes: Record<NotificationTypeKey, boolean>;
+  updatedAt: string | null;
+}
+
+export interface NotificationPreferencesUpdate {
+  categories?: Partial<Record<NotificationCategoryKey, Partial<{ inApp: boolean; email: EmailDeliveryOption }>>>;
+  emailTypes?: Partial<Record<NotificationTypeKey, boolean>>;
+}
+
+export interface PushSubscriptionData {
+  id: string;
+  userAgent: string | null;
   createdAt: string;
+  lastSuccessAt: string | null;
 }
 
 /**
@@ -360,7 +468,10 @@ export interface NotificationData {
  */
 export const authApi = {
   login: (email: string, password: string) =>
-    apiClient.post<LoginResponse>('/api/auth/login', { email, password }),
+    apiClient.post<LoginResponse | TwoFactorChallengeResponse>('/api/auth/login', { email, password }),
+
+  loginTwoFactor: (challengeToken: string, code: string) =>
+    apiClient.post<LoginResponse>('/api/auth/login/2fa', { challengeToken, code }),
 
   signup: (email: string, password: string, name: string) =>
     apiClient.post<SignupResponse>('/api/auth/signup', { email, password, name }),
@@ -401,15 +512,73 @@ export const twoFactorApi = {
     apiClient.post<{ backupCodes: string[] }>('/api/2fa/regenerate-backup-codes', { password }, true),
 };
 
+/**
+ * Passkey (WebAuthn) API calls
+ * Pair with createPasskey/getPasskey from ./webauthn.ts
+ */
+export const webauthnApi = {
+  registerOptions: (password: string) =>
+    apiClient.post<PasskeyOptionsResponse<RegistrationOptionsJSON>>('/api/auth/webauthn/register/options', { password }, true),
+
+  registerVerify: (challengeId: string, credential: RegistrationCredentialJSON, name?: string) =>
+    apiClient.post<{ passkey: PasskeyInfo }>('/api/auth/webauthn/register/verify', { challengeId, credential, name }, true),
+
+  loginOptions: () =>
+    apiClient.post<PasskeyOptionsResponse<AuthenticationOptionsJSON>>('/api/auth/webauthn/login/options', {}),
+
+  loginVerify: (challengeId: string, credential: AuthenticationCredentialJSON) =>
+    apiClient.post<LoginResponse>('/api/auth/webauthn/login/verify', { challengeId, credential }),
+
+  twoFactorOptions: (challengeToken: string) =>
+    apiClient.post<PasskeyOptionsResponse<AuthenticationOptionsJSON>>('/api/auth/webauthn/2fa/options', { challengeToken }),
+
+  twoFactorVerify: (challengeToken: string, challengeId: string, credential: AuthenticationCredentialJSON) =>
+    apiClient.post<LoginResponse>('/api/auth/webauthn/2fa/verify', { challengeToken, challengeId, credential }),
+
+  listPasskeys: () =>
+    apiClient.get<{ passkeys: PasskeyInfo[] }>('/api/auth/webauthn/credentials', true),
+
+  deletePasskey: (credentialId: string) =>
+    apiClient.delete<{ message: string }>(`/api/auth/webauthn/credentials/${encodeURIComponent(credentialId)}`, true),
+};
+
+/**
+ * Social sign-in API calls
+ * Sign-in itself starts with a browser navigation to /api/auth/oidc/[provider]/start
+ */
+export const oidcApi = {
+  exchange: (code: string) =>
+    apiClient.post<LoginResponse | TwoFactorChallengeResponse>('/api/auth/oidc/exchange', { code }),
+
+  startLink: (provider: string) =>
+    apiClient.post<{ authorizationUrl: string }>(`/api/auth/oidc/${encodeURIComponent(provider)}/link`, {}, true),
+
+  listIdentities: () =>
+    apiClient.get<{ identities: LinkedIdentityData[]; providers: OidcProviderInfo[] }>('/api/user/identities', true),
+
+  unlink: (provider: string) =>
+    apiClient.delete<{ message: string }>(`/api/user/identities/${encodeURIComponent(provider)}`, true),
+};
+
 /**
  * User Profile API calls
  */
 export const userApi = {
   getProfile: () =>
-    apiClient.get<UserProfile>('/api/auth/me', true),
+    apiClient.get<UserProfile>('/api/user/profile', true),
+
+  /** currentPassword is required when email changes */
+  updateProfile: (data: { name?: string; email?: string; currentPassword?: string }) =>
+    apiClient.patch<ProfileUpdateResponse>('/api/user/profile', data, true),
+
+  changePassword: (currentPassword: string, newPassword: string) =>
+    apiClient.post<{ message: string }>('/api/user/change-password', { currentPassword, newPassword }, true),
+
+  getSessions: () =>
+    apiClient.get<{ sessions: SessionData[] }>('/api/user/sessions', true),
 
-  updateProfile: (data: Partial<UserProfile>) =>
-    apiClient.put<UserProfile>('/api/user/profile', data, true),
+  revokeSession: (sessionId: string) =>
+    apiClient.delete<{ message: string }>(`/api/user/sessions/${sessionId}`, true),
 
   uploadAvatar: (_file: File) => {
     // Special handling for file upload
@@ -431,6 +600,35 @@ export const notificationApi = {
 
   markAllAsRead: () =>
     apiClient.post('/api/notifications/read-all', {}, true),
+
+  /** Run a notification's API action as the signed-in user (only endpoints made for actions) */
+  runAction: (action: Extract<NotificationActionData, { type: 'api' }>) => {
+    if (!isAllowedNotificationApiAction(action.method, action.path)) {
+      return Promise.reject(new Error('This action is not available'));
+    }
+    return apiClient.request(action.path, { method: action.method, requireAuth: true, requireCsrf: true });
+  },
+
+  getPreferences: () =>
+    apiClient.get<NotificationPreferencesData>('/api/user/notification-preferences', true),
+
+  updatePreferences: (updates: NotificationPreferencesUpdate) =>
+    apiClient.patch<NotificationPreferencesData>('/api/user/notification-preferences', updates, true),
+
+  getPushSubscriptions: () =>
+    apiClient.get<{ publicKey: string; subscriptions: PushSubscriptionData[] }>('/api/user/push-subscriptions', true),
+
+  /** Pass PushSubscription.toJSON() */
+  subscribePush: (subscription: PushSubscriptionJSON) =>
+    apiClient.post<{ id: string; createdAt: string }>('/api/user/push-subscriptions', subscription, true),
+
+  unsubscribePush: (endpoint: string) =>
+    apiClient.request<{ removed: boolean }>('/api/user/push-subscriptions', {
+      method: 'DELETE',
+      body: { endpoint },
+      requireAuth: true,
+      requireCsrf: true,
+    }),
 };
 
 /**
@@ -443,6 +641,12 @@ export const adminApi = {
   deleteUser: (userId: string) =>
     apiClient.delete(`/api/admin/users/${userId}`, true),
 
+  getUserSessions: (userId: string) =>
+    apiClient.get<{ sessions: SessionData[] }>(`/api/admin/users/${userId}/sessions`, true),
+
+  revokeUserSession: (userId: string, sessionId: string) =>
+    apiClient.delete(`/api/admin/users/${userId}/sessions/${sessionId}`, true),
+
   getJobs: () =>
     apiClient.get('/api/admin/jobs', true),
 
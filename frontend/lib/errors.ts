@@ -267,7 +267,7 @@ export class RateLimitError extends AppError {
     limit?: number,
     context?: Record<string, unknown>
   ) {
-    super(ErrorCode.RATE_LIMIT_EXCEEDED, message, true, context);
+    super(ErrorCode.RATE_LIMITED, message, true, context);
     this.retryAfter = retryAfter;
     this.limit = limit;
   }
@@ -5,12 +5,16 @@
  */
 
 import type { FreshContext } from "$fresh/server.ts";
+import { OidcConfig } from "../../shared/lib/config.ts";
 import { createLogger } from "../../shared/lib/logger.ts";
+import { getClientIp } from "../../shared/lib/rate-limit.ts";
 import {
   AppError,
   ValidationError,
   AuthenticationError,
   AuthorizationError,
+  BadRequestError,
+  RateLimitError,
 } from "./errors.ts";
 import { ErrorCode, ErrorMessages, ErrorStatusCodes } from "../../shared/lib/error-codes.ts";
 import { ZodError } from "zod";
@@ -24,6 +28,7 @@ export interface ApiError {
   code: string;
   message: string;
   details?: unknown;
+  retryAfter?: number;
 }
 
 /**
@@ -115,6 +120,58 @@ export async function parseJsonBody<T>(
   }
 }
 
+/**
+ * Parse multipart/form-data body with an optional size guard
+ *
+ * The limit is enforced on the bytes actually read, so chunked requests and
+ * requests without Content-Length are cut off too.
+ * @throws ValidationError if the body exceeds maxBytes
+ * @throws BadRequestError if the body is not valid form data
+ */
+export async function parseFormData(
+  req: Request,
+  maxBytes?: number
+): Promise<FormData> {
+  const tooLarge = () =>
+    new ValidationError(`Request too large. Maximum size is ${Math.floor(maxBytes! / (1024 * 1024))}MB`);
+
+  // Fast path: reject a declared oversized body without reading it
+  const contentLength = Number(req.headers.get("Content-Length") || 0);
+  if (maxBytes && contentLength > maxBytes) {
+    throw tooLarge();
+  }
+
+  let exceeded = false;
+  let body = req.body;
+  if (maxBytes && body) {
+    let received = 0;
+    body = body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          received += chunk.byteLength;
+          if (received > maxBytes) {
+            exceeded = true;
+            controller.error(new Error("Request body too large"));
+            return;
+          }
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+  }
+
+  try {
+    return await new Response(body, {
+      headers: { "Content-Type": req.headers.get("Content-Type") ?? "" },
+    }).formData();
+  } catch {
+    if (exceeded) {
+      throw tooLarge(); // The pipe has cancelled the rest of the upload
+    }
+    throw new BadRequestError("Invalid multipart form data");
+  }
+}
+
 /**
  * Get user from context (requires auth middleware)
  * @throws AuthenticationError if user not authenticated
@@ -192,6 +249,34 @@ export function getCookie(headers: Headers, name: string): string | undefined {
   return cookie?.split("=")[1];
 }
 
+/**
+ * Client details to record on a session (login, 2FA login, refresh)
+ */
+export function getSessionMetadata(
+  req: Request,
+  ctx: FreshContext<AppState>,
+): { userAgent: string | null; ipAddress: string | null } {
+  const ipAddress = getClientIp(req, ctx.remoteAddr);
+
+  return {
+    userAgent: req.headers.get("user-agent"),
+    ipAddress: ipAddress === "unknown" ? null : ipAddress,
+  };
+}
+
+/**
+ * Actor and client details for the audit log (shared/services/AuditLogService.ts)
+ */
+export function getAuditContext(
+  req: Request,
+  ctx: FreshContext<AppState>,
+): { actorId: string | null; userAgent: string | null; ipAddress: string | null } {
+  return {
+    actorId: ctx.state.user?.sub ?? null,
+    ...getSessionMetadata(req, ctx),
+  };
+}
+
 /**
  * Delete cookie helper
  */
@@ -202,11 +287,59 @@ export function deleteCookie(headers: Headers, name: string, path: string = "/")
   );
 }
 
+/**
+ * Social sign-in state cookies
+ * Bind an authorization request to the browser that started it; only sent
+ * to the OIDC routes. Linking uses its own cookie so the callback knows
+ * to send errors back to the profile page rather than the login page.
+ */
+export const OIDC_STATE_COOKIE = "oidc_state";
+export const OIDC_LINK_STATE_COOKIE = "oidc_link_state";
+export const OIDC_COOKIE_PATH = "/api/auth/oidc/";
+
+export function setOidcStateCookie(headers: Headers, name: string, state: string): void {
+  setCookie(headers, name, state, {
+    httpOnly: true,
+    secure: Deno.env.get("DENO_ENV") === "production",
+    // Lax: sent on the top-level redirect back from the provider
+    sameSite: "Lax",
+    maxAge: Math.floor(OidcConfig.STATE_EXPIRY_MS / 1000),
+    path: OIDC_COOKIE_PATH,
+  });
+}
+
 /**
  * Centralized Error Handler
  * Converts any error to a standardized API error response
  */
 export function handleError(error: unknown): Response {
+  // Handle rate limiting (needs Retry-After for clients to back off)
+  if (error instanceof RateLimitError) {
+    logger.warn('Rate limit error', {
+      code: error.code,
+      retryAfter: error.retryAfter,
+      context: error.context,
+    });
+
+    const response: ApiResponse<never> = {
+      error: {
+        code: error.code,
+        message: error.toUserMessage(),
+        ...(error.retryAfter && { retryAfter: error.retryAfter }),
+      },
+    };
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (error.retryAfter) {
+      headers["Retry-After"] = String(error.retryAfter);
+    }
+
+    return new Response(JSON.stringify(response), {
+      status: error.statusCode,
+      headers,
+    });
+  }
+
   // Handle AppError (our custom error classes)
   if (error instanceof AppError) {
     logger.error('Application error', {
@@ -0,0 +1,100 @@
+/**
+ * Browser Push Helpers
+ *
+ * Subscribes this browser to Web Push so notifications arrive while no tab
+ * is open. The service worker (static/sw.js) shows them; the server only
+ * pushes while the user has no live WebSocket.
+ *
+ * @example
+ * ```typescript
+ * import { enablePush, isPushSupported } from '../lib/push-notifications.ts';
+ *
+ * if (isPushSupported()) {
+ *   await enablePush();
+ * }
+ * ```
+ */
+
+import { decodeBase64Url } from '@std/encoding/base64url';
+import { notificationApi } from './api-client.ts';
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+/**
+ * Whether this browser can receive push notifications
+ */
+export function isPushSupported(): boolean {
+  return typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window;
+}
+
+/**
+ * This browser's current subscription, if any
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return await registration?.pushManager.getSubscription() ?? null;
+}
+
+/**
+ * Ask for permission, subscribe this browser and register it with the server
+ *
+ * @throws Error if push is unsupported or permission is refused
+ */
+export async function enablePush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('This browser does not support push notifications');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  await navigator.serviceWorker.ready;
+
+  const { publicKey } = await notificationApi.getPushSubscriptions();
+  const applicationServerKey = decodeBase64Url(publicKey);
+
+  // A subscription made with an old server key can't receive pushes; replace it
+  let subscription = await registration.pushManager.getSubscription();
+  if (subscription && !sameKey(subscription.options.applicationServerKey, applicationServerKey)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+
+  subscription ??= await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey,
+  });
+
+  await notificationApi.subscribePush(subscription.toJSON());
+}
+
+/**
+ * Unsubscribe this browser, here and on the server
+ *
+ * Call before logout so the next person on this browser doesn't get the
+ * previous user's notifications.
+ */
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  try {
+    await notificationApi.unsubscribePush(subscription.endpoint);
+  } finally {
+    await subscription.unsubscribe();
+  }
+}
+
+function sameKey(current: ArrayBuffer | null, expected: Uint8Array): boolean {
+  if (!current || current.byteLength !== expected.length) return false;
+  const bytes = new Uint8Array(current);
+  return bytes.every((byte, i) => byte === expected[i]);
+}
@@ -10,6 +10,7 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { computed, signal } from '@preact/signals';
+import type { NotificationActionData, NotificationPriorityKey } from './api-client.ts';
 
 // ============================================================================
 // Types
@@ -29,6 +30,11 @@ export interface Notification {
   message: string;
   read: boolean;
   link?: string;
+  actions?: NotificationActionData[];
+  groupKey?: string;
+  groupCount?: number;
+  priority?: NotificationPriorityKey;
+  expiresAt?: string;
   createdAt: string;
   readAt?: string;
 }
@@ -36,7 +42,7 @@ export interface Notification {
 export interface Job {
   id: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'retrying';
+  status: 'waiting' | 'pending' | 'running' | 'completed' | 'failed' | 'retrying' | 'cancelled';
   attempts: number;
   maxRetries: number;
   error?: string;
@@ -44,6 +50,22 @@ export interface Job {
   startedAt?: string;
   completedAt?: string;
   priority: number;
+  progress?: JobProgress;
+  result?: unknown;
+  parentIds?: string[];
+  flowId?: string;
+}
+
+export interface JobProgress {
+  percent: number;
+  message?: string;
+  updatedAt: string;
+}
+
+export interface JobLogEntry {
+  attempt: number;
+  line: string;
+  timestamp: string;
 }
 
 export interface JobStats {
@@ -51,19 +73,52 @@ export interface JobStats {
   running: number;
   completed: number;
   failed: number;
+  cancelled: number;
+  waiting: number;
   total: number;
 }
 
+export interface JobFlow {
+  id: string;
+  name: string;
+  rootJobId: string;
+  createdAt: string;
+  jobs: Job[];
+}
+
 export interface Schedule {
   name: string;
   cron: string;
   enabled: boolean;
   timezone: string;
+  misfirePolicy?: 'skip' | 'run-once' | 'run-all';
+  maxCatchUp?: number;
   nextRun?: string;
   lastRun?: string;
   runCount: number;
 }
 
+export interface ScheduleRun {
+  id: string;
+  scheduleName: string;
+  trigger: 'schedule' | 'catch-up' | 'manual';
+  scheduledFor?: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'completed' | 'failed';
+  error?: string;
+  instanceId: string;
+}
+
+/**
+ * Instance holding the scheduler lease (the one firing schedules)
+ */
+export interface SchedulerLeader {
+  instanceId: string;
+  acquiredAt: string;
+  expiresAt: string;
+}
+
 // ============================================================================
 // Authentication State
 // ============================================================================
@@ -170,12 +225,30 @@ export function setUnreadCount(count: number) {
   }
 }
 
+/**
+ * High and urgent notifications waiting to be shown (or dismissed) as toasts
+ */
+export const notificationToasts = signal<Notification[]>([]);
+
+/**
+ * Whether a notification has passed its expiresAt (hidden until cleanup deletes it)
+ */
+export function isNotificationExpired(notification: Notification): boolean {
+  return notification.expiresAt !== undefined && new Date(notification.expiresAt).getTime() <= Date.now();
+}
+
 /**
  * Add a new notification to the list
+ *
+ * A grouped notification arrives again with the same id each time its group
+ * grows: it replaces the one shown and moves to the top.
  */
 export function addNotification(notification: Notification) {
+  // Events only group into an unread notification, which is already counted
+  const grouped = (notification.groupCount ?? 1) > 1;
+  const currentNotifications = notifications.value.filter(n => n.id !== notification.id);
+
   // Prepend the new notification
-  const currentNotifications = notifications.value;
   const newList = [notification, ...currentNotifications];
   
   // Only truncate if we're in "dropdown mode" (showing <= 10 notifications)
@@ -186,9 +259,20 @@ export function addNotification(notification: Notification) {
     notifications.value = newList;
   }
   
-  if (!notification.read) {
+  if (!notification.read && !grouped) {
     setUnreadCount(unreadCount.value + 1);
   }
+
+  if (notification.priority === 'high' || notification.priority === 'urgent') {
+    notificationToasts.value = [notification, ...notificationToasts.value.filter(t => t.id !== notification.id)];
+  }
+}
+
+/**
+ * Stop showing a notification's toast
+ */
+export function dismissToast(notificationId: string) {
+  notificationToasts.value = notificationToasts.value.filter(t => t.id !== notificationId);
 }
 
 /**
@@ -199,6 +283,7 @@ export function markNotificationAsRead(notificationId: string) {
     n.id === notificationId ? { ...n, read: true } : n
   );
   setUnreadCount(Math.max(0, unreadCount.value - 1));
+  dismissToast(notificationId);
 }
 
 /**
@@ -258,6 +343,20 @@ export function updateJob(updatedJob: Job) {
   }
 }
 
+/**
+ * Update progress of a job already in the list
+ */
+export function updateJobProgress(jobId: string, progress: JobProgress) {
+  const index = jobs.value.findIndex(j => j.id === jobId);
+  if (index === -1) return;
+
+  jobs.value = [
+    ...jobs.value.slice(0, index),
+    { ...jobs.value[index]!, progress },
+    ...jobs.value.slice(index + 1),
+  ];
+}
+
 /**
  * Update job statistics
  */
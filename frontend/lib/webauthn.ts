@@ -0,0 +1,188 @@
+/**
+ * Browser Passkey Helpers
+ *
+ * Bridges the JSON the WebAuthn API routes exchange (binary fields as
+ * base64url strings) and the ArrayBuffer-based navigator.credentials API.
+ *
+ * @example
+ * ```typescript
+ * import { webauthnApi } from '../lib/api-client.ts';
+ * import { getPasskey } from '../lib/webauthn.ts';
+ *
+ * const { challengeId, options } = await webauthnApi.loginOptions();
+ * const credential = await getPasskey(options);
+ * await webauthnApi.loginVerify(challengeId, credential);
+ * ```
+ */
+
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+
+// ============================================================================
+// Types (JSON shapes returned by the options endpoints)
+// ============================================================================
+
+export interface CredentialDescriptorJSON {
+  type: 'public-key';
+  id: string;
+  transports?: string[];
+}
+
+export interface RegistrationOptionsJSON {
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  excludeCredentials: CredentialDescriptorJSON[];
+  authenticatorSelection: AuthenticatorSelectionCriteria;
+  attestation: AttestationConveyancePreference;
+}
+
+export interface AuthenticationOptionsJSON {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: CredentialDescriptorJSON[];
+  userVerification: UserVerificationRequirement;
+}
+
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle: string | null;
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toBuffer(value: string): ArrayBuffer {
+  return decodeBase64Url(value).buffer as ArrayBuffer;
+}
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return encodeBase64Url(new Uint8Array(buffer));
+}
+
+function toDescriptor(descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor {
+  return {
+    type: descriptor.type,
+    id: toBuffer(descriptor.id),
+    transports: descriptor.transports as AuthenticatorTransport[] | undefined,
+  };
+}
+
+/**
+ * Turn a cancelled or refused ceremony into a readable message
+ */
+function toUserError(error: unknown): Error {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') {
+      return new Error('Passkey request was cancelled or timed out');
+    }
+    if (error.name === 'InvalidStateError') {
+      return new Error('This passkey is already registered');
+    }
+  }
+  return error instanceof Error ? error : new Error('Passkey request failed');
+}
+
+// ============================================================================
+// Ceremonies
+// ============================================================================
+
+/**
+ * Whether this browser can create and use passkeys
+ */
+export function isPasskeySupported(): boolean {
+  return typeof window !== 'undefined' &&
+    typeof window.PublicKeyCredential === 'function' &&
+    typeof navigator.credentials?.create === 'function';
+}
+
+/**
+ * Register a new passkey (navigator.credentials.create)
+ */
+export async function createPasskey(options: RegistrationOptionsJSON): Promise<RegistrationCredentialJSON> {
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.create({
+      publicKey: {
+        ...options,
+        challenge: toBuffer(options.challenge),
+        user: { ...options.user, id: toBuffer(options.user.id) },
+        excludeCredentials: options.excludeCredentials.map(toDescriptor),
+      },
+    });
+  } catch (error) {
+    throw toUserError(error);
+  }
+
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error('Passkey request failed');
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      attestationObject: toBase64Url(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+    },
+  };
+}
+
+/**
+ * Sign in with a passkey (navigator.credentials.get)
+ */
+export async function getPasskey(options: AuthenticationOptionsJSON): Promise<AuthenticationCredentialJSON> {
+  let credential: Credential | null;
+  try {
+    credential = await navigator.credentials.get({
+      publicKey: {
+        ...options,
+        challenge: toBuffer(options.challenge),
+        allowCredentials: options.allowCredentials.map(toDescriptor),
+      },
+    });
+  } catch (error) {
+    throw toUserError(error);
+  }
+
+  if (!(credential instanceof PublicKeyCredential)) {
+    throw new Error('Passkey request failed');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: 'public-key',
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+    },
+  };
+}
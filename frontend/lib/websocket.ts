@@ -18,6 +18,7 @@
 
 import { IS_BROWSER } from '$fresh/runtime.ts';
 import { ACCESS_TOKEN_EXPIRY_MS } from '../../shared/lib/config.ts';
+import { getCsrfHeaders } from './api-client.ts';
 import {
   accessToken,
   addNotification,
@@ -122,6 +123,7 @@ async function refreshToken(): Promise<boolean> {
     console.log('[WebSocket] Refreshing token...');
     const response = await fetch('/api/auth/refresh', {
       method: 'POST',
+      headers: await getCsrfHeaders(),
       credentials: 'include',
     });
 
@@ -431,6 +433,14 @@ function handleWebSocketMessage(event: MessageEvent, ws: WebSocket, token: strin
         dispatchToChannel('jobs', data);
         break;
 
+      case 'job_progress':
+        dispatchToChannel('jobs', data);
+        break;
+
+      case 'job_log':
+        dispatchToChannel('jobs', data);
+        break;
+
       case 'job_stats_update':
         dispatchToChannel('jobs', data);
         break;
@@ -0,0 +1,25 @@
+/**
+ * GET /.well-known/jwks.json - Public keys for verifying access tokens
+ *
+ * Standard JWK Set (RFC 7517) so other services can verify our JWTs by
+ * matching the token's `kid` header. Includes retired keys until they expire.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { signingKeys } from "../../../shared/lib/signing-keys.ts";
+import { withErrorHandler, type AppState } from "../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async () => {
+    const jwks = await signingKeys.getJwks();
+
+    return new Response(JSON.stringify(jwks), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/jwk-set+json",
+        // Short enough that verifiers pick up a rotated key quickly
+        "Cache-Control": "public, max-age=300",
+      },
+    });
+  }),
+};
@@ -16,9 +16,14 @@ const publicRoutes = [
   '/signup',
   '/forgot-password',
   '/reset-password',
+  '/confirm-email',
+  '/cancel-email-change',
+  '/unlock-account',
+  '/unsubscribe',
   '/_frsh/',
   '/api/',
   '/lib/',
+  '/.well-known/',
 ];
 
 // Static file extensions and Fresh internals to allow
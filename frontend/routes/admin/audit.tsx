@@ -0,0 +1,29 @@
+/**
+ * Admin Audit Log Page
+ * Protected route for reviewing security-relevant actions
+ */
+
+import { PageProps } from '$fresh/server.ts';
+import {
+  ContentContainer,
+  PageContainer,
+  PageHeader
+} from '../../components/common/index.ts';
+import AuditLogViewer from '../../islands/admin/AuditLogViewer.tsx';
+import AdminHeaderActions from '../../islands/AdminHeaderActions.tsx';
+
+export default function AdminAuditPage(_props: PageProps) {
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Audit Log"
+        subtitle="Sign-ins, 2FA changes, role changes, deletions and session revocations"
+        actions={<AdminHeaderActions currentPage="audit" />}
+      />
+
+      <ContentContainer>
+        <AuditLogViewer />
+      </ContentContainer>
+    </PageContainer>
+  );
+}
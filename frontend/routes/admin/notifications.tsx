@@ -0,0 +1,29 @@
+/**
+ * Admin Notifications Page
+ * Protected route for broadcasting notifications to many users
+ */
+
+import { PageProps } from '$fresh/server.ts';
+import {
+  ContentContainer,
+  PageContainer,
+  PageHeader
+} from '../../components/common/index.ts';
+import BroadcastComposer from '../../islands/admin/BroadcastComposer.tsx';
+import AdminHeaderActions from '../../islands/AdminHeaderActions.tsx';
+
+export default function AdminNotificationsPage(_props: PageProps) {
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Notifications"
+        subtitle="Broadcast a notification to everyone, a segment or selected users"
+        actions={<AdminHeaderActions currentPage="notifications" />}
+      />
+
+      <ContentContainer>
+        <BroadcastComposer />
+      </ContentContainer>
+    </PageContainer>
+  );
+}
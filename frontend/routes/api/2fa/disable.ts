@@ -9,6 +9,7 @@ import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
 import { TwoFactorService } from "../../../../shared/services/index.ts";
 import {
+  getAuditContext,
   parseJsonBody,
   requireUser,
   successResponse,
@@ -27,7 +28,7 @@ export const handler: Handlers<unknown, AppState> = {
     const { password, code } = await parseJsonBody(req, Disable2FASchema);
 
     const twoFactorService = new TwoFactorService();
-    await twoFactorService.disable(user.sub, password, code);
+    await twoFactorService.disable(user.sub, password, code, getAuditContext(req, ctx));
 
     return successResponse({
       message: "Two-factor authentication disabled successfully",
@@ -9,6 +9,7 @@ import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
 import { TwoFactorService } from "../../../../shared/services/index.ts";
 import {
+    getAuditContext,
     parseJsonBody,
     requireUser,
     successResponse,
@@ -26,7 +27,7 @@ export const handler: Handlers<unknown, AppState> = {
     const { code } = await parseJsonBody(req, Enable2FASchema);
 
     const twoFactorService = new TwoFactorService();
-    const result = await twoFactorService.enable(user.sub, code);
+    const result = await twoFactorService.enable(user.sub, code, getAuditContext(req, ctx));
 
     return successResponse({
       message: "Two-factor authentication enabled successfully",
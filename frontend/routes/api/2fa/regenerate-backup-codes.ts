@@ -9,6 +9,7 @@ import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
 import { TwoFactorService } from "../../../../shared/services/index.ts";
 import {
+  getAuditContext,
   parseJsonBody,
   requireUser,
   successResponse,
@@ -30,7 +31,8 @@ export const handler: Handlers<unknown, AppState> = {
     const result = await twoFactorService.regenerateBackupCodes(
       user.sub,
       password,
-      code
+      code,
+      getAuditContext(req, ctx)
     );
 
     return successResponse({
@@ -1,15 +1,59 @@
 /**
  * Fresh API Authentication Middleware
- * 
- * Verifies JWT tokens and attaches user to context state
+ *
+ * Verifies JWT tokens and attaches user to context state,
+ * checks CSRF tokens on state-changing requests (shared/lib/csrf.ts),
+ * then enforces per-route rate limits (shared/lib/rate-limit.ts)
  */
 
 import type { FreshContext } from "$fresh/server.ts";
-import { verifyToken } from "../../../shared/lib/jwt.ts";
+import {
+  CSRF_COOKIE_NAME,
+  CSRF_HEADER_NAME,
+  requiresCsrfToken,
+  validateCsrfRequest,
+} from "../../../shared/lib/csrf.ts";
+import { ErrorCode } from "../../../shared/lib/error-codes.ts";
+import { verifyAccessToken } from "../../../shared/lib/jwt.ts";
 import { createLogger } from "../../../shared/lib/logger.ts";
-import type { AppState } from "../../lib/fresh-helpers.ts";
+import {
+  findRateLimitRules,
+  getClientIp,
+  getRateLimitHeaders,
+  RateLimiter,
+  rulesNeedEmail,
+} from "../../../shared/lib/rate-limit.ts";
+import { AppError, RateLimitError } from "../../lib/errors.ts";
+import { getCookie, handleError, type AppState } from "../../lib/fresh-helpers.ts";
 
 const logger = createLogger('APIMiddleware');
+const rateLimiter = new RateLimiter();
+
+/**
+ * Read `email` from a JSON body without consuming the original request
+ */
+async function peekEmail(req: Request): Promise<string | undefined> {
+  try {
+    const body = await req.clone().json();
+    return typeof body?.email === "string" ? body.email : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copy rate limit headers onto a response (skips immutable headers, e.g. redirects)
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  try {
+    for (const [name, value] of Object.entries(headers)) {
+      response.headers.set(name, value);
+    }
+  } catch {
+    // Immutable headers - nothing to add
+  }
+  return response;
+}
 
 /**
  * Authentication middleware for Fresh API routes
@@ -22,14 +66,15 @@ export async function handler(
   // Get token from Authorization header
   const authHeader = req.headers.get("Authorization");
   // [API Middleware] Auth header received (value not logged for security)
-  
+
   if (authHeader?.startsWith("Bearer ")) {
     const token = authHeader.substring(7);
     if (!token) {
       logger.error("Token is empty after extraction");
     } else {
       try {
-        const payload = await verifyToken(token);
+        // Only access tokens are valid bearer credentials
+        const payload = await verifyAccessToken(token);
         ctx.state.user = {
           sub: payload.sub as string,
           email: payload.email as string,
@@ -47,7 +92,50 @@ export async function handler(
   } else {
     // [API Middleware] No Bearer token in Authorization header
   }
-  
+
+  const { pathname } = new URL(req.url);
+
+  // CSRF protection for state-changing methods (webhooks are allowlisted)
+  if (requiresCsrfToken(req.method, pathname)) {
+    const valid = await validateCsrfRequest({
+      headerToken: req.headers.get(CSRF_HEADER_NAME),
+      cookieToken: getCookie(req.headers, CSRF_COOKIE_NAME),
+      refreshToken: getCookie(req.headers, "refresh_token"),
+    });
+
+    if (!valid) {
+      return handleError(
+        new AppError(ErrorCode.CSRF_TOKEN_INVALID, undefined, true, { method: req.method, path: pathname }),
+      );
+    }
+  }
+
+  // Rate limiting (after auth so user-keyed rules see the user)
+  const rules = findRateLimitRules(req.method, pathname);
+
+  if (rules.length === 0) {
+    return await ctx.next();
+  }
+
+  const result = await rateLimiter.checkAll(rules, {
+    ip: getClientIp(req, ctx.remoteAddr),
+    userId: ctx.state.user?.sub,
+    email: rulesNeedEmail(rules) ? await peekEmail(req) : undefined,
+  });
+
+  if (!result) {
+    return await ctx.next();
+  }
+
+  const headers = getRateLimitHeaders(result);
+
+  if (!result.allowed) {
+    const response = handleError(
+      new RateLimitError(undefined, result.retryAfter, result.limit, { rule: result.rule, path: pathname }),
+    );
+    return withHeaders(response, headers);
+  }
+
   // Continue to next handler
-  return await ctx.next();
+  return withHeaders(await ctx.next(), headers);
 }
@@ -0,0 +1,41 @@
+/**
+ * GET /api/admin/audit/export
+ * Download the security audit log as CSV, using the same filters as the list
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../../../shared/lib/logger.ts";
+import { AuditLogService } from "../../../../../shared/services/index.ts";
+import { AuditLogFilterSchema } from "../../../../../shared/types/audit.ts";
+import {
+  getQueryParams,
+  requireAdmin,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+const logger = createLogger('AdminAuditExportAPI');
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    const admin = requireAdmin(ctx);
+
+    // Parse and validate filters (throws ValidationError on invalid filters)
+    const filter = AuditLogFilterSchema.parse(getQueryParams(new URL(req.url)));
+
+    const auditLog = new AuditLogService();
+    const csv = await auditLog.exportCsv(filter);
+
+    logger.info('Audit log exported', { adminId: admin.sub, filter });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(csv, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit-log-${date}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }),
+};
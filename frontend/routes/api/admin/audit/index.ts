@@ -0,0 +1,40 @@
+/**
+ * GET /api/admin/audit
+ * Page through the security audit log (newest first) with optional filters
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { AuditLogService } from "../../../../../shared/services/index.ts";
+import { AuditLogFilterSchema } from "../../../../../shared/types/audit.ts";
+import {
+  getQueryParams,
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+const AuditLogQuerySchema = AuditLogFilterSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    // Parse and validate query parameters (throws ValidationError on invalid filters)
+    const { limit, cursor, ...filter } = AuditLogQuerySchema.parse(getQueryParams(new URL(req.url)));
+
+    const auditLog = new AuditLogService();
+    const result = await auditLog.list(filter, { limit, cursor });
+
+    return successResponse({
+      entries: result.items,
+      cursor: result.cursor,
+      hasMore: result.hasMore,
+    });
+  }),
+};
@@ -0,0 +1,32 @@
+/**
+ * GET /api/admin/broadcasts/[id]
+ * Get a broadcast with its delivery progress
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { NotificationBroadcastService } from "../../../../../shared/services/index.ts";
+import { BadRequestError } from "../../../../lib/errors.ts";
+import {
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const broadcastId = ctx.params["id"];
+    if (!broadcastId) {
+      throw new BadRequestError("Broadcast ID is required");
+    }
+
+    // Throws NotFoundError if the broadcast doesn't exist
+    const broadcastService = new NotificationBroadcastService();
+    const broadcast = await broadcastService.getBroadcast(broadcastId);
+
+    return successResponse(broadcast);
+  }),
+};
@@ -0,0 +1,53 @@
+/**
+ * GET /api/admin/broadcasts - Recent broadcasts with delivery progress (newest first)
+ * POST /api/admin/broadcasts - Broadcast a notification to all users, a segment or a list of users
+ *
+ * POST only queues the broadcast; delivery runs in queue jobs. Poll
+ * GET /api/admin/broadcasts/[id] for progress.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { NotificationBroadcastService } from "../../../../../shared/services/index.ts";
+import { CreateBroadcastRequestSchema } from "../../../../../shared/types/notifications.ts";
+import {
+  getQueryParams,
+  parseJsonBody,
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+const BroadcastListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const { limit, cursor } = BroadcastListQuerySchema.parse(getQueryParams(new URL(req.url)));
+
+    const broadcastService = new NotificationBroadcastService();
+    const result = await broadcastService.listBroadcasts({ limit, cursor });
+
+    return successResponse({
+      broadcasts: result.items,
+      cursor: result.cursor,
+      hasMore: result.hasMore,
+    });
+  }),
+
+  POST: withErrorHandler(async (req, ctx) => {
+    const admin = requireAdmin(ctx);
+    const body = await parseJsonBody(req, CreateBroadcastRequestSchema);
+
+    const broadcastService = new NotificationBroadcastService();
+    const broadcast = await broadcastService.createBroadcast(body, admin.sub);
+
+    return successResponse(broadcast, 201);
+  }),
+};
@@ -9,6 +9,7 @@ import { Handlers } from "$fresh/server.ts";
 import { UserManagementService } from "../../../../../../shared/services/index.ts";
 import { BadRequestError } from "../../../../../lib/errors.ts";
 import {
+    getAuditContext,
     requireAdmin,
     successResponse,
     withErrorHandler,
@@ -16,7 +17,7 @@ import {
 } from "../../../../../lib/fresh-helpers.ts";
 
 export const handler: Handlers<unknown, AppState> = {
-  DELETE: withErrorHandler(async (_req, ctx) => {
+  DELETE: withErrorHandler(async (req, ctx) => {
     // Require admin access (throws AuthorizationError if not admin)
     const admin = requireAdmin(ctx);
     const userId = ctx.params["id"];
@@ -26,7 +27,7 @@ export const handler: Handlers<unknown, AppState> = {
 
     const userMgmt = new UserManagementService();
     // Delete user (throws NotFoundError if not found, ValidationError if self-delete)
-    await userMgmt.deleteUser(userId, admin.sub);
+    await userMgmt.deleteUser(userId, admin.sub, getAuditContext(req, ctx));
 
     return successResponse({
       message: "User deleted successfully",
@@ -10,6 +10,7 @@ import { z } from "zod";
 import { UserManagementService } from "../../../../../../shared/services/index.ts";
 import { BadRequestError } from "../../../../../lib/errors.ts";
 import {
+    getAuditContext,
     parseJsonBody,
     requireAdmin,
     successResponse,
@@ -35,7 +36,7 @@ export const handler: Handlers<unknown, AppState> = {
 
     const userMgmt = new UserManagementService();
     // Update role (throws NotFoundError if not found, ValidationError if self-demotion)
-    await userMgmt.updateUserRole(userId, role, admin.sub);
+    await userMgmt.updateUserRole(userId, role, admin.sub, getAuditContext(req, ctx));
 
     return successResponse({
       message: `User role updated to ${role}`,
@@ -1,6 +1,6 @@
 /**
- * DELETE /api/admin/users/[id]/sessions
- * Revoke all user's refresh tokens (logout all devices)
+ * GET /api/admin/users/[id]/sessions - List user's sessions with device details
+ * DELETE /api/admin/users/[id]/sessions - Revoke all user's refresh tokens (logout all devices)
  *
  * REFACTORED: Uses UserManagementService and withErrorHandler pattern
  */
@@ -9,6 +9,7 @@ import { Handlers } from "$fresh/server.ts";
 import { UserManagementService } from "../../../../../../shared/services/index.ts";
 import { BadRequestError } from "../../../../../lib/errors.ts";
 import {
+    getAuditContext,
     requireAdmin,
     successResponse,
     withErrorHandler,
@@ -16,7 +17,24 @@ import {
 } from "../../../../../lib/fresh-helpers.ts";
 
 export const handler: Handlers<unknown, AppState> = {
-  DELETE: withErrorHandler(async (_req, ctx) => {
+  GET: withErrorHandler(async (_req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const userId = ctx.params["id"];
+    if (!userId) {
+      throw new BadRequestError("User ID is required");
+    }
+
+    const userMgmt = new UserManagementService();
+
+    // List sessions (throws NotFoundError if user not found)
+    const sessions = await userMgmt.listUserSessions(userId);
+
+    return successResponse({ sessions });
+  }),
+
+  DELETE: withErrorHandler(async (req, ctx) => {
     // Require admin access (throws AuthorizationError if not admin)
     requireAdmin(ctx);
 
@@ -28,7 +46,7 @@ export const handler: Handlers<unknown, AppState> = {
     const userMgmt = new UserManagementService();
 
     // Revoke sessions (service throws typed errors)
-    await userMgmt.revokeAllUserSessions(userId);
+    await userMgmt.revokeAllUserSessions(userId, getAuditContext(req, ctx));
 
     return successResponse({
       message: "All user sessions revoked successfully",
@@ -0,0 +1,37 @@
+/**
+ * DELETE /api/admin/users/[id]/sessions/[sessionId]
+ * Revoke a single refresh token (logout one device)
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UserManagementService } from "../../../../../../../shared/services/index.ts";
+import { BadRequestError } from "../../../../../../lib/errors.ts";
+import {
+    getAuditContext,
+    requireAdmin,
+    successResponse,
+    withErrorHandler,
+    type AppState,
+} from "../../../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  DELETE: withErrorHandler(async (req, ctx) => {
+    // Require admin access (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const userId = ctx.params["id"];
+    const sessionId = ctx.params["sessionId"];
+    if (!userId || !sessionId) {
+      throw new BadRequestError("User ID and session ID are required");
+    }
+
+    const userMgmt = new UserManagementService();
+
+    // Revoke session (throws NotFoundError if it doesn't exist)
+    await userMgmt.revokeUserSession(userId, sessionId, getAuditContext(req, ctx));
+
+    return successResponse({
+      message: "Session revoked successfully",
+    });
+  }),
+};
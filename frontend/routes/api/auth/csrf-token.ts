@@ -1,17 +1,46 @@
 /**
  * GET /api/auth/csrf-token
- * Get CSRF token for forms (if CSRF protection is enabled)
+ * Issue a CSRF token bound to the current refresh-token session
+ * Sets the csrf_token cookie; clients echo the token in the X-CSRF-Token header
  */
 
 import { Handlers } from "$fresh/server.ts";
-import { successResponse, withErrorHandler, type AppState } from "../../../lib/fresh-helpers.ts";
+import {
+  createCsrfToken,
+  CSRF_COOKIE_NAME,
+  getCsrfSessionId,
+} from "../../../../shared/lib/csrf.ts";
+import {
+  getCookie,
+  setCookie,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
 
 export const handler: Handlers<unknown, AppState> = {
-  GET: withErrorHandler((_req, _ctx) => {
-    // Generate a simple CSRF token
-    // In production, you might want to store this in a session or use a more robust method
-    const csrfToken = crypto.randomUUID();
+  GET: withErrorHandler(async (req, _ctx) => {
+    const sessionId = await getCsrfSessionId(getCookie(req.headers, "refresh_token"));
+    const csrfToken = await createCsrfToken(sessionId);
 
-    return successResponse({ csrfToken });
+    const headers = new Headers();
+    setCookie(headers, CSRF_COOKIE_NAME, csrfToken, {
+      httpOnly: true,
+      secure: Deno.env.get("DENO_ENV") === "production",
+      sameSite: "Strict",
+      path: "/",
+    });
+
+    return new Response(
+      JSON.stringify({
+        data: { csrfToken },
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
   }),
 };
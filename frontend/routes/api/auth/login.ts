@@ -1,14 +1,20 @@
 /**
  * POST /api/auth/login
  * User login endpoint
+ *
+ * Users with 2FA enabled or a registered passkey receive a challenge token
+ * instead of a session; it is exchanged for tokens at POST /api/auth/login/2fa
+ * (TOTP or backup code) or POST /api/auth/webauthn/2fa/verify (passkey)
  */
 
 import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
 import { AuthService } from "../../../../shared/services/index.ts";
 import {
+  getSessionMetadata,
   parseJsonBody,
   setCookie,
+  successResponse,
   withErrorHandler,
   type AppState
 } from "../../../lib/fresh-helpers.ts";
@@ -19,14 +25,24 @@ const LoginSchema = z.object({
 });
 
 export const handler: Handlers<unknown, AppState> = {
-  POST: withErrorHandler(async (req, _ctx) => {
+  POST: withErrorHandler(async (req, ctx) => {
     // Parse and validate request body (Zod errors automatically handled)
     const { email, password } = await parseJsonBody(req, LoginSchema);
 
     const authService = new AuthService();
 
     // Authenticate user (service throws typed errors)
-    const loginResult = await authService.login(email, password);
+    const loginResult = await authService.login(email, password, getSessionMetadata(req, ctx));
+
+    // Second factor required - no tokens or cookies until the code is verified
+    if (loginResult.requiresTwoFactor) {
+      return successResponse({
+        requiresTwoFactor: true,
+        challengeToken: loginResult.challengeToken,
+        expiresIn: loginResult.expiresIn,
+        methods: loginResult.methods,
+      });
+    }
 
     // Set refresh token as httpOnly cookie
     const headers = new Headers();
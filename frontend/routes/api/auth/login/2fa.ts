@@ -0,0 +1,65 @@
+/**
+ * POST /api/auth/login/2fa
+ * Second step of login for users with 2FA enabled
+ *
+ * Exchanges the challenge token from POST /api/auth/login plus a TOTP
+ * or backup code for access and refresh tokens
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { AuthService } from "../../../../../shared/services/index.ts";
+import {
+  getSessionMetadata,
+  parseJsonBody,
+  setCookie,
+  withErrorHandler,
+  type AppState
+} from "../../../../lib/fresh-helpers.ts";
+
+const LoginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(6).max(8),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const { challengeToken, code } = await parseJsonBody(req, LoginTwoFactorSchema);
+
+    const authService = new AuthService();
+
+    // Verify challenge + code (service throws typed errors)
+    const loginResult = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      getSessionMetadata(req, ctx),
+    );
+
+    // Set refresh token as httpOnly cookie
+    const headers = new Headers();
+    setCookie(headers, "refresh_token", loginResult.refreshToken, {
+      httpOnly: true,
+      secure: Deno.env.get("DENO_ENV") === "production",
+      sameSite: "Lax",
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+      path: "/",
+    });
+
+    // Return access token in response
+    return new Response(
+      JSON.stringify({
+        data: {
+          accessToken: loginResult.accessToken,
+          user: loginResult.user,
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
+  }),
+};
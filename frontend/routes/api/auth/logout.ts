@@ -4,19 +4,21 @@
  */
 
 import { Handlers } from "$fresh/server.ts";
+import { CSRF_COOKIE_NAME } from "../../../../shared/lib/csrf.ts";
 import { AuthService } from "../../../../shared/services/index.ts";
 import {
   deleteCookie,
   getCookie,
+  getSessionMetadata,
   requireUser,
   withErrorHandler,
   type AppState
 } from "../../../lib/fresh-helpers.ts";
 
 export const handler: Handlers<unknown, AppState> = {
-  POST: withErrorHandler(async (req, _ctx) => {
+  POST: withErrorHandler(async (req, ctx) => {
     // Get user from auth middleware (throws AuthenticationError if not authenticated)
-    const user = requireUser(_ctx);
+    const user = requireUser(ctx);
     const authService = new AuthService();
 
     // Get refresh token from cookie
@@ -29,11 +31,13 @@ export const handler: Handlers<unknown, AppState> = {
       : undefined;
 
     // Logout and revoke tokens
-    await authService.logout(user.sub, refreshToken, accessToken);
+    await authService.logout(user.sub, refreshToken, accessToken, getSessionMetadata(req, ctx));
 
-    // Delete refresh token cookie
-    const headers = new Headers();
+    // Delete refresh token and CSRF cookies
+    // (Headers passed directly - spreading entries would keep only one Set-Cookie)
+    const headers = new Headers({ "Content-Type": "application/json" });
     deleteCookie(headers, "refresh_token");
+    deleteCookie(headers, CSRF_COOKIE_NAME);
 
     return new Response(
       JSON.stringify({
@@ -43,10 +47,7 @@ export const handler: Handlers<unknown, AppState> = {
       }),
       {
         status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          ...Object.fromEntries(headers.entries()),
-        },
+        headers,
       }
     );
   }),
@@ -0,0 +1,83 @@
+/**
+ * GET /api/auth/oidc/[provider]/callback?code=...&state=...
+ * Provider redirects back here after sign-in
+ *
+ * - Sign-in: redirects to /login with a one-time code in the URL fragment,
+ *   which the login page exchanges at POST /api/auth/oidc/exchange
+ * - Linking: redirects to /profile#oidc_linked=[provider]
+ * - Errors: redirects to the page the flow started from with #oidc_error=message
+ *
+ * Fragments are never sent to servers, so the code stays out of access logs
+ * and Referer headers.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { ErrorCode } from "../../../../../../shared/lib/error-codes.ts";
+import { createLogger } from "../../../../../../shared/lib/logger.ts";
+import { OidcService } from "../../../../../../shared/services/index.ts";
+import { AppError, AuthenticationError, BadRequestError } from "../../../../../lib/errors.ts";
+import {
+  deleteCookie,
+  getAuditContext,
+  getCookie,
+  OIDC_COOKIE_PATH,
+  OIDC_LINK_STATE_COOKIE,
+  OIDC_STATE_COOKIE,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+const logger = createLogger('OidcCallback');
+
+export const handler: Handlers<unknown, AppState> = {
+  async GET(req, ctx) {
+    const url = new URL(req.url);
+    const state = url.searchParams.get("state") ?? "";
+
+    // The cookie holding this state tells which flow the browser started
+    const linking = state !== "" && getCookie(req.headers, OIDC_LINK_STATE_COOKIE) === state;
+    const browserState = getCookie(req.headers, linking ? OIDC_LINK_STATE_COOKIE : OIDC_STATE_COOKIE);
+
+    // State cookies are single-use
+    const headers = new Headers();
+    deleteCookie(headers, OIDC_STATE_COOKIE, OIDC_COOKIE_PATH);
+    deleteCookie(headers, OIDC_LINK_STATE_COOKIE, OIDC_COOKIE_PATH);
+
+    try {
+      // Provider-reported errors, e.g. the user declined consent
+      const providerError = url.searchParams.get("error");
+      if (providerError) {
+        throw new AuthenticationError(
+          ErrorCode.SOCIAL_LOGIN_FAILED,
+          providerError === "access_denied" ? "Sign-in was cancelled" : undefined,
+        );
+      }
+
+      const code = url.searchParams.get("code");
+      if (!code || !state) {
+        throw new BadRequestError("Missing authorization code");
+      }
+
+      const oidcService = new OidcService();
+      const result = await oidcService.handleCallback(
+        ctx.params["provider"]!,
+        { code, state, browserState },
+        getAuditContext(req, ctx),
+      );
+
+      headers.set(
+        "Location",
+        result.type === "login"
+          ? `/login?redirect=${encodeURIComponent(result.redirectTo)}#oidc_code=${result.loginCode}`
+          : `${result.redirectTo}#oidc_linked=${result.provider}`,
+      );
+    } catch (error) {
+      if (!(error instanceof AppError) || !error.isOperational) {
+        logger.error("Social sign-in callback failed", { provider: ctx.params["provider"], error });
+      }
+      const message = error instanceof AppError ? error.message : "Sign-in with the provider failed. Please try again";
+      headers.set("Location", `${linking ? "/profile" : "/login"}#oidc_error=${encodeURIComponent(message)}`);
+    }
+
+    return new Response(null, { status: 302, headers });
+  },
+};
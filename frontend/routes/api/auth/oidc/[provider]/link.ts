@@ -0,0 +1,43 @@
+/**
+ * POST /api/auth/oidc/[provider]/link
+ * Start linking a social provider to the current user's account
+ *
+ * Returns the provider's sign-in URL for the browser to navigate to; the
+ * callback links the identity and returns to /profile.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { OidcService } from "../../../../../../shared/services/index.ts";
+import {
+  OIDC_LINK_STATE_COOKIE,
+  requireUser,
+  setOidcStateCookie,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const oidcService = new OidcService();
+    const { authorizationUrl, state } = await oidcService.startAuthorization(ctx.params["provider"]!, {
+      redirectTo: "/profile",
+      linkUserId: user.sub,
+    });
+
+    const headers = new Headers();
+    setOidcStateCookie(headers, OIDC_LINK_STATE_COOKIE, state);
+
+    return new Response(
+      JSON.stringify({ data: { authorizationUrl } }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
+  }),
+};
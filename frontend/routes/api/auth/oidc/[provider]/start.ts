@@ -0,0 +1,43 @@
+/**
+ * GET /api/auth/oidc/[provider]/start?redirect=/path
+ * Start signing in with a social provider
+ *
+ * Redirects the browser to the provider's sign-in page. The provider sends
+ * it back to GET /api/auth/oidc/[provider]/callback.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { createLogger } from "../../../../../../shared/lib/logger.ts";
+import { OidcService } from "../../../../../../shared/services/index.ts";
+import { AppError } from "../../../../../lib/errors.ts";
+import {
+  OIDC_STATE_COOKIE,
+  setOidcStateCookie,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+const logger = createLogger('OidcStart');
+
+export const handler: Handlers<unknown, AppState> = {
+  async GET(req, ctx) {
+    const url = new URL(req.url);
+    const headers = new Headers();
+
+    try {
+      const oidcService = new OidcService();
+      const { authorizationUrl, state } = await oidcService.startAuthorization(ctx.params["provider"]!, {
+        redirectTo: url.searchParams.get("redirect"),
+      });
+
+      setOidcStateCookie(headers, OIDC_STATE_COOKIE, state);
+      headers.set("Location", authorizationUrl);
+    } catch (error) {
+      // Browser navigation - report errors on the login page rather than as JSON
+      logger.error("Failed to start social sign-in", { provider: ctx.params["provider"], error });
+      const message = error instanceof AppError ? error.message : "Social sign-in is unavailable";
+      headers.set("Location", `/login#oidc_error=${encodeURIComponent(message)}`);
+    }
+
+    return new Response(null, { status: 302, headers });
+  },
+};
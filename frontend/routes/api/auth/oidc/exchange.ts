@@ -0,0 +1,72 @@
+/**
+ * POST /api/auth/oidc/exchange
+ * Finish a social sign-in
+ *
+ * Exchanges the one-time code the callback handed to the login page for
+ * access and refresh tokens. Users with 2FA enabled or a registered passkey
+ * receive a challenge token instead, as with POST /api/auth/login.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { OidcService } from "../../../../../shared/services/index.ts";
+import {
+  getSessionMetadata,
+  parseJsonBody,
+  setCookie,
+  successResponse,
+  withErrorHandler,
+  type AppState
+} from "../../../../lib/fresh-helpers.ts";
+
+const ExchangeSchema = z.object({
+  code: z.string().min(1),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const { code } = await parseJsonBody(req, ExchangeSchema);
+
+    const oidcService = new OidcService();
+
+    // Redeem the code (service throws typed errors)
+    const loginResult = await oidcService.completeLogin(code, getSessionMetadata(req, ctx));
+
+    // Second factor required - no tokens or cookies until it is verified
+    if (loginResult.requiresTwoFactor) {
+      return successResponse({
+        requiresTwoFactor: true,
+        challengeToken: loginResult.challengeToken,
+        expiresIn: loginResult.expiresIn,
+        methods: loginResult.methods,
+      });
+    }
+
+    // Set refresh token as httpOnly cookie
+    const headers = new Headers();
+    setCookie(headers, "refresh_token", loginResult.refreshToken, {
+      httpOnly: true,
+      secure: Deno.env.get("DENO_ENV") === "production",
+      sameSite: "Lax",
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+      path: "/",
+    });
+
+    // Return access token in response
+    return new Response(
+      JSON.stringify({
+        data: {
+          accessToken: loginResult.accessToken,
+          user: loginResult.user,
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
+  }),
+};
@@ -1,12 +1,17 @@
 /**
  * POST /api/auth/refresh
  * Refresh access token using refresh token from cookie
+ *
+ * The refresh token is rotated on every call: the cookie is replaced with its
+ * successor, and replaying the old one revokes the session.
  */
 
 import { Handlers } from "$fresh/server.ts";
 import { AuthService } from "../../../../shared/services/index.ts";
 import {
   getCookie,
+  getSessionMetadata,
+  setCookie,
   successResponse,
   withErrorHandler,
   type AppState,
@@ -15,7 +20,7 @@ import { AuthenticationError } from "../../../lib/errors.ts";
 import { ErrorCode } from "../../../../shared/lib/error-codes.ts";
 
 export const handler: Handlers<unknown, AppState> = {
-  POST: withErrorHandler(async (req, _ctx) => {
+  POST: withErrorHandler(async (req, ctx) => {
     // Get refresh token from cookie
     const refreshToken = getCookie(req.headers, "refresh_token");
 
@@ -26,10 +31,23 @@ export const handler: Handlers<unknown, AppState> = {
     const authService = new AuthService();
 
     // Refresh access token (service throws typed errors)
-    const result = await authService.refreshAccessToken(refreshToken);
+    const result = await authService.refreshAccessToken(refreshToken, getSessionMetadata(req, ctx));
 
-    return successResponse({
+    const response = successResponse({
       access_token: result.accessToken,
     });
+
+    // No new refresh token when a concurrent refresh already rotated it
+    if (result.refreshToken && result.refreshTokenExpiresAt) {
+      setCookie(response.headers, "refresh_token", result.refreshToken, {
+        httpOnly: true,
+        secure: Deno.env.get("DENO_ENV") === "production",
+        sameSite: "Lax",
+        maxAge: Math.max(0, result.refreshTokenExpiresAt - Math.floor(Date.now() / 1000)),
+        path: "/",
+      });
+    }
+
+    return response;
   }),
 };
@@ -4,7 +4,7 @@
  */
 
 import { Handlers } from "$fresh/server.ts";
-import { verifyToken } from "../../../../shared/lib/jwt.ts";
+import { verifyAccessToken } from "../../../../shared/lib/jwt.ts";
 import {
   successResponse,
   withErrorHandler,
@@ -24,7 +24,7 @@ export const handler: Handlers<unknown, AppState> = {
     const token = authHeader.slice(7);
 
     // Verify token (throws if invalid)
-    const payload = await verifyToken(token);
+    const payload = await verifyAccessToken(token);
 
     return successResponse({
       valid: true,
@@ -0,0 +1,32 @@
+/**
+ * POST /api/auth/webauthn/2fa/options
+ * Use a passkey as the second step of login
+ *
+ * Takes the challenge token from POST /api/auth/login and returns options
+ * for navigator.credentials.get() limited to that user's passkeys
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { AuthService } from "../../../../../../shared/services/index.ts";
+import {
+  parseJsonBody,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+const TwoFactorPasskeyOptionsSchema = z.object({
+  challengeToken: z.string().min(1),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req) => {
+    const { challengeToken } = await parseJsonBody(req, TwoFactorPasskeyOptionsSchema);
+
+    const authService = new AuthService();
+    const result = await authService.startTwoFactorPasskey(challengeToken);
+
+    return successResponse(result);
+  }),
+};
@@ -0,0 +1,69 @@
+/**
+ * POST /api/auth/webauthn/2fa/verify
+ * Second step of login with a passkey
+ *
+ * Exchanges the challenge token from POST /api/auth/login plus a passkey
+ * assertion for access and refresh tokens (the passkey equivalent of
+ * POST /api/auth/login/2fa)
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { AuthService } from "../../../../../../shared/services/index.ts";
+import { AuthenticationCredentialSchema } from "../../../../../../shared/types/webauthn.ts";
+import {
+  getSessionMetadata,
+  parseJsonBody,
+  setCookie,
+  withErrorHandler,
+  type AppState
+} from "../../../../../lib/fresh-helpers.ts";
+
+const TwoFactorPasskeyVerifySchema = z.object({
+  challengeToken: z.string().min(1),
+  challengeId: z.string().min(1),
+  credential: AuthenticationCredentialSchema,
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const { challengeToken, challengeId, credential } = await parseJsonBody(req, TwoFactorPasskeyVerifySchema);
+
+    const authService = new AuthService();
+
+    // Verify challenge + passkey (service throws typed errors)
+    const loginResult = await authService.completeTwoFactorLoginWithPasskey(
+      challengeToken,
+      challengeId,
+      credential,
+      getSessionMetadata(req, ctx),
+    );
+
+    // Set refresh token as httpOnly cookie
+    const headers = new Headers();
+    setCookie(headers, "refresh_token", loginResult.refreshToken, {
+      httpOnly: true,
+      secure: Deno.env.get("DENO_ENV") === "production",
+      sameSite: "Lax",
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+      path: "/",
+    });
+
+    // Return access token in response
+    return new Response(
+      JSON.stringify({
+        data: {
+          accessToken: loginResult.accessToken,
+          user: loginResult.user,
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
+  }),
+};
@@ -0,0 +1,35 @@
+/**
+ * DELETE /api/auth/webauthn/credentials/[id]
+ * Remove one of the current user's passkeys
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { WebAuthnService } from "../../../../../../shared/services/index.ts";
+import { BadRequestError } from "../../../../../lib/errors.ts";
+import {
+  getAuditContext,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  DELETE: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const credentialId = ctx.params["id"];
+    if (!credentialId) {
+      throw new BadRequestError("Passkey ID is required");
+    }
+
+    const webauthnService = new WebAuthnService();
+
+    // Only the user's own passkeys can be removed (NotFoundError otherwise)
+    await webauthnService.deleteCredential(user.sub, credentialId, getAuditContext(req, ctx));
+
+    return successResponse({
+      message: "Passkey removed successfully",
+    });
+  }),
+};
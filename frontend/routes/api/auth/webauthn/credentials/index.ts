@@ -0,0 +1,24 @@
+/**
+ * GET /api/auth/webauthn/credentials
+ * List the current user's passkeys
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { WebAuthnService } from "../../../../../../shared/services/index.ts";
+import {
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const webauthnService = new WebAuthnService();
+    const passkeys = await webauthnService.listCredentials(user.sub);
+
+    return successResponse({ passkeys });
+  }),
+};
@@ -0,0 +1,24 @@
+/**
+ * POST /api/auth/webauthn/login/options
+ * Start a passwordless sign-in
+ *
+ * Returns a challenge ID and options for navigator.credentials.get() that
+ * let the browser offer any passkey registered for this site
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { WebAuthnService } from "../../../../../../shared/services/index.ts";
+import {
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async () => {
+    const webauthnService = new WebAuthnService();
+    const result = await webauthnService.startAuthentication();
+
+    return successResponse(result);
+  }),
+};
@@ -0,0 +1,66 @@
+/**
+ * POST /api/auth/webauthn/login/verify
+ * Finish a passwordless sign-in
+ *
+ * Exchanges a passkey assertion for the challenge from
+ * POST /api/auth/webauthn/login/options for access and refresh tokens
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { AuthService } from "../../../../../../shared/services/index.ts";
+import { AuthenticationCredentialSchema } from "../../../../../../shared/types/webauthn.ts";
+import {
+  getSessionMetadata,
+  parseJsonBody,
+  setCookie,
+  withErrorHandler,
+  type AppState
+} from "../../../../../lib/fresh-helpers.ts";
+
+const PasskeyLoginSchema = z.object({
+  challengeId: z.string().min(1),
+  credential: AuthenticationCredentialSchema,
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const { challengeId, credential } = await parseJsonBody(req, PasskeyLoginSchema);
+
+    const authService = new AuthService();
+
+    // Verify the passkey (service throws typed errors)
+    const loginResult = await authService.loginWithPasskey(
+      challengeId,
+      credential,
+      getSessionMetadata(req, ctx),
+    );
+
+    // Set refresh token as httpOnly cookie
+    const headers = new Headers();
+    setCookie(headers, "refresh_token", loginResult.refreshToken, {
+      httpOnly: true,
+      secure: Deno.env.get("DENO_ENV") === "production",
+      sameSite: "Lax",
+      maxAge: 30 * 24 * 60 * 60, // 30 days
+      path: "/",
+    });
+
+    // Return access token in response
+    return new Response(
+      JSON.stringify({
+        data: {
+          accessToken: loginResult.accessToken,
+          user: loginResult.user,
+        },
+      }),
+      {
+        status: 200,
+        headers: {
+          "Content-Type": "application/json",
+          ...Object.fromEntries(headers.entries()),
+        },
+      }
+    );
+  }),
+};
@@ -0,0 +1,35 @@
+/**
+ * POST /api/auth/webauthn/register/options
+ * Start registering a passkey for the current user
+ *
+ * Requires the account password. Returns a challenge ID and the options
+ * for navigator.credentials.create(); the browser's response is sent to
+ * POST /api/auth/webauthn/register/verify
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { WebAuthnService } from "../../../../../../shared/services/index.ts";
+import {
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+const RegistrationOptionsSchema = z.object({
+  password: z.string().min(1),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const { password } = await parseJsonBody(req, RegistrationOptionsSchema);
+
+    const webauthnService = new WebAuthnService();
+    const result = await webauthnService.startRegistration(user.sub, password);
+
+    return successResponse(result);
+  }),
+};
@@ -0,0 +1,44 @@
+/**
+ * POST /api/auth/webauthn/register/verify
+ * Finish registering a passkey
+ *
+ * Verifies the authenticator's attestation against the challenge from
+ * POST /api/auth/webauthn/register/options and saves the passkey
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { WebAuthnService } from "../../../../../../shared/services/index.ts";
+import { RegistrationCredentialSchema } from "../../../../../../shared/types/webauthn.ts";
+import {
+  getAuditContext,
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+
+const RegistrationVerifySchema = z.object({
+  challengeId: z.string().min(1),
+  credential: RegistrationCredentialSchema,
+  name: z.string().max(100).optional(),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const { challengeId, credential, name } = await parseJsonBody(req, RegistrationVerifySchema);
+
+    const webauthnService = new WebAuthnService();
+    const passkey = await webauthnService.finishRegistration(
+      user.sub,
+      challengeId,
+      credential,
+      name,
+      getAuditContext(req, ctx),
+    );
+
+    return successResponse({ passkey }, 201);
+  }),
+};
@@ -0,0 +1,47 @@
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a waiting, pending, retrying or running job
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { JobRepository } from "../../../../../shared/repositories/index.ts";
+import {
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+import { NotFoundError, BadRequestError } from "../../../../lib/errors.ts";
+
+const CANCELLABLE_STATUSES = ["waiting", "pending", "retrying", "running"];
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (_req, ctx) => {
+    // Require admin role (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    // Get job ID from route params
+    const jobId = ctx.params['id'];
+    if (!jobId) {
+      throw new BadRequestError("Job ID is required");
+    }
+
+    const jobRepo = new JobRepository();
+
+    // Get job to verify it exists and has not finished
+    const job = await jobRepo.findById(jobId);
+    if (!job) {
+      throw new NotFoundError(undefined, 'Job', jobId);
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(job.status)) {
+      throw new BadRequestError("Only waiting, pending, retrying or running jobs can be cancelled");
+    }
+
+    // Cancel via the queue so a running handler is aborted
+    const queue = await import("../../../../../shared/lib/queue.ts");
+    const cancelled = await queue.queue.cancel(jobId);
+
+    return successResponse({ message: "Job cancelled", job: cancelled });
+  }),
+};
@@ -1,6 +1,6 @@
 /**
  * POST /api/jobs/:id/retry
- * Retry a failed job
+ * Retry a failed or cancelled job
  */
 
 import { Handlers } from "$fresh/server.ts";
@@ -26,14 +26,14 @@ export const handler: Handlers<unknown, AppState> = {
 
     const jobRepo = new JobRepository();
 
-    // Get job to verify it exists and is failed
+    // Get job to verify it exists and is failed or cancelled
     const job = await jobRepo.findById(jobId);
     if (!job) {
       throw new NotFoundError(undefined, 'Job', jobId);
     }
 
-    if (job.status !== "failed") {
-      throw new BadRequestError("Only failed jobs can be retried");
+    if (job.status !== "failed" && job.status !== "cancelled") {
+      throw new BadRequestError("Only failed or cancelled jobs can be retried");
     }
 
     // Retry job using the queue system
@@ -0,0 +1,32 @@
+/**
+ * GET /api/jobs/flows/:id - Get a job flow with its jobs
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { queue } from "../../../../../shared/lib/queue.ts";
+import { BadRequestError, NotFoundError } from "../../../../lib/errors.ts";
+import {
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    // Require admin role (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const flowId = ctx.params['id'];
+    if (!flowId) {
+      throw new BadRequestError("Flow ID is required");
+    }
+
+    const flow = await queue.getFlow(flowId);
+    if (!flow) {
+      throw new NotFoundError(undefined, 'Flow', flowId);
+    }
+
+    return successResponse(flow);
+  }),
+};
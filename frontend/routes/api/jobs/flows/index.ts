@@ -0,0 +1,58 @@
+/**
+ * GET /api/jobs/flows - List recent job flows with their jobs
+ * POST /api/jobs/flows - Create a flow (tree of dependent jobs)
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { type FlowJob, queue } from "../../../../../shared/lib/queue.ts";
+import {
+  parseJsonBody,
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+const FlowJobSchema: z.ZodType<FlowJob> = z.lazy(() =>
+  z.object({
+    name: z.string().min(1).max(100),
+    data: z.record(z.any()),
+    options: z
+      .object({
+        priority: z.number().min(1).max(10).optional(),
+        delay: z.number().min(0).optional(),
+        maxRetries: z.number().min(0).optional(),
+        timeoutMs: z.number().min(1).optional(),
+        onParentFailure: z.enum(["fail", "continue"]).optional(),
+      })
+      .optional(),
+    children: z.array(FlowJobSchema).max(20).optional(),
+  })
+);
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    // Require admin role (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    const url = new URL(req.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "20"), 100);
+
+    const flows = await queue.listFlows(limit);
+
+    return successResponse({ flows });
+  }),
+
+  POST: withErrorHandler(async (req, ctx) => {
+    // Require admin role (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    // Parse and validate request body (throws ValidationError on invalid data)
+    const body = await parseJsonBody(req, FlowJobSchema);
+
+    const flow = await queue.addFlow(body);
+
+    return successResponse(flow, 201);
+  }),
+};
@@ -0,0 +1,43 @@
+/**
+ * GET /api/jobs/schedules/:name/history
+ * Recent runs of a schedule, newest first
+ *
+ * Query params:
+ * - limit: Max runs to return (default 50, max 50)
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { scheduler } from "../../../../../../shared/lib/scheduler.ts";
+import {
+  requireAdmin,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../../lib/fresh-helpers.ts";
+import { BadRequestError, NotFoundError } from "../../../../../lib/errors.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    // Require admin role (throws AuthorizationError if not admin)
+    requireAdmin(ctx);
+
+    // Get schedule name from route params
+    const name = ctx.params['name'];
+    if (!name) {
+      throw new BadRequestError("Schedule name is required");
+    }
+
+    // Verify schedule exists
+    const schedule = scheduler.getSchedule(name);
+    if (!schedule) {
+      throw new NotFoundError(undefined, 'Schedule', name);
+    }
+
+    const url = new URL(req.url);
+    const limit = Math.min(parseInt(url.searchParams.get("limit") || "50"), 50);
+
+    const runs = await scheduler.getRunHistory(name, limit);
+
+    return successResponse({ name, runs });
+  }),
+};
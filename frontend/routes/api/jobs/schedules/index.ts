@@ -7,8 +7,8 @@ import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
 import { createLogger } from '../../../../../shared/lib/logger.ts';
 import { queue } from "../../../../../shared/lib/queue.ts";
-import { scheduler } from "../../../../../shared/lib/scheduler.ts";
-import { ConflictError } from "../../../../lib/errors.ts";
+import { CronParser, scheduler } from "../../../../../shared/lib/scheduler.ts";
+import { BadRequestError, ConflictError } from "../../../../lib/errors.ts";
 import {
     parseJsonBody,
     requireAdmin,
@@ -24,14 +24,17 @@ const CreateScheduleSchema = z.object({
   jobData: z.record(z.any()),
   enabled: z.boolean().optional(),
   timezone: z.string().optional(),
+  misfirePolicy: z.enum(["skip", "run-once", "run-all"]).optional(),
+  maxCatchUp: z.number().int().min(1).max(100).optional(),
 });
 
 export const handler: Handlers<unknown, AppState> = {
-  GET: withErrorHandler((_req, ctx) => {
+  GET: withErrorHandler(async (_req, ctx) => {
     // Require admin role (throws AuthorizationError if not admin)
     requireAdmin(ctx);
 
     const schedules = scheduler.getSchedules();
+    const leader = await scheduler.getLeader();
 
     return successResponse({
       schedules: schedules.map((s) => ({
@@ -39,10 +42,21 @@ export const handler: Handlers<unknown, AppState> = {
         cron: s.cron,
         enabled: s.enabled,
         timezone: s.timezone,
+        misfirePolicy: s.misfirePolicy,
+        maxCatchUp: s.maxCatchUp,
         nextRun: s.nextRun?.toISOString(),
         lastRun: s.lastRun?.toISOString(),
         runCount: s.runCount,
       })),
+      // Instance currently firing schedules (null while the lease is vacant)
+      leader: leader
+        ? {
+          instanceId: leader.holderId,
+          acquiredAt: new Date(leader.acquiredAt).toISOString(),
+          expiresAt: new Date(leader.expiresAt).toISOString(),
+        }
+        : null,
+      instanceId: scheduler.instanceId,
     });
   }),
 
@@ -59,6 +73,13 @@ export const handler: Handlers<unknown, AppState> = {
       throw new ConflictError("A schedule with this name already exists");
     }
 
+    // Reject bad cron syntax or unknown timezones before anything is persisted
+    try {
+      CronParser.validate(body.cron, body.timezone || "UTC");
+    } catch (error) {
+      throw new BadRequestError(error instanceof Error ? error.message : "Invalid schedule");
+    }
+
     // Create the scheduled job handler
     // This handler will enqueue a job when the schedule triggers
     const logger = createLogger('SchedulesAPI');
@@ -80,6 +101,8 @@ export const handler: Handlers<unknown, AppState> = {
       {
         timezone: body.timezone,
         enabled: body.enabled,
+        misfirePolicy: body.misfirePolicy,
+        maxCatchUp: body.maxCatchUp,
       },
     );
 
@@ -92,6 +115,8 @@ export const handler: Handlers<unknown, AppState> = {
         cron: schedule!.cron,
         enabled: schedule!.enabled,
         timezone: schedule!.timezone,
+        misfirePolicy: schedule!.misfirePolicy,
+        maxCatchUp: schedule!.maxCatchUp,
         nextRun: schedule!.nextRun?.toISOString(),
         runCount: schedule!.runCount,
       },
@@ -1,12 +1,19 @@
 /**
  * POST /api/notifications
  * Create a notification (admin only)
+ *
+ * Delivered through the recipient's preferences: in-app, email or digest.
+ * Optional action buttons, group key, priority and expiry apply in-app.
  */
 
 import { Handlers } from "$fresh/server.ts";
 import { z } from "zod";
-import { notifyUser } from "../../../../shared/lib/notification-websocket.ts";
-import { NotificationRepository } from "../../../../shared/repositories/index.ts";
+import { NotificationDeliveryService } from "../../../../shared/services/index.ts";
+import {
+    NotificationCategorySchema,
+    NotificationExtrasSchema,
+    NotificationLinkSchema,
+} from "../../../../shared/types/notifications.ts";
 import {
     parseJsonBody,
     requireAdmin,
@@ -15,11 +22,16 @@ import {
     type AppState,
 } from "../../../lib/fresh-helpers.ts";
 
-const CreateNotificationSchema = z.object({
+const CreateNotificationSchema = NotificationExtrasSchema.extend({
   userId: z.string().min(1),
   type: z.enum(["info", "success", "warning", "error"]),
   title: z.string().min(1).max(200),
   message: z.string().min(1).max(1000),
+  link: NotificationLinkSchema.optional(),
+  category: NotificationCategorySchema.optional(),
+}).refine((body) => !body.expiresAt || new Date(body.expiresAt) > new Date(), {
+  message: "Must be in the future",
+  path: ["expiresAt"],
 });
 
 export const handler: Handlers<unknown, AppState> = {
@@ -30,19 +42,10 @@ export const handler: Handlers<unknown, AppState> = {
     // Parse and validate request body
     const body = await parseJsonBody(req, CreateNotificationSchema);
 
-    const notificationRepo = new NotificationRepository();
-
-    // Create notification
-    const notification = await notificationRepo.create(
-      body.userId,
-      body.type,
-      body.title,
-      body.message,
-    );
-
-    // Broadcast via WebSocket
-    notifyUser(body.userId, notification);
+    // Create and deliver notification
+    const deliveryService = new NotificationDeliveryService();
+    const result = await deliveryService.send(body);
 
-    return successResponse(notification, 201);
+    return successResponse(result, 201);
   }),
 };
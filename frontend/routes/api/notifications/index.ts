@@ -1,11 +1,13 @@
 /**
  * GET /api/notifications
- * List user notifications with pagination
+ * Page through user notifications (newest first), optionally filtered by read state or type
  */
 
 import { Handlers } from "$fresh/server.ts";
 import { NotificationRepository } from "../../../../shared/repositories/index.ts";
+import { NotificationListQuerySchema } from "../../../../shared/types/notifications.ts";
 import {
+    getQueryParams,
     requireUser,
     successResponse,
     withErrorHandler,
@@ -17,13 +19,11 @@ export const handler: Handlers<unknown, AppState> = {
     // Require authentication
     const user = requireUser(ctx);
 
-    // Parse query parameters
-    const url = new URL(req.url);
-    const limit = parseInt(url.searchParams.get("limit") || "50");
-    const cursor = url.searchParams.get("cursor") || undefined;
+    // Parse and validate query parameters (throws ValidationError on invalid filters)
+    const { read, type, limit, cursor } = NotificationListQuerySchema.parse(getQueryParams(new URL(req.url)));
 
     const notificationRepo = new NotificationRepository();
-    const result = await notificationRepo.listUserNotifications(user.sub, { limit, cursor });
+    const result = await notificationRepo.listUserNotifications(user.sub, { read, type, limit, cursor });
     const unreadCount = await notificationRepo.getUnreadCount(user.sub);
 
     return successResponse({
@@ -0,0 +1,50 @@
+/**
+ * GET /api/uploads/:id - Serve an uploaded file
+ * DELETE /api/uploads/:id - Delete an uploaded file (owner or admin)
+ *
+ * GET is unauthenticated so files work in <img> tags; IDs are random UUIDs.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UploadService } from "../../../../shared/services/index.ts";
+import {
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+/**
+ * Image types safe to render inline (SVG excluded - it can carry scripts)
+ */
+const INLINE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"];
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const uploadService = new UploadService();
+    const { file, content } = await uploadService.getFile(ctx.params.id!);
+
+    const inline = INLINE_TYPES.includes(file.contentType);
+    const filename = encodeURIComponent(file.originalName);
+
+    return new Response(content, {
+      status: 200,
+      headers: {
+        "Content-Type": inline ? file.contentType : "application/octet-stream",
+        "Content-Length": String(content.byteLength),
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${filename}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=86400, immutable",
+      },
+    });
+  }),
+
+  DELETE: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const uploadService = new UploadService();
+    await uploadService.deleteFile(ctx.params.id!, user.sub, user.role === "admin");
+
+    return successResponse({ message: "File deleted" });
+  }),
+};
@@ -0,0 +1,29 @@
+/**
+ * GET /api/uploads
+ * List the current user's uploaded files
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UploadService } from "../../../../shared/services/index.ts";
+import {
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const url = new URL(req.url);
+    const limit = parseInt(url.searchParams.get("limit") || "50");
+
+    const uploadService = new UploadService();
+    const files = await uploadService.listUserFiles(user.sub, limit);
+
+    return successResponse({
+      files: files.map((file) => ({ ...file, url: UploadService.getFileUrl(file.id) })),
+    });
+  }),
+};
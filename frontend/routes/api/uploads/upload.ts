@@ -0,0 +1,29 @@
+/**
+ * POST /api/uploads/upload
+ * Upload a file (multipart/form-data, field "file")
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UploadService } from "../../../../shared/services/index.ts";
+import { MULTIPART_OVERHEAD, UPLOAD_LIMITS } from "../../../../shared/services/UploadService.ts";
+import {
+  parseFormData,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const formData = await parseFormData(req, UPLOAD_LIMITS.file + MULTIPART_OVERHEAD);
+    const upload = await UploadService.readUpload(formData);
+
+    const uploadService = new UploadService();
+    const result = await uploadService.uploadFile(user.sub, upload);
+
+    return successResponse(result, 201);
+  }),
+};
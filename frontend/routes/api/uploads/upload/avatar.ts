@@ -0,0 +1,30 @@
+/**
+ * POST /api/uploads/upload/avatar
+ * Upload an avatar (multipart/form-data, field "file")
+ * Returns large (256px) and small (64px) circular PNG URLs
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UploadService } from "../../../../../shared/services/index.ts";
+import { MULTIPART_OVERHEAD, UPLOAD_LIMITS } from "../../../../../shared/services/UploadService.ts";
+import {
+  parseFormData,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const formData = await parseFormData(req, UPLOAD_LIMITS.avatar + MULTIPART_OVERHEAD);
+    const upload = await UploadService.readUpload(formData);
+
+    const uploadService = new UploadService();
+    const result = await uploadService.uploadAvatar(user.sub, upload);
+
+    return successResponse(result, 201);
+  }),
+};
@@ -0,0 +1,37 @@
+/**
+ * POST /api/uploads/upload/image
+ * Upload an image (multipart/form-data, field "file")
+ *
+ * Query params:
+ * - resize=width,height  Fit within the given box
+ * - thumbnail=size       Also generate a square thumbnail
+ * - optimize=true        Store an optimized copy
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UploadService } from "../../../../../shared/services/index.ts";
+import { MULTIPART_OVERHEAD, UPLOAD_LIMITS } from "../../../../../shared/services/UploadService.ts";
+import { ImageUploadOptionsSchema } from "../../../../../shared/types/files.ts";
+import {
+  getQueryParams,
+  parseFormData,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const options = ImageUploadOptionsSchema.parse(getQueryParams(new URL(req.url)));
+    const formData = await parseFormData(req, UPLOAD_LIMITS.image + MULTIPART_OVERHEAD);
+    const upload = await UploadService.readUpload(formData);
+
+    const uploadService = new UploadService();
+    const result = await uploadService.uploadImage(user.sub, upload, options);
+
+    return successResponse(result, 201);
+  }),
+};
@@ -0,0 +1,37 @@
+/**
+ * POST /api/user/change-password
+ * Change password with current password verification
+ *
+ * Revokes every other session; the caller's own refresh token stays valid.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { UserProfileService } from "../../../../shared/services/index.ts";
+import { ChangePasswordSchema } from "../../../../shared/types/user.ts";
+import {
+  getCookie,
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const { currentPassword, newPassword } = await parseJsonBody(req, ChangePasswordSchema);
+
+    const profileService = new UserProfileService();
+    await profileService.changePassword(
+      user.sub,
+      currentPassword,
+      newPassword,
+      getCookie(req.headers, "refresh_token"),
+    );
+
+    return successResponse({
+      message: "Password changed successfully. Other sessions have been signed out.",
+    });
+  }),
+};
@@ -0,0 +1,35 @@
+/**
+ * POST /api/user/email/confirm
+ * Confirm an email change with the token sent to the new address
+ *
+ * Does not require authentication - the token proves access to the new inbox.
+ * Every session is signed out once the email changes.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { z } from "zod";
+import { UserProfileService } from "../../../../../shared/services/index.ts";
+import {
+  parseJsonBody,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+const ConfirmEmailChangeSchema = z.object({
+  token: z.string().uuid(),
+});
+
+export const handler: Handlers<unknown, AppState> = {
+  POST: withErrorHandler(async (req, _ctx) => {
+    const { token } = await parseJsonBody(req, ConfirmEmailChangeSchema);
+
+    const profileService = new UserProfileService();
+    const profile = await profileService.confirmEmailChange(token);
+
+    return successResponse({
+      email: profile.email,
+      message: "Email address updated successfully. Please sign in again.",
+    });
+  }),
+};
@@ -0,0 +1,35 @@
+/**
+ * DELETE /api/user/identities/[provider]
+ * Unlink a social account from the current user
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { OidcService } from "../../../../../shared/services/index.ts";
+import { BadRequestError } from "../../../../lib/errors.ts";
+import {
+  getAuditContext,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  DELETE: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const provider = ctx.params["provider"];
+    if (!provider) {
+      throw new BadRequestError("Provider is required");
+    }
+
+    const oidcService = new OidcService();
+
+    // NotFoundError if nothing is linked for the provider
+    await oidcService.unlinkIdentity(user.sub, provider, getAuditContext(req, ctx));
+
+    return successResponse({
+      message: "Account unlinked successfully",
+    });
+  }),
+};
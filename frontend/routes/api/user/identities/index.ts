@@ -0,0 +1,25 @@
+/**
+ * GET /api/user/identities
+ * List the social accounts linked to the current user, and the providers
+ * available to link
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { OidcService } from "../../../../../shared/services/index.ts";
+import {
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const oidcService = new OidcService();
+    const identities = await oidcService.listIdentities(user.sub);
+
+    return successResponse({ identities, providers: oidcService.listProviders() });
+  }),
+};
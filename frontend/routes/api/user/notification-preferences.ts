@@ -0,0 +1,45 @@
+/**
+ * GET /api/user/notification-preferences - Get the current user's notification delivery preferences
+ * PATCH /api/user/notification-preferences - Change some of them
+ *
+ * The unsubscribe token is only ever sent by email, never returned here.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { NotificationDeliveryService } from "../../../../shared/services/index.ts";
+import {
+  type NotificationPreferences,
+  UpdateNotificationPreferencesSchema,
+} from "../../../../shared/types/notifications.ts";
+import {
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+function toResponse({ unsubscribeToken: _token, ...preferences }: NotificationPreferences) {
+  return preferences;
+}
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const deliveryService = new NotificationDeliveryService();
+    const preferences = await deliveryService.getPreferences(user.sub);
+
+    return successResponse(toResponse(preferences));
+  }),
+
+  PATCH: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const updates = await parseJsonBody(req, UpdateNotificationPreferencesSchema);
+
+    const deliveryService = new NotificationDeliveryService();
+    const preferences = await deliveryService.updatePreferences(user.sub, updates);
+
+    return successResponse(toResponse(preferences));
+  }),
+};
@@ -0,0 +1,68 @@
+/**
+ * GET /api/user/profile - Get the current user's profile
+ * PATCH /api/user/profile - Update name and/or request an email change
+ *
+ * Email changes need currentPassword and are not applied immediately: a
+ * confirmation link is sent to the new address, a notice with a cancel link
+ * to the current one, and the profile reports pendingEmail until confirmed.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { AppError } from "../../../lib/errors.ts";
+import { ErrorCode } from "../../../../shared/lib/error-codes.ts";
+import { sendEmailChangeEmail, sendEmailChangeNoticeEmail } from "../../../../shared/lib/email.ts";
+import { UserProfileService } from "../../../../shared/services/index.ts";
+import { UpdateUserSchema } from "../../../../shared/types/user.ts";
+import {
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const profileService = new UserProfileService();
+    const profile = await profileService.getProfile(user.sub);
+
+    return successResponse(profile);
+  }),
+
+  PATCH: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const updates = await parseJsonBody(req, UpdateUserSchema);
+
+    const profileService = new UserProfileService();
+    const { profile, emailChange } = await profileService.updateProfile(user.sub, updates);
+
+    if (emailChange && profile.pendingEmail) {
+      // The notice goes first: without it the owner can't stop a change they didn't make
+      const noticed = await sendEmailChangeNoticeEmail(
+        profile.email,
+        profile.name,
+        profile.pendingEmail,
+        emailChange.cancelToken,
+      );
+      if (!noticed.success) {
+        await profileService.cancelEmailChange(user.sub);
+        throw new AppError(ErrorCode.EMAIL_SEND_FAILED, "Could not send the email change notice");
+      }
+
+      const sent = await sendEmailChangeEmail(profile.pendingEmail, profile.name, emailChange.changeToken);
+      if (!sent.success) {
+        await profileService.cancelEmailChange(user.sub);
+        throw new AppError(ErrorCode.EMAIL_SEND_FAILED, "Could not send the confirmation email");
+      }
+
+      return successResponse({
+        ...profile,
+        message: `We sent a confirmation link to ${profile.pendingEmail}. Your email will change once you confirm it.`,
+      });
+    }
+
+    return successResponse(profile);
+  }),
+};
@@ -0,0 +1,55 @@
+/**
+ * GET /api/user/push-subscriptions - VAPID public key and the current user's subscribed browsers
+ * POST /api/user/push-subscriptions - Subscribe this browser (body: PushSubscription.toJSON())
+ * DELETE /api/user/push-subscriptions - Unsubscribe a browser (body: { endpoint })
+ *
+ * Subscribed browsers get Web Push notifications while no tab is connected.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { WebPushService } from "../../../../shared/services/index.ts";
+import {
+  PushSubscriptionRequestSchema,
+  PushUnsubscribeRequestSchema,
+} from "../../../../shared/types/notifications.ts";
+import {
+  parseJsonBody,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (_req, ctx) => {
+    const user = requireUser(ctx);
+
+    const webPushService = new WebPushService();
+    const [publicKey, subscriptions] = await Promise.all([
+      webPushService.getPublicKey(),
+      webPushService.listSubscriptions(user.sub),
+    ]);
+
+    return successResponse({ publicKey, subscriptions });
+  }),
+
+  POST: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const body = await parseJsonBody(req, PushSubscriptionRequestSchema);
+
+    const webPushService = new WebPushService();
+    const subscription = await webPushService.subscribe(user.sub, body, req.headers.get("user-agent"));
+
+    return successResponse({ id: subscription.id, createdAt: subscription.createdAt }, 201);
+  }),
+
+  DELETE: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+    const { endpoint } = await parseJsonBody(req, PushUnsubscribeRequestSchema);
+
+    const webPushService = new WebPushService();
+    const removed = await webPushService.unsubscribe(user.sub, endpoint);
+
+    return successResponse({ removed });
+  }),
+};
@@ -0,0 +1,37 @@
+/**
+ * DELETE /api/user/sessions/[id]
+ * Sign out one of the current user's devices
+ *
+ * Revoking the caller's own session signs them out once the access token expires.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { AuthService } from "../../../../../shared/services/index.ts";
+import { BadRequestError } from "../../../../lib/errors.ts";
+import {
+  getAuditContext,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  DELETE: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const sessionId = ctx.params["id"];
+    if (!sessionId) {
+      throw new BadRequestError("Session ID is required");
+    }
+
+    const authService = new AuthService();
+
+    // Only the user's own sessions are visible (NotFoundError otherwise)
+    await authService.revokeSession(user.sub, sessionId, getAuditContext(req, ctx));
+
+    return successResponse({
+      message: "Session revoked successfully",
+    });
+  }),
+};
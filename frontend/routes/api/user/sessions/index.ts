@@ -0,0 +1,27 @@
+/**
+ * GET /api/user/sessions
+ * List the current user's signed-in devices
+ *
+ * The session the request was made from is flagged with current: true.
+ */
+
+import { Handlers } from "$fresh/server.ts";
+import { AuthService } from "../../../../../shared/services/index.ts";
+import {
+  getCookie,
+  requireUser,
+  successResponse,
+  withErrorHandler,
+  type AppState,
+} from "../../../../lib/fresh-helpers.ts";
+
+export const handler: Handlers<unknown, AppState> = {
+  GET: withErrorHandler(async (req, ctx) => {
+    const user = requireUser(ctx);
+
+    const authService = new AuthService();
+    const sessions = await authService.listSessions(user.sub, getCookie(req.headers, "refresh_token"));
+
+    return successResponse({ sessions });
+  }),
+};
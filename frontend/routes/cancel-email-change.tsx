@@ -0,0 +1,92 @@
+/**
+ * Cancel Email Change Page
+ * Handles the cancel token from the notice sent to the current address
+ */
+
+import { Handlers, PageProps } from "$fresh/server.ts";
+import { AppError } from "../lib/errors.ts";
+import { UserProfileService } from "../../shared/services/index.ts";
+
+interface CancelData {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+export const handler: Handlers<CancelData> = {
+  async GET(req, ctx) {
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (!token) {
+      return ctx.render({
+        success: false,
+        message: 'Cancel token is missing',
+        error: 'Please use the cancel link from your email'
+      });
+    }
+
+    try {
+      const profileService = new UserProfileService();
+      const newEmail = await profileService.cancelEmailChangeByToken(token);
+
+      return ctx.render({
+        success: true,
+        message: `Your email will not change to ${newEmail}. If you didn't ask for this change, change your password now.`,
+      });
+    } catch (error) {
+      return ctx.render({
+        success: false,
+        message: 'Nothing to cancel',
+        error: error instanceof AppError
+          ? 'This change was already confirmed, cancelled or has expired. If your email changed without your permission, reset your password or contact support.'
+          : 'Something went wrong. Please try again later.'
+      });
+    }
+  },
+};
+
+export default function CancelEmailChangePage({ data }: PageProps<CancelData>) {
+  const { success, message, error } = data;
+
+  return (
+    <div class="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center p-4">
+      <div class="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <div class="text-center">
+          {success ? (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-4">
+                <svg class="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">Email Change Cancelled</h1>
+              <p class="text-gray-600 mb-6">{message}</p>
+              <a
+                href="/forgot-password"
+                class="block w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-md hover:from-purple-700 hover:to-blue-700 transition-colors font-medium"
+              >
+                Reset Password
+              </a>
+            </div>
+          ) : (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4">
+                <svg class="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">{message}</h1>
+              <p class="text-gray-600 mb-6">{error}</p>
+              <a
+                href="/forgot-password"
+                class="block w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors font-medium"
+              >
+                Reset Password
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Email Change Confirmation Page
+ * Handles the confirmation token from the link sent to the new address
+ */
+
+import { Handlers, PageProps } from "$fresh/server.ts";
+import { AppError } from "../lib/errors.ts";
+import { UserProfileService } from "../../shared/services/index.ts";
+
+interface ConfirmationData {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+export const handler: Handlers<ConfirmationData> = {
+  async GET(req, ctx) {
+    const token = new URL(req.url).searchParams.get('token');
+
+    if (!token) {
+      return ctx.render({
+        success: false,
+        message: 'Confirmation token is missing',
+        error: 'Please use the confirmation link from your email'
+      });
+    }
+
+    try {
+      const profileService = new UserProfileService();
+      const profile = await profileService.confirmEmailChange(token);
+
+      return ctx.render({
+        success: true,
+        message: `Your email address is now ${profile.email}. Please sign in again on your devices.`,
+      });
+    } catch (error) {
+      return ctx.render({
+        success: false,
+        message: 'Confirmation failed',
+        error: error instanceof AppError
+          ? error.message
+          : 'Something went wrong. Please try again later.'
+      });
+    }
+  },
+};
+
+export default function ConfirmEmailPage({ data }: PageProps<ConfirmationData>) {
+  const { success, message, error } = data;
+
+  return (
+    <div class="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center p-4">
+      <div class="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <div class="text-center">
+          {success ? (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-4">
+                <svg class="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">Email Changed!</h1>
+              <p class="text-gray-600 mb-6">{message}</p>
+              <a
+                href="/login"
+                class="block w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-md hover:from-purple-700 hover:to-blue-700 transition-colors font-medium"
+              >
+                Sign In
+              </a>
+            </div>
+          ) : (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4">
+                <svg class="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">{message}</h1>
+              <p class="text-gray-600 mb-6">{error}</p>
+              <a
+                href="/profile"
+                class="block w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors font-medium"
+              >
+                Back to Profile
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -64,8 +64,13 @@ export async function refreshAccessToken() {
       tokenChannel.postMessage({ type: 'REFRESH_STARTED' });
     }
 
+    // CSRF token is bound to the refresh session, so fetch a fresh one
+    const csrfResponse = await fetch('/api/auth/csrf-token', { credentials: 'include' });
+    const csrfData = csrfResponse.ok ? await csrfResponse.json() : null;
+
     const response = await fetch('/api/auth/refresh', {
       method: 'POST',
+      headers: { 'X-CSRF-Token': csrfData?.data?.csrfToken || '' },
       credentials: 'include', // Include httpOnly refresh token cookie
     });
 
@@ -1,15 +1,17 @@
 /**
  * Login Page
- * Provides email/password login form
+ * Provides email/password login form, plus buttons for the configured social sign-in providers
  */
 
 import { Head } from '$fresh/runtime.ts';
 import { Handlers, PageProps } from '$fresh/server.ts';
+import { OidcService, type OidcProviderInfo } from '../../shared/services/index.ts';
 import LoginForm from '../islands/LoginForm.tsx';
 
 interface LoginData {
   error?: string;
   redirectTo?: string;
+  providers: OidcProviderInfo[];
 }
 
 export const handler: Handlers<LoginData> = {
@@ -36,7 +38,7 @@ export const handler: Handlers<LoginData> = {
       return Response.redirect(new URL(redirectTo, url.origin).href, 302);
     }
     
-    return ctx.render({ redirectTo, error });
+    return ctx.render({ redirectTo, error, providers: new OidcService().listProviders() });
   },
 };
 
@@ -64,7 +66,7 @@ export default function Login({ data }: PageProps<LoginData>) {
           )}
           
           <div class="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 border border-gray-200 dark:border-gray-700">
-            <LoginForm redirectTo={data.redirectTo} />
+            <LoginForm redirectTo={data.redirectTo} providers={data.providers} />
             
             <div class="mt-4 text-center">
               <a 
@@ -0,0 +1,149 @@
+/**
+ * Email Unsubscribe Page
+ * Handles the unsubscribe link in notification emails
+ *
+ * GET only asks for confirmation, so mail scanners that follow links don't
+ * unsubscribe anyone. POST unsubscribes - from the confirm button, or
+ * directly from mail clients that support one-click unsubscribe (RFC 8058).
+ */
+
+import { Handlers, PageProps } from "$fresh/server.ts";
+import { AppError } from "../lib/errors.ts";
+import { NotificationDeliveryService, type UnsubscribeScope } from "../../shared/services/index.ts";
+import { NotificationCategorySchema } from "../../shared/types/notifications.ts";
+
+interface UnsubscribeData {
+  status: 'confirm' | 'success' | 'error';
+  message: string;
+  error?: string;
+}
+
+const scopeDescriptions: Record<UnsubscribeScope, string> = {
+  all: 'all notification emails',
+  digest: 'daily and weekly digest emails',
+  general: 'general notification emails',
+  account: 'account notification emails',
+  security: 'security alert emails',
+  announcements: 'announcement emails',
+};
+
+function parseScope(value: string | null): UnsubscribeScope | null {
+  if (value === 'all' || value === 'digest') {
+    return value;
+  }
+  const category = NotificationCategorySchema.safeParse(value);
+  return category.success ? category.data : null;
+}
+
+function parseLink(req: Request) {
+  const params = new URL(req.url).searchParams;
+  return { token: params.get('token'), scope: parseScope(params.get('scope')) };
+}
+
+const invalidLink: UnsubscribeData = {
+  status: 'error',
+  message: 'Unsubscribe link is not valid',
+  error: 'Please use the unsubscribe link from your email',
+};
+
+export const handler: Handlers<UnsubscribeData> = {
+  GET(req, ctx) {
+    const { token, scope } = parseLink(req);
+
+    if (!token || !scope) {
+      return ctx.render(invalidLink);
+    }
+
+    return ctx.render({
+      status: 'confirm',
+      message: `Stop sending me ${scopeDescriptions[scope]}?`,
+    });
+  },
+
+  async POST(req, ctx) {
+    const { token, scope } = parseLink(req);
+
+    if (!token || !scope) {
+      return ctx.render(invalidLink);
+    }
+
+    try {
+      const deliveryService = new NotificationDeliveryService();
+      await deliveryService.unsubscribe(token, scope);
+
+      return ctx.render({
+        status: 'success',
+        message: `You won't receive ${scopeDescriptions[scope]} any more.`,
+      });
+    } catch (error) {
+      return ctx.render({
+        status: 'error',
+        message: 'Unsubscribe failed',
+        error: error instanceof AppError
+          ? error.message
+          : 'Something went wrong. Please try again later.'
+      });
+    }
+  },
+};
+
+export default function UnsubscribePage({ data, url }: PageProps<UnsubscribeData>) {
+  const { status, message, error } = data;
+
+  return (
+    <div class="min-h-screen bg-gradient-to-br from-purple-50 to-blue-50 flex items-center justify-center p-4">
+      <div class="max-w-md w-full bg-white rounded-lg shadow-lg p-8">
+        <div class="text-center">
+          {status === 'confirm' && (
+            <div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">Unsubscribe</h1>
+              <p class="text-gray-600 mb-6">{message}</p>
+              <form method="POST" action={`${url.pathname}${url.search}`}>
+                <button
+                  type="submit"
+                  class="block w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-2 px-4 rounded-md hover:from-purple-700 hover:to-blue-700 transition-colors font-medium"
+                >
+                  Unsubscribe
+                </button>
+              </form>
+            </div>
+          )}
+          {status === 'success' && (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-green-100 mb-4">
+                <svg class="h-8 w-8 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M5 13l4 4L19 7" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">Unsubscribed</h1>
+              <p class="text-gray-600 mb-6">{message}</p>
+              <a
+                href="/profile#notifications"
+                class="block w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors font-medium"
+              >
+                Manage Notification Settings
+              </a>
+            </div>
+          )}
+          {status === 'error' && (
+            <div>
+              <div class="mx-auto flex items-center justify-center h-16 w-16 rounded-full bg-red-100 mb-4">
+                <svg class="h-8 w-8 text-red-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </div>
+              <h1 class="text-2xl font-bold text-gray-900 mb-2">{message}</h1>
+              <p class="text-gray-600 mb-6">{error}</p>
+              <a
+                href="/profile#notifications"
+                class="block w-full border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 transition-colors font-medium"
+              >
+                Manage Notification Settings
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
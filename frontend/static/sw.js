@@ -0,0 +1,77 @@
+/**
+ * Service Worker - Web Push Notifications
+ *
+ * Shows notifications pushed while no tab is connected (see
+ * shared/services/WebPushService.ts for the payload). Clicking one focuses
+ * an open tab on the target page, or opens one.
+ *
+ * Served from the site root so its scope covers every page.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch {
+    return;
+  }
+
+  const actions = (payload.actions || []).map((action, index) => ({
+    action: String(index),
+    title: action.label,
+  }));
+  const title = payload.groupCount > 1 ? `${payload.title} (${payload.groupCount})` : payload.title;
+
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body,
+      tag: payload.tag,
+      renotify: payload.priority === 'high' || payload.priority === 'urgent',
+      requireInteraction: payload.priority === 'urgent',
+      timestamp: Date.parse(payload.createdAt),
+      icon: '/logo.svg',
+      actions,
+      data: {
+        link: payload.link,
+        actions: payload.actions || [],
+      },
+    }),
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  const data = event.notification.data || {};
+  const action = event.action ? data.actions[Number(event.action)] : null;
+  const target = new URL((action && action.url) || data.link || '/notifications', self.location.origin);
+
+  event.waitUntil(openOrFocus(target));
+});
+
+async function openOrFocus(target) {
+  // External links always open a new window
+  if (target.origin !== self.location.origin) {
+    return self.clients.openWindow(target.href);
+  }
+
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  for (const client of windows) {
+    if (new URL(client.url).origin === target.origin && 'focus' in client) {
+      await client.focus();
+      return client.navigate ? client.navigate(target.href) : client;
+    }
+  }
+
+  return self.clients.openWindow(target.href);
+}
@@ -1,220 +1,141 @@
 /**
  * Manual Test: Rate Limit Optimization
- * 
- * Run this to verify atomic operations and caching work correctly
- * 
+ *
+ * Run this to verify atomic operations and sliding window behaviour
+ *
  * Usage:
  *   deno run --allow-all --unstable-kv scripts/test-rate-limit-optimization.ts
  */
 
 import { getKv } from '../shared/lib/kv.ts';
-import { createRateLimiter } from '../shared/lib/rate-limit.ts';
+import {
+  findRateLimitRules,
+  getRateLimitHeaders,
+  RateLimiter,
+  type RateLimitRule,
+} from '../shared/lib/rate-limit.ts';
 
 console.log('🧪 Testing Rate Limit Optimization\n');
 
-// Mock context helper
-function createMockContext(ip: string) {
-  const headers = new Map<string, string>();
-  
-  return {
-    req: {
-      header: (name: string) => {
-        if (name === 'x-forwarded-for') return ip;
-        return undefined;
-      },
-    },
-    json: (body: unknown, status?: number) => {
-      return { body, status: status || 200 };
-    },
-    header: (name: string, value: string) => {
-      headers.set(name, value);
-    },
-    get responseHeaders() {
-      return headers;
-    },
-  } as unknown as Response;
+const kv = await getKv();
+const limiter = new RateLimiter({ kv });
+
+async function clearRule(name: string) {
+  for await (const entry of kv.list({ prefix: ['ratelimit', name] })) {
+    await kv.delete(entry.key);
+  }
 }
 
 // Test 1: Atomic Operations
 console.log('Test 1: Atomic Operations (Concurrent Requests)');
 console.log('─'.repeat(50));
 
-const testIp1 = '192.168.1.100';
-const limiter1 = createRateLimiter({
+const atomicRule: RateLimitRule = {
+  name: 'test-atomic',
+  path: '/api/test',
+  methods: ['POST'],
+  keyBy: ['ip'],
+  max: 10,
   windowMs: 60000,
-  maxRequests: 10,
-  keyPrefix: 'test-atomic',
-  enableCache: false, // Disable cache to test atomic operations
-});
+};
+const identity1 = { ip: '192.168.1.100' };
 
 // Send 10 concurrent requests
 const start1 = performance.now();
-const promises1 = Array.from({ length: 10 }, async () => {
-  const c = createMockContext(testIp1);
-  let success = false;
-  const result = await limiter1(c, async () => { success = true; });
-  return { success, result };
-});
-
-const results1 = await Promise.all(promises1);
+const results1 = await Promise.all(
+  Array.from({ length: 10 }, () => limiter.check(atomicRule, identity1)),
+);
 const duration1 = performance.now() - start1;
 
-const successCount1 = results1.filter(r => r.success).length;
+const successCount1 = results1.filter((r) => r?.allowed).length;
 console.log(`✅ Concurrent requests: 10`);
 console.log(`✅ Successful: ${successCount1}/10`);
 console.log(`✅ Duration: ${duration1.toFixed(2)}ms`);
 
-// Verify final count in KV
-const kv = await getKv();
-const key1 = ['ratelimit', 'test-atomic', testIp1];
-const entry1 = await kv.get<{ count: number }>(key1);
-console.log(`✅ Final count in KV: ${entry1.value?.count || 0}`);
-console.log(`${entry1.value?.count === 10 ? '✅ PASS' : '❌ FAIL'}: Count is exactly 10 (no race conditions)\n`);
+// Verify final count in KV (current window bucket)
+let finalCount = 0;
+for await (const entry of kv.list<number>({ prefix: ['ratelimit', 'test-atomic'] })) {
+  finalCount += entry.value;
+}
+console.log(`✅ Final count in KV: ${finalCount}`);
+console.log(`${finalCount === 10 ? '✅ PASS' : '❌ FAIL'}: Count is exactly 10 (no race conditions)\n`);
 
 // Test 11th request (should be rate limited)
-const c11 = createMockContext(testIp1);
-const result11 = await limiter1(c11, async () => {});
-console.log(`${result11?.status === 429 ? '✅ PASS' : '❌ FAIL'}: 11th request rate limited\n`);
+const result11 = await limiter.check(atomicRule, identity1);
+console.log(`${result11?.allowed === false ? '✅ PASS' : '❌ FAIL'}: 11th request rate limited`);
+console.log(`✅ Retry-After: ${result11?.retryAfter}s\n`);
 
-// Clean up
-await kv.delete(key1);
+await clearRule('test-atomic');
 
-// Test 2: Cache Performance
-console.log('\nTest 2: Cache Performance');
+// Test 2: Sliding Window
+console.log('\nTest 2: Sliding Window');
 console.log('─'.repeat(50));
 
-const testIp2 = '192.168.1.101';
-const limiter2 = createRateLimiter({
-  windowMs: 60000,
-  maxRequests: 100,
-  keyPrefix: 'test-cache',
-  enableCache: true,
-});
-
-// Track KV operations
-let kvGetCount = 0;
-const originalGet = kv.get.bind(kv);
-kv.get = ((...args: unknown[]) => {
-  kvGetCount++;
-  return originalGet(...args);
-}) as typeof kv.get;
-
-// Warm up (first request will miss cache)
-const warmup = createMockContext(testIp2);
-await limiter2(warmup, async () => {});
-
-// Reset counter
-kvGetCount = 0;
-
-// Send 10 rapid requests (should use cache)
-const start2 = performance.now();
-for (let i = 0; i < 10; i++) {
-  const c = createMockContext(testIp2);
-  await limiter2(c, async () => {});
-}
-const duration2 = performance.now() - start2;
+const windowRule: RateLimitRule = { ...atomicRule, name: 'test-window', max: 5 };
+const identity2 = { ip: '192.168.1.101' };
+const windowStart = Math.floor(Date.now() / windowRule.windowMs) * windowRule.windowMs;
 
-console.log(`✅ Rapid requests: 10`);
-console.log(`✅ KV reads: ${kvGetCount}`);
-console.log(`✅ Duration: ${duration2.toFixed(2)}ms`);
-console.log(`✅ Avg per request: ${(duration2 / 10).toFixed(2)}ms`);
+for (let i = 0; i < 5; i++) {
+  await limiter.check(windowRule, identity2, windowStart);
+}
 
-const cacheHitRate = ((10 - kvGetCount) / 10 * 100).toFixed(1);
-console.log(`✅ Cache hit rate: ${cacheHitRate}%`);
-console.log(`${kvGetCount < 10 ? '✅ PASS' : '❌ FAIL'}: Cache reduced KV reads\n`);
+// Just after the boundary the previous window still counts almost fully
+const early = await limiter.check(windowRule, identity2, windowStart + windowRule.windowMs + 1000);
+console.log(`${early?.allowed === false ? '✅ PASS' : '❌ FAIL'}: Blocked just after window boundary`);
 
-// Restore original method
-kv.get = originalGet;
+// Most of the way through, the previous window has decayed
+const late = await limiter.check(windowRule, identity2, windowStart + windowRule.windowMs * 1.9);
+console.log(`${late?.allowed === true ? '✅ PASS' : '❌ FAIL'}: Allowed once previous window decayed\n`);
 
-// Clean up
-const key2 = ['ratelimit', 'test-cache', testIp2];
-await kv.delete(key2);
+await clearRule('test-window');
 
-// Test 3: Performance Comparison
-console.log('\nTest 3: Performance Comparison');
+// Test 3: Performance
+console.log('\nTest 3: Performance');
 console.log('─'.repeat(50));
 
-const testIp3 = '192.168.1.102';
-
-// Without cache
-const limiterNoCache = createRateLimiter({
-  windowMs: 60000,
-  maxRequests: 1000,
-  keyPrefix: 'bench-no-cache',
-  enableCache: false,
-});
-
-const start3a = performance.now();
-for (let i = 0; i < 50; i++) {
-  const c = createMockContext(testIp3);
-  await limiterNoCache(c, async () => {});
-}
-const duration3a = performance.now() - start3a;
+const benchRule: RateLimitRule = { ...atomicRule, name: 'bench', max: 1000 };
+const identity3 = { ip: '192.168.1.102' };
 
-// With cache
-const limiterWithCache = createRateLimiter({
-  windowMs: 60000,
-  maxRequests: 1000,
-  keyPrefix: 'bench-with-cache',
-  enableCache: true,
-});
-
-// Warm up cache
-const warmup3 = createMockContext(testIp3);
-await limiterWithCache(warmup3, async () => {});
-
-const start3b = performance.now();
+const start3 = performance.now();
 for (let i = 0; i < 50; i++) {
-  const c = createMockContext(testIp3);
-  await limiterWithCache(c, async () => {});
+  await limiter.check(benchRule, identity3);
 }
-const duration3b = performance.now() - start3b;
+const duration3 = performance.now() - start3;
 
-console.log(`✅ Without cache (50 requests): ${duration3a.toFixed(2)}ms`);
-console.log(`✅ With cache (50 requests): ${duration3b.toFixed(2)}ms`);
-const improvement = ((duration3a - duration3b) / duration3a * 100).toFixed(1);
-console.log(`✅ Improvement: ${improvement}% faster with cache`);
-console.log(`${duration3b < duration3a ? '✅ PASS' : '❌ FAIL'}: Cache improves performance\n`);
+console.log(`✅ Sequential requests (50): ${duration3.toFixed(2)}ms`);
+console.log(`✅ Avg per request: ${(duration3 / 50).toFixed(2)}ms\n`);
 
-// Clean up
-await kv.delete(['ratelimit', 'bench-no-cache', testIp3]);
-await kv.delete(['ratelimit', 'bench-with-cache', testIp3]);
+await clearRule('bench');
 
-// Test 4: Rate Limit Headers
-console.log('\nTest 4: Rate Limit Headers');
+// Test 4: Rules and Headers
+console.log('\nTest 4: Rules and Headers');
 console.log('─'.repeat(50));
 
-const testIp4 = '192.168.1.103';
-const limiter4 = createRateLimiter({
-  windowMs: 60000,
-  maxRequests: 5,
-  keyPrefix: 'test-headers',
-});
+const loginRules = findRateLimitRules('POST', '/api/auth/login');
+console.log(`✅ Rules for POST /api/auth/login: ${loginRules.map((r) => r.name).join(', ')}`);
 
-// First request
-const c4a = createMockContext(testIp4);
-await limiter4(c4a, async () => {});
+const headerRule: RateLimitRule = { ...atomicRule, name: 'test-headers', max: 5 };
+const first = await limiter.check(headerRule, { ip: '192.168.1.103' });
+const headers = first ? getRateLimitHeaders(first) : {};
 
-console.log(`✅ X-RateLimit-Limit: ${c4a.responseHeaders.get('X-RateLimit-Limit')}`);
-console.log(`✅ X-RateLimit-Remaining: ${c4a.responseHeaders.get('X-RateLimit-Remaining')}`);
-console.log(`✅ X-RateLimit-Reset: ${c4a.responseHeaders.get('X-RateLimit-Reset')}`);
+console.log(`✅ RateLimit-Limit: ${headers['RateLimit-Limit']}`);
+console.log(`✅ RateLimit-Remaining: ${headers['RateLimit-Remaining']}`);
+console.log(`✅ RateLimit-Reset: ${headers['RateLimit-Reset']}`);
 
-const hasHeaders = c4a.responseHeaders.get('X-RateLimit-Limit') === '5' &&
-                   c4a.responseHeaders.get('X-RateLimit-Remaining') === '4';
+const hasHeaders = headers['RateLimit-Limit'] === '5' &&
+                   headers['RateLimit-Remaining'] === '4';
 console.log(`${hasHeaders ? '✅ PASS' : '❌ FAIL'}: Rate limit headers are correct\n`);
 
-// Clean up
-await kv.delete(['ratelimit', 'test-headers', testIp4]);
+await clearRule('test-headers');
 
 // Summary
 console.log('\n' + '═'.repeat(50));
 console.log('📊 SUMMARY');
 console.log('═'.repeat(50));
 console.log('✅ Atomic operations prevent race conditions');
-console.log('✅ Cache reduces KV operations by ~80%');
-console.log(`✅ Cache improves performance by ${improvement}%`);
+console.log('✅ Sliding window decays previous usage');
 console.log('✅ Rate limit headers are accurate');
-console.log('\n🎉 All optimizations working correctly!\n');
+console.log('\n🎉 All checks complete!\n');
 
 // Close KV connection
 Deno.exit(0);
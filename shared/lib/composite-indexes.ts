@@ -59,7 +59,7 @@ export interface UserQueryOptions {
   createdAfter?: Date;
   createdBefore?: Date;
   limit?: number;
-  cursor?: string;
+  cursor?: string; // From the previous queryUserPage call
 }
 
 export interface Notification {
@@ -68,6 +68,8 @@ export interface Notification {
   type: string;
   read: boolean;
   createdAt: string;
+  groupKey?: string;
+  expiresAt?: string;
   [key: string]: unknown;
 }
 
@@ -83,7 +85,7 @@ export interface NotificationQueryOptions {
 export interface Job {
   id: string;
   name: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'retrying';
+  status: 'waiting' | 'pending' | 'running' | 'completed' | 'failed' | 'retrying' | 'cancelled';
   priority: number;
   createdAt: string;
   [key: string]: unknown;
@@ -123,28 +125,7 @@ export class CompositeIndexManager {
    * - Chronological ordering built into index
    */
   static async createUserIndexes(kv: Deno.Kv, user: User): Promise<void> {
-    const atomic = kv.atomic();
-    const timestamp = new Date(user.createdAt).getTime();
-    
-    // Index by role (sorted by creation date)
-    atomic.set(['users_by_role', user.role, timestamp, user.id], null);
-    
-    // Index by role + emailVerified (composite index)
-    atomic.set(
-      ['users_by_role_verified', user.role, user.emailVerified ? 'verified' : 'unverified', timestamp, user.id],
-      null
-    );
-    
-    // Index by emailVerified (sorted by creation date)
-    atomic.set(
-      ['users_by_verified', user.emailVerified ? 'verified' : 'unverified', timestamp, user.id],
-      null
-    );
-    
-    // Index by creation date (for chronological queries)
-    atomic.set(['users_by_created', timestamp, user.id], null);
-    
-    const result = await atomic.commit();
+    const result = await this.applyUserIndexes(kv.atomic(), null, user).commit();
     if (!result.ok) {
       logger.error('Failed to create user indexes', null, { userId: user.id });
       throw new Error('Failed to create user indexes');
@@ -155,45 +136,7 @@ export class CompositeIndexManager {
    * Update user indexes when user data changes
    */
   static async updateUserIndexes(kv: Deno.Kv, oldUser: User, newUser: User): Promise<void> {
-    const atomic = kv.atomic();
-    const oldTimestamp = new Date(oldUser.createdAt).getTime();
-    const newTimestamp = new Date(newUser.createdAt).getTime();
-    
-    // Delete old indexes
-    atomic.delete(['users_by_role', oldUser.role, oldTimestamp, oldUser.id]);
-    atomic.delete([
-      'users_by_role_verified',
-      oldUser.role,
-      oldUser.emailVerified ? 'verified' : 'unverified',
-      oldTimestamp,
-      oldUser.id
-    ]);
-    atomic.delete([
-      'users_by_verified',
-      oldUser.emailVerified ? 'verified' : 'unverified',
-      oldTimestamp,
-      oldUser.id
-    ]);
-    atomic.delete(['users_by_created', oldTimestamp, oldUser.id]);
-    
-    // Create new indexes
-    atomic.set(['users_by_role', newUser.role, newTimestamp, newUser.id], null);
-    atomic.set([
-      'users_by_role_verified',
-      newUser.role,
-      newUser.emailVerified ? 'verified' : 'unverified',
-      newTimestamp,
-      newUser.id
-    ], null);
-    atomic.set([
-      'users_by_verified',
-      newUser.emailVerified ? 'verified' : 'unverified',
-      newTimestamp,
-      newUser.id
-    ], null);
-    atomic.set(['users_by_created', newTimestamp, newUser.id], null);
-    
-    const result = await atomic.commit();
+    const result = await this.applyUserIndexes(kv.atomic(), oldUser, newUser).commit();
     if (!result.ok) {
       logger.error('Failed to update user indexes', null, { userId: newUser.id });
       throw new Error('Failed to update user indexes');
@@ -204,32 +147,59 @@ export class CompositeIndexManager {
    * Delete all user indexes
    */
   static async deleteUserIndexes(kv: Deno.Kv, user: User): Promise<void> {
-    const atomic = kv.atomic();
-    const timestamp = new Date(user.createdAt).getTime();
-    
-    atomic.delete(['users_by_role', user.role, timestamp, user.id]);
-    atomic.delete([
-      'users_by_role_verified',
-      user.role,
-      user.emailVerified ? 'verified' : 'unverified',
-      timestamp,
-      user.id
-    ]);
-    atomic.delete([
-      'users_by_verified',
-      user.emailVerified ? 'verified' : 'unverified',
-      timestamp,
-      user.id
-    ]);
-    atomic.delete(['users_by_created', timestamp, user.id]);
-    
-    const result = await atomic.commit();
+    const result = await this.applyUserIndexes(kv.atomic(), user, null).commit();
     if (!result.ok) {
       logger.error('Failed to delete user indexes', null, { userId: user.id });
       throw new Error('Failed to delete user indexes');
     }
   }
   
+  /**
+   * Add the index changes between two versions of a user to an atomic operation
+   * 
+   * Pass null as the old version when creating and as the new version when
+   * deleting. UserRepository uses this to write indexes in the same commit as
+   * the user record.
+   */
+  static applyUserIndexes(
+    atomic: Deno.AtomicOperation,
+    oldUser: User | null,
+    newUser: User | null
+  ): Deno.AtomicOperation {
+    const newKeys = newUser ? this.userIndexKeys(newUser) : [];
+    const kept = new Set(newKeys.map((key) => JSON.stringify(key)));
+    
+    // Only delete keys that change; deleting and setting the same key in one commit is ambiguous
+    if (oldUser) {
+      for (const key of this.userIndexKeys(oldUser)) {
+        if (!kept.has(JSON.stringify(key))) {
+          atomic.delete(key);
+        }
+      }
+    }
+    
+    for (const key of newKeys) {
+      atomic.set(key, null);
+    }
+    
+    return atomic;
+  }
+  
+  /**
+   * All index keys for one version of a user
+   */
+  private static userIndexKeys(user: User): Deno.KvKey[] {
+    const timestamp = new Date(user.createdAt).getTime();
+    const verified = user.emailVerified ? 'verified' : 'unverified';
+    
+    return [
+      ['users_by_role', user.role, timestamp, user.id],
+      ['users_by_role_verified', user.role, verified, timestamp, user.id],
+      ['users_by_verified', verified, timestamp, user.id],
+      ['users_by_created', timestamp, user.id],
+    ];
+  }
+  
   /**
    * Query users using composite indexes
    * 
@@ -251,6 +221,29 @@ export class CompositeIndexManager {
    * ```
    */
   static async queryUsers(options: UserQueryOptions, kvInstance?: Deno.Kv): Promise<User[]> {
+    const { users } = await this.queryUserPage(options, kvInstance);
+    return users;
+  }
+  
+  /**
+   * Query one page of users (newest first) plus the cursor for the next page
+   * 
+   * T is the stored user record type (defaults to the fields indexed here).
+   * 
+   * @example
+   * ```typescript
+   * let cursor: string | undefined;
+   * do {
+   *   const page = await queryUserPage({ emailVerified: true, limit: 100, cursor });
+   *   // ... process page.users
+   *   cursor = page.cursor ?? undefined;
+   * } while (cursor);
+   * ```
+   */
+  static async queryUserPage<T extends User = User>(
+    options: UserQueryOptions,
+    kvInstance?: Deno.Kv
+  ): Promise<{ users: T[]; cursor: string | null }> {
     const kv = kvInstance || await getKv();
     const {
       role,
@@ -263,7 +256,6 @@ export class CompositeIndexManager {
     
     // Choose the most specific index
     let prefix: Deno.KvKey;
-    let startKey: Deno.KvKey | undefined;
     
     if (role !== undefined && emailVerified !== undefined) {
       // Most specific: role + emailVerified
@@ -279,55 +271,44 @@ export class CompositeIndexManager {
       prefix = ['users_by_created'];
     }
     
-    // Handle date range filtering
-    if (createdAfter) {
-      const timestamp = createdAfter.getTime();
-      startKey = [...prefix, timestamp];
-    }
-    
-    // Handle cursor pagination
-    if (cursor) {
-      try {
-        const parsed = JSON.parse(atob(cursor));
-        startKey = parsed;
-      } catch {
-        logger.warn('Invalid cursor, ignoring', { cursor });
-      }
-    }
-    
-    // Query the index
-    const userIds: string[] = [];
+    // Query the index (newest first, so createdAfter is the lower bound)
     const entries = kv.list({
       prefix,
-      ...(startKey && { start: startKey })
+      ...(createdAfter && { start: [...prefix, createdAfter.getTime()] })
     }, {
-      limit: limit + 1, // Fetch one extra to check if there are more
-      reverse: true // Newest first
+      reverse: true,
+      ...(cursor && { cursor })
     });
     
+    const userIds: string[] = [];
+    let pageEnd: string | null = null;
+    let nextCursor: string | null = null;
+    
     for await (const entry of entries) {
-      // Extract userId from key (last element)
-      const userId = entry.key[entry.key.length - 1] as string;
-      userIds.push(userId);
-      
       if (userIds.length >= limit) {
+        // One more entry exists, so continue after the last one returned
+        nextCursor = pageEnd;
         break;
       }
+      
+      // Extract userId from key (last element)
+      userIds.push(entry.key[entry.key.length - 1] as string);
+      pageEnd = entries.cursor;
     }
     
     // Fetch full user data in parallel
     const users = await Promise.all(
       userIds.map(async (userId) => {
-        const userEntry = await kv.get<User>(['users', userId]);
+        const userEntry = await kv.get<T>(['users', userId]);
         return userEntry.value;
       })
     );
     
     // Filter out nulls and apply additional filters
-    let filteredUsers = users.filter((u): u is User => u !== null);
+    let filteredUsers = users.filter((u): u is NonNullable<typeof u> => u !== null);
     
     if (createdBefore) {
-      filteredUsers = filteredUsers.filter((u: User) => 
+      filteredUsers = filteredUsers.filter((u) => 
         new Date(u.createdAt) < createdBefore
       );
     }
@@ -337,7 +318,7 @@ export class CompositeIndexManager {
       resultCount: filteredUsers.length
     });
     
-    return filteredUsers;
+    return { users: filteredUsers, cursor: nextCursor };
   }
   
   // ==========================================================================
@@ -348,31 +329,18 @@ export class CompositeIndexManager {
    * Create composite indexes for a notification
    * 
    * Index Structure:
+   * - ['notifications_by_user', userId, timestamp, notificationId] -> null
    * - ['notifications_by_user_read', userId, read, timestamp, notificationId] -> null
    * - ['notifications_by_user_type', userId, type, timestamp, notificationId] -> null
    * 
    * Benefits:
+   * - Fast paging through a user's notifications by date: O(log n)
    * - Fast queries for unread notifications: O(log n)
    * - Fast queries by notification type: O(log n)
    * - No full table scan needed
    */
   static async createNotificationIndexes(kv: Deno.Kv, notification: Notification): Promise<void> {
-    const atomic = kv.atomic();
-    const timestamp = new Date(notification.createdAt).getTime();
-    
-    // Index by userId + read status
-    atomic.set(
-      ['notifications_by_user_read', notification.userId, notification.read ? 'read' : 'unread', timestamp, notification.id],
-      null
-    );
-    
-    // Index by userId + type
-    atomic.set(
-      ['notifications_by_user_type', notification.userId, notification.type, timestamp, notification.id],
-      null
-    );
-    
-    const result = await atomic.commit();
+    const result = await this.applyNotificationIndexes(kv.atomic(), null, notification).commit();
     if (!result.ok) {
       logger.error('Failed to create notification indexes', null, { notificationId: notification.id });
       throw new Error('Failed to create notification indexes');
@@ -387,42 +355,7 @@ export class CompositeIndexManager {
     oldNotification: Notification,
     newNotification: Notification
   ): Promise<void> {
-    const atomic = kv.atomic();
-    const timestamp = new Date(oldNotification.createdAt).getTime();
-    
-    // Delete old indexes
-    atomic.delete([
-      'notifications_by_user_read',
-      oldNotification.userId,
-      oldNotification.read ? 'read' : 'unread',
-      timestamp,
-      oldNotification.id
-    ]);
-    atomic.delete([
-      'notifications_by_user_type',
-      oldNotification.userId,
-      oldNotification.type,
-      timestamp,
-      oldNotification.id
-    ]);
-    
-    // Create new indexes
-    atomic.set([
-      'notifications_by_user_read',
-      newNotification.userId,
-      newNotification.read ? 'read' : 'unread',
-      timestamp,
-      newNotification.id
-    ], null);
-    atomic.set([
-      'notifications_by_user_type',
-      newNotification.userId,
-      newNotification.type,
-      timestamp,
-      newNotification.id
-    ], null);
-    
-    const result = await atomic.commit();
+    const result = await this.applyNotificationIndexes(kv.atomic(), oldNotification, newNotification).commit();
     if (!result.ok) {
       logger.error('Failed to update notification indexes', null, { notificationId: newNotification.id });
       throw new Error('Failed to update notification indexes');
@@ -433,31 +366,68 @@ export class CompositeIndexManager {
    * Delete notification indexes
    */
   static async deleteNotificationIndexes(kv: Deno.Kv, notification: Notification): Promise<void> {
-    const atomic = kv.atomic();
-    const timestamp = new Date(notification.createdAt).getTime();
-    
-    atomic.delete([
-      'notifications_by_user_read',
-      notification.userId,
-      notification.read ? 'read' : 'unread',
-      timestamp,
-      notification.id
-    ]);
-    atomic.delete([
-      'notifications_by_user_type',
-      notification.userId,
-      notification.type,
-      timestamp,
-      notification.id
-    ]);
-    
-    const result = await atomic.commit();
+    const result = await this.applyNotificationIndexes(kv.atomic(), notification, null).commit();
     if (!result.ok) {
       logger.error('Failed to delete notification indexes', null, { notificationId: notification.id });
       throw new Error('Failed to delete notification indexes');
     }
   }
   
+  /**
+   * Add the index changes between two versions of a notification to an atomic operation
+   * 
+   * Pass null as the old version when creating and as the new version when
+   * deleting. Repositories use this to write indexes in the same commit as the
+   * notification record.
+   */
+  static applyNotificationIndexes(
+    atomic: Deno.AtomicOperation,
+    oldNotification: Notification | null,
+    newNotification: Notification | null
+  ): Deno.AtomicOperation {
+    const newKeys = newNotification ? this.notificationIndexKeys(newNotification) : [];
+    const kept = new Set(newKeys.map((key) => JSON.stringify(key)));
+    
+    // Only delete keys that change; deleting and setting the same key in one commit is ambiguous
+    if (oldNotification) {
+      for (const key of this.notificationIndexKeys(oldNotification)) {
+        if (!kept.has(JSON.stringify(key))) {
+          atomic.delete(key);
+        }
+      }
+    }
+    
+    for (const key of newKeys) {
+      atomic.set(key, null);
+    }
+    
+    return atomic;
+  }
+  
+  /**
+   * All index keys for one version of a notification
+   */
+  private static notificationIndexKeys(notification: Notification): Deno.KvKey[] {
+    const timestamp = new Date(notification.createdAt).getTime();
+    
+    const keys: Deno.KvKey[] = [
+      ['notifications_by_user', notification.userId, timestamp, notification.id],
+      ['notifications_by_user_read', notification.userId, notification.read ? 'read' : 'unread', timestamp, notification.id],
+      ['notifications_by_user_type', notification.userId, notification.type, timestamp, notification.id],
+    ];
+    
+    // Only unread notifications collect repeats of their group
+    if (notification.groupKey && !notification.read) {
+      keys.push(['notifications_by_user_group', notification.userId, notification.groupKey, notification.id]);
+    }
+    
+    if (notification.expiresAt) {
+      keys.push(['notifications_by_expiry', new Date(notification.expiresAt).getTime(), notification.userId, notification.id]);
+    }
+    
+    return keys;
+  }
+  
   /**
    * Query notifications using composite indexes
    * 
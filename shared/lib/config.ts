@@ -33,6 +33,27 @@ export const TokenConfig = {
    */
   REFRESH_TOKEN_EXPIRY_MS: 30 * 24 * 60 * 60 * 1000,
 
+  /**
+   * Refresh token reuse grace period: 10 seconds
+   * Refresh tokens are rotated on every use. A just-rotated token presented
+   * again within this window (e.g. two tabs refreshing at once) gets an access
+   * token without rotation; after it, reuse revokes the whole session.
+   */
+  REFRESH_TOKEN_REUSE_GRACE_MS: 10 * 1000,
+
+  /**
+   * JWT signing key rotation interval: 30 days
+   * The scheduled rotation job replaces the active signing key once it is this old.
+   * Retired keys keep verifying for REFRESH_TOKEN_EXPIRY_MS (the longest token lifetime).
+   */
+  SIGNING_KEY_ROTATION_MS: 30 * 24 * 60 * 60 * 1000,
+
+  /**
+   * Two-factor challenge expiry time: 5 minutes
+   * Time allowed between a successful password check and the TOTP/backup code step
+   */
+  TWO_FACTOR_CHALLENGE_EXPIRY_MS: 5 * 60 * 1000,
+
   /**
    * Token refresh check threshold: 5 minutes
    * When a token is older than this, trigger immediate refresh
@@ -66,6 +87,13 @@ export const TokenConfig = {
   getRefreshTokenExpiry(): string {
     return '30d';
   },
+
+  /**
+   * Get two-factor challenge expiry as string for JWT library (e.g., "5m")
+   */
+  getTwoFactorChallengeExpiry(): string {
+    return '5m';
+  },
 } as const;
 
 /**
@@ -77,3 +105,128 @@ export const {
   TOKEN_REFRESH_INTERVAL_MS,
   WS_CONNECTION_TIMEOUT_MS,
 } = TokenConfig;
+
+/**
+ * Login Security Configuration
+ * Account lockout and new-device alerts, used by AuthService.login
+ *
+ * Lockouts are progressive: every MAX_FAILED_ATTEMPTS failures lock the account,
+ * each lock twice as long as the one before (capped at MAX_LOCKOUT_MS). The
+ * count of previous lockouts is forgotten after FAILURE_RESET_MS without failures.
+ */
+export const LoginSecurityConfig = {
+  /** Failed password attempts before the account is locked */
+  MAX_FAILED_ATTEMPTS: 5,
+
+  /** First lockout: 5 minutes */
+  BASE_LOCKOUT_MS: 5 * 60 * 1000,
+
+  /** Longest lockout: 24 hours */
+  MAX_LOCKOUT_MS: 24 * 60 * 60 * 1000,
+
+  /** Failure and lockout history expires after 24 hours without failures */
+  FAILURE_RESET_MS: 24 * 60 * 60 * 1000,
+
+  /** Unlock links emailed on lockout are valid for 24 hours */
+  UNLOCK_TOKEN_EXPIRY_MS: 24 * 60 * 60 * 1000,
+
+  /** Devices not seen for 90 days count as new again */
+  KNOWN_DEVICE_TTL_MS: 90 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Audit Log Configuration
+ * Retention for the security audit log (AuditLogRepository)
+ */
+export const AuditLogConfig = {
+  /** Entries older than this are deleted by the daily cleanup job: 1 year */
+  RETENTION_MS: 365 * 24 * 60 * 60 * 1000,
+
+  /** Most rows a single CSV export will include */
+  MAX_EXPORT_ROWS: 10_000,
+} as const;
+
+/**
+ * WebAuthn Configuration
+ * Passkey ceremonies (WebAuthnService)
+ */
+export const WebAuthnConfig = {
+  /** Time allowed to complete a registration or sign-in ceremony: 5 minutes */
+  CHALLENGE_EXPIRY_MS: 5 * 60 * 1000,
+
+  /** Timeout hint passed to the browser: 60 seconds */
+  CEREMONY_TIMEOUT_MS: 60 * 1000,
+
+  /** Passkeys a single account may register */
+  MAX_CREDENTIALS_PER_USER: 10,
+} as const;
+
+/**
+ * OIDC Configuration
+ * Social sign-in and linked identities (OidcService, shared/lib/oidc.ts)
+ */
+export const OidcConfig = {
+  /** Time allowed to complete sign-in at the provider: 10 minutes */
+  STATE_EXPIRY_MS: 10 * 60 * 1000,
+
+  /** One-time code handed to the login page after the callback: 1 minute */
+  LOGIN_CODE_EXPIRY_MS: 60 * 1000,
+
+  /** Provider signing keys are refetched after 1 hour (or on an unknown key ID) */
+  JWKS_CACHE_TTL_MS: 60 * 60 * 1000,
+
+  /** Allowed clock difference when checking ID token exp/iat */
+  CLOCK_TOLERANCE_MS: 60 * 1000,
+
+  /** Timeout for token, JWKS and profile requests to a provider */
+  REQUEST_TIMEOUT_MS: 10 * 1000,
+} as const;
+
+/**
+ * Notification Delivery Configuration
+ * Email and digest delivery (NotificationDeliveryService)
+ */
+export const NotificationDeliveryConfig = {
+  /** Daily digests go out at 8 AM UTC */
+  DAILY_DIGEST_CRON: '0 8 * * *',
+
+  /** Weekly digests go out on Mondays at 8 AM UTC */
+  WEEKLY_DIGEST_CRON: '0 8 * * 1',
+
+  /** Most notifications listed in one digest email (the rest are summarised as a count) */
+  MAX_DIGEST_ITEMS: 50,
+
+  /** Undelivered digest items are dropped after 14 days */
+  DIGEST_ITEM_TTL_MS: 14 * 24 * 60 * 60 * 1000,
+
+  /** Users per broadcast batch job */
+  BROADCAST_BATCH_SIZE: 100,
+
+  /** How long a broadcast remembers who it reached, so retried batches don't resend: 7 days */
+  BROADCAST_RECIPIENT_TTL_MS: 7 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Web Push Configuration
+ * Browser push for users without an open WebSocket (WebPushService, shared/lib/web-push.ts)
+ */
+export const WebPushConfig = {
+  /** How long the push service keeps trying to reach an offline browser: 1 day */
+  DEFAULT_TTL_SECONDS: 24 * 60 * 60,
+
+  /** Lifetime of the VAPID JWT sent with each push (RFC 8292 allows up to 24 hours) */
+  VAPID_TOKEN_EXPIRY_SECONDS: 12 * 60 * 60,
+
+  /** Timeout for a request to a push service */
+  REQUEST_TIMEOUT_MS: 10 * 1000,
+
+  /** Browsers a single account may subscribe (the oldest is dropped beyond this) */
+  MAX_SUBSCRIPTIONS_PER_USER: 10,
+
+  /**
+   * Push services the browsers use (Chrome, Firefox, Safari, Edge); endpoints
+   * must be on one of these hosts or a subdomain, so subscriptions can't make
+   * the server post to internal addresses
+   */
+  ALLOWED_PUSH_HOSTS: ['fcm.googleapis.com', 'push.services.mozilla.com', 'push.apple.com', 'notify.windows.com'],
+} as const;
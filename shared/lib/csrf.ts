@@ -0,0 +1,165 @@
+/**
+ * CSRF Protection
+ *
+ * Signed double-submit tokens bound to the refresh-token session:
+ * - Token format: `<nonce>.<signature>`, signature = HMAC-SHA256("csrf.<sessionId>.<nonce>")
+ * - Session ID is the token family (`fid`) of the refresh_token cookie ('anonymous'
+ *   before login), which stays the same while the refresh token is rotated
+ * - Issued by GET /api/auth/csrf-token, which also sets the csrf_token cookie
+ * - State-changing requests must send the same token in the X-CSRF-Token header
+ *
+ * A token stops validating as soon as the refresh session changes (login,
+ * logout, session revoked), so clients refetch it on CSRF_TOKEN_INVALID.
+ *
+ * @example
+ * ```typescript
+ * const valid = await validateCsrfRequest({
+ *   headerToken: req.headers.get(CSRF_HEADER_NAME),
+ *   cookieToken: getCookie(req.headers, CSRF_COOKIE_NAME),
+ *   refreshToken: getCookie(req.headers, 'refresh_token'),
+ * });
+ * ```
+ */
+
+import { getHmacKey, verifyToken } from './jwt.ts';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const CSRF_COOKIE_NAME = 'csrf_token';
+export const CSRF_HEADER_NAME = 'X-CSRF-Token';
+
+/**
+ * Methods that change state and therefore require a CSRF token
+ */
+const PROTECTED_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Endpoints called by third parties (webhooks) that cannot obtain a token.
+ * These must authenticate the caller some other way (e.g. signature header).
+ * Exact match, or prefix match when ending with '/'.
+ */
+export const CSRF_EXEMPT_PATHS: string[] = [
+  '/api/webhooks/',
+];
+
+const ANONYMOUS_SESSION = 'anonymous';
+
+// ============================================================================
+// Request Matching
+// ============================================================================
+
+/**
+ * Whether a request must carry a valid CSRF token
+ */
+export function requiresCsrfToken(
+  method: string,
+  pathname: string,
+  exemptPaths: string[] = CSRF_EXEMPT_PATHS,
+): boolean {
+  if (!PROTECTED_METHODS.includes(method.toUpperCase())) {
+    return false;
+  }
+
+  return !exemptPaths.some((path) =>
+    path.endsWith('/') ? pathname.startsWith(path) : pathname === path
+  );
+}
+
+// ============================================================================
+// Token Generation & Verification
+// ============================================================================
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+async function sign(sessionId: string, nonce: string): Promise<string> {
+  const key = await getHmacKey();
+  const data = new TextEncoder().encode(`csrf.${sessionId}.${nonce}`);
+  const signature = await crypto.subtle.sign('HMAC', key, data);
+  return toBase64Url(new Uint8Array(signature));
+}
+
+/**
+ * Compare two strings without short-circuiting on the first difference
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Resolve the session a CSRF token is bound to from the refresh_token cookie
+ * Invalid or missing refresh tokens resolve to the anonymous session.
+ */
+export async function getCsrfSessionId(refreshToken: string | undefined): Promise<string> {
+  if (!refreshToken) {
+    return ANONYMOUS_SESSION;
+  }
+
+  try {
+    const payload = await verifyToken(refreshToken);
+    if (payload['type'] === 'refresh' && typeof payload['fid'] === 'string') {
+      return payload['fid'];
+    }
+    // Tokens issued before rotation carry no family - the jti is the session
+    if (payload['type'] === 'refresh' && typeof payload['jti'] === 'string') {
+      return payload['jti'];
+    }
+  } catch {
+    // Expired or tampered refresh token - treat as logged out
+  }
+
+  return ANONYMOUS_SESSION;
+}
+
+/**
+ * Create a CSRF token bound to a session
+ */
+export async function createCsrfToken(sessionId: string): Promise<string> {
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+  return `${nonce}.${await sign(sessionId, nonce)}`;
+}
+
+/**
+ * Verify a CSRF token was issued for this session
+ */
+export async function verifyCsrfToken(token: string, sessionId: string): Promise<boolean> {
+  const [nonce, signature, ...rest] = token.split('.');
+  if (!nonce || !signature || rest.length > 0) {
+    return false;
+  }
+
+  return timingSafeEqual(signature, await sign(sessionId, nonce));
+}
+
+/**
+ * Validate a state-changing request (double-submit + session binding)
+ * - Header token must match the csrf_token cookie
+ * - Token signature must match the current refresh session
+ */
+export async function validateCsrfRequest(input: {
+  headerToken: string | null | undefined;
+  cookieToken: string | undefined;
+  refreshToken: string | undefined;
+}): Promise<boolean> {
+  const { headerToken, cookieToken, refreshToken } = input;
+
+  if (!headerToken || !cookieToken || !timingSafeEqual(headerToken, cookieToken)) {
+    return false;
+  }
+
+  return await verifyCsrfToken(headerToken, await getCsrfSessionId(refreshToken));
+}
@@ -22,6 +22,28 @@ function getResendClient(): Resend {
   return resendClient;
 }
 
+/**
+ * Escape text from notifications (titles, messages) for use in HTML emails
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Headers that let mail clients offer one-click unsubscribe (RFC 8058)
+ */
+function getUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
+}
+
 /**
  * Email templates
  */
@@ -198,3 +220,444 @@ This link will expire in 1 hour. If you didn't request a password reset, ignore
     };
   }
 }
+
+/**
+ * Send email change confirmation to the new address
+ */
+export async function sendEmailChangeEmail(
+  newEmail: string,
+  name: string,
+  changeToken: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const confirmUrl = `${frontendUrl}/confirm-email?token=${changeToken}`;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Confirm Your New Email</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>Confirm Your New Email</h1>
+  <p>Hi ${name},</p>
+  <p>You asked to change the email address on your account to this one. Click the button below to confirm:</p>
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${confirmUrl}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      Confirm Email Address
+    </a>
+  </p>
+  <p>Or copy this link: ${confirmUrl}</p>
+  <p style="color: #999; font-size: 14px;">This link will expire in 24 hours. Your account keeps its current email until you confirm. If you didn't request this change, ignore this email.</p>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+Hi ${name},
+
+You asked to change the email address on your account to this one. Click the link below to confirm:
+${confirmUrl}
+
+This link will expire in 24 hours. Your account keeps its current email until you confirm. If you didn't request this change, ignore this email.
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: newEmail,
+      subject: 'Confirm your new email address',
+      html,
+      text,
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send email change confirmation', { error, email: newEmail });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
+
+/**
+ * Tell the current address that the account's email is being changed, with a link that cancels it
+ */
+export async function sendEmailChangeNoticeEmail(
+  currentEmail: string,
+  name: string,
+  newEmail: string,
+  cancelToken: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const cancelUrl = `${frontendUrl}/cancel-email-change?token=${cancelToken}`;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Your Email Is Being Changed</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>Your Email Is Being Changed</h1>
+  <p>Hi ${name},</p>
+  <p>Someone signed in to your account asked to change its email address to <strong>${newEmail}</strong>. The change happens once that address is confirmed.</p>
+  <p>If this wasn't you, cancel the change now and then change your password:</p>
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${cancelUrl}" style="background: #dc2626; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      Cancel Email Change
+    </a>
+  </p>
+  <p>Or copy this link: ${cancelUrl}</p>
+  <p style="color: #999; font-size: 14px;">This link works until the change is confirmed or expires in 24 hours. If you made this change, you can ignore this email.</p>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+Hi ${name},
+
+Someone signed in to your account asked to change its email address to ${newEmail}. The change happens once that address is confirmed.
+
+If this wasn't you, cancel the change now and then change your password:
+${cancelUrl}
+
+This link works until the change is confirmed or expires in 24 hours. If you made this change, you can ignore this email.
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: currentEmail,
+      subject: 'Your email address is being changed',
+      html,
+      text,
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send email change notice', { error, email: currentEmail });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
+
+/**
+ * Send account locked notice with a link that lifts the lockout
+ */
+export async function sendAccountLockedEmail(
+  email: string,
+  name: string,
+  unlockToken: string,
+  lockedUntil: Date
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const unlockUrl = `${frontendUrl}/unlock-account?token=${unlockToken}`;
+    const until = lockedUntil.toUTCString();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Your Account Was Locked</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>Your Account Was Locked</h1>
+  <p>Hi ${name},</p>
+  <p>We locked your account after several failed sign-in attempts. It will unlock automatically at ${until}.</p>
+  <p>If these attempts were you, click the button below to unlock your account now:</p>
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${unlockUrl}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      Unlock Account
+    </a>
+  </p>
+  <p>Or copy this link: ${unlockUrl}</p>
+  <p style="color: #999; font-size: 14px;">This link will expire in 24 hours. If these attempts weren't you, someone may be guessing your password - consider changing it once you're signed in.</p>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+Hi ${name},
+
+We locked your account after several failed sign-in attempts. It will unlock automatically at ${until}.
+
+If these attempts were you, open the link below to unlock your account now:
+${unlockUrl}
+
+This link will expire in 24 hours. If these attempts weren't you, someone may be guessing your password - consider changing it once you're signed in.
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: email,
+      subject: 'Your account was locked',
+      html,
+      text,
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send account locked email', { error, email });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
+
+/**
+ * Send a security alert for a sign-in from a new device or location
+ */
+export async function sendNewDeviceLoginEmail(
+  email: string,
+  name: string,
+  details: { deviceLabel: string; ipAddress: string | null; signedInAt: Date }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const profileUrl = `${frontendUrl}/profile`;
+    const location = details.ipAddress || 'an unknown address';
+    const when = details.signedInAt.toUTCString();
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>New Sign-in to Your Account</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>New Sign-in to Your Account</h1>
+  <p>Hi ${name},</p>
+  <p>Your account was just signed in to from a device or location we haven't seen before:</p>
+  <ul>
+    <li><strong>Device:</strong> ${details.deviceLabel}</li>
+    <li><strong>IP address:</strong> ${location}</li>
+    <li><strong>Time:</strong> ${when}</li>
+  </ul>
+  <p>If this was you, you can ignore this email. If not, sign out the device and change your password:</p>
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${profileUrl}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      Review Your Devices
+    </a>
+  </p>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+Hi ${name},
+
+Your account was just signed in to from a device or location we haven't seen before:
+
+Device: ${details.deviceLabel}
+IP address: ${location}
+Time: ${when}
+
+If this was you, you can ignore this email. If not, sign out the device and change your password:
+${profileUrl}
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: email,
+      subject: 'New sign-in to your account',
+      html,
+      text,
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send new device email', { error, email });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
+
+/**
+ * Notification content as it appears in emails
+ */
+export interface NotificationEmailItem {
+  title: string;
+  message: string;
+  link?: string;
+  createdAt: string;
+}
+
+function toAbsoluteUrl(link: string, frontendUrl: string): string {
+  return link.startsWith('/') ? `${frontendUrl}${link}` : link;
+}
+
+/**
+ * Send a single notification by email (immediate delivery)
+ */
+export async function sendNotificationEmail(
+  email: string,
+  name: string,
+  notification: NotificationEmailItem,
+  unsubscribeUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const preferencesUrl = `${frontendUrl}/profile#notifications`;
+    const link = notification.link ? toAbsoluteUrl(notification.link, frontendUrl) : null;
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(notification.title)}</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>${escapeHtml(notification.title)}</h1>
+  <p>Hi ${escapeHtml(name)},</p>
+  <p>${escapeHtml(notification.message)}</p>
+  ${link ? `<p style="text-align: center; margin: 30px 0;">
+    <a href="${escapeHtml(link)}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      View Details
+    </a>
+  </p>` : ''}
+  <p style="color: #999; font-size: 14px;">
+    <a href="${preferencesUrl}" style="color: #999;">Notification preferences</a> ·
+    <a href="${escapeHtml(unsubscribeUrl)}" style="color: #999;">Unsubscribe from these emails</a>
+  </p>
+</body>
+</html>
+    `.trim();
+
+    const text = `
+Hi ${name},
+
+${notification.message}
+${link ? `\nView details: ${link}\n` : ''}
+Notification preferences: ${preferencesUrl}
+Unsubscribe from these emails: ${unsubscribeUrl}
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: email,
+      subject: notification.title,
+      html,
+      text,
+      headers: getUnsubscribeHeaders(unsubscribeUrl),
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send notification email', { error, email });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
+
+/**
+ * Send a digest of notifications collected since the last one
+ * Items beyond the listed ones are summarised as a count (omitted).
+ */
+export async function sendNotificationDigestEmail(
+  email: string,
+  name: string,
+  digest: { frequency: 'daily' | 'weekly'; items: NotificationEmailItem[]; omitted: number },
+  unsubscribeUrl: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const resend = getResendClient();
+    const emailFrom = Deno.env.get('EMAIL_FROM') || 'noreply@yourdomain.com';
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const notificationsUrl = `${frontendUrl}/notifications`;
+    const preferencesUrl = `${frontendUrl}/profile#notifications`;
+    const period = digest.frequency === 'daily' ? 'today' : 'this week';
+    const total = digest.items.length + digest.omitted;
+    const subject = `Your ${digest.frequency} summary: ${total} notification${total === 1 ? '' : 's'}`;
+
+    const itemsHtml = digest.items.map((item) => {
+      const title = item.link
+        ? `<a href="${escapeHtml(toAbsoluteUrl(item.link, frontendUrl))}" style="color: #667eea;">${escapeHtml(item.title)}</a>`
+        : escapeHtml(item.title);
+      return `<li style="margin-bottom: 12px;"><strong>${title}</strong><br>${escapeHtml(item.message)}</li>`;
+    }).join('\n    ');
+
+    const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="font-family: sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1>Your ${digest.frequency} summary</h1>
+  <p>Hi ${escapeHtml(name)},</p>
+  <p>Here's what happened ${period}:</p>
+  <ul style="padding-left: 20px;">
+    ${itemsHtml}
+  </ul>
+  ${digest.omitted > 0 ? `<p>...and ${digest.omitted} more.</p>` : ''}
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${notificationsUrl}" style="background: #667eea; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+      View All Notifications
+    </a>
+  </p>
+  <p style="color: #999; font-size: 14px;">
+    <a href="${preferencesUrl}" style="color: #999;">Notification preferences</a> ·
+    <a href="${escapeHtml(unsubscribeUrl)}" style="color: #999;">Unsubscribe from summary emails</a>
+  </p>
+</body>
+</html>
+    `.trim();
+
+    const itemsText = digest.items.map((item) => `- ${item.title}: ${item.message}`).join('\n');
+    const text = `
+Hi ${name},
+
+Here's what happened ${period}:
+
+${itemsText}
+${digest.omitted > 0 ? `...and ${digest.omitted} more.\n` : ''}
+View all notifications: ${notificationsUrl}
+
+Notification preferences: ${preferencesUrl}
+Unsubscribe from summary emails: ${unsubscribeUrl}
+    `.trim();
+
+    await resend.emails.send({
+      from: emailFrom,
+      to: email,
+      subject,
+      html,
+      text,
+      headers: getUnsubscribeHeaders(unsubscribeUrl),
+    });
+
+    return { success: true };
+  } catch (error) {
+    logger.error('Failed to send notification digest email', { error, email });
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send email',
+    };
+  }
+}
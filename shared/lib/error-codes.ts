@@ -29,6 +29,10 @@ export enum ErrorCode {
   INVALID_TWO_FACTOR_CODE = 'INVALID_TWO_FACTOR_CODE',
   TWO_FACTOR_ALREADY_ENABLED = 'TWO_FACTOR_ALREADY_ENABLED',
   TWO_FACTOR_NOT_ENABLED = 'TWO_FACTOR_NOT_ENABLED',
+  CSRF_TOKEN_INVALID = 'CSRF_TOKEN_INVALID',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
+  PASSKEY_VERIFICATION_FAILED = 'PASSKEY_VERIFICATION_FAILED',
+  SOCIAL_LOGIN_FAILED = 'SOCIAL_LOGIN_FAILED',
 
   // User & Account Management (2xxx)
   USER_NOT_FOUND = 'USER_NOT_FOUND',
@@ -38,6 +42,9 @@ export enum ErrorCode {
   VERIFICATION_TOKEN_EXPIRED = 'VERIFICATION_TOKEN_EXPIRED',
   INVALID_RESET_TOKEN = 'INVALID_RESET_TOKEN',
   RESET_TOKEN_EXPIRED = 'RESET_TOKEN_EXPIRED',
+  INVALID_UNLOCK_TOKEN = 'INVALID_UNLOCK_TOKEN',
+  IDENTITY_ALREADY_LINKED = 'IDENTITY_ALREADY_LINKED',
+  ACCOUNT_LINK_REQUIRED = 'ACCOUNT_LINK_REQUIRED',
 
   // Validation & Input (3xxx)
   VALIDATION_ERROR = 'VALIDATION_ERROR',
@@ -51,6 +58,7 @@ export enum ErrorCode {
   ALREADY_EXISTS = 'ALREADY_EXISTS',
 
   // Rate Limiting (5xxx)
+  RATE_LIMITED = 'RATE_LIMITED',
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS',
 
@@ -79,6 +87,10 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.INVALID_TWO_FACTOR_CODE]: 'Invalid two-factor authentication code',
   [ErrorCode.TWO_FACTOR_ALREADY_ENABLED]: 'Two-factor authentication is already enabled',
   [ErrorCode.TWO_FACTOR_NOT_ENABLED]: 'Two-factor authentication is not enabled',
+  [ErrorCode.CSRF_TOKEN_INVALID]: 'Invalid or missing CSRF token',
+  [ErrorCode.ACCOUNT_LOCKED]: 'Account temporarily locked after too many failed sign-in attempts. Try again later or use the unlock link we emailed you',
+  [ErrorCode.PASSKEY_VERIFICATION_FAILED]: 'Passkey verification failed',
+  [ErrorCode.SOCIAL_LOGIN_FAILED]: 'Sign-in with the provider failed. Please try again',
 
   // User & Account Management
   [ErrorCode.USER_NOT_FOUND]: 'User not found',
@@ -88,6 +100,10 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.VERIFICATION_TOKEN_EXPIRED]: 'Verification token has expired',
   [ErrorCode.INVALID_RESET_TOKEN]: 'Invalid password reset token',
   [ErrorCode.RESET_TOKEN_EXPIRED]: 'Password reset token has expired',
+  [ErrorCode.INVALID_UNLOCK_TOKEN]: 'Invalid or expired unlock link',
+  [ErrorCode.IDENTITY_ALREADY_LINKED]: 'This account is already linked to another user',
+  [ErrorCode.ACCOUNT_LINK_REQUIRED]:
+    'An account with this email already exists. Sign in with your password, then link this provider from your profile',
 
   // Validation & Input
   [ErrorCode.VALIDATION_ERROR]: 'Validation failed',
@@ -101,6 +117,7 @@ export const ErrorMessages: Record<ErrorCode, string> = {
   [ErrorCode.ALREADY_EXISTS]: 'Resource already exists',
 
   // Rate Limiting
+  [ErrorCode.RATE_LIMITED]: 'Too many attempts. Please try again later',
   [ErrorCode.RATE_LIMIT_EXCEEDED]: 'Rate limit exceeded. Please try again later',
   [ErrorCode.TOO_MANY_REQUESTS]: 'Too many requests. Please slow down',
 
@@ -117,7 +134,7 @@ export const ErrorMessages: Record<ErrorCode, string> = {
  * Used for consistent HTTP responses
  */
 export const ErrorStatusCodes: Record<ErrorCode, number> = {
-  // Authentication & Authorization - 401, 403
+  // Authentication & Authorization - 401, 403, 423
   [ErrorCode.UNAUTHORIZED]: 401,
   [ErrorCode.FORBIDDEN]: 403,
   [ErrorCode.INVALID_CREDENTIALS]: 401,
@@ -129,6 +146,10 @@ export const ErrorStatusCodes: Record<ErrorCode, number> = {
   [ErrorCode.INVALID_TWO_FACTOR_CODE]: 401,
   [ErrorCode.TWO_FACTOR_ALREADY_ENABLED]: 400,
   [ErrorCode.TWO_FACTOR_NOT_ENABLED]: 400,
+  [ErrorCode.CSRF_TOKEN_INVALID]: 403,
+  [ErrorCode.ACCOUNT_LOCKED]: 423,
+  [ErrorCode.PASSKEY_VERIFICATION_FAILED]: 401,
+  [ErrorCode.SOCIAL_LOGIN_FAILED]: 401,
 
   // User & Account Management - 404, 409
   [ErrorCode.USER_NOT_FOUND]: 404,
@@ -138,6 +159,9 @@ export const ErrorStatusCodes: Record<ErrorCode, number> = {
   [ErrorCode.VERIFICATION_TOKEN_EXPIRED]: 400,
   [ErrorCode.INVALID_RESET_TOKEN]: 400,
   [ErrorCode.RESET_TOKEN_EXPIRED]: 400,
+  [ErrorCode.INVALID_UNLOCK_TOKEN]: 400,
+  [ErrorCode.IDENTITY_ALREADY_LINKED]: 409,
+  [ErrorCode.ACCOUNT_LINK_REQUIRED]: 409,
 
   // Validation & Input - 400
   [ErrorCode.VALIDATION_ERROR]: 400,
@@ -151,6 +175,7 @@ export const ErrorStatusCodes: Record<ErrorCode, number> = {
   [ErrorCode.ALREADY_EXISTS]: 409,
 
   // Rate Limiting - 429
+  [ErrorCode.RATE_LIMITED]: 429,
   [ErrorCode.RATE_LIMIT_EXCEEDED]: 429,
   [ErrorCode.TOO_MANY_REQUESTS]: 429,
 
@@ -192,5 +217,8 @@ export function isAuthError(code: ErrorCode): boolean {
     ErrorCode.REFRESH_TOKEN_INVALID,
     ErrorCode.TWO_FACTOR_REQUIRED,
     ErrorCode.INVALID_TWO_FACTOR_CODE,
+    ErrorCode.ACCOUNT_LOCKED,
+    ErrorCode.PASSKEY_VERIFICATION_FAILED,
+    ErrorCode.SOCIAL_LOGIN_FAILED,
   ].includes(code);
 }
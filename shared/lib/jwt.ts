@@ -1,5 +1,19 @@
-import { create, getNumericDate, verify } from 'https://deno.land/x/djwt@v3.0.2/mod.ts';
+/**
+ * JWT creation and verification
+ *
+ * Tokens are signed with the active asymmetric key from the signing key store
+ * (ES256 by default) and carry its `kid` in the header. Verification looks the
+ * kid up, so tokens signed by a retired-but-unexpired key stay valid across
+ * rotations, and other services can verify via /.well-known/jwks.json.
+ *
+ * HS256 tokens signed with JWT_SECRET before the switch (no kid) are still
+ * accepted so existing sessions survive the upgrade; set
+ * JWT_ACCEPT_LEGACY_HS256=false once they have expired.
+ */
+
+import { create, decode, getNumericDate, verify } from 'https://deno.land/x/djwt@v3.0.2/mod.ts';
 import { TokenConfig } from './config.ts';
+import { signingKeys } from './signing-keys.ts';
 
 export function parseDurationToSeconds(input: string): number {
   const match = input.match(/^(\d+)([smhdw])$/);
@@ -22,6 +36,10 @@ export function parseDurationToSeconds(input: string): number {
   }
 }
 
+/**
+ * HMAC key derived from JWT_SECRET
+ * Used for CSRF token signatures and verifying legacy HS256 tokens.
+ */
 export async function getHmacKey(): Promise<CryptoKey> {
   const jwtSecret = Deno.env.get('JWT_SECRET');
   if (!jwtSecret) {
@@ -38,15 +56,15 @@ export async function getHmacKey(): Promise<CryptoKey> {
 }
 
 export async function createToken(payload: Record<string, unknown>, customExpiry?: string) {
-  const key = await getHmacKey();
+  const { kid, alg, privateKey } = await signingKeys.getActiveKey();
   const jwtExpiresIn = Deno.env.get('JWT_EXPIRES_IN') || '7d';
   const expSeconds = customExpiry 
     ? parseDurationToSeconds(customExpiry)
     : parseDurationToSeconds(jwtExpiresIn);
   const jwt = await create(
-    { alg: 'HS256', typ: 'JWT' },
+    { alg, typ: 'JWT', kid },
     { ...payload, exp: getNumericDate(expSeconds) },
-    key,
+    privateKey,
   );
   return jwt;
 }
@@ -60,21 +78,77 @@ export async function createAccessToken(payload: Record<string, unknown>) {
 
 /**
  * Create refresh token (long-lived, configured expiry time)
+ * Pass `fid` in the payload to continue an existing token family (rotation);
+ * otherwise the token starts a new family named after its own jti.
  */
 export async function createRefreshToken(payload: Record<string, unknown>) {
   const tokenId = crypto.randomUUID();
+  const familyId = typeof payload['fid'] === 'string' ? payload['fid'] : tokenId;
   return {
-    token: await createToken({ ...payload, type: 'refresh', jti: tokenId }, TokenConfig.getRefreshTokenExpiry()),
+    token: await createToken(
+      { ...payload, type: 'refresh', jti: tokenId, fid: familyId },
+      TokenConfig.getRefreshTokenExpiry(),
+    ),
     tokenId,
+    familyId,
   };
 }
 
+/**
+ * Create two-factor challenge token (short-lived, issued after password check)
+ */
+export async function createTwoFactorChallengeToken(payload: Record<string, unknown>) {
+  const tokenId = crypto.randomUUID();
+  return {
+    token: await createToken({ ...payload, type: '2fa_challenge', jti: tokenId }, TokenConfig.getTwoFactorChallengeExpiry()),
+    tokenId,
+  };
+}
+
+/**
+ * Verify a token's signature and expiry with the key named by its `kid`
+ * Any key that hasn't expired is accepted, not just the active one.
+ */
 export async function verifyToken(token: string) {
   try {
-    const key = await getHmacKey();
+    const key = await getVerificationKey(token);
     const payload = await verify(token, key);
     return payload as Record<string, unknown>;
   } catch (error) {
     throw new Error('Invalid token');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Pick the key a token claims to be signed with
+ * @throws Error if the kid is unknown or expired, or legacy tokens are disabled
+ */
+async function getVerificationKey(token: string): Promise<CryptoKey> {
+  const [header] = decode(token) as [Record<string, unknown>, unknown, unknown];
+
+  if (typeof header['kid'] === 'string') {
+    const key = await signingKeys.getVerificationKey(header['kid']);
+    if (!key) {
+      throw new Error('Unknown or expired signing key');
+    }
+    return key;
+  }
+
+  if (header['alg'] === 'HS256' && Deno.env.get('JWT_ACCEPT_LEGACY_HS256') !== 'false') {
+    return await getHmacKey();
+  }
+
+  throw new Error('Token has no key ID');
+}
+
+/**
+ * Verify token and ensure it is an access token
+ * Refresh and 2FA challenge tokens must not be accepted as bearer credentials
+ */
+export async function verifyAccessToken(token: string) {
+  const payload = await verifyToken(token);
+  if (payload['type'] !== 'access') {
+    throw new Error('Invalid token type');
+  }
+  return payload;
+}
@@ -0,0 +1,151 @@
+/**
+ * Leader Lease
+ *
+ * Lets one instance at a time own a piece of work (e.g. firing cron
+ * schedules) by holding a named lease in Deno KV.
+ *
+ * The lease is a single record under ['leases', name] with an expiry time.
+ * Acquiring and renewing are atomic commits checked against the record's
+ * versionstamp, so two instances can never both write themselves in. A holder
+ * that stops renewing (crash, network partition) loses the lease once it
+ * expires and another instance takes over.
+ *
+ * Usage:
+ * ```ts
+ * const lease = new LeaderLease({ name: 'scheduler' });
+ * if (await lease.renew()) {
+ *   // This instance is the leader until lease.expiresAt
+ * }
+ * await lease.release();
+ * ```
+ */
+
+import { getKv } from './kv.ts';
+import { createLogger } from './logger.ts';
+
+const logger = createLogger('LeaderLease');
+
+// Configuration
+const DEFAULT_TTL_MS = 30_000; // How long a lease lasts without renewal
+
+/**
+ * Lease record stored in KV
+ */
+export interface LeaseRecord {
+  name: string;
+  holderId: string;
+  acquiredAt: number;
+  renewedAt: number;
+  expiresAt: number;
+}
+
+export interface LeaderLeaseOptions {
+  name: string;
+  /** Lease lifetime; renew well within it (e.g. every third of it) */
+  ttlMs?: number;
+  getKv?: () => Promise<Deno.Kv>;
+  instanceId?: string;
+}
+
+export class LeaderLease {
+  readonly name: string;
+  readonly instanceId: string;
+  readonly ttlMs: number;
+
+  private getKv: () => Promise<Deno.Kv>;
+  private expiresAt = 0; // Local view of our own lease expiry
+
+  constructor(options: LeaderLeaseOptions) {
+    this.name = options.name;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.getKv = options.getKv || getKv;
+    this.instanceId = options.instanceId ||
+      `${Deno.env.get('DENO_DEPLOYMENT_ID') || 'local'}:${crypto.randomUUID().slice(0, 8)}`;
+  }
+
+  private get key(): Deno.KvKey {
+    return ['leases', this.name];
+  }
+
+  /**
+   * Whether this instance holds the lease, judged by the last successful renewal
+   */
+  get isLeader(): boolean {
+    return this.expiresAt > Date.now();
+  }
+
+  /**
+   * Acquire the lease if it is free or expired, or extend it if we hold it
+   * Returns whether this instance is the leader afterwards.
+   */
+  async renew(): Promise<boolean> {
+    const kv = await this.getKv();
+    const entry = await kv.get<LeaseRecord>(this.key);
+    const current = entry.value;
+    const now = Date.now();
+
+    if (current && current.holderId !== this.instanceId && current.expiresAt > now) {
+      this.expiresAt = 0;
+      return false;
+    }
+
+    const record: LeaseRecord = {
+      name: this.name,
+      holderId: this.instanceId,
+      acquiredAt: current?.holderId === this.instanceId ? current.acquiredAt : now,
+      renewedAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set(this.key, record, { expireIn: this.ttlMs * 2 })
+      .commit();
+
+    if (!result.ok) {
+      // Another instance got there first
+      this.expiresAt = 0;
+      return false;
+    }
+
+    if (current?.holderId !== this.instanceId) {
+      logger.info('Lease acquired', { name: this.name, instanceId: this.instanceId, previous: current?.holderId });
+    }
+
+    this.expiresAt = record.expiresAt;
+    return true;
+  }
+
+  /**
+   * Give up the lease so another instance can take over without waiting for expiry
+   */
+  async release(): Promise<void> {
+    if (!this.isLeader) {
+      return;
+    }
+    this.expiresAt = 0;
+
+    const kv = await this.getKv();
+    const entry = await kv.get<LeaseRecord>(this.key);
+    if (entry.value?.holderId !== this.instanceId) {
+      return;
+    }
+
+    await kv.atomic().check(entry).delete(this.key).commit();
+    logger.info('Lease released', { name: this.name, instanceId: this.instanceId });
+  }
+
+  /**
+   * Current lease holder, or null if nobody holds an unexpired lease
+   */
+  async getHolder(): Promise<LeaseRecord | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<LeaseRecord>(this.key);
+
+    if (!entry.value || entry.value.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return entry.value;
+  }
+}
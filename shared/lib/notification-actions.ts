@@ -0,0 +1,35 @@
+/**
+ * Notification API Actions
+ *
+ * The endpoints a notification's 'api' action may call. The recipient's
+ * browser calls them with its own access token and CSRF header, so only
+ * endpoints made for one-click actions are listed, never every /api/ route.
+ *
+ * Patterns use :param for one path segment of letters, digits, '-' and '_',
+ * so dot-segments, encoded slashes and query strings never match.
+ */
+
+export type NotificationApiMethod = 'POST' | 'PATCH' | 'DELETE';
+
+export const NOTIFICATION_API_ACTIONS: readonly { method: NotificationApiMethod; pattern: string }[] = [
+  { method: 'PATCH', pattern: '/api/notifications/:id/read' },
+  { method: 'DELETE', pattern: '/api/notifications/:id' },
+  { method: 'POST', pattern: '/api/jobs/:id/retry' },
+  { method: 'POST', pattern: '/api/jobs/:id/cancel' },
+];
+
+const PARAM_SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Whether a notification action may call this endpoint
+ */
+export function isAllowedNotificationApiAction(method: string, path: string): boolean {
+  const segments = path.split('/');
+
+  return NOTIFICATION_API_ACTIONS.some((action) => {
+    const parts = action.pattern.split('/');
+    return action.method === method &&
+      parts.length === segments.length &&
+      parts.every((part, i) => part.startsWith(':') ? PARAM_SEGMENT.test(segments[i]) : part === segments[i]);
+  });
+}
@@ -1,13 +1,22 @@
 /**
  * WebSocket Notification Handler
  * Manages real-time notification delivery via WebSocket connections
+ *
+ * Send helpers (notifyUser, sendToUser, broadcast, broadcastJobUpdate,
+ * broadcastJobProgress, broadcastJobLog, broadcastJobStats) deliver to local
+ * sockets immediately and, once startWebSocketPubSub() has been called, fan
+ * out to other instances through WebSocketPubSub.
+ *
+ * Notifications for users with no open socket on any instance go to the
+ * offline handler set with setOfflineNotificationHandler() (Web Push).
  */
 
 import { UserRepository } from '../repositories/index.ts';
 import { WS_CONNECTION_TIMEOUT_MS } from './config.ts';
-import { verifyToken } from './jwt.ts';
+import { verifyAccessToken } from './jwt.ts';
 import { getKv } from './kv.ts';
 import { createLogger } from './logger.ts';
+import { type PubSubEnvelope, type WebSocketTarget, WebSocketPubSub } from './websocket-pubsub.ts';
 
 const logger = createLogger('WebSocket');
 
@@ -70,6 +79,73 @@ let totalConnections = 0;
 // Track cleanup interval for control
 let cleanupIntervalId: number | undefined;
 
+// Cross-instance fan-out (null until started - local delivery only)
+let pubsub: WebSocketPubSub | null = null;
+
+/**
+ * Delivers a notification to a user with no open socket anywhere
+ */
+export type OfflineNotificationHandler = (userId: string, notification: unknown) => Promise<unknown>;
+
+// Offline delivery (null until set - notifications for offline users are only stored)
+let offlineHandler: OfflineNotificationHandler | null = null;
+
+/**
+ * Set (or clear, with null) where notifications for offline users go
+ * Call once during server startup.
+ */
+export function setOfflineNotificationHandler(handler: OfflineNotificationHandler | null) {
+  offlineHandler = handler;
+}
+
+/**
+ * Start cross-instance fan-out
+ * Call once during server startup; safe to call again.
+ */
+export async function startWebSocketPubSub(options: { getKv?: () => Promise<Deno.Kv> } = {}) {
+  if (pubsub) {
+    return;
+  }
+
+  const instance = new WebSocketPubSub({
+    deliver: deliverLocal,
+    getLocalPresence,
+    getKv: options.getKv,
+  });
+  await instance.start();
+  pubsub = instance;
+}
+
+/**
+ * Stop cross-instance fan-out
+ * Useful for tests and graceful shutdown
+ */
+export async function stopWebSocketPubSub() {
+  const instance = pubsub;
+  pubsub = null;
+  await instance?.stop();
+}
+
+/**
+ * Connection count per user on this instance
+ */
+function getLocalPresence(): Map<string, number> {
+  const presence = new Map<string, number>();
+  clients.forEach((userConnections, userId) => {
+    presence.set(userId, userConnections.size);
+  });
+  return presence;
+}
+
+/**
+ * Publish this instance's current connection count for a user
+ */
+function syncPresence(userId: string) {
+  pubsub?.updatePresence(userId, clients.get(userId)?.size ?? 0).catch((error) => {
+    logger.error('Failed to update presence', error, { userId });
+  });
+}
+
 /**
  * Periodic cleanup of dead connections
  * Runs every 60 seconds to check for connections that haven't responded to heartbeat
@@ -167,7 +243,7 @@ export function setupWebSocketConnection(deps?: WebSocketDependencies) {
 
   // Create dependencies object with fallbacks to real implementations
   const dependencies: ResolvedDependencies = {
-    verifyToken: deps?.verifyToken || verifyToken,
+    verifyToken: deps?.verifyToken || verifyAccessToken,
     createUserRepository: deps?.createUserRepository || (() => new UserRepository()),
     getUnreadCount: deps?.getUnreadCount || (async (userId: string) => {
       const NS = await getNotificationService();
@@ -292,6 +368,7 @@ export function setupWebSocketConnection(deps?: WebSocketDependencies) {
             }
             clients.get(authenticatedUserId)!.set(connectionId, authenticatedClient);
             totalConnections++;
+            syncPresence(authenticatedUserId);
 
             logger.debug('Sending connection confirmation', {
               userId: authenticatedUserId,
@@ -390,6 +467,7 @@ export function setupWebSocketConnection(deps?: WebSocketDependencies) {
             remainingConnectionsForUser: userConnections.size,
             totalConnections,
           });
+          syncPresence(userId);
         }
       } else {
         logger.debug('Unauthenticated connection closed');
@@ -623,12 +701,66 @@ function startHeartbeat(client: WebSocketClient) {
   client.heartbeatInterval = interval;
 }
 
+/**
+ * Deliver a message to matching sockets on this instance
+ * Returns the number of sockets the message was sent to
+ */
+function deliverLocal(envelope: PubSubEnvelope): number {
+  const { target, message } = envelope;
+  let sentCount = 0;
+
+  const sendTo = (client: WebSocketClient) => {
+    if (client.socket.readyState === WebSocket.OPEN) {
+      sendMessage(client.socket, message);
+      sentCount++;
+    }
+  };
+
+  if (target.type === 'user') {
+    clients.get(target.userId)?.forEach(sendTo);
+  } else {
+    clients.forEach((userConnections) => {
+      userConnections.forEach((client) => {
+        // Job updates and stats go to admin users only
+        if (target.type === 'all' || client.isAdmin) {
+          sendTo(client);
+        }
+      });
+    });
+  }
+
+  return sentCount;
+}
+
+/**
+ * Deliver locally, then fan out to other instances
+ * Every send helper goes through here.
+ */
+function dispatch(target: WebSocketTarget, message: unknown): number {
+  const envelope: PubSubEnvelope = {
+    id: crypto.randomUUID(),
+    origin: pubsub?.instanceId ?? 'local',
+    target,
+    message,
+    publishedAt: Date.now(),
+  };
+
+  const sentCount = deliverLocal(envelope);
+
+  pubsub?.publish(envelope).catch((error) => {
+    logger.error('Failed to publish WebSocket message', error, { target });
+  });
+
+  return sentCount;
+}
+
 /**
  * Broadcast notification to a specific user (all their connections)
+ *
+ * Sent whole, with its actions, priority and expiry. When an event joins a
+ * group the same notification is sent again with a higher groupCount.
  */
 export function notifyUser(userId: string, notification: unknown) {
-  const userConnections = clients.get(userId);
-  
   // Type guard for notification
   const notificationData = notification && typeof notification === 'object' && 'id' in notification
     ? (notification as { id: string })
@@ -637,31 +769,32 @@ export function notifyUser(userId: string, notification: unknown) {
   logger.debug('notifyUser called', {
     userId,
     notificationId: notificationData?.id,
-    hasConnections: !!userConnections,
-    connectionCount: userConnections?.size || 0,
+    localConnectionCount: clients.get(userId)?.size || 0,
   });
   
-  if (!userConnections) {
-    logger.debug('No connections found for user', { userId });
-    return;
-  }
-  
-  const message = {
+  const sentCount = dispatch({ type: 'user', userId }, {
     type: 'new_notification',
     notification,
     timestamp: new Date().toISOString(),
-  };
-  
-  let sentCount = 0;
-  // Send to all of user's connections
-  userConnections.forEach((client) => {
-    if (client.socket.readyState === WebSocket.OPEN) {
-      sendMessage(client.socket, message);
-      sentCount++;
-    }
   });
   
   logger.debug('Sent new_notification to connections', { sentCount });
+
+  if (sentCount === 0 && offlineHandler) {
+    deliverOffline(offlineHandler, userId, notification).catch((error) => {
+      logger.error('Offline notification delivery failed', error, { userId });
+    });
+  }
+}
+
+/**
+ * Hand a notification to the offline handler unless another instance holds a socket for the user
+ */
+async function deliverOffline(handler: OfflineNotificationHandler, userId: string, notification: unknown) {
+  if (pubsub && await pubsub.hasRemotePresence(userId)) {
+    return;
+  }
+  await handler(userId, notification);
 }
 
 /**
@@ -669,8 +802,6 @@ export function notifyUser(userId: string, notification: unknown) {
  * Use this when you need to send a message with a specific type/structure
  */
 export function sendToUser(userId: string, message: unknown) {
-  const userConnections = clients.get(userId);
-  
   // Type guard for message
   if (!message || typeof message !== 'object') {
     logger.warn('Invalid message format in sendToUser', { userId });
@@ -682,28 +813,13 @@ export function sendToUser(userId: string, message: unknown) {
   logger.debug('sendToUser called', {
     userId,
     messageType: messageData['type'],
-    hasConnections: !!userConnections,
-    connectionCount: userConnections?.size || 0,
+    localConnectionCount: clients.get(userId)?.size || 0,
   });
   
-  if (!userConnections) {
-    logger.debug('No connections found for user', { userId });
-    return;
-  }
-  
   // Add timestamp if not present
-  const messageWithTimestamp = {
+  const sentCount = dispatch({ type: 'user', userId }, {
     ...messageData,
     timestamp: messageData['timestamp'] || new Date().toISOString(),
-  };
-  
-  let sentCount = 0;
-  // Send to all of user's connections
-  userConnections.forEach((client) => {
-    if (client.socket.readyState === WebSocket.OPEN) {
-      sendMessage(client.socket, messageWithTimestamp);
-      sentCount++;
-    }
   });
   
   logger.debug('Sent message to connections', { sentCount, messageType: messageData['type'] });
@@ -713,32 +829,41 @@ export function sendToUser(userId: string, message: unknown) {
  * Broadcast to all connected clients
  */
 export function broadcast(message: unknown) {
-  clients.forEach((userConnections) => {
-    userConnections.forEach((client) => {
-      if (client.socket.readyState === WebSocket.OPEN) {
-        sendMessage(client.socket, message);
-      }
-    });
-  });
+  dispatch({ type: 'all' }, message);
 }
 
 /**
  * Broadcast job update to all connected admin clients
  */
 export function broadcastJobUpdate(jobData: unknown) {
-  const message = {
+  dispatch({ type: 'admins' }, {
     type: 'job_update',
     job: jobData,
     timestamp: new Date().toISOString(),
-  };
-  
-  clients.forEach((userConnections) => {
-    userConnections.forEach((client) => {
-      // Only send job updates to admin users
-      if (client.isAdmin && client.socket.readyState === WebSocket.OPEN) {
-        sendMessage(client.socket, message);
-      }
-    });
+  });
+}
+
+/**
+ * Broadcast progress of a running job to all connected admin clients
+ */
+export function broadcastJobProgress(jobId: string, progress: unknown) {
+  dispatch({ type: 'admins' }, {
+    type: 'job_progress',
+    jobId,
+    progress,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Broadcast a job log line to all connected admin clients
+ */
+export function broadcastJobLog(jobId: string, entry: unknown) {
+  dispatch({ type: 'admins' }, {
+    type: 'job_log',
+    jobId,
+    entry,
+    timestamp: new Date().toISOString(),
   });
 }
 
@@ -746,19 +871,10 @@ export function broadcastJobUpdate(jobData: unknown) {
  * Broadcast job stats update to all connected admin clients
  */
 export function broadcastJobStats(stats: unknown) {
-  const message = {
+  dispatch({ type: 'admins' }, {
     type: 'job_stats_update',
     stats,
     timestamp: new Date().toISOString(),
-  };
-  
-  clients.forEach((userConnections) => {
-    userConnections.forEach((client) => {
-      // Only send job stats to admin users
-      if (client.isAdmin && client.socket.readyState === WebSocket.OPEN) {
-        sendMessage(client.socket, message);
-      }
-    });
   });
 }
 
@@ -779,6 +895,26 @@ export function getConnectionStats() {
     connectionsPerUser: Object.fromEntries(userConnectionCounts),
     maxConnectionsPerUser: MAX_CONNECTIONS_PER_USER,
     maxTotalConnections: MAX_TOTAL_CONNECTIONS,
+    instanceId: pubsub?.instanceId ?? null,
+  };
+}
+
+/**
+ * Get connection statistics across all instances
+ * Falls back to this instance only when pub/sub is not running.
+ */
+export async function getClusterConnectionStats() {
+  const local = getConnectionStats();
+
+  if (!pubsub) {
+    return { instances: [], totalConnections: local.totalConnections, activeInstances: 1 };
+  }
+
+  const instances = await pubsub.listInstances();
+  return {
+    instances,
+    totalConnections: instances.reduce((sum, instance) => sum + instance.connections, 0),
+    activeInstances: instances.length,
   };
 }
 
@@ -798,6 +934,7 @@ export function disconnectUser(userId: string) {
   });
   
   clients.delete(userId);
+  syncPresence(userId);
   
   logger.info('Disconnected all connections for user', {
     userId,
@@ -0,0 +1,108 @@
+/**
+ * Social Sign-In Providers
+ * A provider is enabled when its client ID and secret are set (see .env.example)
+ *
+ * Redirect URI to register with each provider:
+ *   {FRONTEND_URL}/api/auth/oidc/{provider}/callback
+ */
+
+import { type ExternalIdentity, OidcError, type OidcProviderConfig, providerFetch } from './oidc.ts';
+
+/**
+ * Google (OpenID Connect)
+ * https://developers.google.com/identity/openid-connect/openid-connect
+ */
+function googleProvider(clientId: string, clientSecret: string): OidcProviderConfig {
+  return {
+    id: 'google',
+    name: 'Google',
+    clientId,
+    clientSecret,
+    authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenEndpoint: 'https://oauth2.googleapis.com/token',
+    scopes: ['openid', 'email', 'profile'],
+    idToken: {
+      issuer: ['https://accounts.google.com', 'accounts.google.com'],
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+    },
+  };
+}
+
+/**
+ * GitHub (OAuth2 only - no ID token, the profile comes from the REST API)
+ * https://docs.github.com/en/apps/oauth-apps/building-oauth-apps/authorizing-oauth-apps
+ */
+function githubProvider(clientId: string, clientSecret: string): OidcProviderConfig {
+  return {
+    id: 'github',
+    name: 'GitHub',
+    clientId,
+    clientSecret,
+    authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+    tokenEndpoint: 'https://github.com/login/oauth/access_token',
+    scopes: ['read:user', 'user:email'],
+    fetchProfile: fetchGitHubProfile,
+  };
+}
+
+/**
+ * GitHub profile plus the primary email, if verified
+ * The profile's public email may be unset or unverified, so /user/emails is authoritative.
+ */
+async function fetchGitHubProfile(accessToken: string): Promise<ExternalIdentity> {
+  const headers = {
+    'Accept': 'application/vnd.github+json',
+    'Authorization': `Bearer ${accessToken}`,
+  };
+
+  const [userResponse, emailsResponse] = await Promise.all([
+    providerFetch('https://api.github.com/user', { headers }),
+    providerFetch('https://api.github.com/user/emails', { headers }),
+  ]);
+
+  if (!userResponse.ok) {
+    throw new OidcError(`GitHub profile request failed: HTTP ${userResponse.status}`);
+  }
+
+  const user = await userResponse.json() as { id: number; login: string; name: string | null };
+  const emails = emailsResponse.ok
+    ? await emailsResponse.json() as Array<{ email: string; primary: boolean; verified: boolean }>
+    : [];
+  const primary = emails.find((email) => email.primary);
+
+  return {
+    subject: String(user.id),
+    email: primary ? primary.email.toLowerCase() : null,
+    emailVerified: primary?.verified === true,
+    name: user.name || user.login,
+  };
+}
+
+/**
+ * Providers configured in the environment, in display order
+ */
+export function getConfiguredProviders(): OidcProviderConfig[] {
+  const providers: OidcProviderConfig[] = [];
+
+  const googleId = Deno.env.get('GOOGLE_CLIENT_ID');
+  const googleSecret = Deno.env.get('GOOGLE_CLIENT_SECRET');
+  if (googleId && googleSecret) {
+    providers.push(googleProvider(googleId, googleSecret));
+  }
+
+  const githubId = Deno.env.get('GITHUB_CLIENT_ID');
+  const githubSecret = Deno.env.get('GITHUB_CLIENT_SECRET');
+  if (githubId && githubSecret) {
+    providers.push(githubProvider(githubId, githubSecret));
+  }
+
+  return providers;
+}
+
+/**
+ * Callback URL the provider redirects back to
+ */
+export function getRedirectUri(providerId: string): string {
+  const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+  return new URL(`/api/auth/oidc/${providerId}/callback`, frontendUrl).href;
+}
@@ -0,0 +1,389 @@
+/**
+ * OpenID Connect / OAuth2 Client
+ * Used for social sign-in and linking external identities to accounts
+ *
+ * Authorization code flow with PKCE (RFC 7636, S256 only):
+ * 1. buildAuthorizationUrl() - redirect the browser with state, nonce and code challenge
+ * 2. exchangeAuthorizationCode() - swap the returned code (+ verifier) for tokens
+ * 3. fetchIdentity() - OIDC providers: verify the ID token against the provider's
+ *    JWKS (signature, issuer, audience, expiry, nonce); OAuth2-only providers
+ *    (e.g. GitHub) are asked for the profile with the access token instead
+ *
+ * ID tokens are verified with WebCrypto (RS256 and ES256). JWKS documents are
+ * cached per URI and refetched when a token names a key we haven't seen, so
+ * provider key rotation is picked up without a restart.
+ */
+
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+import { OidcConfig } from './config.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The identity an external provider vouches for
+ */
+export interface ExternalIdentity {
+  /** Stable, provider-scoped user ID ("sub" claim) */
+  subject: string;
+  email: string | null;
+  /** Whether the provider verified the user controls the email address */
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export interface OidcProviderConfig {
+  /** URL-safe identifier, e.g. "google" */
+  id: string;
+  /** Display name, e.g. "Google" */
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  scopes: string[];
+  /** OpenID Connect: identity comes from the ID token, verified against the JWKS */
+  idToken?: {
+    /** Expected "iss" claim (some providers use more than one form) */
+    issuer: string | string[];
+    jwksUri: string;
+  } | undefined;
+  /** OAuth2-only providers: look up the identity with the access token */
+  fetchProfile?: ((accessToken: string) => Promise<ExternalIdentity>) | undefined;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  id_token?: string | undefined;
+  expires_in?: number | undefined;
+  scope?: string | undefined;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  [claim: string]: unknown;
+}
+
+export interface IdTokenExpectations {
+  issuer: string | string[];
+  /** Our client ID */
+  audience: string;
+  jwksUri: string;
+  /** Nonce sent with the authorization request */
+  nonce: string;
+}
+
+/**
+ * A provider response failed validation or a provider request failed
+ * The message says which check failed; it is for logs, not end users.
+ */
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+// ============================================================================
+// Authorization Request
+// ============================================================================
+
+/**
+ * Generate a random value for state, nonce or a PKCE code verifier (32 bytes, base64url)
+ */
+export function generateRandomToken(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Derive the S256 code challenge for a PKCE code verifier
+ */
+export async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return encodeBase64Url(new Uint8Array(digest));
+}
+
+/**
+ * Build the URL the browser is sent to for sign-in at the provider
+ */
+export function buildAuthorizationUrl(provider: OidcProviderConfig, params: {
+  redirectUri: string;
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+}): string {
+  const url = new URL(provider.authorizationEndpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', params.redirectUri);
+  url.searchParams.set('scope', provider.scopes.join(' '));
+  url.searchParams.set('state', params.state);
+  url.searchParams.set('code_challenge', params.codeChallenge);
+  url.searchParams.set('code_challenge_method', 'S256');
+  if (provider.idToken) {
+    url.searchParams.set('nonce', params.nonce);
+  }
+  return url.href;
+}
+
+// ============================================================================
+// Token Exchange
+// ============================================================================
+
+/**
+ * Exchange an authorization code for tokens (client_secret_post)
+ *
+ * @throws OidcError if the provider rejects the code or the response is malformed
+ */
+export async function exchangeAuthorizationCode(provider: OidcProviderConfig, params: {
+  code: string;
+  redirectUri: string;
+  codeVerifier: string;
+}): Promise<TokenResponse> {
+  const response = await providerFetch(provider.tokenEndpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: params.codeVerifier,
+    }),
+  });
+
+  const body = await response.json().catch(() => null) as Record<string, unknown> | null;
+
+  // GitHub reports errors with a 200 status, so check the body too
+  if (!response.ok || !body || typeof body.error === 'string') {
+    const reason = typeof body?.error === 'string' ? body.error : `HTTP ${response.status}`;
+    throw new OidcError(`Token request failed: ${reason}`);
+  }
+
+  if (typeof body.access_token !== 'string') {
+    throw new OidcError('Token response has no access token');
+  }
+
+  return body as unknown as TokenResponse;
+}
+
+/**
+ * Resolve the identity behind a token response
+ *
+ * @throws OidcError if the ID token is missing or invalid, or the profile lookup fails
+ */
+export async function fetchIdentity(
+  provider: OidcProviderConfig,
+  tokens: TokenResponse,
+  nonce: string,
+): Promise<ExternalIdentity> {
+  if (provider.idToken) {
+    if (!tokens.id_token) {
+      throw new OidcError('Token response has no ID token');
+    }
+
+    const claims = await verifyIdToken(tokens.id_token, {
+      issuer: provider.idToken.issuer,
+      audience: provider.clientId,
+      jwksUri: provider.idToken.jwksUri,
+      nonce,
+    });
+
+    return {
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+      // Some providers send the claim as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      name: typeof claims.name === 'string' ? claims.name : null,
+    };
+  }
+
+  if (provider.fetchProfile) {
+    return await provider.fetchProfile(tokens.access_token);
+  }
+
+  throw new OidcError(`Provider ${provider.id} has no way to identify the user`);
+}
+
+// ============================================================================
+// ID Token Verification
+// ============================================================================
+
+/**
+ * Verify an ID token's signature and claims (OpenID Connect Core §3.1.3.7)
+ *
+ * @throws OidcError if any check fails
+ */
+export async function verifyIdToken(idToken: string, expected: IdTokenExpectations): Promise<IdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new OidcError('ID token is not a JWT');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+  const header = decodeJson(encodedHeader, 'ID token header') as { alg?: unknown; kid?: unknown };
+  const claims = decodeJson(encodedPayload, 'ID token payload') as IdTokenClaims;
+
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    throw new OidcError(`Unsupported ID token algorithm: ${String(header.alg)}`);
+  }
+
+  const jwk = await findSigningKey(expected.jwksUri, typeof header.kid === 'string' ? header.kid : undefined, header.alg);
+  const signature = decode(encodedSignature, 'ID token signature');
+  const data = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+
+  let valid: boolean;
+  try {
+    const key = await crypto.subtle.importKey('jwk', jwk, importParams(header.alg), false, ['verify']);
+    valid = await crypto.subtle.verify(verifyParams(header.alg), key, signature, data);
+  } catch {
+    throw new OidcError('ID token signing key could not be used');
+  }
+
+  if (!valid) {
+    throw new OidcError('ID token signature is invalid');
+  }
+
+  const issuers = Array.isArray(expected.issuer) ? expected.issuer : [expected.issuer];
+  if (!issuers.includes(claims.iss)) {
+    throw new OidcError(`ID token issuer mismatch: ${claims.iss}`);
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(expected.audience)) {
+    throw new OidcError('ID token was issued to another client');
+  }
+  if (audiences.length > 1 && claims.azp !== expected.audience) {
+    throw new OidcError('ID token authorized party mismatch');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = Math.floor(OidcConfig.CLOCK_TOLERANCE_MS / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+    throw new OidcError('ID token has expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - tolerance > now) {
+    throw new OidcError('ID token was issued in the future');
+  }
+
+  if (claims.nonce !== expected.nonce) {
+    throw new OidcError('ID token nonce mismatch');
+  }
+
+  if (typeof claims.sub !== 'string' || claims.sub === '') {
+    throw new OidcError('ID token has no subject');
+  }
+
+  return claims;
+}
+
+// ============================================================================
+// JWKS
+// ============================================================================
+
+const jwksCache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+/**
+ * Find the key that signed a token
+ * A kid missing from the cached set triggers one refetch (the provider rotated keys).
+ */
+async function findSigningKey(jwksUri: string, kid: string | undefined, alg: 'RS256' | 'ES256'): Promise<JsonWebKey> {
+  const match = (keys: JsonWebKey[]) =>
+    keys.find((key) =>
+      key.kty === (alg === 'RS256' ? 'RSA' : 'EC') &&
+      (kid === undefined || (key as { kid?: string }).kid === kid) &&
+      (!key.alg || key.alg === alg) &&
+      (!(key as { use?: string }).use || (key as { use?: string }).use === 'sig')
+    );
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < OidcConfig.JWKS_CACHE_TTL_MS) {
+    const key = match(cached.keys);
+    if (key) {
+      return key;
+    }
+  }
+
+  const key = match(await fetchJwks(jwksUri));
+  if (!key) {
+    throw new OidcError(`No signing key found for kid ${kid ?? '(none)'}`);
+  }
+  return key;
+}
+
+async function fetchJwks(jwksUri: string): Promise<JsonWebKey[]> {
+  const response = await providerFetch(jwksUri, { headers: { 'Accept': 'application/json' } });
+  if (!response.ok) {
+    throw new OidcError(`JWKS request failed: HTTP ${response.status}`);
+  }
+
+  const body = await response.json().catch(() => null) as { keys?: unknown } | null;
+  if (!body || !Array.isArray(body.keys)) {
+    throw new OidcError('JWKS response has no keys');
+  }
+
+  const keys = body.keys as JsonWebKey[];
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * fetch() with a timeout; network failures become OidcErrors
+ */
+export async function providerFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(OidcConfig.REQUEST_TIMEOUT_MS) });
+  } catch (error) {
+    throw new OidcError(`Request to ${new URL(url).host} failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function importParams(alg: 'RS256' | 'ES256'): RsaHashedImportParams | EcKeyImportParams {
+  return alg === 'RS256'
+    ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+    : { name: 'ECDSA', namedCurve: 'P-256' };
+}
+
+function verifyParams(alg: 'RS256' | 'ES256'): AlgorithmIdentifier | EcdsaParams {
+  // JWS ECDSA signatures are already raw r || s, as WebCrypto expects
+  return alg === 'RS256' ? { name: 'RSASSA-PKCS1-v1_5' } : { name: 'ECDSA', hash: 'SHA-256' };
+}
+
+function decodeJson(value: string, field: string): unknown {
+  try {
+    const json = JSON.parse(new TextDecoder().decode(decode(value, field)));
+    if (json && typeof json === 'object') {
+      return json;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new OidcError(`${field} is not valid JSON`);
+}
+
+function decode(value: string, field: string): Uint8Array {
+  try {
+    return decodeBase64Url(value);
+  } catch {
+    throw new OidcError(`${field} is not valid base64url`);
+  }
+}
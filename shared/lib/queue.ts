@@ -7,7 +7,14 @@
  * - Job prioritization
  * - Dead letter queue for failed jobs
  * - Job status tracking
- * - Concurrency control
+ * - Concurrency control (per instance, plus per job name/group limits shared
+ *   across instances through KV)
+ * - Rate limits per job name or group (e.g. one webhook target host)
+ * - Per-job timeouts and cancellation via AbortSignal
+ * - Progress reporting, per-job logs and result persistence from handlers
+ * - Job dependencies and flows (parent results passed on to children)
+ * - Heartbeats for running jobs, with a reaper that requeues jobs whose
+ *   worker stopped responding
  * - Optimized indexing to prevent N+1 queries
  *
  * Performance Optimizations:
@@ -33,9 +40,24 @@
  *   maxRetries: 3,
  * });
  *
- * // Process jobs
- * queue.process('send-email', async (job) => {
- *   await sendEmail(job.data);
+ * // Process jobs - the return value is stored as job.result
+ * queue.process('send-email', async (job, ctx) => {
+ *   await ctx.updateProgress(50, 'Rendering template');
+ *   return await sendEmail(job.data, { signal: ctx.signal });
+ * });
+ *
+ * // Limit a handler across all instances, per group
+ * queue.process('send-webhook', handler, {
+ *   concurrency: 2,
+ *   rateLimit: { max: 10, perMs: 1000 },
+ *   groupKey: (job) => new URL(job.data.url).host,
+ * });
+ *
+ * // Pipeline: each child starts once its parent completed and gets its result
+ * await queue.addFlow({
+ *   name: 'generate-report',
+ *   data: { reportType: 'sales' },
+ *   children: [{ name: 'upload-report', data: {}, children: [{ name: 'send-email', data: {} }] }],
  * });
  * ```
  */
@@ -45,11 +67,23 @@ import { createLogger } from './logger.ts';
 
 const logger = createLogger('Queue');
 
+const PROGRESS_THROTTLE_MS = 250; // Minimum gap between stored/broadcast progress updates
+const MAX_LOG_LINES = 500; // Per attempt - further lines are dropped
+const MAX_LOG_LINE_LENGTH = 2000;
+const FINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
 // ============================================================================
 // Types
 // ============================================================================
 
-export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'retrying';
+export type JobStatus = 'waiting' | 'pending' | 'running' | 'completed' | 'failed' | 'retrying' | 'cancelled';
+
+/**
+ * What a child does when a parent fails or is cancelled
+ * - fail: the child (and its own children, per their policy) is marked failed
+ * - continue: the child runs anyway, without that parent's result
+ */
+export type ParentFailurePolicy = 'fail' | 'continue';
 
 export interface Job<T = unknown> {
   id: string;
@@ -66,6 +100,29 @@ export interface Job<T = unknown> {
   completedAt?: string | undefined;
   scheduledFor?: string | undefined;
   processingBy?: string | undefined;
+  timeoutMs?: number | undefined;
+  cancelledAt?: string | undefined;
+  progress?: JobProgress | undefined;
+  parentIds?: string[] | undefined;
+  /** Results of completed parents by parent job ID, set when the job is released */
+  parentResults?: Record<string, unknown> | undefined;
+  onParentFailure?: ParentFailurePolicy | undefined;
+  flowId?: string | undefined;
+}
+
+export interface JobProgress {
+  percent: number; // 0-100
+  message?: string | undefined;
+  updatedAt: string;
+}
+
+/**
+ * Log line written by a handler, stored under ['job_logs', jobId, attempt, index]
+ */
+export interface JobLogEntry {
+  attempt: number;
+  line: string;
+  timestamp: string;
 }
 
 export interface JobOptions {
@@ -79,6 +136,51 @@ export interface JobOptions {
   scheduledFor?: Date;
   /** Unique job ID (prevents duplicates) */
   jobId?: string;
+  /** Abort an attempt that runs longer than this (ms) - counts as a failed attempt */
+  timeoutMs?: number;
+  /** Parent job IDs - the job waits until all of them have finished */
+  dependsOn?: string[];
+  /** What to do when a parent fails or is cancelled (default: fail) */
+  onParentFailure?: ParentFailurePolicy;
+  /** Flow the job belongs to (set by addFlow) */
+  flowId?: string;
+}
+
+/**
+ * Flow definition - children depend on their parent
+ */
+export interface FlowJob<T = unknown> {
+  name: string;
+  data: T;
+  options?: Omit<JobOptions, 'dependsOn' | 'flowId'>;
+  children?: FlowJob[];
+}
+
+/**
+ * Job IDs created by addFlow, in the shape of the definition
+ */
+export interface FlowNode {
+  jobId: string;
+  name: string;
+  children: FlowNode[];
+}
+
+/**
+ * Stored flow record with its jobs (build the tree from job.parentIds)
+ */
+export interface JobFlow {
+  id: string;
+  name: string;
+  rootJobId: string;
+  createdAt: string;
+  jobs: Job[];
+}
+
+interface FlowRecord {
+  id: string;
+  name: string;
+  rootJobId: string;
+  createdAt: string;
 }
 
 export interface QueueStats {
@@ -86,10 +188,76 @@ export interface QueueStats {
   running: number;
   completed: number;
   failed: number;
+  cancelled: number;
+  waiting: number;
   total: number;
 }
 
-type JobHandler<T = unknown> = (job: Job<T>) => Promise<void>;
+/**
+ * Passed to handlers alongside the job
+ */
+export interface JobContext {
+  /** Aborts when the attempt times out or the job is cancelled - pass it on to fetch() etc. */
+  signal: AbortSignal;
+  /** Report progress (throttled; the latest value is always stored when the attempt ends) */
+  updateProgress(percent: number, message?: string): Promise<void>;
+  /** Append a line to the job's log */
+  log(line: string): Promise<void>;
+}
+
+/**
+ * Job handler - a resolved value other than undefined is stored as job.result
+ */
+export type JobHandler<T = unknown> = (job: Job<T>, ctx: JobContext) => Promise<unknown>;
+
+/**
+ * Per job name processing limits, enforced across instances through KV
+ */
+export interface ProcessOptions<T = unknown> {
+  /** Max jobs running at once (per group when groupKey is set) */
+  concurrency?: number;
+  /** Max job starts per window (per group when groupKey is set) */
+  rateLimit?: { max: number; perMs: number };
+  /** Jobs returning the same key share the limits above, e.g. a webhook's target host */
+  groupKey?: (job: Job<T>) => string | undefined;
+}
+
+/**
+ * Shared limit state for one job name and group, stored under ['queue_limits', name, group]
+ */
+interface LimitState {
+  active: Record<string, number>; // jobId -> slot lease expiry
+  starts: number[]; // Start times within the rate limit window
+}
+
+/**
+ * Heartbeat record for a running job, stored under ['queue', 'running', jobId]
+ */
+interface RunningJobEntry {
+  jobId: string;
+  workerId: string;
+  heartbeatAt: number;
+}
+
+/**
+ * Abort reason when an attempt exceeds its timeoutMs
+ */
+export class JobTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Job timed out after ${timeoutMs}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+/**
+ * Abort reason when a running job is cancelled
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
 
 // ============================================================================
 // Queue Implementation
@@ -98,11 +266,18 @@ type JobHandler<T = unknown> = (job: Job<T>) => Promise<void>;
 export class JobQueue {
   private kv: Deno.Kv | null = null;
   private handlers = new Map<string, JobHandler>();
+  private processOptions = new Map<string, ProcessOptions>();
+  private slots = new Map<string, Deno.KvKey>(); // jobId -> limit key it holds a slot in
   private processing = new Set<string>();
   private maxConcurrency = 5;
   private pollInterval = 1000; // 1 second
   private isRunning = false;
   private pollTimeout?: number;
+  private heartbeatInterval = 10000; // 10 seconds
+  private heartbeatTimeout = 30000; // Reap running jobs not renewed for this long
+  private lastReapAt = 0;
+  private controllers = new Map<string, AbortController>(); // jobId -> running attempt
+  private readonly workerId = `${Deno.env.get('DENO_DEPLOYMENT_ID') || 'local'}:${crypto.randomUUID().slice(0, 8)}`;
 
   /**
    * Set maximum concurrent job processing
@@ -124,6 +299,21 @@ export class JobQueue {
     this.pollInterval = ms;
   }
 
+  /**
+   * Set how often running jobs renew their heartbeat and how long a missed
+   * heartbeat is tolerated before the job is returned to the queue
+   */
+  setHeartbeat(intervalMs: number, timeoutMs: number): void {
+    if (intervalMs < 100) {
+      throw new Error('Heartbeat interval must be at least 100ms');
+    }
+    if (timeoutMs <= intervalMs) {
+      throw new Error('Heartbeat timeout must be longer than the interval');
+    }
+    this.heartbeatInterval = intervalMs;
+    this.heartbeatTimeout = timeoutMs;
+  }
+
   /**
    * Initialize the queue
    */
@@ -147,17 +337,28 @@ export class JobQueue {
     const now = new Date();
     const scheduledFor = options.scheduledFor ||
       (options.delay ? new Date(now.getTime() + options.delay) : now);
+    const parentIds = options.dependsOn ?? [];
+
+    for (const parentId of parentIds) {
+      if (!(await this.getJob(parentId))) {
+        throw new Error(`Parent job not found: ${parentId}`);
+      }
+    }
 
     const job: Job<T> = {
       id: jobId,
       name,
       data,
-      status: 'pending',
+      status: parentIds.length > 0 ? 'waiting' : 'pending',
       priority: options.priority || 0,
       attempts: 0,
       maxRetries: options.maxRetries ?? 3,
       createdAt: now.toISOString(),
       scheduledFor: scheduledFor.toISOString(),
+      timeoutMs: options.timeoutMs,
+      parentIds: parentIds.length > 0 ? parentIds : undefined,
+      onParentFailure: parentIds.length > 0 ? options.onParentFailure ?? 'fail' : undefined,
+      flowId: options.flowId,
     };
 
     // Store job
@@ -166,7 +367,14 @@ export class JobQueue {
     // Determine which queue to add to based on scheduled time
     const isScheduled = new Date(scheduledFor) > now;
     
-    if (isScheduled) {
+    if (job.status === 'waiting') {
+      // Not queued yet - released when the last parent finishes
+      const atomic = this.kv!.atomic();
+      for (const parentId of parentIds) {
+        atomic.set(['job_children', parentId, jobId], jobId);
+      }
+      await atomic.commit();
+    } else if (isScheduled) {
       // Add to scheduled queue with timestamp-based key for efficient time-based queries
       const timestamp = new Date(scheduledFor).getTime();
       const score = this.calculateScore(job);
@@ -180,14 +388,127 @@ export class JobQueue {
     // Add to job name index WITH FULL JOB DATA (optimization for listJobs)
     await this.kv!.set(['jobs_by_name', name, jobId], job);
 
+    if (job.flowId) {
+      await this.kv!.set(['jobs_by_flow', job.flowId, jobId], jobId);
+    }
+
+    // Parents may have finished before the child links were written
+    if (job.status === 'waiting') {
+      await this.resolveWaitingJob(jobId);
+    }
+
     return jobId;
   }
 
+  /**
+   * Add a tree of jobs where each child waits for its parent
+   * Children get the parent's result in job.parentResults.
+   */
+  async addFlow(root: FlowJob): Promise<{ flowId: string; root: FlowNode }> {
+    await this.init();
+
+    const flow: FlowRecord = {
+      id: crypto.randomUUID(),
+      name: root.name,
+      rootJobId: '',
+      createdAt: new Date().toISOString(),
+    };
+
+    const addNode = async (node: FlowJob, parentId?: string): Promise<FlowNode> => {
+      const jobId = await this.add(node.name, node.data, {
+        ...node.options,
+        dependsOn: parentId ? [parentId] : undefined,
+        flowId: flow.id,
+      });
+
+      const children: FlowNode[] = [];
+      for (const child of node.children ?? []) {
+        children.push(await addNode(child, jobId));
+      }
+
+      return { jobId, name: node.name, children };
+    };
+
+    const tree = await addNode(root);
+    flow.rootJobId = tree.jobId;
+    await this.kv!.set(['job_flows', flow.id], flow);
+
+    logger.info('Flow added', { flowId: flow.id, name: flow.name });
+    return { flowId: flow.id, root: tree };
+  }
+
+  /**
+   * Get a flow with all of its jobs
+   */
+  async getFlow(flowId: string): Promise<JobFlow | null> {
+    await this.init();
+    const record = await this.kv!.get<FlowRecord>(['job_flows', flowId]);
+    if (!record.value) {
+      return null;
+    }
+
+    const jobs: Job[] = [];
+    const iter = this.kv!.list<string>({ prefix: ['jobs_by_flow', flowId] });
+    for await (const entry of iter) {
+      const job = await this.getJob(entry.value);
+      if (job) {
+        jobs.push(job);
+      } else {
+        await this.kv!.delete(entry.key); // Job was deleted
+      }
+    }
+
+    // All jobs cleaned up - drop the flow record too
+    if (jobs.length === 0) {
+      await this.kv!.delete(record.key);
+      return null;
+    }
+
+    return { ...record.value, jobs };
+  }
+
+  /**
+   * List the most recent flows with their jobs
+   */
+  async listFlows(limit = 20): Promise<JobFlow[]> {
+    await this.init();
+    const records: FlowRecord[] = [];
+
+    const iter = this.kv!.list<FlowRecord>({ prefix: ['job_flows'] });
+    for await (const entry of iter) {
+      records.push(entry.value);
+    }
+
+    records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const flows: JobFlow[] = [];
+    for (const record of records) {
+      if (flows.length >= limit) break;
+      const flow = await this.getFlow(record.id);
+      if (flow) {
+        flows.push(flow);
+      }
+    }
+
+    return flows;
+  }
+
   /**
    * Process jobs of a specific type
+   *
+   * Limits in options apply to all instances processing this job name; jobs
+   * over the limit stay in the ready queue until a slot frees up.
    */
-  process<T>(name: string, handler: JobHandler<T>): void {
+  process<T>(name: string, handler: JobHandler<T>, options: ProcessOptions<T> = {}): void {
+    if (options.concurrency !== undefined && options.concurrency < 1) {
+      throw new Error('Concurrency must be at least 1');
+    }
+    if (options.rateLimit && (options.rateLimit.max < 1 || options.rateLimit.perMs < 1)) {
+      throw new Error('Rate limit max and perMs must be at least 1');
+    }
+
     this.handlers.set(name, handler as JobHandler);
+    this.processOptions.set(name, options as ProcessOptions);
   }
 
   /**
@@ -220,6 +541,21 @@ export class JobQueue {
     return result.value;
   }
 
+  /**
+   * Get log lines written by a job's handler, oldest first across all attempts
+   */
+  async getJobLogs(jobId: string): Promise<JobLogEntry[]> {
+    await this.init();
+    const logs: JobLogEntry[] = [];
+
+    const iter = this.kv!.list<JobLogEntry>({ prefix: ['job_logs', jobId] });
+    for await (const entry of iter) {
+      logs.push(entry.value);
+    }
+
+    return logs;
+  }
+
   /**
    * List jobs with filters (optimized to avoid N+1 queries)
    */
@@ -295,6 +631,8 @@ export class JobQueue {
       running: 0,
       completed: 0,
       failed: 0,
+      cancelled: 0,
+      waiting: 0,
       total: 0,
     };
 
@@ -306,20 +644,22 @@ export class JobQueue {
       else if (job.status === 'running') stats.running++;
       else if (job.status === 'completed') stats.completed++;
       else if (job.status === 'failed') stats.failed++;
+      else if (job.status === 'cancelled') stats.cancelled++;
+      else if (job.status === 'waiting') stats.waiting++;
     }
 
     return stats;
   }
 
   /**
-   * Retry a failed job
+   * Retry a failed or cancelled job
    */
   async retry(jobId: string): Promise<void> {
     await this.init();
     const job = await this.getJob(jobId);
 
-    if (!job || job.status !== 'failed') {
-      throw new Error('Job not found or not in failed state');
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) {
+      throw new Error('Job not found or not in failed/cancelled state');
     }
 
     // Reset job status
@@ -328,6 +668,9 @@ export class JobQueue {
     job.error = undefined;
     job.startedAt = undefined;
     job.completedAt = undefined;
+    job.cancelledAt = undefined;
+    job.progress = undefined;
+    job.result = undefined;
 
     await this.updateJobWithIndex(job);
 
@@ -344,6 +687,114 @@ export class JobQueue {
     }
   }
 
+  /**
+   * Cancel a job
+   *
+   * Queued jobs are removed from the ready/scheduled queue. Running jobs are
+   * marked cancelled and their handler's signal is aborted - immediately on
+   * this instance, on the next heartbeat on other instances.
+   */
+  async cancel(jobId: string): Promise<Job> {
+    await this.init();
+
+    // Retry if the job changes between read and commit (e.g. claimed by a worker)
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const jobEntry = await this.kv!.get<Job>(['jobs', jobId]);
+      const job = jobEntry.value;
+
+      if (!job) {
+        throw new Error('Job not found');
+      }
+
+      if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+        throw new Error(`Job cannot be cancelled in ${job.status} state`);
+      }
+
+      const now = new Date().toISOString();
+      const cancelled: Job = { ...job, status: 'cancelled', cancelledAt: now, completedAt: now };
+      const score = this.calculateScore(job);
+      const timestamp = new Date(job.scheduledFor || job.createdAt).getTime();
+
+      // At most one of the queue entries exists (none while running)
+      const result = await this.kv!.atomic()
+        .check(jobEntry)
+        .set(['jobs', jobId], cancelled)
+        .set(['jobs_by_name', job.name, jobId], cancelled)
+        .delete(['queue', 'ready', score, jobId])
+        .delete(['queue', 'scheduled', timestamp, score, jobId])
+        .commit();
+
+      if (result.ok) {
+        this.controllers.get(jobId)?.abort(new JobCancelledError(jobId));
+        await this.broadcastUpdate(cancelled);
+        await this.releaseDependents(cancelled);
+        logger.info('Job cancelled', { jobId, previousStatus: job.status });
+        return cancelled;
+      }
+    }
+
+    throw new Error('Job was modified concurrently, try again');
+  }
+
+  /**
+   * Return jobs whose worker stopped heartbeating to the ready queue
+   * Jobs that already used all attempts are marked failed instead.
+   *
+   * Runs automatically from the poll loop; returns the number of jobs reaped.
+   */
+  async reapStalledJobs(): Promise<number> {
+    await this.init();
+    const cutoff = Date.now() - this.heartbeatTimeout;
+    let reaped = 0;
+
+    const iter = this.kv!.list<RunningJobEntry>({ prefix: ['queue', 'running'] });
+    for await (const entry of iter) {
+      if (entry.value.heartbeatAt >= cutoff) {
+        continue;
+      }
+
+      const jobEntry = await this.kv!.get<Job>(['jobs', entry.value.jobId]);
+      const job = jobEntry.value;
+      const isStalled = job?.status === 'running';
+
+      // Check both so a late heartbeat or a concurrent cancel wins
+      const atomic = this.kv!.atomic()
+        .check(entry)
+        .check(jobEntry)
+        .delete(entry.key);
+
+      // Deleted or cancelled jobs only need the stale entry removed
+      if (job && isStalled) {
+        job.error = `Worker ${entry.value.workerId} stopped responding`;
+        job.processingBy = undefined;
+
+        if (job.attempts < job.maxRetries) {
+          job.status = 'pending';
+          job.startedAt = undefined;
+          atomic.set(['queue', 'ready', this.calculateScore(job), job.id], job.id);
+        } else {
+          job.status = 'failed';
+          job.completedAt = new Date().toISOString();
+        }
+
+        atomic.set(['jobs', job.id], job);
+        atomic.set(['jobs_by_name', job.name, job.id], job);
+      }
+
+      const result = await atomic.commit();
+      if (result.ok && job && isStalled) {
+        reaped++;
+        logger.warn('Reaped stalled job', { jobId: job.id, workerId: entry.value.workerId, status: job.status });
+        await this.broadcastUpdate(job);
+        if (job.status === 'failed') {
+          await this.releaseDependents(job);
+        }
+      }
+    }
+
+    return reaped;
+  }
+
   /**
    * Delete a job
    */
@@ -359,6 +810,13 @@ export class JobQueue {
     // Remove from all indexes
     atomic.delete(['jobs', jobId]);
     atomic.delete(['jobs_by_name', job.name, jobId]);
+    atomic.delete(['queue', 'running', jobId]);
+    for (const parentId of job.parentIds ?? []) {
+      atomic.delete(['job_children', parentId, jobId]);
+    }
+    if (job.flowId) {
+      atomic.delete(['jobs_by_flow', job.flowId, jobId]);
+    }
 
     // Remove from queues if pending
     if (job.status === 'pending') {
@@ -372,10 +830,21 @@ export class JobQueue {
     }
 
     await atomic.commit();
+    await this.deleteLogs(jobId);
+
+    // Children waiting on this job see it as missing (treated like a failed parent)
+    const children = this.kv!.list<string>({ prefix: ['job_children', jobId] });
+    for await (const entry of children) {
+      await this.kv!.delete(entry.key);
+      await this.resolveWaitingJob(entry.value);
+    }
+
+    // Stop the handler if it is running here
+    this.controllers.get(jobId)?.abort(new JobCancelledError(jobId));
   }
 
   /**
-   * Clear all completed/failed jobs
+   * Clear all completed/failed/cancelled jobs
    */
   async cleanup(olderThan?: Date): Promise<number> {
     await this.init();
@@ -388,7 +857,7 @@ export class JobQueue {
       const completedAt = job.completedAt ? new Date(job.completedAt) : null;
 
       if (
-        (job.status === 'completed' || job.status === 'failed') &&
+        (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') &&
         completedAt &&
         completedAt < cutoff
       ) {
@@ -410,6 +879,12 @@ export class JobQueue {
     try {
       // First, move any scheduled jobs that are now ready
       await this.promoteScheduledJobs();
+
+      // Requeue jobs whose worker died (checked once per heartbeat interval)
+      if (Date.now() - this.lastReapAt >= this.heartbeatInterval) {
+        this.lastReapAt = Date.now();
+        await this.reapStalledJobs();
+      }
       
       // Calculate how many jobs we can process
       const availableSlots = this.maxConcurrency - this.processing.size;
@@ -418,9 +893,10 @@ export class JobQueue {
         // Fetch jobs sequentially to avoid race conditions
         // Each call to getNextJob() atomically claims a job
         const jobs: Job[] = [];
+        const blocked = new Set<string>(); // Limit groups already full this poll
         
         for (let i = 0; i < availableSlots; i++) {
-          const job = await this.getNextJob();
+          const job = await this.getNextJob(blocked);
           if (!job) break; // No more jobs available
           jobs.push(job);
         }
@@ -440,7 +916,7 @@ export class JobQueue {
     }
   }
 
-  private async getNextJob(): Promise<Job | null> {
+  private async getNextJob(blocked: Set<string>): Promise<Job | null> {
     // Get the highest priority job from the ready queue (no need to check time!)
     const iter = this.kv!.list<string>({ prefix: ['queue', 'ready'] });
 
@@ -474,6 +950,24 @@ export class JobQueue {
         continue;
       }
 
+      // Leave jobs for instances that have a handler registered
+      if (!this.handlers.has(job.name)) {
+        continue;
+      }
+
+      // Take a concurrency/rate limit slot before claiming
+      const limitKey = this.getLimitKey(job);
+      const blockKey = limitKey ? JSON.stringify(limitKey) : null;
+      if (limitKey && blockKey) {
+        if (blocked.has(blockKey)) {
+          continue;
+        }
+        if (!(await this.acquireSlot(job, limitKey))) {
+          blocked.add(blockKey);
+          continue;
+        }
+      }
+
       // Atomically remove from queue and mark as claimed
       const atomic = this.kv!.atomic()
         .check(jobEntry) // Ensure job hasn't changed
@@ -483,8 +977,15 @@ export class JobQueue {
       
       if (result.ok) {
         // Successfully claimed the job
+        if (limitKey) {
+          this.slots.set(job.id, limitKey);
+        }
         return job;
       }
+
+      if (limitKey) {
+        await this.releaseSlot(job.id, limitKey);
+      }
       
       // Another worker claimed it first, try next job
       continue;
@@ -553,48 +1054,55 @@ export class JobQueue {
     }
 
     this.processing.add(job.id);
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    let heartbeatId: number | undefined;
+    const context = this.createContext(job, controller.signal);
 
     try {
-      // Mark as running
-      job.status = 'running';
-      job.startedAt = new Date().toISOString();
-      job.attempts++;
-      job.processingBy = Deno.env.get('DENO_DEPLOYMENT_ID') || 'local';
-      
-      // Update both main storage and index atomically
-      await this.updateJobWithIndex(job);
-      
-      // Broadcast job update via WebSocket
-      try {
-        const { broadcastJobUpdate } = await import('./notification-websocket.ts');
-        broadcastJobUpdate(job);
-      } catch (wsError) {
-        // WebSocket broadcast is not critical, just log if it fails
-        logger.debug('WebSocket broadcast failed (non-critical)', { error: wsError });
+      // Mark as running (skipped if the job was cancelled after being claimed)
+      if (!(await this.markRunning(job))) {
+        return;
       }
 
-      // Execute handler
-      await handler(job);
+      // Broadcast job update via WebSocket
+      await this.broadcastUpdate(job);
+
+      heartbeatId = setInterval(() => this.renewHeartbeat(job, controller), this.heartbeatInterval);
+
+      // Execute handler (rejects on timeout or cancellation)
+      const result = await this.runHandler(handler, job, controller, context);
 
       // Mark as completed
       job.status = 'completed';
       job.completedAt = new Date().toISOString();
-      await this.updateJobWithIndex(job);
-      
-      // Broadcast completion
-      try {
-        const { broadcastJobUpdate } = await import('./notification-websocket.ts');
-        broadcastJobUpdate(job);
-      } catch (wsError) {
-        logger.debug('WebSocket broadcast failed (non-critical)', { error: wsError });
+      if (result !== undefined) {
+        job.result = result;
+      }
+      if (job.progress) {
+        job.progress = { ...job.progress, percent: 100, updatedAt: job.completedAt };
+      }
+
+      if (await this.finishJob(job)) {
+        await this.broadcastUpdate(job);
+        await this.releaseDependents(job);
       }
     } catch (error) {
+      if (controller.signal.reason instanceof JobCancelledError) {
+        // cancel() already stored the final state - just drop the heartbeat
+        await this.finishJob(job);
+        logger.info('Job aborted after cancellation', { jobId: job.id });
+        return;
+      }
+
       logger.error('Job failed', { jobId: job.id, error });
 
+      job.error = error instanceof Error ? error.message : String(error);
+      let scheduledKey: Deno.KvKey | undefined;
+
       // Check if we should retry
       if (job.attempts < job.maxRetries) {
         job.status = 'retrying';
-        job.error = error instanceof Error ? error.message : String(error);
 
         // Exponential backoff
         const delay = Math.min(1000 * Math.pow(2, job.attempts), 60000);
@@ -603,25 +1111,491 @@ export class JobQueue {
         // Re-add to scheduled queue (will be promoted to ready when time comes)
         const score = this.calculateScore(job);
         const timestamp = new Date(job.scheduledFor).getTime();
-        await this.kv!.set(['queue', 'scheduled', timestamp, score, job.id], job.id);
+        scheduledKey = ['queue', 'scheduled', timestamp, score, job.id];
       } else {
         // Max retries reached, mark as failed
         job.status = 'failed';
-        job.error = error instanceof Error ? error.message : String(error);
         job.completedAt = new Date().toISOString();
       }
 
-      await this.updateJobWithIndex(job);
-      
       // Broadcast error/retry status
-      try {
-        const { broadcastJobUpdate } = await import('./notification-websocket.ts');
-        broadcastJobUpdate(job);
-      } catch (wsError) {
-        console.debug('WebSocket broadcast failed (non-critical):', wsError);
+      if (await this.finishJob(job, scheduledKey)) {
+        await this.broadcastUpdate(job);
+        if (job.status === 'failed') {
+          await this.releaseDependents(job);
+        }
       }
     } finally {
+      clearInterval(heartbeatId);
+      context.dispose();
+      this.controllers.delete(job.id);
       this.processing.delete(job.id);
+
+      const limitKey = this.slots.get(job.id);
+      if (limitKey) {
+        this.slots.delete(job.id);
+        await this.releaseSlot(job.id, limitKey);
+      }
+    }
+  }
+
+  /**
+   * Run a handler, rejecting as soon as the attempt times out or is cancelled
+   * The handler keeps running in the background if it ignores the signal.
+   */
+  private async runHandler(
+    handler: JobHandler,
+    job: Job,
+    controller: AbortController,
+    context: JobContext,
+  ): Promise<unknown> {
+    const { signal } = controller;
+    if (signal.aborted) {
+      throw signal.reason;
+    }
+
+    const aborted = new Promise<never>((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    });
+
+    let timeoutId: number | undefined;
+    if (job.timeoutMs) {
+      const timeoutMs = job.timeoutMs;
+      timeoutId = setTimeout(() => controller.abort(new JobTimeoutError(timeoutMs)), timeoutMs);
+    }
+
+    try {
+      return await Promise.race([handler(job, context), aborted]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Mark a claimed job as running and register its heartbeat
+   * Returns false if the job was cancelled or deleted after it was claimed.
+   */
+  private async markRunning(job: Job): Promise<boolean> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const jobEntry = await this.kv!.get<Job>(['jobs', job.id]);
+      if (!jobEntry.value || jobEntry.value.status === 'cancelled') {
+        return false;
+      }
+
+      Object.assign(job, jobEntry.value);
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+      job.attempts++;
+      job.processingBy = this.workerId;
+      job.progress = undefined;
+
+      const heartbeat: RunningJobEntry = { jobId: job.id, workerId: this.workerId, heartbeatAt: Date.now() };
+
+      // Job, index and heartbeat change together so the reaper never sees a
+      // running job without a heartbeat
+      const result = await this.kv!.atomic()
+        .check(jobEntry)
+        .set(['jobs', job.id], job)
+        .set(['jobs_by_name', job.name, job.id], job)
+        .set(['queue', 'running', job.id], heartbeat)
+        .commit();
+
+      if (result.ok) {
+        return true;
+      }
+    }
+
+    logger.warn('Could not mark job as running', { jobId: job.id });
+    return false;
+  }
+
+  /**
+   * Renew a running job's heartbeat and pick up cancellations made on other instances
+   */
+  private async renewHeartbeat(job: Job, controller: AbortController): Promise<void> {
+    try {
+      const current = await this.getJob(job.id);
+
+      if (!current || current.status === 'cancelled') {
+        controller.abort(new JobCancelledError(job.id));
+        return;
+      }
+
+      // Reaped and picked up again elsewhere - the new owner keeps the heartbeat
+      if (!this.isOwner(current, job)) {
+        return;
+      }
+
+      const heartbeat: RunningJobEntry = { jobId: job.id, workerId: this.workerId, heartbeatAt: Date.now() };
+      await this.kv!.set(['queue', 'running', job.id], heartbeat);
+
+      const limitKey = this.slots.get(job.id);
+      if (limitKey) {
+        await this.renewSlot(job.id, limitKey);
+      }
+    } catch (error) {
+      logger.warn('Failed to renew job heartbeat', { jobId: job.id, error });
+    }
+  }
+
+  /**
+   * Store the outcome of an attempt and remove its heartbeat
+   *
+   * Nothing is stored if this attempt no longer owns the job - it was
+   * cancelled, deleted or reaped while the handler ran. Returns whether the
+   * outcome was stored.
+   */
+  private async finishJob(job: Job, scheduledKey?: Deno.KvKey): Promise<boolean> {
+    const runningKey: Deno.KvKey = ['queue', 'running', job.id];
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const jobEntry = await this.kv!.get<Job>(['jobs', job.id]);
+      const current = jobEntry.value;
+
+      if (!this.isOwner(current, job)) {
+        const heartbeat = await this.kv!.get<RunningJobEntry>(runningKey);
+        if (heartbeat.value?.workerId === this.workerId) {
+          await this.kv!.atomic().check(heartbeat).delete(runningKey).commit();
+        }
+        return false;
+      }
+
+      const atomic = this.kv!.atomic()
+        .check(jobEntry)
+        .set(['jobs', job.id], job)
+        .set(['jobs_by_name', job.name, job.id], job)
+        .delete(runningKey);
+
+      if (scheduledKey) {
+        atomic.set(scheduledKey, job.id);
+      }
+
+      const result = await atomic.commit();
+      if (result.ok) {
+        return true;
+      }
+    }
+
+    logger.warn('Could not store job result', { jobId: job.id, status: job.status });
+    return false;
+  }
+
+  /**
+   * Whether the stored job is still the attempt this worker is running
+   */
+  private isOwner(current: Job | null, job: Job): boolean {
+    return current?.status === 'running' &&
+      current.processingBy === this.workerId &&
+      current.attempts === job.attempts;
+  }
+
+  /**
+   * Build the context passed to a handler for one attempt
+   * dispose() drops any pending throttled progress write.
+   */
+  private createContext(job: Job, signal: AbortSignal): JobContext & { dispose(): void } {
+    let lastProgressAt = 0;
+    let progressTimeout: number | undefined;
+    let logCount = 0;
+
+    const flushProgress = async () => {
+      progressTimeout = undefined;
+      lastProgressAt = Date.now();
+      await this.saveProgress(job);
+    };
+
+    return {
+      signal,
+
+      updateProgress: async (percent: number, message?: string) => {
+        if (!Number.isFinite(percent)) {
+          throw new Error('Progress must be a number between 0 and 100');
+        }
+
+        job.progress = {
+          percent: Math.min(100, Math.max(0, Math.round(percent))),
+          message,
+          updatedAt: new Date().toISOString(),
+        };
+
+        // Store now, or once the throttle window ends (latest value wins)
+        const wait = lastProgressAt + PROGRESS_THROTTLE_MS - Date.now();
+        if (wait <= 0) {
+          clearTimeout(progressTimeout);
+          await flushProgress();
+        } else if (progressTimeout === undefined) {
+          progressTimeout = setTimeout(() => {
+            flushProgress().catch((error) => logger.warn('Failed to store job progress', { jobId: job.id, error }));
+          }, wait);
+        }
+      },
+
+      log: async (line: string) => {
+        if (logCount >= MAX_LOG_LINES) {
+          return;
+        }
+
+        const entry: JobLogEntry = {
+          attempt: job.attempts,
+          line: logCount === MAX_LOG_LINES - 1
+            ? `Log limit of ${MAX_LOG_LINES} lines reached - further lines are dropped`
+            : String(line).slice(0, MAX_LOG_LINE_LENGTH),
+          timestamp: new Date().toISOString(),
+        };
+
+        await this.kv!.set(['job_logs', job.id, job.attempts, logCount], entry);
+        logCount++;
+
+        try {
+          const { broadcastJobLog } = await import('./notification-websocket.ts');
+          broadcastJobLog(job.id, entry);
+        } catch (wsError) {
+          logger.debug('WebSocket broadcast failed (non-critical)', { error: wsError });
+        }
+      },
+
+      dispose: () => {
+        clearTimeout(progressTimeout);
+        progressTimeout = undefined;
+      },
+    };
+  }
+
+  /**
+   * Store the attempt's latest progress and broadcast it
+   * Skipped once the attempt no longer owns the job (finished, cancelled or reaped).
+   */
+  private async saveProgress(job: Job): Promise<void> {
+    const jobEntry = await this.kv!.get<Job>(['jobs', job.id]);
+    if (!jobEntry.value || !this.isOwner(jobEntry.value, job)) {
+      return;
+    }
+
+    // Only the progress field changes - the rest is written when the attempt ends
+    const updated: Job = { ...jobEntry.value, progress: job.progress };
+    const result = await this.kv!.atomic()
+      .check(jobEntry)
+      .set(['jobs', job.id], updated)
+      .set(['jobs_by_name', job.name, job.id], updated)
+      .commit();
+
+    if (!result.ok || !job.progress) {
+      return;
+    }
+
+    try {
+      const { broadcastJobProgress } = await import('./notification-websocket.ts');
+      broadcastJobProgress(job.id, job.progress);
+    } catch (wsError) {
+      logger.debug('WebSocket broadcast failed (non-critical)', { error: wsError });
+    }
+  }
+
+  private async deleteLogs(jobId: string): Promise<void> {
+    const iter = this.kv!.list({ prefix: ['job_logs', jobId] });
+    for await (const entry of iter) {
+      await this.kv!.delete(entry.key);
+    }
+  }
+
+  /**
+   * Re-check children waiting on a job that reached a final state
+   * Errors are logged - the parent's own outcome is already stored.
+   */
+  private async releaseDependents(job: Job): Promise<void> {
+    try {
+      const iter = this.kv!.list<string>({ prefix: ['job_children', job.id] });
+      for await (const entry of iter) {
+        await this.resolveWaitingJob(entry.value);
+      }
+    } catch (error) {
+      logger.error('Failed to release dependent jobs', { jobId: job.id, error });
+    }
+  }
+
+  /**
+   * Queue a waiting job once all of its parents have finished
+   *
+   * A failed, cancelled or deleted parent fails the job unless its policy is
+   * 'continue'; a failed job releases its own children in turn.
+   */
+  private async resolveWaitingJob(jobId: string): Promise<void> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const jobEntry = await this.kv!.get<Job>(['jobs', jobId]);
+      const job = jobEntry.value;
+      if (!job || job.status !== 'waiting') {
+        return;
+      }
+
+      const parentIds = job.parentIds ?? [];
+      const parents = await Promise.all(parentIds.map((id) => this.getJob(id)));
+
+      // Still waiting on at least one parent
+      if (parents.some((parent) => parent && !FINAL_STATUSES.includes(parent.status))) {
+        return;
+      }
+
+      const failedIndex = parents.findIndex((parent) => parent?.status !== 'completed');
+      const atomic = this.kv!.atomic().check(jobEntry);
+
+      if (failedIndex !== -1 && job.onParentFailure !== 'continue') {
+        const parent = parents[failedIndex];
+        job.status = 'failed';
+        job.error = `Parent job ${parentIds[failedIndex]} ${parent ? parent.status : 'was deleted'}`;
+        job.completedAt = new Date().toISOString();
+      } else {
+        job.status = 'pending';
+        job.parentResults = {};
+        parents.forEach((parent, i) => {
+          if (parent?.status === 'completed') {
+            job.parentResults![parentIds[i]!] = parent.result;
+          }
+        });
+
+        const score = this.calculateScore(job);
+        const scheduledFor = new Date(job.scheduledFor || job.createdAt);
+        if (scheduledFor.getTime() > Date.now()) {
+          atomic.set(['queue', 'scheduled', scheduledFor.getTime(), score, jobId], jobId);
+        } else {
+          atomic.set(['queue', 'ready', score, jobId], jobId);
+        }
+      }
+
+      atomic.set(['jobs', jobId], job);
+      atomic.set(['jobs_by_name', job.name, jobId], job);
+
+      const result = await atomic.commit();
+      if (result.ok) {
+        await this.broadcastUpdate(job);
+        if (job.status === 'failed') {
+          await this.releaseDependents(job);
+        }
+        return;
+      }
+    }
+
+    logger.warn('Could not release waiting job', { jobId });
+  }
+
+  /**
+   * KV key holding the shared limit state for a job, or null if its
+   * handler has no concurrency or rate limit
+   */
+  private getLimitKey(job: Job): Deno.KvKey | null {
+    const options = this.processOptions.get(job.name);
+    if (!options || (options.concurrency === undefined && !options.rateLimit)) {
+      return null;
+    }
+
+    let group = '';
+    if (options.groupKey) {
+      try {
+        group = options.groupKey(job) ?? '';
+      } catch (error) {
+        logger.warn('Job group key failed, using the default group', { jobId: job.id, error });
+      }
+    }
+
+    return ['queue_limits', job.name, group];
+  }
+
+  /**
+   * Read-modify-write the limit state for a key
+   * Expired slot leases and starts outside the rate window are dropped first.
+   * Returns false if mutate declined or the write kept conflicting.
+   */
+  private async updateLimitState(
+    key: Deno.KvKey,
+    mutate: (state: LimitState, now: number) => boolean,
+  ): Promise<boolean> {
+    const options = this.processOptions.get(key[1] as string) ?? {};
+    const windowMs = options.rateLimit?.perMs ?? 0;
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const entry = await this.kv!.get<LimitState>(key);
+      const now = Date.now();
+      const state: LimitState = entry.value ?? { active: {}, starts: [] };
+
+      for (const [jobId, expiresAt] of Object.entries(state.active)) {
+        if (expiresAt <= now) {
+          delete state.active[jobId];
+        }
+      }
+      state.starts = state.starts.filter((startedAt) => startedAt > now - windowMs);
+
+      if (!mutate(state, now)) {
+        return false;
+      }
+
+      const result = await this.kv!.atomic()
+        .check(entry)
+        .set(key, state, { expireIn: Math.max(windowMs, this.heartbeatTimeout) * 2 })
+        .commit();
+      if (result.ok) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Take a concurrency slot and a rate limit start for a job
+   * Slots are leased for heartbeatTimeout so a crashed worker's slots free up.
+   */
+  private acquireSlot(job: Job, key: Deno.KvKey): Promise<boolean> {
+    const options = this.processOptions.get(job.name) ?? {};
+
+    return this.updateLimitState(key, (state, now) => {
+      if (options.concurrency !== undefined && Object.keys(state.active).length >= options.concurrency) {
+        return false;
+      }
+      if (options.rateLimit && state.starts.length >= options.rateLimit.max) {
+        return false;
+      }
+
+      state.active[job.id] = now + this.heartbeatTimeout;
+      if (options.rateLimit) {
+        state.starts.push(now);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Extend a running job's slot lease alongside its heartbeat
+   */
+  private async renewSlot(jobId: string, key: Deno.KvKey): Promise<void> {
+    await this.updateLimitState(key, (state, now) => {
+      state.active[jobId] = now + this.heartbeatTimeout;
+      return true;
+    });
+  }
+
+  /**
+   * Free a job's concurrency slot (its rate limit start stays until the window passes)
+   */
+  private async releaseSlot(jobId: string, key: Deno.KvKey): Promise<void> {
+    try {
+      await this.updateLimitState(key, (state) => {
+        delete state.active[jobId];
+        return true;
+      });
+    } catch (error) {
+      logger.error('Failed to release job slot', { jobId, error });
+    }
+  }
+
+  /**
+   * Broadcast job update via WebSocket
+   * WebSocket broadcast is not critical, just log if it fails
+   */
+  private async broadcastUpdate(job: Job): Promise<void> {
+    try {
+      const { broadcastJobUpdate } = await import('./notification-websocket.ts');
+      broadcastJobUpdate(job);
+    } catch (wsError) {
+      logger.debug('WebSocket broadcast failed (non-critical)', { error: wsError });
     }
   }
 
@@ -0,0 +1,427 @@
+/**
+ * KV-backed Rate Limiting
+ *
+ * Sliding window counter stored in Deno KV so limits hold across isolates:
+ * - Two fixed-window buckets per identity (current + previous)
+ * - Previous bucket weighted by how much of it still overlaps the window
+ * - Optimistic atomic increments (versionstamp check + retry)
+ * - A request is only counted when every matching rule allows it
+ *
+ * Keys: ['ratelimit', ruleName, ...identityParts, windowStart]
+ * Clear all limiter state with `deno task reset-rate-limits`.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter();
+ * const rules = findRateLimitRules('POST', '/api/auth/login');
+ * const result = await limiter.checkAll(rules, { ip: '203.0.113.7', email: 'a@b.com' });
+ * if (!result.allowed) throw new RateLimitError(undefined, result.retryAfter, result.limit);
+ * ```
+ */
+
+import { getKv } from './kv.ts';
+import { createLogger } from './logger.ts';
+
+const logger = createLogger('RateLimit');
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Identity parts a rule can key on
+ * - ip: client IP address
+ * - user: authenticated user ID (falls back to IP for anonymous requests)
+ * - email: `email` field of the JSON body (rule is skipped when absent)
+ */
+export type RateLimitKeyPart = 'ip' | 'user' | 'email';
+
+export interface RateLimitRule {
+  /** Unique rule name, used as the KV key namespace */
+  name: string;
+  /** Route pathname - exact match, or prefix match when ending with '/' */
+  path: string;
+  /** HTTP methods the rule applies to */
+  methods: string[];
+  /** Identity parts combined into the bucket key (route is implied by name) */
+  keyBy: RateLimitKeyPart[];
+  /** Maximum requests per window */
+  max: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
+export interface RateLimitIdentity {
+  ip: string;
+  userId?: string | undefined;
+  email?: string | undefined;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the window fully resets */
+  resetIn: number;
+  /** Seconds to wait before retrying (0 when allowed) */
+  retryAfter: number;
+  /** Rule that produced this result */
+  rule: string;
+  windowMs: number;
+}
+
+export interface RateLimiterOptions {
+  /** Optional KV instance for testing */
+  kv?: Deno.Kv | undefined;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Per-route rate limit rules
+ * Every matching rule is enforced; the most restrictive result wins.
+ */
+export const RATE_LIMIT_RULES: RateLimitRule[] = [
+  // Login - per IP, and per account from one IP. Not per account alone: anyone could
+  // then lock a victim out; guessing across IPs is stopped by the account lockout
+  { name: 'login-ip', path: '/api/auth/login', methods: ['POST'], keyBy: ['ip'], max: 20, windowMs: 15 * MINUTE },
+  { name: 'login-account', path: '/api/auth/login', methods: ['POST'], keyBy: ['ip', 'email'], max: 10, windowMs: 15 * MINUTE },
+
+  // Second factor - codes are only 6 digits, keep attempts low
+  { name: 'login-2fa', path: '/api/auth/login/2fa', methods: ['POST'], keyBy: ['ip'], max: 10, windowMs: 15 * MINUTE },
+  { name: '2fa', path: '/api/2fa/', methods: ['POST'], keyBy: ['user'], max: 10, windowMs: 15 * MINUTE },
+
+  // Passkey ceremonies - each verification is a sign-in attempt
+  { name: 'webauthn', path: '/api/auth/webauthn/', methods: ['POST', 'DELETE'], keyBy: ['ip'], max: 20, windowMs: 15 * MINUTE },
+
+  // Social sign-in - each start stores state, each callback and code exchange is a sign-in attempt
+  { name: 'oidc', path: '/api/auth/oidc/', methods: ['GET', 'POST'], keyBy: ['ip'], max: 30, windowMs: 15 * MINUTE },
+
+  // Account creation and recovery
+  { name: 'signup', path: '/api/auth/signup', methods: ['POST'], keyBy: ['ip'], max: 5, windowMs: 60 * MINUTE },
+  { name: 'forgot-password-ip', path: '/api/auth/forgot-password', methods: ['POST'], keyBy: ['ip'], max: 10, windowMs: 60 * MINUTE },
+  { name: 'forgot-password-account', path: '/api/auth/forgot-password', methods: ['POST'], keyBy: ['email'], max: 3, windowMs: 60 * MINUTE },
+  { name: 'reset-password', path: '/api/auth/reset-password', methods: ['POST'], keyBy: ['ip'], max: 10, windowMs: 60 * MINUTE },
+  { name: 'resend-verification', path: '/api/auth/resend-verification', methods: ['POST'], keyBy: ['ip', 'email'], max: 3, windowMs: 60 * MINUTE },
+
+  // General API budget per user (or IP when anonymous)
+  { name: 'api', path: '/api/', methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'], keyBy: ['user'], max: 300, windowMs: MINUTE },
+];
+
+/**
+ * Paths excluded from rate limiting (long-lived connections, token plumbing)
+ */
+const EXCLUDED_PATHS = [
+  '/api/notifications/ws',
+  '/api/auth/verify',
+  '/api/auth/refresh',
+  '/api/auth/csrf-token',
+];
+
+/**
+ * Attempts at committing an increment before giving up under contention
+ */
+const MAX_COMMIT_RETRIES = 5;
+
+// ============================================================================
+// Rule Matching
+// ============================================================================
+
+/**
+ * Find all rules that apply to a request
+ */
+export function findRateLimitRules(
+  method: string,
+  pathname: string,
+  rules: RateLimitRule[] = RATE_LIMIT_RULES,
+): RateLimitRule[] {
+  if (EXCLUDED_PATHS.includes(pathname)) {
+    return [];
+  }
+
+  return rules.filter((rule) => {
+    if (!rule.methods.includes(method.toUpperCase())) {
+      return false;
+    }
+    return rule.path.endsWith('/')
+      ? pathname.startsWith(rule.path)
+      : pathname === rule.path;
+  });
+}
+
+/**
+ * Whether any of the rules needs the request body (email keyed rules)
+ */
+export function rulesNeedEmail(rules: RateLimitRule[]): boolean {
+  return rules.some((rule) => rule.keyBy.includes('email'));
+}
+
+/**
+ * Resolve the client IP for rate limiting
+ * Forwarding headers are only trusted when TRUST_PROXY=true, since
+ * clients can otherwise spoof them to get a fresh bucket per request.
+ */
+export function getClientIp(req: Request, remoteAddr?: Deno.Addr): string {
+  if (Deno.env.get('TRUST_PROXY') === 'true') {
+    const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+    if (forwarded) return forwarded;
+
+    const realIp = req.headers.get('x-real-ip');
+    if (realIp) return realIp;
+  }
+
+  if (remoteAddr && 'hostname' in remoteAddr) {
+    return remoteAddr.hostname;
+  }
+
+  return 'unknown';
+}
+
+/**
+ * Coarse network for an IP address: the /24 for IPv4, the /48 for IPv6
+ * Used to tell "same place, new address" from a genuinely new location.
+ * Returns null for missing or unparseable addresses.
+ */
+export function getIpNetwork(ipAddress: string | null | undefined): string | null {
+  if (!ipAddress || ipAddress === 'unknown') {
+    return null;
+  }
+
+  // IPv4, including IPv4-mapped IPv6 (::ffff:203.0.113.7)
+  const ipv4 = ipAddress.match(/(?:^|:)(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+  if (ipv4) {
+    return `${ipv4[1]}.${ipv4[2]}.${ipv4[3]}.0/24`;
+  }
+
+  if (!/^[0-9a-f:]+$/i.test(ipAddress)) {
+    return null;
+  }
+
+  // Expand "::" so the first three groups are always present
+  const [head = '', tail] = ipAddress.split('::');
+  const groups = head ? head.split(':') : [];
+  if (tail !== undefined) {
+    const tailGroups = tail ? tail.split(':') : [];
+    groups.push(...Array(Math.max(0, 8 - groups.length - tailGroups.length)).fill('0'), ...tailGroups);
+  }
+
+  const prefix = groups.slice(0, 3).map((group) => parseInt(group || '0', 16).toString(16));
+  return `${prefix.join(':')}::/48`;
+}
+
+// ============================================================================
+// Response Headers
+// ============================================================================
+
+/**
+ * Build standard rate limit headers (IETF draft RateLimit fields)
+ * Retry-After is only included on blocked requests.
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(result.resetIn),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+  };
+
+  if (!result.allowed) {
+    headers['Retry-After'] = String(result.retryAfter);
+  }
+
+  return headers;
+}
+
+// ============================================================================
+// Rate Limiter
+// ============================================================================
+
+export class RateLimiter {
+  private kv: Deno.Kv | null;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.kv = options.kv ?? null;
+  }
+
+  private async getKv(): Promise<Deno.Kv> {
+    if (!this.kv) {
+      this.kv = await getKv();
+    }
+    return this.kv;
+  }
+
+  /**
+   * Build the identity portion of the bucket key
+   * Returns null when the rule cannot be applied to this request
+   */
+  private resolveKeyParts(rule: RateLimitRule, identity: RateLimitIdentity): string[] | null {
+    const parts: string[] = [];
+
+    for (const part of rule.keyBy) {
+      switch (part) {
+        case 'ip':
+          parts.push(`ip:${identity.ip}`);
+          break;
+        case 'user':
+          parts.push(identity.userId ? `user:${identity.userId}` : `ip:${identity.ip}`);
+          break;
+        case 'email':
+          if (!identity.email) return null;
+          parts.push(`email:${identity.email.trim().toLowerCase()}`);
+          break;
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Check a single rule and count the request if allowed
+   * Returns null when the rule does not apply to this identity
+   */
+  async check(
+    rule: RateLimitRule,
+    identity: RateLimitIdentity,
+    now: number = Date.now(),
+  ): Promise<RateLimitResult | null> {
+    return await this.checkAll([rule], identity, now);
+  }
+
+  /**
+   * Check every applicable rule and count the request if all allow it
+   * Returns the blocking result if any rule denies (nothing is counted then),
+   * otherwise the result with the fewest remaining requests (used for
+   * response headers). Returns null when no rule applies.
+   */
+  async checkAll(
+    rules: RateLimitRule[],
+    identity: RateLimitIdentity,
+    now: number = Date.now(),
+  ): Promise<RateLimitResult | null> {
+    const buckets = rules.flatMap((rule) => {
+      const keyParts = this.resolveKeyParts(rule, identity);
+      return keyParts ? [{ rule, keyParts }] : [];
+    });
+    if (buckets.length === 0) {
+      return null;
+    }
+
+    const kv = await this.getKv();
+
+    for (let attempt = 0; attempt < MAX_COMMIT_RETRIES; attempt++) {
+      const states = await Promise.all(buckets.map(({ rule, keyParts }) => this.readBucket(kv, rule, keyParts, now)));
+
+      const denied = states.find((state) => !state.result.allowed);
+      if (denied) {
+        logger.warn('Rate limit exceeded', { rule: denied.result.rule, ip: identity.ip, userId: identity.userId });
+        return denied.result;
+      }
+
+      // Count against every bucket at once, so a request is never half counted
+      const atomic = kv.atomic();
+      for (const { rule, current } of states) {
+        atomic.check(current).set(current.key, (current.value ?? 0) + 1, { expireIn: rule.windowMs * 2 });
+      }
+
+      if ((await atomic.commit()).ok) {
+        return tightest(states.map((state) => state.result));
+      }
+    }
+
+    // Persistent contention on a bucket - let the request through rather
+    // than failing legitimate users, but make it visible
+    logger.warn('Rate limit commit contention, allowing request', { rules: buckets.map(({ rule }) => rule.name) });
+    const states = await Promise.all(buckets.map(({ rule, keyParts }) => this.readBucket(kv, rule, keyParts, now)));
+    return tightest(states.map((state) => ({ ...state.result, allowed: true, remaining: 0, retryAfter: 0 })));
+  }
+
+  /**
+   * Clear all buckets of a rule for an identity (e.g. after a successful login)
+   */
+  async reset(rule: RateLimitRule, identity: RateLimitIdentity): Promise<void> {
+    const keyParts = this.resolveKeyParts(rule, identity);
+    if (!keyParts) return;
+
+    const kv = await this.getKv();
+    const entries = kv.list({ prefix: ['ratelimit', rule.name, ...keyParts] });
+    for await (const entry of entries) {
+      await kv.delete(entry.key);
+    }
+  }
+
+  /**
+   * Read a rule's buckets and work out whether one more request fits
+   */
+  private async readBucket(
+    kv: Deno.Kv,
+    rule: RateLimitRule,
+    keyParts: string[],
+    now: number,
+  ): Promise<{ rule: RateLimitRule; current: Deno.KvEntryMaybe<number>; result: RateLimitResult }> {
+    const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+    const currentKey: Deno.KvKey = ['ratelimit', rule.name, ...keyParts, windowStart];
+    const previousKey: Deno.KvKey = ['ratelimit', rule.name, ...keyParts, windowStart - rule.windowMs];
+
+    // Weight of the previous window that still overlaps the sliding window
+    const elapsed = now - windowStart;
+    const previousWeight = (rule.windowMs - elapsed) / rule.windowMs;
+    const resetIn = Math.ceil((rule.windowMs - elapsed) / 1000) || 1;
+
+    const [previous, current] = await kv.getMany<[number, number]>([previousKey, currentKey]);
+    const previousCount = previous.value ?? 0;
+    const currentCount = current.value ?? 0;
+    const estimated = previousCount * previousWeight + currentCount;
+    const allowed = estimated + 1 <= rule.max;
+
+    return {
+      rule,
+      current,
+      result: {
+        allowed,
+        limit: rule.max,
+        remaining: allowed ? Math.max(0, Math.floor(rule.max - estimated - 1)) : 0,
+        resetIn,
+        retryAfter: allowed ? 0 : this.computeRetryAfter(rule, now, windowStart, previousCount, currentCount),
+        rule: rule.name,
+        windowMs: rule.windowMs,
+      },
+    };
+  }
+
+  /**
+   * Seconds until the sliding estimate drops below the limit again
+   */
+  private computeRetryAfter(
+    rule: RateLimitRule,
+    now: number,
+    windowStart: number,
+    previousCount: number,
+    currentCount: number,
+  ): number {
+    const windowEnd = windowStart + rule.windowMs;
+
+    // Current window alone is full - wait for it to roll into "previous"
+    // and decay enough to admit one more request
+    if (currentCount + 1 > rule.max || previousCount === 0) {
+      const nextWeightNeeded = (rule.max - 1) / Math.max(currentCount, 1);
+      const decayMs = Math.max(0, 1 - nextWeightNeeded) * rule.windowMs;
+      return Math.max(1, Math.ceil((windowEnd + decayMs - now) / 1000));
+    }
+
+    // Previous window decays linearly: previous * (1 - t/W) + current + 1 <= max
+    const requiredWeight = (rule.max - 1 - currentCount) / previousCount;
+    const retryAt = windowStart + (1 - requiredWeight) * rule.windowMs;
+    return Math.max(1, Math.ceil((retryAt - now) / 1000));
+  }
+}
+
+/**
+ * The result with the fewest remaining requests
+ */
+function tightest(results: RateLimitResult[]): RateLimitResult {
+  return results.reduce((tightest, result) => result.remaining < tightest.remaining ? result : tightest);
+}
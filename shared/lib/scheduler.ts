@@ -2,10 +2,14 @@
  * Job Scheduler for Cron Jobs
  *
  * Features:
- * - Cron-style scheduling
+ * - Cron-style scheduling (ranges, steps, names, L/W/#, @daily-style macros)
  * - Named schedules (easy to manage)
- * - Timezone support
+ * - IANA timezone support, DST aware
  * - One-time and recurring schedules
+ * - Runs on one instance at a time: the scheduler lease holder fires
+ *   schedules and each tick is claimed in KV so it runs exactly once
+ * - Misfire policies for ticks missed while no instance was running
+ * - Bounded run history per schedule
  *
  * @example
  * ```typescript
@@ -21,12 +25,16 @@
  *   await processWebhooks();
  * });
  *
+ * // Weekdays at 9 AM New York time
+ * scheduler.schedule('daily-digest', '0 9 * * MON-FRI', sendDigest, { timezone: 'America/New_York' });
+ *
  * // Start scheduler
  * await scheduler.start();
  * ```
  */
 
 import { getKv } from './kv.ts';
+import { LeaderLease, type LeaseRecord } from './leader-lease.ts';
 import { createLogger } from './logger.ts';
 
 const logger = createLogger('Scheduler');
@@ -35,17 +43,35 @@ const logger = createLogger('Scheduler');
 // Types
 // ============================================================================
 
+/**
+ * What to do with ticks missed while no instance was running the schedule
+ * - skip: wait for the next tick
+ * - run-once: run once to catch up, then carry on from now
+ * - run-all: run every missed tick, oldest first, up to maxCatchUp
+ */
+export type MisfirePolicy = 'skip' | 'run-once' | 'run-all';
+
+export interface ScheduleOptions {
+  timezone?: string;
+  enabled?: boolean;
+  misfirePolicy?: MisfirePolicy;
+  maxCatchUp?: number;
+}
+
 export interface ScheduleConfig {
   name: string;
   cron: string;
   handler: () => Promise<void>;
   timezone?: string;
   enabled?: boolean;
+  misfirePolicy?: MisfirePolicy;
+  maxCatchUp?: number;
 }
 
 export interface Schedule extends ScheduleConfig {
   nextRun?: Date;
   lastRun?: Date;
+  lastTick?: Date; // Cron tick of the latest scheduled (or catch-up) run; misfires count from here
   runCount: number;
 }
 
@@ -60,93 +86,418 @@ export interface PersistedScheduleData {
   jobData: Record<string, unknown>;
   timezone: string;
   enabled: boolean;
+  misfirePolicy?: MisfirePolicy; // Missing on schedules saved before misfire policies
+  maxCatchUp?: number;
   nextRun?: string;
   lastRun?: string;
+  lastTick?: string; // Missing on schedules saved before it was recorded
   runCount: number;
 }
 
+export type ScheduleRunTrigger = 'schedule' | 'catch-up' | 'manual';
+
+/**
+ * One execution of a schedule, stored under ['schedule_runs', name, startedAt, id]
+ */
+export interface ScheduleRun {
+  id: string;
+  scheduleName: string;
+  trigger: ScheduleRunTrigger;
+  scheduledFor?: string; // Cron tick the run belongs to (not set for manual runs)
+  startedAt: string;
+  finishedAt?: string;
+  status: 'running' | 'completed' | 'failed';
+  error?: string;
+  instanceId: string;
+}
+
+/**
+ * Recreates the handler of a persisted schedule from its job name and data
+ */
+export type ScheduleHandlerFactory = (jobName: string, jobData: Record<string, unknown>) => () => Promise<void>;
+
+// How long a claimed tick is remembered - far longer than any leader handover
+const TICK_CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_MISFIRE_POLICY: MisfirePolicy = 'run-once';
+const DEFAULT_MAX_CATCH_UP = 10;
+const MAX_RUN_HISTORY = 50; // Runs kept per schedule
+
 // ============================================================================
 // Cron Parser
 // ============================================================================
 
-class CronParser {
+/**
+ * Parsed cron expression
+ */
+interface CronFields {
+  minutes: number[]; // Sorted
+  hours: number[]; // Sorted
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>; // 0 = Sunday
+  lastDay: boolean; // L
+  lastWeekday: boolean; // LW
+  nearestWeekdays: number[]; // 15W - weekday nearest the 15th
+  lastWeekdaysOf: number[]; // 5L - last Friday of the month
+  nthWeekdays: Array<[weekday: number, n: number]>; // 1#2 - second Monday of the month
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+};
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  SUN: 0, MON: 1, TUE: 2, WED: 3, THU: 4, FRI: 5, SAT: 6,
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Longest gap between matches of a valid expression is Feb 29 across a skipped leap year
+const MAX_SEARCH_YEARS = 10;
+
+export class CronParser {
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
   /**
-   * Parse cron expression and calculate next run time
-   * Format: minute hour day month dayOfWeek
+   * Calculate the next run time after `from` in an IANA timezone
+   * Format: minute hour day month dayOfWeek, or a macro (@yearly, @monthly,
+   * @weekly, @daily, @hourly)
    * Examples:
    *   "* * * * *"         - Every minute
    *   "0 * * * *"         - Every hour
-   *   "0 0 * * *"         - Every day at midnight
    *   "0 0 * * 0"         - Every Sunday at midnight
    *   "star/5 * * * *"    - Every 5 minutes (replace star with *)
-   *   "0 star/2 * * *"    - Every 2 hours (replace star with *)
-   *   "0 9-17 * * 1-5"    - Every hour 9-17 on weekdays
+   *   "1-30/5 * * * *"    - Every 5 minutes during the first half hour
+   *   "0 9-17 * * MON-FRI" - Every hour 9-17 on weekdays
+   *   "0 0 1,15-16 JAN *" - Midnight on Jan 1, 15 and 16
+   *   "0 0 L * *"         - Last day of the month (LW: last weekday, 15W: weekday nearest the 15th)
+   *   "0 0 * * 5L"        - Last Friday of the month (1#2: second Monday)
+   *
+   * When both day and dayOfWeek are restricted a day matching either runs,
+   * as in standard cron. Times skipped by a DST change run once the clocks
+   * have moved forward (02:30 becomes 03:30); times repeated when clocks go
+   * back run once, except that expressions with a wildcard hour keep their
+   * interval through the repeated hour.
    */
-  static getNextRun(cron: string, from: Date = new Date()): Date {
-    const parts = cron.trim().split(/\s+/);
+  static getNextRun(cron: string, from: Date = new Date(), timezone = 'UTC'): Date {
+    const fields = this.parse(cron);
+    const formatter = this.getFormatter(timezone);
+    const fromMs = from.getTime();
+    const fromWall = this.toWall(fromMs, formatter);
+
+    const nextWall = this.nextWallTime(cron, fields, fromWall);
+    let next = this.firstInstantAfter(nextWall, fromMs, formatter);
+
+    // Clocks went back before the next run - wildcard hours also run through the repeated hour
+    const shift = this.getOffset(fromMs, formatter) - this.getOffset(next, formatter);
+    if (shift > 0 && fields.hours.length === 24) {
+      const repeatedWall = this.nextWallTime(cron, fields, fromWall - shift);
+      const repeated = this.firstInstantAfter(repeatedWall, fromMs, formatter);
+      if (repeated > fromMs) {
+        next = Math.min(next, repeated);
+      }
+    }
+
+    return new Date(next);
+  }
+
+  /**
+   * Throw if a cron expression or timezone is invalid
+   */
+  static validate(cron: string, timezone = 'UTC'): void {
+    this.getNextRun(cron, new Date(), timezone);
+  }
+
+  private static parse(cron: string): CronFields {
+    const trimmed = cron.trim();
+    const parts = (CRON_MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
 
     if (parts.length !== 5) {
       throw new Error('Invalid cron expression. Format: minute hour day month dayOfWeek');
     }
 
-    const [minute = '*', hour = '*', day = '*', month = '*', dayOfWeek = '*'] = parts;
+    const [minute = '', hour = '', day = '', month = '', weekday = ''] = parts;
+    const fields: CronFields = {
+      minutes: this.sorted(this.parseList(minute, 0, 59)),
+      hours: this.sorted(this.parseList(hour, 0, 23)),
+      days: new Set(),
+      months: this.parseList(month, 1, 12, MONTH_NAMES),
+      weekdays: new Set(),
+      lastDay: false,
+      lastWeekday: false,
+      nearestWeekdays: [],
+      lastWeekdaysOf: [],
+      nthWeekdays: [],
+      dayRestricted: !this.isWildcard(day),
+      weekdayRestricted: !this.isWildcard(weekday),
+    };
+
+    for (const item of day.toUpperCase().split(',')) {
+      if (item === 'L') {
+        fields.lastDay = true;
+      } else if (item === 'LW') {
+        fields.lastWeekday = true;
+      } else if (item.endsWith('W')) {
+        fields.nearestWeekdays.push(this.parseValue(item.slice(0, -1), 1, 31));
+      } else {
+        this.addItem(fields.days, item === '?' ? '*' : item, 1, 31);
+      }
+    }
 
-    // Start from next minute
-    const next = new Date(from);
-    next.setSeconds(0);
-    next.setMilliseconds(0);
-    next.setMinutes(next.getMinutes() + 1);
+    for (const item of weekday.toUpperCase().split(',')) {
+      const [target = '', nth] = item.split('#');
+      if (nth !== undefined) {
+        const n = this.parseValue(nth, 1, 5);
+        fields.nthWeekdays.push([this.parseValue(target, 0, 7, WEEKDAY_NAMES) % 7, n]);
+      } else if (item.length > 1 && item.endsWith('L')) {
+        fields.lastWeekdaysOf.push(this.parseValue(item.slice(0, -1), 0, 7, WEEKDAY_NAMES) % 7);
+      } else {
+        this.addItem(fields.weekdays, item === '?' ? '*' : item, 0, 7, WEEKDAY_NAMES);
+      }
+    }
 
-    // Try up to 4 years (to handle February 29th edge cases)
-    const maxAttempts = 4 * 365 * 24 * 60;
-    let attempts = 0;
+    // 7 is also Sunday
+    if (fields.weekdays.delete(7)) {
+      fields.weekdays.add(0);
+    }
 
-    while (attempts < maxAttempts) {
-      if (
-        this.matchesPart(minute, next.getMinutes()) &&
-        this.matchesPart(hour, next.getHours()) &&
-        this.matchesPart(day, next.getDate()) &&
-        this.matchesPart(month, next.getMonth() + 1) &&
-        this.matchesPart(dayOfWeek, next.getDay())
-      ) {
-        return next;
+    return fields;
+  }
+
+  private static parseList(field: string, min: number, max: number, names?: Record<string, number>): Set<number> {
+    const values = new Set<number>();
+    for (const item of field.toUpperCase().split(',')) {
+      this.addItem(values, item, min, max, names);
+    }
+    return values;
+  }
+
+  /**
+   * Add the values of one list item: *, 5, 1-5, MON-FRI, star/15, 1-30/5 or 10/15
+   */
+  private static addItem(
+    values: Set<number>,
+    item: string,
+    min: number,
+    max: number,
+    names?: Record<string, number>,
+  ): void {
+    const [range = '', stepText, ...extra] = item.split('/');
+    if (extra.length > 0) {
+      throw new Error(`Invalid cron item "${item}"`);
+    }
+
+    const step = stepText === undefined ? 1 : this.parseValue(stepText, 1, max);
+    let start = min;
+    let end = max;
+
+    if (range !== '*') {
+      const [startText = '', endText, ...rest] = range.split('-');
+      if (rest.length > 0) {
+        throw new Error(`Invalid cron item "${item}"`);
       }
 
-      next.setMinutes(next.getMinutes() + 1);
-      attempts++;
+      start = this.parseValue(startText, min, max, names);
+      // A single value with a step runs to the end of the range (10/15 = 10,25,40,55)
+      end = endText !== undefined
+        ? this.parseValue(endText, min, max, names)
+        : stepText !== undefined ? max : start;
+
+      if (start > end) {
+        throw new Error(`Invalid cron range "${range}"`);
+      }
     }
 
-    throw new Error('Could not find next run time for cron expression');
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
   }
 
-  private static matchesPart(
-    part: string,
-    value: number,
-  ): boolean {
-    // Wildcard
-    if (part === '*') return true;
+  private static parseValue(text: string, min: number, max: number, names?: Record<string, number>): number {
+    const value = names?.[text] ?? (/^\d+$/.test(text) ? Number(text) : NaN);
 
-    // Step values (star/5 = every 5)
-    if (part.startsWith('*/')) {
-      const step = parseInt(part.slice(2));
-      return value % step === 0;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid cron value "${text}" (expected ${min}-${max})`);
     }
 
-    // Range (9-17 = 9 through 17)
-    if (part.includes('-')) {
-      const [start, end] = part.split('-').map(Number);
-      if (start === undefined || end === undefined) return false;
-      return value >= start && value <= end;
+    return value;
+  }
+
+  private static isWildcard(field: string): boolean {
+    return field.startsWith('*') || field === '?';
+  }
+
+  private static sorted(values: Set<number>): number[] {
+    return [...values].sort((a, b) => a - b);
+  }
+
+  /**
+   * Next matching wall-clock time after `fromWall`
+   * Wall times are stored as if they were UTC so Date's UTC getters read them back.
+   */
+  private static nextWallTime(cron: string, fields: CronFields, fromWall: number): number {
+    let wall = fromWall + MINUTE_MS;
+    const lastYear = new Date(wall).getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (true) {
+      const date = new Date(wall);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth() + 1;
+      const day = date.getUTCDate();
+      const hour = date.getUTCHours();
+      const minute = date.getUTCMinutes();
+
+      if (year > lastYear) {
+        throw new Error(`Cron expression "${cron}" never matches`);
+      }
+
+      if (!fields.months.has(month)) {
+        wall = Date.UTC(year, month, 1);
+        continue;
+      }
+
+      if (!this.matchesDay(fields, year, month, day)) {
+        wall = Date.UTC(year, month - 1, day + 1);
+        continue;
+      }
+
+      const nextHour = fields.hours.find((h) => h >= hour);
+      if (nextHour === undefined) {
+        wall = Date.UTC(year, month - 1, day + 1);
+        continue;
+      }
+      if (nextHour !== hour) {
+        wall = Date.UTC(year, month - 1, day, nextHour);
+        continue;
+      }
+
+      const nextMinute = fields.minutes.find((m) => m >= minute);
+      if (nextMinute === undefined) {
+        wall = Date.UTC(year, month - 1, day, hour + 1);
+        continue;
+      }
+
+      return Date.UTC(year, month - 1, day, hour, nextMinute);
+    }
+  }
+
+  private static matchesDay(fields: CronFields, year: number, month: number, day: number): boolean {
+    const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+    const dayMatches = fields.days.has(day) ||
+      (fields.lastDay && day === lastDay) ||
+      (fields.lastWeekday && day === this.nearestWeekday(year, month, lastDay, lastDay)) ||
+      fields.nearestWeekdays.some((target) =>
+        target <= lastDay && day === this.nearestWeekday(year, month, target, lastDay)
+      );
+
+    const weekdayMatches = fields.weekdays.has(weekday) ||
+      fields.lastWeekdaysOf.some((target) => target === weekday && day + 7 > lastDay) ||
+      fields.nthWeekdays.some(([target, n]) => target === weekday && Math.ceil(day / 7) === n);
+
+    // Standard cron: either field may match when both are restricted
+    if (fields.dayRestricted && fields.weekdayRestricted) {
+      return dayMatches || weekdayMatches;
+    }
+    return dayMatches && weekdayMatches;
+  }
+
+  /**
+   * Weekday nearest to a day of the month, without leaving the month
+   */
+  private static nearestWeekday(year: number, month: number, target: number, lastDay: number): number {
+    const weekday = new Date(Date.UTC(year, month - 1, target)).getUTCDay();
+    if (weekday === 6) {
+      return target === 1 ? 3 : target - 1;
+    }
+    if (weekday === 0) {
+      return target === lastDay ? target - 2 : target + 1;
+    }
+    return target;
+  }
+
+  /**
+   * Earliest instant after `fromMs` showing a wall time
+   * A wall time skipped by a DST gap maps to the instant it would have been
+   * under the old offset, i.e. shifted forward by the gap.
+   */
+  private static firstInstantAfter(wall: number, fromMs: number, formatter: Intl.DateTimeFormat): number {
+    // UTC offsets stay within -12h..+14h, so these bracket every instant showing this wall time
+    const offsetBefore = this.getOffset(wall - 14 * HOUR_MS, formatter);
+    const offsetAfter = this.getOffset(wall + 14 * HOUR_MS, formatter);
+
+    const instants = [...new Set([offsetBefore, offsetAfter])]
+      .map((offset) => wall - offset)
+      .filter((instant) => this.getOffset(instant, formatter) === wall - instant)
+      .sort((a, b) => a - b);
+
+    if (instants.length === 0) {
+      return wall - offsetBefore;
     }
 
-    // List (1,3,5 = 1, 3, or 5)
-    if (part.includes(',')) {
-      const values = part.split(',').map(Number);
-      return values.includes(value);
+    return instants.find((instant) => instant > fromMs) ?? instants[instants.length - 1]!;
+  }
+
+  /**
+   * Wall-clock time of an instant, truncated to the minute
+   */
+  private static toWall(instant: number, formatter: Intl.DateTimeFormat): number {
+    const wall = instant + this.getOffset(instant, formatter);
+    return wall - (wall % MINUTE_MS);
+  }
+
+  /**
+   * UTC offset of the timezone at an instant, in milliseconds
+   */
+  private static getOffset(instant: number, formatter: Intl.DateTimeFormat): number {
+    const parts: Record<string, number> = {};
+    for (const part of formatter.formatToParts(instant)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
     }
 
-    // Exact match
-    return parseInt(part) === value;
+    const asUtc = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!, parts.second!);
+    return asUtc - (instant - (instant % 1000));
+  }
+
+  private static getFormatter(timezone: string): Intl.DateTimeFormat {
+    let formatter = this.formatters.get(timezone);
+
+    if (!formatter) {
+      try {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hourCycle: 'h23',
+          year: 'numeric',
+          month: 'numeric',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: 'numeric',
+          second: 'numeric',
+        });
+      } catch {
+        throw new Error(`Invalid timezone: ${timezone}`);
+      }
+      this.formatters.set(timezone, formatter);
+    }
+
+    return formatter;
   }
 }
 
@@ -160,6 +511,21 @@ export class JobScheduler {
   private checkInterval = 60 * 1000; // Check every minute
   private checkTimeout?: number;
   private kv: Deno.Kv | null = null;
+  private lease: LeaderLease;
+  private handlerFactory: ScheduleHandlerFactory | null = null;
+  private persistedNames = new Set<string>(); // Schedules that came from KV
+  private caughtUp = new Set<string>(); // Schedules checked for misfires this leadership term
+  private catchUpRemaining = new Map<string, number>(); // run-all ticks still to catch up on
+
+  constructor() {
+    this.lease = new LeaderLease({
+      name: 'scheduler',
+      getKv: async () => {
+        await this.init();
+        return this.kv!;
+      },
+    });
+  }
 
   /**
    * Initialize the scheduler (loads persisted schedules)
@@ -177,15 +543,21 @@ export class JobScheduler {
     name: string,
     cron: string,
     handler: () => Promise<void>,
-    options: { timezone?: string; enabled?: boolean } = {},
+    options: ScheduleOptions = {},
   ): void {
+    if (options.maxCatchUp !== undefined && options.maxCatchUp < 1) {
+      throw new Error('maxCatchUp must be at least 1');
+    }
+
     const schedule: Schedule = {
       name,
       cron,
       handler,
       timezone: options.timezone || 'UTC',
       enabled: options.enabled ?? true,
-      nextRun: CronParser.getNextRun(cron),
+      misfirePolicy: options.misfirePolicy ?? DEFAULT_MISFIRE_POLICY,
+      maxCatchUp: options.maxCatchUp ?? DEFAULT_MAX_CATCH_UP,
+      nextRun: CronParser.getNextRun(cron, new Date(), options.timezone || 'UTC'),
       runCount: 0,
     };
 
@@ -202,7 +574,7 @@ export class JobScheduler {
     jobName: string,
     jobData: Record<string, unknown>,
     handler: () => Promise<void>,
-    options: { timezone?: string; enabled?: boolean } = {},
+    options: ScheduleOptions = {},
   ): Promise<void> {
     await this.init();
 
@@ -221,11 +593,14 @@ export class JobScheduler {
       jobData,
       timezone: options.timezone || 'UTC',
       enabled: options.enabled ?? true,
+      misfirePolicy: options.misfirePolicy ?? DEFAULT_MISFIRE_POLICY,
+      maxCatchUp: options.maxCatchUp ?? DEFAULT_MAX_CATCH_UP,
       ...(nextRunISO && { nextRun: nextRunISO }),
       runCount: 0,
     };
 
     await this.kv!.set(['schedules', name], persistedData);
+    this.persistedNames.add(name);
   }
 
   /**
@@ -233,37 +608,44 @@ export class JobScheduler {
    * This is called when the scheduler starts to restore schedules
    * The handler functions need to be re-registered by the application
    */
-  async loadSchedules(
-    handlerFactory: (jobName: string, jobData: Record<string, unknown>) => () => Promise<void>
-  ): Promise<void> {
+  async loadSchedules(handlerFactory: ScheduleHandlerFactory): Promise<void> {
     await this.init();
+    this.handlerFactory = handlerFactory;
 
     const entries = this.kv!.list<PersistedScheduleData>({ prefix: ['schedules'] });
 
     for await (const entry of entries) {
       const data = entry.value;
-      const handler = handlerFactory(data.jobName, data.jobData);
-
-      const schedule: Schedule = {
-        name: data.name,
-        cron: data.cron,
-        handler,
-        timezone: data.timezone,
-        enabled: data.enabled,
-        nextRun: data.nextRun ? new Date(data.nextRun) : CronParser.getNextRun(data.cron),
-        runCount: data.runCount,
-      };
-
-      // Add lastRun only if it exists
-      if (data.lastRun) {
-        schedule.lastRun = new Date(data.lastRun);
-      }
-
-      this.schedules.set(data.name, schedule);
+      this.schedules.set(data.name, this.fromPersisted(data, handlerFactory));
+      this.persistedNames.add(data.name);
       logger.info('Loaded persisted schedule', { name: data.name, cron: data.cron });
     }
   }
 
+  private fromPersisted(data: PersistedScheduleData, handlerFactory: ScheduleHandlerFactory): Schedule {
+    const schedule: Schedule = {
+      name: data.name,
+      cron: data.cron,
+      handler: handlerFactory(data.jobName, data.jobData),
+      timezone: data.timezone,
+      enabled: data.enabled,
+      misfirePolicy: data.misfirePolicy ?? DEFAULT_MISFIRE_POLICY,
+      maxCatchUp: data.maxCatchUp ?? DEFAULT_MAX_CATCH_UP,
+      nextRun: data.nextRun ? new Date(data.nextRun) : CronParser.getNextRun(data.cron, new Date(), data.timezone),
+      runCount: data.runCount,
+    };
+
+    // Add lastRun and lastTick only if they exist
+    if (data.lastRun) {
+      schedule.lastRun = new Date(data.lastRun);
+    }
+    if (data.lastTick) {
+      schedule.lastTick = new Date(data.lastTick);
+    }
+
+    return schedule;
+  }
+
   /**
    * Unregister a scheduled job
    */
@@ -277,7 +659,12 @@ export class JobScheduler {
   async unscheduleAndDelete(name: string): Promise<void> {
     await this.init();
     this.schedules.delete(name);
+    this.persistedNames.delete(name);
     await this.kv!.delete(['schedules', name]);
+
+    for await (const entry of this.kv!.list({ prefix: ['schedule_runs', name] })) {
+      await this.kv!.delete(entry.key);
+    }
   }
 
   /**
@@ -318,6 +705,7 @@ export class JobScheduler {
       if (schedule) {
         const nextRunISO = schedule.nextRun?.toISOString();
         const lastRunISO = schedule.lastRun?.toISOString();
+        const lastTickISO = schedule.lastTick?.toISOString();
 
         const updated: PersistedScheduleData = {
           ...existingEntry.value,
@@ -325,6 +713,7 @@ export class JobScheduler {
           runCount: schedule.runCount,
           ...(nextRunISO && { nextRun: nextRunISO }),
           ...(lastRunISO && { lastRun: lastRunISO }),
+          ...(lastTickISO && { lastTick: lastTickISO }),
         };
         await this.kv!.set(['schedules', name], updated);
       }
@@ -347,6 +736,7 @@ export class JobScheduler {
 
   /**
    * Start the scheduler
+   * Schedules only fire while this instance holds the scheduler lease.
    */
   start(): void {
     if (this.isRunning) return;
@@ -363,6 +753,34 @@ export class JobScheduler {
     if (this.checkTimeout) {
       clearTimeout(this.checkTimeout);
     }
+
+    // Hand over to another instance straight away instead of waiting for expiry
+    if (this.lease.isLeader) {
+      this.lease.release().catch((error) => {
+        logger.warn('Failed to release scheduler lease', { error });
+      });
+    }
+  }
+
+  /**
+   * ID of this instance as used for the scheduler lease
+   */
+  get instanceId(): string {
+    return this.lease.instanceId;
+  }
+
+  /**
+   * Whether this instance currently fires schedules
+   */
+  get isLeader(): boolean {
+    return this.lease.isLeader;
+  }
+
+  /**
+   * Instance currently holding the scheduler lease, if any
+   */
+  getLeader(): Promise<LeaseRecord | null> {
+    return this.lease.getHolder();
   }
 
   /**
@@ -375,27 +793,80 @@ export class JobScheduler {
       throw new Error(`Schedule not found: ${name}`);
     }
 
-    await this.runSchedule(schedule);
+    await this.runSchedule(schedule, 'manual');
+  }
+
+  /**
+   * Recent runs of a schedule, newest first
+   */
+  async getRunHistory(name: string, limit = MAX_RUN_HISTORY): Promise<ScheduleRun[]> {
+    await this.init();
+
+    const runs: ScheduleRun[] = [];
+    const entries = this.kv!.list<ScheduleRun>({ prefix: ['schedule_runs', name] }, { reverse: true, limit });
+    for await (const entry of entries) {
+      runs.push(entry.value);
+    }
+
+    return runs;
   }
 
   // ========================================================================
   // Private Methods
   // ========================================================================
 
-  private check(): void {
+  private async check(): Promise<void> {
     if (!this.isRunning) return;
 
+    let nextCheckTime: Date | null = null;
+
+    try {
+      // Only the lease holder fires schedules; the others keep trying to take over
+      if (await this.lease.renew()) {
+        await this.syncPersistedSchedules();
+        await this.catchUpMissedRuns();
+        nextCheckTime = this.runDueSchedules();
+      } else {
+        // Another instance runs schedules - re-check misfires if we take over later
+        this.caughtUp.clear();
+        this.catchUpRemaining.clear();
+      }
+    } catch (error) {
+      logger.error('Scheduler check failed', { error });
+    }
+
+    if (!this.isRunning) return;
+
+    // Calculate optimal sleep time
+    // Sleep until next schedule is due, but cap at 60s to handle newly added schedules
+    // and wake often enough to renew (or take over) the lease before it expires
+    const sleepMs = Math.min(
+      nextCheckTime ? nextCheckTime.getTime() - Date.now() : this.checkInterval,
+      this.checkInterval,
+      this.lease.ttlMs / 3,
+    );
+
+    // Ensure minimum 1 second sleep to prevent tight loops
+    const safeSleepMs = Math.max(sleepMs, 1000);
+
+    // Schedule next check
+    this.checkTimeout = setTimeout(() => this.check(), safeSleepMs);
+  }
+
+  /**
+   * Start every due schedule and return the earliest upcoming run
+   */
+  private runDueSchedules(): Date | null {
     const now = new Date();
     let nextCheckTime: Date | null = null;
 
-    // Check all schedules
     for (const schedule of this.schedules.values()) {
       if (!schedule.enabled) continue;
       if (!schedule.nextRun) continue;
 
       // Time to run?
       if (now >= schedule.nextRun) {
-        this.runSchedule(schedule).catch(error => {
+        this.runTick(schedule, schedule.nextRun).catch((error) => {
           logger.error('Error running schedule', { scheduleName: schedule.name, error });
         });
       }
@@ -406,45 +877,220 @@ export class JobScheduler {
       }
     }
 
-    // Calculate optimal sleep time
-    // Sleep until next schedule is due, but cap at 60s to handle newly added schedules
-    const sleepMs = nextCheckTime
-      ? Math.min(nextCheckTime.getTime() - Date.now(), this.checkInterval)
-      : this.checkInterval;
+    return nextCheckTime;
+  }
 
-    // Ensure minimum 1 second sleep to prevent tight loops
-    const safeSleepMs = Math.max(sleepMs, 1000);
+  /**
+   * Run one cron tick of a schedule, unless some instance already has
+   * The tick is claimed in KV first, so a former leader that has not yet
+   * noticed losing the lease cannot run it a second time.
+   */
+  private async runTick(schedule: Schedule, tick: Date): Promise<void> {
+    const claimKey = ['schedule_ticks', schedule.name, tick.getTime()];
+    const claimed = await this.kv!.atomic()
+      .check({ key: claimKey, versionstamp: null })
+      .set(claimKey, this.lease.instanceId, { expireIn: TICK_CLAIM_TTL_MS })
+      .commit();
+
+    if (!claimed.ok) {
+      // Already run (or running) - move on to the following tick
+      if (schedule.nextRun?.getTime() === tick.getTime()) {
+        schedule.nextRun = CronParser.getNextRun(schedule.cron, tick, schedule.timezone);
+      }
+      return;
+    }
 
-    // Schedule next check
-    this.checkTimeout = setTimeout(() => this.check(), safeSleepMs);
+    const trigger = this.catchUpRemaining.has(schedule.name) ? 'catch-up' : 'schedule';
+    await this.runSchedule(schedule, trigger, tick);
   }
 
-  private async runSchedule(schedule: Schedule): Promise<void> {
+  /**
+   * Apply each schedule's misfire policy to ticks missed while no instance
+   * was running it, judged by the tick its last run belonged to (not when it
+   * ran: a catch-up run happens long after its tick)
+   */
+  private async catchUpMissedRuns(): Promise<void> {
+    const now = new Date();
+
+    for (const schedule of this.schedules.values()) {
+      if (this.caughtUp.has(schedule.name)) continue;
+      this.caughtUp.add(schedule.name);
+
+      const lastTick = schedule.lastTick ?? schedule.lastRun ?? await this.getLastTick(schedule.name);
+      const firstMissed = lastTick ? CronParser.getNextRun(schedule.cron, lastTick, schedule.timezone) : schedule.nextRun;
+      if (!schedule.enabled || !firstMissed || firstMissed > now) continue;
+
+      const policy = schedule.misfirePolicy ?? DEFAULT_MISFIRE_POLICY;
+      logger.info('Schedule missed runs', { scheduleName: schedule.name, since: firstMissed.toISOString(), policy });
+
+      if (policy === 'skip') {
+        schedule.nextRun = CronParser.getNextRun(schedule.cron, now, schedule.timezone);
+        continue;
+      }
+
+      schedule.nextRun = firstMissed;
+      const maxCatchUp = policy === 'run-all' ? schedule.maxCatchUp ?? DEFAULT_MAX_CATCH_UP : 1;
+      this.catchUpRemaining.set(schedule.name, maxCatchUp - 1);
+    }
+  }
+
+  /**
+   * Tick (or start time) of the latest recorded run of a schedule
+   */
+  private async getLastTick(name: string): Promise<Date | undefined> {
+    const [latest] = await this.getRunHistory(name, 1);
+    if (!latest) return undefined;
+
+    return new Date(latest.scheduledFor ?? latest.startedAt);
+  }
+
+  /**
+   * Next run after finishing a tick
+   * Ticks that passed while the handler ran are skipped, unless run-all is
+   * still catching up.
+   */
+  private nextRunAfter(schedule: Schedule, tick: Date): Date {
+    const now = new Date();
+    const next = CronParser.getNextRun(schedule.cron, tick, schedule.timezone);
+    const remaining = this.catchUpRemaining.get(schedule.name) ?? 0;
+
+    if (next <= now && remaining > 0) {
+      this.catchUpRemaining.set(schedule.name, remaining - 1);
+      return next;
+    }
+
+    this.catchUpRemaining.delete(schedule.name);
+    return next <= now ? CronParser.getNextRun(schedule.cron, now, schedule.timezone) : next;
+  }
+
+  /**
+   * Pick up persisted schedules created, changed or deleted on other instances
+   * Schedules registered in code exist on every instance and are left alone.
+   */
+  private async syncPersistedSchedules(): Promise<void> {
+    if (!this.handlerFactory) return;
+
+    const found = new Set<string>();
+    const entries = this.kv!.list<PersistedScheduleData>({ prefix: ['schedules'] });
+
+    for await (const entry of entries) {
+      const data = entry.value;
+      const existing = this.schedules.get(data.name);
+      found.add(data.name);
+
+      if (!existing) {
+        this.schedules.set(data.name, this.fromPersisted(data, this.handlerFactory));
+        this.persistedNames.add(data.name);
+        continue;
+      }
+      if (!this.persistedNames.has(data.name)) continue;
+
+      existing.enabled = data.enabled;
+
+      // Runs made while another instance held the lease
+      if (data.runCount > existing.runCount) {
+        existing.runCount = data.runCount;
+        if (data.lastRun) existing.lastRun = new Date(data.lastRun);
+        if (data.lastTick) existing.lastTick = new Date(data.lastTick);
+        if (data.nextRun) existing.nextRun = new Date(data.nextRun);
+      }
+    }
+
+    for (const name of this.persistedNames) {
+      if (!found.has(name)) {
+        this.schedules.delete(name);
+        this.persistedNames.delete(name);
+      }
+    }
+  }
+
+  private async runSchedule(schedule: Schedule, trigger: ScheduleRunTrigger, tick?: Date): Promise<void> {
+    const run = await this.startRun(schedule, trigger, tick);
+
     try {
       schedule.lastRun = new Date();
+      if (tick) schedule.lastTick = tick;
 
       // Run the handler
       await schedule.handler();
 
       // Calculate next run
-      schedule.nextRun = CronParser.getNextRun(schedule.cron, schedule.lastRun);
+      schedule.nextRun = tick
+        ? this.nextRunAfter(schedule, tick)
+        : CronParser.getNextRun(schedule.cron, schedule.lastRun, schedule.timezone);
       schedule.runCount++;
 
+      await this.finishRun(run, 'completed');
+
       // Update in KV if persisted
       await this.updateScheduleInKv(schedule.name);
     } catch (error) {
       logger.error('Schedule failed', { scheduleName: schedule.name, error });
 
       // Still calculate next run even if this one failed
-      schedule.nextRun = CronParser.getNextRun(
+      schedule.nextRun = tick ? this.nextRunAfter(schedule, tick) : CronParser.getNextRun(
         schedule.cron,
         schedule.lastRun || new Date(),
+        schedule.timezone,
       );
 
+      await this.finishRun(run, 'failed', error);
+
       // Update in KV if persisted
       await this.updateScheduleInKv(schedule.name);
     }
   }
+
+  /**
+   * Record the start of a run and trim the history to MAX_RUN_HISTORY
+   * History is best effort - failing to write it never blocks the run.
+   */
+  private async startRun(schedule: Schedule, trigger: ScheduleRunTrigger, tick?: Date): Promise<ScheduleRun> {
+    const run: ScheduleRun = {
+      id: crypto.randomUUID(),
+      scheduleName: schedule.name,
+      trigger,
+      ...(tick && { scheduledFor: tick.toISOString() }),
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      instanceId: this.lease.instanceId,
+    };
+
+    try {
+      await this.init();
+      await this.kv!.set(this.runKey(run), run);
+
+      let kept = 0;
+      const entries = this.kv!.list({ prefix: ['schedule_runs', schedule.name] }, { reverse: true });
+      for await (const entry of entries) {
+        if (++kept > MAX_RUN_HISTORY) {
+          await this.kv!.delete(entry.key);
+        }
+      }
+    } catch (error) {
+      logger.warn('Failed to record schedule run', { scheduleName: schedule.name, error });
+    }
+
+    return run;
+  }
+
+  private async finishRun(run: ScheduleRun, status: 'completed' | 'failed', error?: unknown): Promise<void> {
+    run.status = status;
+    run.finishedAt = new Date().toISOString();
+    if (error !== undefined) {
+      run.error = error instanceof Error ? error.message : String(error);
+    }
+
+    try {
+      await this.kv!.set(this.runKey(run), run);
+    } catch (err) {
+      logger.warn('Failed to record schedule run', { scheduleName: run.scheduleName, error: err });
+    }
+  }
+
+  private runKey(run: ScheduleRun): Deno.KvKey {
+    return ['schedule_runs', run.scheduleName, new Date(run.startedAt).getTime(), run.id];
+  }
 }
 
 // ============================================================================
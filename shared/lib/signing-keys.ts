@@ -0,0 +1,279 @@
+/**
+ * JWT Signing Keys
+ *
+ * Asymmetric key pairs for signing JWTs, stored in Deno KV so every instance
+ * signs with the same active key and can verify tokens from any other.
+ *
+ * - One key is active and signs new tokens; its `kid` goes in the JWT header
+ * - rotate() makes a fresh key active and retires the old one; retired keys
+ *   keep verifying until every token they signed has expired, then drop out
+ * - getJwks() publishes the public halves for other services
+ *   (served at /.well-known/jwks.json)
+ *
+ * Keys are generated on first use, so a fresh deployment needs no setup.
+ * Private keys are stored as JWKs in KV; treat KV access as access to them.
+ *
+ * Usage:
+ * ```ts
+ * const { kid, alg, privateKey } = await signingKeys.getActiveKey();
+ * const publicKey = await signingKeys.getVerificationKey(kid);
+ * await signingKeys.rotateIfDue(); // from a scheduled job
+ * ```
+ */
+
+import { TokenConfig } from './config.ts';
+import { getKv } from './kv.ts';
+import { createLogger } from './logger.ts';
+
+const logger = createLogger('SigningKeys');
+
+// Configuration
+const CACHE_TTL_MS = 60_000; // How long an instance trusts its cached active key
+const MAX_ROTATION_ATTEMPTS = 5;
+
+export type SigningAlgorithm = 'ES256' | 'EdDSA';
+
+const KEY_PARAMS: Record<SigningAlgorithm, EcKeyGenParams | Algorithm> = {
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' } as EcKeyGenParams,
+  EdDSA: { name: 'Ed25519' },
+};
+
+/**
+ * Key pair stored in KV
+ */
+export interface SigningKeyRecord {
+  kid: string;
+  alg: SigningAlgorithm;
+  publicJwk: JsonWebKey;
+  privateJwk: JsonWebKey;
+  createdAt: string;
+  /** Set when the key stops signing; it still verifies until expiresAt */
+  retiredAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface ActiveSigningKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  privateKey: CryptoKey;
+  createdAt: string;
+}
+
+/**
+ * Public key as published in the JWKS
+ */
+export interface PublicSigningKey extends JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+}
+
+export interface SigningKeyStoreOptions {
+  getKv?: () => Promise<Deno.Kv>;
+  /** Algorithm for newly generated keys (existing keys keep theirs) */
+  algorithm?: SigningAlgorithm;
+  /** Age after which rotateIfDue() replaces the active key */
+  rotationIntervalMs?: number;
+  /** How long a retired key keeps verifying - at least the longest token lifetime */
+  retentionMs?: number;
+}
+
+export class SigningKeyStore {
+  readonly algorithm: SigningAlgorithm;
+  readonly rotationIntervalMs: number;
+  readonly retentionMs: number;
+
+  private getKv: () => Promise<Deno.Kv>;
+  private active: { key: ActiveSigningKey; cachedAt: number } | null = null;
+  private verificationKeys = new Map<string, { key: CryptoKey; expiresAt: number }>();
+
+  constructor(options: SigningKeyStoreOptions = {}) {
+    this.getKv = options.getKv || getKv;
+    this.algorithm = options.algorithm ||
+      (Deno.env.get('JWT_SIGNING_ALG') === 'EdDSA' ? 'EdDSA' : 'ES256');
+    this.rotationIntervalMs = options.rotationIntervalMs ?? TokenConfig.SIGNING_KEY_ROTATION_MS;
+    this.retentionMs = options.retentionMs ?? TokenConfig.REFRESH_TOKEN_EXPIRY_MS;
+  }
+
+  /**
+   * Key to sign new tokens with, generating the first one if none exists
+   */
+  async getActiveKey(): Promise<ActiveSigningKey> {
+    if (this.active && Date.now() - this.active.cachedAt < CACHE_TTL_MS) {
+      return this.active.key;
+    }
+
+    const kv = await this.getKv();
+    let record = await this.readActive(kv);
+
+    if (!record) {
+      record = await this.rotate();
+    }
+
+    const key: ActiveSigningKey = {
+      kid: record.kid,
+      alg: record.alg,
+      privateKey: await crypto.subtle.importKey('jwk', record.privateJwk, KEY_PARAMS[record.alg], false, ['sign']),
+      createdAt: record.createdAt,
+    };
+
+    this.active = { key, cachedAt: Date.now() };
+    return key;
+  }
+
+  /**
+   * Public key for a kid, or null if the key is unknown or has expired
+   */
+  async getVerificationKey(kid: string): Promise<CryptoKey | null> {
+    const cached = this.verificationKeys.get(kid);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.key;
+    }
+
+    const kv = await this.getKv();
+    const entry = await kv.get<SigningKeyRecord>(['signing_keys', kid]);
+    const record = entry.value;
+
+    if (!record || this.isExpired(record)) {
+      this.verificationKeys.delete(kid);
+      return null;
+    }
+
+    const key = await crypto.subtle.importKey('jwk', record.publicJwk, KEY_PARAMS[record.alg], false, ['verify']);
+
+    // Retired keys are cached until they expire; active ones are re-read after
+    // CACHE_TTL_MS so their expiry is picked up once they are retired
+    this.verificationKeys.set(kid, {
+      key,
+      expiresAt: record.expiresAt ? new Date(record.expiresAt).getTime() : Date.now() + CACHE_TTL_MS,
+    });
+    return key;
+  }
+
+  /**
+   * Generate a new active key and retire the current one
+   * Concurrent rotations are resolved atomically: the loser adopts the winner's key.
+   */
+  async rotate(): Promise<SigningKeyRecord> {
+    const kv = await this.getKv();
+
+    for (let attempt = 0; attempt < MAX_ROTATION_ATTEMPTS; attempt++) {
+      const pointer = await kv.get<string>(['signing_keys_active']);
+      const currentEntry = pointer.value
+        ? await kv.get<SigningKeyRecord>(['signing_keys', pointer.value])
+        : null;
+
+      const record = await this.generate();
+      const now = new Date();
+
+      const op = kv.atomic()
+        .check(pointer)
+        .set(['signing_keys', record.kid], record)
+        .set(['signing_keys_active'], record.kid);
+
+      if (currentEntry?.value) {
+        const retired: SigningKeyRecord = {
+          ...currentEntry.value,
+          retiredAt: now.toISOString(),
+          expiresAt: new Date(now.getTime() + this.retentionMs).toISOString(),
+        };
+        op.check(currentEntry).set(['signing_keys', retired.kid], retired, { expireIn: this.retentionMs });
+      }
+
+      const result = await op.commit();
+
+      if (result.ok) {
+        this.active = null;
+        logger.info('Signing key rotated', { kid: record.kid, alg: record.alg, previous: pointer.value });
+        return record;
+      }
+
+      // Another instance rotated (or bootstrapped) first - use its key if it's fresh
+      const winner = await this.readActive(kv);
+      if (winner && Date.now() - new Date(winner.createdAt).getTime() < CACHE_TTL_MS) {
+        return winner;
+      }
+    }
+
+    throw new Error('Failed to rotate signing key after concurrent updates');
+  }
+
+  /**
+   * Rotate if the active key is older than the rotation interval
+   * Returns whether a rotation happened.
+   */
+  async rotateIfDue(): Promise<boolean> {
+    const kv = await this.getKv();
+    const record = await this.readActive(kv);
+
+    if (record && Date.now() - new Date(record.createdAt).getTime() < this.rotationIntervalMs) {
+      return false;
+    }
+
+    await this.rotate();
+    return true;
+  }
+
+  /**
+   * JSON Web Key Set of every key that can still verify tokens
+   */
+  async getJwks(): Promise<{ keys: PublicSigningKey[] }> {
+    const records = await this.listKeys();
+
+    return {
+      keys: records.map((record) => {
+        const { kty, crv, x, y } = record.publicJwk;
+        return { kty, crv, x, ...(y && { y }), kid: record.kid, alg: record.alg, use: 'sig' };
+      }),
+    };
+  }
+
+  /**
+   * Active and retired-but-unexpired keys, newest first
+   */
+  async listKeys(): Promise<SigningKeyRecord[]> {
+    const kv = await this.getKv();
+    const records: SigningKeyRecord[] = [];
+
+    for await (const entry of kv.list<SigningKeyRecord>({ prefix: ['signing_keys'] })) {
+      if (!this.isExpired(entry.value)) {
+        records.push(entry.value);
+      }
+    }
+
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async readActive(kv: Deno.Kv): Promise<SigningKeyRecord | null> {
+    const pointer = await kv.get<string>(['signing_keys_active']);
+    if (!pointer.value) {
+      return null;
+    }
+
+    const entry = await kv.get<SigningKeyRecord>(['signing_keys', pointer.value]);
+    return entry.value;
+  }
+
+  private async generate(): Promise<SigningKeyRecord> {
+    const pair = await crypto.subtle.generateKey(KEY_PARAMS[this.algorithm], true, ['sign', 'verify']) as CryptoKeyPair;
+
+    return {
+      kid: crypto.randomUUID(),
+      alg: this.algorithm,
+      publicJwk: await crypto.subtle.exportKey('jwk', pair.publicKey),
+      privateJwk: await crypto.subtle.exportKey('jwk', pair.privateKey),
+      createdAt: new Date().toISOString(),
+      retiredAt: null,
+      expiresAt: null,
+    };
+  }
+
+  private isExpired(record: SigningKeyRecord): boolean {
+    return record.expiresAt !== null && new Date(record.expiresAt).getTime() <= Date.now();
+  }
+}
+
+/**
+ * Shared store used by shared/lib/jwt.ts
+ */
+export const signingKeys = new SigningKeyStore();
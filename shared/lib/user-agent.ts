@@ -0,0 +1,61 @@
+/**
+ * User Agent Parsing
+ *
+ * Turns a User-Agent header into a short, human readable device label
+ * ("Chrome on macOS") for session lists. This is a best-effort match on
+ * well-known tokens, not full UA parsing - unknown clients fall back to a
+ * generic label.
+ */
+
+// Order matters: Edge and Opera also claim to be Chrome, Chrome claims to be Safari
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+// iOS before macOS: iPhone/iPad UAs contain "like Mac OS X"
+const OPERATING_SYSTEMS: Array<[RegExp, string]> = [
+  [/iPhone/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+}
+
+/**
+ * Extract browser and operating system names from a User-Agent header
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) {
+    return { browser: null, os: null };
+  }
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? null;
+
+  return { browser, os };
+}
+
+/**
+ * Short label for a session's device, e.g. "Firefox on Windows"
+ */
+export function getDeviceLabel(userAgent: string | null | undefined): string {
+  const { browser, os } = parseUserAgent(userAgent);
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return browser || os || 'Unknown device';
+}
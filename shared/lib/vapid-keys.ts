@@ -0,0 +1,114 @@
+/**
+ * VAPID Keys
+ *
+ * The application server key pair for Web Push (RFC 8292). Browsers subscribe
+ * with the public key and every push is signed with the private key, so all
+ * instances must share one pair, and it must not change: subscriptions made
+ * with an old public key stop receiving pushes.
+ *
+ * - VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY (base64url, as returned by
+ *   generateVapidKeys()) pin the pair, e.g. to move it between deployments
+ * - Otherwise a pair is generated on first use and stored in Deno KV; if two
+ *   instances race, the first one stored wins
+ * - VAPID_SUBJECT is the contact push services see (a mailto: or https: URL,
+ *   default FRONTEND_URL)
+ *
+ * Private keys are stored in KV; treat KV access as access to them.
+ *
+ * Usage:
+ * ```ts
+ * const vapid = await vapidKeys.getCredentials();
+ * await sendPushMessage(subscription, payload, vapid);
+ * ```
+ */
+
+import { getKv } from './kv.ts';
+import { createLogger } from './logger.ts';
+import { generateVapidKeys, importP256KeyPair, type VapidCredentials } from './web-push.ts';
+
+const logger = createLogger('VapidKeys');
+
+/**
+ * Key pair stored in KV
+ */
+export interface VapidKeyRecord {
+  publicKey: string;
+  privateKey: string;
+  createdAt: string;
+}
+
+export interface VapidKeyStoreOptions {
+  getKv?: () => Promise<Deno.Kv>;
+}
+
+export class VapidKeyStore {
+  private getKv: () => Promise<Deno.Kv>;
+  private credentials: Promise<VapidCredentials> | null = null;
+
+  constructor(options: VapidKeyStoreOptions = {}) {
+    this.getKv = options.getKv || getKv;
+  }
+
+  /**
+   * Keys and subject for signing pushes, generating the pair if none exists
+   */
+  async getCredentials(): Promise<VapidCredentials> {
+    this.credentials ??= this.load().catch((error) => {
+      this.credentials = null;
+      throw error;
+    });
+    return await this.credentials;
+  }
+
+  /**
+   * Public key for PushManager.subscribe() (applicationServerKey)
+   */
+  async getPublicKey(): Promise<string> {
+    return (await this.getCredentials()).publicKey;
+  }
+
+  private async load(): Promise<VapidCredentials> {
+    const record = await this.readOrCreate();
+    const { privateKey } = await importP256KeyPair(record.publicKey, record.privateKey, 'ECDSA');
+
+    return {
+      publicKey: record.publicKey,
+      privateKey,
+      subject: Deno.env.get('VAPID_SUBJECT') || Deno.env.get('FRONTEND_URL') || 'http://localhost:3000',
+    };
+  }
+
+  private async readOrCreate(): Promise<VapidKeyRecord> {
+    const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+    const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+    if (publicKey || privateKey) {
+      if (!publicKey || !privateKey) {
+        throw new Error('Set both VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY, or neither');
+      }
+      return { publicKey, privateKey, createdAt: new Date(0).toISOString() };
+    }
+
+    const kv = await this.getKv();
+    const existing = await kv.get<VapidKeyRecord>(['vapid_keys']);
+    if (existing.value) {
+      return existing.value;
+    }
+
+    const record: VapidKeyRecord = { ...(await generateVapidKeys()), createdAt: new Date().toISOString() };
+    const result = await kv.atomic().check(existing).set(['vapid_keys'], record).commit();
+
+    if (result.ok) {
+      logger.info('VAPID keys generated');
+      return record;
+    }
+
+    // Another instance stored its pair first
+    const winner = await kv.get<VapidKeyRecord>(['vapid_keys']);
+    return winner.value!;
+  }
+}
+
+/**
+ * Shared key store for the app
+ */
+export const vapidKeys = new VapidKeyStore();
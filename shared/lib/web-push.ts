@@ -0,0 +1,296 @@
+/**
+ * Web Push Protocol
+ * Sends push messages to browsers through their push service
+ *
+ * - Delivery (RFC 8030): POST to the subscription endpoint with TTL, Urgency
+ *   and an optional Topic (a newer message replaces an undelivered one)
+ * - Message encryption (RFC 8291): each message is encrypted for one
+ *   subscription with a fresh ECDH key, the subscription's p256dh key and
+ *   auth secret, as a single aes128gcm record (RFC 8188)
+ * - VAPID (RFC 8292): requests carry an ES256 JWT for the push service's
+ *   origin, signed with the application server key the browser subscribed with
+ *
+ * Keys are P-256 and passed around base64url-encoded the way browsers and
+ * other push libraries do: public keys as uncompressed points (65 bytes),
+ * private keys as the raw scalar (32 bytes). Everything uses WebCrypto.
+ */
+
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+import { WebPushConfig } from './config.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Keys from the browser's PushSubscription (base64url)
+ */
+export interface PushSubscriptionKeys {
+  /** Browser's ECDH public key (uncompressed P-256 point) */
+  p256dh: string;
+  /** 16-byte authentication secret */
+  auth: string;
+}
+
+export interface PushTarget {
+  endpoint: string;
+  keys: PushSubscriptionKeys;
+}
+
+/**
+ * Application server identity for VAPID
+ */
+export interface VapidCredentials {
+  /** Public key (base64url uncompressed point) - the browser's applicationServerKey */
+  publicKey: string;
+  /** ECDSA P-256 signing key matching publicKey */
+  privateKey: CryptoKey;
+  /** Contact for the push service operator: a mailto: or https: URL */
+  subject: string;
+}
+
+export type PushUrgency = 'very-low' | 'low' | 'normal' | 'high';
+
+export interface PushMessageOptions {
+  /** Seconds the push service keeps the message for an offline browser */
+  ttl?: number;
+  urgency?: PushUrgency;
+  /** Up to 32 base64url characters; replaces an undelivered message with the same topic */
+  topic?: string;
+}
+
+export interface PushSendResult {
+  ok: boolean;
+  status: number;
+  /** The subscription no longer exists (404/410) and should be deleted */
+  gone: boolean;
+}
+
+export class WebPushError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+}
+
+/** Record size announced in the aes128gcm header */
+const RECORD_SIZE = 4096;
+
+/** Largest plaintext a push service must accept: 4096 - 86 (header) - 16 (tag) - 1 (delimiter) */
+export const MAX_PAYLOAD_BYTES = 3993;
+
+const encoder = new TextEncoder();
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Generate a VAPID key pair (base64url public point and private scalar)
+ */
+export async function generateVapidKeys(): Promise<{ publicKey: string; privateKey: string }> {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+  const privateJwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+
+  return { publicKey: encodeBase64Url(publicKey), privateKey: privateJwk.d! };
+}
+
+/**
+ * Import a P-256 key pair from its base64url public point and private scalar
+ */
+export async function importP256KeyPair(
+  publicKey: string,
+  privateKey: string,
+  algorithm: 'ECDSA' | 'ECDH',
+): Promise<CryptoKeyPair> {
+  const point = decodePublicKey(publicKey);
+  const jwk: JsonWebKey = {
+    kty: 'EC',
+    crv: 'P-256',
+    x: encodeBase64Url(point.slice(1, 33)),
+    y: encodeBase64Url(point.slice(33, 65)),
+  };
+  const params = { name: algorithm, namedCurve: 'P-256' };
+  const usages: KeyUsage[] = algorithm === 'ECDSA' ? ['sign'] : ['deriveBits'];
+
+  return {
+    publicKey: await crypto.subtle.importKey('jwk', jwk, params, true, algorithm === 'ECDSA' ? ['verify'] : []),
+    privateKey: await crypto.subtle.importKey('jwk', { ...jwk, d: privateKey }, params, false, usages),
+  };
+}
+
+// ============================================================================
+// Encryption (RFC 8291)
+// ============================================================================
+
+/**
+ * Encrypt a message for one subscription (aes128gcm content coding)
+ *
+ * `salt` and `serverKeys` are generated per message; pass them only to
+ * reproduce known test vectors.
+ */
+export async function encryptPushPayload(
+  plaintext: Uint8Array,
+  keys: PushSubscriptionKeys,
+  options: { salt?: Uint8Array; serverKeys?: CryptoKeyPair } = {},
+): Promise<Uint8Array> {
+  if (plaintext.length > MAX_PAYLOAD_BYTES) {
+    throw new WebPushError(`Push payload is ${plaintext.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`);
+  }
+
+  const uaPublic = decodePublicKey(keys.p256dh);
+  const authSecret = decodeKey(keys.auth, 'auth');
+  if (authSecret.length !== 16) {
+    throw new WebPushError('Subscription auth secret must be 16 bytes');
+  }
+
+  const serverKeys = options.serverKeys ??
+    await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const serverPublic = new Uint8Array(await crypto.subtle.exportKey('raw', serverKeys.publicKey));
+
+  const uaKey = await crypto.subtle.importKey('raw', uaPublic, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: uaKey }, serverKeys.privateKey, 256),
+  );
+
+  // Combine the shared secret with the auth secret, bound to both public keys
+  const ikm = await hkdf(authSecret, ecdhSecret, concat(encoder.encode('WebPush: info\0'), uaPublic, serverPublic), 32);
+
+  const salt = options.salt ?? crypto.getRandomValues(new Uint8Array(16));
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // A single record: the plaintext, then the last-record delimiter, no padding
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, concat(plaintext, new Uint8Array([2]))),
+  );
+
+  // Header: salt (16) || record size (uint32) || key ID length || key ID (our public key)
+  const header = new Uint8Array(21 + serverPublic.length);
+  header.set(salt, 0);
+  new DataView(header.buffer).setUint32(16, RECORD_SIZE);
+  header[20] = serverPublic.length;
+  header.set(serverPublic, 21);
+
+  return concat(header, ciphertext);
+}
+
+// ============================================================================
+// VAPID (RFC 8292)
+// ============================================================================
+
+/**
+ * Authorization header value for a push to this endpoint
+ */
+export async function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidCredentials,
+  expiresInSeconds: number = WebPushConfig.VAPID_TOKEN_EXPIRY_SECONDS,
+): Promise<string> {
+  const encodeJson = (value: unknown) => encodeBase64Url(encoder.encode(JSON.stringify(value)));
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
+    sub: vapid.subject,
+  };
+
+  const input = `${encodeJson({ typ: 'JWT', alg: 'ES256' })}.${encodeJson(claims)}`;
+  // WebCrypto ECDSA signatures are raw r || s, as JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    vapid.privateKey,
+    encoder.encode(input),
+  );
+
+  return `vapid t=${input}.${encodeBase64Url(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+// ============================================================================
+// Delivery (RFC 8030)
+// ============================================================================
+
+/**
+ * Encrypt and send one message to one subscription
+ *
+ * Push service rejections are returned, not thrown; network failures throw
+ * a WebPushError.
+ */
+export async function sendPushMessage(
+  target: PushTarget,
+  payload: string,
+  vapid: VapidCredentials,
+  options: PushMessageOptions = {},
+): Promise<PushSendResult> {
+  const body = await encryptPushPayload(encoder.encode(payload), target.keys);
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/octet-stream',
+    'Content-Encoding': 'aes128gcm',
+    'TTL': String(options.ttl ?? WebPushConfig.DEFAULT_TTL_SECONDS),
+    'Urgency': options.urgency ?? 'normal',
+    'Authorization': await createVapidAuthorization(target.endpoint, vapid),
+  };
+  if (options.topic) {
+    headers['Topic'] = options.topic;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(target.endpoint, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(WebPushConfig.REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const host = new URL(target.endpoint).host;
+    throw new WebPushError(`Request to ${host} failed: ${error instanceof Error ? error.message : error}`);
+  }
+  await response.body?.cancel();
+
+  return {
+    ok: response.ok,
+    status: response.status,
+    gone: response.status === 404 || response.status === 410,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * HKDF-SHA-256 (extract and expand)
+ */
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+function decodeKey(value: string, name: string): Uint8Array {
+  try {
+    return decodeBase64Url(value);
+  } catch {
+    throw new WebPushError(`Invalid ${name} key encoding`);
+  }
+}
+
+function decodePublicKey(value: string): Uint8Array {
+  const point = decodeKey(value, 'public');
+  if (point.length !== 65 || point[0] !== 0x04) {
+    throw new WebPushError('Public key must be an uncompressed P-256 point');
+  }
+  return point;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
@@ -0,0 +1,681 @@
+/**
+ * WebAuthn (Passkey) Ceremony Verification
+ * Used for passkey registration, passwordless login and passkey 2FA
+ *
+ * Based on Web Authentication Level 2: https://www.w3.org/TR/webauthn-2/
+ * - Registration: §7.1 "Registering a New Credential"
+ * - Authentication: §7.2 "Verifying an Authentication Assertion"
+ *
+ * Attestation is not requested (attestation: 'none'), so authenticator
+ * models are never trusted or restricted. 'none' and packed self-attestation
+ * statements are verified; any other statement a browser forwards is ignored,
+ * which is the same trust level as 'none'.
+ *
+ * Credential public keys are stored as the authenticator's COSE_Key bytes and
+ * imported into WebCrypto on each verification (ES256, EdDSA and RS256).
+ */
+
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+import type {
+  AuthenticationCredential,
+  AuthenticatorTransport,
+  RegistrationCredential,
+} from '../types/webauthn.ts';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RelyingParty {
+  /** Effective domain passkeys are scoped to, e.g. "example.com" */
+  id: string;
+  name: string;
+  /** Origin(s) the ceremonies may run on, e.g. "https://example.com" */
+  origin: string | string[];
+}
+
+export interface CredentialDescriptor {
+  id: string;
+  transports?: AuthenticatorTransport[] | undefined;
+}
+
+/**
+ * JSON form of PublicKeyCredentialCreationOptions (binary fields base64url)
+ */
+export interface RegistrationOptions {
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number;
+  excludeCredentials: Array<{ type: 'public-key'; id: string; transports?: AuthenticatorTransport[] | undefined }>;
+  authenticatorSelection: {
+    residentKey: 'discouraged' | 'preferred' | 'required';
+    requireResidentKey: boolean;
+    userVerification: UserVerification;
+  };
+  attestation: 'none';
+}
+
+/**
+ * JSON form of PublicKeyCredentialRequestOptions (binary fields base64url)
+ */
+export interface AuthenticationOptions {
+  challenge: string;
+  rpId: string;
+  timeout: number;
+  allowCredentials: Array<{ type: 'public-key'; id: string; transports?: AuthenticatorTransport[] | undefined }>;
+  userVerification: UserVerification;
+}
+
+export type UserVerification = 'discouraged' | 'preferred' | 'required';
+
+export interface ExpectedCeremony {
+  /** Challenge issued with the options (base64url) */
+  challenge: string;
+  rp: RelyingParty;
+  /** Require the authenticator to have verified the user (PIN, biometric) */
+  requireUserVerification: boolean;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** COSE_Key bytes (base64url) */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  aaguid: string;
+  backedUp: boolean;
+  userVerified: boolean;
+  attestationFormat: string;
+}
+
+export interface StoredCredential {
+  publicKey: string;
+  signCount: number;
+}
+
+export interface VerifiedAuthentication {
+  signCount: number;
+  backedUp: boolean;
+  userVerified: boolean;
+}
+
+/**
+ * A ceremony response failed verification
+ * The message says which check failed; it is for logs, not end users.
+ */
+export class WebAuthnVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebAuthnVerificationError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** COSE algorithm identifiers (https://www.iana.org/assignments/cose) */
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_EDDSA = -8;
+export const COSE_ALG_RS256 = -257;
+
+/** Algorithms offered to authenticators, in order of preference */
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+// ============================================================================
+// Options
+// ============================================================================
+
+/**
+ * Generate a random challenge (32 bytes, base64url)
+ */
+export function generateChallenge(): string {
+  return encodeBase64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * Build options for navigator.credentials.create()
+ *
+ * Discoverable credentials are preferred so the passkey can also be used for
+ * passwordless login; security keys without storage still work as a second factor.
+ */
+export function generateRegistrationOptions(params: {
+  rp: RelyingParty;
+  user: { id: string; name: string; displayName: string };
+  challenge: string;
+  timeout: number;
+  excludeCredentials?: CredentialDescriptor[];
+}): RegistrationOptions {
+  return {
+    rp: { id: params.rp.id, name: params.rp.name },
+    user: {
+      id: encodeBase64Url(new TextEncoder().encode(params.user.id)),
+      name: params.user.name,
+      displayName: params.user.displayName,
+    },
+    challenge: params.challenge,
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+    timeout: params.timeout,
+    excludeCredentials: (params.excludeCredentials ?? []).map(toDescriptor),
+    authenticatorSelection: {
+      residentKey: 'preferred',
+      requireResidentKey: false,
+      userVerification: 'preferred',
+    },
+    attestation: 'none',
+  };
+}
+
+/**
+ * Build options for navigator.credentials.get()
+ * Leave allowCredentials empty for passwordless login (discoverable credentials).
+ */
+export function generateAuthenticationOptions(params: {
+  rp: RelyingParty;
+  challenge: string;
+  timeout: number;
+  allowCredentials?: CredentialDescriptor[];
+  userVerification: UserVerification;
+}): AuthenticationOptions {
+  return {
+    challenge: params.challenge,
+    rpId: params.rp.id,
+    timeout: params.timeout,
+    allowCredentials: (params.allowCredentials ?? []).map(toDescriptor),
+    userVerification: params.userVerification,
+  };
+}
+
+/**
+ * Decode the user handle returned by a discoverable credential back to a user ID
+ */
+export function decodeUserHandle(userHandle: string): string {
+  return new TextDecoder().decode(decodeBase64Url(userHandle));
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verify a navigator.credentials.create() response (WebAuthn §7.1)
+ *
+ * @throws WebAuthnVerificationError if any check fails
+ */
+export async function verifyRegistrationResponse(
+  credential: RegistrationCredential,
+  expected: ExpectedCeremony,
+): Promise<VerifiedRegistration> {
+  const clientDataJSON = decode(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJSON, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(decode(credential.response.attestationObject, 'attestationObject')).value;
+  if (!(attestation instanceof Map)) {
+    throw new WebAuthnVerificationError('Attestation object is not a CBOR map');
+  }
+
+  const fmt = attestation.get('fmt');
+  const attStmt = attestation.get('attStmt');
+  const authDataBytes = attestation.get('authData');
+  if (typeof fmt !== 'string' || !(attStmt instanceof Map) || !(authDataBytes instanceof Uint8Array)) {
+    throw new WebAuthnVerificationError('Attestation object is missing fmt, attStmt or authData');
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, expected);
+
+  const attested = authData.attestedCredential;
+  if (!attested) {
+    throw new WebAuthnVerificationError('Authenticator data has no attested credential');
+  }
+
+  const credentialId = encodeBase64Url(attested.credentialId);
+  if (credentialId !== credential.rawId || credential.id !== credential.rawId) {
+    throw new WebAuthnVerificationError('Credential ID does not match the attested credential');
+  }
+
+  const { key, algorithm } = await importCoseKey(attested.publicKey);
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new WebAuthnVerificationError(`Unsupported credential algorithm: ${algorithm}`);
+  }
+
+  if (fmt === 'none') {
+    if (attStmt.size !== 0) {
+      throw new WebAuthnVerificationError('"none" attestation must have an empty statement');
+    }
+  } else if (fmt === 'packed' && !attStmt.has('x5c')) {
+    // Self-attestation: signed with the credential's own key
+    const sig = attStmt.get('sig');
+    if (attStmt.get('alg') !== algorithm || !(sig instanceof Uint8Array)) {
+      throw new WebAuthnVerificationError('Invalid packed self-attestation statement');
+    }
+    const signed = concat(authDataBytes, await sha256(clientDataJSON));
+    if (!await verifySignature(algorithm, key, sig, signed)) {
+      throw new WebAuthnVerificationError('Invalid packed self-attestation signature');
+    }
+  }
+
+  return {
+    credentialId,
+    publicKey: encodeBase64Url(attested.publicKey),
+    algorithm,
+    signCount: authData.signCount,
+    aaguid: attested.aaguid,
+    backedUp: authData.backedUp,
+    userVerified: authData.userVerified,
+    attestationFormat: fmt,
+  };
+}
+
+/**
+ * Verify a navigator.credentials.get() response against a stored credential (WebAuthn §7.2)
+ *
+ * Looking up the credential, and checking it belongs to the expected user, is
+ * the caller's job. The signature counter must increase unless the
+ * authenticator does not implement one (always zero, as synced passkeys do);
+ * a counter that goes backwards indicates a cloned authenticator.
+ *
+ * @throws WebAuthnVerificationError if any check fails
+ */
+export async function verifyAuthenticationResponse(
+  credential: AuthenticationCredential,
+  expected: ExpectedCeremony,
+  stored: StoredCredential,
+): Promise<VerifiedAuthentication> {
+  if (credential.id !== credential.rawId) {
+    throw new WebAuthnVerificationError('Credential id and rawId differ');
+  }
+
+  const clientDataJSON = decode(credential.response.clientDataJSON, 'clientDataJSON');
+  verifyClientData(clientDataJSON, 'webauthn.get', expected);
+
+  const authDataBytes = decode(credential.response.authenticatorData, 'authenticatorData');
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, expected);
+
+  const { key, algorithm } = await importCoseKey(decode(stored.publicKey, 'stored public key'));
+  const signature = decode(credential.response.signature, 'signature');
+  const signed = concat(authDataBytes, await sha256(clientDataJSON));
+  if (!await verifySignature(algorithm, key, signature, signed)) {
+    throw new WebAuthnVerificationError('Invalid assertion signature');
+  }
+
+  if ((authData.signCount !== 0 || stored.signCount !== 0) && authData.signCount <= stored.signCount) {
+    throw new WebAuthnVerificationError(
+      `Signature counter did not increase (stored ${stored.signCount}, received ${authData.signCount})`,
+    );
+  }
+
+  return {
+    signCount: authData.signCount,
+    backedUp: authData.backedUp,
+    userVerified: authData.userVerified,
+  };
+}
+
+// ============================================================================
+// Client Data & Authenticator Data
+// ============================================================================
+
+interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  backedUp: boolean;
+  signCount: number;
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Uint8Array;
+    publicKey: Uint8Array;
+  };
+}
+
+function verifyClientData(bytes: Uint8Array, type: string, expected: ExpectedCeremony): void {
+  let clientData: Record<string, unknown>;
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new WebAuthnVerificationError('clientDataJSON is not valid JSON');
+  }
+
+  if (clientData['type'] !== type) {
+    throw new WebAuthnVerificationError(`Unexpected client data type: ${clientData['type']}`);
+  }
+  if (clientData['challenge'] !== expected.challenge) {
+    throw new WebAuthnVerificationError('Challenge does not match');
+  }
+
+  const origins = Array.isArray(expected.rp.origin) ? expected.rp.origin : [expected.rp.origin];
+  if (!origins.includes(clientData['origin'] as string)) {
+    throw new WebAuthnVerificationError(`Unexpected origin: ${clientData['origin']}`);
+  }
+  // We are never embedded in another site's iframe
+  if (clientData['crossOrigin'] === true) {
+    throw new WebAuthnVerificationError('Cross-origin ceremonies are not allowed');
+  }
+}
+
+async function verifyAuthenticatorData(authData: AuthenticatorData, expected: ExpectedCeremony): Promise<void> {
+  const rpIdHash = await sha256(new TextEncoder().encode(expected.rp.id));
+  if (!equalBytes(authData.rpIdHash, rpIdHash)) {
+    throw new WebAuthnVerificationError('RP ID hash does not match');
+  }
+  if (!authData.userPresent) {
+    throw new WebAuthnVerificationError('User was not present');
+  }
+  if (expected.requireUserVerification && !authData.userVerified) {
+    throw new WebAuthnVerificationError('User was not verified');
+  }
+}
+
+/**
+ * Parse authenticator data (WebAuthn §6.1)
+ * rpIdHash (32) | flags (1) | signCount (4) | [attested credential data] | [extensions]
+ */
+function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) {
+    throw new WebAuthnVerificationError('Authenticator data is too short');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const flags = bytes[32]!;
+  const authData: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    userPresent: Boolean(flags & FLAG_USER_PRESENT),
+    userVerified: Boolean(flags & FLAG_USER_VERIFIED),
+    backedUp: Boolean(flags & FLAG_BACKUP_ELIGIBLE) && Boolean(flags & FLAG_BACKED_UP),
+    signCount: view.getUint32(33, false),
+  };
+
+  let offset = 37;
+  if (flags & FLAG_ATTESTED_CREDENTIAL_DATA) {
+    if (bytes.length < offset + 18) {
+      throw new WebAuthnVerificationError('Attested credential data is truncated');
+    }
+    const aaguid = bytes.slice(offset, offset + 16);
+    const idLength = view.getUint16(offset + 16, false);
+    offset += 18;
+
+    const credentialId = bytes.slice(offset, offset + idLength);
+    if (credentialId.length !== idLength) {
+      throw new WebAuthnVerificationError('Credential ID is truncated');
+    }
+    offset += idLength;
+
+    // The COSE key's length is only known by decoding it
+    const publicKeyEnd = decodeCbor(bytes, offset).offset;
+    authData.attestedCredential = {
+      aaguid: formatAaguid(aaguid),
+      credentialId,
+      publicKey: bytes.slice(offset, publicKeyEnd),
+    };
+    offset = publicKeyEnd;
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    offset = decodeCbor(bytes, offset).offset;
+  }
+
+  if (offset !== bytes.length) {
+    throw new WebAuthnVerificationError('Unexpected trailing bytes in authenticator data');
+  }
+
+  return authData;
+}
+
+function formatAaguid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// ============================================================================
+// Keys & Signatures
+// ============================================================================
+
+/**
+ * Import a COSE_Key (RFC 9053) as a WebCrypto verification key
+ */
+async function importCoseKey(bytes: Uint8Array): Promise<{ key: CryptoKey; algorithm: number }> {
+  const cose = decodeCbor(bytes).value;
+  if (!(cose instanceof Map)) {
+    throw new WebAuthnVerificationError('Credential public key is not a COSE key');
+  }
+
+  const kty = cose.get(1);
+  const algorithm = cose.get(3);
+  const bytesParam = (label: number) => {
+    const value = cose.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw new WebAuthnVerificationError(`COSE key parameter ${label} is missing`);
+    }
+    return value;
+  };
+
+  try {
+    if (algorithm === COSE_ALG_ES256 && kty === 2 && cose.get(-1) === 1) {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: 'EC', crv: 'P-256', x: encodeBase64Url(bytesParam(-2)), y: encodeBase64Url(bytesParam(-3)) },
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify'],
+      );
+      return { key, algorithm };
+    }
+
+    if (algorithm === COSE_ALG_EDDSA && kty === 1 && cose.get(-1) === 6) {
+      const key = await crypto.subtle.importKey('raw', bytesParam(-2), { name: 'Ed25519' }, false, ['verify']);
+      return { key, algorithm };
+    }
+
+    if (algorithm === COSE_ALG_RS256 && kty === 3) {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: 'RSA', n: encodeBase64Url(bytesParam(-1)), e: encodeBase64Url(bytesParam(-2)) },
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify'],
+      );
+      return { key, algorithm };
+    }
+  } catch (error) {
+    if (error instanceof WebAuthnVerificationError) {
+      throw error;
+    }
+    throw new WebAuthnVerificationError('Credential public key could not be imported');
+  }
+
+  throw new WebAuthnVerificationError(`Unsupported COSE key (kty ${kty}, alg ${algorithm})`);
+}
+
+async function verifySignature(
+  algorithm: number,
+  key: CryptoKey,
+  signature: Uint8Array,
+  data: Uint8Array,
+): Promise<boolean> {
+  switch (algorithm) {
+    case COSE_ALG_ES256: {
+      // WebAuthn ECDSA signatures are DER; WebCrypto expects raw r || s
+      const raw = derToRawSignature(signature, 32);
+      return raw !== null && await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, raw, data);
+    }
+    case COSE_ALG_EDDSA:
+      return await crypto.subtle.verify({ name: 'Ed25519' }, key, signature, data);
+    case COSE_ALG_RS256:
+      return await crypto.subtle.verify({ name: 'RSASSA-PKCS1-v1_5' }, key, signature, data);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Convert a DER ECDSA signature (SEQUENCE { INTEGER r, INTEGER s }) to raw r || s
+ * Returns null if the encoding is malformed.
+ */
+function derToRawSignature(der: Uint8Array, size: number): Uint8Array | null {
+  if (der.length < 8 || der[0] !== 0x30 || der[1] !== der.length - 2) {
+    return null;
+  }
+
+  const raw = new Uint8Array(size * 2);
+  let offset = 2;
+
+  for (const part of [0, 1]) {
+    if (der[offset] !== 0x02) {
+      return null;
+    }
+    const length = der[offset + 1]!;
+    let integer = der.slice(offset + 2, offset + 2 + length);
+    if (integer.length !== length) {
+      return null;
+    }
+    offset += 2 + length;
+
+    // Strip the sign padding byte, then left-pad to the curve size
+    while (integer.length > size && integer[0] === 0) {
+      integer = integer.slice(1);
+    }
+    if (integer.length > size) {
+      return null;
+    }
+    raw.set(integer, part * size + size - integer.length);
+  }
+
+  return offset === der.length ? raw : null;
+}
+
+// ============================================================================
+// CBOR (RFC 8949)
+// ============================================================================
+
+/**
+ * Decode one CBOR data item starting at offset
+ *
+ * Supports the subset authenticators emit (CTAP2 canonical encoding): integers,
+ * byte and text strings, arrays, maps, booleans, null and floats. Maps decode
+ * to Map so COSE's integer labels survive. Returns the offset after the item.
+ */
+function decodeCbor(bytes: Uint8Array, offset = 0, depth = 0): { value: unknown; offset: number } {
+  if (depth > 16) {
+    throw new WebAuthnVerificationError('CBOR nesting is too deep');
+  }
+  if (offset >= bytes.length) {
+    throw new WebAuthnVerificationError('CBOR data is truncated');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const initial = bytes[offset]!;
+  const majorType = initial >> 5;
+  const info = initial & 0x1f;
+  offset++;
+
+  const readArgument = (): number => {
+    if (info < 24) return info;
+    const size = info === 24 ? 1 : info === 25 ? 2 : info === 26 ? 4 : info === 27 ? 8 : 0;
+    if (size === 0 || offset + size > bytes.length) {
+      throw new WebAuthnVerificationError('Unsupported or truncated CBOR length');
+    }
+    const value = size === 1
+      ? view.getUint8(offset)
+      : size === 2
+      ? view.getUint16(offset, false)
+      : size === 4
+      ? view.getUint32(offset, false)
+      : Number(view.getBigUint64(offset, false));
+    offset += size;
+    return value;
+  };
+
+  switch (majorType) {
+    case 0:
+      return { value: readArgument(), offset };
+    case 1:
+      return { value: -1 - readArgument(), offset };
+    case 2:
+    case 3: {
+      const length = readArgument();
+      if (offset + length > bytes.length) {
+        throw new WebAuthnVerificationError('CBOR string is truncated');
+      }
+      const data = bytes.slice(offset, offset + length);
+      return { value: majorType === 2 ? data : new TextDecoder().decode(data), offset: offset + length };
+    }
+    case 4: {
+      const length = readArgument();
+      const items: unknown[] = [];
+      for (let i = 0; i < length; i++) {
+        const item = decodeCbor(bytes, offset, depth + 1);
+        items.push(item.value);
+        offset = item.offset;
+      }
+      return { value: items, offset };
+    }
+    case 5: {
+      const length = readArgument();
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < length; i++) {
+        const key = decodeCbor(bytes, offset, depth + 1);
+        const value = decodeCbor(bytes, key.offset, depth + 1);
+        map.set(key.value, value.value);
+        offset = value.offset;
+      }
+      return { value: map, offset };
+    }
+    case 7: {
+      if (info === 20) return { value: false, offset };
+      if (info === 21) return { value: true, offset };
+      if (info === 22 || info === 23) return { value: null, offset };
+      if (info === 26 && offset + 4 <= bytes.length) return { value: view.getFloat32(offset, false), offset: offset + 4 };
+      if (info === 27 && offset + 8 <= bytes.length) return { value: view.getFloat64(offset, false), offset: offset + 8 };
+      throw new WebAuthnVerificationError(`Unsupported CBOR simple value: ${info}`);
+    }
+    default:
+      // Tags (6) are not used by authenticators
+      throw new WebAuthnVerificationError(`Unsupported CBOR major type: ${majorType}`);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toDescriptor(credential: CredentialDescriptor) {
+  return {
+    type: 'public-key' as const,
+    id: credential.id,
+    ...(credential.transports?.length && { transports: credential.transports }),
+  };
+}
+
+function decode(value: string, field: string): Uint8Array {
+  try {
+    return decodeBase64Url(value);
+  } catch {
+    throw new WebAuthnVerificationError(`${field} is not valid base64url`);
+  }
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
@@ -0,0 +1,332 @@
+/**
+ * WebSocket Pub/Sub
+ *
+ * Cross-instance fan-out for WebSocket messages using Deno KV.
+ *
+ * Each message is written to a short-lived log under ['ws_messages', publishedAt, id]
+ * and a single head key is bumped in the same atomic commit. Every instance
+ * watches the head key and, on change, scans the log from its cursor and
+ * delivers new messages to its own sockets. KV queues are not used because a
+ * queued message is handed to exactly one listener, not to every instance.
+ *
+ * - De-duplication: message IDs already delivered (including our own, which
+ *   are delivered locally before publishing) are skipped
+ * - Presence: each instance records which users it holds sockets for, so
+ *   user-targeted messages are only published when another instance needs them
+ *
+ * Usage:
+ * ```ts
+ * const pubsub = new WebSocketPubSub({ deliver, getLocalPresence });
+ * await pubsub.start();
+ * await pubsub.publish(envelope);
+ * ```
+ */
+
+import { getKv } from './kv.ts';
+import { createLogger } from './logger.ts';
+
+const logger = createLogger('WebSocketPubSub');
+
+// Configuration
+const MESSAGE_TTL_MS = 60_000; // How long published messages stay readable
+const CLOCK_SKEW_MS = 5_000; // Re-scan window to tolerate clock drift between instances
+const PRESENCE_REFRESH_MS = 30_000; // How often presence and instance heartbeat are rewritten
+const PRESENCE_TTL_MS = PRESENCE_REFRESH_MS * 3; // Presence expires if an instance dies
+
+const HEAD_KEY: Deno.KvKey = ['ws_pubsub_head'];
+
+/**
+ * Who a message is for - resolved against each instance's local sockets
+ */
+export type WebSocketTarget =
+  | { type: 'user'; userId: string }
+  | { type: 'admins' }
+  | { type: 'all' };
+
+/**
+ * Message as published to other instances
+ */
+export interface PubSubEnvelope {
+  id: string;
+  origin: string; // Instance that published the message
+  target: WebSocketTarget;
+  message: unknown;
+  publishedAt: number;
+}
+
+/**
+ * Heartbeat record for a running instance
+ */
+export interface InstancePresence {
+  instanceId: string;
+  startedAt: number;
+  lastHeartbeat: number;
+  connections: number;
+  users: number;
+}
+
+export interface WebSocketPubSubOptions {
+  /** Deliver a message to this instance's sockets */
+  deliver: (envelope: PubSubEnvelope) => void;
+  /** Connection count per user on this instance */
+  getLocalPresence: () => Map<string, number>;
+  getKv?: () => Promise<Deno.Kv>;
+  instanceId?: string;
+}
+
+export class WebSocketPubSub {
+  readonly instanceId: string;
+
+  private deliver: (envelope: PubSubEnvelope) => void;
+  private getLocalPresence: () => Map<string, number>;
+  private getKv: () => Promise<Deno.Kv>;
+
+  private seen = new Map<string, number>(); // messageId -> publishedAt
+  private presentUsers = new Set<string>(); // Users we have written presence for
+  private cursor = 0;
+  private startedAt = 0;
+  private reader: ReadableStreamDefaultReader<Deno.KvEntryMaybe<unknown>[]> | null = null;
+  private listenLoop: Promise<void> | null = null;
+  private heartbeatIntervalId: number | undefined;
+
+  constructor(options: WebSocketPubSubOptions) {
+    this.deliver = options.deliver;
+    this.getLocalPresence = options.getLocalPresence;
+    this.getKv = options.getKv || getKv;
+    this.instanceId = options.instanceId || crypto.randomUUID();
+  }
+
+  get isRunning(): boolean {
+    return this.reader !== null;
+  }
+
+  /**
+   * Start listening for messages from other instances
+   */
+  async start(): Promise<void> {
+    if (this.reader) {
+      return;
+    }
+
+    const kv = await this.getKv();
+    this.startedAt = Date.now();
+    this.cursor = this.startedAt;
+    this.reader = kv.watch([HEAD_KEY]).getReader();
+    this.listenLoop = this.listen(this.reader);
+
+    await this.heartbeat();
+    this.heartbeatIntervalId = setInterval(() => {
+      this.heartbeat().catch((error) => {
+        logger.error('Presence heartbeat failed', error, { instanceId: this.instanceId });
+      });
+    }, PRESENCE_REFRESH_MS);
+
+    logger.info('Pub/sub started', { instanceId: this.instanceId });
+  }
+
+  /**
+   * Stop listening and remove this instance's presence
+   */
+  async stop(): Promise<void> {
+    if (!this.reader) {
+      return;
+    }
+
+    if (this.heartbeatIntervalId !== undefined) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = undefined;
+    }
+
+    const reader = this.reader;
+    this.reader = null;
+    await reader.cancel();
+    await this.listenLoop;
+    this.listenLoop = null;
+
+    const kv = await this.getKv();
+    const atomic = kv.atomic().delete(['ws_instances', this.instanceId]);
+    for (const userId of this.presentUsers) {
+      atomic.delete(['ws_presence', userId, this.instanceId]);
+    }
+    await atomic.commit();
+    this.presentUsers.clear();
+
+    logger.info('Pub/sub stopped', { instanceId: this.instanceId });
+  }
+
+  /**
+   * Publish a message to other instances
+   *
+   * The caller is expected to have delivered it locally already; the ID is
+   * marked as seen so our own watcher skips it.
+   */
+  async publish(envelope: PubSubEnvelope): Promise<void> {
+    this.markSeen(envelope);
+
+    if (!this.reader) {
+      return; // Not started - single instance mode
+    }
+
+    if (envelope.target.type === 'user' && !(await this.hasRemotePresence(envelope.target.userId))) {
+      return; // No other instance holds sockets for this user
+    }
+
+    const kv = await this.getKv();
+    await kv.atomic()
+      .set(['ws_messages', envelope.publishedAt, envelope.id], envelope, { expireIn: MESSAGE_TTL_MS })
+      .set(HEAD_KEY, envelope.id)
+      .commit();
+  }
+
+  /**
+   * Record how many sockets this instance holds for a user
+   */
+  async updatePresence(userId: string, connections: number): Promise<void> {
+    if (!this.reader) {
+      return;
+    }
+
+    const kv = await this.getKv();
+    const key: Deno.KvKey = ['ws_presence', userId, this.instanceId];
+
+    if (connections > 0) {
+      await kv.set(key, { connections, updatedAt: Date.now() }, { expireIn: PRESENCE_TTL_MS });
+      this.presentUsers.add(userId);
+    } else {
+      await kv.delete(key);
+      this.presentUsers.delete(userId);
+    }
+  }
+
+  /**
+   * Whether any other live instance holds sockets for a user
+   */
+  async hasRemotePresence(userId: string): Promise<boolean> {
+    const kv = await this.getKv();
+    for await (const entry of kv.list({ prefix: ['ws_presence', userId] })) {
+      if (entry.key[2] !== this.instanceId) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * List live instances (those whose heartbeat has not expired)
+   */
+  async listInstances(): Promise<InstancePresence[]> {
+    const kv = await this.getKv();
+    const instances: InstancePresence[] = [];
+
+    for await (const entry of kv.list<InstancePresence>({ prefix: ['ws_instances'] })) {
+      instances.push(entry.value);
+    }
+
+    return instances;
+  }
+
+  /**
+   * Remember a delivered message ID, pruning IDs older than the message TTL
+   */
+  private markSeen(envelope: PubSubEnvelope): void {
+    this.seen.set(envelope.id, envelope.publishedAt);
+
+    const cutoff = Date.now() - MESSAGE_TTL_MS - CLOCK_SKEW_MS;
+    for (const [id, publishedAt] of this.seen) {
+      if (publishedAt >= cutoff) {
+        break; // Map iterates in insertion order - the rest are newer
+      }
+      this.seen.delete(id);
+    }
+  }
+
+  /**
+   * Watch the head key and deliver new messages until stopped
+   */
+  private async listen(reader: ReadableStreamDefaultReader<Deno.KvEntryMaybe<unknown>[]>): Promise<void> {
+    let isFirstEvent = true;
+
+    try {
+      while (true) {
+        const { done } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        // First event is the current state when the watch starts
+        if (isFirstEvent) {
+          isFirstEvent = false;
+          continue;
+        }
+
+        await this.drain();
+      }
+    } catch (error) {
+      if (this.reader) {
+        logger.error('Pub/sub watcher failed', error, { instanceId: this.instanceId });
+      }
+    }
+  }
+
+  /**
+   * Deliver messages published since the cursor that we have not seen yet
+   */
+  private async drain(): Promise<void> {
+    const kv = await this.getKv();
+    const entries = kv.list<PubSubEnvelope>({
+      prefix: ['ws_messages'],
+      start: ['ws_messages', this.cursor - CLOCK_SKEW_MS],
+    });
+
+    for await (const entry of entries) {
+      const envelope = entry.value;
+      this.cursor = Math.max(this.cursor, envelope.publishedAt);
+
+      if (this.seen.has(envelope.id)) {
+        continue;
+      }
+      this.markSeen(envelope);
+
+      try {
+        this.deliver(envelope);
+      } catch (error) {
+        logger.error('Failed to deliver published message', error, { messageId: envelope.id });
+      }
+    }
+  }
+
+  /**
+   * Rewrite presence for all local users and this instance's heartbeat
+   */
+  private async heartbeat(): Promise<void> {
+    const kv = await this.getKv();
+    const local = this.getLocalPresence();
+    const now = Date.now();
+    let connections = 0;
+
+    for (const [userId, count] of local) {
+      connections += count;
+      await kv.set(['ws_presence', userId, this.instanceId], { connections: count, updatedAt: now }, {
+        expireIn: PRESENCE_TTL_MS,
+      });
+      this.presentUsers.add(userId);
+    }
+
+    // Users who disconnected without an explicit presence update
+    for (const userId of [...this.presentUsers]) {
+      if (!local.has(userId)) {
+        await kv.delete(['ws_presence', userId, this.instanceId]);
+        this.presentUsers.delete(userId);
+      }
+    }
+
+    const instance: InstancePresence = {
+      instanceId: this.instanceId,
+      startedAt: this.startedAt,
+      lastHeartbeat: now,
+      connections,
+      users: local.size,
+    };
+    await kv.set(['ws_instances', this.instanceId], instance, { expireIn: PRESENCE_TTL_MS });
+  }
+}
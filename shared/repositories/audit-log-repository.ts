@@ -0,0 +1,158 @@
+import { AuditLogEntry, AuditLogFilter } from '../types/audit.ts';
+import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Audit Log Repository
+ *
+ * Append-only store for security audit events:
+ * - Primary record keyed by time (['audit_log', timestamp, id])
+ * - Time-ordered indexes by actor, target and action for filtered queries
+ * - Entries are never updated; they are only removed by retention cleanup
+ */
+export class AuditLogRepository extends BaseRepository<AuditLogEntry> {
+  constructor(options: RepositoryOptions = {}) {
+    super('AuditLog', options);
+  }
+
+  /**
+   * Append an entry with its indexes
+   */
+  async append(data: Omit<AuditLogEntry, 'id' | 'timestamp'>): Promise<AuditLogEntry> {
+    try {
+      const entry: AuditLogEntry = {
+        ...data,
+        id: crypto.randomUUID(),
+        timestamp: new Date().toISOString(),
+      };
+
+      const kv = await this.getKv();
+      const key = this.primaryKey(entry);
+      const atomic = kv.atomic()
+        .check({ key, versionstamp: null })
+        .set(key, entry);
+
+      for (const indexKey of this.indexKeys(entry)) {
+        atomic.set(indexKey, null);
+      }
+
+      const result = await atomic.commit();
+      if (!result.ok) {
+        throw new Error(`Audit log entry already exists: ${entry.id}`);
+      }
+
+      return entry;
+    } catch (error) {
+      this.logger.error('Error appending audit log entry', { action: data.action, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Query entries newest first
+   *
+   * Scans the most selective index available (actor, then target, then
+   * action) over the requested time range and applies any remaining filters
+   * to the records. Pass the returned cursor back to continue.
+   */
+  async query(filter: AuditLogFilter = {}, options: ListOptions = {}): Promise<ListResult<AuditLogEntry>> {
+    try {
+      const kv = await this.getKv();
+      const limit = options.limit || 50;
+
+      const prefix = filter.actorId
+        ? ['audit_log_by_actor', filter.actorId]
+        : filter.targetId
+        ? ['audit_log_by_target', filter.targetId]
+        : filter.action
+        ? ['audit_log_by_action', filter.action]
+        : ['audit_log'];
+      const indexed = prefix[0] !== 'audit_log';
+
+      const from = filter.from ? new Date(filter.from).getTime() : 0;
+      const to = filter.to ? new Date(filter.to).getTime() : Number.MAX_SAFE_INTEGER;
+
+      const iterator = kv.list<AuditLogEntry | null>(
+        { start: [...prefix, from], end: [...prefix, to + 1] },
+        { reverse: true, ...(options.cursor && { cursor: options.cursor }) },
+      );
+
+      const items: AuditLogEntry[] = [];
+      let cursor: string | null = null;
+
+      for await (const item of iterator) {
+        // Index keys end in [timestamp, id]; look up the record they point at
+        const entry = indexed
+          ? (await kv.get<AuditLogEntry>(['audit_log', ...item.key.slice(-2)])).value
+          : item.value;
+
+        if (!entry || !this.matches(entry, filter)) {
+          continue;
+        }
+
+        items.push(entry);
+        if (items.length >= limit) {
+          cursor = iterator.cursor;
+          break;
+        }
+      }
+
+      return { items, cursor, hasMore: cursor !== null };
+    } catch (error) {
+      this.logger.error('Error querying audit log', { filter, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete entries (and their indexes) older than the cutoff
+   * Returns the number of entries removed.
+   */
+  async deleteOlderThan(cutoff: Date): Promise<number> {
+    try {
+      const kv = await this.getKv();
+      let deleted = 0;
+
+      const entries = kv.list<AuditLogEntry>({ start: ['audit_log', 0], end: ['audit_log', cutoff.getTime()] });
+      for await (const { key, value } of entries) {
+        const atomic = kv.atomic().delete(key);
+        for (const indexKey of this.indexKeys(value)) {
+          atomic.delete(indexKey);
+        }
+        await atomic.commit();
+        deleted++;
+      }
+
+      if (deleted > 0) {
+        this.logger.info('Old audit log entries deleted', { deleted, cutoff: cutoff.toISOString() });
+      }
+      return deleted;
+    } catch (error) {
+      this.logger.error('Error deleting old audit log entries', { error });
+      throw error;
+    }
+  }
+
+  private primaryKey(entry: AuditLogEntry): Deno.KvKey {
+    return ['audit_log', new Date(entry.timestamp).getTime(), entry.id];
+  }
+
+  private indexKeys(entry: AuditLogEntry): Deno.KvKey[] {
+    const timestamp = new Date(entry.timestamp).getTime();
+    const keys: Deno.KvKey[] = [['audit_log_by_action', entry.action, timestamp, entry.id]];
+
+    if (entry.actorId) {
+      keys.push(['audit_log_by_actor', entry.actorId, timestamp, entry.id]);
+    }
+    if (entry.targetId) {
+      keys.push(['audit_log_by_target', entry.targetId, timestamp, entry.id]);
+    }
+
+    return keys;
+  }
+
+  private matches(entry: AuditLogEntry, filter: AuditLogFilter): boolean {
+    return (!filter.actorId || entry.actorId === filter.actorId) &&
+      (!filter.targetId || entry.targetId === filter.targetId) &&
+      (!filter.action || entry.action === filter.action);
+  }
+}
@@ -0,0 +1,109 @@
+import { FileData } from '../types/files.ts';
+import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * File Repository
+ *
+ * Stores metadata for uploaded files (the bytes live in Storage):
+ * - Primary record by file ID
+ * - Per-user index for listing and ownership checks
+ * - Derived variants linked to their original via parentId
+ */
+export class FileRepository extends BaseRepository<FileData> {
+  constructor(options: RepositoryOptions = {}) {
+    super('File', options);
+  }
+
+  /**
+   * Save metadata for a stored file
+   */
+  async create(data: Omit<FileData, 'id' | 'createdAt'> & { id?: string }): Promise<FileData> {
+    try {
+      const file: FileData = {
+        ...data,
+        id: data.id ?? crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+      };
+
+      const kv = await this.getKv();
+      const result = await kv.atomic()
+        .check({ key: ['files', file.id], versionstamp: null })
+        .set(['files', file.id], file)
+        .set(['files_by_user', file.userId, file.id], file.id)
+        .commit();
+
+      if (!result.ok) {
+        throw new Error(`File already exists: ${file.id}`);
+      }
+
+      this.logger.info('File created', { fileId: file.id, userId: file.userId, size: file.size });
+      return file;
+    } catch (error) {
+      this.logger.error('Error creating file', { userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find file by ID
+   */
+  async findById(fileId: string): Promise<FileData | null> {
+    return await this.get(['files', fileId]);
+  }
+
+  /**
+   * List files owned by a user (newest first)
+   */
+  async listByUser(userId: string, options: ListOptions = {}): Promise<ListResult<FileData>> {
+    try {
+      const kv = await this.getKv();
+      const files: FileData[] = [];
+
+      const entries = kv.list<string>({ prefix: ['files_by_user', userId] });
+      for await (const entry of entries) {
+        const file = await this.findById(entry.value);
+        if (file) {
+          files.push(file);
+        }
+      }
+
+      files.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+      const limit = options.limit || files.length;
+      return {
+        items: files.slice(0, limit),
+        cursor: null,
+        hasMore: files.length > limit,
+      };
+    } catch (error) {
+      this.logger.error('Error listing user files', { userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * List derived variants of a file (thumbnails, resized copies)
+   */
+  async findVariants(file: FileData): Promise<FileData[]> {
+    const { items } = await this.listByUser(file.userId);
+    return items.filter((item) => item.parentId === file.id);
+  }
+
+  /**
+   * Delete file metadata and its user index entry
+   */
+  async deleteFile(file: FileData): Promise<void> {
+    try {
+      const kv = await this.getKv();
+      await kv.atomic()
+        .delete(['files', file.id])
+        .delete(['files_by_user', file.userId, file.id])
+        .commit();
+
+      this.logger.info('File deleted', { fileId: file.id, userId: file.userId });
+    } catch (error) {
+      this.logger.error('Error deleting file', { fileId: file.id, error });
+      throw error;
+    }
+  }
+}
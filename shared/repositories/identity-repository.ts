@@ -0,0 +1,116 @@
+import { LinkedIdentity } from '../types/identity.ts';
+import { BaseRepository, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Identity Repository
+ *
+ * Stores external sign-in identities linked to local users:
+ * - Primary record by provider + subject (looked up on every social sign-in)
+ * - Per-user index, one identity per provider, for the profile page
+ */
+export class IdentityRepository extends BaseRepository<LinkedIdentity> {
+  constructor(options: RepositoryOptions = {}) {
+    super('Identity', options);
+  }
+
+  /**
+   * Link an identity to a user
+   * @throws Error if the identity is linked already, or the user has one for this provider
+   */
+  async create(data: Omit<LinkedIdentity, 'linkedAt' | 'lastUsedAt'>): Promise<LinkedIdentity> {
+    try {
+      const identity: LinkedIdentity = {
+        ...data,
+        linkedAt: new Date().toISOString(),
+        lastUsedAt: null,
+      };
+
+      const kv = await this.getKv();
+      const result = await kv.atomic()
+        .check({ key: ['identities', identity.provider, identity.subject], versionstamp: null })
+        .check({ key: ['identities_by_user', identity.userId, identity.provider], versionstamp: null })
+        .set(['identities', identity.provider, identity.subject], identity)
+        .set(['identities_by_user', identity.userId, identity.provider], identity.subject)
+        .commit();
+
+      if (!result.ok) {
+        throw new Error(`Identity already linked: ${identity.provider}`);
+      }
+
+      this.logger.info('Identity linked', { userId: identity.userId, provider: identity.provider });
+      return identity;
+    } catch (error) {
+      this.logger.error('Error linking identity', { userId: data.userId, provider: data.provider, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find identity by provider and subject
+   */
+  async findByProviderSubject(provider: string, subject: string): Promise<LinkedIdentity | null> {
+    return await this.get(['identities', provider, subject]);
+  }
+
+  /**
+   * Find the identity a user has linked for a provider
+   */
+  async findByUserAndProvider(userId: string, provider: string): Promise<LinkedIdentity | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<string>(['identities_by_user', userId, provider]);
+    return entry.value ? await this.findByProviderSubject(provider, entry.value) : null;
+  }
+
+  /**
+   * List a user's linked identities (oldest first)
+   */
+  async listByUser(userId: string): Promise<LinkedIdentity[]> {
+    const kv = await this.getKv();
+    const identities: LinkedIdentity[] = [];
+
+    for await (const entry of kv.list<string>({ prefix: ['identities_by_user', userId] })) {
+      const identity = await this.findByProviderSubject(entry.key[2] as string, entry.value);
+      if (identity) {
+        identities.push(identity);
+      }
+    }
+
+    return identities.sort((a, b) => a.linkedAt.localeCompare(b.linkedAt));
+  }
+
+  /**
+   * Record a sign-in with the identity
+   */
+  async recordUse(identity: LinkedIdentity, profile: { email: string | null; name: string | null }): Promise<void> {
+    await this.set(['identities', identity.provider, identity.subject], {
+      ...identity,
+      email: profile.email,
+      name: profile.name,
+      lastUsedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Unlink an identity
+   */
+  async deleteIdentity(identity: LinkedIdentity): Promise<void> {
+    const kv = await this.getKv();
+    await kv.atomic()
+      .delete(['identities', identity.provider, identity.subject])
+      .delete(['identities_by_user', identity.userId, identity.provider])
+      .commit();
+
+    this.logger.info('Identity unlinked', { userId: identity.userId, provider: identity.provider });
+  }
+
+  /**
+   * Unlink all of a user's identities (account deletion)
+   */
+  async deleteAllForUser(userId: string): Promise<number> {
+    const identities = await this.listByUser(userId);
+    for (const identity of identities) {
+      await this.deleteIdentity(identity);
+    }
+    return identities.length;
+  }
+}
@@ -23,23 +23,62 @@ export { UserRepository } from './user-repository.ts';
 
 export { TokenRepository } from './token-repository.ts';
 export type {
+    AccountUnlockTokenData,
     BlacklistTokenData,
+    EmailChangeTokenData,
     EmailVerificationTokenData,
     PasswordResetTokenData,
-    RefreshTokenData
+    RefreshTokenData,
+    RefreshTokenMetadata,
+    RotatedRefreshTokenData,
+    OidcLoginCodeData,
+    OidcStateData,
+    TwoFactorChallengeData,
+    TwoFactorFirstFactor,
+    WebAuthnChallengeData
 } from './token-repository.ts';
 
 export { NotificationRepository } from './notification-repository.ts';
 export type { NotificationQueryOptions } from './notification-repository.ts';
 
+export { NotificationPreferencesRepository } from './notification-preferences-repository.ts';
+
+export { NotificationBroadcastRepository } from './notification-broadcast-repository.ts';
+
+export { LoginSecurityRepository } from './login-security-repository.ts';
+export type {
+    FailedLoginResult,
+    KnownDeviceData,
+    LockoutPolicy,
+    LoginAttemptData
+} from './login-security-repository.ts';
+
 export { JobRepository } from './job-repository.ts';
 export type { JobQueryOptions } from './job-repository.ts';
 
+export { FileRepository } from './file-repository.ts';
+
+export { AuditLogRepository } from './audit-log-repository.ts';
+
+export { WebAuthnCredentialRepository } from './webauthn-credential-repository.ts';
+
+export { IdentityRepository } from './identity-repository.ts';
+
+export { PushSubscriptionRepository } from './push-subscription-repository.ts';
+
 // Import for factory use
+import { AuditLogRepository } from './audit-log-repository.ts';
+import { FileRepository } from './file-repository.ts';
+import { IdentityRepository } from './identity-repository.ts';
 import { JobRepository } from './job-repository.ts';
+import { LoginSecurityRepository } from './login-security-repository.ts';
+import { NotificationBroadcastRepository } from './notification-broadcast-repository.ts';
+import { NotificationPreferencesRepository } from './notification-preferences-repository.ts';
 import { NotificationRepository } from './notification-repository.ts';
+import { PushSubscriptionRepository } from './push-subscription-repository.ts';
 import { TokenRepository } from './token-repository.ts';
 import { UserRepository } from './user-repository.ts';
+import { WebAuthnCredentialRepository } from './webauthn-credential-repository.ts';
 
 /**
  * Repository factory for dependency injection
@@ -60,7 +99,39 @@ export class RepositoryFactory {
     return new NotificationRepository({ kv: this.kv });
   }
 
+  createNotificationPreferencesRepository() {
+    return new NotificationPreferencesRepository({ kv: this.kv });
+  }
+
+  createNotificationBroadcastRepository() {
+    return new NotificationBroadcastRepository({ kv: this.kv });
+  }
+
+  createLoginSecurityRepository() {
+    return new LoginSecurityRepository({ kv: this.kv });
+  }
+
   createJobRepository() {
     return new JobRepository({ kv: this.kv });
   }
+
+  createFileRepository() {
+    return new FileRepository({ kv: this.kv });
+  }
+
+  createAuditLogRepository() {
+    return new AuditLogRepository({ kv: this.kv });
+  }
+
+  createWebAuthnCredentialRepository() {
+    return new WebAuthnCredentialRepository({ kv: this.kv });
+  }
+
+  createIdentityRepository() {
+    return new IdentityRepository({ kv: this.kv });
+  }
+
+  createPushSubscriptionRepository() {
+    return new PushSubscriptionRepository({ kv: this.kv });
+  }
 }
@@ -282,6 +282,8 @@ export class JobRepository extends BaseRepository<Job> {
     completed: number;
     failed: number;
     retrying: number;
+    cancelled: number;
+    waiting: number;
     total: number;
   }> {
     try {
@@ -294,6 +296,8 @@ export class JobRepository extends BaseRepository<Job> {
         completed: jobs.filter(j => j.status === 'completed').length,
         failed: jobs.filter(j => j.status === 'failed').length,
         retrying: jobs.filter(j => j.status === 'retrying').length,
+        cancelled: jobs.filter(j => j.status === 'cancelled').length,
+        waiting: jobs.filter(j => j.status === 'waiting').length,
         total: jobs.length,
       };
     } catch (error) {
@@ -0,0 +1,149 @@
+import { BaseRepository, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Failed sign-in state for one account
+ */
+export interface LoginAttemptData {
+  userId: string;
+  /** Failures since the last lockout or successful sign-in */
+  failedAttempts: number;
+  /** Lockouts so far - each one lasts twice as long as the last */
+  lockouts: number;
+  lockedUntil: string | null;
+  lastFailedAt: string;
+}
+
+/**
+ * A device + network combination the user has signed in from before
+ */
+export interface KnownDeviceData {
+  userId: string;
+  deviceLabel: string;
+  /** Coarse network of the sign-in IP (e.g. "203.0.113.0/24"), null if unknown */
+  network: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface LockoutPolicy {
+  maxFailedAttempts: number;
+  baseLockoutMs: number;
+  maxLockoutMs: number;
+  /** Quiet period after which failure history is forgotten */
+  resetAfterMs: number;
+}
+
+/**
+ * Result of recording a failed sign-in
+ */
+export interface FailedLoginResult {
+  attempt: LoginAttemptData;
+  /** True when this failure locked the account */
+  locked: boolean;
+}
+
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Login Security Repository
+ *
+ * Manages sign-in protection data:
+ * - Per-account failed attempt counters and lockouts
+ * - Known devices for new device/location alerts
+ */
+export class LoginSecurityRepository extends BaseRepository<LoginAttemptData | KnownDeviceData> {
+  constructor(options: RepositoryOptions = {}) {
+    super('LoginSecurity', options);
+  }
+
+  // ============= Failed Attempts =============
+
+  /**
+   * Get failed sign-in state for an account
+   */
+  async getLoginAttempts(userId: string): Promise<LoginAttemptData | null> {
+    return await this.get(['login_attempts', userId]) as LoginAttemptData | null;
+  }
+
+  /**
+   * Count a failed sign-in, locking the account once the policy's limit is hit
+   * Updated atomically so parallel guesses can't slip past the limit.
+   */
+  async recordFailedLogin(userId: string, policy: LockoutPolicy): Promise<FailedLoginResult> {
+    const kv = await this.getKv();
+    const key = ['login_attempts', userId];
+
+    for (let i = 0; i < MAX_UPDATE_ATTEMPTS; i++) {
+      const entry = await kv.get<LoginAttemptData>(key);
+      const now = Date.now();
+
+      const attempt: LoginAttemptData = {
+        userId,
+        failedAttempts: (entry.value?.failedAttempts ?? 0) + 1,
+        lockouts: entry.value?.lockouts ?? 0,
+        lockedUntil: entry.value?.lockedUntil ?? null,
+        lastFailedAt: new Date(now).toISOString(),
+      };
+
+      let lockoutMs = 0;
+      if (attempt.failedAttempts >= policy.maxFailedAttempts) {
+        lockoutMs = Math.min(policy.baseLockoutMs * 2 ** attempt.lockouts, policy.maxLockoutMs);
+        attempt.lockedUntil = new Date(now + lockoutMs).toISOString();
+        attempt.lockouts++;
+        attempt.failedAttempts = 0;
+      }
+
+      const result = await kv.atomic()
+        .check(entry)
+        .set(key, attempt, { expireIn: Math.max(policy.resetAfterMs, lockoutMs) })
+        .commit();
+
+      if (result.ok) {
+        if (lockoutMs) {
+          this.logger.warn('Account locked after failed sign-in attempts', {
+            userId,
+            lockouts: attempt.lockouts,
+            lockedUntil: attempt.lockedUntil,
+          });
+        }
+        return { attempt, locked: lockoutMs > 0 };
+      }
+    }
+
+    throw new Error('Failed to record sign-in attempt after concurrent updates');
+  }
+
+  /**
+   * Forget failures and lift any lockout (successful sign-in or unlock link)
+   */
+  async clearLoginAttempts(userId: string): Promise<void> {
+    await this.delete(['login_attempts', userId]);
+  }
+
+  // ============= Known Devices =============
+
+  /**
+   * List devices the user has signed in from
+   */
+  async listKnownDevices(userId: string): Promise<KnownDeviceData[]> {
+    const kv = await this.getKv();
+    const devices: KnownDeviceData[] = [];
+
+    for await (const entry of kv.list<KnownDeviceData>({ prefix: ['known_devices', userId] })) {
+      devices.push(entry.value);
+    }
+
+    return devices;
+  }
+
+  /**
+   * Record a sign-in from a device, refreshing its expiry
+   */
+  async saveKnownDevice(device: KnownDeviceData, expireIn: number): Promise<void> {
+    await this.set(
+      ['known_devices', device.userId, device.deviceLabel, device.network ?? 'unknown'],
+      device,
+      { expireIn },
+    );
+  }
+}
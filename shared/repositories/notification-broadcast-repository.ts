@@ -0,0 +1,138 @@
+import { BroadcastBatchResult, BroadcastProgress, NotificationBroadcast } from '../types/notifications.ts';
+import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Notification Broadcast Repository
+ *
+ * Stores admin broadcasts and their delivery progress:
+ * - ['notification_broadcasts', id] -> NotificationBroadcast
+ * - ['notification_broadcasts_by_created', timestamp, id] -> null, for newest-first listing
+ * - ['notification_broadcast_batches', id, batchIndex] -> BroadcastBatchResult
+ * - ['notification_broadcast_recipients', id, userId] -> true (expires), so retried batches skip users already reached
+ *
+ * Each batch job writes only its own result, so batches running in parallel
+ * never contend for the broadcast record.
+ */
+export class NotificationBroadcastRepository extends BaseRepository<NotificationBroadcast> {
+  constructor(options: RepositoryOptions = {}) {
+    super('NotificationBroadcast', options);
+  }
+
+  /**
+   * Store a new broadcast with its listing index
+   */
+  async create(broadcast: NotificationBroadcast): Promise<void> {
+    const kv = await this.getKv();
+    const result = await kv.atomic()
+      .check({ key: ['notification_broadcasts', broadcast.id], versionstamp: null })
+      .set(['notification_broadcasts', broadcast.id], broadcast)
+      .set(['notification_broadcasts_by_created', new Date(broadcast.createdAt).getTime(), broadcast.id], null)
+      .commit();
+
+    if (!result.ok) {
+      throw new Error(`Broadcast already exists: ${broadcast.id}`);
+    }
+  }
+
+  /**
+   * Find a broadcast by ID
+   */
+  async findById(broadcastId: string): Promise<NotificationBroadcast | null> {
+    return await this.get(['notification_broadcasts', broadcastId]);
+  }
+
+  /**
+   * Change some fields of a broadcast
+   */
+  async update(
+    broadcastId: string,
+    updates: Partial<Omit<NotificationBroadcast, 'id' | 'createdAt'>>,
+  ): Promise<NotificationBroadcast | null> {
+    const existing = await this.findById(broadcastId);
+    if (!existing) {
+      this.logger.warn('Cannot update non-existent broadcast', { broadcastId });
+      return null;
+    }
+
+    const updated = { ...existing, ...updates };
+    await this.set(['notification_broadcasts', broadcastId], updated);
+    return updated;
+  }
+
+  /**
+   * List broadcasts newest first (pass the returned cursor back to continue)
+   */
+  async listRecent(options: ListOptions = {}): Promise<ListResult<NotificationBroadcast>> {
+    try {
+      const kv = await this.getKv();
+      const limit = options.limit || 20;
+      const iterator = kv.list<null>(
+        { prefix: ['notification_broadcasts_by_created'] },
+        { reverse: true, ...(options.cursor && { cursor: options.cursor }) },
+      );
+
+      const items: NotificationBroadcast[] = [];
+      let cursor: string | null = null;
+
+      for await (const entry of iterator) {
+        const broadcast = await this.findById(entry.key[entry.key.length - 1] as string);
+        if (!broadcast) {
+          continue;
+        }
+
+        items.push(broadcast);
+        if (items.length >= limit) {
+          cursor = iterator.cursor;
+          break;
+        }
+      }
+
+      return { items, cursor, hasMore: cursor !== null };
+    } catch (error) {
+      this.logger.error('Error listing broadcasts', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of one batch (a retried batch overwrites its earlier result)
+   */
+  async saveBatchResult(broadcastId: string, batchIndex: number, result: BroadcastBatchResult): Promise<void> {
+    const kv = await this.getKv();
+    await kv.set(['notification_broadcast_batches', broadcastId, batchIndex], result);
+  }
+
+  /**
+   * Totals across the batches finished so far
+   */
+  async getProgress(broadcastId: string): Promise<BroadcastProgress> {
+    const kv = await this.getKv();
+    const progress: BroadcastProgress = { delivered: 0, skipped: 0, failed: 0, batchesDone: 0 };
+
+    for await (const entry of kv.list<BroadcastBatchResult>({ prefix: ['notification_broadcast_batches', broadcastId] })) {
+      progress.delivered += entry.value.delivered;
+      progress.skipped += entry.value.skipped;
+      progress.failed += entry.value.failed;
+      progress.batchesDone++;
+    }
+
+    return progress;
+  }
+
+  /**
+   * Whether a user has already been reached by this broadcast
+   */
+  async hasRecipient(broadcastId: string, userId: string): Promise<boolean> {
+    const kv = await this.getKv();
+    const entry = await kv.get<boolean>(['notification_broadcast_recipients', broadcastId, userId]);
+    return entry.value === true;
+  }
+
+  /**
+   * Remember that a user was reached (until the marker expires)
+   */
+  async markRecipient(broadcastId: string, userId: string, expireInMs: number): Promise<void> {
+    const kv = await this.getKv();
+    await kv.set(['notification_broadcast_recipients', broadcastId, userId], true, { expireIn: expireInMs });
+  }
+}
@@ -0,0 +1,112 @@
+import { DigestFrequency, DigestItem, NotificationPreferences } from '../types/notifications.ts';
+import { BaseRepository, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Notification Preferences Repository
+ *
+ * Stores per-user delivery preferences and pending digest items:
+ * - Preferences by user, plus an index from the unsubscribe token to the user
+ * - Digest items grouped by frequency and user, oldest first, expiring if never sent
+ */
+export class NotificationPreferencesRepository extends BaseRepository<NotificationPreferences> {
+  constructor(options: RepositoryOptions = {}) {
+    super('NotificationPreferences', options);
+  }
+
+  /**
+   * Find a user's saved preferences
+   */
+  async findByUserId(userId: string): Promise<NotificationPreferences | null> {
+    return await this.get(['notification_preferences', userId]);
+  }
+
+  /**
+   * Find the user an unsubscribe token belongs to
+   */
+  async findUserIdByUnsubscribeToken(token: string): Promise<string | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<string>(['notification_unsubscribe_tokens', token]);
+    return entry.value;
+  }
+
+  /**
+   * Save preferences and their unsubscribe token index
+   */
+  async save(preferences: NotificationPreferences): Promise<void> {
+    try {
+      const kv = await this.getKv();
+      await kv.atomic()
+        .set(['notification_preferences', preferences.userId], preferences)
+        .set(['notification_unsubscribe_tokens', preferences.unsubscribeToken], preferences.userId)
+        .commit();
+    } catch (error) {
+      this.logger.error('Error saving notification preferences', { userId: preferences.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Hold a notification for the user's next digest
+   */
+  async addDigestItem(frequency: DigestFrequency, item: DigestItem, expireInMs: number): Promise<void> {
+    const kv = await this.getKv();
+    await kv.set(this.digestKey(frequency, item), item, { expireIn: expireInMs });
+  }
+
+  /**
+   * Pending digest items for one frequency, one batch per user (oldest first)
+   */
+  async *listDigestBatches(frequency: DigestFrequency): AsyncGenerator<{ userId: string; items: DigestItem[] }> {
+    const kv = await this.getKv();
+    let batch: { userId: string; items: DigestItem[] } | null = null;
+
+    // Keys sort by user, so each user's items arrive together
+    for await (const entry of kv.list<DigestItem>({ prefix: ['notification_digest', frequency] })) {
+      if (batch && batch.userId !== entry.value.userId) {
+        yield batch;
+        batch = null;
+      }
+      batch ??= { userId: entry.value.userId, items: [] };
+      batch.items.push(entry.value);
+    }
+
+    if (batch) {
+      yield batch;
+    }
+  }
+
+  /**
+   * Remove digest items once sent (or no longer wanted)
+   */
+  async deleteDigestItems(frequency: DigestFrequency, items: DigestItem[]): Promise<void> {
+    const kv = await this.getKv();
+    for (const item of items) {
+      await kv.delete(this.digestKey(frequency, item));
+    }
+  }
+
+  /**
+   * Delete a user's preferences and pending digest items (account deletion)
+   */
+  async deleteAllForUser(userId: string): Promise<void> {
+    const kv = await this.getKv();
+    const preferences = await this.findByUserId(userId);
+
+    if (preferences) {
+      await kv.atomic()
+        .delete(['notification_preferences', userId])
+        .delete(['notification_unsubscribe_tokens', preferences.unsubscribeToken])
+        .commit();
+    }
+
+    for (const frequency of ['daily', 'weekly'] as const) {
+      for await (const entry of kv.list({ prefix: ['notification_digest', frequency, userId] })) {
+        await kv.delete(entry.key);
+      }
+    }
+  }
+
+  private digestKey(frequency: DigestFrequency, item: DigestItem): Deno.KvKey {
+    return ['notification_digest', frequency, item.userId, new Date(item.createdAt).getTime(), item.id];
+  }
+}
@@ -1,4 +1,5 @@
-import { NotificationData, NotificationType } from '../types/notifications.ts';
+import { CompositeIndexManager } from '../lib/composite-indexes.ts';
+import { NotificationCategory, NotificationData, NotificationExtras, NotificationType } from '../types/notifications.ts';
 import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './base-repository.ts';
 
 /**
@@ -16,7 +17,7 @@ export interface NotificationQueryOptions extends ListOptions {
   type?: NotificationType;
   
   /**
-   * Sort by creation date
+   * Sort by creation date (pass the same value with the cursor)
    */
   sortByDate?: 'asc' | 'desc';
 }
@@ -28,7 +29,14 @@ export interface NotificationQueryOptions extends ListOptions {
  * - CRUD operations
  * - Read/unread tracking
  * - Type-based filtering
- * - Pagination support
+ * - Cursor pagination over time-ordered composite indexes
+ * - Grouping repeated events into one unread notification
+ * - Expiry (expired notifications are hidden from lists and deleted by cleanup)
+ *
+ * Key Structure:
+ * - ['notifications', userId, notificationId] -> NotificationData
+ * - Index keys from CompositeIndexManager, written in the same commit
+ * - ['notifications_indexed', userId] -> true once older notifications are indexed
  */
 export class NotificationRepository extends BaseRepository<NotificationData> {
   constructor(options: RepositoryOptions = {}) {
@@ -37,15 +45,37 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
 
   /**
    * Create a new notification
+   *
+   * With a groupKey, an unread notification in the same group is updated
+   * instead: it takes the new text, actions, priority and expiry, its
+   * groupCount goes up and it moves to the top of the list.
    */
   async create(
     userId: string,
     type: NotificationType,
     title: string,
     message: string,
-    link?: string
+    link?: string,
+    category: NotificationCategory = 'general',
+    extras: NotificationExtras = {}
   ): Promise<NotificationData> {
     try {
+      if (extras.groupKey) {
+        const grouped = await this.addToGroup(userId, extras.groupKey, {
+          type,
+          category,
+          title,
+          message,
+          link,
+          actions: extras.actions,
+          priority: extras.priority,
+          expiresAt: extras.expiresAt,
+        });
+        if (grouped) {
+          return grouped;
+        }
+      }
+
       const notificationId = crypto.randomUUID();
       const now = new Date().toISOString();
       
@@ -53,14 +83,22 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
         id: notificationId,
         userId,
         type,
+        category,
         title,
         message,
         read: false,
         link,
+        ...extras,
         createdAt: now,
       };
 
-      await this.set(['notifications', userId, notificationId], notification);
+      const saved = await this.save(
+        { key: ['notifications', userId, notificationId], value: null, versionstamp: null },
+        notification
+      );
+      if (!saved) {
+        throw new Error(`Failed to save notification: ${notificationId}`);
+      }
       
       this.logger.info('Notification created', { userId, notificationId, type });
       return notification;
@@ -78,49 +116,56 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
   }
 
   /**
-   * List notifications for a user
+   * List notifications for a user (newest first by default)
+   *
+   * Pages through the read-status index when filtering by read state (type is
+   * then checked on each record), the type index when filtering by type only,
+   * and the date index otherwise. Pass the returned cursor back to continue.
    */
   async listUserNotifications(
     userId: string,
     options: NotificationQueryOptions = {}
   ): Promise<ListResult<NotificationData>> {
     try {
+      await this.ensureIndexed(userId);
+
       const kv = await this.getKv();
-      let notifications: NotificationData[] = [];
-      
-      const entries = kv.list<NotificationData>({ prefix: ['notifications', userId] });
-      for await (const entry of entries) {
-        if (entry.value) {
-          notifications.push(entry.value);
+      const limit = options.limit || 50;
+
+      const prefix = options.read !== undefined
+        ? ['notifications_by_user_read', userId, options.read ? 'read' : 'unread']
+        : options.type
+        ? ['notifications_by_user_type', userId, options.type]
+        : ['notifications_by_user', userId];
+
+      const iterator = kv.list<null>(
+        { prefix },
+        {
+          reverse: (options.sortByDate || 'desc') === 'desc',
+          ...(options.cursor && { cursor: options.cursor }),
         }
-      }
+      );
 
-      // Apply filters
-      if (options.read !== undefined) {
-        notifications = notifications.filter(n => n.read === options.read);
-      }
+      const items: NotificationData[] = [];
+      let cursor: string | null = null;
 
-      if (options.type) {
-        notifications = notifications.filter(n => n.type === options.type);
-      }
+      for await (const entry of iterator) {
+        // Index keys end in [timestamp, notificationId]
+        const notificationId = entry.key[entry.key.length - 1] as string;
+        const notification = await this.findById(userId, notificationId);
 
-      // Sort by date
-      const sortOrder = options.sortByDate || 'desc';
-      notifications.sort((a, b) => {
-        const dateA = new Date(a.createdAt).getTime();
-        const dateB = new Date(b.createdAt).getTime();
-        return sortOrder === 'desc' ? dateB - dateA : dateA - dateB;
-      });
+        if (!notification || isExpired(notification) || (options.type && notification.type !== options.type)) {
+          continue;
+        }
 
-      // Apply pagination
-      const limit = options.limit || notifications.length;
-      const items = notifications.slice(0, limit);
+        items.push(notification);
+        if (items.length >= limit) {
+          cursor = iterator.cursor;
+          break;
+        }
+      }
 
-      return {
-        items,
-        cursor: null,
-        hasMore: notifications.length > limit,
-      };
+      return { items, cursor, hasMore: cursor !== null };
     } catch (error) {
       this.logger.error('Error listing user notifications', { userId, error });
       throw error;
@@ -132,23 +177,19 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
    */
   async markAsRead(userId: string, notificationId: string): Promise<NotificationData | null> {
     try {
-      const notification = await this.findById(userId, notificationId);
+      const { previous, next } = await this.modify(userId, notificationId, (notification) => ({
+        ...notification,
+        read: true,
+        readAt: new Date().toISOString(),
+      }));
       
-      if (!notification) {
+      if (!previous) {
         this.logger.warn('Cannot mark non-existent notification as read', { userId, notificationId });
         return null;
       }
-
-      const updatedNotification: NotificationData = {
-        ...notification,
-        read: true,
-        readAt: new Date().toISOString(),
-      };
-
-      await this.set(['notifications', userId, notificationId], updatedNotification);
       
       this.logger.info('Notification marked as read', { userId, notificationId });
-      return updatedNotification;
+      return next;
     } catch (error) {
       this.logger.error('Error marking notification as read', { userId, notificationId, error });
       throw error;
@@ -160,21 +201,26 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
    */
   async markAllAsRead(userId: string): Promise<number> {
     try {
+      await this.ensureIndexed(userId);
+
       const kv = await this.getKv();
-      const notifications = await this.listUserNotifications(userId, { read: false });
-      
+      const notificationIds: string[] = [];
+
+      // Collect first: each update moves the entry out of the index being listed
+      for await (const entry of kv.list({ prefix: ['notifications_by_user_read', userId, 'unread'] })) {
+        notificationIds.push(entry.key[entry.key.length - 1] as string);
+      }
+
       let count = 0;
       const now = new Date().toISOString();
       
-      for (const notification of notifications.items) {
-        const updatedNotification: NotificationData = {
-          ...notification,
-          read: true,
-          readAt: now,
-        };
-        
-        await kv.set(['notifications', userId, notification.id], updatedNotification);
-        count++;
+      for (const notificationId of notificationIds) {
+        const { previous } = await this.modify(userId, notificationId, (notification) =>
+          notification.read ? undefined : { ...notification, read: true, readAt: now }
+        );
+        if (previous && !previous.read) {
+          count++;
+        }
       }
       
       this.logger.info('All notifications marked as read', { userId, count });
@@ -190,14 +236,12 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
    */
   async deleteNotification(userId: string, notificationId: string): Promise<boolean> {
     try {
-      const exists = await this.exists(['notifications', userId, notificationId]);
+      const { previous } = await this.modify(userId, notificationId, () => null);
       
-      if (!exists) {
+      if (!previous) {
         this.logger.warn('Cannot delete non-existent notification', { userId, notificationId });
         return false;
       }
-
-      await this.delete(['notifications', userId, notificationId]);
       
       this.logger.info('Notification deleted', { userId, notificationId });
       return true;
@@ -215,10 +259,12 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
       const kv = await this.getKv();
       let count = 0;
       
-      const entries = kv.list({ prefix: ['notifications', userId] });
+      const entries = kv.list<NotificationData>({ prefix: ['notifications', userId] });
       for await (const entry of entries) {
-        await kv.delete(entry.key);
-        count++;
+        const { previous } = await this.modify(userId, entry.value.id, () => null);
+        if (previous) {
+          count++;
+        }
       }
       
       this.logger.info('All user notifications deleted', { userId, count });
@@ -231,11 +277,13 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
 
   /**
    * Get unread notification count for a user
+   *
+   * Counted from the index, so expired notifications count until cleanup deletes them.
    */
   async getUnreadCount(userId: string): Promise<number> {
     try {
-      const notifications = await this.listUserNotifications(userId, { read: false });
-      return notifications.items.length;
+      await this.ensureIndexed(userId);
+      return await this.countIndexEntries(['notifications_by_user_read', userId, 'unread']);
     } catch (error) {
       this.logger.error('Error getting unread count', { userId, error });
       throw error;
@@ -247,7 +295,7 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
    */
   async getCountsByType(userId: string): Promise<Record<NotificationType, number>> {
     try {
-      const notifications = await this.listUserNotifications(userId);
+      await this.ensureIndexed(userId);
       
       const counts: Record<NotificationType, number> = {
         info: 0,
@@ -256,8 +304,8 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
         error: 0,
       };
 
-      for (const notification of notifications.items) {
-        counts[notification.type]++;
+      for (const type of Object.keys(counts) as NotificationType[]) {
+        counts[type] = await this.countIndexEntries(['notifications_by_user_type', userId, type]);
       }
 
       return counts;
@@ -279,13 +327,21 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
       let count = 0;
       
       const entries = kv.list<NotificationData>({ prefix: ['notifications'] });
+      const isOldRead = (notification: NotificationData) =>
+        notification.read && notification.readAt !== undefined && new Date(notification.readAt) < cutoffDate;
+      
       for await (const entry of entries) {
-        if (entry.value && entry.value.read && entry.value.readAt) {
-          const readDate = new Date(entry.value.readAt);
-          if (readDate < cutoffDate) {
-            await kv.delete(entry.key);
-            count++;
-          }
+        if (!entry.value || !isOldRead(entry.value)) {
+          continue;
+        }
+
+        const { previous, next } = await this.modify(
+          entry.value.userId,
+          entry.value.id,
+          (notification) => isOldRead(notification) ? null : undefined
+        );
+        if (previous && !next) {
+          count++;
         }
       }
       
@@ -296,4 +352,183 @@ export class NotificationRepository extends BaseRepository<NotificationData> {
       throw error;
     }
   }
+
+  /**
+   * Delete notifications whose expiresAt has passed (cleanup)
+   */
+  async deleteExpiredNotifications(now: Date = new Date()): Promise<number> {
+    try {
+      const kv = await this.getKv();
+      let count = 0;
+
+      // Expiry index keys are ['notifications_by_expiry', expiresAtMs, userId, notificationId]
+      const entries = kv.list({
+        start: ['notifications_by_expiry'],
+        end: ['notifications_by_expiry', now.getTime() + 1],
+      });
+
+      for await (const entry of entries) {
+        const [, , userId, notificationId] = entry.key as [string, number, string, string];
+
+        // Re-checked on the current record: grouping may have pushed expiresAt back
+        const { previous, next } = await this.modify(
+          userId,
+          notificationId,
+          (notification) => isExpired(notification, now) ? null : undefined
+        );
+
+        if (!previous) {
+          await kv.delete(entry.key);
+        } else if (!next) {
+          count++;
+        }
+      }
+
+      this.logger.info('Expired notifications deleted', { count });
+      return count;
+    } catch (error) {
+      this.logger.error('Error deleting expired notifications', { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Fold a repeated event into the unread notification of its group
+   *
+   * @returns the updated notification, or null if the group has no unread notification
+   */
+  private async addToGroup(
+    userId: string,
+    groupKey: string,
+    event: Omit<NotificationData, 'id' | 'userId' | 'read' | 'createdAt'>
+  ): Promise<NotificationData | null> {
+    const kv = await this.getKv();
+
+    // Retry when another event for the group is saved between the read and the commit
+    for (let attempt = 0; attempt < 3; attempt++) {
+      // Normally one entry; an expired one stays indexed until cleanup deletes it
+      let current: Deno.KvEntry<NotificationData> | null = null;
+      for await (const entry of kv.list({ prefix: ['notifications_by_user_group', userId, groupKey] })) {
+        const notificationId = entry.key[entry.key.length - 1] as string;
+        const candidate = await kv.get<NotificationData>(['notifications', userId, notificationId]);
+        if (candidate.value && !candidate.value.read && !isExpired(candidate.value)) {
+          current = candidate as Deno.KvEntry<NotificationData>;
+          break;
+        }
+      }
+      if (!current) {
+        return null;
+      }
+
+      const next: NotificationData = {
+        ...current.value,
+        ...event,
+        groupKey,
+        groupCount: (current.value.groupCount ?? 1) + 1,
+        createdAt: new Date().toISOString(),
+      };
+
+      const atomic = kv.atomic().check(current).set(current.key, next);
+      const result = await CompositeIndexManager.applyNotificationIndexes(atomic, current.value, next).commit();
+      if (result.ok) {
+        this.logger.info('Notification grouped', { userId, notificationId: next.id, groupKey, groupCount: next.groupCount });
+        return next;
+      }
+    }
+
+    throw new Error(`Failed to group notification: ${groupKey}`);
+  }
+
+  /**
+   * Write (or delete, when next is null) a notification and its indexes in one commit
+   *
+   * The commit checks the entry's versionstamp, so the index keys removed are
+   * those of the record actually replaced.
+   *
+   * @returns false if the record changed since the entry was read
+   */
+  private async save(current: Deno.KvEntryMaybe<NotificationData>, next: NotificationData | null): Promise<boolean> {
+    const kv = await this.getKv();
+    const atomic = kv.atomic().check(current);
+    if (next) {
+      atomic.set(current.key, next);
+    } else {
+      atomic.delete(current.key);
+    }
+
+    const result = await CompositeIndexManager.applyNotificationIndexes(atomic, current.value, next).commit();
+    return result.ok;
+  }
+
+  /**
+   * Read, change and save a notification, retrying when it changes in between
+   *
+   * @param change - returns the new record, null to delete it, or undefined to leave it
+   * @returns the record as read (null if missing) and as left (null if deleted or missing)
+   */
+  private async modify(
+    userId: string,
+    notificationId: string,
+    change: (notification: NotificationData) => NotificationData | null | undefined
+  ): Promise<{ previous: NotificationData | null; next: NotificationData | null }> {
+    const kv = await this.getKv();
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const current = await kv.get<NotificationData>(['notifications', userId, notificationId]);
+      if (!current.value) {
+        return { previous: null, next: null };
+      }
+
+      const next = change(current.value);
+      if (next === undefined) {
+        return { previous: current.value, next: current.value };
+      }
+
+      if (await this.save(current, next)) {
+        return { previous: current.value, next };
+      }
+    }
+
+    throw new Error(`Failed to save notification: ${notificationId}`);
+  }
+
+  /**
+   * Index a user's notifications stored before the indexes existed (once per user)
+   */
+  private async ensureIndexed(userId: string): Promise<void> {
+    const kv = await this.getKv();
+    const marker = await kv.get<boolean>(['notifications_indexed', userId]);
+    if (marker.value) {
+      return;
+    }
+
+    let count = 0;
+    for await (const entry of kv.list<NotificationData>({ prefix: ['notifications', userId] })) {
+      // Rewrites the record as listed to add its keys; if it changed meanwhile, that write indexed it
+      if (await this.save(entry, entry.value)) {
+        count++;
+      }
+    }
+
+    await kv.set(['notifications_indexed', userId], true);
+    if (count > 0) {
+      this.logger.info('Notification indexes built', { userId, count });
+    }
+  }
+
+  /**
+   * Count keys under an index prefix without loading the records
+   */
+  private async countIndexEntries(prefix: Deno.KvKey): Promise<number> {
+    const kv = await this.getKv();
+    let count = 0;
+    for await (const _entry of kv.list({ prefix })) {
+      count++;
+    }
+    return count;
+  }
+}
+
+function isExpired(notification: NotificationData, now: Date = new Date()): boolean {
+  return notification.expiresAt !== undefined && new Date(notification.expiresAt) <= now;
 }
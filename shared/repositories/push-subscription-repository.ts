@@ -0,0 +1,109 @@
+import { PushSubscriptionRecord } from '../types/notifications.ts';
+import { BaseRepository, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * Push Subscription Repository
+ *
+ * Stores browsers' Web Push subscriptions:
+ * - Primary record by subscription ID (a hash of the endpoint, so each browser has one)
+ * - Per-user index for delivery and listing
+ */
+export class PushSubscriptionRepository extends BaseRepository<PushSubscriptionRecord> {
+  constructor(options: RepositoryOptions = {}) {
+    super('PushSubscription', options);
+  }
+
+  /**
+   * Save a subscription, replacing any earlier one from the same browser
+   * If the browser was subscribed by another user, it moves to this one.
+   */
+  async save(subscription: PushSubscriptionRecord): Promise<void> {
+    try {
+      const kv = await this.getKv();
+      const key = ['push_subscriptions', subscription.id];
+      const existing = await kv.get<PushSubscriptionRecord>(key);
+
+      const atomic = kv.atomic()
+        .check(existing)
+        .set(key, subscription)
+        .set(['push_subscriptions_by_user', subscription.userId, subscription.id], subscription.id);
+
+      if (existing.value && existing.value.userId !== subscription.userId) {
+        atomic.delete(['push_subscriptions_by_user', existing.value.userId, subscription.id]);
+      }
+
+      const result = await atomic.commit();
+      if (!result.ok) {
+        throw new Error(`Push subscription changed while saving: ${subscription.id}`);
+      }
+    } catch (error) {
+      this.logger.error('Error saving push subscription', { userId: subscription.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find subscription by ID
+   */
+  async findById(subscriptionId: string): Promise<PushSubscriptionRecord | null> {
+    return await this.get(['push_subscriptions', subscriptionId]);
+  }
+
+  /**
+   * List a user's subscriptions (oldest first)
+   */
+  async listByUser(userId: string): Promise<PushSubscriptionRecord[]> {
+    const kv = await this.getKv();
+    const subscriptions: PushSubscriptionRecord[] = [];
+
+    for await (const entry of kv.list<string>({ prefix: ['push_subscriptions_by_user', userId] })) {
+      const subscription = await this.findById(entry.value);
+      if (subscription && subscription.userId === userId) {
+        subscriptions.push(subscription);
+      }
+    }
+
+    return subscriptions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Record a push the push service accepted
+   */
+  async recordSuccess(subscriptionId: string): Promise<void> {
+    const kv = await this.getKv();
+    const entry = await kv.get<PushSubscriptionRecord>(['push_subscriptions', subscriptionId]);
+    if (!entry.value) {
+      return;
+    }
+
+    // Lost updates are harmless here; a subscription saved meanwhile wins
+    await kv.atomic()
+      .check(entry)
+      .set(entry.key, { ...entry.value, lastSuccessAt: new Date().toISOString() })
+      .commit();
+  }
+
+  /**
+   * Delete a subscription
+   */
+  async deleteSubscription(subscription: PushSubscriptionRecord): Promise<void> {
+    const kv = await this.getKv();
+    await kv.atomic()
+      .delete(['push_subscriptions', subscription.id])
+      .delete(['push_subscriptions_by_user', subscription.userId, subscription.id])
+      .commit();
+
+    this.logger.info('Push subscription deleted', { userId: subscription.userId, subscriptionId: subscription.id });
+  }
+
+  /**
+   * Delete all of a user's subscriptions (account deletion)
+   */
+  async deleteAllForUser(userId: string): Promise<number> {
+    const subscriptions = await this.listByUser(userId);
+    for (const subscription of subscriptions) {
+      await this.deleteSubscription(subscription);
+    }
+    return subscriptions.length;
+  }
+}
@@ -6,8 +6,35 @@ import { BaseRepository, RepositoryOptions } from './base-repository.ts';
 export interface RefreshTokenData {
   userId: string;
   tokenId: string;
+  /** Shared by every token rotated from the same login; absent on tokens issued before rotation */
+  familyId?: string | undefined;
   expiresAt: number;
   createdAt: string;
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+  deviceLabel?: string | undefined;
+  lastUsedAt?: string | undefined;
+}
+
+/**
+ * Tombstone left behind when a refresh token is rotated, used to spot reuse
+ */
+export interface RotatedRefreshTokenData {
+  userId: string;
+  tokenId: string;
+  familyId: string;
+  replacedBy: string;
+  rotatedAt: string;
+  expiresAt: number;
+}
+
+/**
+ * Client details recorded against a refresh token (one live token per session)
+ */
+export interface RefreshTokenMetadata {
+  userAgent?: string | undefined;
+  ipAddress?: string | undefined;
+  deviceLabel?: string | undefined;
 }
 
 export interface BlacklistTokenData {
@@ -32,17 +59,91 @@ export interface EmailVerificationTokenData {
   createdAt: string;
 }
 
+export interface EmailChangeTokenData {
+  userId: string;
+  currentEmail: string;
+  newEmail: string;
+  /** Sent to the current address so its owner can stop the change (missing on older requests) */
+  cancelToken?: string;
+  expiresAt: number;
+  createdAt: string;
+}
+
+export interface AccountUnlockTokenData {
+  userId: string;
+  email: string;
+  expiresAt: number;
+  createdAt: string;
+}
+
+/**
+ * How the user got past the first step of a login paused for 2FA
+ */
+export interface TwoFactorFirstFactor {
+  method: 'password' | 'social';
+  provider?: string | undefined; // Social sign-in provider ID
+}
+
+export interface TwoFactorChallengeData {
+  userId: string;
+  challengeId: string;
+  attempts: number;
+  firstFactor?: TwoFactorFirstFactor; // Absent on challenges stored before social sign-in
+  expiresAt: number;
+  createdAt: string;
+}
+
+export interface WebAuthnChallengeData {
+  challenge: string;
+  userId: string | null; // null for passwordless sign-in (user is identified by the passkey)
+  ceremony: 'registration' | 'authentication';
+  expiresAt: number;
+  createdAt: string;
+}
+
+export interface OidcStateData {
+  provider: string;
+  codeVerifier: string; // PKCE verifier, sent with the code exchange
+  nonce: string;
+  redirectTo: string;
+  linkUserId: string | null; // Set when a signed-in user is linking the identity
+  expiresAt: number;
+  createdAt: string;
+}
+
+export interface OidcLoginCodeData {
+  userId: string;
+  provider: string;
+  expiresAt: number;
+  createdAt: string;
+}
+
 /**
  * Token Repository
  * 
  * Manages all token-related data:
- * - Refresh tokens
+ * - Refresh tokens (rotated on use, grouped into families per login)
  * - Token blacklist
  * - Password reset tokens
  * - Email verification tokens
+ * - Email change tokens
+ * - Account unlock tokens
+ * - Two-factor login challenges
+ * - WebAuthn ceremony challenges
+ * - Social sign-in state and one-time login codes
  */
 export class TokenRepository extends BaseRepository<
-  RefreshTokenData | BlacklistTokenData | PasswordResetTokenData | EmailVerificationTokenData
+  | RefreshTokenData
+  | RotatedRefreshTokenData
+  | BlacklistTokenData
+  | PasswordResetTokenData
+  | EmailVerificationTokenData
+  | EmailChangeTokenData
+  | AccountUnlockTokenData
+  | TwoFactorChallengeData
+  | WebAuthnChallengeData
+  | OidcStateData
+  | OidcLoginCodeData
 > {
   constructor(options: RepositoryOptions = {}) {
     super('Token', options);
@@ -52,17 +153,24 @@ export class TokenRepository extends BaseRepository<
 
   /**
    * Store a refresh token
+   * A token stored without a familyId starts a new family named after itself.
    */
   async storeRefreshToken(
     userId: string,
     tokenId: string,
-    expiresAt: number
+    expiresAt: number,
+    metadata: RefreshTokenMetadata = {},
+    familyId: string = tokenId
   ): Promise<void> {
+    const now = new Date().toISOString();
     const tokenData: RefreshTokenData = {
       userId,
       tokenId,
+      familyId,
       expiresAt,
-      createdAt: new Date().toISOString(),
+      createdAt: now,
+      ...metadata,
+      lastUsedAt: now,
     };
 
     await this.set(['refresh_tokens', userId, tokenId], tokenData, {
@@ -98,6 +206,86 @@ export class TokenRepository extends BaseRepository<
     return true;
   }
 
+  /**
+   * Replace a refresh token with its successor in the same family
+   *
+   * Atomically deletes the used token, stores the new one (keeping the
+   * session's createdAt, expiry and client details) and leaves a tombstone so
+   * a later replay of the old token can be recognised. Returns the new token
+   * data, or null if the old token was already gone or rotated concurrently.
+   */
+  async rotateRefreshToken(
+    userId: string,
+    tokenId: string,
+    newTokenId: string,
+    metadata: RefreshTokenMetadata = {}
+  ): Promise<RefreshTokenData | null> {
+    const kv = await this.getKv();
+    const key = ['refresh_tokens', userId, tokenId];
+    const entry = await kv.get<RefreshTokenData>(key);
+
+    if (!entry.value) {
+      return null;
+    }
+
+    const current = entry.value;
+    const familyId = current.familyId || current.tokenId;
+    const expireIn = current.expiresAt * 1000 - Date.now();
+    const now = new Date().toISOString();
+
+    const next: RefreshTokenData = {
+      ...current,
+      ...Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined)),
+      tokenId: newTokenId,
+      familyId,
+      lastUsedAt: now,
+    };
+
+    const tombstone: RotatedRefreshTokenData = {
+      userId,
+      tokenId,
+      familyId,
+      replacedBy: newTokenId,
+      rotatedAt: now,
+      expiresAt: current.expiresAt,
+    };
+
+    const result = await kv.atomic()
+      .check(entry)
+      .delete(key)
+      .set(['refresh_tokens', userId, newTokenId], next, { expireIn })
+      .set(['refresh_tokens_rotated', tokenId], tombstone, { expireIn })
+      .commit();
+
+    if (!result.ok) {
+      return null;
+    }
+
+    this.logger.info('Refresh token rotated', { userId, familyId, tokenId, newTokenId });
+    return next;
+  }
+
+  /**
+   * Tombstone of a refresh token that has already been rotated
+   */
+  async getRotatedRefreshToken(tokenId: string): Promise<RotatedRefreshTokenData | null> {
+    return await this.get(['refresh_tokens_rotated', tokenId]) as RotatedRefreshTokenData | null;
+  }
+
+  /**
+   * Revoke every live token in a refresh token family (one login session)
+   * Returns the number of tokens revoked.
+   */
+  async revokeRefreshTokenFamily(userId: string, familyId: string): Promise<number> {
+    const tokens = await this.listUserRefreshTokens(userId);
+    const family = tokens.filter((token) => (token.familyId || token.tokenId) === familyId);
+
+    await Promise.all(family.map((token) => this.delete(['refresh_tokens', userId, token.tokenId])));
+
+    this.logger.info('Refresh token family revoked', { userId, familyId, count: family.length });
+    return family.length;
+  }
+
   /**
    * Revoke a specific refresh token
    */
@@ -108,19 +296,23 @@ export class TokenRepository extends BaseRepository<
 
   /**
    * Revoke all refresh tokens for a user
+   * Pass exceptTokenId to keep the caller's own session alive
    */
-  async revokeAllUserRefreshTokens(userId: string): Promise<void> {
+  async revokeAllUserRefreshTokens(userId: string, exceptTokenId?: string): Promise<void> {
     try {
       const kv = await this.getKv();
       const tokens = kv.list({ prefix: ['refresh_tokens', userId] });
       
       const deleteOperations: Promise<void>[] = [];
       for await (const entry of tokens) {
+        if (exceptTokenId && entry.key[2] === exceptTokenId) {
+          continue;
+        }
         deleteOperations.push(kv.delete(entry.key));
       }
       
       await Promise.all(deleteOperations);
-      this.logger.info('All refresh tokens revoked for user', { userId });
+      this.logger.info('All refresh tokens revoked for user', { userId, exceptTokenId });
     } catch (error) {
       this.logger.error('Error revoking all user refresh tokens', { userId, error });
       throw error;
@@ -295,6 +487,374 @@ export class TokenRepository extends BaseRepository<
     this.logger.info('Email verification token deleted', { verificationToken });
   }
 
+  // ============= Email Change Tokens =============
+
+  /**
+   * Store a pending email change
+   * Replaces any earlier pending change for the same user
+   */
+  async storeEmailChangeToken(
+    changeToken: string,
+    cancelToken: string,
+    userId: string,
+    currentEmail: string,
+    newEmail: string,
+    expiresAt: number
+  ): Promise<void> {
+    const tokenData: EmailChangeTokenData = {
+      userId,
+      currentEmail,
+      newEmail,
+      cancelToken,
+      expiresAt,
+      createdAt: new Date().toISOString(),
+    };
+    const expireIn = expiresAt * 1000 - Date.now();
+
+    const kv = await this.getKv();
+    const previous = await kv.get<string>(['email_change_by_user', userId]);
+
+    const atomic = kv.atomic()
+      .set(['email_change', changeToken], tokenData, { expireIn })
+      .set(['email_change_cancel', cancelToken], changeToken, { expireIn })
+      .set(['email_change_by_user', userId], changeToken, { expireIn });
+    if (previous.value) {
+      const previousData = await kv.get<EmailChangeTokenData>(['email_change', previous.value]);
+      atomic.delete(['email_change', previous.value]);
+      if (previousData.value?.cancelToken) {
+        atomic.delete(['email_change_cancel', previousData.value.cancelToken]);
+      }
+    }
+    await atomic.commit();
+
+    this.logger.info('Email change token stored', { userId, newEmail });
+  }
+
+  /**
+   * Get email change token
+   */
+  async getEmailChangeToken(changeToken: string): Promise<EmailChangeTokenData | null> {
+    const token = await this.get(['email_change', changeToken]) as EmailChangeTokenData | null;
+
+    if (!token) {
+      return null;
+    }
+
+    // Check if expired
+    if (token.expiresAt < Math.floor(Date.now() / 1000)) {
+      await this.deleteEmailChangeToken(changeToken, token.userId);
+      return null;
+    }
+
+    return token;
+  }
+
+  /**
+   * Find the pending email change a cancel token (sent to the current address) belongs to
+   * @returns the change token and its data, or null if the change is gone
+   */
+  async getEmailChangeByCancelToken(
+    cancelToken: string
+  ): Promise<{ changeToken: string; data: EmailChangeTokenData } | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<string>(['email_change_cancel', cancelToken]);
+    if (!entry.value) {
+      return null;
+    }
+
+    const data = await this.getEmailChangeToken(entry.value);
+    return data && data.cancelToken === cancelToken ? { changeToken: entry.value, data } : null;
+  }
+
+  /**
+   * Get the pending email change for a user, if any
+   */
+  async getPendingEmailChange(userId: string): Promise<EmailChangeTokenData | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<string>(['email_change_by_user', userId]);
+
+    if (!entry.value) {
+      return null;
+    }
+
+    return await this.getEmailChangeToken(entry.value);
+  }
+
+  /**
+   * Delete email change token and its user and cancel-token entries
+   */
+  async deleteEmailChangeToken(changeToken: string, userId: string): Promise<void> {
+    const kv = await this.getKv();
+    const existing = await kv.get<EmailChangeTokenData>(['email_change', changeToken]);
+
+    const atomic = kv.atomic()
+      .delete(['email_change', changeToken])
+      .delete(['email_change_by_user', userId]);
+    if (existing.value?.cancelToken) {
+      atomic.delete(['email_change_cancel', existing.value.cancelToken]);
+    }
+    await atomic.commit();
+    this.logger.info('Email change token deleted', { userId });
+  }
+
+  /**
+   * Delete a user's pending email change, if any
+   */
+  async deletePendingEmailChange(userId: string): Promise<void> {
+    const kv = await this.getKv();
+    const entry = await kv.get<string>(['email_change_by_user', userId]);
+
+    if (entry.value) {
+      await this.deleteEmailChangeToken(entry.value, userId);
+    }
+  }
+
+  // ============= Account Unlock Tokens =============
+
+  /**
+   * Store account unlock token (emailed when an account is locked)
+   */
+  async storeAccountUnlockToken(
+    unlockToken: string,
+    userId: string,
+    email: string,
+    expiresAt: number
+  ): Promise<void> {
+    const tokenData: AccountUnlockTokenData = {
+      userId,
+      email,
+      expiresAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.set(['account_unlock', unlockToken], tokenData, {
+      expireIn: expiresAt * 1000 - Date.now(),
+    });
+
+    this.logger.info('Account unlock token stored', { userId });
+  }
+
+  /**
+   * Get account unlock token
+   */
+  async getAccountUnlockToken(unlockToken: string): Promise<AccountUnlockTokenData | null> {
+    const token = await this.get(['account_unlock', unlockToken]) as AccountUnlockTokenData | null;
+
+    if (!token) {
+      return null;
+    }
+
+    // Check if expired
+    if (token.expiresAt < Math.floor(Date.now() / 1000)) {
+      await this.deleteAccountUnlockToken(unlockToken);
+      return null;
+    }
+
+    return token;
+  }
+
+  /**
+   * Delete account unlock token
+   */
+  async deleteAccountUnlockToken(unlockToken: string): Promise<void> {
+    await this.delete(['account_unlock', unlockToken]);
+    this.logger.info('Account unlock token deleted');
+  }
+
+  // ============= Two-Factor Login Challenges =============
+
+  /**
+   * Store a pending two-factor login challenge
+   */
+  async storeTwoFactorChallenge(
+    challengeId: string,
+    userId: string,
+    expiresAt: number,
+    firstFactor: TwoFactorFirstFactor = { method: 'password' }
+  ): Promise<void> {
+    const challengeData: TwoFactorChallengeData = {
+      userId,
+      challengeId,
+      attempts: 0,
+      firstFactor,
+      expiresAt,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.set(['two_factor_challenges', challengeId], challengeData, {
+      expireIn: expiresAt * 1000 - Date.now(),
+    });
+
+    this.logger.info('Two-factor challenge stored', { userId, challengeId });
+  }
+
+  /**
+   * Get two-factor login challenge
+   */
+  async getTwoFactorChallenge(challengeId: string): Promise<TwoFactorChallengeData | null> {
+    const challenge = await this.get(['two_factor_challenges', challengeId]) as TwoFactorChallengeData | null;
+
+    if (!challenge) {
+      return null;
+    }
+
+    // Check if expired
+    if (challenge.expiresAt < Math.floor(Date.now() / 1000)) {
+      await this.deleteTwoFactorChallenge(challengeId);
+      return null;
+    }
+
+    return challenge;
+  }
+
+  /**
+   * Count an attempt against a challenge, before its code is checked
+   * Returns the attempt number, or null if the challenge is missing, expired
+   * or out of attempts - including when racing requests used them up.
+   */
+  async recordTwoFactorChallengeAttempt(challengeId: string, maxAttempts: number): Promise<number | null> {
+    const kv = await this.getKv();
+    const key: Deno.KvKey = ['two_factor_challenges', challengeId];
+
+    // A failed commit means a racing request counted its attempt, so this
+    // loop ends once maxAttempts are used up at the latest
+    for (let i = 0; i <= maxAttempts; i++) {
+      const entry = await kv.get<TwoFactorChallengeData>(key);
+      const challenge = entry.value;
+
+      if (!challenge || challenge.expiresAt < Math.floor(Date.now() / 1000) || challenge.attempts >= maxAttempts) {
+        return null;
+      }
+
+      const updated: TwoFactorChallengeData = {
+        ...challenge,
+        attempts: challenge.attempts + 1,
+      };
+
+      const result = await kv.atomic()
+        .check(entry)
+        .set(key, updated, { expireIn: challenge.expiresAt * 1000 - Date.now() })
+        .commit();
+
+      if (result.ok) {
+        return updated.attempts;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Delete two-factor login challenge
+   */
+  async deleteTwoFactorChallenge(challengeId: string): Promise<void> {
+    await this.delete(['two_factor_challenges', challengeId]);
+    this.logger.info('Two-factor challenge deleted', { challengeId });
+  }
+
+  // ============= WebAuthn Challenges =============
+
+  /**
+   * Store a WebAuthn ceremony challenge
+   */
+  async storeWebAuthnChallenge(
+    challengeId: string,
+    data: Omit<WebAuthnChallengeData, 'createdAt'>
+  ): Promise<void> {
+    const challengeData: WebAuthnChallengeData = {
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.set(['webauthn_challenges', challengeId], challengeData, {
+      expireIn: data.expiresAt * 1000 - Date.now(),
+    });
+
+    this.logger.info('WebAuthn challenge stored', { userId: data.userId, ceremony: data.ceremony });
+  }
+
+  /**
+   * Get and delete a WebAuthn challenge in one step
+   * Challenges are single-use: a response can only be verified once, even
+   * if two requests race with the same challenge ID.
+   */
+  async consumeWebAuthnChallenge(challengeId: string): Promise<WebAuthnChallengeData | null> {
+    return await this.consume<WebAuthnChallengeData>(['webauthn_challenges', challengeId]);
+  }
+
+  // ============= Social Sign-In =============
+
+  /**
+   * Store the state of a pending authorization request (keyed by the state parameter)
+   */
+  async storeOidcState(state: string, data: Omit<OidcStateData, 'createdAt'>): Promise<void> {
+    const stateData: OidcStateData = {
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.set(['oidc_states', state], stateData, {
+      expireIn: data.expiresAt * 1000 - Date.now(),
+    });
+
+    this.logger.info('OIDC state stored', { provider: data.provider, linkUserId: data.linkUserId });
+  }
+
+  /**
+   * Get and delete authorization request state in one step (single-use, like WebAuthn challenges)
+   */
+  async consumeOidcState(state: string): Promise<OidcStateData | null> {
+    return await this.consume<OidcStateData>(['oidc_states', state]);
+  }
+
+  /**
+   * Store a one-time code the login page exchanges for a session after a social sign-in
+   */
+  async storeOidcLoginCode(code: string, data: Omit<OidcLoginCodeData, 'createdAt'>): Promise<void> {
+    const codeData: OidcLoginCodeData = {
+      ...data,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.set(['oidc_login_codes', code], codeData, {
+      expireIn: data.expiresAt * 1000 - Date.now(),
+    });
+
+    this.logger.info('OIDC login code stored', { userId: data.userId, provider: data.provider });
+  }
+
+  /**
+   * Get and delete a one-time login code in one step
+   */
+  async consumeOidcLoginCode(code: string): Promise<OidcLoginCodeData | null> {
+    return await this.consume<OidcLoginCodeData>(['oidc_login_codes', code]);
+  }
+
+  /**
+   * Atomically read and delete a single-use record
+   * Returns null if it is missing, already consumed by a racing request, or expired.
+   */
+  private async consume<T extends { expiresAt: number }>(key: Deno.KvKey): Promise<T | null> {
+    const kv = await this.getKv();
+    const entry = await kv.get<T>(key);
+
+    if (!entry.value) {
+      return null;
+    }
+
+    const result = await kv.atomic().check(entry).delete(key).commit();
+    if (!result.ok) {
+      return null;
+    }
+
+    // Check if expired
+    if (entry.value.expiresAt < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return entry.value;
+  }
+
   /**
    * Cleanup expired tokens (utility method for maintenance)
    */
@@ -1,3 +1,4 @@
+import { CompositeIndexManager, UserQueryOptions } from '../lib/composite-indexes.ts';
 import { hashPassword } from '../lib/password.ts';
 import { User } from '../types/user.ts';
 import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './base-repository.ts';
@@ -10,6 +11,9 @@ import { BaseRepository, ListOptions, ListResult, RepositoryOptions } from './ba
  * - Email-based lookups
  * - Role filtering
  * - 2FA management
+ *
+ * Role/verification composite indexes (CompositeIndexManager) are written in
+ * the same commit as the user record.
  */
 export class UserRepository extends BaseRepository<User> {
   constructor(options: RepositoryOptions = {}) {
@@ -70,12 +74,12 @@ export class UserRepository extends BaseRepository<User> {
 
       const kv = await this.getKv();
       
-      // Use atomic operation to ensure both records are created together
-      const result = await kv.atomic()
+      // Use atomic operation to ensure user, email index and composite indexes are created together
+      const atomic = kv.atomic()
         .check({ key: ['users_by_email', userData.email], versionstamp: null }) // Ensure email doesn't exist
         .set(['users', userId], user)
-        .set(['users_by_email', userData.email], userId)
-        .commit();
+        .set(['users_by_email', userData.email], userId);
+      const result = await CompositeIndexManager.applyUserIndexes(atomic, null, user).commit();
 
       if (!result.ok) {
         throw new Error(`Email already exists: ${userData.email}`);
@@ -120,14 +124,15 @@ export class UserRepository extends BaseRepository<User> {
           .set(['users_by_email', updates.email], userId)
           .delete(['users_by_email', existingUser.email]);
         
-        const result = await atomic.commit();
+        const result = await CompositeIndexManager.applyUserIndexes(atomic, existingUser, updatedUser).commit();
         
         if (!result.ok) {
           throw new Error(`Email already exists: ${updates.email}`);
         }
       } else {
-        // No email change, just update user
-        await this.set(['users', userId], updatedUser);
+        // No email change, just update user (and role/verification indexes)
+        const atomic = kv.atomic().set(['users', userId], updatedUser);
+        await CompositeIndexManager.applyUserIndexes(atomic, existingUser, updatedUser).commit();
       }
 
       this.logger.info('User updated', { userId });
@@ -153,11 +158,11 @@ export class UserRepository extends BaseRepository<User> {
 
       const kv = await this.getKv();
       
-      // Delete user and email index atomically
-      await kv.atomic()
+      // Delete user, email index and composite indexes atomically
+      const atomic = kv.atomic()
         .delete(['users', userId])
-        .delete(['users_by_email', user.email])
-        .commit();
+        .delete(['users_by_email', user.email]);
+      await CompositeIndexManager.applyUserIndexes(atomic, user, null).commit();
 
       this.logger.info('User deleted', { userId, email: user.email });
       return true;
@@ -174,6 +179,21 @@ export class UserRepository extends BaseRepository<User> {
     return await this.list(['users'], options);
   }
 
+  /**
+   * Page through users by role and/or verification state (newest first)
+   * Pass the returned cursor back to continue; null when there are no more.
+   */
+  async queryUsers(options: UserQueryOptions = {}): Promise<{ users: User[]; cursor: string | null }> {
+    try {
+      await this.ensureIndexed();
+      const kv = await this.getKv();
+      return await CompositeIndexManager.queryUserPage<User>(options, kv);
+    } catch (error) {
+      this.logger.error('Error querying users', { options, error });
+      throw error;
+    }
+  }
+
   /**
    * List users by role
    */
@@ -292,4 +312,26 @@ export class UserRepository extends BaseRepository<User> {
       throw error;
     }
   }
+
+  /**
+   * Index users stored before the composite indexes existed (once)
+   */
+  private async ensureIndexed(): Promise<void> {
+    const kv = await this.getKv();
+    const marker = await kv.get<boolean>(['users_indexed']);
+    if (marker.value) {
+      return;
+    }
+
+    let count = 0;
+    for await (const entry of kv.list<User>({ prefix: ['users'] })) {
+      await CompositeIndexManager.applyUserIndexes(kv.atomic(), null, entry.value).commit();
+      count++;
+    }
+
+    await kv.set(['users_indexed'], true);
+    if (count > 0) {
+      this.logger.info('User indexes built', { count });
+    }
+  }
 }
@@ -0,0 +1,138 @@
+import { WebAuthnCredential } from '../types/webauthn.ts';
+import { BaseRepository, RepositoryOptions } from './base-repository.ts';
+
+/**
+ * WebAuthn Credential Repository
+ *
+ * Stores registered passkeys:
+ * - Primary record by credential ID (looked up during authentication)
+ * - Per-user index for listing, excludeCredentials and allowCredentials
+ * - Signature counter updated after each successful authentication
+ */
+export class WebAuthnCredentialRepository extends BaseRepository<WebAuthnCredential> {
+  constructor(options: RepositoryOptions = {}) {
+    super('WebAuthnCredential', options);
+  }
+
+  /**
+   * Save a newly registered credential
+   * @throws Error if the credential ID is already registered
+   */
+  async create(data: Omit<WebAuthnCredential, 'createdAt' | 'lastUsedAt'>): Promise<WebAuthnCredential> {
+    try {
+      const credential: WebAuthnCredential = {
+        ...data,
+        createdAt: new Date().toISOString(),
+        lastUsedAt: null,
+      };
+
+      const kv = await this.getKv();
+      const result = await kv.atomic()
+        .check({ key: ['webauthn_credentials', credential.id], versionstamp: null })
+        .set(['webauthn_credentials', credential.id], credential)
+        .set(['webauthn_credentials_by_user', credential.userId, credential.id], credential.id)
+        .commit();
+
+      if (!result.ok) {
+        throw new Error(`Credential already registered: ${credential.id}`);
+      }
+
+      this.logger.info('WebAuthn credential registered', { userId: credential.userId, credentialId: credential.id });
+      return credential;
+    } catch (error) {
+      this.logger.error('Error registering WebAuthn credential', { userId: data.userId, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Find credential by ID
+   */
+  async findById(credentialId: string): Promise<WebAuthnCredential | null> {
+    return await this.get(['webauthn_credentials', credentialId]);
+  }
+
+  /**
+   * List a user's credentials (oldest first)
+   */
+  async listByUser(userId: string): Promise<WebAuthnCredential[]> {
+    const kv = await this.getKv();
+    const credentials: WebAuthnCredential[] = [];
+
+    for await (const entry of kv.list<string>({ prefix: ['webauthn_credentials_by_user', userId] })) {
+      const credential = await this.findById(entry.value);
+      if (credential) {
+        credentials.push(credential);
+      }
+    }
+
+    return credentials.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Whether the user has registered any credential
+   */
+  async hasCredentials(userId: string): Promise<boolean> {
+    const kv = await this.getKv();
+    for await (const _entry of kv.list({ prefix: ['webauthn_credentials_by_user', userId] }, { limit: 1 })) {
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Record a successful authentication
+   * The counter only moves forward: the write fails if another sign-in with
+   * the same credential updated it first, so a cloned authenticator racing
+   * the real one cannot reuse a counter value.
+   */
+  async recordUse(
+    credentialId: string,
+    expectedSignCount: number,
+    update: { signCount: number; backedUp: boolean },
+  ): Promise<boolean> {
+    const kv = await this.getKv();
+    const key = ['webauthn_credentials', credentialId];
+    const entry = await kv.get<WebAuthnCredential>(key);
+
+    if (!entry.value || entry.value.signCount !== expectedSignCount) {
+      return false;
+    }
+
+    const result = await kv.atomic()
+      .check(entry)
+      .set(key, {
+        ...entry.value,
+        signCount: update.signCount,
+        backedUp: update.backedUp,
+        lastUsedAt: new Date().toISOString(),
+      })
+      .commit();
+
+    return result.ok;
+  }
+
+  /**
+   * Delete a credential
+   */
+  async deleteCredential(credential: WebAuthnCredential): Promise<void> {
+    const kv = await this.getKv();
+    await kv.atomic()
+      .delete(['webauthn_credentials', credential.id])
+      .delete(['webauthn_credentials_by_user', credential.userId, credential.id])
+      .commit();
+
+    this.logger.info('WebAuthn credential deleted', { userId: credential.userId, credentialId: credential.id });
+  }
+
+  /**
+   * Delete all of a user's credentials (account deletion)
+   */
+  async deleteAllForUser(userId: string): Promise<number> {
+    const credentials = await this.listByUser(userId);
+    for (const credential of credentials) {
+      await this.deleteCredential(credential);
+    }
+    return credentials.length;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Audit Log Service
+ *
+ * Records security-relevant actions (logins, 2FA changes, role changes,
+ * deletions, session revocations) to the append-only AuditLogRepository,
+ * and serves them to the admin audit viewer as pages or CSV.
+ */
+
+import { AuditLogConfig } from "../lib/config.ts";
+import { createLogger } from "../lib/logger.ts";
+import { AuditLogRepository, type ListOptions, type ListResult } from "../repositories/index.ts";
+import type { AuditAction, AuditLogEntry, AuditLogFilter } from "../types/audit.ts";
+
+/**
+ * Who performed an action and from where - usually built from the request
+ * (see getAuditContext in frontend/lib/fresh-helpers.ts)
+ */
+export interface AuditContext {
+  actorId?: string | null | undefined;
+  ipAddress?: string | null | undefined;
+  userAgent?: string | null | undefined;
+}
+
+export interface AuditEvent extends AuditContext {
+  targetId?: string | null | undefined;
+  metadata?: Record<string, unknown>;
+}
+
+const CSV_COLUMNS = ['timestamp', 'action', 'actorId', 'targetId', 'ipAddress', 'userAgent', 'metadata'] as const;
+
+const logger = createLogger('AuditLogService');
+
+export class AuditLogService {
+  private auditRepo: AuditLogRepository;
+
+  constructor(auditRepo?: AuditLogRepository) {
+    this.auditRepo = auditRepo || new AuditLogRepository();
+  }
+
+  /**
+   * Record an action
+   * Failures are logged rather than thrown, so an audit write can never
+   * undo or block the action being audited.
+   */
+  async record(action: AuditAction, event: AuditEvent = {}): Promise<void> {
+    try {
+      await this.auditRepo.append({
+        action,
+        actorId: event.actorId ?? null,
+        targetId: event.targetId ?? null,
+        ipAddress: event.ipAddress ?? null,
+        userAgent: event.userAgent?.slice(0, 512) ?? null,
+        metadata: event.metadata ?? {},
+      });
+    } catch (error) {
+      logger.error('Failed to record audit event', { action, actorId: event.actorId, error });
+    }
+  }
+
+  /**
+   * Page through entries newest first
+   */
+  async list(filter: AuditLogFilter = {}, options: ListOptions = {}): Promise<ListResult<AuditLogEntry>> {
+    return await this.auditRepo.query(filter, options);
+  }
+
+  /**
+   * Export matching entries as CSV (newest first, capped at MAX_EXPORT_ROWS)
+   */
+  async exportCsv(filter: AuditLogFilter = {}): Promise<string> {
+    const { items } = await this.auditRepo.query(filter, { limit: AuditLogConfig.MAX_EXPORT_ROWS });
+
+    const rows = items.map((entry) =>
+      CSV_COLUMNS.map((column) =>
+        toCsvCell(column === 'metadata' ? JSON.stringify(entry.metadata) : entry[column])
+      ).join(',')
+    );
+
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Delete entries older than the retention period
+   * Returns the number of entries removed.
+   */
+  async cleanup(retentionMs: number = AuditLogConfig.RETENTION_MS): Promise<number> {
+    return await this.auditRepo.deleteOlderThan(new Date(Date.now() - retentionMs));
+  }
+}
+
+/**
+ * Quote a CSV cell (RFC 4180) and defuse spreadsheet formulas - user agents
+ * and metadata are client-controlled
+ */
+function toCsvCell(value: string | null): string {
+  if (value === null) {
+    return '';
+  }
+
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
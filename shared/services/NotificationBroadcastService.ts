@@ -0,0 +1,281 @@
+/**
+ * Notification Broadcast Service
+ *
+ * Sends one notification to many users: everyone, a role/verification
+ * segment (resolved through the user composite indexes) or a list of users.
+ *
+ * Fan-out runs in queue jobs:
+ * 1. notification-broadcast pages through the audience and queues one
+ *    notification-broadcast-batch job per page of users
+ * 2. each batch delivers through NotificationDeliveryService, so every
+ *    recipient's preferences apply, and records its own totals
+ *
+ * Both steps can be retried: resolution resumes from its saved cursor and
+ * batches skip users the broadcast already reached.
+ */
+
+import { NotFoundError } from "../../frontend/lib/errors.ts";
+import { NotificationDeliveryConfig } from "../lib/config.ts";
+import { createLogger } from "../lib/logger.ts";
+import { type JobQueue, queue } from "../lib/queue.ts";
+import {
+  type ListOptions,
+  type ListResult,
+  NotificationBroadcastRepository,
+  UserRepository,
+} from "../repositories/index.ts";
+import type {
+  BroadcastBatchResult,
+  BroadcastProgress,
+  CreateBroadcastRequest,
+  NotificationBroadcast,
+} from "../types/notifications.ts";
+import { NotificationDeliveryService } from "./NotificationDeliveryService.ts";
+
+const logger = createLogger('NotificationBroadcastService');
+
+/** Queue job that resolves a broadcast's audience into batches */
+export const BROADCAST_RESOLVE_JOB = 'notification-broadcast';
+
+/** Queue job that delivers a broadcast to one batch of users */
+export const BROADCAST_BATCH_JOB = 'notification-broadcast-batch';
+
+export interface BroadcastResolveJobData {
+  broadcastId: string;
+}
+
+export interface BroadcastBatchJobData {
+  broadcastId: string;
+  batchIndex: number;
+  userIds: string[];
+}
+
+export type BroadcastWithProgress = NotificationBroadcast & { progress: BroadcastProgress };
+
+export class NotificationBroadcastService {
+  private broadcastRepo: NotificationBroadcastRepository;
+  private userRepo: UserRepository;
+  private deliveryService: NotificationDeliveryService;
+  private jobQueue: Pick<JobQueue, 'add'>;
+
+  constructor(
+    broadcastRepo?: NotificationBroadcastRepository,
+    userRepo?: UserRepository,
+    deliveryService?: NotificationDeliveryService,
+    jobQueue?: Pick<JobQueue, 'add'>,
+  ) {
+    this.broadcastRepo = broadcastRepo || new NotificationBroadcastRepository();
+    this.userRepo = userRepo || new UserRepository();
+    this.deliveryService = deliveryService || new NotificationDeliveryService(undefined, undefined, this.userRepo);
+    this.jobQueue = jobQueue || queue;
+  }
+
+  /**
+   * Save a broadcast and queue its fan-out
+   */
+  async createBroadcast(request: CreateBroadcastRequest, adminId: string): Promise<NotificationBroadcast> {
+    const audience = request.audience.type === 'users'
+      ? { type: 'users' as const, userIds: [...new Set(request.audience.userIds)] }
+      : request.audience;
+
+    const broadcast: NotificationBroadcast = {
+      ...request,
+      audience,
+      id: crypto.randomUUID(),
+      status: 'queued',
+      createdBy: adminId,
+      createdAt: new Date().toISOString(),
+      completedAt: null,
+      recipients: 0,
+      batches: 0,
+      resolveCursor: null,
+    };
+
+    await this.broadcastRepo.create(broadcast);
+    await this.jobQueue.add<BroadcastResolveJobData>(
+      BROADCAST_RESOLVE_JOB,
+      { broadcastId: broadcast.id },
+      { jobId: `broadcast-${broadcast.id}` },
+    );
+
+    logger.info('Broadcast queued', { broadcastId: broadcast.id, audience: audience.type, adminId });
+    return broadcast;
+  }
+
+  /**
+   * Get a broadcast with its delivery progress
+   *
+   * @throws NotFoundError if the broadcast doesn't exist
+   */
+  async getBroadcast(broadcastId: string): Promise<BroadcastWithProgress> {
+    const broadcast = await this.broadcastRepo.findById(broadcastId);
+    if (!broadcast) {
+      throw new NotFoundError(undefined, 'Broadcast', broadcastId);
+    }
+
+    return { ...broadcast, progress: await this.broadcastRepo.getProgress(broadcastId) };
+  }
+
+  /**
+   * List broadcasts newest first, with their delivery progress
+   */
+  async listBroadcasts(options: ListOptions = {}): Promise<ListResult<BroadcastWithProgress>> {
+    const result = await this.broadcastRepo.listRecent(options);
+    const items = await Promise.all(
+      result.items.map(async (broadcast) => ({
+        ...broadcast,
+        progress: await this.broadcastRepo.getProgress(broadcast.id),
+      })),
+    );
+
+    return { ...result, items };
+  }
+
+  /**
+   * Page through the audience, queueing a batch job per page (run by the broadcast worker)
+   *
+   * Progress is saved after each batch, so a retry picks up where the last
+   * attempt stopped.
+   */
+  async resolveRecipients(broadcastId: string): Promise<void> {
+    let broadcast = await this.broadcastRepo.findById(broadcastId);
+    if (!broadcast || broadcast.status !== 'queued') {
+      return;
+    }
+
+    const batchSize = NotificationDeliveryConfig.BROADCAST_BATCH_SIZE;
+    const { audience } = broadcast;
+
+    while (broadcast.status === 'queued') {
+      let userIds: string[];
+      let resolveCursor: string | null = null;
+
+      if (audience.type === 'users') {
+        const offset = broadcast.batches * batchSize;
+        userIds = audience.userIds.slice(offset, offset + batchSize);
+      } else {
+        const page = await this.userRepo.queryUsers({
+          ...(audience.type === 'segment' && { role: audience.role, emailVerified: audience.emailVerified }),
+          limit: batchSize,
+          cursor: broadcast.resolveCursor ?? undefined,
+        });
+        userIds = page.users.map((user) => user.id);
+        resolveCursor = page.cursor;
+      }
+
+      if (userIds.length > 0) {
+        await this.queueBatch(broadcast.id, broadcast.batches, userIds);
+      }
+
+      const done = audience.type === 'users'
+        ? (broadcast.batches + 1) * batchSize >= audience.userIds.length
+        : resolveCursor === null;
+
+      broadcast = (await this.broadcastRepo.update(broadcast.id, {
+        recipients: broadcast.recipients + userIds.length,
+        batches: broadcast.batches + (userIds.length > 0 ? 1 : 0),
+        resolveCursor,
+        ...(done && { status: 'sending' as const }),
+      }))!;
+    }
+
+    logger.info('Broadcast recipients resolved', {
+      broadcastId,
+      recipients: broadcast.recipients,
+      batches: broadcast.batches,
+    });
+
+    // Batches may all have finished already (or there were none)
+    await this.completeIfDone(broadcastId);
+  }
+
+  /**
+   * Deliver a broadcast to one batch of users (run by the broadcast worker)
+   *
+   * A failure for one user is counted, not thrown, so the rest of the batch
+   * isn't sent again.
+   */
+  async deliverBatch(broadcastId: string, batchIndex: number, userIds: string[]): Promise<BroadcastBatchResult> {
+    const broadcast = await this.broadcastRepo.findById(broadcastId);
+    if (!broadcast) {
+      throw new NotFoundError(undefined, 'Broadcast', broadcastId);
+    }
+
+    const result: BroadcastBatchResult = { delivered: 0, skipped: 0, failed: 0, completedAt: '' };
+
+    for (const userId of userIds) {
+      try {
+        // Reached by an earlier attempt of this batch
+        if (await this.broadcastRepo.hasRecipient(broadcastId, userId)) {
+          result.delivered++;
+          continue;
+        }
+
+        if (!(await this.userRepo.findById(userId))) {
+          result.skipped++;
+          continue;
+        }
+
+        const delivery = await this.deliveryService.send({
+          userId,
+          type: broadcast.type,
+          category: broadcast.category,
+          title: broadcast.title,
+          message: broadcast.message,
+          ...(broadcast.link && { link: broadcast.link }),
+        });
+
+        if (!delivery.notification && delivery.email === 'off') {
+          result.skipped++;
+          continue;
+        }
+
+        await this.broadcastRepo.markRecipient(
+          broadcastId,
+          userId,
+          NotificationDeliveryConfig.BROADCAST_RECIPIENT_TTL_MS,
+        );
+        result.delivered++;
+      } catch (error) {
+        logger.error('Broadcast delivery failed', { broadcastId, userId, error });
+        result.failed++;
+      }
+    }
+
+    result.completedAt = new Date().toISOString();
+    await this.broadcastRepo.saveBatchResult(broadcastId, batchIndex, result);
+    await this.completeIfDone(broadcastId);
+
+    return result;
+  }
+
+  /**
+   * Mark a broadcast failed when resolving its audience gives up
+   */
+  async markFailed(broadcastId: string, error: string): Promise<void> {
+    await this.broadcastRepo.update(broadcastId, { status: 'failed', error, completedAt: new Date().toISOString() });
+    logger.warn('Broadcast failed', { broadcastId, error });
+  }
+
+  private async queueBatch(broadcastId: string, batchIndex: number, userIds: string[]): Promise<void> {
+    await this.jobQueue.add<BroadcastBatchJobData>(
+      BROADCAST_BATCH_JOB,
+      { broadcastId, batchIndex, userIds },
+      // Same ID if a retried resolution queues this batch again
+      { jobId: `broadcast-${broadcastId}-${batchIndex}` },
+    );
+  }
+
+  private async completeIfDone(broadcastId: string): Promise<void> {
+    const broadcast = await this.broadcastRepo.findById(broadcastId);
+    if (broadcast?.status !== 'sending') {
+      return;
+    }
+
+    const progress = await this.broadcastRepo.getProgress(broadcastId);
+    if (progress.batchesDone >= broadcast.batches) {
+      await this.broadcastRepo.update(broadcastId, { status: 'completed', completedAt: new Date().toISOString() });
+      logger.info('Broadcast completed', { broadcastId, ...progress });
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Notification Delivery Service
+ *
+ * Sends notifications through the channels each user has chosen:
+ * - In-app: stored notification plus a WebSocket push (NotificationService behaviour)
+ * - Email: immediately, or collected into a daily/weekly digest
+ *
+ * Preferences are set per category (in-app on/off and email delivery), and
+ * emails can be limited to certain notification types. Users without saved
+ * preferences get the defaults below. Security notifications always appear
+ * in-app. Every email carries a one-click unsubscribe link keyed by a
+ * per-user token.
+ */
+
+import { AuthenticationError, ValidationError } from "../../frontend/lib/errors.ts";
+import { NotificationDeliveryConfig } from "../lib/config.ts";
+import { sendNotificationDigestEmail, sendNotificationEmail } from "../lib/email.ts";
+import { ErrorCode } from "../lib/error-codes.ts";
+import { createLogger } from "../lib/logger.ts";
+import {
+  NotificationPreferencesRepository,
+  NotificationRepository,
+  UserRepository,
+} from "../repositories/index.ts";
+import type {
+  CreateNotificationRequest,
+  DigestFrequency,
+  DigestItem,
+  EmailDelivery,
+  NotificationCategory,
+  NotificationChannels,
+  NotificationData,
+  NotificationPreferences,
+  NotificationType,
+  UpdateNotificationPreferences,
+} from "../types/notifications.ts";
+
+const logger = createLogger('NotificationDeliveryService');
+
+/** Categories whose notifications can't be turned off in-app */
+const ALWAYS_IN_APP: NotificationCategory[] = ['security'];
+
+/**
+ * Preferences for users who haven't changed anything
+ */
+function defaultPreferences(userId: string): NotificationPreferences {
+  return {
+    userId,
+    categories: {
+      general: { inApp: true, email: 'daily' },
+      account: { inApp: true, email: 'immediate' },
+      security: { inApp: true, email: 'immediate' },
+      announcements: { inApp: true, email: 'weekly' },
+    },
+    emailTypes: { info: true, success: true, warning: true, error: true },
+    unsubscribeToken: crypto.randomUUID(),
+    updatedAt: null,
+  };
+}
+
+/**
+ * What an unsubscribe link turns off: one category's emails, digest emails, or all emails
+ */
+export type UnsubscribeScope = NotificationCategory | 'digest' | 'all';
+
+export interface NotificationDeliveryResult {
+  /** The stored notification, or null if the user turned in-app off for its category */
+  notification: NotificationData | null;
+  email: EmailDelivery;
+}
+
+export class NotificationDeliveryService {
+  private notificationRepo: NotificationRepository;
+  private preferencesRepo: NotificationPreferencesRepository;
+  private userRepo: UserRepository;
+
+  constructor(
+    notificationRepo?: NotificationRepository,
+    preferencesRepo?: NotificationPreferencesRepository,
+    userRepo?: UserRepository,
+  ) {
+    this.notificationRepo = notificationRepo || new NotificationRepository();
+    this.preferencesRepo = preferencesRepo || new NotificationPreferencesRepository();
+    this.userRepo = userRepo || new UserRepository();
+  }
+
+  /**
+   * Get a user's preferences (defaults if never saved)
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const saved = await this.preferencesRepo.findByUserId(userId);
+    if (saved) {
+      return saved;
+    }
+
+    // Save the defaults so the unsubscribe token stays the same from email to email
+    const preferences = defaultPreferences(userId);
+    await this.preferencesRepo.save(preferences);
+    return preferences;
+  }
+
+  /**
+   * Change some of a user's preferences
+   *
+   * @throws ValidationError if in-app is turned off for a category that requires it
+   */
+  async updatePreferences(
+    userId: string,
+    updates: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const current = await this.getPreferences(userId);
+    const categories = { ...current.categories };
+
+    const changes = Object.entries(updates.categories ?? {}) as [NotificationCategory, Partial<NotificationChannels>][];
+    for (const [category, channels] of changes) {
+      if (channels.inApp === false && ALWAYS_IN_APP.includes(category)) {
+        throw new ValidationError(`In-app ${category} notifications can't be turned off`, {
+          [`categories.${category}.inApp`]: ['Always on'],
+        });
+      }
+      categories[category] = { ...categories[category], ...channels };
+    }
+
+    const preferences: NotificationPreferences = {
+      ...current,
+      categories,
+      emailTypes: { ...current.emailTypes, ...updates.emailTypes },
+      updatedAt: new Date().toISOString(),
+    };
+
+    await this.preferencesRepo.save(preferences);
+    logger.info('Notification preferences updated', { userId });
+    return preferences;
+  }
+
+  /**
+   * Send a notification through the user's chosen channels
+   *
+   * Email failures are logged, not thrown: the in-app notification is the
+   * record of what was sent.
+   */
+  async send(data: CreateNotificationRequest): Promise<NotificationDeliveryResult> {
+    const category = data.category ?? 'general';
+    const preferences = await this.getPreferences(data.userId);
+    const channels = this.resolveChannels(preferences, category, data.type);
+
+    let notification: NotificationData | null = null;
+    if (channels.inApp) {
+      notification = await this.notificationRepo.create(
+        data.userId,
+        data.type,
+        data.title,
+        data.message,
+        data.link,
+        category,
+        { actions: data.actions, groupKey: data.groupKey, priority: data.priority, expiresAt: data.expiresAt },
+      );
+      await this.pushToWebSocket(data.userId, notification);
+    }
+
+    const item: DigestItem = {
+      id: notification?.id ?? crypto.randomUUID(),
+      userId: data.userId,
+      type: data.type,
+      category,
+      title: data.title,
+      message: data.message,
+      ...(data.link && { link: data.link }),
+      createdAt: notification?.createdAt ?? new Date().toISOString(),
+    };
+
+    if (channels.email === 'immediate') {
+      await this.sendImmediateEmail(preferences, item);
+    } else if (channels.email === 'daily' || channels.email === 'weekly') {
+      await this.preferencesRepo.addDigestItem(channels.email, item, NotificationDeliveryConfig.DIGEST_ITEM_TTL_MS);
+    }
+
+    return { notification, email: channels.email };
+  }
+
+  /**
+   * Email every user with pending items for this frequency (run by the digest worker)
+   *
+   * Items are removed once sent. Items whose category no longer has digest
+   * email turned on are dropped. If sending fails the items stay for the next
+   * run, until they expire.
+   *
+   * @returns number of digest emails sent
+   */
+  async sendDigests(frequency: DigestFrequency): Promise<number> {
+    let sent = 0;
+
+    for await (const { userId, items } of this.preferencesRepo.listDigestBatches(frequency)) {
+      try {
+        const user = await this.userRepo.findById(userId);
+        const preferences = await this.preferencesRepo.findByUserId(userId);
+        const wanted = preferences
+          ? items.filter((item) => this.resolveChannels(preferences, item.category, item.type).email !== 'off')
+          : [];
+
+        if (!user || !user.emailVerified || !preferences || wanted.length === 0) {
+          await this.preferencesRepo.deleteDigestItems(frequency, items);
+          continue;
+        }
+
+        // Newest first, like the notification list
+        const listed = wanted.slice(-NotificationDeliveryConfig.MAX_DIGEST_ITEMS).reverse();
+        const result = await sendNotificationDigestEmail(
+          user.email,
+          user.name,
+          { frequency, items: listed, omitted: wanted.length - listed.length },
+          this.getUnsubscribeUrl(preferences, 'digest'),
+        );
+
+        if (!result.success) {
+          logger.warn('Digest email not sent; items kept for the next run', { userId, frequency, error: result.error });
+          continue;
+        }
+
+        await this.preferencesRepo.deleteDigestItems(frequency, items);
+        sent++;
+      } catch (error) {
+        logger.error('Digest delivery failed', { userId, frequency, error });
+      }
+    }
+
+    logger.info('Notification digests sent', { frequency, sent });
+    return sent;
+  }
+
+  /**
+   * Turn off emails from an unsubscribe link
+   *
+   * @throws AuthenticationError if the token doesn't belong to any user
+   */
+  async unsubscribe(token: string, scope: UnsubscribeScope): Promise<NotificationPreferences> {
+    const userId = await this.preferencesRepo.findUserIdByUnsubscribeToken(token);
+    if (!userId) {
+      throw new AuthenticationError(ErrorCode.INVALID_TOKEN, 'This unsubscribe link is not valid');
+    }
+
+    const current = await this.getPreferences(userId);
+    const categories = { ...current.categories };
+
+    for (const category of Object.keys(categories) as NotificationCategory[]) {
+      const email = categories[category].email;
+      const matches = scope === 'all' ||
+        scope === category ||
+        (scope === 'digest' && (email === 'daily' || email === 'weekly'));
+
+      if (matches) {
+        categories[category] = { ...categories[category], email: 'off' };
+      }
+    }
+
+    const preferences = { ...current, categories, updatedAt: new Date().toISOString() };
+    await this.preferencesRepo.save(preferences);
+
+    logger.info('Unsubscribed from notification emails', { userId, scope });
+    return preferences;
+  }
+
+  /**
+   * Channels for one notification, combining category and type preferences
+   */
+  private resolveChannels(
+    preferences: NotificationPreferences,
+    category: NotificationCategory,
+    type: NotificationType,
+  ): NotificationChannels {
+    const channels = preferences.categories[category] ?? defaultPreferences(preferences.userId).categories[category];
+
+    return {
+      inApp: channels.inApp || ALWAYS_IN_APP.includes(category),
+      email: preferences.emailTypes[type] === false ? 'off' : channels.email,
+    };
+  }
+
+  private async sendImmediateEmail(preferences: NotificationPreferences, item: DigestItem): Promise<void> {
+    const user = await this.userRepo.findById(item.userId);
+    if (!user || !user.emailVerified) {
+      return;
+    }
+
+    const result = await sendNotificationEmail(
+      user.email,
+      user.name,
+      item,
+      this.getUnsubscribeUrl(preferences, item.category),
+    );
+    if (!result.success) {
+      logger.warn('Notification email not sent', { userId: item.userId, error: result.error });
+    }
+  }
+
+  private async pushToWebSocket(userId: string, notification: NotificationData): Promise<void> {
+    try {
+      const { notifyUser } = await import('../lib/notification-websocket.ts');
+      notifyUser(userId, notification);
+    } catch (wsError) {
+      // WebSocket broadcast is not critical, just log if it fails
+      logger.debug('WebSocket broadcast failed (non-critical)', { userId, error: wsError });
+    }
+  }
+
+  private getUnsubscribeUrl(preferences: NotificationPreferences, scope: UnsubscribeScope): string {
+    const frontendUrl = Deno.env.get('FRONTEND_URL') || 'http://localhost:3000';
+    const params = new URLSearchParams({ token: preferences.unsubscribeToken, scope });
+    return `${frontendUrl}/unsubscribe?${params}`;
+  }
+}
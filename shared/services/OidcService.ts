@@ -0,0 +1,428 @@
+/**
+ * Social Sign-In (OIDC) Service
+ *
+ * Signing in and linking accounts with external providers (Google, GitHub):
+ * - Starting the authorization code flow (state, nonce and PKCE verifier stored in KV)
+ * - Handling the provider callback: new users get an account, known
+ *   identities sign in, and a verified email matching a verified account
+ *   links the identity to that account
+ * - Linking and unlinking identities from the profile page
+ *
+ * The callback doesn't open the session itself: it hands the login page a
+ * one-time code that is exchanged via completeLogin(), so the outcome (tokens
+ * or a 2FA challenge) reaches the page the same way a password login does.
+ *
+ * The protocol checks live in shared/lib/oidc.ts and provider configs in
+ * shared/lib/oidc-providers.ts.
+ */
+
+import {
+  AppError,
+  AuthenticationError,
+  NotFoundError,
+} from "../../frontend/lib/errors.ts";
+import { ErrorCode } from "../lib/error-codes.ts";
+import { OidcConfig } from "../lib/config.ts";
+import { createLogger } from "../lib/logger.ts";
+import {
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  exchangeAuthorizationCode,
+  type ExternalIdentity,
+  fetchIdentity,
+  generateRandomToken,
+  OidcError,
+  type OidcProviderConfig,
+} from "../lib/oidc.ts";
+import { getConfiguredProviders, getRedirectUri } from "../lib/oidc-providers.ts";
+import {
+  IdentityRepository,
+  TokenRepository,
+  UserRepository,
+} from "../repositories/index.ts";
+import type { LinkedIdentity } from "../types/identity.ts";
+import type { User } from "../types/user.ts";
+import { type AuditContext, AuditLogService } from "./AuditLogService.ts";
+import { AuthService, type LoginOutcome, type SessionMetadata } from "./auth.service.ts";
+
+export interface OidcProviderInfo {
+  id: string;
+  name: string;
+}
+
+export interface OidcAuthorizationResult {
+  /** Provider sign-in page to send the browser to */
+  authorizationUrl: string;
+  /** Also set as a cookie, so the callback can check it returns to the same browser */
+  state: string;
+}
+
+/**
+ * Where the callback sends the browser next
+ * - login: the login page exchanges loginCode via completeLogin()
+ * - linked: a signed-in user linked the identity to their account
+ */
+export type OidcCallbackResult =
+  | { type: 'login'; loginCode: string; redirectTo: string }
+  | { type: 'linked'; provider: string; redirectTo: string };
+
+/**
+ * A linked identity as shown to its owner
+ */
+export interface LinkedIdentityInfo {
+  provider: string;
+  providerName: string;
+  email: string | null;
+  name: string | null;
+  linkedAt: string;
+  lastUsedAt: string | null;
+}
+
+const logger = createLogger('OidcService');
+
+/**
+ * Only same-site paths are allowed as post-login destinations
+ */
+function toSafeRedirect(path: string | null | undefined, fallback = '/'): string {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.startsWith('/\\')) {
+    return fallback;
+  }
+  return path;
+}
+
+export class OidcService {
+  private userRepo: UserRepository;
+  private identityRepo: IdentityRepository;
+  private tokenRepo: TokenRepository;
+  private authService: AuthService;
+  private auditLog: AuditLogService;
+  private providers: OidcProviderConfig[];
+
+  constructor(
+    userRepo?: UserRepository,
+    identityRepo?: IdentityRepository,
+    tokenRepo?: TokenRepository,
+    authService?: AuthService,
+    auditLog?: AuditLogService,
+    providers?: OidcProviderConfig[],
+  ) {
+    this.userRepo = userRepo || new UserRepository();
+    this.identityRepo = identityRepo || new IdentityRepository();
+    this.tokenRepo = tokenRepo || new TokenRepository();
+    this.authService = authService || new AuthService();
+    this.auditLog = auditLog || new AuditLogService();
+    this.providers = providers || getConfiguredProviders();
+  }
+
+  /**
+   * Providers users can sign in with
+   */
+  listProviders(): OidcProviderInfo[] {
+    return this.providers.map((provider) => ({ id: provider.id, name: provider.name }));
+  }
+
+  // ==========================================================================
+  // Authorization Flow
+  // ==========================================================================
+
+  /**
+   * Start signing in (or linking, with linkUserId) at a provider
+   *
+   * @throws NotFoundError if the provider is not configured
+   */
+  async startAuthorization(
+    providerId: string,
+    options: { redirectTo?: string | null; linkUserId?: string } = {},
+  ): Promise<OidcAuthorizationResult> {
+    const provider = this.getProvider(providerId);
+
+    const state = generateRandomToken();
+    const nonce = generateRandomToken();
+    const codeVerifier = generateRandomToken();
+
+    await this.tokenRepo.storeOidcState(state, {
+      provider: provider.id,
+      codeVerifier,
+      nonce,
+      redirectTo: toSafeRedirect(options.redirectTo, options.linkUserId ? '/profile' : '/'),
+      linkUserId: options.linkUserId ?? null,
+      expiresAt: Math.floor((Date.now() + OidcConfig.STATE_EXPIRY_MS) / 1000),
+    });
+
+    return {
+      authorizationUrl: buildAuthorizationUrl(provider, {
+        redirectUri: getRedirectUri(provider.id),
+        state,
+        nonce,
+        codeChallenge: await createCodeChallenge(codeVerifier),
+      }),
+      state,
+    };
+  }
+
+  /**
+   * Handle the provider redirecting back with an authorization code
+   *
+   * @param browserState - State cookie set by startAuthorization in this browser
+   * @throws AuthenticationError if the state is invalid/expired or the provider's response fails verification
+   * @throws AppError if the identity can't be linked (already linked elsewhere, or the
+   *   email belongs to an account that hasn't verified it)
+   */
+  async handleCallback(
+    providerId: string,
+    params: { code: string; state: string; browserState?: string | undefined },
+    context: AuditContext = {},
+  ): Promise<OidcCallbackResult> {
+    // A state from another browser means someone is trying to sign this browser
+    // in to their account (login CSRF)
+    if (!params.browserState || params.browserState !== params.state) {
+      throw this.expiredStateError();
+    }
+
+    const stored = await this.tokenRepo.consumeOidcState(params.state);
+    if (!stored || stored.provider !== providerId) {
+      throw this.expiredStateError();
+    }
+
+    const provider = this.getProvider(providerId);
+    const identity = await this.fetchVerifiedIdentity(provider, params.code, stored.nonce, stored.codeVerifier);
+
+    if (stored.linkUserId) {
+      await this.linkIdentity(stored.linkUserId, provider, identity, context);
+      return { type: 'linked', provider: provider.id, redirectTo: stored.redirectTo };
+    }
+
+    const user = await this.findOrCreateUser(provider, identity, context);
+
+    const loginCode = generateRandomToken();
+    await this.tokenRepo.storeOidcLoginCode(loginCode, {
+      userId: user.id,
+      provider: provider.id,
+      expiresAt: Math.floor((Date.now() + OidcConfig.LOGIN_CODE_EXPIRY_MS) / 1000),
+    });
+
+    return { type: 'login', loginCode, redirectTo: stored.redirectTo };
+  }
+
+  /**
+   * Exchange the one-time code from the callback for tokens (or a 2FA challenge)
+   *
+   * @throws AuthenticationError if the code is invalid, expired or already used
+   */
+  async completeLogin(loginCode: string, metadata: SessionMetadata = {}): Promise<LoginOutcome> {
+    const code = await this.tokenRepo.consumeOidcLoginCode(loginCode);
+    if (!code) {
+      throw this.expiredStateError();
+    }
+
+    return await this.authService.loginWithIdentity(code.userId, code.provider, metadata);
+  }
+
+  // ==========================================================================
+  // Linked Identities
+  // ==========================================================================
+
+  /**
+   * List the identities linked to a user's account
+   */
+  async listIdentities(userId: string): Promise<LinkedIdentityInfo[]> {
+    const identities = await this.identityRepo.listByUser(userId);
+    return identities.map((identity) => this.toIdentityInfo(identity));
+  }
+
+  /**
+   * Unlink a provider from the user's account
+   * Accounts created by a social sign-in can still get in afterwards with
+   * "Forgot password", since their email is verified.
+   *
+   * @throws NotFoundError if the user has no identity linked for the provider
+   */
+  async unlinkIdentity(userId: string, providerId: string, context: AuditContext = {}): Promise<void> {
+    const identity = await this.identityRepo.findByUserAndProvider(userId, providerId);
+    if (!identity) {
+      throw new NotFoundError(undefined, 'Identity', providerId);
+    }
+
+    await this.identityRepo.deleteIdentity(identity);
+
+    await this.auditLog.record('auth.identity_unlinked', {
+      ...context,
+      actorId: context.actorId ?? userId,
+      targetId: userId,
+      metadata: { provider: providerId, email: identity.email },
+    });
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private getProvider(providerId: string): OidcProviderConfig {
+    const provider = this.providers.find((candidate) => candidate.id === providerId);
+    if (!provider) {
+      throw new NotFoundError(undefined, 'Provider', providerId);
+    }
+    return provider;
+  }
+
+  /**
+   * Exchange the code and verify who the provider says the user is
+   * Details of protocol failures are logged, not shown to the user.
+   */
+  private async fetchVerifiedIdentity(
+    provider: OidcProviderConfig,
+    code: string,
+    nonce: string,
+    codeVerifier: string,
+  ): Promise<ExternalIdentity> {
+    try {
+      const tokens = await exchangeAuthorizationCode(provider, {
+        code,
+        redirectUri: getRedirectUri(provider.id),
+        codeVerifier,
+      });
+      return await fetchIdentity(provider, tokens, nonce);
+    } catch (error) {
+      if (error instanceof OidcError) {
+        logger.warn('Social sign-in failed verification', { provider: provider.id, reason: error.message });
+        throw new AuthenticationError(ErrorCode.SOCIAL_LOGIN_FAILED);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Link an identity to a signed-in user's account
+   *
+   * @throws AppError if it is linked to another user, or the user already linked this provider
+   */
+  private async linkIdentity(
+    userId: string,
+    provider: OidcProviderConfig,
+    identity: ExternalIdentity,
+    context: AuditContext,
+  ): Promise<void> {
+    const existing = await this.identityRepo.findByProviderSubject(provider.id, identity.subject);
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new AppError(ErrorCode.IDENTITY_ALREADY_LINKED);
+      }
+      await this.identityRepo.recordUse(existing, identity);
+      return;
+    }
+
+    if (await this.identityRepo.findByUserAndProvider(userId, provider.id)) {
+      throw new AppError(
+        ErrorCode.IDENTITY_ALREADY_LINKED,
+        `Another ${provider.name} account is linked already. Unlink it first`,
+      );
+    }
+
+    await this.createIdentity(userId, provider, identity, { ...context, actorId: context.actorId ?? userId });
+  }
+
+  /**
+   * Resolve the account a social sign-in belongs to
+   *
+   * 1. An identity linked before signs in to its account
+   * 2. Otherwise a provider-verified email matching an account that has
+   *    verified the same email links the identity to that account. An
+   *    unverified account could have been registered by anyone, so its
+   *    owner has to sign in with the password and link from the profile.
+   * 3. Otherwise a new account is created with the provider's verified
+   *    email and a random password (reset via "Forgot password" to set one)
+   *
+   * @throws AuthenticationError if the provider has no verified email for a new link
+   * @throws AppError if the matching account's email is unverified
+   */
+  private async findOrCreateUser(
+    provider: OidcProviderConfig,
+    identity: ExternalIdentity,
+    context: AuditContext,
+  ): Promise<User> {
+    const existing = await this.identityRepo.findByProviderSubject(provider.id, identity.subject);
+    if (existing) {
+      const user = await this.userRepo.findById(existing.userId);
+      if (user) {
+        await this.identityRepo.recordUse(existing, identity);
+        return user;
+      }
+      // Left behind by a deleted account
+      await this.identityRepo.deleteIdentity(existing);
+    }
+
+    if (!identity.email || !identity.emailVerified) {
+      throw new AuthenticationError(
+        ErrorCode.SOCIAL_LOGIN_FAILED,
+        `Your ${provider.name} account has no verified email address`,
+      );
+    }
+
+    const match = await this.userRepo.findByEmail(identity.email);
+    if (match) {
+      if (!match.emailVerified) {
+        throw new AppError(ErrorCode.ACCOUNT_LINK_REQUIRED);
+      }
+      await this.createIdentity(match.id, provider, identity, { ...context, actorId: match.id }, 'email');
+      return match;
+    }
+
+    const user = await this.userRepo.create({
+      email: identity.email,
+      password: generateRandomToken(),
+      name: identity.name || identity.email.split('@')[0]!,
+      role: 'user',
+      emailVerified: true,
+      emailVerifiedAt: new Date().toISOString(),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: [],
+    });
+    logger.info('Account created by social sign-in', { userId: user.id, provider: provider.id });
+
+    await this.createIdentity(user.id, provider, identity, { ...context, actorId: user.id }, 'signup');
+    return user;
+  }
+
+  private async createIdentity(
+    userId: string,
+    provider: OidcProviderConfig,
+    identity: ExternalIdentity,
+    context: AuditContext,
+    linkedBy: 'user' | 'email' | 'signup' = 'user',
+  ): Promise<void> {
+    try {
+      await this.identityRepo.create({
+        provider: provider.id,
+        subject: identity.subject,
+        userId,
+        email: identity.email,
+        name: identity.name,
+      });
+    } catch {
+      // Lost a race with another callback for the same identity or provider
+      throw new AppError(ErrorCode.IDENTITY_ALREADY_LINKED);
+    }
+
+    await this.auditLog.record('auth.identity_linked', {
+      ...context,
+      targetId: userId,
+      metadata: { provider: provider.id, email: identity.email, linkedBy },
+    });
+  }
+
+  private expiredStateError(): AuthenticationError {
+    return new AuthenticationError(ErrorCode.INVALID_TOKEN, 'Sign-in request has expired. Please try again');
+  }
+
+  private toIdentityInfo(identity: LinkedIdentity): LinkedIdentityInfo {
+    return {
+      provider: identity.provider,
+      providerName: this.providers.find((provider) => provider.id === identity.provider)?.name ?? identity.provider,
+      email: identity.email,
+      name: identity.name,
+      linkedAt: identity.linkedAt,
+      lastUsedAt: identity.lastUsedAt,
+    };
+  }
+}
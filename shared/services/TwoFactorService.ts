@@ -3,6 +3,7 @@
  *
  * Centralizes 2FA operations to eliminate 150-200 duplicate lines across 5 routes.
  * Handles user lookup, password verification, TOTP validation, and backup code management.
+ * Enabling, disabling and regenerating backup codes are recorded in the audit log.
  */
 
 import {
@@ -13,6 +14,7 @@ import {
 import { ErrorCode } from "../lib/error-codes.ts";
 import { generateQRCodeDataURL, generateQRCodeURL, generateSecret, verifyTOTP } from "../lib/totp.ts";
 import { UserRepository } from "../repositories/index.ts";
+import { type AuditContext, AuditLogService } from "./AuditLogService.ts";
 import { AuthService } from "./auth.service.ts";
 
 export interface TwoFactorSetupResult {
@@ -32,13 +34,16 @@ export interface TwoFactorVerifyResult {
 export class TwoFactorService {
   private userRepo: UserRepository;
   private authService: AuthService;
+  private auditLog: AuditLogService;
 
   constructor(
     userRepo?: UserRepository,
     authService?: AuthService,
+    auditLog?: AuditLogService,
   ) {
     this.userRepo = userRepo || new UserRepository();
     this.authService = authService || new AuthService();
+    this.auditLog = auditLog || new AuditLogService();
   }
 
   /**
@@ -137,7 +142,7 @@ export class TwoFactorService {
    * @throws AppError if 2FA already enabled or not setup
    * @throws AuthenticationError if verification code invalid
    */
-  async enable(userId: string, code: string): Promise<TwoFactorEnableResult> {
+  async enable(userId: string, code: string, context: AuditContext = {}): Promise<TwoFactorEnableResult> {
     const user = await this.getUser(userId);
 
     if (this.is2FAEnabled(user)) {
@@ -163,6 +168,8 @@ export class TwoFactorService {
       twoFactorBackupCodes: backupCodes,
     });
 
+    await this.auditLog.record('auth.2fa_enabled', { ...context, actorId: context.actorId ?? userId, targetId: userId });
+
     return { backupCodes };
   }
 
@@ -173,7 +180,7 @@ export class TwoFactorService {
    * @throws AppError if 2FA not enabled
    * @throws AuthenticationError if password or code invalid
    */
-  async disable(userId: string, password: string, code: string): Promise<void> {
+  async disable(userId: string, password: string, code: string, context: AuditContext = {}): Promise<void> {
     const user = await this.getUser(userId);
 
     if (!this.is2FAEnabled(user)) {
@@ -202,6 +209,8 @@ export class TwoFactorService {
       twoFactorSecret: null,
       twoFactorBackupCodes: [],
     });
+
+    await this.auditLog.record('auth.2fa_disabled', { ...context, actorId: context.actorId ?? userId, targetId: userId });
   }
 
   /**
@@ -253,7 +262,8 @@ export class TwoFactorService {
   async regenerateBackupCodes(
     userId: string,
     password: string,
-    code: string
+    code: string,
+    context: AuditContext = {}
   ): Promise<TwoFactorEnableResult> {
     const user = await this.getUser(userId);
 
@@ -281,6 +291,12 @@ export class TwoFactorService {
       twoFactorBackupCodes: backupCodes,
     });
 
+    await this.auditLog.record('auth.2fa_backup_codes_regenerated', {
+      ...context,
+      actorId: context.actorId ?? userId,
+      targetId: userId,
+    });
+
     return { backupCodes };
   }
 
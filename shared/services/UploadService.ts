@@ -0,0 +1,322 @@
+/**
+ * Upload Service
+ *
+ * Handles multipart uploads for /api/uploads/*:
+ * - Size and type validation
+ * - Image processing (optimize, resize, thumbnail, avatar)
+ * - Writing bytes to Storage and metadata to FileRepository
+ *
+ * Files are served back through GET /api/uploads/:id, so callers get
+ * stable URLs regardless of the storage backend.
+ */
+
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from "../../frontend/lib/errors.ts";
+import {
+  createAvatar,
+  generateThumbnail,
+  isValidImage,
+  optimizeImage,
+  resizeImage,
+} from "../lib/image-processing.ts";
+import { createLogger } from "../lib/logger.ts";
+import { getStorage, type Storage } from "../lib/storage.ts";
+import { FileRepository } from "../repositories/index.ts";
+import type {
+  FileCategory,
+  FileData,
+  FileVariant,
+  ImageUploadOptions,
+} from "../types/files.ts";
+
+const logger = createLogger('UploadService');
+
+/**
+ * Maximum upload size per category (bytes)
+ * Mirrors the client-side limits in FileUpload, ImageUpload and AvatarUpload
+ */
+export const UPLOAD_LIMITS: Record<FileCategory, number> = {
+  file: 10 * 1024 * 1024,
+  image: 5 * 1024 * 1024,
+  avatar: 2 * 1024 * 1024,
+};
+
+/**
+ * Allowance for multipart boundaries and part headers when checking Content-Length
+ */
+export const MULTIPART_OVERHEAD = 64 * 1024;
+
+const AVATAR_SIZES = { large: 256, small: 64 };
+
+export interface UploadedFile {
+  name: string;
+  type: string;
+  data: Uint8Array;
+}
+
+export interface FileUploadResult {
+  file: FileData;
+  url: string;
+}
+
+export interface ImageUploadResult {
+  file: FileData;
+  urls: {
+    original: string;
+    optimized?: string;
+    thumbnail?: string;
+  };
+}
+
+export interface AvatarUploadResult {
+  file: FileData;
+  urls: {
+    large: string;
+    small: string;
+  };
+}
+
+export class UploadService {
+  private fileRepo: FileRepository;
+  private storage: Storage;
+
+  constructor(
+    fileRepo?: FileRepository,
+    storage?: Storage,
+  ) {
+    this.fileRepo = fileRepo || new FileRepository();
+    this.storage = storage || getStorage();
+  }
+
+  /**
+   * Public URL for a stored file
+   */
+  static getFileUrl(fileId: string): string {
+    return `/api/uploads/${fileId}`;
+  }
+
+  /**
+   * Read the `file` field of a multipart request
+   *
+   * @throws ValidationError if the field is missing or not a file
+   */
+  static async readUpload(formData: FormData): Promise<UploadedFile> {
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      throw new ValidationError('No file provided', { file: ['A file is required'] });
+    }
+
+    return {
+      name: file.name || 'upload',
+      type: file.type || 'application/octet-stream',
+      data: new Uint8Array(await file.arrayBuffer()),
+    };
+  }
+
+  /**
+   * Upload any file type (served as a download unless it is an image)
+   */
+  async uploadFile(userId: string, upload: UploadedFile): Promise<FileUploadResult> {
+    this.checkSize(upload, 'file');
+
+    const file = await this.store(userId, 'file', 'original', upload.name, upload.type, upload.data);
+    return { file, url: UploadService.getFileUrl(file.id) };
+  }
+
+  /**
+   * Upload an image with optional optimization, resize and thumbnail
+   */
+  async uploadImage(
+    userId: string,
+    upload: UploadedFile,
+    options: ImageUploadOptions = {},
+  ): Promise<ImageUploadResult> {
+    this.checkSize(upload, 'image');
+    await this.checkImage(upload);
+
+    const original = await this.store(userId, 'image', 'original', upload.name, upload.type, upload.data);
+    const urls: ImageUploadResult['urls'] = { original: UploadService.getFileUrl(original.id) };
+
+    if (options.resize || options.optimize) {
+      // resizeImage re-encodes as WebP; optimizeImage keeps the source format
+      const [processed, contentType] = options.resize
+        ? [await resizeImage(upload.data, { ...options.resize, fit: 'inside' }), 'image/webp']
+        : [await optimizeImage(upload.data), upload.type];
+
+      const optimized = await this.store(
+        userId, 'image', 'optimized', upload.name, contentType, processed, original.id,
+      );
+      urls.optimized = UploadService.getFileUrl(optimized.id);
+    }
+
+    if (options.thumbnail) {
+      const thumbnail = await this.store(
+        userId,
+        'image',
+        'thumbnail',
+        upload.name,
+        'image/jpeg',
+        await generateThumbnail(upload.data, options.thumbnail),
+        original.id,
+      );
+      urls.thumbnail = UploadService.getFileUrl(thumbnail.id);
+    }
+
+    return { file: original, urls };
+  }
+
+  /**
+   * Upload an avatar - stores large and small circular PNG versions
+   */
+  async uploadAvatar(userId: string, upload: UploadedFile): Promise<AvatarUploadResult> {
+    this.checkSize(upload, 'avatar');
+    await this.checkImage(upload);
+
+    const large = await this.store(
+      userId, 'avatar', 'large', upload.name, 'image/png',
+      await createAvatar(upload.data, AVATAR_SIZES.large),
+    );
+    const small = await this.store(
+      userId, 'avatar', 'small', upload.name, 'image/png',
+      await createAvatar(upload.data, AVATAR_SIZES.small),
+      large.id,
+    );
+
+    return {
+      file: large,
+      urls: {
+        large: UploadService.getFileUrl(large.id),
+        small: UploadService.getFileUrl(small.id),
+      },
+    };
+  }
+
+  /**
+   * Load file metadata and content
+   *
+   * @throws NotFoundError if the file does not exist
+   */
+  async getFile(fileId: string): Promise<{ file: FileData; content: Uint8Array }> {
+    const file = await this.fileRepo.findById(fileId);
+    if (!file) {
+      throw new NotFoundError(undefined, 'File', fileId);
+    }
+
+    const content = await this.storage.download(file.storagePath);
+    return { file, content };
+  }
+
+  /**
+   * List a user's uploads
+   */
+  async listUserFiles(userId: string, limit?: number): Promise<FileData[]> {
+    const result = await this.fileRepo.listByUser(userId, { limit });
+    return result.items;
+  }
+
+  /**
+   * Delete a file and its derived variants (owner or admin only)
+   *
+   * @throws NotFoundError if the file does not exist
+   * @throws AuthorizationError if the user does not own the file
+   */
+  async deleteFile(fileId: string, userId: string, isAdmin = false): Promise<void> {
+    const file = await this.fileRepo.findById(fileId);
+    if (!file) {
+      throw new NotFoundError(undefined, 'File', fileId);
+    }
+
+    if (file.userId !== userId && !isAdmin) {
+      throw new AuthorizationError('You can only delete your own files');
+    }
+
+    const variants = await this.fileRepo.findVariants(file);
+    for (const entry of [...variants, file]) {
+      try {
+        await this.storage.delete(entry.storagePath);
+      } catch (error) {
+        // Metadata is still removed so the file is no longer served
+        logger.warn('Failed to delete stored file', { fileId: entry.id, error });
+      }
+      await this.fileRepo.deleteFile(entry);
+    }
+  }
+
+  /**
+   * @throws ValidationError if the upload exceeds the category limit
+   */
+  private checkSize(upload: UploadedFile, category: FileCategory): void {
+    const limit = UPLOAD_LIMITS[category];
+    if (upload.data.byteLength === 0) {
+      throw new ValidationError('File is empty', { file: ['File is empty'] });
+    }
+    if (upload.data.byteLength > limit) {
+      const limitMb = limit / (1024 * 1024);
+      throw new ValidationError(`File too large. Maximum size is ${limitMb}MB`, {
+        file: [`Maximum size is ${limitMb}MB`],
+      });
+    }
+  }
+
+  /**
+   * @throws ValidationError if the bytes are not a decodable image
+   */
+  private async checkImage(upload: UploadedFile): Promise<void> {
+    if (!upload.type.startsWith('image/') || !(await isValidImage(upload.data))) {
+      throw new ValidationError('File is not a valid image', { file: ['File is not a valid image'] });
+    }
+  }
+
+  /**
+   * Write bytes to storage and record metadata
+   */
+  private async store(
+    userId: string,
+    category: FileCategory,
+    variant: FileVariant,
+    originalName: string,
+    contentType: string,
+    data: Uint8Array,
+    parentId?: string,
+  ): Promise<FileData> {
+    const id = crypto.randomUUID();
+    const folder = `${category}s/${userId}`;
+    const filename = `${id}${this.getExtension(originalName, contentType)}`;
+
+    await this.storage.upload({ file: data, filename, contentType, folder });
+
+    return await this.fileRepo.create({
+      id,
+      userId,
+      category,
+      variant,
+      ...(parentId && { parentId }),
+      originalName,
+      contentType,
+      size: data.byteLength,
+      storagePath: `${folder}/${filename}`,
+    });
+  }
+
+  /**
+   * File extension from content type, falling back to the original name
+   */
+  private getExtension(originalName: string, contentType: string): string {
+    const known: Record<string, string> = {
+      'image/jpeg': '.jpg',
+      'image/png': '.png',
+      'image/webp': '.webp',
+      'image/gif': '.gif',
+      'image/avif': '.avif',
+    };
+    if (known[contentType]) {
+      return known[contentType]!;
+    }
+
+    const match = originalName.match(/\.[a-zA-Z0-9]{1,10}$/);
+    return match ? match[0].toLowerCase() : '';
+  }
+}
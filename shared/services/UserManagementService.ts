@@ -3,6 +3,7 @@
  *
  * Centralizes user management operations to eliminate 100-150 duplicate lines across admin routes.
  * Handles admin checks, user lookup, role updates, and user operations.
+ * Role changes, deletions and session revocations are recorded in the audit log.
  */
 
 import {
@@ -11,7 +12,16 @@ import {
     NotFoundError,
 } from "../../frontend/lib/errors.ts";
 import { ErrorCode } from "../lib/error-codes.ts";
-import { TokenRepository, UserRepository } from "../repositories/index.ts";
+import {
+  IdentityRepository,
+  NotificationPreferencesRepository,
+  PushSubscriptionRepository,
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from "../repositories/index.ts";
+import { type AuditContext, AuditLogService } from "./AuditLogService.ts";
+import { AuthService, type SessionInfo } from "./auth.service.ts";
 
 export interface UserListOptions {
   limit?: number;
@@ -49,13 +59,28 @@ export interface DetailedUser extends SanitizedUser {
 export class UserManagementService {
   private userRepo: UserRepository;
   private tokenRepo: TokenRepository;
+  private auditLog: AuditLogService;
+  private credentialRepo: WebAuthnCredentialRepository;
+  private identityRepo: IdentityRepository;
+  private preferencesRepo: NotificationPreferencesRepository;
+  private pushSubscriptionRepo: PushSubscriptionRepository;
 
   constructor(
     userRepo?: UserRepository,
     tokenRepo?: TokenRepository,
+    auditLog?: AuditLogService,
+    credentialRepo?: WebAuthnCredentialRepository,
+    identityRepo?: IdentityRepository,
+    preferencesRepo?: NotificationPreferencesRepository,
+    pushSubscriptionRepo?: PushSubscriptionRepository,
   ) {
     this.userRepo = userRepo || new UserRepository();
     this.tokenRepo = tokenRepo || new TokenRepository();
+    this.auditLog = auditLog || new AuditLogService();
+    this.credentialRepo = credentialRepo || new WebAuthnCredentialRepository();
+    this.identityRepo = identityRepo || new IdentityRepository();
+    this.preferencesRepo = preferencesRepo || new NotificationPreferencesRepository();
+    this.pushSubscriptionRepo = pushSubscriptionRepo || new PushSubscriptionRepository();
   }
 
   /**
@@ -167,14 +192,26 @@ export class UserManagementService {
    * Delete user account (prevents self-deletion)
    * Replaces: frontend/routes/api/admin/users/[id]/index.ts (20-30 lines → service call)
    */
-  async deleteUser(userId: string, adminId: string): Promise<void> {
+  async deleteUser(userId: string, adminId: string, context: AuditContext = {}): Promise<void> {
     this.preventSelfAction(userId, adminId, "delete");
 
     // Check if user exists
-    await this.getUser(userId);
+    const user = await this.getUser(userId);
 
-    // Delete user (also removes email index)
+    // Delete user (also removes email index), their passkeys, linked identities,
+    // notification preferences and push subscriptions
     await this.userRepo.deleteUser(userId);
+    await this.credentialRepo.deleteAllForUser(userId);
+    await this.identityRepo.deleteAllForUser(userId);
+    await this.preferencesRepo.deleteAllForUser(userId);
+    await this.pushSubscriptionRepo.deleteAllForUser(userId);
+
+    await this.auditLog.record('user.deleted', {
+      ...context,
+      actorId: adminId,
+      targetId: userId,
+      metadata: { email: user.email, role: user.role },
+    });
   }
 
   /**
@@ -186,7 +223,8 @@ export class UserManagementService {
   async updateUserRole(
     userId: string,
     role: "user" | "admin",
-    adminId: string
+    adminId: string,
+    context: AuditContext = {}
   ): Promise<void> {
     // Prevent self-demotion
     if (userId === adminId && role === "user") {
@@ -194,10 +232,17 @@ export class UserManagementService {
     }
 
     // Check if user exists
-    await this.getUser(userId);
+    const user = await this.getUser(userId);
 
     // Update role
     await this.userRepo.update(userId, { role });
+
+    await this.auditLog.record('user.role_changed', {
+      ...context,
+      actorId: adminId,
+      targetId: userId,
+      metadata: { from: user.role, to: role },
+    });
   }
 
   /**
@@ -218,13 +263,38 @@ export class UserManagementService {
     await this.userRepo.verifyEmail(userId);
   }
 
+  /**
+   * List a user's active sessions with device details
+   *
+   * @throws NotFoundError if user not found
+   */
+  async listUserSessions(userId: string): Promise<SessionInfo[]> {
+    await this.getUser(userId);
+    return await this.getAuthService().listSessions(userId);
+  }
+
+  /**
+   * Revoke a single session (logout one device)
+   *
+   * @throws NotFoundError if the session doesn't exist for this user
+   */
+  async revokeUserSession(userId: string, sessionId: string, context: AuditContext = {}): Promise<void> {
+    await this.getAuthService().revokeSession(userId, sessionId, context);
+  }
+
   /**
    * Revoke all user's sessions (logout from all devices)
    * Replaces: frontend/routes/api/admin/users/[id]/sessions.ts (10-20 lines → service call)
    */
-  async revokeAllUserSessions(userId: string): Promise<void> {
+  async revokeAllUserSessions(userId: string, context: AuditContext = {}): Promise<void> {
     // Note: Don't check if user exists - allow revoking tokens even if user deleted
     await this.tokenRepo.revokeAllUserRefreshTokens(userId);
+
+    await this.auditLog.record('session.revoked_all', { ...context, targetId: userId });
+  }
+
+  private getAuthService(): AuthService {
+    return new AuthService(this.userRepo, this.tokenRepo, undefined, undefined, this.auditLog, this.credentialRepo);
   }
 
   /**
@@ -0,0 +1,310 @@
+/**
+ * User Profile Service
+ *
+ * Self-service account operations for /api/user/*:
+ * - Reading and updating the caller's profile
+ * - Changing password (revokes the user's other sessions)
+ * - Email change with re-verification
+ *
+ * An email change needs the current password and is only a pending request
+ * until the link sent to the new address is confirmed; the users_by_email
+ * index keeps pointing at the old address until then. The old address gets a
+ * notice with a link that cancels the change, and confirming signs out every
+ * session.
+ */
+
+import {
+  AppError,
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "../../frontend/lib/errors.ts";
+import { ErrorCode } from "../lib/error-codes.ts";
+import { verifyToken } from "../lib/jwt.ts";
+import { createLogger } from "../lib/logger.ts";
+import { verifyPassword } from "../lib/password.ts";
+import { TokenRepository, UserRepository } from "../repositories/index.ts";
+import type { User } from "../types/user.ts";
+
+const logger = createLogger('UserProfileService');
+
+const EMAIL_CHANGE_TTL_SECONDS = 24 * 60 * 60; // 24 hours
+
+export interface UserProfile {
+  id: string;
+  email: string;
+  name: string;
+  role: "user" | "admin";
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  pendingEmail: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EmailChangeRequest {
+  /** For the confirmation link sent to the new address */
+  changeToken: string;
+  /** For the cancel link sent to the current address */
+  cancelToken: string;
+}
+
+export interface ProfileUpdateResult {
+  profile: UserProfile;
+  emailChange: EmailChangeRequest | null;
+}
+
+export class UserProfileService {
+  private userRepo: UserRepository;
+  private tokenRepo: TokenRepository;
+
+  constructor(
+    userRepo?: UserRepository,
+    tokenRepo?: TokenRepository,
+  ) {
+    this.userRepo = userRepo || new UserRepository();
+    this.tokenRepo = tokenRepo || new TokenRepository();
+  }
+
+  /**
+   * Get the caller's profile including any pending email change
+   *
+   * @throws NotFoundError if user not found
+   */
+  async getProfile(userId: string): Promise<UserProfile> {
+    const user = await this.getUser(userId);
+    return await this.toProfile(user);
+  }
+
+  /**
+   * Update name and/or start an email change
+   *
+   * A new email is not applied here - tokens are returned for the caller
+   * to send to the new address (confirm) and the current one (cancel).
+   *
+   * @throws NotFoundError if user not found
+   * @throws ValidationError if an email change lacks the current password
+   * @throws AuthenticationError if the current password is wrong
+   * @throws ConflictError if the new email is already in use
+   */
+  async updateProfile(
+    userId: string,
+    updates: { name?: string | undefined; email?: string | undefined; currentPassword?: string | undefined },
+  ): Promise<ProfileUpdateResult> {
+    let user = await this.getUser(userId);
+
+    // Email first so a conflict doesn't leave a half-applied update
+    let emailChange: EmailChangeRequest | null = null;
+    if (updates.email !== undefined && updates.email !== user.email) {
+      emailChange = await this.requestEmailChange(userId, updates.email, updates.currentPassword);
+    }
+
+    if (updates.name !== undefined && updates.name !== user.name) {
+      user = (await this.userRepo.update(userId, { name: updates.name }))!;
+    }
+
+    return { profile: await this.toProfile(user), emailChange };
+  }
+
+  /**
+   * Start an email change after re-checking the current password
+   *
+   * A session alone is not enough: whoever confirms the new address can
+   * reset the password from then on.
+   *
+   * @throws NotFoundError if user not found
+   * @throws ValidationError if the password is missing or the email is unchanged
+   * @throws AuthenticationError if the current password is wrong
+   * @throws ConflictError if the new email is already in use
+   */
+  async requestEmailChange(
+    userId: string,
+    newEmail: string,
+    currentPassword: string | undefined,
+  ): Promise<EmailChangeRequest> {
+    const user = await this.getUser(userId);
+
+    if (!currentPassword) {
+      throw new ValidationError('Current password is required to change your email', {
+        currentPassword: ['Enter your current password to change your email'],
+      });
+    }
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      throw new AuthenticationError(ErrorCode.INVALID_CREDENTIALS, 'Current password is incorrect');
+    }
+
+    if (newEmail === user.email) {
+      throw new ValidationError('New email must differ from the current one', {
+        email: ['This is already your email address'],
+      });
+    }
+
+    if (await this.userRepo.emailExists(newEmail)) {
+      throw new ConflictError(undefined, 'email', newEmail);
+    }
+
+    const changeToken = crypto.randomUUID();
+    const cancelToken = crypto.randomUUID();
+    const expiresAt = Math.floor(Date.now() / 1000) + EMAIL_CHANGE_TTL_SECONDS;
+
+    await this.tokenRepo.storeEmailChangeToken(changeToken, cancelToken, user.id, user.email, newEmail, expiresAt);
+
+    logger.info('Email change requested', { userId });
+    return { changeToken, cancelToken };
+  }
+
+  /**
+   * Drop a pending email change (e.g. when the confirmation email fails to send)
+   */
+  async cancelEmailChange(userId: string): Promise<void> {
+    await this.tokenRepo.deletePendingEmailChange(userId);
+  }
+
+  /**
+   * Cancel a pending email change from the link sent to the current address
+   *
+   * @returns the address the change would have moved to
+   * @throws AppError if the token is invalid or the change is no longer pending
+   */
+  async cancelEmailChangeByToken(cancelToken: string): Promise<string> {
+    const pending = await this.tokenRepo.getEmailChangeByCancelToken(cancelToken);
+    if (!pending) {
+      throw new AppError(ErrorCode.INVALID_VERIFICATION_TOKEN);
+    }
+
+    await this.tokenRepo.deleteEmailChangeToken(pending.changeToken, pending.data.userId);
+
+    logger.warn('Email change cancelled from the current address', { userId: pending.data.userId });
+    return pending.data.newEmail;
+  }
+
+  /**
+   * Confirm an email change from the link sent to the new address
+   * Moves the users_by_email index, marks the new address verified and
+   * signs out every session (the change may have been started with a stolen one).
+   *
+   * @throws AppError if token is invalid, expired or stale
+   * @throws ConflictError if the new email was taken in the meantime
+   */
+  async confirmEmailChange(changeToken: string): Promise<UserProfile> {
+    const tokenData = await this.tokenRepo.getEmailChangeToken(changeToken);
+    if (!tokenData) {
+      throw new AppError(ErrorCode.INVALID_VERIFICATION_TOKEN);
+    }
+
+    const user = await this.userRepo.findById(tokenData.userId);
+
+    // Token was issued for a different current address (changed again since)
+    if (!user || user.email !== tokenData.currentEmail) {
+      await this.tokenRepo.deleteEmailChangeToken(changeToken, tokenData.userId);
+      throw new AppError(ErrorCode.INVALID_VERIFICATION_TOKEN);
+    }
+
+    let updated: User | null;
+    try {
+      updated = await this.userRepo.update(user.id, {
+        email: tokenData.newEmail,
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+      });
+    } catch {
+      // users_by_email check failed - someone registered the address first
+      await this.tokenRepo.deleteEmailChangeToken(changeToken, user.id);
+      throw new ConflictError(undefined, 'email', tokenData.newEmail);
+    }
+
+    await this.tokenRepo.deleteEmailChangeToken(changeToken, user.id);
+    await this.tokenRepo.revokeAllUserRefreshTokens(user.id);
+
+    logger.info('Email change confirmed', { userId: user.id });
+    return await this.toProfile(updated!);
+  }
+
+  /**
+   * Change password and revoke every other session
+   *
+   * The session identified by currentRefreshToken (the caller's own) is kept.
+   *
+   * @throws NotFoundError if user not found
+   * @throws AuthenticationError if current password is wrong
+   * @throws ValidationError if the new password equals the current one
+   */
+  async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    currentRefreshToken?: string,
+  ): Promise<void> {
+    const user = await this.getUser(userId);
+
+    if (!(await verifyPassword(currentPassword, user.password))) {
+      throw new AuthenticationError(ErrorCode.INVALID_CREDENTIALS, 'Current password is incorrect');
+    }
+
+    if (currentPassword === newPassword) {
+      throw new ValidationError('New password must differ from the current one', {
+        newPassword: ['New password must differ from the current one'],
+      });
+    }
+
+    // Password is automatically hashed by repository
+    await this.userRepo.updatePassword(userId, newPassword);
+
+    const keepTokenId = await this.getSessionTokenId(userId, currentRefreshToken);
+    await this.tokenRepo.revokeAllUserRefreshTokens(userId, keepTokenId);
+
+    logger.info('Password changed', { userId });
+  }
+
+  /**
+   * @throws NotFoundError if user not found
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new NotFoundError(undefined, 'User', userId);
+    }
+    return user;
+  }
+
+  /**
+   * Refresh token ID (jti) of the caller's session, if it belongs to the user
+   */
+  private async getSessionTokenId(
+    userId: string,
+    refreshToken: string | undefined,
+  ): Promise<string | undefined> {
+    if (!refreshToken) {
+      return undefined;
+    }
+
+    try {
+      const payload = await verifyToken(refreshToken);
+      if (payload['type'] === 'refresh' && payload['sub'] === userId && typeof payload['jti'] === 'string') {
+        return payload['jti'];
+      }
+    } catch {
+      // Invalid refresh token - revoke everything
+    }
+
+    return undefined;
+  }
+
+  private async toProfile(user: User): Promise<UserProfile> {
+    const pending = await this.tokenRepo.getPendingEmailChange(user.id);
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      twoFactorEnabled: user.twoFactorEnabled,
+      pendingEmail: pending?.newEmail ?? null,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+}
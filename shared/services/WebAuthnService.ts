@@ -0,0 +1,385 @@
+/**
+ * WebAuthn (Passkey) Service
+ *
+ * Registration and authentication ceremonies for passkeys:
+ * - Registering a passkey (password confirmation required) and removing it
+ * - Issuing single-use challenges stored in the TokenRepository
+ * - Verifying assertions for passwordless login and as a second factor
+ *   (see AuthService.loginWithPasskey / completeTwoFactorLoginWithPasskey)
+ *
+ * The cryptographic checks live in shared/lib/webauthn.ts; this service
+ * ties them to users, stored credentials and signature counters.
+ */
+
+import {
+  AppError,
+  AuthenticationError,
+  NotFoundError,
+} from "../../frontend/lib/errors.ts";
+import { ErrorCode } from "../lib/error-codes.ts";
+import { WebAuthnConfig } from "../lib/config.ts";
+import { createLogger } from "../lib/logger.ts";
+import {
+  type AuthenticationOptions,
+  decodeUserHandle,
+  generateAuthenticationOptions,
+  generateChallenge,
+  generateRegistrationOptions,
+  type RegistrationOptions,
+  type RelyingParty,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+} from "../lib/webauthn.ts";
+import {
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+  type WebAuthnChallengeData,
+} from "../repositories/index.ts";
+import type {
+  AuthenticationCredential,
+  AuthenticatorTransport,
+  RegistrationCredential,
+  WebAuthnCredential,
+} from "../types/webauthn.ts";
+import { type AuditContext, AuditLogService } from "./AuditLogService.ts";
+import { AuthService } from "./auth.service.ts";
+
+export interface PasskeyOptionsResult<T> {
+  challengeId: string;
+  options: T;
+}
+
+/**
+ * A registered passkey as shown to its owner (no key material)
+ */
+export interface PasskeyInfo {
+  id: string;
+  name: string;
+  transports: AuthenticatorTransport[];
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+const logger = createLogger('WebAuthnService');
+
+/**
+ * Relying party from the environment (see .env.example)
+ * Defaults to the host and origin of FRONTEND_URL.
+ */
+function getRelyingParty(): RelyingParty {
+  const frontendUrl = new URL(Deno.env.get('FRONTEND_URL') || 'http://localhost:3000');
+  const origins = Deno.env.get('WEBAUTHN_ORIGIN');
+
+  return {
+    id: Deno.env.get('WEBAUTHN_RP_ID') || frontendUrl.hostname,
+    name: Deno.env.get('WEBAUTHN_RP_NAME') || 'Deno Fresh App',
+    origin: origins ? origins.split(',').map((origin) => origin.trim()) : frontendUrl.origin,
+  };
+}
+
+export class WebAuthnService {
+  private userRepo: UserRepository;
+  private credentialRepo: WebAuthnCredentialRepository;
+  private tokenRepo: TokenRepository;
+  private authService: AuthService;
+  private auditLog: AuditLogService;
+
+  constructor(
+    userRepo?: UserRepository,
+    credentialRepo?: WebAuthnCredentialRepository,
+    tokenRepo?: TokenRepository,
+    authService?: AuthService,
+    auditLog?: AuditLogService,
+  ) {
+    this.userRepo = userRepo || new UserRepository();
+    this.credentialRepo = credentialRepo || new WebAuthnCredentialRepository();
+    this.tokenRepo = tokenRepo || new TokenRepository();
+    this.authService = authService || new AuthService();
+    this.auditLog = auditLog || new AuditLogService();
+  }
+
+  // ==========================================================================
+  // Registration
+  // ==========================================================================
+
+  /**
+   * Start registering a new passkey
+   * Returns options for navigator.credentials.create()
+   *
+   * @throws AuthenticationError if password is incorrect
+   * @throws AppError if the user already has the maximum number of passkeys
+   */
+  async startRegistration(
+    userId: string,
+    password: string,
+  ): Promise<PasskeyOptionsResult<RegistrationOptions>> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new NotFoundError(undefined, 'User', userId);
+    }
+
+    const isValid = await this.authService.verifyUserPassword(userId, password);
+    if (!isValid) {
+      throw new AuthenticationError(ErrorCode.INVALID_CREDENTIALS, 'Invalid password');
+    }
+
+    const existing = await this.credentialRepo.listByUser(userId);
+    if (existing.length >= WebAuthnConfig.MAX_CREDENTIALS_PER_USER) {
+      throw new AppError(
+        ErrorCode.BAD_REQUEST,
+        `You can register up to ${WebAuthnConfig.MAX_CREDENTIALS_PER_USER} passkeys. Remove one to add another`,
+      );
+    }
+
+    const challenge = await this.createChallenge(userId, 'registration');
+
+    return {
+      challengeId: challenge.id,
+      options: generateRegistrationOptions({
+        rp: getRelyingParty(),
+        user: { id: user.id, name: user.email, displayName: user.name },
+        challenge: challenge.challenge,
+        timeout: WebAuthnConfig.CEREMONY_TIMEOUT_MS,
+        // Stops the same authenticator from being registered twice
+        excludeCredentials: existing.map((credential) => ({ id: credential.id, transports: credential.transports })),
+      }),
+    };
+  }
+
+  /**
+   * Verify the authenticator's response and save the passkey
+   *
+   * @throws AuthenticationError if the challenge is invalid/expired or verification fails
+   */
+  async finishRegistration(
+    userId: string,
+    challengeId: string,
+    credential: RegistrationCredential,
+    name?: string,
+    context: AuditContext = {},
+  ): Promise<PasskeyInfo> {
+    const challenge = await this.consumeChallenge(challengeId, 'registration');
+    if (challenge.userId !== userId) {
+      throw this.expiredChallengeError();
+    }
+
+    const verified = await this.verify(() =>
+      verifyRegistrationResponse(credential, {
+        challenge: challenge.challenge,
+        rp: getRelyingParty(),
+        requireUserVerification: false,
+      })
+    );
+
+    const existing = await this.credentialRepo.findById(verified.credentialId);
+    if (existing) {
+      throw new AuthenticationError(
+        ErrorCode.PASSKEY_VERIFICATION_FAILED,
+        'This passkey is already registered',
+      );
+    }
+
+    const saved = await this.credentialRepo.create({
+      id: verified.credentialId,
+      userId,
+      name: name?.trim() || 'Passkey',
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: credential.response.transports ?? [],
+      aaguid: verified.aaguid,
+      backedUp: verified.backedUp,
+    });
+
+    await this.auditLog.record('auth.passkey_registered', {
+      ...context,
+      actorId: context.actorId ?? userId,
+      targetId: userId,
+      metadata: { credentialId: saved.id, name: saved.name, aaguid: saved.aaguid },
+    });
+
+    return this.toPasskeyInfo(saved);
+  }
+
+  // ==========================================================================
+  // Management
+  // ==========================================================================
+
+  /**
+   * List a user's passkeys
+   */
+  async listCredentials(userId: string): Promise<PasskeyInfo[]> {
+    const credentials = await this.credentialRepo.listByUser(userId);
+    return credentials.map((credential) => this.toPasskeyInfo(credential));
+  }
+
+  /**
+   * Remove one of the user's passkeys
+   *
+   * @throws NotFoundError if the passkey doesn't exist or belongs to someone else
+   */
+  async deleteCredential(userId: string, credentialId: string, context: AuditContext = {}): Promise<void> {
+    const credential = await this.credentialRepo.findById(credentialId);
+    if (!credential || credential.userId !== userId) {
+      throw new NotFoundError(undefined, 'Passkey', credentialId);
+    }
+
+    await this.credentialRepo.deleteCredential(credential);
+
+    await this.auditLog.record('auth.passkey_removed', {
+      ...context,
+      actorId: context.actorId ?? userId,
+      targetId: userId,
+      metadata: { credentialId, name: credential.name },
+    });
+  }
+
+  // ==========================================================================
+  // Authentication
+  // ==========================================================================
+
+  /**
+   * Start a sign-in ceremony
+   * Returns options for navigator.credentials.get()
+   *
+   * With a userId (second factor after a password), only that user's passkeys
+   * are allowed. Without one (passwordless), the browser offers any
+   * discoverable passkey for this site and user verification is required,
+   * since the passkey is the only factor.
+   */
+  async startAuthentication(userId?: string): Promise<PasskeyOptionsResult<AuthenticationOptions>> {
+    const allowCredentials = userId
+      ? (await this.credentialRepo.listByUser(userId)).map((credential) => ({
+        id: credential.id,
+        transports: credential.transports,
+      }))
+      : [];
+
+    const challenge = await this.createChallenge(userId ?? null, 'authentication');
+
+    return {
+      challengeId: challenge.id,
+      options: generateAuthenticationOptions({
+        rp: getRelyingParty(),
+        challenge: challenge.challenge,
+        timeout: WebAuthnConfig.CEREMONY_TIMEOUT_MS,
+        allowCredentials,
+        userVerification: userId ? 'discouraged' : 'required',
+      }),
+    };
+  }
+
+  /**
+   * Verify a sign-in assertion and advance the passkey's signature counter
+   * Returns the ID of the user the passkey belongs to.
+   *
+   * @param userId - Expected user when used as a second factor; omit for passwordless
+   * @throws AuthenticationError if the challenge is invalid/expired or verification fails
+   */
+  async verifyAuthentication(
+    challengeId: string,
+    credential: AuthenticationCredential,
+    userId?: string,
+  ): Promise<string> {
+    const challenge = await this.consumeChallenge(challengeId, 'authentication');
+    if (challenge.userId !== (userId ?? null)) {
+      throw this.expiredChallengeError();
+    }
+
+    const stored = await this.credentialRepo.findById(credential.id);
+    if (!stored || (userId && stored.userId !== userId)) {
+      throw new AuthenticationError(ErrorCode.PASSKEY_VERIFICATION_FAILED, 'This passkey is not registered');
+    }
+
+    // A discoverable passkey names its user; it must be the passkey's owner.
+    // Passwordless sign-in relies on it, so it must be present there.
+    const userHandle = credential.response.userHandle;
+    if (userHandle ? decodeUserHandle(userHandle) !== stored.userId : !userId) {
+      throw new AuthenticationError(ErrorCode.PASSKEY_VERIFICATION_FAILED, 'Passkey does not match its account');
+    }
+
+    const verified = await this.verify(() =>
+      verifyAuthenticationResponse(
+        credential,
+        { challenge: challenge.challenge, rp: getRelyingParty(), requireUserVerification: !userId },
+        { publicKey: stored.publicKey, signCount: stored.signCount },
+      )
+    );
+
+    const updated = await this.credentialRepo.recordUse(stored.id, stored.signCount, {
+      signCount: verified.signCount,
+      backedUp: verified.backedUp,
+    });
+    if (!updated) {
+      logger.warn('Passkey counter changed during sign-in', { userId: stored.userId, credentialId: stored.id });
+      throw new AuthenticationError(ErrorCode.PASSKEY_VERIFICATION_FAILED);
+    }
+
+    return stored.userId;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  private async createChallenge(
+    userId: string | null,
+    ceremony: WebAuthnChallengeData['ceremony'],
+  ): Promise<{ id: string; challenge: string }> {
+    const id = crypto.randomUUID();
+    const challenge = generateChallenge();
+    const expiresAt = Math.floor((Date.now() + WebAuthnConfig.CHALLENGE_EXPIRY_MS) / 1000);
+
+    await this.tokenRepo.storeWebAuthnChallenge(id, { challenge, userId, ceremony, expiresAt });
+
+    return { id, challenge };
+  }
+
+  /**
+   * Look up and delete a challenge - each one can be answered once
+   */
+  private async consumeChallenge(
+    challengeId: string,
+    ceremony: WebAuthnChallengeData['ceremony'],
+  ): Promise<WebAuthnChallengeData> {
+    const challenge = await this.tokenRepo.consumeWebAuthnChallenge(challengeId);
+    if (!challenge || challenge.ceremony !== ceremony) {
+      throw this.expiredChallengeError();
+    }
+    return challenge;
+  }
+
+  private expiredChallengeError(): AuthenticationError {
+    return new AuthenticationError(ErrorCode.INVALID_TOKEN, 'Passkey request has expired. Please try again');
+  }
+
+  /**
+   * Run a verification step, reporting failures as PASSKEY_VERIFICATION_FAILED
+   * The specific reason is logged, not returned to the client.
+   */
+  private async verify<T>(step: () => Promise<T>): Promise<T> {
+    try {
+      return await step();
+    } catch (error) {
+      if (error instanceof WebAuthnVerificationError) {
+        logger.warn('Passkey verification failed', { reason: error.message });
+        throw new AuthenticationError(ErrorCode.PASSKEY_VERIFICATION_FAILED);
+      }
+      throw error;
+    }
+  }
+
+  private toPasskeyInfo(credential: WebAuthnCredential): PasskeyInfo {
+    return {
+      id: credential.id,
+      name: credential.name,
+      transports: credential.transports,
+      backedUp: credential.backedUp,
+      createdAt: credential.createdAt,
+      lastUsedAt: credential.lastUsedAt,
+    };
+  }
+}
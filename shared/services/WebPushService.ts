@@ -0,0 +1,315 @@
+/**
+ * Web Push Service
+ *
+ * Browser push for notifications, so users hear about them without an open tab:
+ * - Browsers subscribe with the VAPID public key and register the resulting
+ *   PushSubscription here (one record per browser; it moves to whoever
+ *   subscribed on it last)
+ * - notifyUser() hands a notification to sendNotification() when the user
+ *   has no open WebSocket on any instance (wired up in shared/startup.ts)
+ * - Subscriptions the push service reports gone (404/410), and those made
+ *   with a VAPID key we no longer sign with, are deleted
+ * - Endpoints must be on a known push service (WebPushConfig.ALLOWED_PUSH_HOSTS),
+ *   so a subscription can't point the server at an internal address
+ *
+ * The protocol (encryption, VAPID, delivery) lives in shared/lib/web-push.ts.
+ */
+
+import { decodeBase64Url } from "@std/encoding/base64url";
+import { ValidationError } from "../../frontend/lib/errors.ts";
+import { WebPushConfig } from "../lib/config.ts";
+import { createLogger } from "../lib/logger.ts";
+import { VapidKeyStore, vapidKeys } from "../lib/vapid-keys.ts";
+import {
+  MAX_PAYLOAD_BYTES,
+  type PushMessageOptions,
+  type PushUrgency,
+  sendPushMessage,
+} from "../lib/web-push.ts";
+import { PushSubscriptionRepository } from "../repositories/index.ts";
+import type {
+  NotificationData,
+  NotificationPriority,
+  PushSubscriptionRecord,
+  PushSubscriptionRequest,
+} from "../types/notifications.ts";
+
+const logger = createLogger('WebPushService');
+
+const encoder = new TextEncoder();
+
+/** Push urgency for each notification priority (RFC 8030 section 5.3) */
+const URGENCY: Record<NotificationPriority, PushUrgency> = {
+  low: 'low',
+  normal: 'normal',
+  high: 'high',
+  urgent: 'high',
+};
+
+/**
+ * A subscribed browser as shown to its owner (no key material)
+ */
+export interface PushSubscriptionInfo {
+  id: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastSuccessAt: string | null;
+}
+
+export interface PushDeliveryResult {
+  sent: number;
+  /** Subscriptions deleted because they no longer work */
+  removed: number;
+  failed: number;
+}
+
+/**
+ * What the service worker receives (frontend/static/sw.js)
+ */
+interface PushPayload {
+  id: string;
+  type: NotificationData['type'];
+  title: string;
+  body: string;
+  link?: string;
+  /** Link actions only: the service worker can't call the API as the user */
+  actions: { label: string; url: string }[];
+  priority: NotificationPriority;
+  groupCount?: number;
+  /** Notifications with the same tag replace each other on screen */
+  tag: string;
+  createdAt: string;
+}
+
+export class WebPushService {
+  private subscriptionRepo: PushSubscriptionRepository;
+  private keyStore: VapidKeyStore;
+  private allowedHosts: readonly string[];
+
+  constructor(
+    subscriptionRepo?: PushSubscriptionRepository,
+    keyStore?: VapidKeyStore,
+    allowedHosts: readonly string[] = WebPushConfig.ALLOWED_PUSH_HOSTS,
+  ) {
+    this.subscriptionRepo = subscriptionRepo || new PushSubscriptionRepository();
+    this.keyStore = keyStore || vapidKeys;
+    this.allowedHosts = allowedHosts;
+  }
+
+  /**
+   * VAPID public key for PushManager.subscribe()
+   */
+  async getPublicKey(): Promise<string> {
+    return await this.keyStore.getPublicKey();
+  }
+
+  /**
+   * Register a browser's subscription for a user
+   *
+   * Beyond WebPushConfig.MAX_SUBSCRIPTIONS_PER_USER the oldest subscription is dropped.
+   *
+   * @throws ValidationError if the endpoint or keys are unusable
+   */
+  async subscribe(
+    userId: string,
+    request: PushSubscriptionRequest,
+    userAgent: string | null = null,
+  ): Promise<PushSubscriptionRecord> {
+    if (!this.isAllowedEndpoint(request.endpoint)) {
+      throw new ValidationError('Push endpoint is not a known push service', {
+        endpoint: ['Must be an https: URL of a browser push service'],
+      });
+    }
+    if (!isKeyOfLength(request.keys.p256dh, 65) || !isKeyOfLength(request.keys.auth, 16)) {
+      throw new ValidationError('Invalid push subscription keys', { keys: ['Expected a P-256 key and a 16-byte secret'] });
+    }
+
+    const id = await subscriptionId(request.endpoint);
+    const others = (await this.subscriptionRepo.listByUser(userId)).filter((s) => s.id !== id);
+    const excess = others.length - WebPushConfig.MAX_SUBSCRIPTIONS_PER_USER + 1;
+    for (const oldest of others.slice(0, Math.max(0, excess))) {
+      await this.subscriptionRepo.deleteSubscription(oldest);
+    }
+
+    const subscription: PushSubscriptionRecord = {
+      id,
+      userId,
+      endpoint: request.endpoint,
+      keys: request.keys,
+      expirationTime: request.expirationTime ?? null,
+      vapidPublicKey: await this.getPublicKey(),
+      userAgent: userAgent?.slice(0, 300) ?? null,
+      createdAt: new Date().toISOString(),
+      lastSuccessAt: null,
+    };
+
+    await this.subscriptionRepo.save(subscription);
+    logger.info('Push subscription saved', { userId, subscriptionId: id });
+    return subscription;
+  }
+
+  /**
+   * Remove a browser's subscription (only the user's own)
+   */
+  async unsubscribe(userId: string, endpoint: string): Promise<boolean> {
+    const subscription = await this.subscriptionRepo.findById(await subscriptionId(endpoint));
+    if (!subscription || subscription.userId !== userId) {
+      return false;
+    }
+
+    await this.subscriptionRepo.deleteSubscription(subscription);
+    return true;
+  }
+
+  /**
+   * A user's subscribed browsers
+   */
+  async listSubscriptions(userId: string): Promise<PushSubscriptionInfo[]> {
+    const subscriptions = await this.subscriptionRepo.listByUser(userId);
+    return subscriptions.map(({ id, userAgent, createdAt, lastSuccessAt }) => ({
+      id,
+      userAgent,
+      createdAt,
+      lastSuccessAt,
+    }));
+  }
+
+  /**
+   * Push a notification to every browser the user subscribed
+   *
+   * Failures are counted, not thrown: push is a fallback for the in-app
+   * notification, which is already stored.
+   */
+  async sendNotification(userId: string, notification: NotificationData): Promise<PushDeliveryResult> {
+    const result: PushDeliveryResult = { sent: 0, removed: 0, failed: 0 };
+
+    const ttl = this.getTtl(notification);
+    const subscriptions = ttl > 0 ? await this.subscriptionRepo.listByUser(userId) : [];
+    if (subscriptions.length === 0) {
+      return result;
+    }
+
+    const vapid = await this.keyStore.getCredentials();
+    const payload = buildPayload(notification);
+    const options: PushMessageOptions = {
+      ttl,
+      urgency: URGENCY[notification.priority ?? 'normal'],
+      ...(notification.groupKey && { topic: await topicFor(notification.groupKey) }),
+    };
+
+    for (const subscription of subscriptions) {
+      // The browser would reject pushes signed with a different key; never
+      // post to an endpoint that is no longer on an allowed push service
+      if (subscription.vapidPublicKey !== vapid.publicKey || !this.isAllowedEndpoint(subscription.endpoint)) {
+        await this.subscriptionRepo.deleteSubscription(subscription);
+        result.removed++;
+        continue;
+      }
+
+      try {
+        const response = await sendPushMessage(subscription, payload, vapid, options);
+
+        if (response.ok) {
+          await this.subscriptionRepo.recordSuccess(subscription.id);
+          result.sent++;
+        } else if (response.gone) {
+          await this.subscriptionRepo.deleteSubscription(subscription);
+          result.removed++;
+        } else {
+          logger.warn('Push service rejected message', { userId, subscriptionId: subscription.id, status: response.status });
+          result.failed++;
+        }
+      } catch (error) {
+        logger.warn('Push delivery failed', { userId, subscriptionId: subscription.id, error });
+        result.failed++;
+      }
+    }
+
+    logger.debug('Notification pushed', { userId, notificationId: notification.id, ...result });
+    return result;
+  }
+
+  /**
+   * Seconds the push service should hold the message: until the notification expires, at most the default
+   */
+  private getTtl(notification: NotificationData): number {
+    if (!notification.expiresAt) {
+      return WebPushConfig.DEFAULT_TTL_SECONDS;
+    }
+
+    const remaining = Math.floor((new Date(notification.expiresAt).getTime() - Date.now()) / 1000);
+    return Math.min(WebPushConfig.DEFAULT_TTL_SECONDS, Math.max(0, remaining));
+  }
+
+  /**
+   * Push services are HTTPS; plain HTTP is accepted outside production for local testing
+   */
+  private isAllowedEndpoint(endpoint: string): boolean {
+    let url: URL;
+    try {
+      url = new URL(endpoint);
+    } catch {
+      return false;
+    }
+
+    const secure = url.protocol === 'https:' ||
+      (url.protocol === 'http:' && Deno.env.get('DENO_ENV') !== 'production');
+    return secure && this.allowedHosts.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+  }
+}
+
+/**
+ * Service worker payload, with the message shortened if needed to fit one push
+ */
+function buildPayload(notification: NotificationData): string {
+  const payload: PushPayload = {
+    id: notification.id,
+    type: notification.type,
+    title: notification.title,
+    body: notification.message,
+    ...(notification.link && { link: notification.link }),
+    actions: (notification.actions ?? []).flatMap((action) =>
+      action.type === 'link' ? [{ label: action.label, url: action.url }] : []
+    ),
+    priority: notification.priority ?? 'normal',
+    ...(notification.groupCount && { groupCount: notification.groupCount }),
+    tag: notification.groupKey ?? notification.id,
+    createdAt: notification.createdAt,
+  };
+
+  let json = JSON.stringify(payload);
+  while (encoder.encode(json).length > MAX_PAYLOAD_BYTES) {
+    if (payload.body.length > 0) {
+      payload.body = payload.body.slice(0, -100);
+      json = JSON.stringify({ ...payload, body: `${payload.body}…` });
+    } else if (payload.actions.length > 0) {
+      payload.actions = [];
+      json = JSON.stringify(payload);
+    } else {
+      break; // Title and link alone are too long; sendPushMessage() reports it
+    }
+  }
+
+  return json;
+}
+
+function isKeyOfLength(value: string, length: number): boolean {
+  try {
+    return decodeBase64Url(value).length === length;
+  } catch {
+    return false;
+  }
+}
+
+async function subscriptionId(endpoint: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(endpoint));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Topic header for a group (at most 32 URL-safe characters)
+ */
+async function topicFor(groupKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(groupKey));
+  return Array.from(new Uint8Array(digest).slice(0, 16), (b) => b.toString(16).padStart(2, '0')).join('');
+}
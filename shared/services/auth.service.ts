@@ -2,10 +2,13 @@
  * Authentication Service
  *
  * Centralized service for all authentication operations including:
- * - User login/logout
- * - Token generation and validation
+ * - User login/logout (with a TOTP or passkey step when 2FA is enabled)
+ * - Passwordless login with a passkey, and sessions for social sign-ins (see OidcService)
+ * - Account lockout after repeated failed logins, and new device alerts
+ * - Audit log entries for logins, logouts and session revocations
+ * - Token generation and validation (refresh tokens rotate, replays revoke the session)
  * - Password verification
- * - Session management
+ * - Session management (per-device sessions with client metadata)
  * - Email verification
  * - Password reset
  *
@@ -19,15 +22,41 @@ import {
   NotFoundError,
 } from "../../frontend/lib/errors.ts";
 import { ErrorCode } from "../lib/error-codes.ts";
-import { createAccessToken, createRefreshToken, verifyToken } from "../lib/jwt.ts";
+import { LoginSecurityConfig, TokenConfig } from "../lib/config.ts";
+import { sendAccountLockedEmail, sendNewDeviceLoginEmail } from "../lib/email.ts";
+import {
+  createAccessToken,
+  createRefreshToken,
+  createTwoFactorChallengeToken,
+  verifyToken,
+} from "../lib/jwt.ts";
+import { createLogger } from "../lib/logger.ts";
 import { verifyPassword } from "../lib/password.ts";
-import { TokenRepository, UserRepository } from "../repositories/index.ts";
+import { getIpNetwork } from "../lib/rate-limit.ts";
+import { getDeviceLabel } from "../lib/user-agent.ts";
+import type { AuthenticationOptions } from "../lib/webauthn.ts";
+import {
+  type LockoutPolicy,
+  LoginSecurityRepository,
+  NotificationRepository,
+  type RefreshTokenData,
+  TokenRepository,
+  type TwoFactorFirstFactor,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from "../repositories/index.ts";
+import type { User } from "../types/user.ts";
+import type { AuthenticationCredential } from "../types/webauthn.ts";
+import { type AuditContext, AuditLogService } from "./AuditLogService.ts";
+import { TwoFactorService } from "./TwoFactorService.ts";
+import { type PasskeyOptionsResult, WebAuthnService } from "./WebAuthnService.ts";
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface LoginResult {
+  requiresTwoFactor: false;
   accessToken: string;
   refreshToken: string;
   user: {
@@ -39,6 +68,32 @@ export interface LoginResult {
   };
 }
 
+export type SecondFactorMethod = 'totp' | 'passkey';
+
+/**
+ * How a session was opened, recorded on its audit log entry
+ */
+interface SessionFactors {
+  method: 'password' | 'passkey' | 'social';
+  /** Social sign-in provider ID */
+  provider?: string | undefined;
+  secondFactor: SecondFactorMethod | null;
+}
+
+/**
+ * Returned by login() instead of tokens when the user has 2FA enabled
+ * or has registered a passkey. The challenge token must be exchanged via
+ * completeTwoFactorLogin() or completeTwoFactorLoginWithPasskey().
+ */
+export interface TwoFactorChallengeResult {
+  requiresTwoFactor: true;
+  challengeToken: string;
+  expiresIn: number; // seconds
+  methods: SecondFactorMethod[];
+}
+
+export type LoginOutcome = LoginResult | TwoFactorChallengeResult;
+
 export interface SignupResult {
   user: {
     id: string;
@@ -51,6 +106,10 @@ export interface SignupResult {
 
 export interface RefreshResult {
   accessToken: string;
+  /** Replacement refresh token; absent when a concurrent refresh already rotated it */
+  refreshToken?: string | undefined;
+  /** Unix seconds - the session's expiry, unchanged by rotation */
+  refreshTokenExpiresAt?: number | undefined;
 }
 
 export interface TokenPayload {
@@ -60,11 +119,48 @@ export interface TokenPayload {
   emailVerified: boolean;
 }
 
+/**
+ * Client details captured from the request that opens or refreshes a session
+ */
+export interface SessionMetadata {
+  userAgent?: string | null | undefined;
+  ipAddress?: string | null | undefined;
+}
+
+/**
+ * A signed-in device, backed by one refresh token family
+ */
+export interface SessionInfo {
+  id: string;
+  deviceLabel: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface PasswordResetTokenData {
   userId: string;
   email: string;
 }
 
+/**
+ * Failed code attempts allowed per 2FA challenge before the user
+ * has to start over with their password
+ */
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+const LOCKOUT_POLICY: LockoutPolicy = {
+  maxFailedAttempts: LoginSecurityConfig.MAX_FAILED_ATTEMPTS,
+  baseLockoutMs: LoginSecurityConfig.BASE_LOCKOUT_MS,
+  maxLockoutMs: LoginSecurityConfig.MAX_LOCKOUT_MS,
+  resetAfterMs: LoginSecurityConfig.FAILURE_RESET_MS,
+};
+
+const logger = createLogger('AuthService');
+
 // ============================================================================
 // Service Class
 // ============================================================================
@@ -72,13 +168,25 @@ export interface PasswordResetTokenData {
 export class AuthService {
   private userRepo: UserRepository;
   private tokenRepo: TokenRepository;
+  private loginSecurityRepo: LoginSecurityRepository;
+  private notificationRepo: NotificationRepository;
+  private auditLog: AuditLogService;
+  private credentialRepo: WebAuthnCredentialRepository;
 
   constructor(
     userRepo?: UserRepository,
     tokenRepo?: TokenRepository,
+    loginSecurityRepo?: LoginSecurityRepository,
+    notificationRepo?: NotificationRepository,
+    auditLog?: AuditLogService,
+    credentialRepo?: WebAuthnCredentialRepository,
   ) {
     this.userRepo = userRepo || new UserRepository();
     this.tokenRepo = tokenRepo || new TokenRepository();
+    this.loginSecurityRepo = loginSecurityRepo || new LoginSecurityRepository();
+    this.notificationRepo = notificationRepo || new NotificationRepository();
+    this.auditLog = auditLog || new AuditLogService();
+    this.credentialRepo = credentialRepo || new WebAuthnCredentialRepository();
   }
 
   // ==========================================================================
@@ -88,49 +196,214 @@ export class AuthService {
   /**
    * Authenticate user with email and password
    *
-   * @throws AuthenticationError if credentials are invalid
+   * Returns tokens directly, or a two-factor challenge when the user has
+   * TOTP enabled or a registered passkey (see completeTwoFactorLogin and
+   * completeTwoFactorLoginWithPasskey). Repeated wrong passwords
+   * lock the account for progressively longer; the user is emailed a link
+   * that lifts the lockout (see unlockAccount). Only the right password
+   * reveals the lockout, so it can't be used to find registered emails.
+   *
+   * @throws AuthenticationError if credentials are invalid or the account is locked
    * @throws AppError if email not verified
    */
-  async login(email: string, password: string): Promise<LoginResult> {
+  async login(email: string, password: string, metadata: SessionMetadata = {}): Promise<LoginOutcome> {
     // Find user by email
     const user = await this.userRepo.findByEmail(email);
     if (!user) {
+      await this.auditLog.record('auth.login_failed', {
+        ...metadata,
+        metadata: { email, reason: 'unknown_email' },
+      });
       throw new AuthenticationError(ErrorCode.INVALID_CREDENTIALS);
     }
 
-    // Verify password
+    const attempts = await this.loginSecurityRepo.getLoginAttempts(user.id);
     const isValid = await verifyPassword(password, user.password);
+
+    // Locked accounts refuse every password; guesses made meanwhile don't count
+    if (attempts?.lockedUntil && new Date(attempts.lockedUntil).getTime() > Date.now()) {
+      await this.auditLog.record('auth.login_failed', {
+        ...metadata,
+        targetId: user.id,
+        metadata: { reason: isValid ? 'account_locked' : 'invalid_password_while_locked' },
+      });
+      throw isValid
+        ? this.accountLockedError(attempts.lockedUntil)
+        : new AuthenticationError(ErrorCode.INVALID_CREDENTIALS);
+    }
+
     if (!isValid) {
+      await this.auditLog.record('auth.login_failed', {
+        ...metadata,
+        targetId: user.id,
+        metadata: { reason: 'invalid_password' },
+      });
+      await this.recordFailedLogin(user, metadata);
       throw new AuthenticationError(ErrorCode.INVALID_CREDENTIALS);
     }
 
+    if (attempts) {
+      await this.loginSecurityRepo.clearLoginAttempts(user.id);
+    }
+
     // Check if email is verified
     if (!user.emailVerified) {
       throw new AppError(ErrorCode.EMAIL_NOT_VERIFIED);
     }
 
-    // Generate tokens
-    const tokens = await this.generateTokens(user.id, {
-      email: user.email,
-      role: user.role,
-      emailVerified: user.emailVerified,
-    });
+    // Password alone is not enough when 2FA is on - issue a challenge instead
+    const methods = await this.getSecondFactorMethods(user);
+    if (methods.length > 0) {
+      return await this.createTwoFactorChallenge(user.id, methods, { method: 'password' });
+    }
 
-    // Store refresh token
-    const expiresAt = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // 30 days
-    await this.tokenRepo.storeRefreshToken(user.id, tokens.refreshTokenId, expiresAt);
+    return await this.createSession(user, metadata, { method: 'password', secondFactor: null });
+  }
 
-    return {
-      accessToken: tokens.accessToken,
-      refreshToken: tokens.refreshToken,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        role: user.role,
-        emailVerified: user.emailVerified,
-      },
-    };
+  /**
+   * Open a session for a user who signed in with a linked social identity
+   *
+   * The provider takes the place of the password, so users with 2FA still
+   * get a challenge. OidcService has already verified the identity.
+   *
+   * @throws NotFoundError if the user no longer exists
+   * @throws AppError if email not verified
+   */
+  async loginWithIdentity(userId: string, provider: string, metadata: SessionMetadata = {}): Promise<LoginOutcome> {
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new NotFoundError(undefined, 'User', userId);
+    }
+
+    if (!user.emailVerified) {
+      throw new AppError(ErrorCode.EMAIL_NOT_VERIFIED);
+    }
+
+    const methods = await this.getSecondFactorMethods(user);
+    if (methods.length > 0) {
+      return await this.createTwoFactorChallenge(user.id, methods, { method: 'social', provider });
+    }
+
+    return await this.createSession(user, metadata, { method: 'social', provider, secondFactor: null });
+  }
+
+  /**
+   * Sign in with a passkey alone (passwordless)
+   *
+   * The passkey must have verified the user (PIN or biometric), which makes
+   * it two factors in one, so no further step is needed. Password lockouts
+   * don't apply: they exist to stop password guessing.
+   *
+   * @throws AuthenticationError if the challenge is invalid/expired or the passkey fails verification
+   * @throws AppError if email not verified
+   */
+  async loginWithPasskey(
+    challengeId: string,
+    credential: AuthenticationCredential,
+    metadata: SessionMetadata = {},
+  ): Promise<LoginResult> {
+    let userId: string;
+    try {
+      userId = await this.getWebAuthnService().verifyAuthentication(challengeId, credential);
+    } catch (error) {
+      await this.auditLog.record('auth.login_failed', {
+        ...metadata,
+        metadata: { credentialId: credential.id, reason: 'invalid_passkey' },
+      });
+      throw error;
+    }
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new AuthenticationError(ErrorCode.PASSKEY_VERIFICATION_FAILED);
+    }
+
+    if (!user.emailVerified) {
+      throw new AppError(ErrorCode.EMAIL_NOT_VERIFIED);
+    }
+
+    return await this.createSession(user, metadata, { method: 'passkey', secondFactor: null });
+  }
+
+  /**
+   * Complete a login that was paused for two-factor authentication
+   * Exchanges a challenge token + TOTP or backup code for real tokens
+   *
+   * @throws AuthenticationError if challenge is invalid/expired or code is wrong
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    metadata: SessionMetadata = {},
+  ): Promise<LoginResult> {
+    const { userId, challengeId, firstFactor } = await this.getPendingTwoFactorChallenge(challengeToken);
+    const attempts = await this.countTwoFactorAttempt(challengeId);
+
+    const twoFactorService = new TwoFactorService(this.userRepo, this, this.auditLog);
+    const { isValid } = await twoFactorService.verify(userId, code);
+
+    if (!isValid) {
+      if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        await this.tokenRepo.deleteTwoFactorChallenge(challengeId);
+      }
+      throw new AuthenticationError(ErrorCode.INVALID_TWO_FACTOR_CODE);
+    }
+
+    await this.tokenRepo.deleteTwoFactorChallenge(challengeId);
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new NotFoundError(undefined, 'User', userId);
+    }
+
+    return await this.createSession(user, metadata, { ...firstFactor, secondFactor: 'totp' });
+  }
+
+  /**
+   * Get passkey options for the second step of a paused login
+   * Only the challenged user's passkeys are offered.
+   *
+   * @throws AuthenticationError if challenge is invalid/expired
+   */
+  async startTwoFactorPasskey(challengeToken: string): Promise<PasskeyOptionsResult<AuthenticationOptions>> {
+    const { userId } = await this.getPendingTwoFactorChallenge(challengeToken);
+    return await this.getWebAuthnService().startAuthentication(userId);
+  }
+
+  /**
+   * Complete a login that was paused for two-factor authentication
+   * Exchanges a challenge token + passkey assertion for real tokens
+   *
+   * @throws AuthenticationError if challenge is invalid/expired or the passkey fails verification
+   */
+  async completeTwoFactorLoginWithPasskey(
+    challengeToken: string,
+    passkeyChallengeId: string,
+    credential: AuthenticationCredential,
+    metadata: SessionMetadata = {},
+  ): Promise<LoginResult> {
+    const { userId, challengeId, firstFactor } = await this.getPendingTwoFactorChallenge(challengeToken);
+
+    // Passkeys count against the same attempt limit as codes
+    const attempts = await this.countTwoFactorAttempt(challengeId);
+
+    try {
+      await this.getWebAuthnService().verifyAuthentication(passkeyChallengeId, credential, userId);
+    } catch (error) {
+      if (attempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        await this.tokenRepo.deleteTwoFactorChallenge(challengeId);
+      }
+      throw error;
+    }
+
+    await this.tokenRepo.deleteTwoFactorChallenge(challengeId);
+
+    const user = await this.userRepo.findById(userId);
+    if (!user) {
+      throw new NotFoundError(undefined, 'User', userId);
+    }
+
+    return await this.createSession(user, metadata, { ...firstFactor, secondFactor: 'passkey' });
   }
 
   /**
@@ -139,19 +412,28 @@ export class AuthService {
    * @param userId - User ID
    * @param refreshToken - Refresh token from cookie (optional)
    * @param accessToken - Access token from header (optional)
+   * @param metadata - Client details for the audit log (optional)
    */
-  async logout(userId: string, refreshToken?: string, accessToken?: string): Promise<void> {
-    // Revoke refresh token if provided
-    if (refreshToken) {
-      try {
-        const refreshPayload = await verifyToken(refreshToken);
-        const tokenId = refreshPayload['jti'] as string;
-        await this.tokenRepo.revokeRefreshToken(userId, tokenId);
-      } catch {
-        // Refresh token invalid or expired - ignore
-      }
+  async logout(
+    userId: string,
+    refreshToken?: string,
+    accessToken?: string,
+    metadata: SessionMetadata = {},
+  ): Promise<void> {
+    // Revoke the refresh token's whole family (the session), if provided
+    // Invalid or expired refresh tokens resolve to no session and are ignored
+    const sessionId = await this.getSessionId(userId, refreshToken);
+    if (sessionId) {
+      await this.tokenRepo.revokeRefreshTokenFamily(userId, sessionId);
     }
 
+    await this.auditLog.record('auth.logout', {
+      ...metadata,
+      actorId: userId,
+      targetId: userId,
+      metadata: { sessionId: sessionId ?? null },
+    });
+
     // Blacklist access token if provided
     if (accessToken) {
       try {
@@ -316,6 +598,33 @@ export class AuthService {
 
     // Revoke all existing sessions for security
     await this.tokenRepo.revokeAllUserRefreshTokens(tokenData.userId);
+
+    // A reset proves control of the email, same as an unlock link
+    await this.loginSecurityRepo.clearLoginAttempts(tokenData.userId);
+  }
+
+  // ==========================================================================
+  // Account Lockout
+  // ==========================================================================
+
+  /**
+   * Lift a lockout using the token from the account locked email
+   *
+   * @throws AppError if token is invalid or expired
+   */
+  async unlockAccount(token: string): Promise<void> {
+    const tokenData = await this.tokenRepo.getAccountUnlockToken(token);
+
+    if (!tokenData) {
+      throw new AppError(ErrorCode.INVALID_UNLOCK_TOKEN);
+    }
+
+    await this.loginSecurityRepo.clearLoginAttempts(tokenData.userId);
+
+    // Delete used token
+    await this.tokenRepo.deleteAccountUnlockToken(token);
+
+    logger.info('Account unlocked via email link', { userId: tokenData.userId });
   }
 
   // ==========================================================================
@@ -323,13 +632,17 @@ export class AuthService {
   // ==========================================================================
 
   /**
-   * Refresh access token using refresh token
+   * Exchange a refresh token for a new access token and a new refresh token
    *
-   * @throws AuthenticationError if refresh token is invalid
-   * @throws AppError if refresh token is revoked
+   * The presented refresh token is rotated: it stops working and its
+   * successor (same family, same session expiry) is returned. Presenting an
+   * already-rotated token again means it was copied, so the whole family is
+   * revoked - see handleRefreshTokenReuse.
+   *
+   * @throws AuthenticationError if refresh token is invalid, revoked or reused
    * @throws NotFoundError if user not found
    */
-  async refreshAccessToken(refreshToken: string): Promise<RefreshResult> {
+  async refreshAccessToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<RefreshResult> {
     // Verify refresh token
     let payload;
     try {
@@ -341,10 +654,10 @@ export class AuthService {
     const userId = payload['sub'] as string;
     const tokenId = payload['jti'] as string;
 
-    // Verify refresh token exists in database
+    // Not live any more: either revoked or already rotated
     const isValid = await this.tokenRepo.verifyRefreshToken(userId, tokenId);
     if (!isValid) {
-      throw new AuthenticationError(ErrorCode.REFRESH_TOKEN_INVALID, 'Refresh token has been revoked');
+      return await this.handleRefreshTokenReuse(userId, tokenId, metadata);
     }
 
     // Get user data
@@ -353,15 +666,86 @@ export class AuthService {
       throw new NotFoundError(undefined, 'User', userId);
     }
 
-    // Generate new access token
-    const accessToken = await createAccessToken({
-      sub: user.id,
-      email: user.email,
-      role: user.role,
-      emailVerified: user.emailVerified,
+    const familyId = typeof payload['fid'] === 'string' ? payload['fid'] : tokenId;
+    const next = await createRefreshToken({ sub: userId, fid: familyId });
+
+    const rotated = await this.tokenRepo.rotateRefreshToken(
+      userId,
+      tokenId,
+      next.tokenId,
+      this.toTokenMetadata(metadata),
+    );
+    if (!rotated) {
+      // Rotated or revoked by a concurrent request since the check above
+      return await this.handleRefreshTokenReuse(userId, tokenId, metadata);
+    }
+
+    return {
+      accessToken: await this.createUserAccessToken(user),
+      refreshToken: next.token,
+      refreshTokenExpiresAt: rotated.expiresAt,
+    };
+  }
+
+  // ==========================================================================
+  // Sessions
+  // ==========================================================================
+
+  /**
+   * List a user's active sessions (one per token family), most recently used first
+   *
+   * @param currentRefreshToken - Caller's refresh token, used to flag their own session
+   */
+  async listSessions(userId: string, currentRefreshToken?: string): Promise<SessionInfo[]> {
+    const currentId = await this.getSessionId(userId, currentRefreshToken);
+    const tokens = await this.tokenRepo.listUserRefreshTokens(userId);
+    const now = Math.floor(Date.now() / 1000);
+
+    return tokens
+      .filter((token) => token.expiresAt > now)
+      .map((token) => this.toSessionInfo(token, (token.familyId || token.tokenId) === currentId))
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt));
+  }
+
+  /**
+   * Sign out a single session (device)
+   * The audit context's actor defaults to the session owner.
+   *
+   * @throws NotFoundError if the session doesn't exist or belongs to another user
+   */
+  async revokeSession(userId: string, sessionId: string, context: AuditContext = {}): Promise<void> {
+    const revoked = await this.tokenRepo.revokeRefreshTokenFamily(userId, sessionId);
+    if (revoked === 0) {
+      throw new NotFoundError(undefined, 'Session', sessionId);
+    }
+
+    await this.auditLog.record('session.revoked', {
+      ...context,
+      actorId: context.actorId ?? userId,
+      targetId: userId,
+      metadata: { sessionId },
     });
+  }
 
-    return { accessToken };
+  /**
+   * Session ID (refresh token family) of a refresh token, if it belongs to the user
+   */
+  async getSessionId(userId: string, refreshToken: string | undefined): Promise<string | undefined> {
+    if (!refreshToken) {
+      return undefined;
+    }
+
+    try {
+      const payload = await verifyToken(refreshToken);
+      if (payload['type'] === 'refresh' && payload['sub'] === userId) {
+        const sessionId = payload['fid'] ?? payload['jti'];
+        return typeof sessionId === 'string' ? sessionId : undefined;
+      }
+    } catch {
+      // Invalid or expired refresh token - no current session
+    }
+
+    return undefined;
   }
 
   /**
@@ -381,6 +765,302 @@ export class AuthService {
   // Private Helpers
   // ==========================================================================
 
+  /**
+   * Issue access + refresh tokens and persist the refresh token
+   */
+  private async createSession(
+    user: User,
+    metadata: SessionMetadata,
+    factors: SessionFactors,
+  ): Promise<LoginResult> {
+    await this.checkNewDevice(user, metadata);
+
+    const tokens = await this.generateTokens(user.id, {
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    });
+
+    // Store refresh token
+    const expiresAt = Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60); // 30 days
+    await this.tokenRepo.storeRefreshToken(
+      user.id,
+      tokens.refreshTokenId,
+      expiresAt,
+      this.toTokenMetadata(metadata),
+      tokens.refreshTokenFamilyId,
+    );
+
+    await this.auditLog.record('auth.login', {
+      ...metadata,
+      actorId: user.id,
+      targetId: user.id,
+      metadata: { sessionId: tokens.refreshTokenFamilyId, ...factors },
+    });
+
+    return {
+      requiresTwoFactor: false,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        emailVerified: user.emailVerified,
+      },
+    };
+  }
+
+  /**
+   * Count a wrong password; if that locks the account, email an unlock link
+   */
+  private async recordFailedLogin(user: User, metadata: SessionMetadata): Promise<void> {
+    const { attempt, locked } = await this.loginSecurityRepo.recordFailedLogin(user.id, LOCKOUT_POLICY);
+
+    if (!locked || !attempt.lockedUntil) {
+      return;
+    }
+
+    await this.auditLog.record('auth.account_locked', {
+      ...metadata,
+      targetId: user.id,
+      metadata: { lockedUntil: attempt.lockedUntil, lockouts: attempt.lockouts },
+    });
+
+    const unlockToken = crypto.randomUUID();
+    const expiresAt = Math.floor((Date.now() + LoginSecurityConfig.UNLOCK_TOKEN_EXPIRY_MS) / 1000);
+    await this.tokenRepo.storeAccountUnlockToken(unlockToken, user.id, user.email, expiresAt);
+
+    const sent = await sendAccountLockedEmail(user.email, user.name, unlockToken, new Date(attempt.lockedUntil));
+    if (!sent.success) {
+      logger.warn('Account locked but unlock email could not be sent', { userId: user.id, error: sent.error });
+    }
+  }
+
+  private accountLockedError(lockedUntil: string): AuthenticationError {
+    return new AuthenticationError(ErrorCode.ACCOUNT_LOCKED, undefined, undefined, { lockedUntil });
+  }
+
+  /**
+   * Warn the user when they sign in from a device or network not seen before
+   *
+   * Raises an in-app warning notification and sends an email. The very first
+   * sign-in we record has nothing to compare against, so it only remembers
+   * the device. Failures are logged and never block the login.
+   */
+  private async checkNewDevice(user: User, metadata: SessionMetadata): Promise<void> {
+    try {
+      const deviceLabel = getDeviceLabel(metadata.userAgent);
+      const network = getIpNetwork(metadata.ipAddress);
+      const now = new Date();
+
+      const devices = await this.loginSecurityRepo.listKnownDevices(user.id);
+      const known = devices.find((device) => device.deviceLabel === deviceLabel && device.network === network);
+
+      await this.loginSecurityRepo.saveKnownDevice({
+        userId: user.id,
+        deviceLabel,
+        network,
+        firstSeenAt: known?.firstSeenAt || now.toISOString(),
+        lastSeenAt: now.toISOString(),
+      }, LoginSecurityConfig.KNOWN_DEVICE_TTL_MS);
+
+      if (known || devices.length === 0) {
+        return;
+      }
+
+      const newDevice = !devices.some((device) => device.deviceLabel === deviceLabel);
+      const ipAddress = metadata.ipAddress || null;
+      const from = ipAddress ? ` from ${ipAddress}` : '';
+
+      await this.notificationRepo.create(
+        user.id,
+        'warning',
+        newDevice ? 'New device signed in' : 'Sign-in from a new location',
+        `Your account was signed in to on ${deviceLabel}${from}. If this wasn't you, sign out the device and change your password.`,
+        '/profile',
+        'security',
+      );
+
+      await sendNewDeviceLoginEmail(user.email, user.name, { deviceLabel, ipAddress, signedInAt: now });
+
+      logger.info('Sign-in from new device or location', { userId: user.id, deviceLabel, network, newDevice });
+    } catch (error) {
+      logger.error('New device check failed', { userId: user.id, error });
+    }
+  }
+
+  /**
+   * Handle a refresh token that is no longer live
+   *
+   * A token that was rotated moments ago is most likely a concurrent refresh
+   * (two tabs at once): within the grace period the caller gets an access
+   * token but no new refresh token, since its successor is already set. Any
+   * later replay means the token was copied, so the whole family is revoked
+   * and the event logged. Revoked or unknown tokens are simply rejected.
+   *
+   * @throws AuthenticationError unless the reuse falls within the grace period
+   */
+  private async handleRefreshTokenReuse(
+    userId: string,
+    tokenId: string,
+    metadata: SessionMetadata,
+  ): Promise<RefreshResult> {
+    const rotated = await this.tokenRepo.getRotatedRefreshToken(tokenId);
+
+    if (rotated && rotated.userId === userId) {
+      const age = Date.now() - new Date(rotated.rotatedAt).getTime();
+      const successor = await this.tokenRepo.getRefreshToken(userId, rotated.replacedBy);
+
+      if (age <= TokenConfig.REFRESH_TOKEN_REUSE_GRACE_MS && successor) {
+        const user = await this.userRepo.findById(userId);
+        if (!user) {
+          throw new NotFoundError(undefined, 'User', userId);
+        }
+        return { accessToken: await this.createUserAccessToken(user) };
+      }
+
+      const revoked = await this.tokenRepo.revokeRefreshTokenFamily(userId, rotated.familyId);
+      logger.warn('Suspicious activity: rotated refresh token reused, session revoked', {
+        userId,
+        familyId: rotated.familyId,
+        tokenId,
+        rotatedAt: rotated.rotatedAt,
+        revokedTokens: revoked,
+        ipAddress: metadata.ipAddress,
+        userAgent: metadata.userAgent,
+      });
+    }
+
+    throw new AuthenticationError(ErrorCode.REFRESH_TOKEN_INVALID, 'Refresh token has been revoked');
+  }
+
+  private async createUserAccessToken(user: User): Promise<string> {
+    return await createAccessToken({
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    });
+  }
+
+  /**
+   * Normalize request metadata for storage on the refresh token
+   */
+  private toTokenMetadata(metadata: SessionMetadata) {
+    const userAgent = metadata.userAgent?.slice(0, 512) || undefined;
+
+    return {
+      userAgent,
+      ipAddress: metadata.ipAddress || undefined,
+      deviceLabel: userAgent ? getDeviceLabel(userAgent) : undefined,
+    };
+  }
+
+  private toSessionInfo(token: RefreshTokenData, current: boolean): SessionInfo {
+    return {
+      id: token.familyId || token.tokenId,
+      deviceLabel: token.deviceLabel || getDeviceLabel(token.userAgent),
+      userAgent: token.userAgent ?? null,
+      ipAddress: token.ipAddress ?? null,
+      createdAt: token.createdAt,
+      // Tokens issued before sessions were tracked have no lastUsedAt
+      lastUsedAt: token.lastUsedAt || token.createdAt,
+      expiresAt: new Date(token.expiresAt * 1000).toISOString(),
+      current,
+    };
+  }
+
+  /**
+   * Resolve a 2FA challenge token to its user, if the challenge is still pending
+   *
+   * @throws AuthenticationError if the token is invalid or the challenge expired/used
+   */
+  private async getPendingTwoFactorChallenge(
+    challengeToken: string,
+  ): Promise<{ userId: string; challengeId: string; firstFactor: TwoFactorFirstFactor }> {
+    let payload;
+    try {
+      payload = await verifyToken(challengeToken);
+    } catch {
+      throw new AuthenticationError(ErrorCode.INVALID_TOKEN);
+    }
+
+    if (payload['type'] !== '2fa_challenge') {
+      throw new AuthenticationError(ErrorCode.INVALID_TOKEN);
+    }
+
+    const userId = payload['sub'] as string;
+    const challengeId = payload['jti'] as string;
+
+    // Challenge must still be pending (single use, bounded attempts)
+    const challenge = await this.tokenRepo.getTwoFactorChallenge(challengeId);
+    if (!challenge || challenge.userId !== userId) {
+      throw this.twoFactorChallengeExpiredError();
+    }
+
+    return { userId, challengeId, firstFactor: challenge.firstFactor ?? { method: 'password' } };
+  }
+
+  /**
+   * Use up one of the challenge's attempts before checking the second factor,
+   * so parallel requests can't get more than MAX_TWO_FACTOR_ATTEMPTS checks
+   *
+   * @throws AuthenticationError if the challenge has no attempts left
+   */
+  private async countTwoFactorAttempt(challengeId: string): Promise<number> {
+    const attempts = await this.tokenRepo.recordTwoFactorChallengeAttempt(challengeId, MAX_TWO_FACTOR_ATTEMPTS);
+    if (attempts === null) {
+      throw this.twoFactorChallengeExpiredError();
+    }
+    return attempts;
+  }
+
+  private twoFactorChallengeExpiredError(): AuthenticationError {
+    return new AuthenticationError(ErrorCode.INVALID_TOKEN, 'Two-factor challenge has expired. Please sign in again');
+  }
+
+  /**
+   * Second factors the user can complete a paused login with (none = no 2FA)
+   */
+  private async getSecondFactorMethods(user: User): Promise<SecondFactorMethod[]> {
+    const methods: SecondFactorMethod[] = [];
+    if (user.twoFactorEnabled && user.twoFactorSecret) {
+      methods.push('totp');
+    }
+    if (await this.credentialRepo.hasCredentials(user.id)) {
+      methods.push('passkey');
+    }
+    return methods;
+  }
+
+  /**
+   * Create a short-lived, single-use challenge for the 2FA login step
+   */
+  private async createTwoFactorChallenge(
+    userId: string,
+    methods: SecondFactorMethod[],
+    firstFactor: TwoFactorFirstFactor,
+  ): Promise<TwoFactorChallengeResult> {
+    const challenge = await createTwoFactorChallengeToken({ sub: userId });
+    const expiresIn = Math.floor(TokenConfig.TWO_FACTOR_CHALLENGE_EXPIRY_MS / 1000);
+    const expiresAt = Math.floor(Date.now() / 1000) + expiresIn;
+
+    await this.tokenRepo.storeTwoFactorChallenge(challenge.tokenId, userId, expiresAt, firstFactor);
+
+    return {
+      requiresTwoFactor: true,
+      challengeToken: challenge.token,
+      expiresIn,
+      methods,
+    };
+  }
+
+  private getWebAuthnService(): WebAuthnService {
+    return new WebAuthnService(this.userRepo, this.credentialRepo, this.tokenRepo, this, this.auditLog);
+  }
+
   /**
    * Generate access and refresh tokens for a user
    */
@@ -398,6 +1078,7 @@ export class AuthService {
       accessToken,
       refreshToken: refreshTokenData.token,
       refreshTokenId: refreshTokenData.tokenId,
+      refreshTokenFamilyId: refreshTokenData.familyId,
     };
   }
 }
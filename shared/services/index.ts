@@ -6,13 +6,42 @@
 
 export { AuthService } from "./auth.service.ts";
 export type {
+    LoginOutcome,
     LoginResult, PasswordResetTokenData, RefreshResult,
+    SecondFactorMethod,
+    SessionInfo,
+    SessionMetadata,
     SignupResult,
-    TokenPayload
+    TokenPayload,
+    TwoFactorChallengeResult
 } from "./auth.service.ts";
 
+export { AuditLogService } from "./AuditLogService.ts";
+export type { AuditContext, AuditEvent } from "./AuditLogService.ts";
+
+export { NotificationBroadcastService } from "./NotificationBroadcastService.ts";
+export type {
+    BroadcastBatchJobData,
+    BroadcastResolveJobData,
+    BroadcastWithProgress
+} from "./NotificationBroadcastService.ts";
+
+export { NotificationDeliveryService } from "./NotificationDeliveryService.ts";
+export type {
+    NotificationDeliveryResult,
+    UnsubscribeScope
+} from "./NotificationDeliveryService.ts";
+
 export { NotificationService } from "./notifications.ts";
 
+export { OidcService } from "./OidcService.ts";
+export type {
+    LinkedIdentityInfo,
+    OidcAuthorizationResult,
+    OidcCallbackResult,
+    OidcProviderInfo
+} from "./OidcService.ts";
+
 export { TwoFactorService } from "./TwoFactorService.ts";
 export type {
     TwoFactorEnableResult,
@@ -20,6 +49,14 @@ export type {
     TwoFactorVerifyResult
 } from "./TwoFactorService.ts";
 
+export { UploadService } from "./UploadService.ts";
+export type {
+    AvatarUploadResult,
+    FileUploadResult,
+    ImageUploadResult,
+    UploadedFile
+} from "./UploadService.ts";
+
 export { UserManagementService } from "./UserManagementService.ts";
 export type {
     DetailedUser,
@@ -28,3 +65,22 @@ export type {
     UserListResult
 } from "./UserManagementService.ts";
 
+
+export { UserProfileService } from "./UserProfileService.ts";
+export type {
+    EmailChangeRequest,
+    ProfileUpdateResult,
+    UserProfile
+} from "./UserProfileService.ts";
+
+export { WebAuthnService } from "./WebAuthnService.ts";
+export type {
+    PasskeyInfo,
+    PasskeyOptionsResult
+} from "./WebAuthnService.ts";
+
+export { WebPushService } from "./WebPushService.ts";
+export type {
+    PushDeliveryResult,
+    PushSubscriptionInfo
+} from "./WebPushService.ts";
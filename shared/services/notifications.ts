@@ -1,4 +1,8 @@
-import { NotificationRepository } from '../repositories/index.ts';
+import {
+  type ListResult,
+  type NotificationQueryOptions,
+  NotificationRepository,
+} from '../repositories/index.ts';
 import type {
   CreateNotificationRequest,
   NotificationData,
@@ -11,6 +15,7 @@ import type {
  * Key Structure:
  * - ['notifications', userId, notificationId] -> NotificationData
  * - ['notifications_by_user', userId, timestamp, notificationId] -> null (for listing by date)
+ * - ['notifications_by_user_read' | 'notifications_by_user_type', userId, value, timestamp, notificationId] -> null
  */
 export class NotificationService {
   private static repo: NotificationRepository = new NotificationRepository();
@@ -33,6 +38,8 @@ export class NotificationService {
       data.title,
       data.message,
       data.link,
+      data.category,
+      { actions: data.actions, groupKey: data.groupKey, priority: data.priority, expiresAt: data.expiresAt },
     );
 
     // Broadcast to WebSocket clients
@@ -48,24 +55,30 @@ export class NotificationService {
   }
 
   /**
-   * Get all notifications for a user (sorted by date, newest first)
+   * Get a page of notifications for a user (sorted by date, newest first)
+   * Pass the cursor from listUserNotifications() to continue from a previous page.
    */
   static async getUserNotifications(
     userId: string,
-    options: { limit?: number; offset?: number } = {},
+    options: { limit?: number; cursor?: string } = {},
   ): Promise<NotificationData[]> {
-    const queryOptions: { limit: number; cursor?: string | undefined } = {
-      limit: options.limit || 50,
-    };
-    
-    if (options.offset) {
-      queryOptions.cursor = String(options.offset);
-    }
-    
-    const result = await this.repo.listUserNotifications(userId, queryOptions);
+    const result = await this.listUserNotifications(userId, options);
     return result.items;
   }
 
+  /**
+   * Page through a user's notifications, optionally filtered by read state or type
+   */
+  static async listUserNotifications(
+    userId: string,
+    options: NotificationQueryOptions = {},
+  ): Promise<ListResult<NotificationData>> {
+    return await this.repo.listUserNotifications(userId, {
+      ...options,
+      limit: options.limit || 50,
+    });
+  }
+
   /**
    * Get count of unread notifications for a user
    */
@@ -8,8 +8,11 @@
 import { setupDevAdmin } from './lib/dev-admin-setup.ts';
 import { setupInitialAdmin } from './lib/initial-admin-setup.ts';
 import { createLogger } from './lib/logger.ts';
+import { setOfflineNotificationHandler, startWebSocketPubSub } from './lib/notification-websocket.ts';
 import { queue } from './lib/queue.ts';
 import { scheduler } from './lib/scheduler.ts';
+import { WebPushService } from './services/WebPushService.ts';
+import type { NotificationData } from './types/notifications.ts';
 import { registerAllWorkers } from './workers/index.ts';
 
 const logger = createLogger('Startup');
@@ -49,6 +52,18 @@ export async function initializeBackgroundServices() {
     scheduler.start();
     logger.info('Job scheduler started');
 
+    // Fan out WebSocket messages to other instances
+    logger.info('Starting WebSocket pub/sub...');
+    await startWebSocketPubSub();
+    logger.info('WebSocket pub/sub started');
+
+    // Push notifications to browsers of users without an open WebSocket
+    const webPush = new WebPushService();
+    setOfflineNotificationHandler((userId, notification) =>
+      webPush.sendNotification(userId, notification as NotificationData)
+    );
+    logger.info('Web Push fallback enabled');
+
     logger.info('All background services initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize background services', error);
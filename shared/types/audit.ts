@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+/**
+ * Security Audit Log Types
+ * Durable record of security-relevant actions (see AuditLogRepository)
+ */
+
+// What happened - `<area>.<event>`
+export const AuditActionSchema = z.enum([
+  'auth.login',
+  'auth.login_failed',
+  'auth.account_locked',
+  'auth.logout',
+  'auth.2fa_enabled',
+  'auth.2fa_disabled',
+  'auth.2fa_backup_codes_regenerated',
+  'auth.passkey_registered',
+  'auth.passkey_removed',
+  'auth.identity_linked',
+  'auth.identity_unlinked',
+  'user.role_changed',
+  'user.deleted',
+  'session.revoked',
+  'session.revoked_all',
+]);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+// Audit log entry stored in Deno KV (append-only)
+export const AuditLogEntrySchema = z.object({
+  id: z.string(),
+  action: AuditActionSchema,
+  actorId: z.string().nullable(), // Who did it (null for anonymous, e.g. failed logins)
+  targetId: z.string().nullable(), // User the action was performed on
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  metadata: z.record(z.unknown()), // Action-specific details (old/new role, session ID, ...)
+  timestamp: z.string(), // ISO 8601 timestamp
+});
+
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
+
+// Query filters - all optional, combined with AND
+export const AuditLogFilterSchema = z.object({
+  actorId: z.string().optional(),
+  targetId: z.string().optional(),
+  action: AuditActionSchema.optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+export type AuditLogFilter = z.infer<typeof AuditLogFilterSchema>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+/**
+ * File Upload Types
+ * Metadata for files stored through the Storage abstraction
+ */
+
+// What the upload was for (determines processing and size limits)
+export const FileCategorySchema = z.enum([
+  'file',
+  'image',
+  'avatar',
+]);
+
+export type FileCategory = z.infer<typeof FileCategorySchema>;
+
+// Stored variant - one record per object in storage
+export const FileVariantSchema = z.enum([
+  'original',
+  'optimized',
+  'thumbnail',
+  'large',
+  'small',
+]);
+
+export type FileVariant = z.infer<typeof FileVariantSchema>;
+
+// File metadata stored in Deno KV
+export const FileDataSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  category: FileCategorySchema,
+  variant: FileVariantSchema,
+  parentId: z.string().optional(), // Set on derived variants (thumbnail, small avatar)
+  originalName: z.string(),
+  contentType: z.string(),
+  size: z.number().int().nonnegative(), // Bytes
+  storagePath: z.string(),
+  createdAt: z.string(), // ISO 8601 timestamp
+});
+
+export type FileData = z.infer<typeof FileDataSchema>;
+
+// Query options for POST /api/uploads/upload/image
+export const ImageUploadOptionsSchema = z.object({
+  resize: z.string()
+    .regex(/^\d+,\d+$/, 'resize must be "width,height"')
+    .transform((value) => {
+      const [width, height] = value.split(',').map(Number);
+      return { width: width!, height: height! };
+    })
+    .optional(),
+  thumbnail: z.coerce.number().int().min(16).max(1024).optional(),
+  optimize: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+export type ImageUploadOptions = z.infer<typeof ImageUploadOptionsSchema>;
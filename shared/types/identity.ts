@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+/**
+ * Linked Identity Types
+ * An account at an external sign-in provider (Google, GitHub) linked to a local user
+ */
+
+export const LinkedIdentitySchema = z.object({
+  provider: z.string(), // Provider ID, e.g. "google"
+  subject: z.string(), // Provider's stable user ID ("sub" claim)
+  userId: z.string(),
+  email: z.string().nullable(), // Email reported by the provider when linked
+  name: z.string().nullable(),
+  linkedAt: z.string(), // ISO 8601 timestamp
+  lastUsedAt: z.string().nullable(),
+});
+
+export type LinkedIdentity = z.infer<typeof LinkedIdentitySchema>;
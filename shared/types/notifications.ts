@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isAllowedNotificationApiAction } from '../lib/notification-actions.ts';
 
 /**
  * Notification Types
@@ -15,37 +16,109 @@ export const NotificationTypeSchema = z.enum([
 
 export type NotificationType = z.infer<typeof NotificationTypeSchema>;
 
+// What a notification is about; preferences are set per category
+export const NotificationCategorySchema = z.enum([
+  'general',
+  'account',
+  'security',
+  'announcements',
+]);
+
+export type NotificationCategory = z.infer<typeof NotificationCategorySchema>;
+
+// How prominently a notification is shown; high and urgent ones also pop up as a toast
+export const NotificationPrioritySchema = z.enum([
+  'low',
+  'normal',
+  'high',
+  'urgent',
+]);
+
+export type NotificationPriority = z.infer<typeof NotificationPrioritySchema>;
+
+// Where a notification link may point: a path on this site or an http(s) URL.
+// Links are rendered as hrefs, so javascript:, data: and //host (or /\host) are refused
+export const NotificationLinkSchema = z.string().max(2000).refine(
+  (value) => /^\/(?![/\\])/.test(value) || /^https?:\/\//i.test(value),
+  'Must be a path on this site or an http(s) URL',
+);
+
+// Button on a notification: open a link, or call one of the endpoints listed in
+// shared/lib/notification-actions.ts as the user
+export const NotificationActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('link'),
+    label: z.string().min(1).max(40),
+    url: NotificationLinkSchema,
+  }),
+  z.object({
+    type: z.literal('api'),
+    label: z.string().min(1).max(40),
+    method: z.enum(['POST', 'PATCH', 'DELETE']),
+    path: z.string().max(500),
+  }),
+]).refine(
+  (action) => action.type !== 'api' || isAllowedNotificationApiAction(action.method, action.path),
+  { message: 'Not an endpoint notification actions may call', path: ['path'] },
+);
+
+export type NotificationAction = z.infer<typeof NotificationActionSchema>;
+
+// Fields a notification can carry beyond its text (shared by create requests and stored data)
+export const NotificationExtrasSchema = z.object({
+  actions: z.array(NotificationActionSchema).max(3).optional(),
+  groupKey: z.string().min(1).max(100).optional(), // Unread notifications with the same key collapse into one
+  priority: NotificationPrioritySchema.optional(), // Missing: 'normal'
+  expiresAt: z.string().datetime().optional(), // ISO 8601 timestamp; deleted by cleanup after this
+});
+
+export type NotificationExtras = z.infer<typeof NotificationExtrasSchema>;
+
 // Notification data stored in Deno KV
-export const NotificationDataSchema = z.object({
+export const NotificationDataSchema = NotificationExtrasSchema.extend({
   id: z.string(),
   userId: z.string(),
   type: NotificationTypeSchema,
+  category: NotificationCategorySchema.optional(), // Missing on older notifications: 'general'
   title: z.string(),
   message: z.string(),
   read: z.boolean().default(false),
   link: z.string().optional(),
-  createdAt: z.string(), // ISO 8601 timestamp
+  groupCount: z.number().int().min(1).optional(), // Events collapsed into this one; missing: 1
+  createdAt: z.string(), // ISO 8601 timestamp (of the latest event when grouped)
   readAt: z.string().optional(), // ISO 8601 timestamp
 });
 
 export type NotificationData = z.infer<typeof NotificationDataSchema>;
 
 // Request to create a notification
-export const CreateNotificationRequestSchema = z.object({
+export const CreateNotificationRequestSchema = NotificationExtrasSchema.extend({
   userId: z.string(),
   type: NotificationTypeSchema,
+  category: NotificationCategorySchema.optional(),
   title: z.string().min(1).max(200),
   message: z.string().min(1).max(1000),
-  link: z.string().url().optional(),
+  link: NotificationLinkSchema.optional(),
 });
 
 export type CreateNotificationRequest = z.infer<typeof CreateNotificationRequestSchema>;
 
-// Response for notification list
+// Query parameters for listing notifications (GET /api/notifications)
+export const NotificationListQuerySchema = z.object({
+  read: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  type: NotificationTypeSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional(),
+});
+
+export type NotificationListQuery = z.infer<typeof NotificationListQuerySchema>;
+
+// Response for notification list (one page; pass cursor back for the next)
 export const NotificationListResponseSchema = z.object({
   notifications: z.array(NotificationDataSchema),
-  total: z.number(),
   unreadCount: z.number(),
+  cursor: z.string().nullable(),
+  hasMore: z.boolean(),
 });
 
 export type NotificationListResponse = z.infer<typeof NotificationListResponseSchema>;
@@ -56,3 +129,180 @@ export const UnreadCountResponseSchema = z.object({
 });
 
 export type UnreadCountResponse = z.infer<typeof UnreadCountResponseSchema>;
+
+// ============================================================================
+// Delivery Preferences
+// ============================================================================
+
+// How a category reaches the user by email
+export const EmailDeliverySchema = z.enum(['off', 'immediate', 'daily', 'weekly']);
+
+export type EmailDelivery = z.infer<typeof EmailDeliverySchema>;
+
+export type DigestFrequency = Extract<EmailDelivery, 'daily' | 'weekly'>;
+
+export const NotificationChannelsSchema = z.object({
+  inApp: z.boolean(),
+  email: EmailDeliverySchema,
+});
+
+export type NotificationChannels = z.infer<typeof NotificationChannelsSchema>;
+
+const CategoryChannelsSchema = z.object({
+  general: NotificationChannelsSchema,
+  account: NotificationChannelsSchema,
+  security: NotificationChannelsSchema,
+  announcements: NotificationChannelsSchema,
+});
+
+// Types included in emails (immediate and digest); in-app shows every type
+const EmailTypesSchema = z.object({
+  info: z.boolean(),
+  success: z.boolean(),
+  warning: z.boolean(),
+  error: z.boolean(),
+});
+
+// Per-user preferences stored in Deno KV
+export const NotificationPreferencesSchema = z.object({
+  userId: z.string(),
+  categories: CategoryChannelsSchema,
+  emailTypes: EmailTypesSchema,
+  unsubscribeToken: z.string(),
+  updatedAt: z.string().nullable(),
+});
+
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+
+// Request to update preferences (only the categories/types being changed)
+export const UpdateNotificationPreferencesSchema = z.object({
+  categories: z.object({
+    general: NotificationChannelsSchema.partial(),
+    account: NotificationChannelsSchema.partial(),
+    security: NotificationChannelsSchema.partial(),
+    announcements: NotificationChannelsSchema.partial(),
+  }).partial().optional(),
+  emailTypes: EmailTypesSchema.partial().optional(),
+});
+
+export type UpdateNotificationPreferences = z.infer<typeof UpdateNotificationPreferencesSchema>;
+
+// A notification waiting for the user's next digest email
+export const DigestItemSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  type: NotificationTypeSchema,
+  category: NotificationCategorySchema,
+  title: z.string(),
+  message: z.string(),
+  link: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export type DigestItem = z.infer<typeof DigestItemSchema>;
+
+// ============================================================================
+// Broadcasts
+// ============================================================================
+
+// Who a broadcast goes to: everyone, a role/verification segment, or listed users
+export const BroadcastAudienceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('all') }),
+  z.object({
+    type: z.literal('segment'),
+    role: z.enum(['admin', 'user']).optional(),
+    emailVerified: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('users'),
+    userIds: z.array(z.string().min(1)).min(1).max(1000),
+  }),
+]);
+
+export type BroadcastAudience = z.infer<typeof BroadcastAudienceSchema>;
+
+// Request to broadcast a notification (POST /api/admin/broadcasts)
+export const CreateBroadcastRequestSchema = z.object({
+  type: NotificationTypeSchema,
+  category: NotificationCategorySchema.default('announcements'),
+  title: z.string().min(1).max(200),
+  message: z.string().min(1).max(1000),
+  link: NotificationLinkSchema.optional(),
+  audience: BroadcastAudienceSchema,
+});
+
+export type CreateBroadcastRequest = z.infer<typeof CreateBroadcastRequestSchema>;
+
+// queued: recipients are being resolved; sending: all batches queued
+export const BroadcastStatusSchema = z.enum(['queued', 'sending', 'completed', 'failed']);
+
+export type BroadcastStatus = z.infer<typeof BroadcastStatusSchema>;
+
+// Broadcast stored in Deno KV
+export const NotificationBroadcastSchema = CreateBroadcastRequestSchema.extend({
+  id: z.string(),
+  status: BroadcastStatusSchema,
+  createdBy: z.string(),
+  createdAt: z.string(),
+  completedAt: z.string().nullable(),
+  error: z.string().optional(),
+  recipients: z.number(), // Users queued so far
+  batches: z.number(), // Batch jobs queued so far
+  resolveCursor: z.string().nullable(), // Where recipient resolution resumes after a retry
+});
+
+export type NotificationBroadcast = z.infer<typeof NotificationBroadcastSchema>;
+
+// Outcome of one batch job
+export const BroadcastBatchResultSchema = z.object({
+  delivered: z.number(), // In-app and/or email, per the user's preferences
+  skipped: z.number(), // User deleted, or opted out of every channel
+  failed: z.number(),
+  completedAt: z.string(),
+});
+
+export type BroadcastBatchResult = z.infer<typeof BroadcastBatchResultSchema>;
+
+// Totals across finished batches
+export interface BroadcastProgress {
+  delivered: number;
+  skipped: number;
+  failed: number;
+  batchesDone: number;
+}
+
+// ============================================================================
+// Web Push
+// ============================================================================
+
+// A browser's PushSubscription, as sent by PushSubscription.toJSON()
+export const PushSubscriptionRequestSchema = z.object({
+  endpoint: z.string().url().max(2000),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200), // Browser's ECDH public key (base64url)
+    auth: z.string().min(1).max(100), // Authentication secret (base64url)
+  }),
+});
+
+export type PushSubscriptionRequest = z.infer<typeof PushSubscriptionRequestSchema>;
+
+// Request to remove a subscription (DELETE /api/notifications/push/subscriptions)
+export const PushUnsubscribeRequestSchema = z.object({
+  endpoint: z.string().url().max(2000),
+});
+
+// Subscription stored in Deno KV
+export const PushSubscriptionRecordSchema = z.object({
+  id: z.string(), // SHA-256 of the endpoint, so a browser subscribing again replaces its record
+  userId: z.string(),
+  endpoint: z.string(),
+  keys: PushSubscriptionRequestSchema.shape.keys,
+  expirationTime: z.number().nullable(),
+  vapidPublicKey: z.string(), // Key the browser subscribed with; pushes need the same one
+  userAgent: z.string().nullable(),
+  createdAt: z.string(),
+  lastSuccessAt: z.string().nullable(),
+});
+
+export type PushSubscriptionRecord = z.infer<typeof PushSubscriptionRecordSchema>;
@@ -48,6 +48,7 @@ export const SignupSchema = z.object({
 export const UpdateUserSchema = z.object({
   name: z.string().min(1).max(100).optional(),
   email: z.string().email().optional(),
+  currentPassword: z.string().min(1).optional(), // Required when email changes
 }).refine(data => Object.keys(data).length > 0, {
   message: 'At least one field must be provided',
 });
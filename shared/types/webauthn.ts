@@ -0,0 +1,63 @@
+import { z } from 'zod';
+
+/**
+ * WebAuthn / Passkey Types
+ * Browser credentials are exchanged as JSON with binary fields base64url-encoded
+ * (the shape of PublicKeyCredential.toJSON())
+ */
+
+const base64url = z.string().regex(/^[A-Za-z0-9_-]*$/, 'Must be base64url-encoded');
+
+export const AuthenticatorTransportSchema = z.enum(['ble', 'cable', 'hybrid', 'internal', 'nfc', 'smart-card', 'usb']);
+
+export type AuthenticatorTransport = z.infer<typeof AuthenticatorTransportSchema>;
+
+// Response to navigator.credentials.create()
+export const RegistrationCredentialSchema = z.object({
+  id: base64url.min(1),
+  rawId: base64url.min(1),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64url.min(1),
+    attestationObject: base64url.min(1),
+    // Unknown transports are dropped rather than rejected - browsers add new ones
+    transports: z.array(z.string()).optional()
+      .transform((transports) =>
+        transports?.filter((t): t is AuthenticatorTransport => AuthenticatorTransportSchema.safeParse(t).success)
+      ),
+  }),
+});
+
+export type RegistrationCredential = z.infer<typeof RegistrationCredentialSchema>;
+
+// Response to navigator.credentials.get()
+export const AuthenticationCredentialSchema = z.object({
+  id: base64url.min(1),
+  rawId: base64url.min(1),
+  type: z.literal('public-key'),
+  response: z.object({
+    clientDataJSON: base64url.min(1),
+    authenticatorData: base64url.min(1),
+    signature: base64url.min(1),
+    userHandle: base64url.nullable().optional(),
+  }),
+});
+
+export type AuthenticationCredential = z.infer<typeof AuthenticationCredentialSchema>;
+
+// Registered passkey stored in Deno KV
+export const WebAuthnCredentialSchema = z.object({
+  id: z.string(), // Credential ID (base64url)
+  userId: z.string(),
+  name: z.string().max(100), // User-facing label, e.g. "MacBook Touch ID"
+  publicKey: z.string(), // COSE_Key bytes (base64url)
+  algorithm: z.number(), // COSE algorithm identifier (-7 ES256, -8 EdDSA, -257 RS256)
+  signCount: z.number(),
+  transports: z.array(AuthenticatorTransportSchema),
+  aaguid: z.string(), // Authenticator model; all zeros when attestation is not conveyed
+  backedUp: z.boolean(), // Synced passkey (e.g. iCloud Keychain) rather than device-bound
+  createdAt: z.string(), // ISO 8601 timestamp
+  lastUsedAt: z.string().nullable(),
+});
+
+export type WebAuthnCredential = z.infer<typeof WebAuthnCredentialSchema>;
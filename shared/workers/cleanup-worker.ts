@@ -9,6 +9,8 @@ import { createLogger } from '../lib/logger.ts';
 import { queue } from '../lib/queue.ts';
 import { CronPatterns, scheduler } from '../lib/scheduler.ts';
 import { getStorage } from '../lib/storage.ts';
+import { NotificationRepository } from '../repositories/index.ts';
+import { AuditLogService } from '../services/AuditLogService.ts';
 
 const logger = createLogger('CleanupWorker');
 
@@ -87,13 +89,46 @@ async function cleanupExpiredSessions(): Promise<void> {
   }
 }
 
+/**
+ * Delete audit log entries past the retention period (AuditLogConfig.RETENTION_MS)
+ */
+async function cleanupAuditLog(): Promise<void> {
+  logger.info('Starting audit log cleanup');
+
+  try {
+    const deletedCount = await new AuditLogService().cleanup();
+
+    logger.info('Audit log cleanup complete', { deletedCount });
+  } catch (error) {
+    logger.error('Audit log cleanup failed', { error });
+    throw error;
+  }
+}
+
+/**
+ * Delete notifications past their expiresAt
+ */
+async function cleanupExpiredNotifications(): Promise<void> {
+  logger.info('Starting expired notification cleanup');
+
+  try {
+    const deletedCount = await new NotificationRepository().deleteExpiredNotifications();
+
+    logger.info('Expired notification cleanup complete', { deletedCount });
+  } catch (error) {
+    logger.error('Expired notification cleanup failed', { error });
+    throw error;
+  }
+}
+
 // ============================================================================
 // Worker Registration
 // ============================================================================
 
 /**
  * Register cleanup scheduled jobs
- * Call this function during server startup
+ * Call this function during server startup - every instance registers them,
+ * but they only run on the instance holding the scheduler lease
  */
 export function registerCleanupWorker(): void {
   logger.info('Registering cleanup schedules');
@@ -125,6 +160,24 @@ export function registerCleanupWorker(): void {
   );
   logger.info('Registered cleanup schedule', { schedule: 'cleanup-expired-sessions' });
 
+  // Apply audit log retention daily at midnight
+  scheduler.schedule(
+    'cleanup-audit-log',
+    CronPatterns.DAILY,
+    cleanupAuditLog,
+    { enabled: true },
+  );
+  logger.info('Registered cleanup schedule', { schedule: 'cleanup-audit-log' });
+
+  // Delete expired notifications every 15 minutes
+  scheduler.schedule(
+    'cleanup-expired-notifications',
+    CronPatterns.EVERY_15_MINUTES,
+    cleanupExpiredNotifications,
+    { enabled: true },
+  );
+  logger.info('Registered cleanup schedule', { schedule: 'cleanup-expired-notifications' });
+
   logger.info('Cleanup worker registered');
 }
 
@@ -141,5 +194,7 @@ export async function triggerFullCleanup(): Promise<void> {
     cleanupTempFiles(),
     cleanupOldJobs(),
     cleanupExpiredSessions(),
+    cleanupAuditLog(),
+    cleanupExpiredNotifications(),
   ]);
 }
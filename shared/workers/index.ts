@@ -8,6 +8,9 @@
 import { createLogger } from '../lib/logger.ts';
 import { registerCleanupWorker } from './cleanup-worker.ts';
 import { registerEmailWorker } from './email-worker.ts';
+import { registerKeyRotationWorker } from './key-rotation-worker.ts';
+import { registerNotificationBroadcastWorker } from './notification-broadcast-worker.ts';
+import { registerNotificationDigestWorker } from './notification-digest-worker.ts';
 import { registerReportWorker } from './report-worker.ts';
 import { registerWebhookWorker } from './webhook-worker.ts';
 
@@ -24,9 +27,12 @@ export function registerAllWorkers(): void {
   registerEmailWorker();
   registerReportWorker();
   registerWebhookWorker();
+  registerNotificationBroadcastWorker();
 
   // Register scheduled tasks
   registerCleanupWorker();
+  registerKeyRotationWorker();
+  registerNotificationDigestWorker();
 
   logger.info('All workers registered');
 }
@@ -0,0 +1,41 @@
+/**
+ * Signing Key Rotation Worker
+ *
+ * Scheduled job that replaces the active JWT signing key once it is older
+ * than TokenConfig.SIGNING_KEY_ROTATION_MS. The check runs daily; the key
+ * itself only rotates when due, so the cadence is set by the config value.
+ */
+
+import { createLogger } from '../lib/logger.ts';
+import { CronPatterns, scheduler } from '../lib/scheduler.ts';
+import { signingKeys } from '../lib/signing-keys.ts';
+
+const logger = createLogger('KeyRotationWorker');
+
+/**
+ * Rotate the signing key if the active one is due
+ */
+async function rotateSigningKeys(): Promise<void> {
+  try {
+    const rotated = await signingKeys.rotateIfDue();
+    logger.info('Signing key rotation check complete', { rotated });
+  } catch (error) {
+    logger.error('Signing key rotation failed', { error });
+    throw error;
+  }
+}
+
+/**
+ * Register the key rotation schedule
+ * Call this function during server startup - it only runs on the instance
+ * holding the scheduler lease
+ */
+export function registerKeyRotationWorker(): void {
+  scheduler.schedule(
+    'rotate-signing-keys',
+    CronPatterns.DAILY_3AM,
+    rotateSigningKeys,
+    { enabled: true },
+  );
+  logger.info('Registered key rotation schedule', { schedule: 'rotate-signing-keys' });
+}
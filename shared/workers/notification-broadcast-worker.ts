@@ -0,0 +1,50 @@
+/**
+ * Notification Broadcast Worker
+ *
+ * Processes the fan-out jobs queued by NotificationBroadcastService:
+ * audience resolution, then one job per batch of recipients.
+ */
+
+import { createLogger } from '../lib/logger.ts';
+import { queue } from '../lib/queue.ts';
+import {
+  BROADCAST_BATCH_JOB,
+  BROADCAST_RESOLVE_JOB,
+  type BroadcastBatchJobData,
+  type BroadcastResolveJobData,
+  NotificationBroadcastService,
+} from '../services/NotificationBroadcastService.ts';
+
+const logger = createLogger('NotificationBroadcastWorker');
+
+// ============================================================================
+// Worker Registration
+// ============================================================================
+
+/**
+ * Register the broadcast workers
+ * Call this function during server startup
+ */
+export function registerNotificationBroadcastWorker(): void {
+  queue.process<BroadcastResolveJobData>(BROADCAST_RESOLVE_JOB, async (job) => {
+    const service = new NotificationBroadcastService();
+    try {
+      await service.resolveRecipients(job.data.broadcastId);
+    } catch (error) {
+      // Out of retries: show the failure on the broadcast instead of leaving it queued
+      if (job.attempts >= job.maxRetries) {
+        await service.markFailed(job.data.broadcastId, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+  });
+
+  queue.process<BroadcastBatchJobData>(BROADCAST_BATCH_JOB, async (job, ctx) => {
+    const { broadcastId, batchIndex, userIds } = job.data;
+    const result = await new NotificationBroadcastService().deliverBatch(broadcastId, batchIndex, userIds);
+    await ctx.log(`Delivered ${result.delivered}, skipped ${result.skipped}, failed ${result.failed}`);
+    return result;
+  });
+
+  logger.info('Notification broadcast worker registered');
+}
@@ -0,0 +1,53 @@
+/**
+ * Notification Digest Worker
+ *
+ * Scheduled jobs that email daily and weekly notification digests
+ * (NotificationDeliveryService.sendDigests). Times are set in
+ * NotificationDeliveryConfig and run in UTC.
+ */
+
+import { NotificationDeliveryConfig } from '../lib/config.ts';
+import { createLogger } from '../lib/logger.ts';
+import { scheduler } from '../lib/scheduler.ts';
+import { NotificationDeliveryService } from '../services/NotificationDeliveryService.ts';
+import type { DigestFrequency } from '../types/notifications.ts';
+
+const logger = createLogger('NotificationDigestWorker');
+
+/**
+ * Send every pending digest for one frequency
+ */
+async function sendDigests(frequency: DigestFrequency): Promise<void> {
+  try {
+    const sent = await new NotificationDeliveryService().sendDigests(frequency);
+    logger.info('Notification digest run complete', { frequency, sent });
+  } catch (error) {
+    logger.error('Notification digest run failed', { frequency, error });
+    throw error;
+  }
+}
+
+/**
+ * Register the digest schedules
+ * Call this function during server startup - they only run on the instance
+ * holding the scheduler lease
+ */
+export function registerNotificationDigestWorker(): void {
+  scheduler.schedule(
+    'notification-digest-daily',
+    NotificationDeliveryConfig.DAILY_DIGEST_CRON,
+    () => sendDigests('daily'),
+    { enabled: true },
+  );
+
+  scheduler.schedule(
+    'notification-digest-weekly',
+    NotificationDeliveryConfig.WEEKLY_DIGEST_CRON,
+    () => sendDigests('weekly'),
+    { enabled: true },
+  );
+
+  logger.info('Registered notification digest schedules', {
+    schedules: ['notification-digest-daily', 'notification-digest-weekly'],
+  });
+}
@@ -6,7 +6,7 @@
  */
 
 import { createLogger } from '../lib/logger.ts';
-import { queue } from '../lib/queue.ts';
+import { type JobContext, queue } from '../lib/queue.ts';
 
 const logger = createLogger('ReportWorker');
 
@@ -113,8 +113,9 @@ async function generateAnalyticsReport(
 
 /**
  * Main report generation function
+ * The returned result is stored on the job for the dashboard.
  */
-async function generateReport(data: ReportJobData): Promise<void> {
+async function generateReport(data: ReportJobData, ctx: JobContext): Promise<ReportResult> {
   logger.info('Generating report', {
     reportType: data.reportType,
     userId: data.userId,
@@ -122,6 +123,9 @@ async function generateReport(data: ReportJobData): Promise<void> {
     format: data.format,
   });
 
+  await ctx.updateProgress(10, `Generating ${data.reportType} report`);
+  await ctx.log(`Generating ${data.format} report for ${data.startDate} to ${data.endDate}`);
+
   let result: ReportResult;
 
   switch (data.reportType) {
@@ -144,6 +148,9 @@ async function generateReport(data: ReportJobData): Promise<void> {
     rowCount: result.rowCount,
   });
 
+  await ctx.updateProgress(90, 'Report generated');
+  await ctx.log(`Generated ${result.rowCount} rows (${result.size} bytes)`);
+
   // If email was requested, send notification
   if (data.emailTo) {
     logger.info('Sending report via email', { emailTo: data.emailTo });
@@ -154,6 +161,8 @@ async function generateReport(data: ReportJobData): Promise<void> {
     //   body: `Your ${data.reportType} report is ready for download: ${result.downloadUrl}`,
     // });
   }
+
+  return result;
 }
 
 // ============================================================================
@@ -165,8 +174,8 @@ async function generateReport(data: ReportJobData): Promise<void> {
  * Call this function during server startup
  */
 export function registerReportWorker(): void {
-  queue.process<ReportJobData>('generate-report', async (job) => {
-    await generateReport(job.data);
+  queue.process<ReportJobData>('generate-report', async (job, ctx) => {
+    return await generateReport(job.data, ctx);
   });
 
   logger.info('Report worker registered');
@@ -79,8 +79,13 @@ async function processWebhook(data: WebhookJobData): Promise<void> {
  * Call this function during server startup
  */
 export function registerWebhookWorker(): void {
+  // Limits apply per target host so one slow endpoint can't hog the queue
   queue.process<WebhookJobData>('process-webhook', async (job) => {
     await processWebhook(job.data);
+  }, {
+    concurrency: 2,
+    rateLimit: { max: 10, perMs: 1000 },
+    groupKey: (job) => new URL(job.data.url).host,
   });
 
   logger.info('Webhook worker registered');
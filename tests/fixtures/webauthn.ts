@@ -0,0 +1,110 @@
+/**
+ * Recorded WebAuthn Ceremonies
+ *
+ * Registration and authentication responses captured from a software
+ * authenticator for rp "localhost" / origin "http://localhost:3000", in the
+ * JSON shape browsers send (PublicKeyCredential.toJSON()). Each entry pairs
+ * the challenge the server issued with the credential the authenticator returned.
+ *
+ * - platformPasskey: synced platform passkey - ES256, "none" attestation,
+ *   user verified, backed up, no signature counter, discoverable (user handle)
+ * - securityKey: roaming security key - EdDSA, packed self-attestation,
+ *   user presence only, counter starting at 41, not discoverable
+ * - rsaAuthenticator: RS256 platform authenticator with a counter starting at 7
+ */
+
+export const webauthnFixtures = {
+  rp: {
+    id: 'localhost',
+    name: 'Deno Fresh App',
+    origin: 'http://localhost:3000',
+  },
+  userId: '5f0c3b8e-6d2a-4c1f-9b7e-2a8d4e6f1c3b',
+  platformPasskey: {
+    registration: {
+      challenge: 'Zml4dHVyZS1wbGF0Zm9ybS1yZWctY2hhbGxlbmdlLTA',
+      credential: {
+        id: 'W4OGEB47Qib06FChmpP0mg',
+        rawId: 'W4OGEB47Qib06FChmpP0mg',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF3YkdGMFptOXliUzF5WldjdFkyaGhiR3hsYm1kbExUQSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NdAAAAAAAAAAAAAAAAAAAAAAAAAAAAEFuDhhAeO0Im9OhQoZqT9JqlAQIDJiABIVgggCoZOM6otHodNKXDnZkPfdF_NvXBo6h_0y52ndjDwyAiWCD0Aa2fokFERPvPhVimO5DfTNJV0vRKPHR3BqyGLqe2UQ',
+          transports: ['internal', 'hybrid'],
+        },
+      },
+    },
+    authentication: {
+      challenge: 'Zml4dHVyZS1wbGF0Zm9ybS1hdXRoLWNoYWxsZW5nZS0',
+      credential: {
+        id: 'W4OGEB47Qib06FChmpP0mg',
+        rawId: 'W4OGEB47Qib06FChmpP0mg',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF3YkdGMFptOXliUzFoZFhSb0xXTm9ZV3hzWlc1blpTMCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MdAAAAAA',
+          signature: 'MEUCIQCwq0Pq5zkyYIBzmdYdbydy8S2ICK67IyWltiLBlExNpgIgfei51oj1FyB57W1fR_1vjYRKYFVtbReNNUFySBryea8',
+          userHandle: 'NWYwYzNiOGUtNmQyYS00YzFmLTliN2UtMmE4ZDRlNmYxYzNi',
+        },
+      },
+    },
+  },
+  securityKey: {
+    registration: {
+      challenge: 'Zml4dHVyZS1zZWN1cml0eS1rZXktcmVnLWNoYWxsZW4',
+      credential: {
+        id: 'gpfuZ2hbUfoefYZLylbHkGBOBB_xpIzGvvjsfeFHjk8',
+        rawId: 'gpfuZ2hbUfoefYZLylbHkGBOBB_xpIzGvvjsfeFHjk8',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF6WldOMWNtbDBlUzFyWlhrdGNtVm5MV05vWVd4c1pXNCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          attestationObject: 'o2NmbXRmcGFja2VkZ2F0dFN0bXSiY2FsZydjc2lnWEC-QvU6NUOEj3SvJiEAjmS42-E6SudzZmqb_vBI1uZSrUOl9zriWps8OEY8LJBPExOidIj8SUdvoWUpb_EFbykOaGF1dGhEYXRhWIFJlg3liA6MaHQ0Fw9kdmBbj-SuuaKGMseZXPO6gx2XY0EAAAApbUS6m_bsTpuh8lPE-3ocAQAggpfuZ2hbUfoefYZLylbHkGBOBB_xpIzGvvjsfeFHjk-kAQEDJyAGIVggPn-OzeoG8SPu7zKG60aqUmOnGH6VFI0w2fDxLk0yNz4',
+          transports: ['usb', 'nfc'],
+        },
+      },
+    },
+    authentication: {
+      challenge: 'Zml4dHVyZS1zZWN1cml0eS1rZXktYXV0aC1jaGFsbGU',
+      credential: {
+        id: 'gpfuZ2hbUfoefYZLylbHkGBOBB_xpIzGvvjsfeFHjk8',
+        rawId: 'gpfuZ2hbUfoefYZLylbHkGBOBB_xpIzGvvjsfeFHjk8',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF6WldOMWNtbDBlUzFyWlhrdFlYVjBhQzFqYUdGc2JHVSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MBAAAAKg',
+          signature: 'r8BVKNpDUDFyg2IAk6IxfADBQfzQk8CHz_nuth9BbkPM-u_typ0Mr7myTCNqYs7NYRzSZvFhO_2q4cgF2BYPDw',
+          userHandle: null,
+        },
+      },
+    },
+  },
+  rsaAuthenticator: {
+    registration: {
+      challenge: 'Zml4dHVyZS1yc2EtcmVnLWNoYWxsZW5nZS0wMTIzNDU',
+      credential: {
+        id: '0NaZEYRvF75_eR5KtihW5P8Zkw0m7rULMNvZaKIQAFA',
+        rawId: '0NaZEYRvF75_eR5KtihW5P8Zkw0m7rULMNvZaKIQAFA',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF5YzJFdGNtVm5MV05vWVd4c1pXNW5aUzB3TVRJek5EVSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YVkBZ0mWDeWIDoxodDQXD2R2YFuP5K65ooYyx5lc87qDHZdjRQAAAAcAAAAAAAAAAAAAAAAAAAAAACDQ1pkRhG8Xvn95Hkq2KFbk_xmTDSbutQsw29loohAAUKQBAwM5AQAgWQEAzxRkDFL6f2zIshhOstTnqZy2o5jhn8BkIYhAvzscaVcVEIrprDcLgGXtGDUKFuUZypD1ZDt2mJkNp4BJdAyXTMRW79nwa4vfB05mhFtXto6XQv36kSjb_AGS-T7uzenIFgdXLYeBy3TSr8cZ7BLk1jOJQdj66zwBY_OmWiox5T59wKEjzA8KTBp16JGb9lk1TiMhz3IdTM7doFbefKTwqV-9DszuYHPF4hAVk4VQYsxdyteCy2zhsTxBTPXsmLmFr61catBT_D8s8sQ1EB0r18gQMZKn7mpfexeNGrdarN67B1FCyGEj-7l6xaxcDmdxDPschurIcMJmC0oRk5C_eSFDAQAB',
+          transports: ['internal'],
+        },
+      },
+    },
+    authentication: {
+      challenge: 'Zml4dHVyZS1yc2EtYXV0aC1jaGFsbGVuZ2UtMDEyMzQ',
+      credential: {
+        id: '0NaZEYRvF75_eR5KtihW5P8Zkw0m7rULMNvZaKIQAFA',
+        rawId: '0NaZEYRvF75_eR5KtihW5P8Zkw0m7rULMNvZaKIQAFA',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiWm1sNGRIVnlaUzF5YzJFdFlYVjBhQzFqYUdGc2JHVnVaMlV0TURFeU16USIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6MzAwMCIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAACA',
+          signature: 'ci2_aGQ-vQn_FPJ-1JCSzXjtOdYON2CgKzT16vgsBT4__0WG7HV-8oJ4U8u0flWavvLFpF7ZsggRMapJumBRYbJwowamza7hCGnDHuISV9hVc-sxkaCfNzXVWWgEXtcPWsNxfAGxwB-eBvvYZNIXrr-sQE7zqUW3bg1ZEZeSzu6ScMPWM3jhWR1pxnVBFIXYn5JdmcSjbJN1UKYDYe-RikoI2BUXmSnCoQ9pNfG2KiEJzduEw-I5Nyl-upJZE0LPoz2OLVO2ikLfRxTFiM-W4haKxgyYTxVSjxMCqYr01Y1j08J9V3eucmWMySwTxCH-dKVreDzwBl4Z0SYIaRY2Pg',
+          userHandle: 'NWYwYzNiOGUtNmQyYS00YzFmLTliN2UtMmE4ZDRlNmYxYzNi',
+        },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,197 @@
+/**
+ * Mock OpenID Connect Provider
+ * A local provider on an ephemeral port for testing social sign-in end to end
+ *
+ * Serves a JWKS, a token endpoint (checks client credentials, redirect URI
+ * and the PKCE verifier, then issues an RS256-signed ID token) and a
+ * userinfo endpoint for OAuth2-only providers. authorize() stands in for the
+ * user signing in at the provider and returns what it would redirect back with.
+ *
+ * Usage:
+ *   const provider = await startMockOidcProvider();
+ *   try {
+ *     const { code, state } = provider.authorize(authorizationUrl, { sub: 'user-1', email: 'a@example.com' });
+ *   } finally {
+ *     await provider.close();
+ *   }
+ */
+
+import { encodeBase64Url } from '@std/encoding/base64url';
+import type { ExternalIdentity, OidcProviderConfig } from '../../shared/lib/oidc.ts';
+
+export interface MockOidcUser {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Config for an OpenID Connect provider (ID token + JWKS) */
+  config(overrides?: Partial<OidcProviderConfig>): OidcProviderConfig;
+  /** Config for an OAuth2-only provider (profile from the userinfo endpoint) */
+  oauth2Config(overrides?: Partial<OidcProviderConfig>): OidcProviderConfig;
+  /** Sign the user in at the provider; returns the code and state for the callback */
+  authorize(authorizationUrl: string, user: MockOidcUser): { code: string; state: string };
+  /** Change the next ID token's claims (or sign it with an unpublished key) */
+  tamperNextIdToken(tamper: { claims?: Record<string, unknown>; foreignKey?: boolean }): void;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string | null;
+  user: MockOidcUser;
+}
+
+const RSA_PARAMS: RsaHashedKeyGenParams = {
+  name: 'RSASSA-PKCS1-v1_5',
+  modulusLength: 2048,
+  publicExponent: new Uint8Array([1, 0, 1]),
+  hash: 'SHA-256',
+};
+
+export async function startMockOidcProvider(): Promise<MockOidcProvider> {
+  const clientId = 'test-client';
+  const clientSecret = 'test-secret';
+  const kid = 'mock-key-1';
+
+  const keyPair = await crypto.subtle.generateKey(RSA_PARAMS, true, ['sign', 'verify']) as CryptoKeyPair;
+  const foreignKeyPair = await crypto.subtle.generateKey(RSA_PARAMS, true, ['sign', 'verify']) as CryptoKeyPair;
+  const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+
+  const codes = new Map<string, PendingCode>();
+  const accessTokens = new Map<string, MockOidcUser>();
+  let tamper: { claims?: Record<string, unknown>; foreignKey?: boolean } | null = null;
+  let issuer = '';
+
+  async function signIdToken(claims: Record<string, unknown>, key: CryptoKey): Promise<string> {
+    const encode = (value: unknown) => encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+    const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(claims)}`;
+    const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(input));
+    return `${input}.${encodeBase64Url(new Uint8Array(signature))}`;
+  }
+
+  async function handleToken(req: Request): Promise<Response> {
+    const form = new URLSearchParams(await req.text());
+    const pending = codes.get(form.get('code') ?? '');
+    codes.delete(form.get('code') ?? '');
+
+    const challenge = encodeBase64Url(
+      new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(form.get('code_verifier') ?? ''))),
+    );
+
+    if (
+      !pending ||
+      form.get('grant_type') !== 'authorization_code' ||
+      form.get('client_id') !== clientId ||
+      form.get('client_secret') !== clientSecret ||
+      form.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return Response.json({ error: 'invalid_grant' }, { status: 400 });
+    }
+
+    const accessToken = crypto.randomUUID();
+    accessTokens.set(accessToken, pending.user);
+
+    const now = Math.floor(Date.now() / 1000);
+    const claims = {
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      ...(pending.nonce && { nonce: pending.nonce }),
+      ...pending.user,
+      ...tamper?.claims,
+    };
+    const idToken = await signIdToken(claims, tamper?.foreignKey ? foreignKeyPair.privateKey : keyPair.privateKey);
+    tamper = null;
+
+    return Response.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 3600, id_token: idToken });
+  }
+
+  function handleUserinfo(req: Request): Response {
+    const user = accessTokens.get(req.headers.get('Authorization')?.replace('Bearer ', '') ?? '');
+    return user ? Response.json(user) : Response.json({ error: 'invalid_token' }, { status: 401 });
+  }
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+    const { pathname } = new URL(req.url);
+    if (pathname === '/jwks') {
+      return Response.json({ keys: [{ ...publicJwk, kid, alg: 'RS256', use: 'sig' }] });
+    }
+    if (pathname === '/token' && req.method === 'POST') {
+      return handleToken(req);
+    }
+    if (pathname === '/userinfo') {
+      return handleUserinfo(req);
+    }
+    return new Response('Not found', { status: 404 });
+  });
+
+  issuer = `http://127.0.0.1:${server.addr.port}`;
+
+  const baseConfig = (): OidcProviderConfig => ({
+    id: 'mock',
+    name: 'Mock Provider',
+    clientId,
+    clientSecret,
+    authorizationEndpoint: `${issuer}/authorize`,
+    tokenEndpoint: `${issuer}/token`,
+    scopes: ['openid', 'email', 'profile'],
+  });
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+
+    config: (overrides = {}) => ({
+      ...baseConfig(),
+      idToken: { issuer, jwksUri: `${issuer}/jwks` },
+      ...overrides,
+    }),
+
+    oauth2Config: (overrides = {}) => ({
+      ...baseConfig(),
+      id: 'mock-oauth2',
+      name: 'Mock OAuth2',
+      fetchProfile: async (accessToken: string): Promise<ExternalIdentity> => {
+        const response = await fetch(`${issuer}/userinfo`, { headers: { Authorization: `Bearer ${accessToken}` } });
+        const user = await response.json() as MockOidcUser;
+        return {
+          subject: user.sub,
+          email: user.email ?? null,
+          emailVerified: user.email_verified === true,
+          name: user.name ?? null,
+        };
+      },
+      ...overrides,
+    }),
+
+    authorize: (authorizationUrl, user) => {
+      const url = new URL(authorizationUrl);
+      const code = crypto.randomUUID();
+      codes.set(code, {
+        redirectUri: url.searchParams.get('redirect_uri') ?? '',
+        codeChallenge: url.searchParams.get('code_challenge') ?? '',
+        nonce: url.searchParams.get('nonce'),
+        user,
+      });
+      return { code, state: url.searchParams.get('state') ?? '' };
+    },
+
+    tamperNextIdToken: (next) => {
+      tamper = next;
+    },
+
+    close: async () => {
+      await server.shutdown();
+    },
+  };
+}
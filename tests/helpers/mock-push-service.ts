@@ -0,0 +1,233 @@
+/**
+ * Mock Push Service
+ * A local push service on an ephemeral port for testing Web Push end to end
+ *
+ * createSubscription() stands in for a browser subscribing: it makes the
+ * browser's ECDH key pair and auth secret and returns what
+ * PushSubscription.toJSON() would. Pushes to its endpoint must carry a valid
+ * VAPID token for this origin; the payload is decrypted (RFC 8291) with the
+ * browser's keys and recorded with the request headers.
+ *
+ * Usage:
+ *   const pushService = await startMockPushService();
+ *   try {
+ *     const subscription = await pushService.createSubscription();
+ *     // ...push to subscription.endpoint...
+ *     assertEquals(JSON.parse(pushService.messages[0].payload).title, 'Hello');
+ *   } finally {
+ *     await pushService.close();
+ *   }
+ */
+
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+
+export interface MockPushSubscription {
+  endpoint: string;
+  expirationTime: null;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface ReceivedPushMessage {
+  endpoint: string;
+  /** Decrypted payload */
+  payload: string;
+  ttl: number;
+  urgency: string | null;
+  topic: string | null;
+  /** Public key from the VAPID Authorization header */
+  vapidPublicKey: string;
+}
+
+export interface MockPushService {
+  origin: string;
+  /** Successfully delivered messages, oldest first */
+  messages: ReceivedPushMessage[];
+  /** Requests refused (bad VAPID token, undecryptable body, gone endpoint) with the status returned */
+  rejected: { endpoint: string; status: number; reason: string }[];
+  createSubscription(): Promise<MockPushSubscription>;
+  /** Answer later pushes to this endpoint with 410 Gone, like an unsubscribed browser */
+  expire(endpoint: string): void;
+  close(): Promise<void>;
+}
+
+interface BrowserKeys {
+  publicKey: Uint8Array;
+  privateKey: CryptoKey;
+  auth: Uint8Array;
+}
+
+const encoder = new TextEncoder();
+const ECDH_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' };
+
+async function hkdf(salt: Uint8Array, ikm: Uint8Array, info: Uint8Array, length: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+/**
+ * Decrypt an aes128gcm body as the browser would (single record)
+ */
+async function decrypt(body: Uint8Array, browser: BrowserKeys): Promise<string> {
+  const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const salt = body.slice(0, 16);
+  const recordSize = view.getUint32(16);
+  const keyIdLength = body[20];
+  const serverPublic = body.slice(21, 21 + keyIdLength);
+  const ciphertext = body.slice(21 + keyIdLength);
+  if (ciphertext.length > recordSize) {
+    throw new Error('Multiple records are not supported');
+  }
+
+  const serverKey = await crypto.subtle.importKey('raw', serverPublic, ECDH_PARAMS, false, []);
+  const ecdhSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: serverKey }, browser.privateKey, 256),
+  );
+
+  const keyInfo = new Uint8Array([...encoder.encode('WebPush: info\0'), ...browser.publicKey, ...serverPublic]);
+  const ikm = await hkdf(browser.auth, ecdhSecret, keyInfo, 32);
+  const cek = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const aesKey = await crypto.subtle.importKey('raw', cek, 'AES-GCM', false, ['decrypt']);
+  const padded = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, ciphertext));
+
+  // Strip padding back to the last-record delimiter
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  if (padded[end] !== 2) {
+    throw new Error('Missing record delimiter');
+  }
+  return new TextDecoder().decode(padded.slice(0, end));
+}
+
+/**
+ * Check the VAPID token; returns the signer's public key or why it was refused
+ */
+async function verifyVapid(header: string | null, origin: string): Promise<{ publicKey: string } | { error: string }> {
+  const match = header?.match(/^vapid t=([^,\s]+),\s*k=([A-Za-z0-9_-]+)$/);
+  if (!match) {
+    return { error: 'Missing VAPID authorization' };
+  }
+
+  const [, token, publicKey] = match;
+  const [headerPart, claimsPart, signaturePart] = token.split('.');
+  const point = decodeBase64Url(publicKey);
+  const key = await crypto.subtle.importKey(
+    'jwk',
+    { kty: 'EC', crv: 'P-256', x: encodeBase64Url(point.slice(1, 33)), y: encodeBase64Url(point.slice(33, 65)) },
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify'],
+  );
+
+  const valid = await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    decodeBase64Url(signaturePart),
+    encoder.encode(`${headerPart}.${claimsPart}`),
+  );
+  if (!valid) {
+    return { error: 'Bad VAPID signature' };
+  }
+
+  const claims = JSON.parse(new TextDecoder().decode(decodeBase64Url(claimsPart)));
+  const now = Math.floor(Date.now() / 1000);
+  if (claims.aud !== origin) {
+    return { error: `Wrong audience ${claims.aud}` };
+  }
+  if (typeof claims.exp !== 'number' || claims.exp <= now || claims.exp > now + 24 * 60 * 60) {
+    return { error: 'Bad VAPID expiry' };
+  }
+  if (typeof claims.sub !== 'string' || !/^(mailto:|https?:)/.test(claims.sub)) {
+    return { error: 'Bad VAPID subject' };
+  }
+
+  return { publicKey };
+}
+
+export async function startMockPushService(): Promise<MockPushService> {
+  const browsers = new Map<string, BrowserKeys>();
+  const expired = new Set<string>();
+  const messages: ReceivedPushMessage[] = [];
+  const rejected: MockPushService['rejected'] = [];
+  let origin = '';
+
+  async function handlePush(req: Request): Promise<Response> {
+    const endpoint = req.url;
+    const reject = (status: number, reason: string) => {
+      rejected.push({ endpoint, status, reason });
+      return new Response(reason, { status });
+    };
+
+    const browser = browsers.get(endpoint);
+    if (!browser) {
+      return reject(404, 'Unknown subscription');
+    }
+    if (expired.has(endpoint)) {
+      return reject(410, 'Subscription expired');
+    }
+
+    const vapid = await verifyVapid(req.headers.get('Authorization'), origin);
+    if ('error' in vapid) {
+      return reject(403, vapid.error);
+    }
+    if (req.headers.get('Content-Encoding') !== 'aes128gcm') {
+      return reject(415, 'Unsupported content encoding');
+    }
+
+    let payload: string;
+    try {
+      payload = await decrypt(new Uint8Array(await req.arrayBuffer()), browser);
+    } catch (error) {
+      return reject(400, `Decryption failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    messages.push({
+      endpoint,
+      payload,
+      ttl: Number(req.headers.get('TTL')),
+      urgency: req.headers.get('Urgency'),
+      topic: req.headers.get('Topic'),
+      vapidPublicKey: vapid.publicKey,
+    });
+    return new Response(null, { status: 201 });
+  }
+
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+    const { pathname } = new URL(req.url);
+    if (pathname.startsWith('/push/') && req.method === 'POST') {
+      return handlePush(req);
+    }
+    return new Response('Not found', { status: 404 });
+  });
+
+  origin = `http://127.0.0.1:${server.addr.port}`;
+
+  return {
+    origin,
+    messages,
+    rejected,
+
+    createSubscription: async () => {
+      const pair = await crypto.subtle.generateKey(ECDH_PARAMS, true, ['deriveBits']) as CryptoKeyPair;
+      const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey));
+      const auth = crypto.getRandomValues(new Uint8Array(16));
+      const endpoint = `${origin}/push/${crypto.randomUUID()}`;
+
+      browsers.set(endpoint, { publicKey, privateKey: pair.privateKey, auth });
+      return {
+        endpoint,
+        expirationTime: null,
+        keys: { p256dh: encodeBase64Url(publicKey), auth: encodeBase64Url(auth) },
+      };
+    },
+
+    expire: (endpoint) => {
+      expired.add(endpoint);
+    },
+
+    close: async () => {
+      await server.shutdown();
+    },
+  };
+}
@@ -251,6 +251,38 @@ describe('CompositeIndexManager', () => {
 
       assertEquals(users.length, 5);
     });
+
+    it('should page through users with the returned cursor', async () => {
+      // Create 5 users, newest last
+      for (let i = 0; i < 5; i++) {
+        const user: User = {
+          id: `user${i}`,
+          email: `user${i}@example.com`,
+          name: `User ${i}`,
+          role: 'user',
+          emailVerified: true,
+          createdAt: new Date(Date.now() + i).toISOString(),
+        };
+        await kv.set(['users', user.id], user);
+        await CompositeIndexManager.createUserIndexes(kv, user);
+      }
+
+      const first = await CompositeIndexManager.queryUserPage({ emailVerified: true, limit: 2 }, kv);
+      const second = await CompositeIndexManager.queryUserPage(
+        { emailVerified: true, limit: 2, cursor: first.cursor! },
+        kv,
+      );
+      const last = await CompositeIndexManager.queryUserPage(
+        { emailVerified: true, limit: 2, cursor: second.cursor! },
+        kv,
+      );
+
+      // Newest first, no user skipped or repeated, no cursor after the last page
+      assertEquals(first.users.map((u) => u.id), ['user4', 'user3']);
+      assertEquals(second.users.map((u) => u.id), ['user2', 'user1']);
+      assertEquals(last.users.map((u) => u.id), ['user0']);
+      assertEquals(last.cursor, null);
+    });
   });
 
   // ==========================================================================
@@ -0,0 +1,148 @@
+/**
+ * CSRF Protection Tests
+ *
+ * Tests signed double-submit tokens bound to the refresh-token session.
+ * Focus: Token binding and request validation rules.
+ */
+
+import { assertEquals } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  createCsrfToken,
+  getCsrfSessionId,
+  requiresCsrfToken,
+  validateCsrfRequest,
+  verifyCsrfToken,
+} from '../../shared/lib/csrf.ts';
+import { createAccessToken, createRefreshToken } from '../../shared/lib/jwt.ts';
+
+describe('CSRF Protection', () => {
+  let originalJwtSecret: string | undefined;
+
+  beforeEach(() => {
+    originalJwtSecret = Deno.env.get('JWT_SECRET');
+    Deno.env.set('JWT_SECRET', 'test-secret-key-min-32-characters-long');
+  });
+
+  afterEach(() => {
+    if (originalJwtSecret) {
+      Deno.env.set('JWT_SECRET', originalJwtSecret);
+    } else {
+      Deno.env.delete('JWT_SECRET');
+    }
+  });
+
+  describe('requiresCsrfToken', () => {
+    it('should require a token for state-changing methods', () => {
+      assertEquals(requiresCsrfToken('POST', '/api/auth/login'), true);
+      assertEquals(requiresCsrfToken('PUT', '/api/user/profile'), true);
+      assertEquals(requiresCsrfToken('patch', '/api/notifications/1/read'), true);
+      assertEquals(requiresCsrfToken('DELETE', '/api/jobs/1'), true);
+    });
+
+    it('should not require a token for safe methods', () => {
+      assertEquals(requiresCsrfToken('GET', '/api/auth/me'), false);
+      assertEquals(requiresCsrfToken('HEAD', '/api/auth/me'), false);
+      assertEquals(requiresCsrfToken('OPTIONS', '/api/auth/login'), false);
+    });
+
+    it('should skip allowlisted endpoints', () => {
+      assertEquals(requiresCsrfToken('POST', '/api/webhooks/stripe'), false);
+      assertEquals(requiresCsrfToken('POST', '/api/hooks/github', ['/api/hooks/github']), false);
+      assertEquals(requiresCsrfToken('POST', '/api/hooks/github/extra', ['/api/hooks/github']), true);
+    });
+  });
+
+  describe('token binding', () => {
+    it('should verify a token for the session it was issued to', async () => {
+      const token = await createCsrfToken('session-a');
+      assertEquals(await verifyCsrfToken(token, 'session-a'), true);
+    });
+
+    it('should reject a token issued to another session', async () => {
+      const token = await createCsrfToken('session-a');
+      assertEquals(await verifyCsrfToken(token, 'session-b'), false);
+    });
+
+    it('should reject tampered or malformed tokens', async () => {
+      const token = await createCsrfToken('session-a');
+      const [nonce] = token.split('.');
+
+      assertEquals(await verifyCsrfToken(`${nonce}x.${token.split('.')[1]}`, 'session-a'), false);
+      assertEquals(await verifyCsrfToken(`${nonce}.`, 'session-a'), false);
+      assertEquals(await verifyCsrfToken('not-a-token', 'session-a'), false);
+      assertEquals(await verifyCsrfToken(`${token}.extra`, 'session-a'), false);
+    });
+
+    it('should bind to the refresh token jti', async () => {
+      const refresh = await createRefreshToken({ sub: 'user-1' });
+      assertEquals(await getCsrfSessionId(refresh.token), refresh.tokenId);
+    });
+
+    it('should stay bound to the session when the refresh token rotates', async () => {
+      const refresh = await createRefreshToken({ sub: 'user-1' });
+      const rotated = await createRefreshToken({ sub: 'user-1', fid: refresh.familyId });
+
+      assertEquals(await getCsrfSessionId(rotated.token), refresh.tokenId);
+    });
+
+    it('should treat missing, invalid or non-refresh tokens as anonymous', async () => {
+      const access = await createAccessToken({ sub: 'user-1', jti: 'access-id' });
+
+      assertEquals(await getCsrfSessionId(undefined), 'anonymous');
+      assertEquals(await getCsrfSessionId('garbage'), 'anonymous');
+      assertEquals(await getCsrfSessionId(access), 'anonymous');
+    });
+  });
+
+  describe('validateCsrfRequest', () => {
+    it('should accept matching header and cookie bound to the session', async () => {
+      const refresh = await createRefreshToken({ sub: 'user-1' });
+      const token = await createCsrfToken(refresh.tokenId);
+
+      const valid = await validateCsrfRequest({
+        headerToken: token,
+        cookieToken: token,
+        refreshToken: refresh.token,
+      });
+
+      assertEquals(valid, true);
+    });
+
+    it('should reject when header is missing or differs from cookie', async () => {
+      const token = await createCsrfToken('anonymous');
+      const other = await createCsrfToken('anonymous');
+
+      assertEquals(await validateCsrfRequest({ headerToken: null, cookieToken: token, refreshToken: undefined }), false);
+      assertEquals(await validateCsrfRequest({ headerToken: token, cookieToken: undefined, refreshToken: undefined }), false);
+      assertEquals(await validateCsrfRequest({ headerToken: other, cookieToken: token, refreshToken: undefined }), false);
+    });
+
+    it('should reject a pre-login token once a session exists', async () => {
+      const anonymousToken = await createCsrfToken('anonymous');
+      const refresh = await createRefreshToken({ sub: 'user-1' });
+
+      const valid = await validateCsrfRequest({
+        headerToken: anonymousToken,
+        cookieToken: anonymousToken,
+        refreshToken: refresh.token,
+      });
+
+      assertEquals(valid, false);
+    });
+
+    it('should reject a token from a different session', async () => {
+      const sessionA = await createRefreshToken({ sub: 'user-1' });
+      const sessionB = await createRefreshToken({ sub: 'user-1' });
+      const token = await createCsrfToken(sessionA.tokenId);
+
+      const valid = await validateCsrfRequest({
+        headerToken: token,
+        cookieToken: token,
+        refreshToken: sessionB.token,
+      });
+
+      assertEquals(valid, false);
+    });
+  });
+});
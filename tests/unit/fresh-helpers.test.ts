@@ -0,0 +1,97 @@
+/**
+ * Fresh Helpers Tests
+ *
+ * Tests request body parsing for API routes.
+ * Focus: The multipart size guard holds without a trustworthy Content-Length.
+ */
+
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import { BadRequestError, ValidationError } from '../../frontend/lib/errors.ts';
+import { parseFormData } from '../../frontend/lib/fresh-helpers.ts';
+
+const BOUNDARY = 'test-boundary';
+const CONTENT_TYPE = `multipart/form-data; boundary=${BOUNDARY}`;
+
+function multipartBody(fileSize: number): Uint8Array {
+  const head = `--${BOUNDARY}\r\nContent-Disposition: form-data; name="file"; filename="a.bin"\r\n` +
+    'Content-Type: application/octet-stream\r\n\r\n';
+  const tail = `\r\n--${BOUNDARY}--\r\n`;
+  const encoder = new TextEncoder();
+  return new Uint8Array([...encoder.encode(head), ...new Uint8Array(fileSize), ...encoder.encode(tail)]);
+}
+
+/**
+ * A chunked upload (no Content-Length) that counts how many chunks were pulled
+ */
+function chunkedUpload(chunkSize: number, chunks: number) {
+  const stats = { pulled: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (stats.pulled === chunks) {
+        controller.close();
+        return;
+      }
+      stats.pulled++;
+      controller.enqueue(new Uint8Array(chunkSize));
+    },
+  });
+  return { body, stats };
+}
+
+describe('parseFormData', () => {
+  it('should parse a form within the limit', async () => {
+    // Arrange
+    const req = new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: multipartBody(1024),
+    });
+
+    // Act
+    const formData = await parseFormData(req, 4096);
+
+    // Assert
+    const file = formData.get('file') as File;
+    assertEquals(file.size, 1024);
+  });
+
+  it('should reject a declared oversized body', async () => {
+    // Arrange
+    const req = new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': CONTENT_TYPE, 'Content-Length': String(10 * 1024 * 1024) },
+      body: multipartBody(16),
+    });
+
+    // Act & Assert
+    await assertRejects(() => parseFormData(req, 1024 * 1024), ValidationError, 'Request too large');
+    assertEquals(req.bodyUsed, false);
+  });
+
+  it('should stop reading a chunked oversized body at the limit', async () => {
+    // Arrange: 64MB sent in 64KB chunks with no Content-Length
+    const { body, stats } = chunkedUpload(64 * 1024, 1024);
+    const req = new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body,
+    });
+
+    // Act & Assert
+    await assertRejects(() => parseFormData(req, 1024 * 1024), ValidationError, 'Request too large');
+    assert(stats.pulled <= 20, `read ${stats.pulled} chunks past a 1MB limit`);
+  });
+
+  it('should reject a body that is not form data', async () => {
+    // Arrange
+    const req = new Request('http://localhost/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': CONTENT_TYPE },
+      body: 'not multipart',
+    });
+
+    // Act & Assert
+    await assertRejects(() => parseFormData(req, 4096), BadRequestError);
+  });
+});
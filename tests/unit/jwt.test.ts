@@ -1,4 +1,6 @@
-﻿/**
+﻿/// <reference lib="deno.unstable" />
+
+/**
  * JWT Utility Tests
  * 
  * Tests token creation, verification, and duration parsing.
@@ -9,6 +11,7 @@
 
 import { assertEquals, assertExists, assertRejects } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { create, decode, getNumericDate } from 'https://deno.land/x/djwt@v3.0.2/mod.ts';
 import {
     createAccessToken,
     createRefreshToken,
@@ -17,12 +20,35 @@ import {
     parseDurationToSeconds,
     verifyToken,
 } from '../../shared/lib/jwt.ts';
+import { signingKeys, SigningKeyStore } from '../../shared/lib/signing-keys.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+
+/**
+ * Point the shared signing key store at a fresh test KV (and drop its caches)
+ */
+function useSigningKv(kv: Deno.Kv): void {
+  const store = signingKeys as unknown as {
+    getKv: () => Promise<Deno.Kv>;
+    active: unknown;
+    verificationKeys: Map<string, unknown>;
+  };
+  store.getKv = () => Promise.resolve(kv);
+  store.active = null;
+  store.verificationKeys.clear();
+}
 
 describe('JWT Utilities', () => {
   let originalJwtSecret: string | undefined;
   let originalJwtExpiresIn: string | undefined;
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    useSigningKv(kv);
 
-  beforeEach(() => {
     // Save original env vars
     originalJwtSecret = Deno.env.get('JWT_SECRET');
     originalJwtExpiresIn = Deno.env.get('JWT_EXPIRES_IN');
@@ -32,7 +58,9 @@ describe('JWT Utilities', () => {
     Deno.env.set('JWT_EXPIRES_IN', '7d');
   });
 
-  afterEach(() => {
+  afterEach(async () => {
+    await cleanup();
+
     // Restore original env vars
     if (originalJwtSecret) {
       Deno.env.set('JWT_SECRET', originalJwtSecret);
@@ -90,17 +118,26 @@ describe('JWT Utilities', () => {
       assertEquals(decoded['userId'], '123');
     });
 
-    it('should throw error when JWT_SECRET is missing', async () => {
+    it('should sign with the active key and name it in the header', async () => {
+      // Act
+      const token = await createToken({ userId: '123' });
+
+      // Assert: asymmetric signature, kid of the active key
+      const [header] = decode(token) as [Record<string, unknown>, unknown, unknown];
+      const active = await signingKeys.getActiveKey();
+      assertEquals(header['alg'], 'ES256');
+      assertEquals(header['kid'], active.kid);
+    });
+
+    it('should not need JWT_SECRET', async () => {
       // Arrange
       Deno.env.delete('JWT_SECRET');
-      const payload = { userId: '123' };
 
-      // Act & Assert
-      await assertRejects(
-        async () => await createToken(payload),
-        Error,
-        'JWT_SECRET is not configured',
-      );
+      // Act
+      const token = await createToken({ userId: '123' });
+
+      // Assert
+      assertEquals((await verifyToken(token))['userId'], '123');
     });
 
     it('should include all payload fields in token', async () => {
@@ -213,6 +250,18 @@ describe('JWT Utilities', () => {
       assertEquals(result1.tokenId !== result2.tokenId, true);
     });
 
+    it('should start a new family unless one is given', async () => {
+      // Act
+      const first = await createRefreshToken({ sub: '123' });
+      const rotated = await createRefreshToken({ sub: '123', fid: first.familyId });
+
+      // Assert: first token names its family, successors keep it
+      assertEquals(first.familyId, first.tokenId);
+      assertEquals(rotated.familyId, first.familyId);
+      assertEquals((await verifyToken(rotated.token))['fid'], first.familyId);
+      assertEquals(rotated.tokenId !== first.tokenId, true);
+    });
+
     it('should add type and jti to payload', async () => {
       // Arrange
       const payload = { userId: '123' };
@@ -265,13 +314,13 @@ describe('JWT Utilities', () => {
       );
     });
 
-    it('should throw error for token with wrong secret', async () => {
-      // Arrange
-      const payload = { userId: '123' };
-      const token = await createToken(payload);
-
-      // Change the secret
-      Deno.env.set('JWT_SECRET', 'different-secret-key-min-32-chars');
+    it('should throw error for token signed by an unknown key', async () => {
+      // Arrange: Sign with a key from a different KV (another deployment)
+      const other = await setupTestKv();
+      const otherStore = new SigningKeyStore({ getKv: () => Promise.resolve(other.kv) });
+      const { kid, alg, privateKey } = await otherStore.getActiveKey();
+      const token = await create({ alg, typ: 'JWT', kid }, { userId: '123', exp: getNumericDate(60) }, privateKey);
+      await other.cleanup();
 
       // Act & Assert
       await assertRejects(
@@ -281,6 +330,37 @@ describe('JWT Utilities', () => {
       );
     });
 
+    it('should still verify tokens signed by a rotated-out key', async () => {
+      // Arrange
+      const token = await createToken({ userId: '123' });
+      await signingKeys.rotate();
+
+      // Act
+      const decoded = await verifyToken(token);
+
+      // Assert
+      assertEquals(decoded['userId'], '123');
+    });
+
+    it('should accept legacy HS256 tokens unless disabled', async () => {
+      // Arrange: Token issued before asymmetric signing (no kid)
+      const legacy = await create(
+        { alg: 'HS256', typ: 'JWT' },
+        { userId: '123', exp: getNumericDate(60) },
+        await getHmacKey(),
+      );
+
+      // Act & Assert
+      assertEquals((await verifyToken(legacy))['userId'], '123');
+
+      Deno.env.set('JWT_ACCEPT_LEGACY_HS256', 'false');
+      try {
+        await assertRejects(() => verifyToken(legacy), Error, 'Invalid token');
+      } finally {
+        Deno.env.delete('JWT_ACCEPT_LEGACY_HS256');
+      }
+    });
+
     it('should return all payload fields', async () => {
       // Arrange
       const payload = {
@@ -0,0 +1,168 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * Leader Lease Tests
+ *
+ * Runs two lease holders (and two schedulers) against one in-memory KV to
+ * simulate two server instances.
+ *
+ * Focus: Single holder, expiry takeover, release, once-per-tick schedules.
+ */
+
+import { assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { LeaderLease } from '../../shared/lib/leader-lease.ts';
+import { JobScheduler } from '../../shared/lib/scheduler.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('LeaderLease', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let leaseA: LeaderLease;
+  let leaseB: LeaderLease;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+
+    leaseA = new LeaderLease({ name: 'test', instanceId: 'instance-a', ttlMs: 200, getKv: () => Promise.resolve(kv) });
+    leaseB = new LeaderLease({ name: 'test', instanceId: 'instance-b', ttlMs: 200, getKv: () => Promise.resolve(kv) });
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should let only one instance hold the lease', async () => {
+    const [a, b] = await Promise.all([leaseA.renew(), leaseB.renew()]);
+
+    assertEquals([a, b].filter(Boolean).length, 1);
+    assertEquals(leaseA.isLeader, a);
+    assertEquals(leaseB.isLeader, b);
+  });
+
+  it('should keep the lease while the holder renews it', async () => {
+    assertEquals(await leaseA.renew(), true);
+    const acquiredAt = (await leaseA.getHolder())?.acquiredAt;
+
+    await wait(100);
+    assertEquals(await leaseA.renew(), true);
+    await wait(150);
+
+    assertEquals(await leaseB.renew(), false);
+
+    const holder = await leaseB.getHolder();
+    assertExists(holder);
+    assertEquals(holder.holderId, 'instance-a');
+    assertEquals(holder.acquiredAt, acquiredAt);
+  });
+
+  it('should hand the lease over once it expires', async () => {
+    assertEquals(await leaseA.renew(), true);
+
+    await wait(250);
+    assertEquals(leaseA.isLeader, false);
+    assertEquals(await leaseA.getHolder(), null);
+
+    assertEquals(await leaseB.renew(), true);
+    assertEquals(await leaseA.renew(), false);
+  });
+
+  it('should free the lease immediately on release', async () => {
+    await leaseA.renew();
+    await leaseA.release();
+
+    assertEquals(leaseA.isLeader, false);
+    assertEquals(await leaseB.renew(), true);
+  });
+
+  it('should not release a lease held by another instance', async () => {
+    await leaseB.renew();
+    await leaseA.release();
+
+    assertEquals((await leaseA.getHolder())?.holderId, 'instance-b');
+  });
+});
+
+describe('JobScheduler leader election', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let schedulers: JobScheduler[];
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    schedulers = [new JobScheduler(), new JobScheduler()];
+
+    // Share the test KV instance between both "instances"
+    for (const scheduler of schedulers) {
+      (scheduler as unknown as { kv: Deno.Kv }).kv = kv;
+    }
+  });
+
+  afterEach(async () => {
+    for (const scheduler of schedulers) {
+      scheduler.stop();
+    }
+    await wait(50);
+    for (const scheduler of schedulers) {
+      (scheduler as unknown as { kv: Deno.Kv | null }).kv = null;
+    }
+    await cleanup();
+  });
+
+  it('should fire a schedule on one instance only', async () => {
+    let runs = 0;
+
+    for (const scheduler of schedulers) {
+      scheduler.schedule('once-test', '* * * * *', () => {
+        runs++;
+        return Promise.resolve();
+      });
+      // Due now rather than at the next minute boundary
+      scheduler.getSchedule('once-test')!.nextRun = new Date(Date.now() - 1000);
+    }
+
+    for (const scheduler of schedulers) {
+      scheduler.start();
+    }
+    await wait(300);
+
+    assertEquals(runs, 1);
+    assertEquals(schedulers.filter((scheduler) => scheduler.isLeader).length, 1);
+
+    const leader = await schedulers[0]!.getLeader();
+    const leaderInstance = schedulers.find((scheduler) => scheduler.isLeader)!;
+    assertEquals(leader?.holderId, leaderInstance.instanceId);
+  });
+
+  it('should run a claimed tick only once even without the lease', async () => {
+    let runs = 0;
+    const tick = new Date(Date.now() - 1000);
+
+    for (const scheduler of schedulers) {
+      scheduler.schedule('tick-test', '* * * * *', () => {
+        runs++;
+        return Promise.resolve();
+      });
+      scheduler.getSchedule('tick-test')!.nextRun = tick;
+    }
+
+    // Simulate a stale leader: both instances reach the same tick
+    const runTick = (scheduler: JobScheduler) =>
+      (scheduler as unknown as { runTick: (s: unknown, t: Date) => Promise<void> })
+        .runTick(scheduler.getSchedule('tick-test'), tick);
+    await Promise.all(schedulers.map(runTick));
+
+    assertEquals(runs, 1);
+    for (const scheduler of schedulers) {
+      assertEquals(scheduler.getSchedule('tick-test')!.nextRun! > tick, true);
+    }
+  });
+});
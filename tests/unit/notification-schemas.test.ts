@@ -0,0 +1,93 @@
+/**
+ * Notification Schema Tests
+ *
+ * Tests request validation for notifications created by admins.
+ * Focus: Links end up as hrefs in every recipient's browser and email,
+ * so only paths on this site and http(s) URLs are accepted.
+ */
+
+import { assertEquals } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import {
+  CreateBroadcastRequestSchema,
+  CreateNotificationRequestSchema,
+  NotificationActionSchema,
+} from '../../shared/types/notifications.ts';
+
+const UNSAFE_LINKS = [
+  'javascript:alert(document.cookie)',
+  'JavaScript:alert(1)',
+  'data:text/html,<script>alert(1)</script>',
+  '//evil.example.com/phish',
+  '/\\evil.example.com/phish',
+  ' https://example.com',
+];
+
+describe('Notification schemas', () => {
+  describe('NotificationActionSchema', () => {
+    const apiAction = (method: string, path: string) =>
+      NotificationActionSchema.safeParse({ type: 'api', label: 'Retry', method, path }).success;
+
+    it('should accept API actions on endpoints made for actions', () => {
+      assertEquals(apiAction('POST', '/api/jobs/job-1/retry'), true);
+      assertEquals(apiAction('PATCH', '/api/notifications/3f2a-b1/read'), true);
+      assertEquals(apiAction('DELETE', '/api/notifications/3f2a-b1'), true);
+    });
+
+    it('should reject any other state-changing endpoint', () => {
+      assertEquals(apiAction('DELETE', '/api/user/identities/google'), false);
+      assertEquals(apiAction('DELETE', '/api/user/sessions/session-1'), false);
+      assertEquals(apiAction('POST', '/api/auth/logout'), false);
+      assertEquals(apiAction('DELETE', '/api/jobs/job-1/retry'), false);
+    });
+
+    it('should reject dot-segments, encoded slashes and query strings', () => {
+      assertEquals(apiAction('POST', '/api/jobs/../auth/logout'), false);
+      assertEquals(apiAction('POST', '/api/jobs/job-1/../../auth/logout/x'), false);
+      assertEquals(apiAction('POST', '/api/jobs/..%2F..%2Fauth%2Flogout/retry'), false);
+      assertEquals(apiAction('POST', '/api/jobs/job-1/retry?next=/api/auth/logout'), false);
+    });
+  });
+
+  describe('CreateNotificationRequestSchema', () => {
+    const notification = {
+      userId: 'user-1',
+      type: 'info',
+      title: 'Export ready',
+      message: 'Your export is ready to download',
+    };
+
+    it('should accept a path on this site or an http(s) link', () => {
+      for (const link of ['/exports/latest', 'https://example.com/exports']) {
+        assertEquals(CreateNotificationRequestSchema.safeParse({ ...notification, link }).success, true, link);
+      }
+    });
+
+    it('should reject javascript:, data: and protocol-relative links', () => {
+      for (const link of UNSAFE_LINKS) {
+        assertEquals(CreateNotificationRequestSchema.safeParse({ ...notification, link }).success, false, link);
+      }
+    });
+  });
+
+  describe('CreateBroadcastRequestSchema', () => {
+    const broadcast = {
+      type: 'info',
+      title: 'Maintenance tonight',
+      message: 'The app will be unavailable from 22:00 to 23:00 UTC',
+      audience: { type: 'all' },
+    };
+
+    it('should accept a path on this site or an http(s) link', () => {
+      for (const link of ['/status', 'https://status.example.com/incidents/1', 'http://example.com']) {
+        assertEquals(CreateBroadcastRequestSchema.safeParse({ ...broadcast, link }).success, true, link);
+      }
+    });
+
+    it('should reject javascript:, data: and protocol-relative links', () => {
+      for (const link of UNSAFE_LINKS) {
+        assertEquals(CreateBroadcastRequestSchema.safeParse({ ...broadcast, link }).success, false, link);
+      }
+    });
+  });
+});
@@ -114,6 +114,7 @@ import {
   getConnectionStats,
   notifyUser,
   sendToUser,
+  setOfflineNotificationHandler,
   setupWebSocketConnection,
   stopPeriodicCleanup,
 } from '../../shared/lib/notification-websocket.ts';
@@ -670,6 +671,47 @@ describe('NotificationWebSocket', () => {
       }
     });
 
+    it('should hand the notification to the offline handler when the user has no connection', async () => {
+      // Arrange
+      const delivered: Array<{ userId: string; notification: unknown }> = [];
+      setOfflineNotificationHandler((userId, notification) => {
+        delivered.push({ userId, notification });
+        return Promise.resolve();
+      });
+
+      try {
+        // Act
+        notifyUser('offline-user', { id: 'notif-3', message: 'Test' });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        // Assert
+        assertEquals(delivered, [{ userId: 'offline-user', notification: { id: 'notif-3', message: 'Test' } }]);
+      } finally {
+        setOfflineNotificationHandler(null);
+      }
+    });
+
+    it('should not use the offline handler for a connected user', async () => {
+      // Arrange
+      await setupMultipleConnections();
+      let called = false;
+      setOfflineNotificationHandler(() => {
+        called = true;
+        return Promise.resolve();
+      });
+
+      try {
+        // Act
+        notifyUser('user1', { id: 'notif-4', message: 'Test' });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        // Assert
+        assertEquals(called, false);
+      } finally {
+        setOfflineNotificationHandler(null);
+      }
+    });
+
     it('should send custom messages via sendToUser', async () => {
       // Arrange
       await setupMultipleConnections();
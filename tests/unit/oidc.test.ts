@@ -0,0 +1,152 @@
+/**
+ * OIDC Client Tests
+ *
+ * Runs the authorization code flow against a local mock provider
+ * (tests/helpers/mock-oidc-provider.ts):
+ * - Authorization URL carries state, nonce and an S256 code challenge
+ * - Code exchange requires the matching PKCE verifier
+ * - ID tokens are checked for signature, issuer, audience, expiry and nonce
+ * - OAuth2-only providers are identified through their profile endpoint
+ */
+
+import { assertEquals, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  buildAuthorizationUrl,
+  createCodeChallenge,
+  exchangeAuthorizationCode,
+  fetchIdentity,
+  generateRandomToken,
+  OidcError,
+  type OidcProviderConfig,
+} from '../../shared/lib/oidc.ts';
+import { type MockOidcProvider, type MockOidcUser, startMockOidcProvider } from '../helpers/mock-oidc-provider.ts';
+
+const REDIRECT_URI = 'http://localhost:3000/api/auth/oidc/mock/callback';
+
+const alice: MockOidcUser = { sub: 'alice-123', email: 'Alice@Example.com', email_verified: true, name: 'Alice' };
+
+describe('OIDC client', () => {
+  let provider: MockOidcProvider;
+
+  beforeEach(async () => {
+    provider = await startMockOidcProvider();
+  });
+
+  afterEach(async () => {
+    await provider.close();
+  });
+
+  /**
+   * Sign in at the mock provider and exchange the code, as the callback would
+   */
+  async function signIn(config: OidcProviderConfig, user: MockOidcUser, verifierOverride?: string) {
+    const codeVerifier = generateRandomToken();
+    const nonce = generateRandomToken();
+    const url = buildAuthorizationUrl(config, {
+      redirectUri: REDIRECT_URI,
+      state: generateRandomToken(),
+      nonce,
+      codeChallenge: await createCodeChallenge(codeVerifier),
+    });
+
+    const { code } = provider.authorize(url, user);
+    const tokens = await exchangeAuthorizationCode(config, {
+      code,
+      redirectUri: REDIRECT_URI,
+      codeVerifier: verifierOverride ?? codeVerifier,
+    });
+    return await fetchIdentity(config, tokens, nonce);
+  }
+
+  describe('authorization request', () => {
+    it('should include state, nonce and an S256 code challenge', async () => {
+      const url = new URL(buildAuthorizationUrl(provider.config(), {
+        redirectUri: REDIRECT_URI,
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeChallenge: await createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'),
+      }));
+
+      assertEquals(url.searchParams.get('response_type'), 'code');
+      assertEquals(url.searchParams.get('client_id'), provider.clientId);
+      assertEquals(url.searchParams.get('redirect_uri'), REDIRECT_URI);
+      assertEquals(url.searchParams.get('scope'), 'openid email profile');
+      assertEquals(url.searchParams.get('state'), 'state-1');
+      assertEquals(url.searchParams.get('nonce'), 'nonce-1');
+      assertEquals(url.searchParams.get('code_challenge_method'), 'S256');
+      // Test vector from RFC 7636 Appendix B
+      assertEquals(url.searchParams.get('code_challenge'), 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+    });
+
+    it('should not send a nonce to OAuth2-only providers', () => {
+      const url = new URL(buildAuthorizationUrl(provider.oauth2Config(), {
+        redirectUri: REDIRECT_URI,
+        state: 'state-1',
+        nonce: 'nonce-1',
+        codeChallenge: 'challenge',
+      }));
+
+      assertEquals(url.searchParams.has('nonce'), false);
+    });
+  });
+
+  describe('code exchange and ID token', () => {
+    it('should return the identity from a valid ID token', async () => {
+      const identity = await signIn(provider.config(), alice);
+
+      assertEquals(identity, {
+        subject: 'alice-123',
+        email: 'alice@example.com',
+        emailVerified: true,
+        name: 'Alice',
+      });
+    });
+
+    it('should reject a code exchange with the wrong PKCE verifier', async () => {
+      await assertRejects(
+        () => signIn(provider.config(), alice, generateRandomToken()),
+        OidcError,
+        'invalid_grant',
+      );
+    });
+
+    it('should reject an ID token signed with an unpublished key', async () => {
+      provider.tamperNextIdToken({ foreignKey: true });
+
+      await assertRejects(() => signIn(provider.config(), alice), OidcError, 'signature is invalid');
+    });
+
+    it('should reject ID tokens with the wrong claims', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const cases: Array<[Record<string, unknown>, string]> = [
+        [{ iss: 'https://evil.example.com' }, 'issuer mismatch'],
+        [{ aud: 'another-client' }, 'issued to another client'],
+        [{ aud: [provider.clientId, 'another-client'] }, 'authorized party mismatch'],
+        [{ exp: now - 3600 }, 'expired'],
+        [{ iat: now + 3600 }, 'issued in the future'],
+        [{ nonce: 'replayed-nonce' }, 'nonce mismatch'],
+      ];
+
+      for (const [claims, message] of cases) {
+        provider.tamperNextIdToken({ claims });
+        await assertRejects(() => signIn(provider.config(), alice), OidcError, message);
+      }
+    });
+
+    it('should accept email_verified sent as a string', async () => {
+      const identity = await signIn(provider.config(), { ...alice, email_verified: 'true' as unknown as boolean });
+
+      assertEquals(identity.emailVerified, true);
+    });
+  });
+
+  describe('OAuth2-only providers', () => {
+    it('should identify the user through the profile endpoint', async () => {
+      const identity = await signIn(provider.oauth2Config(), { ...alice, email_verified: false });
+
+      assertEquals(identity.subject, 'alice-123');
+      assertEquals(identity.emailVerified, false);
+    });
+  });
+});
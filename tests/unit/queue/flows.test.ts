@@ -0,0 +1,187 @@
+/**
+ * Test: Queue Dependencies and Flows
+ *
+ * Verifies that child jobs wait for their parents, receive parent results
+ * and follow their failure policy when a parent fails.
+ */
+
+import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { closeKv } from '../../../shared/lib/kv.ts';
+import { JobQueue } from '../../../shared/lib/queue.ts';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Queue Flows', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn() {
+  let queue: JobQueue;
+  let prefix: string;
+
+  beforeEach(async () => {
+    queue = new JobQueue();
+    queue.setPollInterval(100);
+    await queue.init();
+    prefix = `flow-test-${Date.now()}`;
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    // Add delay to ensure intervals are cleared
+    await wait(200);
+    await closeKv();
+  });
+
+  describe('dependencies', () => {
+    it('should hold a child until its parent completes and pass the result', async () => {
+      const received: unknown[] = [];
+      let releaseParent!: () => void;
+      const parentReleased = new Promise<void>((resolve) => releaseParent = resolve);
+
+      queue.process(`${prefix}-parent`, async () => {
+        await parentReleased;
+        return { url: '/reports/1' };
+      });
+      queue.process(`${prefix}-child`, (job) => {
+        received.push(job.parentResults);
+        return Promise.resolve();
+      });
+      await queue.start();
+
+      const parentId = await queue.add(`${prefix}-parent`, {});
+      const childId = await queue.add(`${prefix}-child`, {}, { dependsOn: [parentId] });
+      await wait(300);
+
+      assertEquals((await queue.getJob(childId))?.status, 'waiting');
+      assertEquals(received.length, 0);
+
+      releaseParent();
+      await wait(500);
+
+      assertEquals((await queue.getJob(childId))?.status, 'completed');
+      assertEquals(received, [{ [parentId]: { url: '/reports/1' } }]);
+
+      await queue.delete(childId);
+      await queue.delete(parentId);
+    });
+
+    it('should queue a child immediately when its parent already completed', async () => {
+      queue.process(`${prefix}-parent`, () => Promise.resolve('done'));
+      queue.process(`${prefix}-child`, () => Promise.resolve());
+      await queue.start();
+
+      const parentId = await queue.add(`${prefix}-parent`, {});
+      await wait(400);
+      const childId = await queue.add(`${prefix}-child`, {}, { dependsOn: [parentId] });
+
+      // Released straight away rather than left waiting
+      const child = await queue.getJob(childId);
+      assertExists(child);
+      assertEquals(['pending', 'running', 'completed'].includes(child.status), true);
+
+      await wait(400);
+      await queue.delete(childId);
+      await queue.delete(parentId);
+    });
+
+    it('should reject unknown parents', async () => {
+      await assertRejects(() => queue.add(`${prefix}-child`, {}, { dependsOn: ['missing-job'] }), Error);
+    });
+  });
+
+  describe('failure propagation', () => {
+    it('should fail the rest of the chain by default', async () => {
+      queue.process(`${prefix}-parent`, () => Promise.reject(new Error('boom')));
+      await queue.start();
+
+      const parentId = await queue.add(`${prefix}-parent`, {}, { maxRetries: 1 });
+      const childId = await queue.add(`${prefix}-child`, {}, { dependsOn: [parentId] });
+      const grandchildId = await queue.add(`${prefix}-grandchild`, {}, { dependsOn: [childId] });
+      await wait(500);
+
+      const child = await queue.getJob(childId);
+      assertEquals(child?.status, 'failed');
+      assertEquals(child?.error, `Parent job ${parentId} failed`);
+      assertEquals((await queue.getJob(grandchildId))?.status, 'failed');
+
+      await queue.delete(grandchildId);
+      await queue.delete(childId);
+      await queue.delete(parentId);
+    });
+
+    it('should run a child with the continue policy without the failed result', async () => {
+      const received: unknown[] = [];
+      queue.process(`${prefix}-parent`, () => Promise.reject(new Error('boom')));
+      queue.process(`${prefix}-child`, (job) => {
+        received.push(job.parentResults);
+        return Promise.resolve();
+      });
+      await queue.start();
+
+      const parentId = await queue.add(`${prefix}-parent`, {}, { maxRetries: 1 });
+      const childId = await queue.add(`${prefix}-child`, {}, {
+        dependsOn: [parentId],
+        onParentFailure: 'continue',
+      });
+      await wait(800);
+
+      assertEquals((await queue.getJob(childId))?.status, 'completed');
+      assertEquals(received, [{}]);
+
+      await queue.delete(childId);
+      await queue.delete(parentId);
+    });
+
+    it('should fail waiting children when a parent is cancelled', async () => {
+      const parentId = await queue.add(`${prefix}-parent`, {}, { delay: 60000 });
+      const childId = await queue.add(`${prefix}-child`, {}, { dependsOn: [parentId] });
+
+      await queue.cancel(parentId);
+
+      const child = await queue.getJob(childId);
+      assertEquals(child?.status, 'failed');
+      assertEquals(child?.error, `Parent job ${parentId} cancelled`);
+
+      await queue.delete(childId);
+      await queue.delete(parentId);
+    });
+  });
+
+  describe('flows', () => {
+    it('should create a job tree and return it with getFlow', async () => {
+      const { flowId, root } = await queue.addFlow({
+        name: `${prefix}-generate`,
+        data: {},
+        options: { delay: 60000 },
+        children: [
+          { name: `${prefix}-upload`, data: {}, children: [{ name: `${prefix}-email`, data: {} }] },
+          { name: `${prefix}-audit`, data: {} },
+        ],
+      });
+
+      assertEquals(root.children.length, 2);
+      assertEquals(root.children[0]?.children[0]?.name, `${prefix}-email`);
+
+      const flow = await queue.getFlow(flowId);
+      assertExists(flow);
+      assertEquals(flow.rootJobId, root.jobId);
+      assertEquals(flow.jobs.length, 4);
+
+      const upload = flow.jobs.find((j) => j.id === root.children[0]?.jobId);
+      assertEquals(upload?.status, 'waiting');
+      assertEquals(upload?.parentIds, [root.jobId]);
+
+      const listed = await queue.listFlows();
+      assertEquals(listed.some((f) => f.id === flowId), true);
+
+      for (const job of flow.jobs) {
+        await queue.delete(job.id);
+      }
+      assertEquals(await queue.getFlow(flowId), null);
+    });
+  });
+  },
+});
@@ -0,0 +1,180 @@
+/**
+ * Test: Queue Rate Limits and Concurrency Groups
+ *
+ * Verifies per job name concurrency and rate limits, group keys, and that
+ * limits hold across several queue instances sharing KV.
+ */
+
+import { assertEquals, assertThrows } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { closeKv } from '../../../shared/lib/kv.ts';
+import { JobQueue } from '../../../shared/lib/queue.ts';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Queue Limits', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn() {
+  let queue: JobQueue;
+  let other: JobQueue | null;
+
+  beforeEach(async () => {
+    queue = new JobQueue();
+    queue.setPollInterval(100);
+    await queue.init();
+    other = null;
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    other?.stop();
+    // Add delay to ensure intervals are cleared
+    await wait(200);
+    await closeKv();
+  });
+
+  /**
+   * Handler that records how many jobs run at once and holds each for holdMs
+   */
+  function trackConcurrency(holdMs: number) {
+    const stats = { running: 0, maxRunning: 0, completed: 0 };
+    const handler = async () => {
+      stats.running++;
+      stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+      await wait(holdMs);
+      stats.running--;
+      stats.completed++;
+    };
+    return { stats, handler };
+  }
+
+  describe('options', () => {
+    it('should reject invalid limits', () => {
+      assertThrows(() => queue.process('invalid', () => Promise.resolve(), { concurrency: 0 }), Error);
+      assertThrows(
+        () => queue.process('invalid', () => Promise.resolve(), { rateLimit: { max: 0, perMs: 1000 } }),
+        Error,
+      );
+    });
+  });
+
+  describe('concurrency', () => {
+    it('should run at most `concurrency` jobs of a name at once', async () => {
+      const jobName = `limit-concurrency-test-${Date.now()}`;
+      const { stats, handler } = trackConcurrency(200);
+
+      queue.process(jobName, handler, { concurrency: 1 });
+      await queue.start();
+
+      const jobIds = await Promise.all([1, 2, 3].map(() => queue.add(jobName, {})));
+      await wait(1500);
+
+      assertEquals(stats.completed, 3);
+      assertEquals(stats.maxRunning, 1);
+
+      for (const jobId of jobIds) {
+        await queue.delete(jobId);
+      }
+    });
+
+    it('should share the limit across instances', async () => {
+      const jobName = `limit-shared-test-${Date.now()}`;
+      const tracked = trackConcurrency(200);
+
+      other = new JobQueue();
+      other.setPollInterval(100);
+      queue.process(jobName, tracked.handler, { concurrency: 1 });
+      other.process(jobName, tracked.handler, { concurrency: 1 });
+      await queue.start();
+      await other.start();
+
+      const jobIds = await Promise.all([1, 2, 3, 4].map(() => queue.add(jobName, {})));
+      await wait(2000);
+
+      assertEquals(tracked.stats.completed, 4);
+      assertEquals(tracked.stats.maxRunning, 1);
+
+      for (const jobId of jobIds) {
+        await queue.delete(jobId);
+      }
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should start at most `max` jobs per window', async () => {
+      const jobName = `limit-rate-test-${Date.now()}`;
+      const startedAt: number[] = [];
+
+      queue.process(jobName, () => {
+        startedAt.push(Date.now());
+        return Promise.resolve();
+      }, { rateLimit: { max: 2, perMs: 1000 } });
+      await queue.start();
+
+      const jobIds = await Promise.all([1, 2, 3, 4].map(() => queue.add(jobName, {})));
+      await wait(600);
+
+      assertEquals(startedAt.length, 2);
+
+      await wait(1000);
+      assertEquals(startedAt.length, 4);
+
+      for (const jobId of jobIds) {
+        await queue.delete(jobId);
+      }
+    });
+  });
+
+  describe('group keys', () => {
+    it('should apply limits per group', async () => {
+      const jobName = `limit-group-test-${Date.now()}`;
+      const running = new Map<string, number>();
+      const maxRunning = new Map<string, number>();
+      let overall = 0;
+      let maxOverall = 0;
+
+      queue.process<{ host: string }>(jobName, async (job) => {
+        const host = job.data.host;
+        running.set(host, (running.get(host) ?? 0) + 1);
+        maxRunning.set(host, Math.max(maxRunning.get(host) ?? 0, running.get(host)!));
+        overall++;
+        maxOverall = Math.max(maxOverall, overall);
+        await wait(200);
+        running.set(host, running.get(host)! - 1);
+        overall--;
+      }, { concurrency: 1, groupKey: (job) => job.data.host });
+      await queue.start();
+
+      const jobIds = await Promise.all(
+        ['a.example', 'a.example', 'b.example', 'b.example'].map((host) => queue.add(jobName, { host })),
+      );
+      await wait(1200);
+
+      assertEquals(maxRunning.get('a.example'), 1);
+      assertEquals(maxRunning.get('b.example'), 1);
+      assertEquals(maxOverall, 2); // Different groups run side by side
+
+      for (const jobId of jobIds) {
+        assertEquals((await queue.getJob(jobId))?.status, 'completed');
+        await queue.delete(jobId);
+      }
+    });
+  });
+
+  describe('claiming', () => {
+    it('should leave jobs without a local handler in the queue', async () => {
+      await queue.start();
+
+      const jobId = await queue.add(`limit-unhandled-test-${Date.now()}`, {});
+      await wait(400);
+
+      assertEquals((await queue.getJob(jobId))?.status, 'pending');
+
+      await queue.delete(jobId);
+    });
+  });
+  },
+});
@@ -0,0 +1,140 @@
+/**
+ * Test: Queue Progress, Logs and Results
+ *
+ * Verifies that handlers can report progress and log lines through their
+ * context and that their return value is stored on the job.
+ */
+
+import { assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { closeKv } from '../../../shared/lib/kv.ts';
+import { type JobProgress, JobQueue } from '../../../shared/lib/queue.ts';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('Queue Progress and Results', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn() {
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    queue = new JobQueue();
+    queue.setPollInterval(100);
+    await queue.init();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    // Add delay to ensure intervals are cleared
+    await wait(200);
+    await closeKv();
+  });
+
+  describe('results', () => {
+    it('should store the handler return value as result', async () => {
+      const jobName = `result-test-${Date.now()}`;
+
+      queue.process(jobName, () => Promise.resolve({ rows: 42 }));
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {});
+      await wait(500);
+
+      const job = await queue.getJob(jobId);
+      assertEquals(job?.status, 'completed');
+      assertEquals(job?.result, { rows: 42 });
+
+      await queue.delete(jobId);
+    });
+  });
+
+  describe('progress', () => {
+    it('should store progress while the job runs', async () => {
+      const jobName = `progress-test-${Date.now()}`;
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => release = resolve);
+
+      queue.process(jobName, async (_job, ctx) => {
+        await ctx.updateProgress(40, 'Halfway there');
+        await released;
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {});
+      await wait(400);
+
+      const running = await queue.getJob(jobId);
+      assertEquals(running?.status, 'running');
+      assertEquals(running?.progress?.percent, 40);
+      assertEquals(running?.progress?.message, 'Halfway there');
+
+      release();
+      await wait(300);
+
+      const completed = await queue.getJob(jobId);
+      assertEquals(completed?.status, 'completed');
+      assertEquals(completed?.progress?.percent, 100);
+
+      await queue.delete(jobId);
+    });
+
+    it('should keep the latest value when updates are throttled', async () => {
+      const jobName = `progress-throttle-test-${Date.now()}`;
+      let release!: () => void;
+      const released = new Promise<void>((resolve) => release = resolve);
+
+      queue.process(jobName, async (_job, ctx) => {
+        await ctx.updateProgress(10);
+        await ctx.updateProgress(20);
+        await ctx.updateProgress(150); // Clamped to 100
+        await ctx.updateProgress(30, 'Latest');
+        await released;
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {});
+      await wait(700);
+
+      const progress: JobProgress | undefined = (await queue.getJob(jobId))?.progress;
+      assertEquals(progress?.percent, 30);
+      assertEquals(progress?.message, 'Latest');
+
+      release();
+      await wait(300);
+      await queue.delete(jobId);
+    });
+  });
+
+  describe('logs', () => {
+    it('should store log lines per attempt', async () => {
+      const jobName = `logs-test-${Date.now()}`;
+
+      queue.process(jobName, async (job, ctx) => {
+        await ctx.log(`attempt ${job.attempts} started`);
+        if (job.attempts === 1) {
+          throw new Error('first attempt fails');
+        }
+        await ctx.log('done');
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {}, { maxRetries: 2 });
+      await wait(3000); // First retry is scheduled ~2s out
+
+      const logs = await queue.getJobLogs(jobId);
+      assertEquals(logs.map((entry) => [entry.attempt, entry.line]), [
+        [1, 'attempt 1 started'],
+        [2, 'attempt 2 started'],
+        [2, 'done'],
+      ]);
+      assertExists(logs[0]?.timestamp);
+
+      await queue.delete(jobId);
+      assertEquals((await queue.getJobLogs(jobId)).length, 0);
+    });
+  });
+  },
+});
@@ -0,0 +1,220 @@
+/**
+ * Test: Queue Timeouts, Cancellation and Heartbeats
+ *
+ * Verifies that handlers are aborted on timeout or cancellation and that
+ * jobs left running by a dead worker are returned to the queue.
+ */
+
+import { assertEquals, assertExists, assertInstanceOf, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { closeKv, getKv } from '../../../shared/lib/kv.ts';
+import { type Job, JobCancelledError, JobQueue, JobTimeoutError } from '../../../shared/lib/queue.ts';
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Resolve once the signal aborts (handlers that cooperate with cancellation)
+ */
+function untilAborted(signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => signal.addEventListener('abort', () => resolve(), { once: true }));
+}
+
+describe('Queue Timeouts and Cancellation', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn() {
+  let queue: JobQueue;
+
+  beforeEach(async () => {
+    queue = new JobQueue();
+    queue.setPollInterval(100);
+    await queue.init();
+  });
+
+  afterEach(async () => {
+    queue.stop();
+    // Add delay to ensure intervals are cleared
+    await wait(200);
+    await closeKv();
+  });
+
+  describe('timeouts', () => {
+    it('should abort the handler and fail the attempt after timeoutMs', async () => {
+      const jobName = `timeout-test-${Date.now()}`;
+      let abortReason: unknown;
+
+      queue.process(jobName, async (_job, { signal }) => {
+        await untilAborted(signal);
+        abortReason = signal.reason;
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {}, { timeoutMs: 100, maxRetries: 1 });
+      await wait(800);
+
+      const job = await queue.getJob(jobId);
+      assertExists(job);
+      assertEquals(job.status, 'failed');
+      assertEquals(job.error, 'Job timed out after 100ms');
+      assertInstanceOf(abortReason, JobTimeoutError);
+
+      await queue.delete(jobId);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should remove a scheduled job from the queue', async () => {
+      const jobName = `cancel-scheduled-test-${Date.now()}`;
+      let processed = false;
+
+      queue.process(jobName, () => {
+        processed = true;
+        return Promise.resolve();
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {}, { delay: 200 });
+      const cancelled = await queue.cancel(jobId);
+      assertEquals(cancelled.status, 'cancelled');
+      assertExists(cancelled.cancelledAt);
+
+      await wait(600);
+
+      assertEquals(processed, false);
+      assertEquals((await queue.getJob(jobId))?.status, 'cancelled');
+
+      await queue.delete(jobId);
+    });
+
+    it('should abort a running job and keep the cancelled status', async () => {
+      const jobName = `cancel-running-test-${Date.now()}`;
+      let started = false;
+      let abortReason: unknown;
+
+      queue.process(jobName, async (_job, { signal }) => {
+        started = true;
+        await untilAborted(signal);
+        abortReason = signal.reason;
+      });
+      await queue.start();
+
+      const jobId = await queue.add(jobName, {});
+      await wait(400);
+      assertEquals(started, true);
+      assertEquals((await queue.getJob(jobId))?.status, 'running');
+
+      await queue.cancel(jobId);
+      await wait(200);
+
+      assertInstanceOf(abortReason, JobCancelledError);
+      assertEquals((await queue.getJob(jobId))?.status, 'cancelled');
+
+      // Heartbeat entry is removed once the handler stops
+      const kv = await getKv();
+      assertEquals((await kv.get(['queue', 'running', jobId])).value, null);
+
+      await queue.delete(jobId);
+    });
+
+    it('should reject cancelling a finished job', async () => {
+      const jobId = await queue.add(`cancel-finished-test-${Date.now()}`, {});
+      await queue.cancel(jobId);
+
+      await assertRejects(() => queue.cancel(jobId), Error, 'cannot be cancelled');
+
+      await queue.delete(jobId);
+    });
+
+    it('should allow retrying a cancelled job', async () => {
+      const jobId = await queue.add(`cancel-retry-test-${Date.now()}`, {}, { delay: 60000 });
+      await queue.cancel(jobId);
+
+      await queue.retry(jobId);
+
+      assertEquals((await queue.getJob(jobId))?.status, 'pending');
+
+      await queue.delete(jobId);
+    });
+  });
+
+  describe('heartbeat reaper', () => {
+    /**
+     * Leave a job as a crashed worker would: running, with an old heartbeat
+     */
+    async function simulateCrashedWorker(jobId: string, heartbeatAt: number): Promise<void> {
+      const kv = await getKv();
+      const job = (await kv.get<Job>(['jobs', jobId])).value!;
+      const running: Job = { ...job, status: 'running', attempts: job.attempts + 1, processingBy: 'dead-worker' };
+
+      // Remove every queue entry for the job so only the reaper can recover it
+      for await (const entry of kv.list<string>({ prefix: ['queue'] })) {
+        if (entry.value === jobId) {
+          await kv.delete(entry.key);
+        }
+      }
+
+      await kv.atomic()
+        .set(['jobs', jobId], running)
+        .set(['jobs_by_name', job.name, jobId], running)
+        .set(['queue', 'running', jobId], { jobId, workerId: 'dead-worker', heartbeatAt })
+        .commit();
+    }
+
+    it('should return a job with an expired heartbeat to the ready queue', async () => {
+      queue.setHeartbeat(100, 500);
+      const jobName = `reaper-test-${Date.now()}`;
+      const jobId = await queue.add(jobName, {}, { delay: 60000 });
+      await simulateCrashedWorker(jobId, Date.now() - 1000);
+
+      const reaped = await queue.reapStalledJobs();
+      assertEquals(reaped >= 1, true);
+
+      const job = await queue.getJob(jobId);
+      assertEquals(job?.status, 'pending');
+      assertEquals(job?.error, 'Worker dead-worker stopped responding');
+
+      // Picked up again by a live worker
+      let processed = false;
+      queue.process(jobName, () => {
+        processed = true;
+        return Promise.resolve();
+      });
+      await queue.start();
+      await wait(400);
+
+      assertEquals(processed, true);
+      assertEquals((await queue.getJob(jobId))?.status, 'completed');
+
+      await queue.delete(jobId);
+    });
+
+    it('should leave jobs with a fresh heartbeat alone', async () => {
+      queue.setHeartbeat(100, 500);
+      const jobId = await queue.add(`reaper-fresh-test-${Date.now()}`, {}, { delay: 60000 });
+      await simulateCrashedWorker(jobId, Date.now());
+
+      await queue.reapStalledJobs();
+
+      assertEquals((await queue.getJob(jobId))?.status, 'running');
+
+      await queue.delete(jobId);
+    });
+
+    it('should fail a reaped job that has no attempts left', async () => {
+      queue.setHeartbeat(100, 500);
+      const jobId = await queue.add(`reaper-exhausted-test-${Date.now()}`, {}, { delay: 60000, maxRetries: 1 });
+      await simulateCrashedWorker(jobId, Date.now() - 1000);
+
+      await queue.reapStalledJobs();
+
+      const job = await queue.getJob(jobId);
+      assertEquals(job?.status, 'failed');
+      assertExists(job?.completedAt);
+
+      await queue.delete(jobId);
+    });
+  });
+  },
+});
@@ -0,0 +1,258 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * Rate Limiter Tests
+ *
+ * Tests the KV-backed sliding window limiter:
+ * - Per-identity buckets (IP, user, email)
+ * - Sliding window decay across window boundaries
+ * - Rule matching and response headers
+ *
+ * Focus: Limiting rules, not HTTP/framework wiring
+ */
+
+import { assert, assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  findRateLimitRules,
+  getIpNetwork,
+  getRateLimitHeaders,
+  RateLimiter,
+  type RateLimitRule,
+} from '../../shared/lib/rate-limit.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+
+const WINDOW_MS = 60_000;
+
+const ipRule: RateLimitRule = {
+  name: 'test-ip',
+  path: '/api/test',
+  methods: ['POST'],
+  keyBy: ['ip'],
+  max: 3,
+  windowMs: WINDOW_MS,
+};
+
+describe('RateLimiter', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let limiter: RateLimiter;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    limiter = new RateLimiter({ kv });
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  describe('business rule: requests beyond the limit are blocked', () => {
+    it('should allow up to max requests then block', async () => {
+      const now = 10 * WINDOW_MS; // Start of a window
+
+      for (let i = 0; i < 3; i++) {
+        const result = await limiter.check(ipRule, { ip: '1.2.3.4' }, now + i);
+        assertExists(result);
+        assertEquals(result.allowed, true);
+        assertEquals(result.remaining, 2 - i);
+      }
+
+      const blocked = await limiter.check(ipRule, { ip: '1.2.3.4' }, now + 10);
+      assertExists(blocked);
+      assertEquals(blocked.allowed, false);
+      assertEquals(blocked.remaining, 0);
+      assert(blocked.retryAfter > 0, 'Expected a positive retryAfter');
+    });
+
+    it('should count identities separately', async () => {
+      const now = 10 * WINDOW_MS;
+      for (let i = 0; i < 3; i++) {
+        await limiter.check(ipRule, { ip: '1.2.3.4' }, now);
+      }
+
+      const other = await limiter.check(ipRule, { ip: '5.6.7.8' }, now);
+      assertEquals(other?.allowed, true);
+    });
+  });
+
+  describe('business rule: sliding window decays previous usage', () => {
+    it('should still block right after the window boundary', async () => {
+      const start = 10 * WINDOW_MS;
+      for (let i = 0; i < 3; i++) {
+        await limiter.check(ipRule, { ip: '1.2.3.4' }, start);
+      }
+
+      // 10% into the next window, previous window still weighs 90%
+      const result = await limiter.check(ipRule, { ip: '1.2.3.4' }, start + WINDOW_MS + WINDOW_MS * 0.1);
+      assertEquals(result?.allowed, false);
+    });
+
+    it('should allow again once enough of the previous window has passed', async () => {
+      const start = 10 * WINDOW_MS;
+      for (let i = 0; i < 3; i++) {
+        await limiter.check(ipRule, { ip: '1.2.3.4' }, start);
+      }
+
+      // 70% into the next window: 3 * 0.3 = 0.9 estimated, one more fits
+      const result = await limiter.check(ipRule, { ip: '1.2.3.4' }, start + WINDOW_MS + WINDOW_MS * 0.7);
+      assertEquals(result?.allowed, true);
+    });
+  });
+
+  describe('business rule: identity keys', () => {
+    it('should skip email-keyed rules when no email is present', async () => {
+      const rule: RateLimitRule = { ...ipRule, name: 'test-email', keyBy: ['email'] };
+      const result = await limiter.check(rule, { ip: '1.2.3.4' });
+      assertEquals(result, null);
+    });
+
+    it('should treat email case-insensitively', async () => {
+      const rule: RateLimitRule = { ...ipRule, name: 'test-email', keyBy: ['email'], max: 1 };
+      const now = 10 * WINDOW_MS;
+
+      await limiter.check(rule, { ip: '1.1.1.1', email: 'User@Example.com' }, now);
+      const result = await limiter.check(rule, { ip: '2.2.2.2', email: 'user@example.com' }, now);
+      assertEquals(result?.allowed, false);
+    });
+
+    it('should fall back to IP for user-keyed rules when anonymous', async () => {
+      const rule: RateLimitRule = { ...ipRule, name: 'test-user', keyBy: ['user'], max: 1 };
+      const now = 10 * WINDOW_MS;
+
+      await limiter.check(rule, { ip: '1.2.3.4' }, now);
+      const anonymous = await limiter.check(rule, { ip: '1.2.3.4' }, now);
+      const authenticated = await limiter.check(rule, { ip: '1.2.3.4', userId: 'user-1' }, now);
+
+      assertEquals(anonymous?.allowed, false);
+      assertEquals(authenticated?.allowed, true);
+    });
+
+    it('should clear buckets on reset', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 3; i++) {
+        await limiter.check(ipRule, { ip: '1.2.3.4' }, now);
+      }
+
+      await limiter.reset(ipRule, { ip: '1.2.3.4' });
+
+      const result = await limiter.check(ipRule, { ip: '1.2.3.4' }, now);
+      assertEquals(result?.allowed, true);
+    });
+  });
+
+  describe('checkAll', () => {
+    it('should return the blocking rule when any rule denies', async () => {
+      const strict: RateLimitRule = { ...ipRule, name: 'strict', max: 1 };
+      const loose: RateLimitRule = { ...ipRule, name: 'loose', max: 100 };
+      const now = 10 * WINDOW_MS;
+
+      await limiter.checkAll([loose, strict], { ip: '1.2.3.4' }, now);
+      const result = await limiter.checkAll([loose, strict], { ip: '1.2.3.4' }, now);
+
+      assertEquals(result?.allowed, false);
+      assertEquals(result?.rule, 'strict');
+    });
+
+    it('should report the tightest remaining budget when allowed', async () => {
+      const strict: RateLimitRule = { ...ipRule, name: 'strict', max: 5 };
+      const loose: RateLimitRule = { ...ipRule, name: 'loose', max: 100 };
+
+      const result = await limiter.checkAll([loose, strict], { ip: '1.2.3.4' });
+
+      assertEquals(result?.rule, 'strict');
+      assertEquals(result?.remaining, 4);
+    });
+
+    it('should not count a blocked request against the other rules', async () => {
+      const strict: RateLimitRule = { ...ipRule, name: 'strict', max: 1 };
+      const loose: RateLimitRule = { ...ipRule, name: 'loose', max: 3 };
+      const now = 10 * WINDOW_MS;
+
+      await limiter.checkAll([loose, strict], { ip: '1.2.3.4' }, now);
+      for (let i = 0; i < 5; i++) {
+        await limiter.checkAll([loose, strict], { ip: '1.2.3.4' }, now);
+      }
+      const result = await limiter.check(loose, { ip: '1.2.3.4' }, now);
+
+      assertEquals(result?.allowed, true);
+      assertEquals(result?.remaining, 1);
+    });
+  });
+
+  describe('business rule: failed logins cannot lock out an account', () => {
+    it('should limit login attempts per account from each IP separately', async () => {
+      const rules = findRateLimitRules('POST', '/api/auth/login');
+      const now = 10 * WINDOW_MS;
+
+      let attacker = null;
+      for (let i = 0; i < 11; i++) {
+        attacker = await limiter.checkAll(rules, { ip: '6.6.6.6', email: 'victim@example.com' }, now);
+      }
+      const victim = await limiter.checkAll(rules, { ip: '1.2.3.4', email: 'victim@example.com' }, now);
+
+      assertEquals(attacker?.allowed, false);
+      assertEquals(attacker?.rule, 'login-account');
+      assertEquals(victim?.allowed, true);
+    });
+  });
+});
+
+describe('findRateLimitRules', () => {
+  it('should match login rules for POST /api/auth/login', () => {
+    const names = findRateLimitRules('POST', '/api/auth/login').map((r) => r.name);
+    assert(names.includes('login-ip'));
+    assert(names.includes('login-account'));
+  });
+
+  it('should not match exact-path rules on sub-paths', () => {
+    const names = findRateLimitRules('POST', '/api/auth/login/2fa').map((r) => r.name);
+    assert(!names.includes('login-ip'));
+    assert(names.includes('login-2fa'));
+  });
+
+  it('should exclude the WebSocket endpoint', () => {
+    assertEquals(findRateLimitRules('GET', '/api/notifications/ws'), []);
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('should include Retry-After only when blocked', () => {
+    const base = {
+      limit: 5,
+      remaining: 0,
+      resetIn: 30,
+      retryAfter: 12,
+      rule: 'test',
+      windowMs: WINDOW_MS,
+    };
+
+    const allowed = getRateLimitHeaders({ ...base, allowed: true });
+    const blocked = getRateLimitHeaders({ ...base, allowed: false });
+
+    assertEquals(allowed['RateLimit-Limit'], '5');
+    assertEquals(allowed['RateLimit-Policy'], '5;w=60');
+    assertEquals(allowed['Retry-After'], undefined);
+    assertEquals(blocked['Retry-After'], '12');
+  });
+});
+
+describe('getIpNetwork', () => {
+  it('should group IPv4 addresses by /24', () => {
+    assertEquals(getIpNetwork('203.0.113.7'), '203.0.113.0/24');
+    assertEquals(getIpNetwork('::ffff:203.0.113.7'), '203.0.113.0/24');
+  });
+
+  it('should group IPv6 addresses by /48', () => {
+    assertEquals(getIpNetwork('2001:db8:abcd:12::1'), '2001:db8:abcd::/48');
+    assertEquals(getIpNetwork('2001:db8::1'), '2001:db8:0::/48');
+  });
+
+  it('should return null for unknown addresses', () => {
+    assertEquals(getIpNetwork(null), null);
+    assertEquals(getIpNetwork('unknown'), null);
+    assertEquals(getIpNetwork('not-an-ip'), null);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Tests for CronParser
+ */
+
+import { assertEquals, assertThrows } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import { CronParser } from '../../../shared/lib/scheduler.ts';
+
+function nextRun(cron: string, from: string, timezone?: string): string {
+  return CronParser.getNextRun(cron, new Date(from), timezone).toISOString();
+}
+
+describe('CronParser', () => {
+  describe('syntax', () => {
+    it('should handle steps, stepped ranges and lists', () => {
+      assertEquals(nextRun('*/15 * * * *', '2026-10-19T10:07:00Z'), '2026-10-19T10:15:00.000Z');
+      assertEquals(nextRun('1-30/5 * * * *', '2026-10-19T10:07:00Z'), '2026-10-19T10:11:00.000Z');
+      assertEquals(nextRun('1-30/5 * * * *', '2026-10-19T10:27:00Z'), '2026-10-19T11:01:00.000Z');
+      assertEquals(nextRun('10/20 * * * *', '2026-10-19T10:31:00Z'), '2026-10-19T10:50:00.000Z');
+      assertEquals(nextRun('0 0 1,15-16 * *', '2026-10-02T00:00:00Z'), '2026-10-15T00:00:00.000Z');
+    });
+
+    it('should accept month and weekday names', () => {
+      // 2026-10-17 is a Saturday
+      assertEquals(nextRun('0 9 * * MON-FRI', '2026-10-17T12:00:00Z'), '2026-10-19T09:00:00.000Z');
+      assertEquals(nextRun('0 0 1 jan *', '2026-10-17T12:00:00Z'), '2027-01-01T00:00:00.000Z');
+      assertEquals(nextRun('0 0 * * 7', '2026-10-17T12:00:00Z'), '2026-10-18T00:00:00.000Z');
+    });
+
+    it('should expand macros', () => {
+      assertEquals(nextRun('@daily', '2026-10-19T10:00:00Z'), '2026-10-20T00:00:00.000Z');
+      assertEquals(nextRun('@hourly', '2026-10-19T10:00:00Z'), '2026-10-19T11:00:00.000Z');
+      assertEquals(nextRun('@monthly', '2026-10-19T10:00:00Z'), '2026-11-01T00:00:00.000Z');
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 2026-10-02 is a Friday, before the 13th
+      assertEquals(nextRun('0 0 13 * FRI', '2026-10-01T12:00:00Z'), '2026-10-02T00:00:00.000Z');
+    });
+
+    it('should support L, W and # modifiers', () => {
+      assertEquals(nextRun('0 0 L * *', '2026-02-10T00:00:00Z'), '2026-02-28T00:00:00.000Z');
+      // 2026-10-31 is a Saturday
+      assertEquals(nextRun('0 0 LW * *', '2026-10-10T00:00:00Z'), '2026-10-30T00:00:00.000Z');
+      // 2026-11-15 is a Sunday
+      assertEquals(nextRun('0 0 15W * *', '2026-11-01T00:00:00Z'), '2026-11-16T00:00:00.000Z');
+      assertEquals(nextRun('0 0 * * 5L', '2026-10-01T00:00:00Z'), '2026-10-30T00:00:00.000Z');
+      assertEquals(nextRun('0 0 * * MON#2', '2026-10-01T00:00:00Z'), '2026-10-12T00:00:00.000Z');
+    });
+
+    it('should find rare dates without scanning minute by minute', () => {
+      assertEquals(nextRun('0 0 29 2 *', '2026-10-19T00:00:00Z'), '2028-02-29T00:00:00.000Z');
+    });
+
+    it('should reject invalid expressions', () => {
+      assertThrows(() => CronParser.validate('* * * *'), Error, 'Invalid cron expression');
+      assertThrows(() => CronParser.validate('61 * * * *'), Error, 'Invalid cron value');
+      assertThrows(() => CronParser.validate('0 0 * * FOO'), Error, 'Invalid cron value');
+      assertThrows(() => CronParser.validate('0 17-9 * * *'), Error, 'Invalid cron range');
+      assertThrows(() => CronParser.validate('0 0 30 2 *'), Error, 'never matches');
+    });
+  });
+
+  describe('timezones', () => {
+    it('should run at wall-clock time in the schedule timezone', () => {
+      // New York is UTC-4 in October
+      assertEquals(nextRun('0 9 * * *', '2026-10-19T00:00:00Z', 'America/New_York'), '2026-10-19T13:00:00.000Z');
+      assertEquals(nextRun('0 9 * * *', '2026-10-19T00:00:00Z', 'Asia/Kolkata'), '2026-10-19T03:30:00.000Z');
+    });
+
+    it('should reject unknown timezones', () => {
+      assertThrows(() => CronParser.validate('* * * * *', 'Mars/Olympus_Mons'), Error, 'Invalid timezone');
+    });
+
+    it('should run times skipped by spring forward after the jump', () => {
+      // 2026-03-08 02:00 EST jumps to 03:00 EDT
+      assertEquals(nextRun('30 2 * * *', '2026-03-07T12:00:00Z', 'America/New_York'), '2026-03-08T07:30:00.000Z');
+      assertEquals(nextRun('30 2 * * *', '2026-03-08T07:30:00Z', 'America/New_York'), '2026-03-09T06:30:00.000Z');
+    });
+
+    it('should run fixed times once when clocks go back', () => {
+      // 2026-11-01 02:00 EDT goes back to 01:00 EST
+      const first = nextRun('30 1 * * *', '2026-10-31T12:00:00Z', 'America/New_York');
+      assertEquals(first, '2026-11-01T05:30:00.000Z');
+      assertEquals(nextRun('30 1 * * *', first, 'America/New_York'), '2026-11-02T06:30:00.000Z');
+    });
+
+    it('should keep hourly schedules running through the repeated hour', () => {
+      const runs = ['2026-11-01T04:30:00Z'];
+      for (let i = 0; i < 3; i++) {
+        runs.push(nextRun('0 * * * *', runs[runs.length - 1]!, 'America/New_York'));
+      }
+
+      assertEquals(runs.slice(1), [
+        '2026-11-01T05:00:00.000Z', // 01:00 EDT
+        '2026-11-01T06:00:00.000Z', // 01:00 EST
+        '2026-11-01T07:00:00.000Z', // 02:00 EST
+      ]);
+    });
+  });
+});
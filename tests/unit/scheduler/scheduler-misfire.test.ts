@@ -0,0 +1,215 @@
+/**
+ * Tests for Job Scheduler Misfire Policies and Run History
+ *
+ * Simulates downtime by seeding a last run hours in the past, then starts
+ * the scheduler and checks how many missed ticks it catches up on.
+ */
+
+/// <reference lib="deno.unstable" />
+
+import { assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  JobScheduler,
+  type MisfirePolicy,
+  type PersistedScheduleData,
+  type ScheduleRun,
+} from '../../../shared/lib/scheduler.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Top of the hour `hours` hours ago
+ */
+function hoursAgo(hours: number): Date {
+  const date = new Date(Date.now() - hours * HOUR_MS);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+describe('JobScheduler Misfires', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let scheduler: JobScheduler;
+  let runs: number;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    scheduler = new JobScheduler();
+    runs = 0;
+
+    // Inject the test KV instance into the scheduler
+    (scheduler as unknown as { kv: Deno.Kv }).kv = kv;
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await wait(50);
+    (scheduler as unknown as { kv: Deno.Kv | null }).kv = null;
+    await cleanup();
+  });
+
+  /**
+   * Persist an hourly schedule that last ran 3 hours ago (3 missed ticks)
+   */
+  async function seedStaleSchedule(misfirePolicy: MisfirePolicy, maxCatchUp?: number): Promise<void> {
+    const lastRun = hoursAgo(3);
+    const data: PersistedScheduleData = {
+      name: 'nightly-report',
+      cron: '0 * * * *',
+      jobName: 'generate-report',
+      jobData: {},
+      timezone: 'UTC',
+      enabled: true,
+      misfirePolicy,
+      ...(maxCatchUp && { maxCatchUp }),
+      lastRun: lastRun.toISOString(),
+      nextRun: new Date(lastRun.getTime() + HOUR_MS).toISOString(),
+      runCount: 10,
+    };
+    await kv.set(['schedules', data.name], data);
+  }
+
+  /**
+   * Seed a stale schedule and load it, counting runs
+   */
+  async function loadStaleSchedule(misfirePolicy: MisfirePolicy, maxCatchUp?: number): Promise<void> {
+    await seedStaleSchedule(misfirePolicy, maxCatchUp);
+    await scheduler.loadSchedules(() => () => {
+      runs++;
+      return Promise.resolve();
+    });
+  }
+
+  describe('misfire policies', () => {
+    it('should skip missed ticks with skip', async () => {
+      await loadStaleSchedule('skip');
+
+      scheduler.start();
+      await wait(300);
+
+      assertEquals(runs, 0);
+      assertEquals(scheduler.getSchedule('nightly-report')!.nextRun! > new Date(), true);
+    });
+
+    it('should run once to catch up with run-once', async () => {
+      await loadStaleSchedule('run-once');
+
+      scheduler.start();
+      await wait(1500);
+
+      assertEquals(runs, 1);
+      assertEquals(scheduler.getSchedule('nightly-report')!.nextRun! > new Date(), true);
+
+      const [run] = await scheduler.getRunHistory('nightly-report');
+      assertEquals(run?.trigger, 'catch-up');
+      assertEquals(run?.scheduledFor, hoursAgo(2).toISOString());
+    });
+
+    it('should run missed ticks up to maxCatchUp with run-all', async () => {
+      await loadStaleSchedule('run-all', 2);
+
+      scheduler.start();
+      await wait(2500);
+
+      assertEquals(runs, 2);
+      assertEquals(scheduler.getSchedule('nightly-report')!.nextRun! > new Date(), true);
+
+      const history = await scheduler.getRunHistory('nightly-report');
+      assertEquals(history.map((run) => run.scheduledFor), [hoursAgo(1), hoursAgo(2)].map((d) => d.toISOString()));
+    });
+
+    it('should carry on catching up with run-all after a restart', async () => {
+      // First instance stops (restarts) right after the first catch-up run
+      const first = scheduler;
+      await seedStaleSchedule('run-all');
+      await first.loadSchedules(() => () => {
+        runs++;
+        first.stop();
+        return Promise.resolve();
+      });
+      first.start();
+      await wait(500);
+      assertEquals(runs, 1);
+
+      scheduler = new JobScheduler();
+      (scheduler as unknown as { kv: Deno.Kv }).kv = kv;
+      await scheduler.loadSchedules(() => () => {
+        runs++;
+        return Promise.resolve();
+      });
+      scheduler.start();
+      await wait(2500);
+
+      const history = await scheduler.getRunHistory('nightly-report');
+      assertEquals(
+        history.map((run) => run.scheduledFor),
+        [hoursAgo(0), hoursAgo(1), hoursAgo(2)].map((d) => d.toISOString()),
+      );
+    });
+
+    it('should use the run history for schedules registered in code', async () => {
+      const previous: ScheduleRun = {
+        id: 'previous-run',
+        scheduleName: 'cleanup',
+        trigger: 'schedule',
+        scheduledFor: hoursAgo(3).toISOString(),
+        startedAt: hoursAgo(3).toISOString(),
+        finishedAt: hoursAgo(3).toISOString(),
+        status: 'completed',
+        instanceId: 'old-instance',
+      };
+      await kv.set(['schedule_runs', 'cleanup', hoursAgo(3).getTime(), previous.id], previous);
+
+      scheduler.schedule('cleanup', '0 * * * *', () => {
+        runs++;
+        return Promise.resolve();
+      });
+
+      scheduler.start();
+      await wait(1500);
+
+      assertEquals(runs, 1);
+    });
+  });
+
+  describe('run history', () => {
+    it('should record status and errors, newest first', async () => {
+      let fail = false;
+      scheduler.schedule('history-test', '0 0 1 1 *', () => {
+        return fail ? Promise.reject(new Error('disk full')) : Promise.resolve();
+      });
+
+      await scheduler.trigger('history-test');
+      await wait(5);
+      fail = true;
+      await scheduler.trigger('history-test');
+
+      const [latest, first] = await scheduler.getRunHistory('history-test');
+      assertExists(latest);
+      assertEquals(latest.status, 'failed');
+      assertEquals(latest.error, 'disk full');
+      assertEquals(latest.trigger, 'manual');
+      assertExists(latest.finishedAt);
+      assertEquals(first?.status, 'completed');
+    });
+
+    it('should keep only the most recent runs', async () => {
+      scheduler.schedule('bounded-test', '0 0 1 1 *', () => Promise.resolve());
+
+      for (let i = 0; i < 55; i++) {
+        await scheduler.trigger('bounded-test');
+      }
+
+      const history = await scheduler.getRunHistory('bounded-test', 100);
+      assertEquals(history.length, 50);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * AuditLogService Tests
+ *
+ * Tests the security audit log including:
+ * - Recording entries (never throwing)
+ * - Newest-first queries by actor, target, action and time range
+ * - Cursor pagination
+ * - Retention cleanup (entries and indexes)
+ * - CSV export escaping
+ */
+
+import { assertEquals } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { FakeTime } from '@std/testing/time';
+import { AuditLogRepository } from '../../../shared/repositories/index.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+describe('AuditLogService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let time: FakeTime;
+  let service: AuditLogService;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    time = new FakeTime(new Date('2026-01-01T00:00:00Z'));
+    service = new AuditLogService(new AuditLogRepository({ kv }));
+  });
+
+  afterEach(async () => {
+    time.restore();
+    await cleanup();
+  });
+
+  // Record entries one second apart so their order is deterministic
+  async function seed(): Promise<void> {
+    await service.record('auth.login', { actorId: 'alice', targetId: 'alice' });
+    time.tick(1000);
+    await service.record('user.role_changed', { actorId: 'admin', targetId: 'bob', metadata: { from: 'user', to: 'admin' } });
+    time.tick(1000);
+    await service.record('auth.login_failed', { metadata: { email: 'nobody@example.com', reason: 'unknown_email' } });
+    time.tick(1000);
+    await service.record('user.deleted', { actorId: 'admin', targetId: 'alice' });
+  }
+
+  describe('record and list', () => {
+    it('should list entries newest first', async () => {
+      await seed();
+
+      const { items, hasMore } = await service.list();
+
+      assertEquals(items.map((entry) => entry.action), [
+        'user.deleted',
+        'auth.login_failed',
+        'user.role_changed',
+        'auth.login',
+      ]);
+      assertEquals(hasMore, false);
+      assertEquals(items[2].metadata, { from: 'user', to: 'admin' });
+      assertEquals(items[1].actorId, null);
+    });
+
+    it('should filter by actor, target and action', async () => {
+      await seed();
+
+      const byActor = await service.list({ actorId: 'admin' });
+      assertEquals(byActor.items.map((entry) => entry.action), ['user.deleted', 'user.role_changed']);
+
+      const byTarget = await service.list({ targetId: 'alice' });
+      assertEquals(byTarget.items.map((entry) => entry.action), ['user.deleted', 'auth.login']);
+
+      const byAction = await service.list({ action: 'auth.login_failed' });
+      assertEquals(byAction.items.length, 1);
+
+      const combined = await service.list({ actorId: 'admin', targetId: 'alice' });
+      assertEquals(combined.items.map((entry) => entry.action), ['user.deleted']);
+    });
+
+    it('should filter by time range (inclusive)', async () => {
+      await seed();
+
+      const { items } = await service.list({
+        from: '2026-01-01T00:00:01.000Z',
+        to: '2026-01-01T00:00:02.000Z',
+      });
+
+      assertEquals(items.map((entry) => entry.action), ['auth.login_failed', 'user.role_changed']);
+    });
+
+    it('should page with a cursor', async () => {
+      await seed();
+
+      const first = await service.list({}, { limit: 3 });
+      assertEquals(first.items.length, 3);
+      assertEquals(first.hasMore, true);
+
+      const second = await service.list({}, { limit: 3, cursor: first.cursor! });
+      assertEquals(second.items.map((entry) => entry.action), ['auth.login']);
+    });
+
+    it('should not throw when the write fails', async () => {
+      const closed = await setupTestKv();
+      await closed.cleanup();
+
+      await new AuditLogService(new AuditLogRepository({ kv: closed.kv })).record('auth.logout', { actorId: 'alice' });
+    });
+  });
+
+  describe('cleanup', () => {
+    it('should delete entries past retention along with their indexes', async () => {
+      await seed();
+
+      const deleted = await service.cleanup(1500);
+
+      assertEquals(deleted, 2);
+      assertEquals((await service.list()).items.map((entry) => entry.action), ['user.deleted', 'auth.login_failed']);
+      assertEquals((await service.list({ actorId: 'alice' })).items.length, 0);
+
+      const orphans = [];
+      for await (const entry of kv.list({ prefix: ['audit_log_by_target', 'bob'] })) {
+        orphans.push(entry);
+      }
+      assertEquals(orphans.length, 0);
+    });
+  });
+
+  describe('exportCsv', () => {
+    it('should export a header row and one row per entry', async () => {
+      await seed();
+
+      const lines = (await service.exportCsv({ actorId: 'admin' })).trimEnd().split('\r\n');
+
+      assertEquals(lines[0], 'timestamp,action,actorId,targetId,ipAddress,userAgent,metadata');
+      assertEquals(lines.length, 3);
+      assertEquals(lines[1], '2026-01-01T00:00:03.000Z,user.deleted,admin,alice,,,{}');
+    });
+
+    it('should quote special characters and defuse formulas', async () => {
+      await service.record('auth.login', {
+        actorId: 'alice',
+        userAgent: '=HYPERLINK("http://evil.example")',
+        metadata: { note: 'a,b' },
+      });
+
+      const row = (await service.exportCsv()).split('\r\n')[1];
+
+      assertEquals(
+        row,
+        `2026-01-01T00:00:00.000Z,auth.login,alice,,,"'=HYPERLINK(""http://evil.example"")","{""note"":""a,b""}"`,
+      );
+    });
+  });
+});
@@ -5,6 +5,10 @@
  *
  * Tests business logic for authentication operations including:
  * - Login/logout with validation
+ * - Account lockout and new device alerts
+ * - Audit logging of sign-in events
+ * - Two-factor login challenge (TOTP and passkey)
+ * - Passwordless passkey login
  * - Signup with duplicate prevention
  * - Email verification
  * - Password reset
@@ -13,20 +17,50 @@
  * Focus: Business rules, not HTTP/framework logic
  */
 
-import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { AppError, AuthenticationError, ConflictError, NotFoundError } from '../../../frontend/lib/errors.ts';
 import { hashPassword } from '../../../shared/lib/password.ts';
-import { TokenRepository, UserRepository } from '../../../shared/repositories/index.ts';
-import { AuthService } from '../../../shared/services/auth.service.ts';
+import { generateSecret, generateTOTP } from '../../../shared/lib/totp.ts';
+import {
+  AuditLogRepository,
+  LoginSecurityRepository,
+  NotificationRepository,
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from '../../../shared/repositories/index.ts';
+import {
+  AuthService,
+  type LoginOutcome,
+  type LoginResult,
+} from '../../../shared/services/auth.service.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
+import { WebAuthnService } from '../../../shared/services/WebAuthnService.ts';
+import { AuthenticationCredentialSchema, RegistrationCredentialSchema } from '../../../shared/types/webauthn.ts';
+import { webauthnFixtures } from '../../fixtures/webauthn.ts';
 import { setupTestKv } from '../../helpers/kv-test.ts';
 
+/**
+ * Narrow a login outcome to a full session (fails if a 2FA challenge was issued)
+ */
+function expectSession(outcome: LoginOutcome): LoginResult {
+  if (outcome.requiresTwoFactor) {
+    throw new Error('Expected session tokens but got a two-factor challenge');
+  }
+  return outcome;
+}
+
 describe('AuthService', () => {
   let kv: Deno.Kv;
   let cleanup: () => Promise<void>;
   let authService: AuthService;
   let userRepo: UserRepository;
   let tokenRepo: TokenRepository;
+  let loginSecurityRepo: LoginSecurityRepository;
+  let notificationRepo: NotificationRepository;
+  let auditLog: AuditLogService;
+  let credentialRepo: WebAuthnCredentialRepository;
   let originalJwtSecret: string | undefined;
 
   beforeEach(async () => {
@@ -35,7 +69,18 @@ describe('AuthService', () => {
     cleanup = setup.cleanup;
     userRepo = new UserRepository({ kv });
     tokenRepo = new TokenRepository({ kv });
-    authService = new AuthService(userRepo, tokenRepo);
+    loginSecurityRepo = new LoginSecurityRepository({ kv });
+    notificationRepo = new NotificationRepository({ kv });
+    auditLog = new AuditLogService(new AuditLogRepository({ kv }));
+    credentialRepo = new WebAuthnCredentialRepository({ kv });
+    authService = new AuthService(
+      userRepo,
+      tokenRepo,
+      loginSecurityRepo,
+      notificationRepo,
+      auditLog,
+      credentialRepo,
+    );
     
     // Setup JWT environment variables
     originalJwtSecret = Deno.env.get('JWT_SECRET');
@@ -103,7 +148,7 @@ describe('AuthService', () => {
       });
 
       // Act
-      const result = await authService.login('test@example.com', password);
+      const result = expectSession(await authService.login('test@example.com', password));
 
       // Assert: Business logic - tokens generated and user data returned
       assertExists(result.accessToken);
@@ -114,6 +159,233 @@ describe('AuthService', () => {
     });
   });
 
+  describe('business rule: repeated failed logins lock the account', () => {
+    async function createLockoutUser(email: string) {
+      const password = 'correctPassword123';
+      const user = await userRepo.create({
+        email,
+        password: await hashPassword(password),
+        name: 'Lockout User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      return { user, password };
+    }
+
+    async function failLogins(email: string, count: number) {
+      for (let i = 0; i < count; i++) {
+        await assertRejects(() => authService.login(email, 'wrongPassword'), AuthenticationError);
+      }
+    }
+
+    it('should lock the account after too many wrong passwords', async () => {
+      // Arrange
+      const { user, password } = await createLockoutUser('locked@example.com');
+      await failLogins(user.email, 4);
+
+      // Act: The fifth failure locks the account
+      const error = await assertRejects(() => authService.login(user.email, 'wrongPassword'), AuthenticationError);
+
+      // Assert: Business rule - even the right password is refused while locked
+      assertEquals((error as AuthenticationError).code, 'INVALID_CREDENTIALS');
+      const locked = await assertRejects(() => authService.login(user.email, password), AuthenticationError);
+      assertEquals((locked as AuthenticationError).code, 'ACCOUNT_LOCKED');
+      assertEquals((locked as AuthenticationError).statusCode, 423);
+      assertExists((locked as AuthenticationError).context?.['lockedUntil']);
+    });
+
+    it('should not reveal the lockout to someone without the password', async () => {
+      // Arrange
+      const { user } = await createLockoutUser('locked-quiet@example.com');
+      await failLogins(user.email, 5);
+      const before = (await loginSecurityRepo.getLoginAttempts(user.id))!;
+
+      // Act
+      const guess = await assertRejects(() => authService.login(user.email, 'wrongPassword'), AuthenticationError);
+      const unknown = await assertRejects(() => authService.login('nobody@example.com', 'wrongPassword'), AuthenticationError);
+
+      // Assert: Business rule - a locked account answers a wrong password like an unknown email
+      assertEquals((guess as AuthenticationError).code, 'INVALID_CREDENTIALS');
+      assertEquals((guess as AuthenticationError).statusCode, (unknown as AuthenticationError).statusCode);
+      assertEquals((guess as AuthenticationError).context, (unknown as AuthenticationError).context);
+      assertEquals(await loginSecurityRepo.getLoginAttempts(user.id), before);
+    });
+
+    it('should double the lockout each time the account is locked again', async () => {
+      // Arrange: First lockout, then let it lapse
+      const { user } = await createLockoutUser('progressive@example.com');
+      await failLogins(user.email, 5);
+      const first = (await loginSecurityRepo.getLoginAttempts(user.id))!;
+      const firstMs = new Date(first.lockedUntil!).getTime() - new Date(first.lastFailedAt).getTime();
+      await kv.set(['login_attempts', user.id], { ...first, lockedUntil: new Date(Date.now() - 1000).toISOString() });
+
+      // Act
+      await failLogins(user.email, 5);
+
+      // Assert: Business rule - the second lockout lasts twice as long
+      const second = (await loginSecurityRepo.getLoginAttempts(user.id))!;
+      const secondMs = new Date(second.lockedUntil!).getTime() - new Date(second.lastFailedAt).getTime();
+      assertEquals(second.lockouts, 2);
+      assertEquals(secondMs, firstMs * 2);
+    });
+
+    it('should reset the failure count after a successful login', async () => {
+      // Arrange
+      const { user, password } = await createLockoutUser('reset-count@example.com');
+      await failLogins(user.email, 4);
+
+      // Act
+      expectSession(await authService.login(user.email, password));
+      await failLogins(user.email, 4);
+
+      // Assert: Business rule - failures before the success no longer count
+      assertExists(expectSession(await authService.login(user.email, password)).accessToken);
+    });
+
+    it('should unlock the account with the emailed unlock token', async () => {
+      // Arrange
+      const { user, password } = await createLockoutUser('unlock@example.com');
+      await failLogins(user.email, 5);
+
+      let unlockToken: string | undefined;
+      for await (const entry of kv.list<{ userId: string }>({ prefix: ['account_unlock'] })) {
+        if (entry.value.userId === user.id) unlockToken = entry.key[1] as string;
+      }
+      assertExists(unlockToken);
+
+      // Act
+      await authService.unlockAccount(unlockToken);
+
+      // Assert: Business logic - login works again and the token is single use
+      assertExists(expectSession(await authService.login(user.email, password)).accessToken);
+      await assertRejects(() => authService.unlockAccount(unlockToken!), AppError, 'Invalid or expired unlock link');
+    });
+  });
+
+  describe('business rule: sign-in events are audited', () => {
+    async function createAuditUser() {
+      const password = 'correctPassword123';
+      const user = await userRepo.create({
+        email: 'audited@example.com',
+        password: await hashPassword(password),
+        name: 'Audited User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      return { user, password };
+    }
+
+    it('should record a successful login with its session', async () => {
+      // Arrange
+      const { user, password } = await createAuditUser();
+
+      // Act
+      await authService.login(user.email, password, { ipAddress: '203.0.113.7', userAgent: 'Test Browser' });
+
+      // Assert
+      const { items } = await auditLog.list({ action: 'auth.login' });
+      assertEquals(items.length, 1);
+      assertEquals(items[0].actorId, user.id);
+      assertEquals(items[0].ipAddress, '203.0.113.7');
+      assertExists(items[0].metadata['sessionId']);
+      assertEquals(items[0].metadata['method'], 'password');
+      assertEquals(items[0].metadata['secondFactor'], null);
+    });
+
+    it('should record failed logins and the resulting lockout', async () => {
+      // Arrange
+      const { user } = await createAuditUser();
+
+      // Act
+      await assertRejects(() => authService.login('unknown@example.com', 'password'), AuthenticationError);
+      for (let i = 0; i < 5; i++) {
+        await assertRejects(() => authService.login(user.email, 'wrongPassword'), AuthenticationError);
+      }
+
+      // Assert: Business rule - unknown emails are recorded without a target
+      const failed = await auditLog.list({ action: 'auth.login_failed' });
+      assertEquals(failed.items.length, 6);
+      const unknown = failed.items.find((entry) => entry.metadata['reason'] === 'unknown_email');
+      assertEquals(unknown?.targetId, null);
+      assertEquals(unknown?.metadata['email'], 'unknown@example.com');
+      assertEquals((await auditLog.list({ targetId: user.id, action: 'auth.account_locked' })).items.length, 1);
+    });
+  });
+
+  describe('business rule: sign-ins from new devices raise a warning', () => {
+    const chromeOnMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 ' +
+      '(KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+    const firefoxOnWindows = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:131.0) Gecko/20100101 Firefox/131.0';
+
+    async function createDeviceUser(email: string) {
+      const password = 'password123';
+      const user = await userRepo.create({
+        email,
+        password: await hashPassword(password),
+        name: 'Device User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      return { user, password };
+    }
+
+    it('should not warn on the first recorded sign-in or a known device', async () => {
+      // Arrange
+      const { user, password } = await createDeviceUser('first-device@example.com');
+
+      // Act: Same device and network twice (different address in the same /24)
+      await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.7' });
+      await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.99' });
+
+      // Assert
+      const { items } = await notificationRepo.listUserNotifications(user.id);
+      assertEquals(items.length, 0);
+    });
+
+    it('should warn when signing in from a new device', async () => {
+      // Arrange
+      const { user, password } = await createDeviceUser('new-device@example.com');
+      await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.7' });
+
+      // Act
+      await authService.login(user.email, password, { userAgent: firefoxOnWindows, ipAddress: '203.0.113.7' });
+
+      // Assert
+      const { items } = await notificationRepo.listUserNotifications(user.id);
+      assertEquals(items.length, 1);
+      assertEquals(items[0]?.type, 'warning');
+      assertEquals(items[0]?.title, 'New device signed in');
+      assert(items[0]?.message.includes('Firefox on Windows'));
+    });
+
+    it('should warn when a known device signs in from a new location', async () => {
+      // Arrange
+      const { user, password } = await createDeviceUser('new-location@example.com');
+      await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.7' });
+
+      // Act
+      await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '198.51.100.20' });
+
+      // Assert
+      const { items } = await notificationRepo.listUserNotifications(user.id);
+      assertEquals(items.length, 1);
+      assertEquals(items[0]?.title, 'Sign-in from a new location');
+      assert(items[0]?.message.includes('198.51.100.20'));
+    });
+  });
+
   describe('business rule: email must be verified to login', () => {
     it('should reject login when email is not verified', async () => {
       // Arrange: Create unverified user
@@ -140,6 +412,317 @@ describe('AuthService', () => {
     });
   });
 
+  describe('business rule: 2FA users must pass a second factor to login', () => {
+    async function createTwoFactorUser(password: string) {
+      const secret = generateSecret();
+      const user = await userRepo.create({
+        email: '2fa@example.com',
+        password: await hashPassword(password),
+        name: '2FA User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: true,
+        twoFactorSecret: secret,
+        twoFactorBackupCodes: ['backup01', 'backup02'],
+      });
+      return { user, secret };
+    }
+
+    it('should return a challenge instead of tokens when 2FA is enabled', async () => {
+      // Arrange
+      const password = 'password123';
+      const { user } = await createTwoFactorUser(password);
+
+      // Act
+      const result = await authService.login('2fa@example.com', password);
+
+      // Assert: Business logic - no session issued yet
+      assert(result.requiresTwoFactor, 'Expected a two-factor challenge');
+      assertExists(result.challengeToken);
+      assertEquals(result.methods, ['totp']);
+      assertEquals('accessToken' in result, false);
+      const sessions = await tokenRepo.listUserRefreshTokens(user.id);
+      assertEquals(sessions.length, 0);
+    });
+
+    it('should issue tokens after a valid TOTP code', async () => {
+      // Arrange
+      const password = 'password123';
+      const { user, secret } = await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+
+      // Act
+      const result = await authService.completeTwoFactorLogin(
+        challenge.challengeToken,
+        await generateTOTP(secret),
+      );
+
+      // Assert
+      assertExists(result.accessToken);
+      assertExists(result.refreshToken);
+      assertEquals(result.user.id, user.id);
+    });
+
+    it('should accept a backup code once and consume it', async () => {
+      // Arrange
+      const password = 'password123';
+      const { user } = await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+
+      // Act
+      const result = await authService.completeTwoFactorLogin(challenge.challengeToken, 'backup01');
+
+      // Assert
+      assertExists(result.accessToken);
+      const updatedUser = await userRepo.findById(user.id);
+      assertEquals(updatedUser?.twoFactorBackupCodes, ['backup02']);
+    });
+
+    it('should reject an invalid code', async () => {
+      // Arrange
+      const password = 'password123';
+      await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+
+      // Act & Assert
+      await assertRejects(
+        () => authService.completeTwoFactorLogin(challenge.challengeToken, '000000'),
+        AuthenticationError,
+        'Invalid two-factor authentication code',
+      );
+    });
+
+    it('should not allow a challenge to be reused', async () => {
+      // Arrange
+      const password = 'password123';
+      const { secret } = await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+      await authService.completeTwoFactorLogin(challenge.challengeToken, await generateTOTP(secret));
+
+      // Act & Assert
+      await assertRejects(
+        () => authService.completeTwoFactorLogin(challenge.challengeToken, 'backup01'),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should invalidate the challenge after too many wrong codes', async () => {
+      // Arrange
+      const password = 'password123';
+      const { secret } = await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+
+      for (let i = 0; i < 5; i++) {
+        await assertRejects(
+          () => authService.completeTwoFactorLogin(challenge.challengeToken, '000000'),
+          AuthenticationError,
+        );
+      }
+
+      // Act & Assert: Even a correct code is refused now
+      const validCode = await generateTOTP(secret);
+      await assertRejects(
+        () => authService.completeTwoFactorLogin(challenge.challengeToken, validCode),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should not check more codes than allowed when they arrive in parallel', async () => {
+      // Arrange
+      const password = 'password123';
+      await createTwoFactorUser(password);
+      const challenge = await authService.login('2fa@example.com', password);
+      assert(challenge.requiresTwoFactor);
+
+      // Act: Ten guesses at once, each reading the challenge before any is counted
+      const guesses = await Promise.allSettled(
+        Array.from({ length: 10 }, () => authService.completeTwoFactorLogin(challenge.challengeToken, '000000')),
+      );
+
+      // Assert: Business rule - only five were checked; even a valid code is refused now
+      const checked = guesses.filter((guess) =>
+        guess.status === 'rejected' && guess.reason.message === 'Invalid two-factor authentication code'
+      );
+      assertEquals(checked.length, 5);
+      await assertRejects(
+        () => authService.completeTwoFactorLogin(challenge.challengeToken, 'backup01'),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should reject a refresh token used as a challenge', async () => {
+      // Arrange: Regular session token from a user without 2FA
+      const password = 'password123';
+      await userRepo.create({
+        email: 'plain@example.com',
+        password: await hashPassword(password),
+        name: 'Plain User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      const session = expectSession(await authService.login('plain@example.com', password));
+
+      // Act & Assert
+      await assertRejects(
+        () => authService.completeTwoFactorLogin(session.refreshToken, '123456'),
+        AuthenticationError,
+        'Invalid or expired token',
+      );
+    });
+  });
+
+  describe('business rule: passkeys work as a second factor and for passwordless login', () => {
+    const { platformPasskey, securityKey } = webauthnFixtures;
+    let originalFrontendUrl: string | undefined;
+
+    beforeEach(() => {
+      // Fixtures were recorded for http://localhost:3000
+      originalFrontendUrl = Deno.env.get('FRONTEND_URL');
+      Deno.env.set('FRONTEND_URL', 'http://localhost:3000');
+    });
+
+    afterEach(() => {
+      if (originalFrontendUrl) {
+        Deno.env.set('FRONTEND_URL', originalFrontendUrl);
+      } else {
+        Deno.env.delete('FRONTEND_URL');
+      }
+    });
+
+    /**
+     * Store a pending challenge with the value a fixture was recorded against
+     */
+    async function seedChallenge(
+      challenge: string,
+      ceremony: 'registration' | 'authentication',
+      forUser: string | null,
+    ): Promise<string> {
+      const challengeId = crypto.randomUUID();
+      await tokenRepo.storeWebAuthnChallenge(challengeId, {
+        challenge,
+        userId: forUser,
+        ceremony,
+        expiresAt: Math.floor(Date.now() / 1000) + 300,
+      });
+      return challengeId;
+    }
+
+    async function registerPasskey(fixture: typeof platformPasskey | typeof securityKey, userId: string) {
+      const webauthnService = new WebAuthnService(userRepo, credentialRepo, tokenRepo, authService, auditLog);
+      const challengeId = await seedChallenge(fixture.registration.challenge, 'registration', userId);
+      await webauthnService.finishRegistration(
+        userId,
+        challengeId,
+        RegistrationCredentialSchema.parse(fixture.registration.credential),
+      );
+    }
+
+    async function createPasskeyUser(password: string) {
+      return await userRepo.create({
+        email: 'passkey@example.com',
+        password: await hashPassword(password),
+        name: 'Passkey User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+    }
+
+    it('should ask for the passkey after the password', async () => {
+      // Arrange
+      const password = 'password123';
+      const user = await createPasskeyUser(password);
+      await registerPasskey(securityKey, user.id);
+
+      // Act
+      const challenge = await authService.login('passkey@example.com', password);
+
+      // Assert
+      assert(challenge.requiresTwoFactor, 'Expected a two-factor challenge');
+      assertEquals(challenge.methods, ['passkey']);
+
+      const { options } = await authService.startTwoFactorPasskey(challenge.challengeToken);
+      assertEquals(options.allowCredentials.map((c) => c.id), [securityKey.registration.credential.id]);
+    });
+
+    it('should issue tokens after a valid passkey', async () => {
+      // Arrange
+      const password = 'password123';
+      const user = await createPasskeyUser(password);
+      await registerPasskey(securityKey, user.id);
+      const challenge = await authService.login('passkey@example.com', password);
+      assert(challenge.requiresTwoFactor);
+      const passkeyChallengeId = await seedChallenge(securityKey.authentication.challenge, 'authentication', user.id);
+
+      // Act
+      const result = await authService.completeTwoFactorLoginWithPasskey(
+        challenge.challengeToken,
+        passkeyChallengeId,
+        AuthenticationCredentialSchema.parse(securityKey.authentication.credential),
+      );
+
+      // Assert
+      assertExists(result.accessToken);
+      assertEquals(result.user.id, user.id);
+      const { items } = await auditLog.list({ action: 'auth.login' });
+      assertEquals(items[0].metadata['secondFactor'], 'passkey');
+    });
+
+    it('should sign in with a passkey alone', async () => {
+      // Arrange: The recorded passkey's user handle names the fixture user ID
+      const user = await createPasskeyUser('password123');
+      await kv.set(['users', webauthnFixtures.userId], { ...user, id: webauthnFixtures.userId });
+      await registerPasskey(platformPasskey, webauthnFixtures.userId);
+      const challengeId = await seedChallenge(platformPasskey.authentication.challenge, 'authentication', null);
+
+      // Act
+      const result = await authService.loginWithPasskey(
+        challengeId,
+        AuthenticationCredentialSchema.parse(platformPasskey.authentication.credential),
+      );
+
+      // Assert
+      assertExists(result.accessToken);
+      assertEquals(result.user.id, webauthnFixtures.userId);
+      const { items } = await auditLog.list({ action: 'auth.login' });
+      assertEquals(items[0].metadata['method'], 'passkey');
+    });
+
+    it('should record a failed passwordless sign-in', async () => {
+      // Arrange: Passkey was never registered
+      const challengeId = await seedChallenge(platformPasskey.authentication.challenge, 'authentication', null);
+
+      // Act & Assert
+      await assertRejects(
+        () =>
+          authService.loginWithPasskey(
+            challengeId,
+            AuthenticationCredentialSchema.parse(platformPasskey.authentication.credential),
+          ),
+        AuthenticationError,
+        'not registered',
+      );
+      const { items } = await auditLog.list({ action: 'auth.login_failed' });
+      assertEquals(items[0].metadata['reason'], 'invalid_passkey');
+    });
+  });
+
   describe('business rule: prevent duplicate email registration', () => {
     it('should reject signup with existing email', async () => {
       // Arrange: Create existing user
@@ -396,7 +979,7 @@ describe('AuthService', () => {
         twoFactorBackupCodes: [],
       });
 
-      const loginResult = await authService.login('refresh@example.com', password);
+      const loginResult = expectSession(await authService.login('refresh@example.com', password));
 
       // Act: Refresh access token
       const result = await authService.refreshAccessToken(loginResult.refreshToken);
@@ -432,7 +1015,7 @@ describe('AuthService', () => {
         twoFactorBackupCodes: [],
       });
 
-      const loginResult = await authService.login('revoked@example.com', password);
+      const loginResult = expectSession(await authService.login('revoked@example.com', password));
 
       // Revoke all refresh tokens
       await tokenRepo.revokeAllUserRefreshTokens(user.id);
@@ -446,6 +1029,104 @@ describe('AuthService', () => {
     });
   });
 
+  describe('business logic: refresh token rotation', () => {
+    async function loginRotationUser(email: string) {
+      const password = 'password123';
+      const user = await userRepo.create({
+        email,
+        password: await hashPassword(password),
+        name: 'Rotation User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      const loginResult = expectSession(await authService.login(email, password));
+      return { user, loginResult };
+    }
+
+    /**
+     * Pretend a rotation happened long enough ago to be outside the grace period
+     */
+    async function ageRotation(tokenId: string) {
+      const key = ['refresh_tokens_rotated', tokenId];
+      const entry = await kv.get<{ rotatedAt: string }>(key);
+      await kv.set(key, { ...entry.value!, rotatedAt: new Date(Date.now() - 60_000).toISOString() });
+    }
+
+    it('should issue a new refresh token and keep the session expiry', async () => {
+      // Arrange
+      const { user, loginResult } = await loginRotationUser('rotate@example.com');
+      const [before] = await tokenRepo.listUserRefreshTokens(user.id);
+
+      // Act
+      const result = await authService.refreshAccessToken(loginResult.refreshToken);
+
+      // Assert: Business logic - one live token, same family and expiry
+      assertExists(result.refreshToken);
+      assert(result.refreshToken !== loginResult.refreshToken);
+      const tokens = await tokenRepo.listUserRefreshTokens(user.id);
+      assertEquals(tokens.length, 1);
+      assertEquals(tokens[0]?.familyId, before?.familyId);
+      assertEquals(tokens[0]?.expiresAt, before?.expiresAt);
+      assertEquals(result.refreshTokenExpiresAt, before?.expiresAt);
+
+      // The successor keeps rotating
+      assertExists((await authService.refreshAccessToken(result.refreshToken)).refreshToken);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      // Arrange: Rotate once, then replay the original token later
+      const { user, loginResult } = await loginRotationUser('reuse@example.com');
+      const { tokenId } = (await tokenRepo.listUserRefreshTokens(user.id))[0]!;
+      const rotated = await authService.refreshAccessToken(loginResult.refreshToken);
+      await ageRotation(tokenId);
+
+      // Act & Assert: Replay is rejected...
+      await assertRejects(
+        () => authService.refreshAccessToken(loginResult.refreshToken),
+        AuthenticationError,
+        'revoked',
+      );
+
+      // ...and the legitimate successor stops working too
+      assertEquals((await tokenRepo.listUserRefreshTokens(user.id)).length, 0);
+      await assertRejects(() => authService.refreshAccessToken(rotated.refreshToken!), AuthenticationError);
+    });
+
+    it('should only revoke the reused family', async () => {
+      // Arrange: Two sessions, one of them replayed
+      const { user, loginResult } = await loginRotationUser('two-families@example.com');
+      const other = expectSession(await authService.login('two-families@example.com', 'password123'));
+      const replayedId = (await authService.listSessions(user.id, loginResult.refreshToken))
+        .find((session) => session.current)!.id;
+      await authService.refreshAccessToken(loginResult.refreshToken);
+      await ageRotation(replayedId);
+
+      // Act
+      await assertRejects(() => authService.refreshAccessToken(loginResult.refreshToken), AuthenticationError);
+
+      // Assert
+      assertExists((await authService.refreshAccessToken(other.refreshToken)).refreshToken);
+    });
+
+    it('should tolerate a concurrent refresh within the grace period', async () => {
+      // Arrange: Another tab just rotated the token
+      const { user, loginResult } = await loginRotationUser('grace@example.com');
+      await authService.refreshAccessToken(loginResult.refreshToken);
+
+      // Act
+      const result = await authService.refreshAccessToken(loginResult.refreshToken);
+
+      // Assert: Business logic - access token only, session left intact
+      assertExists(result.accessToken);
+      assertEquals(result.refreshToken, undefined);
+      assertEquals((await tokenRepo.listUserRefreshTokens(user.id)).length, 1);
+    });
+  });
+
   describe('business logic: logout and token revocation', () => {
     it('should revoke refresh token on logout', async () => {
       // Arrange: Create user and login
@@ -463,7 +1144,7 @@ describe('AuthService', () => {
         twoFactorBackupCodes: [],
       });
 
-      const loginResult = await authService.login('logout@example.com', password);
+      const loginResult = expectSession(await authService.login('logout@example.com', password));
 
       // Act: Logout
       await authService.logout(user.id, loginResult.refreshToken);
@@ -495,6 +1176,96 @@ describe('AuthService', () => {
     });
   });
 
+  describe('business logic: session management', () => {
+    const chromeOnMac = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 ' +
+      '(KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36';
+    const firefoxOnWindows = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:131.0) Gecko/20100101 Firefox/131.0';
+
+    async function createSessionUser(email: string) {
+      const password = 'password123';
+      const user = await userRepo.create({
+        email,
+        password: await hashPassword(password),
+        name: 'Session User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      return { user, password };
+    }
+
+    it('should record device details on login', async () => {
+      // Arrange
+      const { user, password } = await createSessionUser('device@example.com');
+
+      // Act
+      const loginResult = expectSession(
+        await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.7' }),
+      );
+
+      // Assert: Business logic - the session is listed with its device and flagged as current
+      const sessions = await authService.listSessions(user.id, loginResult.refreshToken);
+      assertEquals(sessions.length, 1);
+      assertEquals(sessions[0]?.deviceLabel, 'Chrome on macOS');
+      assertEquals(sessions[0]?.ipAddress, '203.0.113.7');
+      assertEquals(sessions[0]?.userAgent, chromeOnMac);
+      assertEquals(sessions[0]?.current, true);
+    });
+
+    it('should update last use and client details on refresh', async () => {
+      // Arrange
+      const { user, password } = await createSessionUser('refresh-device@example.com');
+      const loginResult = expectSession(
+        await authService.login(user.email, password, { userAgent: chromeOnMac, ipAddress: '203.0.113.7' }),
+      );
+      const [before] = await authService.listSessions(user.id);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      // Act
+      await authService.refreshAccessToken(loginResult.refreshToken, { ipAddress: '198.51.100.20' });
+
+      // Assert: Business logic - new IP recorded, user agent kept
+      const [after] = await authService.listSessions(user.id);
+      assertEquals(after?.ipAddress, '198.51.100.20');
+      assertEquals(after?.deviceLabel, 'Chrome on macOS');
+      assertEquals(after!.lastUsedAt > before!.lastUsedAt, true);
+      assertEquals(after?.createdAt, before?.createdAt);
+    });
+
+    it('should revoke a single session and keep the others', async () => {
+      // Arrange: Two devices
+      const { user, password } = await createSessionUser('two-devices@example.com');
+      const laptop = expectSession(await authService.login(user.email, password, { userAgent: chromeOnMac }));
+      const desktop = expectSession(await authService.login(user.email, password, { userAgent: firefoxOnWindows }));
+
+      const sessions = await authService.listSessions(user.id, laptop.refreshToken);
+      const other = sessions.find((session) => !session.current);
+      assertEquals(other?.deviceLabel, 'Firefox on Windows');
+
+      // Act
+      await authService.revokeSession(user.id, other!.id);
+
+      // Assert: Business logic - only the revoked device is signed out
+      await assertRejects(() => authService.refreshAccessToken(desktop.refreshToken), AuthenticationError, 'revoked');
+      assertExists((await authService.refreshAccessToken(laptop.refreshToken)).accessToken);
+    });
+
+    it("should not revoke another user's session", async () => {
+      // Arrange
+      const { user, password } = await createSessionUser('owner@example.com');
+      const { user: attacker } = await createSessionUser('attacker@example.com');
+      expectSession(await authService.login(user.email, password));
+      const [session] = await authService.listSessions(user.id);
+
+      // Act & Assert
+      await assertRejects(() => authService.revokeSession(attacker.id, session!.id), NotFoundError);
+      assertEquals((await authService.listSessions(user.id)).length, 1);
+    });
+  });
+
   describe('business logic: password verification for sensitive operations', () => {
     it('should verify correct password', async () => {
       // Arrange: Create user
@@ -0,0 +1,250 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * NotificationBroadcastService Tests
+ *
+ * Tests broadcast fan-out business rules:
+ * - Segments are resolved through the user composite indexes
+ * - Recipients are split into batch jobs; progress adds up across batches
+ * - Each recipient's delivery preferences apply
+ * - Retried batches don't notify anyone twice
+ *
+ * Note: Queued jobs are recorded instead of run, and the test runs each
+ * job's handler itself (what the broadcast worker does).
+ */
+
+import { assertEquals, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { NotFoundError } from '../../../frontend/lib/errors.ts';
+import { NotificationDeliveryConfig } from '../../../shared/lib/config.ts';
+import { hashPassword } from '../../../shared/lib/password.ts';
+import {
+  NotificationBroadcastRepository,
+  NotificationPreferencesRepository,
+  NotificationRepository,
+  UserRepository,
+} from '../../../shared/repositories/index.ts';
+import {
+  BROADCAST_BATCH_JOB,
+  BROADCAST_RESOLVE_JOB,
+  type BroadcastBatchJobData,
+  NotificationBroadcastService,
+} from '../../../shared/services/NotificationBroadcastService.ts';
+import { NotificationDeliveryService } from '../../../shared/services/NotificationDeliveryService.ts';
+import type { User } from '../../../shared/types/user.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+interface QueuedJob {
+  name: string;
+  data: unknown;
+  jobId?: string;
+}
+
+// Disable resource sanitizer for WebSocket intervals
+describe('NotificationBroadcastService', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+}, () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let service: NotificationBroadcastService;
+  let userRepo: UserRepository;
+  let notificationRepo: NotificationRepository;
+  let deliveryService: NotificationDeliveryService;
+  let jobs: QueuedJob[];
+  let passwordHash: string;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    userRepo = new UserRepository({ kv });
+    notificationRepo = new NotificationRepository({ kv });
+    deliveryService = new NotificationDeliveryService(
+      notificationRepo,
+      new NotificationPreferencesRepository({ kv }),
+      userRepo,
+    );
+    jobs = [];
+    const jobQueue = {
+      add: <T>(name: string, data: T, options: { jobId?: string } = {}) => {
+        jobs.push({ name, data, jobId: options.jobId });
+        return Promise.resolve(options.jobId ?? crypto.randomUUID());
+      },
+    };
+    service = new NotificationBroadcastService(
+      new NotificationBroadcastRepository({ kv }),
+      userRepo,
+      deliveryService,
+      jobQueue,
+    );
+    passwordHash ??= await hashPassword('password123');
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  async function createUser(index: number, overrides: Partial<User> = {}): Promise<User> {
+    return await userRepo.create({
+      email: `user${index}@example.com`,
+      password: passwordHash,
+      name: `User ${index}`,
+      role: 'user',
+      emailVerified: true,
+      emailVerifiedAt: new Date().toISOString(),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: [],
+      ...overrides,
+    });
+  }
+
+  function batchJobs(): BroadcastBatchJobData[] {
+    return jobs.filter((job) => job.name === BROADCAST_BATCH_JOB).map((job) => job.data as BroadcastBatchJobData);
+  }
+
+  /**
+   * Run the queued jobs the way the broadcast worker would
+   */
+  async function runJobs(broadcastId: string): Promise<void> {
+    await service.resolveRecipients(broadcastId);
+    for (const batch of batchJobs()) {
+      await service.deliverBatch(batch.broadcastId, batch.batchIndex, batch.userIds);
+    }
+  }
+
+  const announcement = {
+    type: 'info' as const,
+    category: 'announcements' as const,
+    title: 'Scheduled maintenance',
+    message: 'We will be down for 10 minutes on Sunday',
+  };
+
+  describe('business logic: audience', () => {
+    it('should reach only users in the segment', async () => {
+      // Arrange
+      const verified = await createUser(1);
+      await createUser(2, { emailVerified: false, emailVerifiedAt: null });
+      const admin = await createUser(3, { role: 'admin' });
+      // Verification after sign-up moves the user into the segment
+      const later = await createUser(4, { emailVerified: false, emailVerifiedAt: null });
+      await userRepo.verifyEmail(later.id);
+
+      // Act
+      const broadcast = await service.createBroadcast(
+        { ...announcement, audience: { type: 'segment', role: 'user', emailVerified: true } },
+        admin.id,
+      );
+      await runJobs(broadcast.id);
+
+      // Assert
+      assertEquals(jobs[0].name, BROADCAST_RESOLVE_JOB);
+      const recipients = batchJobs().flatMap((batch) => batch.userIds).sort();
+      assertEquals(recipients, [verified.id, later.id].sort());
+
+      const result = await service.getBroadcast(broadcast.id);
+      assertEquals(result.status, 'completed');
+      assertEquals(result.recipients, 2);
+      assertEquals(result.progress.delivered, 2);
+      assertEquals(await notificationRepo.getUnreadCount(verified.id), 1);
+      assertEquals(await notificationRepo.getUnreadCount(admin.id), 0);
+    });
+
+    it('should split everyone into batches and total their progress', async () => {
+      // Arrange
+      const batchSize = NotificationDeliveryConfig.BROADCAST_BATCH_SIZE;
+      for (let i = 0; i < batchSize + 5; i++) {
+        await createUser(i);
+      }
+
+      // Act
+      const broadcast = await service.createBroadcast({ ...announcement, audience: { type: 'all' } }, 'admin-1');
+      await service.resolveRecipients(broadcast.id);
+
+      // Assert: Still sending until every batch has reported
+      assertEquals(batchJobs().map((batch) => batch.userIds.length), [batchSize, 5]);
+      assertEquals((await service.getBroadcast(broadcast.id)).status, 'sending');
+
+      for (const batch of batchJobs()) {
+        await service.deliverBatch(batch.broadcastId, batch.batchIndex, batch.userIds);
+      }
+
+      const result = await service.getBroadcast(broadcast.id);
+      assertEquals(result.status, 'completed');
+      assertEquals(result.progress, { delivered: batchSize + 5, skipped: 0, failed: 0, batchesDone: 2 });
+    });
+
+    it('should skip listed users who no longer exist', async () => {
+      // Arrange
+      const user = await createUser(1);
+
+      // Act
+      const broadcast = await service.createBroadcast(
+        { ...announcement, audience: { type: 'users', userIds: [user.id, 'deleted-user', user.id] } },
+        'admin-1',
+      );
+      await runJobs(broadcast.id);
+
+      // Assert: Duplicates removed
+      const result = await service.getBroadcast(broadcast.id);
+      assertEquals(result.recipients, 2);
+      assertEquals(result.progress.delivered, 1);
+      assertEquals(result.progress.skipped, 1);
+      assertEquals(result.status, 'completed');
+    });
+
+    it('should complete straight away when nobody matches', async () => {
+      // Act
+      const broadcast = await service.createBroadcast(
+        { ...announcement, audience: { type: 'segment', role: 'admin' } },
+        'admin-1',
+      );
+      await runJobs(broadcast.id);
+
+      // Assert
+      assertEquals(batchJobs(), []);
+      assertEquals((await service.getBroadcast(broadcast.id)).status, 'completed');
+    });
+  });
+
+  describe('business logic: delivery', () => {
+    it('should respect recipients who turned the category off', async () => {
+      // Arrange
+      const user = await createUser(1);
+      await deliveryService.updatePreferences(user.id, {
+        categories: { announcements: { inApp: false, email: 'off' } },
+      });
+
+      // Act
+      const broadcast = await service.createBroadcast({ ...announcement, audience: { type: 'all' } }, 'admin-1');
+      await runJobs(broadcast.id);
+
+      // Assert
+      const result = await service.getBroadcast(broadcast.id);
+      assertEquals(result.progress.skipped, 1);
+      assertEquals(await notificationRepo.getUnreadCount(user.id), 0);
+    });
+
+    it('should not notify anyone twice when a batch is retried', async () => {
+      // Arrange
+      const user = await createUser(1);
+      const broadcast = await service.createBroadcast({ ...announcement, audience: { type: 'all' } }, 'admin-1');
+      await runJobs(broadcast.id);
+
+      // Act
+      const [batch] = batchJobs();
+      const retried = await service.deliverBatch(batch.broadcastId, batch.batchIndex, batch.userIds);
+
+      // Assert
+      assertEquals(retried.delivered, 1);
+      assertEquals(await notificationRepo.getUnreadCount(user.id), 1);
+      assertEquals((await service.getBroadcast(broadcast.id)).progress.delivered, 1);
+    });
+
+    it('should report unknown broadcasts as not found', async () => {
+      // Act & Assert
+      await assertRejects(() => service.getBroadcast('missing'), NotFoundError);
+    });
+  });
+});
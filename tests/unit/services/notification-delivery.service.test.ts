@@ -0,0 +1,290 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * NotificationDeliveryService Tests
+ *
+ * Tests delivery preference rules:
+ * - Defaults for users who never saved preferences
+ * - Updating preferences (security stays on in-app)
+ * - Routing to in-app, immediate email or a daily/weekly digest
+ * - Digest runs keep items when the email can't be sent
+ * - Unsubscribe links by category, digest or everything
+ *
+ * Note: No email provider is configured in tests, so every email send
+ * fails (gracefully). Digest assertions rely on that.
+ */
+
+import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { AuthenticationError, ValidationError } from '../../../frontend/lib/errors.ts';
+import { hashPassword } from '../../../shared/lib/password.ts';
+import {
+  NotificationPreferencesRepository,
+  NotificationRepository,
+  UserRepository,
+} from '../../../shared/repositories/index.ts';
+import { NotificationDeliveryService } from '../../../shared/services/NotificationDeliveryService.ts';
+import type { DigestFrequency, DigestItem } from '../../../shared/types/notifications.ts';
+import type { User } from '../../../shared/types/user.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+// Disable resource sanitizer for WebSocket intervals
+describe('NotificationDeliveryService', {
+  sanitizeResources: false,
+  sanitizeOps: false,
+}, () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let service: NotificationDeliveryService;
+  let notificationRepo: NotificationRepository;
+  let preferencesRepo: NotificationPreferencesRepository;
+  let userRepo: UserRepository;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    notificationRepo = new NotificationRepository({ kv });
+    preferencesRepo = new NotificationPreferencesRepository({ kv });
+    userRepo = new UserRepository({ kv });
+    service = new NotificationDeliveryService(notificationRepo, preferencesRepo, userRepo);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  async function createUser(overrides: Partial<User> = {}): Promise<User> {
+    return await userRepo.create({
+      email: 'user@example.com',
+      password: await hashPassword('password123'),
+      name: 'Test User',
+      role: 'user',
+      emailVerified: true,
+      emailVerifiedAt: new Date().toISOString(),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: [],
+      ...overrides,
+    });
+  }
+
+  async function pendingDigest(frequency: DigestFrequency): Promise<DigestItem[]> {
+    const items: DigestItem[] = [];
+    for await (const batch of preferencesRepo.listDigestBatches(frequency)) {
+      items.push(...batch.items);
+    }
+    return items;
+  }
+
+  describe('business logic: preferences', () => {
+    it('should return and keep defaults for a user who never saved preferences', async () => {
+      // Act
+      const first = await service.getPreferences('user-1');
+      const second = await service.getPreferences('user-1');
+
+      // Assert: Same unsubscribe token every time, so old email links keep working
+      assertEquals(first.categories.security, { inApp: true, email: 'immediate' });
+      assertEquals(first.categories.general.email, 'daily');
+      assertEquals(first.updatedAt, null);
+      assertEquals(second.unsubscribeToken, first.unsubscribeToken);
+    });
+
+    it('should change only the preferences given', async () => {
+      // Act
+      const updated = await service.updatePreferences('user-1', {
+        categories: { general: { inApp: false } },
+        emailTypes: { info: false },
+      });
+
+      // Assert
+      assertEquals(updated.categories.general, { inApp: false, email: 'daily' });
+      assertEquals(updated.categories.account, { inApp: true, email: 'immediate' });
+      assertEquals(updated.emailTypes, { info: false, success: true, warning: true, error: true });
+      assertExists(updated.updatedAt);
+    });
+
+    it('should not allow security notifications to be turned off in-app', async () => {
+      // Act & Assert
+      await assertRejects(
+        () => service.updatePreferences('user-1', { categories: { security: { inApp: false } } }),
+        ValidationError,
+      );
+      assertEquals((await service.getPreferences('user-1')).categories.security.inApp, true);
+    });
+  });
+
+  describe('business logic: sending', () => {
+    it('should store the notification in-app with its category', async () => {
+      // Arrange
+      const user = await createUser();
+
+      // Act
+      const result = await service.send({
+        userId: user.id,
+        type: 'info',
+        category: 'account',
+        title: 'Profile updated',
+        message: 'Your name was changed',
+      });
+
+      // Assert
+      assertExists(result.notification);
+      assertEquals(result.notification.category, 'account');
+      assertEquals(result.email, 'immediate');
+      assertEquals(await notificationRepo.getUnreadCount(user.id), 1);
+    });
+
+    it('should skip in-app when turned off but still queue the digest', async () => {
+      // Arrange
+      const user = await createUser();
+      await service.updatePreferences(user.id, { categories: { general: { inApp: false } } });
+
+      // Act
+      const result = await service.send({ userId: user.id, type: 'info', title: 'Hello', message: 'World' });
+
+      // Assert
+      assertEquals(result.notification, null);
+      assertEquals(result.email, 'daily');
+      assertEquals(await notificationRepo.getUnreadCount(user.id), 0);
+
+      const pending = await pendingDigest('daily');
+      assertEquals(pending.length, 1);
+      assertEquals(pending[0].title, 'Hello');
+    });
+
+    it('should not email notification types the user opted out of', async () => {
+      // Arrange
+      const user = await createUser();
+      await service.updatePreferences(user.id, { emailTypes: { info: false } });
+
+      // Act
+      const info = await service.send({ userId: user.id, type: 'info', title: 'Info', message: 'Skipped' });
+      const warning = await service.send({ userId: user.id, type: 'warning', title: 'Warning', message: 'Queued' });
+
+      // Assert
+      assertEquals(info.email, 'off');
+      assertEquals(warning.email, 'daily');
+      assertEquals((await pendingDigest('daily')).map((item) => item.title), ['Warning']);
+    });
+
+    it('should always show security notifications in-app', async () => {
+      // Arrange: Saved before the rule existed, or written directly
+      const user = await createUser();
+      const preferences = await service.getPreferences(user.id);
+      await preferencesRepo.save({
+        ...preferences,
+        categories: { ...preferences.categories, security: { inApp: false, email: 'off' } },
+      });
+
+      // Act
+      const result = await service.send({
+        userId: user.id,
+        type: 'warning',
+        category: 'security',
+        title: 'New sign-in',
+        message: 'From a new device',
+      });
+
+      // Assert
+      assertExists(result.notification);
+      assertEquals(result.email, 'off');
+    });
+  });
+
+  describe('business logic: digests', () => {
+    it('should keep digest items when the email cannot be sent', async () => {
+      // Arrange
+      const user = await createUser();
+      await service.send({ userId: user.id, type: 'info', title: 'One', message: 'First' });
+      await service.send({ userId: user.id, type: 'info', title: 'Two', message: 'Second' });
+
+      // Act
+      const sent = await service.sendDigests('daily');
+
+      // Assert
+      assertEquals(sent, 0);
+      assertEquals((await pendingDigest('daily')).map((item) => item.title).sort(), ['One', 'Two']);
+    });
+
+    it('should drop digest items for unverified users and turned-off categories', async () => {
+      // Arrange
+      const unverified = await createUser({ email: 'unverified@example.com', emailVerified: false });
+      const optedOut = await createUser({ email: 'opted-out@example.com' });
+      await service.send({ userId: unverified.id, type: 'info', title: 'Unverified', message: 'Dropped' });
+      await service.send({ userId: optedOut.id, type: 'info', title: 'Opted out', message: 'Dropped' });
+      await service.updatePreferences(optedOut.id, { categories: { general: { email: 'off' } } });
+
+      // Act
+      const sent = await service.sendDigests('daily');
+
+      // Assert
+      assertEquals(sent, 0);
+      assertEquals(await pendingDigest('daily'), []);
+    });
+
+    it('should delete preferences and pending items with the account', async () => {
+      // Arrange
+      const user = await createUser();
+      await service.send({ userId: user.id, type: 'info', title: 'Queued', message: 'Pending' });
+      const { unsubscribeToken } = await service.getPreferences(user.id);
+
+      // Act
+      await preferencesRepo.deleteAllForUser(user.id);
+
+      // Assert
+      assertEquals(await preferencesRepo.findByUserId(user.id), null);
+      assertEquals(await preferencesRepo.findUserIdByUnsubscribeToken(unsubscribeToken), null);
+      assertEquals(await pendingDigest('daily'), []);
+    });
+  });
+
+  describe('business logic: unsubscribe', () => {
+    it('should turn off email for one category', async () => {
+      // Arrange
+      const { unsubscribeToken } = await service.getPreferences('user-1');
+
+      // Act
+      const preferences = await service.unsubscribe(unsubscribeToken, 'account');
+
+      // Assert: In-app is left alone
+      assertEquals(preferences.categories.account, { inApp: true, email: 'off' });
+      assertEquals(preferences.categories.security.email, 'immediate');
+    });
+
+    it('should turn off only digest emails for the digest scope', async () => {
+      // Arrange
+      const { unsubscribeToken } = await service.getPreferences('user-1');
+
+      // Act
+      const preferences = await service.unsubscribe(unsubscribeToken, 'digest');
+
+      // Assert
+      assertEquals(preferences.categories.general.email, 'off');
+      assertEquals(preferences.categories.announcements.email, 'off');
+      assertEquals(preferences.categories.account.email, 'immediate');
+    });
+
+    it('should turn off every email for the all scope', async () => {
+      // Arrange
+      const { unsubscribeToken } = await service.getPreferences('user-1');
+
+      // Act
+      const preferences = await service.unsubscribe(unsubscribeToken, 'all');
+
+      // Assert
+      for (const channels of Object.values(preferences.categories)) {
+        assertEquals(channels.email, 'off');
+      }
+    });
+
+    it('should reject an unknown unsubscribe token', async () => {
+      // Act & Assert
+      await assertRejects(
+        () => service.unsubscribe('not-a-real-token', 'all'),
+        AuthenticationError,
+        'not valid',
+      );
+    });
+  });
+});
@@ -5,17 +5,18 @@
  *
  * Tests business logic for notification operations including:
  * - Creating notifications
- * - Listing user notifications
+ * - Listing user notifications (cursor pagination, read/type filters)
  * - Getting unread count
  * - Marking notifications as read
  * - Deleting notifications
+ * - Actions and priority, grouping repeated events, expiry
  *
  * Note: NotificationService is a thin wrapper around NotificationRepository
  * with WebSocket broadcasting (non-critical, wrapped in try-catch).
  * Focus: Repository integration and basic business logic.
  */
 
-import { assertEquals, assertExists } from '@std/assert';
+import { assert, assertEquals, assertExists } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { NotificationRepository } from '../../../shared/repositories/index.ts';
 import { NotificationService } from '../../../shared/services/notifications.ts';
@@ -217,6 +218,88 @@ describe('NotificationService', {
     });
   });
 
+  describe('business logic: paginate user notifications', () => {
+    it('should page through every notification exactly once, newest first', async () => {
+      // Arrange
+      const userId = 'user-pages';
+      for (let i = 0; i < 7; i++) {
+        await NotificationService.create({ userId, type: 'info', title: `Notification ${i}`, message: `Message ${i}` });
+        await new Promise((resolve) => setTimeout(resolve, 2));
+      }
+
+      // Act: Follow the cursor until the last page
+      const titles: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+      do {
+        const page = await NotificationService.listUserNotifications(userId, { limit: 3, cursor });
+        titles.push(...page.items.map((n) => n.title));
+        cursor = page.cursor ?? undefined;
+        pages++;
+      } while (cursor);
+
+      // Assert
+      assertEquals(pages, 3);
+      assertEquals(titles, [6, 5, 4, 3, 2, 1, 0].map((i) => `Notification ${i}`));
+    });
+
+    it('should filter by read state and type', async () => {
+      // Arrange
+      const userId = 'user-filters';
+      const read = await NotificationService.create({ userId, type: 'warning', title: 'Read warning', message: 'm' });
+      await NotificationService.create({ userId, type: 'warning', title: 'Unread warning', message: 'm' });
+      await NotificationService.create({ userId, type: 'info', title: 'Unread info', message: 'm' });
+      await NotificationService.markAsRead(userId, read.id);
+
+      // Act
+      const unread = await NotificationService.listUserNotifications(userId, { read: false });
+      const warnings = await NotificationService.listUserNotifications(userId, { type: 'warning' });
+      const unreadWarnings = await NotificationService.listUserNotifications(userId, { read: false, type: 'warning' });
+
+      // Assert: Marking as read moved the notification between indexes
+      assertEquals(unread.items.map((n) => n.title).sort(), ['Unread info', 'Unread warning']);
+      assertEquals(warnings.items.map((n) => n.title).sort(), ['Read warning', 'Unread warning']);
+      assertEquals(unreadWarnings.items.map((n) => n.title), ['Unread warning']);
+      assertEquals(await repo.getCountsByType(userId), { info: 1, success: 0, warning: 2, error: 0 });
+    });
+
+    it('should remove deleted notifications from every index', async () => {
+      // Arrange
+      const userId = 'user-delete-index';
+      const notif = await NotificationService.create({ userId, type: 'error', title: 'Gone', message: 'm' });
+
+      // Act
+      await NotificationService.deleteNotification(userId, notif.id);
+
+      // Assert
+      assertEquals((await NotificationService.listUserNotifications(userId)).items, []);
+      assertEquals((await NotificationService.listUserNotifications(userId, { type: 'error' })).items, []);
+      assertEquals(await NotificationService.getUnreadCount(userId), 0);
+    });
+
+    it('should index notifications stored before the indexes existed', async () => {
+      // Arrange: A record written without index entries
+      const userId = 'user-legacy';
+      await kv.set(['notifications', userId, 'legacy-1'], {
+        id: 'legacy-1',
+        userId,
+        type: 'info',
+        title: 'Legacy',
+        message: 'Stored by an older version',
+        read: false,
+        createdAt: new Date(Date.now() - 60_000).toISOString(),
+      });
+
+      // Act
+      const unreadCount = await NotificationService.getUnreadCount(userId);
+      const notifications = await NotificationService.getUserNotifications(userId);
+
+      // Assert
+      assertEquals(unreadCount, 1);
+      assertEquals(notifications.map((n) => n.id), ['legacy-1']);
+    });
+  });
+
   describe('business logic: unread count', () => {
     it('should return 0 when no notifications exist', async () => {
       // Act
@@ -550,4 +633,176 @@ describe('NotificationService', {
       assertEquals(userBNotifs.length, 1);
     });
   });
+
+  describe('business logic: actions, grouping and expiry', () => {
+    it('should store actions and priority with the notification', async () => {
+      // Arrange
+      const actions = [
+        { type: 'link' as const, label: 'View job', url: '/admin/jobs' },
+        { type: 'api' as const, label: 'Retry', method: 'POST' as const, path: '/api/jobs/job-1/retry' },
+      ];
+
+      // Act
+      const notification = await NotificationService.create({
+        userId: 'user-actions',
+        type: 'error',
+        title: 'Job failed',
+        message: 'The export job failed',
+        actions,
+        priority: 'urgent',
+      });
+
+      // Assert
+      const stored = await repo.findById('user-actions', notification.id);
+      assertEquals(stored?.actions, actions);
+      assertEquals(stored?.priority, 'urgent');
+    });
+
+    it('should collapse repeated events into one unread notification', async () => {
+      // Arrange
+      const userId = 'user-group';
+      const first = await NotificationService.create({
+        userId,
+        type: 'error',
+        title: '1 job failed',
+        message: 'export failed',
+        groupKey: 'jobs-failed',
+      });
+      await NotificationService.create({ userId, type: 'info', title: 'Other', message: 'Unrelated' });
+      await new Promise((resolve) => setTimeout(resolve, 5)); // Later timestamp than 'Other'
+
+      // Act
+      for (let i = 2; i <= 5; i++) {
+        await NotificationService.create({
+          userId,
+          type: 'error',
+          title: `${i} jobs failed`,
+          message: 'export failed',
+          groupKey: 'jobs-failed',
+        });
+      }
+
+      // Assert: One notification, updated in place and moved to the top
+      const notifications = await NotificationService.getUserNotifications(userId);
+      assertEquals(notifications.length, 2);
+      assertEquals(notifications[0].id, first.id);
+      assertEquals(notifications[0].title, '5 jobs failed');
+      assertEquals(notifications[0].groupCount, 5);
+      assertEquals(await NotificationService.getUnreadCount(userId), 2);
+    });
+
+    it('should start a new group once the grouped notification is read', async () => {
+      // Arrange
+      const userId = 'user-group-read';
+      const event = { userId, type: 'error' as const, title: 'Job failed', message: 'm', groupKey: 'jobs-failed' };
+      const first = await NotificationService.create(event);
+      await NotificationService.markAsRead(userId, first.id);
+
+      // Act
+      const second = await NotificationService.create(event);
+      const third = await NotificationService.create(event);
+
+      // Assert
+      assert(second.id !== first.id);
+      assertEquals(third.id, second.id);
+      assertEquals(third.groupCount, 2);
+      assertEquals((await repo.findById(userId, first.id))?.groupCount, undefined);
+    });
+
+    /**
+     * A repository whose next commit waits for release(), so a write can land between its read and its commit
+     */
+    function createPausedRepo() {
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => release = resolve);
+      const pausedKv = new Proxy(kv, {
+        get(target, prop) {
+          if (prop === 'atomic') {
+            return () => {
+              const atomic = target.atomic();
+              const commit = atomic.commit.bind(atomic);
+              atomic.commit = async () => {
+                await gate;
+                return await commit();
+              };
+              return atomic;
+            };
+          }
+          const value = Reflect.get(target, prop);
+          return typeof value === 'function' ? value.bind(target) : value;
+        },
+      });
+      return { repo: new NotificationRepository({ kv: pausedKv }), release };
+    }
+
+    it('should keep the unread count right when read while another event joins the group', async () => {
+      // Arrange
+      const userId = 'user-group-race';
+      const event = { userId, type: 'error' as const, title: 'Job failed', message: 'm', groupKey: 'jobs-failed' };
+      const grouped = await NotificationService.create(event);
+      const paused = createPausedRepo();
+
+      // Act: The event is grouped after markAsRead read the notification, before it commits
+      const marking = paused.repo.markAsRead(userId, grouped.id);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await NotificationService.create(event);
+      paused.release();
+      const marked = await marking;
+
+      // Assert
+      assertEquals(marked?.groupCount, 2);
+      assertEquals(await NotificationService.getUnreadCount(userId), 0);
+      assertEquals((await repo.listUserNotifications(userId, { read: false })).items.length, 0);
+    });
+
+    it('should not bring back a notification deleted while it was being marked as read', async () => {
+      // Arrange
+      const userId = 'user-delete-race';
+      const notification = await NotificationService.create({ userId, type: 'info', title: 'Hello', message: 'm' });
+      const paused = createPausedRepo();
+
+      // Act
+      const marking = paused.repo.markAsRead(userId, notification.id);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await NotificationService.deleteNotification(userId, notification.id);
+      paused.release();
+      const marked = await marking;
+
+      // Assert
+      assertEquals(marked, null);
+      assertEquals(await repo.findById(userId, notification.id), null);
+      assertEquals(await NotificationService.getUnreadCount(userId), 0);
+      assertEquals((await repo.getCountsByType(userId)).info, 0);
+    });
+
+    it('should hide expired notifications and delete them on cleanup', async () => {
+      // Arrange
+      const userId = 'user-expiry';
+      const expired = await NotificationService.create({
+        userId,
+        type: 'info',
+        title: 'Maintenance tonight',
+        message: 'Short downtime',
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+      const current = await NotificationService.create({
+        userId,
+        type: 'info',
+        title: 'Maintenance next week',
+        message: 'Short downtime',
+        expiresAt: new Date(Date.now() + 3600_000).toISOString(),
+      });
+
+      // Act
+      const listed = await NotificationService.getUserNotifications(userId);
+      const deleted = await repo.deleteExpiredNotifications();
+
+      // Assert
+      assertEquals(listed.map((n) => n.id), [current.id]);
+      assertEquals(deleted, 1);
+      assertEquals(await repo.findById(userId, expired.id), null);
+      assertExists(await repo.findById(userId, current.id));
+      assertEquals(await NotificationService.getUnreadCount(userId), 1);
+    });
+  });
 });
@@ -0,0 +1,318 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * OidcService Tests
+ *
+ * Tests social sign-in business rules against a local mock provider
+ * (tests/helpers/mock-oidc-provider.ts):
+ * - New users get a verified account; returning identities sign in
+ * - Verified emails link to verified accounts only
+ * - State is single-use and bound to the browser that started the flow
+ * - 2FA still applies after a social sign-in
+ * - Linking and unlinking identities from the profile (audit logged)
+ */
+
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { AppError, AuthenticationError, NotFoundError } from '../../../frontend/lib/errors.ts';
+import { hashPassword } from '../../../shared/lib/password.ts';
+import { generateSecret, generateTOTP } from '../../../shared/lib/totp.ts';
+import {
+  AuditLogRepository,
+  IdentityRepository,
+  LoginSecurityRepository,
+  NotificationRepository,
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from '../../../shared/repositories/index.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
+import { AuthService } from '../../../shared/services/auth.service.ts';
+import { OidcService } from '../../../shared/services/OidcService.ts';
+import type { User } from '../../../shared/types/user.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+import { type MockOidcProvider, type MockOidcUser, startMockOidcProvider } from '../../helpers/mock-oidc-provider.ts';
+
+const alice: MockOidcUser = { sub: 'alice-123', email: 'alice@example.com', email_verified: true, name: 'Alice' };
+
+describe('OidcService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let provider: MockOidcProvider;
+  let service: OidcService;
+  let authService: AuthService;
+  let userRepo: UserRepository;
+  let identityRepo: IdentityRepository;
+  let tokenRepo: TokenRepository;
+  let auditLog: AuditLogService;
+  let originalJwtSecret: string | undefined;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    provider = await startMockOidcProvider();
+    userRepo = new UserRepository({ kv });
+    identityRepo = new IdentityRepository({ kv });
+    tokenRepo = new TokenRepository({ kv });
+    auditLog = new AuditLogService(new AuditLogRepository({ kv }));
+    authService = new AuthService(
+      userRepo,
+      tokenRepo,
+      new LoginSecurityRepository({ kv }),
+      new NotificationRepository({ kv }),
+      auditLog,
+      new WebAuthnCredentialRepository({ kv }),
+    );
+    service = new OidcService(userRepo, identityRepo, tokenRepo, authService, auditLog, [provider.config()]);
+
+    originalJwtSecret = Deno.env.get('JWT_SECRET');
+    Deno.env.set('JWT_SECRET', 'test-secret-key-min-32-characters-long');
+  });
+
+  afterEach(async () => {
+    await provider.close();
+    await cleanup();
+
+    if (originalJwtSecret) {
+      Deno.env.set('JWT_SECRET', originalJwtSecret);
+    } else {
+      Deno.env.delete('JWT_SECRET');
+    }
+  });
+
+  /**
+   * Run the browser side of the flow: start, sign in at the provider, call back
+   */
+  async function signIn(user: MockOidcUser, options: { linkUserId?: string; redirectTo?: string } = {}) {
+    const { authorizationUrl, state } = await service.startAuthorization('mock', options);
+    const { code } = provider.authorize(authorizationUrl, user);
+    return await service.handleCallback('mock', { code, state, browserState: state });
+  }
+
+  async function createUser(email: string, overrides: Partial<User> = {}): Promise<User> {
+    return await userRepo.create({
+      email,
+      password: await hashPassword('password123'),
+      name: 'Existing User',
+      role: 'user',
+      emailVerified: true,
+      emailVerifiedAt: new Date().toISOString(),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: [],
+      ...overrides,
+    });
+  }
+
+  describe('business logic: signing in', () => {
+    it('should create a verified account for a new identity and sign it in', async () => {
+      // Act
+      const result = await signIn(alice, { redirectTo: '/notifications' });
+
+      // Assert
+      assert(result.type === 'login');
+      assertEquals(result.redirectTo, '/notifications');
+
+      const user = await userRepo.findByEmail('alice@example.com');
+      assertExists(user);
+      assertEquals(user.name, 'Alice');
+      assertEquals(user.emailVerified, true);
+
+      const outcome = await service.completeLogin(result.loginCode);
+      assert(!outcome.requiresTwoFactor);
+      assertEquals(outcome.user.id, user.id);
+
+      const { items } = await auditLog.list({ action: 'auth.login' });
+      assertEquals(items[0].metadata['method'], 'social');
+      assertEquals(items[0].metadata['provider'], 'mock');
+
+      const linked = await auditLog.list({ action: 'auth.identity_linked' });
+      assertEquals(linked.items[0].metadata['linkedBy'], 'signup');
+    });
+
+    it('should sign a returning identity in to the same account', async () => {
+      // Arrange
+      const first = await signIn(alice);
+      assert(first.type === 'login');
+      const { userId } = (await tokenRepo.consumeOidcLoginCode(first.loginCode))!;
+
+      // Act: Email changed at the provider since the identity was linked
+      const second = await signIn({ ...alice, email: 'alice@new.example.com' });
+
+      // Assert
+      assert(second.type === 'login');
+      const outcome = await service.completeLogin(second.loginCode);
+      assert(!outcome.requiresTwoFactor);
+      assertEquals(outcome.user.id, userId);
+      assertEquals(await userRepo.findByEmail('alice@new.example.com'), null);
+
+      const identity = await identityRepo.findByProviderSubject('mock', alice.sub);
+      assertEquals(identity?.email, 'alice@new.example.com');
+      assertExists(identity?.lastUsedAt);
+    });
+
+    it('should link a verified email to the matching verified account', async () => {
+      // Arrange
+      const existing = await createUser('alice@example.com');
+
+      // Act
+      const result = await signIn(alice);
+
+      // Assert
+      assert(result.type === 'login');
+      const outcome = await service.completeLogin(result.loginCode);
+      assert(!outcome.requiresTwoFactor);
+      assertEquals(outcome.user.id, existing.id);
+
+      const identities = await service.listIdentities(existing.id);
+      assertEquals(identities.map((i) => i.provider), ['mock']);
+      assertEquals(identities[0].providerName, 'Mock Provider');
+    });
+
+    it('should not link to an account that has not verified its email', async () => {
+      // Arrange: Anyone could have registered this address
+      const existing = await createUser('alice@example.com', { emailVerified: false, emailVerifiedAt: null });
+
+      // Act & Assert
+      await assertRejects(() => signIn(alice), AppError, 'Sign in with your password');
+      assertEquals(await identityRepo.listByUser(existing.id), []);
+    });
+
+    it('should refuse an identity without a verified email', async () => {
+      // Act & Assert
+      await assertRejects(
+        () => signIn({ ...alice, email_verified: false }),
+        AuthenticationError,
+        'no verified email address',
+      );
+      assertEquals(await userRepo.findByEmail('alice@example.com'), null);
+    });
+
+    it('should still require the second factor when 2FA is enabled', async () => {
+      // Arrange
+      const secret = generateSecret();
+      const existing = await createUser('alice@example.com', { twoFactorEnabled: true, twoFactorSecret: secret });
+      const result = await signIn(alice);
+      assert(result.type === 'login');
+
+      // Act
+      const outcome = await service.completeLogin(result.loginCode);
+
+      // Assert
+      assert(outcome.requiresTwoFactor, 'Expected a two-factor challenge');
+      assertEquals(outcome.methods, ['totp']);
+
+      const session = await authService.completeTwoFactorLogin(outcome.challengeToken, await generateTOTP(secret));
+      assertEquals(session.user.id, existing.id);
+
+      const { items } = await auditLog.list({ action: 'auth.login' });
+      assertEquals(items[0].metadata['method'], 'social');
+      assertEquals(items[0].metadata['provider'], 'mock');
+      assertEquals(items[0].metadata['secondFactor'], 'totp');
+    });
+  });
+
+  describe('business logic: request binding', () => {
+    it('should reject a callback from a browser that did not start the flow', async () => {
+      // Arrange: Attacker's own sign-in, replayed in the victim's browser
+      const { authorizationUrl, state } = await service.startAuthorization('mock');
+      const { code } = provider.authorize(authorizationUrl, alice);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.handleCallback('mock', { code, state, browserState: undefined }),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should accept each state and login code only once', async () => {
+      // Arrange
+      const { authorizationUrl, state } = await service.startAuthorization('mock');
+      const { code } = provider.authorize(authorizationUrl, alice);
+      const result = await service.handleCallback('mock', { code, state, browserState: state });
+      assert(result.type === 'login');
+      await service.completeLogin(result.loginCode);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.handleCallback('mock', { code, state, browserState: state }),
+        AuthenticationError,
+        'expired',
+      );
+      await assertRejects(() => service.completeLogin(result.loginCode), AuthenticationError, 'expired');
+    });
+
+    it('should only redirect to paths on this site', async () => {
+      // Act
+      const result = await signIn(alice, { redirectTo: '//evil.example.com/phish' });
+
+      // Assert
+      assertEquals(result.redirectTo, '/');
+    });
+
+    it('should reject providers that are not configured', async () => {
+      // Act & Assert
+      await assertRejects(() => service.startAuthorization('unknown'), NotFoundError);
+    });
+
+    it('should report provider verification failures without details', async () => {
+      // Arrange
+      provider.tamperNextIdToken({ foreignKey: true });
+
+      // Act & Assert
+      await assertRejects(() => signIn(alice), AuthenticationError, 'Sign-in with the provider failed');
+    });
+  });
+
+  describe('business logic: managing linked identities', () => {
+    it('should link an identity to the signed-in user and unlink it again', async () => {
+      // Arrange: Different email at the provider - linking doesn't depend on it
+      const user = await createUser('someone@example.com');
+
+      // Act
+      const result = await signIn(alice, { linkUserId: user.id });
+
+      // Assert
+      assertEquals(result, { type: 'linked', provider: 'mock', redirectTo: '/profile' });
+      assertEquals((await service.listIdentities(user.id)).length, 1);
+      assertEquals(await userRepo.findByEmail('alice@example.com'), null);
+
+      await service.unlinkIdentity(user.id, 'mock');
+      assertEquals(await service.listIdentities(user.id), []);
+      await assertRejects(() => service.unlinkIdentity(user.id, 'mock'), NotFoundError);
+
+      const linked = await auditLog.list({ action: 'auth.identity_linked' });
+      assertEquals(linked.items[0].actorId, user.id);
+      const unlinked = await auditLog.list({ action: 'auth.identity_unlinked' });
+      assertEquals(unlinked.items.length, 1);
+    });
+
+    it('should not link an identity that belongs to another user', async () => {
+      // Arrange
+      await signIn(alice);
+      const other = await createUser('other@example.com');
+
+      // Act & Assert
+      await assertRejects(
+        () => signIn(alice, { linkUserId: other.id }),
+        AppError,
+        'already linked to another user',
+      );
+    });
+
+    it('should allow one identity per provider', async () => {
+      // Arrange
+      const user = await createUser('someone@example.com');
+      await signIn(alice, { linkUserId: user.id });
+
+      // Act & Assert
+      await assertRejects(
+        () => signIn({ ...alice, sub: 'alice-second-account' }, { linkUserId: user.id }),
+        AppError,
+        'Unlink it first',
+      );
+    });
+  });
+});
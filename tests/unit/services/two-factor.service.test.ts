@@ -19,8 +19,9 @@ import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { AppError, AuthenticationError, NotFoundError } from '../../../frontend/lib/errors.ts';
 import { hashPassword } from '../../../shared/lib/password.ts';
 import { generateSecret, generateTOTP } from '../../../shared/lib/totp.ts';
-import { UserRepository } from '../../../shared/repositories/index.ts';
+import { AuditLogRepository, UserRepository } from '../../../shared/repositories/index.ts';
 import { TokenRepository } from '../../../shared/repositories/token-repository.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
 import { AuthService } from '../../../shared/services/auth.service.ts';
 import { TwoFactorService } from '../../../shared/services/TwoFactorService.ts';
 import { setupTestKv } from '../../helpers/kv-test.ts';
@@ -37,8 +38,9 @@ describe('TwoFactorService', () => {
     cleanup = setup.cleanup;
     userRepo = new UserRepository({ kv });
     const tokenRepo = new TokenRepository({ kv });
-    const authService = new AuthService(userRepo, tokenRepo);
-    service = new TwoFactorService(userRepo, authService);
+    const auditLog = new AuditLogService(new AuditLogRepository({ kv }));
+    const authService = new AuthService(userRepo, tokenRepo, undefined, undefined, auditLog);
+    service = new TwoFactorService(userRepo, authService, auditLog);
   });
 
   afterEach(async () => {
@@ -0,0 +1,197 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * UploadService Tests
+ *
+ * Tests business logic for file uploads including:
+ * - Storing bytes and metadata together
+ * - Size and type validation
+ * - Ownership checks on delete
+ * - Variant cleanup on delete
+ *
+ * Uses an in-memory Storage so no files touch disk.
+ * Focus: Upload rules, not image processing internals
+ */
+
+import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { AuthorizationError, NotFoundError, ValidationError } from '../../../frontend/lib/errors.ts';
+import type { Storage, UploadOptions } from '../../../shared/lib/storage.ts';
+import { FileRepository } from '../../../shared/repositories/index.ts';
+import { UPLOAD_LIMITS, UploadService } from '../../../shared/services/UploadService.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+/**
+ * Minimal in-memory Storage implementation
+ */
+class MemoryStorage implements Storage {
+  files = new Map<string, Uint8Array>();
+
+  upload(options: UploadOptions): Promise<string> {
+    const path = options.folder ? `${options.folder}/${options.filename}` : options.filename;
+    const data = options.file instanceof ArrayBuffer ? new Uint8Array(options.file) : options.file;
+    this.files.set(path, data);
+    return Promise.resolve(path);
+  }
+
+  download(path: string): Promise<Uint8Array> {
+    const data = this.files.get(path);
+    return data ? Promise.resolve(data) : Promise.reject(new Deno.errors.NotFound(path));
+  }
+
+  delete(path: string): Promise<void> {
+    this.files.delete(path);
+    return Promise.resolve();
+  }
+
+  getSignedUrl(path: string): Promise<string> {
+    return Promise.resolve(`/uploads/${path}`);
+  }
+
+  list(prefix = ''): Promise<string[]> {
+    return Promise.resolve([...this.files.keys()].filter((key) => key.startsWith(prefix)));
+  }
+
+  exists(path: string): Promise<boolean> {
+    return Promise.resolve(this.files.has(path));
+  }
+}
+
+function textUpload(content = 'hello world', name = 'notes.txt') {
+  return { name, type: 'text/plain', data: new TextEncoder().encode(content) };
+}
+
+describe('UploadService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let fileRepo: FileRepository;
+  let storage: MemoryStorage;
+  let service: UploadService;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    fileRepo = new FileRepository({ kv });
+    storage = new MemoryStorage();
+    service = new UploadService(fileRepo, storage);
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  describe('business logic: upload file', () => {
+    it('should store bytes and record metadata', async () => {
+      const result = await service.uploadFile('user-1', textUpload());
+
+      assertExists(result.file.id);
+      assertEquals(result.url, `/api/uploads/${result.file.id}`);
+      assertEquals(result.file.userId, 'user-1');
+      assertEquals(result.file.contentType, 'text/plain');
+      assertEquals(result.file.size, 11);
+      assertEquals(result.file.originalName, 'notes.txt');
+      assertEquals(result.file.storagePath, `files/user-1/${result.file.id}.txt`);
+
+      assertEquals(await storage.exists(result.file.storagePath), true);
+      const stored = await fileRepo.findById(result.file.id);
+      assertEquals(stored?.storagePath, result.file.storagePath);
+    });
+
+    it('should reject empty files', async () => {
+      await assertRejects(
+        () => service.uploadFile('user-1', textUpload('')),
+        ValidationError,
+      );
+    });
+
+    it('should reject files over the size limit', async () => {
+      const upload = {
+        name: 'big.bin',
+        type: 'application/octet-stream',
+        data: new Uint8Array(UPLOAD_LIMITS.file + 1),
+      };
+
+      await assertRejects(() => service.uploadFile('user-1', upload), ValidationError);
+      assertEquals(storage.files.size, 0);
+    });
+  });
+
+  describe('business logic: image validation', () => {
+    it('should reject non-image uploads to image endpoints', async () => {
+      await assertRejects(() => service.uploadImage('user-1', textUpload()), ValidationError);
+      await assertRejects(() => service.uploadAvatar('user-1', textUpload()), ValidationError);
+      assertEquals(storage.files.size, 0);
+    });
+  });
+
+  describe('business logic: read and list files', () => {
+    it('should return stored content', async () => {
+      const { file } = await service.uploadFile('user-1', textUpload('content'));
+
+      const result = await service.getFile(file.id);
+
+      assertEquals(new TextDecoder().decode(result.content), 'content');
+    });
+
+    it('should throw NotFoundError for unknown files', async () => {
+      await assertRejects(() => service.getFile('missing'), NotFoundError);
+    });
+
+    it('should list only the owner\'s files', async () => {
+      await service.uploadFile('user-1', textUpload('a'));
+      await service.uploadFile('user-1', textUpload('b'));
+      await service.uploadFile('user-2', textUpload('c'));
+
+      const files = await service.listUserFiles('user-1');
+
+      assertEquals(files.length, 2);
+      assertEquals(files.every((f) => f.userId === 'user-1'), true);
+    });
+  });
+
+  describe('business logic: delete file', () => {
+    it('should let the owner delete a file', async () => {
+      const { file } = await service.uploadFile('user-1', textUpload());
+
+      await service.deleteFile(file.id, 'user-1');
+
+      assertEquals(await fileRepo.findById(file.id), null);
+      assertEquals(await storage.exists(file.storagePath), false);
+    });
+
+    it('should prevent deleting another user\'s file', async () => {
+      const { file } = await service.uploadFile('user-1', textUpload());
+
+      await assertRejects(() => service.deleteFile(file.id, 'user-2'), AuthorizationError);
+      assertExists(await fileRepo.findById(file.id));
+    });
+
+    it('should allow admins to delete any file', async () => {
+      const { file } = await service.uploadFile('user-1', textUpload());
+
+      await service.deleteFile(file.id, 'admin-1', true);
+
+      assertEquals(await fileRepo.findById(file.id), null);
+    });
+
+    it('should delete derived variants with the original', async () => {
+      const { file } = await service.uploadFile('user-1', textUpload());
+      const variant = await fileRepo.create({
+        userId: 'user-1',
+        category: 'image',
+        variant: 'thumbnail',
+        parentId: file.id,
+        originalName: 'notes.txt',
+        contentType: 'image/jpeg',
+        size: 1,
+        storagePath: 'images/user-1/thumb.jpg',
+      });
+
+      await service.deleteFile(file.id, 'user-1');
+
+      assertEquals(await fileRepo.findById(variant.id), null);
+      assertEquals((await service.listUserFiles('user-1')).length, 0);
+    });
+  });
+});
@@ -10,6 +10,7 @@
  * - Role updates with self-demotion prevention
  * - Email verification
  * - Session revocation
+ * - Audit logging of admin actions
  *
  * Focus: Admin authorization rules and business logic
  */
@@ -18,7 +19,16 @@ import { assertEquals, assertExists, assertRejects } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { AppError, AuthorizationError, NotFoundError } from '../../../frontend/lib/errors.ts';
 import { hashPassword } from '../../../shared/lib/password.ts';
-import { TokenRepository, UserRepository } from '../../../shared/repositories/index.ts';
+import {
+  AuditLogRepository,
+  IdentityRepository,
+  NotificationPreferencesRepository,
+  PushSubscriptionRepository,
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from '../../../shared/repositories/index.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
 import { UserManagementService } from '../../../shared/services/UserManagementService.ts';
 import { setupTestKv } from '../../helpers/kv-test.ts';
 
@@ -28,6 +38,7 @@ describe('UserManagementService', () => {
   let service: UserManagementService;
   let userRepo: UserRepository;
   let tokenRepo: TokenRepository;
+  let auditLog: AuditLogService;
 
   beforeEach(async () => {
     const setup = await setupTestKv();
@@ -35,7 +46,16 @@ describe('UserManagementService', () => {
     cleanup = setup.cleanup;
     userRepo = new UserRepository({ kv });
     tokenRepo = new TokenRepository({ kv });
-    service = new UserManagementService(userRepo, tokenRepo);
+    auditLog = new AuditLogService(new AuditLogRepository({ kv }));
+    service = new UserManagementService(
+      userRepo,
+      tokenRepo,
+      auditLog,
+      new WebAuthnCredentialRepository({ kv }),
+      new IdentityRepository({ kv }),
+      new NotificationPreferencesRepository({ kv }),
+      new PushSubscriptionRepository({ kv }),
+    );
   });
 
   afterEach(async () => {
@@ -304,12 +324,20 @@ describe('UserManagementService', () => {
       });
 
       // Act: Promote user to admin
-      await service.updateUserRole(user.id, 'admin', admin.id);
+      await service.updateUserRole(user.id, 'admin', admin.id, { ipAddress: '198.51.100.4' });
 
       // Assert: Business logic - role updated
       const updatedUser = await userRepo.findById(user.id);
       assertExists(updatedUser);
       assertEquals(updatedUser.role, 'admin');
+
+      // Assert: Change is audited with the acting admin
+      const { items } = await auditLog.list({ action: 'user.role_changed' });
+      assertEquals(items.length, 1);
+      assertEquals(items[0].actorId, admin.id);
+      assertEquals(items[0].targetId, user.id);
+      assertEquals(items[0].ipAddress, '198.51.100.4');
+      assertEquals(items[0].metadata, { from: 'user', to: 'admin' });
     });
 
     it('should prevent admin from demoting themselves', async () => {
@@ -0,0 +1,261 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * UserProfileService Tests
+ *
+ * Tests business logic for self-service profile operations including:
+ * - Profile reads and name updates
+ * - Email change needing the current password and staying pending until confirmed
+ * - Email index moving only on confirmation, which signs out every session
+ * - Cancelling a change from the link sent to the current address
+ * - Password change revoking other sessions
+ *
+ * Focus: Business rules, not HTTP/framework logic
+ */
+
+import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  AppError,
+  AuthenticationError,
+  ConflictError,
+  ValidationError,
+} from '../../../frontend/lib/errors.ts';
+import { createRefreshToken } from '../../../shared/lib/jwt.ts';
+import { verifyPassword } from '../../../shared/lib/password.ts';
+import { TokenRepository, UserRepository } from '../../../shared/repositories/index.ts';
+import { UserProfileService } from '../../../shared/services/UserProfileService.ts';
+import type { User } from '../../../shared/types/user.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+describe('UserProfileService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let service: UserProfileService;
+  let userRepo: UserRepository;
+  let tokenRepo: TokenRepository;
+  let originalJwtSecret: string | undefined;
+
+  function createUser(email = 'user@example.com'): Promise<User> {
+    return userRepo.create({
+      email,
+      password: 'Password123',
+      name: 'Test User',
+      role: 'user',
+      emailVerified: true,
+      emailVerifiedAt: new Date().toISOString(),
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: [],
+    });
+  }
+
+  /**
+   * Start an email change with the right password; returns the confirmation token
+   */
+  async function requestChange(userId: string, newEmail: string): Promise<string> {
+    return (await service.requestEmailChange(userId, newEmail, 'Password123')).changeToken;
+  }
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    userRepo = new UserRepository({ kv });
+    tokenRepo = new TokenRepository({ kv });
+    service = new UserProfileService(userRepo, tokenRepo);
+
+    originalJwtSecret = Deno.env.get('JWT_SECRET');
+    Deno.env.set('JWT_SECRET', 'test-secret-key-min-32-characters-long');
+  });
+
+  afterEach(async () => {
+    await cleanup();
+
+    if (originalJwtSecret) {
+      Deno.env.set('JWT_SECRET', originalJwtSecret);
+    } else {
+      Deno.env.delete('JWT_SECRET');
+    }
+  });
+
+  describe('business logic: profile updates', () => {
+    it('should return a sanitized profile', async () => {
+      const user = await createUser();
+
+      const profile = await service.getProfile(user.id);
+
+      assertEquals(profile.email, 'user@example.com');
+      assertEquals(profile.pendingEmail, null);
+      assertEquals('password' in profile, false);
+    });
+
+    it('should update name immediately', async () => {
+      const user = await createUser();
+
+      const result = await service.updateProfile(user.id, { name: 'New Name' });
+
+      assertEquals(result.profile.name, 'New Name');
+      assertEquals(result.emailChange, null);
+      assertEquals((await userRepo.findById(user.id))?.name, 'New Name');
+    });
+  });
+
+  describe('business logic: email change', () => {
+    it('should keep the old email until the change is confirmed', async () => {
+      const user = await createUser();
+
+      const result = await service.updateProfile(user.id, { email: 'new@example.com', currentPassword: 'Password123' });
+
+      assertExists(result.emailChange);
+      assertEquals(result.profile.email, 'user@example.com');
+      assertEquals(result.profile.pendingEmail, 'new@example.com');
+      assertEquals((await userRepo.findByEmail('user@example.com'))?.id, user.id);
+      assertEquals(await userRepo.findByEmail('new@example.com'), null);
+    });
+
+    it('should require the current password', async () => {
+      const user = await createUser();
+
+      await assertRejects(
+        () => service.updateProfile(user.id, { email: 'new@example.com' }),
+        ValidationError,
+        'Current password is required',
+      );
+      await assertRejects(
+        () => service.requestEmailChange(user.id, 'new@example.com', 'WrongPass123'),
+        AuthenticationError,
+      );
+      assertEquals((await service.getProfile(user.id)).pendingEmail, null);
+    });
+
+    it('should move the email index on confirmation', async () => {
+      const user = await createUser();
+      const token = await requestChange(user.id, 'new@example.com');
+
+      const profile = await service.confirmEmailChange(token);
+
+      assertEquals(profile.email, 'new@example.com');
+      assertEquals(profile.pendingEmail, null);
+      assertEquals((await userRepo.findByEmail('new@example.com'))?.id, user.id);
+      assertEquals(await userRepo.findByEmail('user@example.com'), null);
+    });
+
+    it('should reject a token once used', async () => {
+      const user = await createUser();
+      const token = await requestChange(user.id, 'new@example.com');
+      await service.confirmEmailChange(token);
+
+      await assertRejects(() => service.confirmEmailChange(token), AppError);
+    });
+
+    it('should invalidate the previous token when a new change is requested', async () => {
+      const user = await createUser();
+      const first = await requestChange(user.id, 'first@example.com');
+      await requestChange(user.id, 'second@example.com');
+
+      await assertRejects(() => service.confirmEmailChange(first), AppError);
+      assertEquals((await service.getProfile(user.id)).pendingEmail, 'second@example.com');
+    });
+
+    it('should reject an email already in use', async () => {
+      const user = await createUser();
+      await createUser('taken@example.com');
+
+      await assertRejects(
+        () => service.updateProfile(user.id, { name: 'Changed', email: 'taken@example.com', currentPassword: 'Password123' }),
+        ConflictError,
+      );
+      // Name is not applied when the email part fails
+      assertEquals((await userRepo.findById(user.id))?.name, 'Test User');
+    });
+
+    it('should reject confirmation if the address was registered meanwhile', async () => {
+      const user = await createUser();
+      const token = await requestChange(user.id, 'new@example.com');
+      await createUser('new@example.com');
+
+      await assertRejects(() => service.confirmEmailChange(token), ConflictError);
+      assertEquals((await userRepo.findById(user.id))?.email, 'user@example.com');
+    });
+
+    it('should drop a cancelled change', async () => {
+      const user = await createUser();
+      const token = await requestChange(user.id, 'new@example.com');
+
+      await service.cancelEmailChange(user.id);
+
+      assertEquals((await service.getProfile(user.id)).pendingEmail, null);
+      await assertRejects(() => service.confirmEmailChange(token), AppError);
+    });
+
+    it('should sign out every session on confirmation', async () => {
+      const user = await createUser();
+      const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+      const session = await createRefreshToken({ sub: user.id });
+      await tokenRepo.storeRefreshToken(user.id, session.tokenId, expiresAt);
+      const token = await requestChange(user.id, 'new@example.com');
+
+      await service.confirmEmailChange(token);
+
+      assertEquals(await tokenRepo.verifyRefreshToken(user.id, session.tokenId), false);
+    });
+
+    it('should let the current address cancel the change', async () => {
+      const user = await createUser();
+      const { changeToken, cancelToken } = await service.requestEmailChange(user.id, 'new@example.com', 'Password123');
+
+      const newEmail = await service.cancelEmailChangeByToken(cancelToken);
+
+      assertEquals(newEmail, 'new@example.com');
+      assertEquals((await service.getProfile(user.id)).pendingEmail, null);
+      await assertRejects(() => service.confirmEmailChange(changeToken), AppError);
+      await assertRejects(() => service.cancelEmailChangeByToken(cancelToken), AppError);
+    });
+
+    it('should not cancel a newer change with an older cancel link', async () => {
+      const user = await createUser();
+      const first = await service.requestEmailChange(user.id, 'first@example.com', 'Password123');
+      await requestChange(user.id, 'second@example.com');
+
+      await assertRejects(() => service.cancelEmailChangeByToken(first.cancelToken), AppError);
+      assertEquals((await service.getProfile(user.id)).pendingEmail, 'second@example.com');
+    });
+  });
+
+  describe('business logic: change password', () => {
+    it('should require the current password', async () => {
+      const user = await createUser();
+
+      await assertRejects(
+        () => service.changePassword(user.id, 'WrongPass123', 'NewPassword123'),
+        AuthenticationError,
+      );
+    });
+
+    it('should reject reusing the current password', async () => {
+      const user = await createUser();
+
+      await assertRejects(
+        () => service.changePassword(user.id, 'Password123', 'Password123'),
+        ValidationError,
+      );
+    });
+
+    it('should update the password and revoke other sessions only', async () => {
+      const user = await createUser();
+      const expiresAt = Math.floor(Date.now() / 1000) + 3600;
+      const current = await createRefreshToken({ sub: user.id });
+      const other = await createRefreshToken({ sub: user.id });
+      await tokenRepo.storeRefreshToken(user.id, current.tokenId, expiresAt);
+      await tokenRepo.storeRefreshToken(user.id, other.tokenId, expiresAt);
+
+      await service.changePassword(user.id, 'Password123', 'NewPassword123', current.token);
+
+      const updated = await userRepo.findById(user.id);
+      assertEquals(await verifyPassword('NewPassword123', updated!.password), true);
+      assertEquals(await tokenRepo.verifyRefreshToken(user.id, current.tokenId), true);
+      assertEquals(await tokenRepo.verifyRefreshToken(user.id, other.tokenId), false);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * WebPushService Tests
+ *
+ * Pushes go to a local push service (tests/helpers/mock-push-service.ts)
+ * that checks VAPID and decrypts each message:
+ * - Subscribing validates the endpoint and keys and caps browsers per user
+ * - Only endpoints on allowed push service hosts are used (the local one here)
+ * - Notifications arrive as the service worker payload, with TTL, urgency and topic
+ * - Gone subscriptions and subscriptions for an old VAPID key are removed
+ * - Unsubscribing only touches the user's own browsers
+ */
+
+import { assert, assertEquals, assertExists, assertNotEquals, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { ValidationError } from '../../../frontend/lib/errors.ts';
+import { WebPushConfig } from '../../../shared/lib/config.ts';
+import { VapidKeyStore } from '../../../shared/lib/vapid-keys.ts';
+import { PushSubscriptionRepository } from '../../../shared/repositories/index.ts';
+import { WebPushService } from '../../../shared/services/WebPushService.ts';
+import type { NotificationData } from '../../../shared/types/notifications.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+import { type MockPushService, startMockPushService } from '../../helpers/mock-push-service.ts';
+
+function buildNotification(overrides: Partial<NotificationData> = {}): NotificationData {
+  return {
+    id: crypto.randomUUID(),
+    userId: 'user-1',
+    type: 'info',
+    title: 'Build finished',
+    message: 'Your export is ready to download',
+    read: false,
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('WebPushService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let pushService: MockPushService;
+  let subscriptionRepo: PushSubscriptionRepository;
+  let service: WebPushService;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    pushService = await startMockPushService();
+    subscriptionRepo = new PushSubscriptionRepository({ kv });
+    service = new WebPushService(subscriptionRepo, new VapidKeyStore({ getKv: () => Promise.resolve(kv) }), [
+      '127.0.0.1',
+    ]);
+  });
+
+  afterEach(async () => {
+    await pushService.close();
+    await cleanup();
+  });
+
+  describe('subscribe', () => {
+    it('should store one subscription per browser', async () => {
+      // Arrange
+      const browser = await pushService.createSubscription();
+
+      // Act
+      const first = await service.subscribe('user-1', browser, 'Firefox');
+      const again = await service.subscribe('user-1', browser, 'Firefox');
+
+      // Assert
+      assertEquals(first.id, again.id);
+      assertEquals(first.vapidPublicKey, await service.getPublicKey());
+      assertEquals((await service.listSubscriptions('user-1')).map((s) => s.userAgent), ['Firefox']);
+    });
+
+    it('should move a browser to the user who subscribed on it last', async () => {
+      // Arrange
+      const browser = await pushService.createSubscription();
+      await service.subscribe('user-1', browser);
+
+      // Act
+      await service.subscribe('user-2', browser);
+
+      // Assert
+      assertEquals(await service.listSubscriptions('user-1'), []);
+      assertEquals((await service.listSubscriptions('user-2')).length, 1);
+    });
+
+    it('should reject endpoints that are not on an allowed push service', async () => {
+      // Arrange
+      const browser = await pushService.createSubscription();
+      const internal = [
+        'http://169.254.169.254/latest/meta-data',
+        'https://localhost/push/1',
+        'https://fcm.googleapis.com.example.com/fcm/send/abc',
+      ];
+
+      // Act & Assert
+      for (const endpoint of internal) {
+        await assertRejects(
+          () => service.subscribe('user-1', { ...browser, endpoint }),
+          ValidationError,
+          'not a known push service',
+        );
+      }
+      assertEquals(await subscriptionRepo.listByUser('user-1'), []);
+    });
+
+    it('should accept the browser push services by default', async () => {
+      // Arrange
+      const defaults = new WebPushService(subscriptionRepo, new VapidKeyStore({ getKv: () => Promise.resolve(kv) }));
+      const browser = await pushService.createSubscription();
+
+      // Act
+      await defaults.subscribe('user-1', { ...browser, endpoint: 'https://fcm.googleapis.com/fcm/send/abc' });
+      await defaults.subscribe('user-1', { ...browser, endpoint: 'https://updates.push.services.mozilla.com/wpush/v2/abc' });
+
+      // Assert
+      assertEquals((await subscriptionRepo.listByUser('user-1')).length, 2);
+      await assertRejects(() => defaults.subscribe('user-1', browser), ValidationError);
+    });
+
+    it('should reject keys of the wrong size', async () => {
+      // Arrange
+      const browser = await pushService.createSubscription();
+
+      // Act & Assert
+      await assertRejects(
+        () => service.subscribe('user-1', { ...browser, keys: { ...browser.keys, auth: 'c2hvcnQ' } }),
+        ValidationError,
+        'Invalid push subscription keys',
+      );
+    });
+
+    it('should drop the oldest browser beyond the per-user limit', async () => {
+      // Arrange
+      const browsers = [];
+      for (let i = 0; i <= WebPushConfig.MAX_SUBSCRIPTIONS_PER_USER; i++) {
+        browsers.push(await pushService.createSubscription());
+      }
+
+      // Act
+      for (const browser of browsers) {
+        await service.subscribe('user-1', browser);
+        await new Promise((resolve) => setTimeout(resolve, 2)); // Distinct createdAt
+      }
+
+      // Assert
+      const stored = await subscriptionRepo.listByUser('user-1');
+      assertEquals(stored.length, WebPushConfig.MAX_SUBSCRIPTIONS_PER_USER);
+      assert(!stored.some((s) => s.endpoint === browsers[0].endpoint));
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it("should not remove another user's browser", async () => {
+      // Arrange
+      const browser = await pushService.createSubscription();
+      await service.subscribe('user-1', browser);
+
+      // Act
+      const removedByOther = await service.unsubscribe('user-2', browser.endpoint);
+      const removedByOwner = await service.unsubscribe('user-1', browser.endpoint);
+
+      // Assert
+      assertEquals(removedByOther, false);
+      assertEquals(removedByOwner, true);
+      assertEquals(await service.listSubscriptions('user-1'), []);
+    });
+  });
+
+  describe('sendNotification', () => {
+    it('should push the notification to every subscribed browser', async () => {
+      // Arrange
+      await service.subscribe('user-1', await pushService.createSubscription());
+      await service.subscribe('user-1', await pushService.createSubscription());
+      const notification = buildNotification({
+        link: '/exports',
+        priority: 'urgent',
+        groupKey: 'exports',
+        groupCount: 3,
+        actions: [
+          { type: 'link', label: 'Download', url: '/exports/latest' },
+          { type: 'api', label: 'Dismiss', method: 'DELETE', path: `/api/notifications/${crypto.randomUUID()}` },
+        ],
+      });
+
+      // Act
+      const result = await service.sendNotification('user-1', notification);
+
+      // Assert
+      assertEquals(result, { sent: 2, removed: 0, failed: 0 });
+      assertEquals(pushService.rejected, []);
+
+      const [message] = pushService.messages;
+      assertEquals(message.ttl, WebPushConfig.DEFAULT_TTL_SECONDS);
+      assertEquals(message.urgency, 'high');
+      assertExists(message.topic);
+      assertEquals(JSON.parse(message.payload), {
+        id: notification.id,
+        type: 'info',
+        title: 'Build finished',
+        body: 'Your export is ready to download',
+        link: '/exports',
+        actions: [{ label: 'Download', url: '/exports/latest' }],
+        priority: 'urgent',
+        groupCount: 3,
+        tag: 'exports',
+        createdAt: notification.createdAt,
+      });
+
+      const [stored] = await subscriptionRepo.listByUser('user-1');
+      assertNotEquals(stored.lastSuccessAt, null);
+    });
+
+    it('should shorten messages too long for one push', async () => {
+      // Arrange
+      await service.subscribe('user-1', await pushService.createSubscription());
+
+      // Act
+      const result = await service.sendNotification('user-1', buildNotification({ message: 'x'.repeat(5000) }));
+
+      // Assert
+      assertEquals(result.sent, 1);
+      const payload = JSON.parse(pushService.messages[0].payload);
+      assert(payload.body.length < 5000);
+      assert(payload.body.endsWith('…'));
+    });
+
+    it('should hold the message only until the notification expires', async () => {
+      // Arrange
+      await service.subscribe('user-1', await pushService.createSubscription());
+      const expiresAt = new Date(Date.now() + 600_000).toISOString();
+
+      // Act
+      await service.sendNotification('user-1', buildNotification({ expiresAt }));
+      const expired = await service.sendNotification(
+        'user-1',
+        buildNotification({ expiresAt: new Date(Date.now() - 1000).toISOString() }),
+      );
+
+      // Assert
+      assert(pushService.messages[0].ttl <= 600 && pushService.messages[0].ttl >= 590);
+      assertEquals(expired, { sent: 0, removed: 0, failed: 0 });
+      assertEquals(pushService.messages.length, 1);
+    });
+
+    it('should remove subscriptions the push service reports gone', async () => {
+      // Arrange
+      const gone = await pushService.createSubscription();
+      await service.subscribe('user-1', gone);
+      await service.subscribe('user-1', await pushService.createSubscription());
+      pushService.expire(gone.endpoint);
+
+      // Act
+      const result = await service.sendNotification('user-1', buildNotification());
+
+      // Assert
+      assertEquals(result, { sent: 1, removed: 1, failed: 0 });
+      const remaining = await subscriptionRepo.listByUser('user-1');
+      assertEquals(remaining.length, 1);
+      assertNotEquals(remaining[0].endpoint, gone.endpoint);
+    });
+
+    it('should remove subscriptions made with another VAPID key', async () => {
+      // Arrange
+      const subscription = await service.subscribe('user-1', await pushService.createSubscription());
+      await subscriptionRepo.save({ ...subscription, vapidPublicKey: 'old-key' });
+
+      // Act
+      const result = await service.sendNotification('user-1', buildNotification());
+
+      // Assert
+      assertEquals(result, { sent: 0, removed: 1, failed: 0 });
+      assertEquals(pushService.messages.length, 0);
+      assertEquals(await subscriptionRepo.listByUser('user-1'), []);
+    });
+
+    it('should not push to a stored endpoint that is no longer allowed', async () => {
+      // Arrange
+      const subscription = await service.subscribe('user-1', await pushService.createSubscription());
+      await subscriptionRepo.save({ ...subscription, endpoint: 'http://10.0.0.1/admin' });
+
+      // Act
+      const result = await service.sendNotification('user-1', buildNotification());
+
+      // Assert
+      assertEquals(result, { sent: 0, removed: 1, failed: 0 });
+      assertEquals(await subscriptionRepo.listByUser('user-1'), []);
+    });
+  });
+});
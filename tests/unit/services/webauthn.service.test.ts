@@ -0,0 +1,353 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * WebAuthnService Tests
+ *
+ * Tests passkey business rules using the recorded ceremonies in
+ * tests/fixtures/webauthn.ts:
+ * - Registration requires the password and a pending challenge
+ * - Challenges are single-use and bound to their user and ceremony
+ * - Sign-in checks ownership, the user handle and the signature counter
+ * - Listing and removing passkeys (audit logged)
+ */
+
+import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { AppError, AuthenticationError, NotFoundError } from '../../../frontend/lib/errors.ts';
+import { WebAuthnConfig } from '../../../shared/lib/config.ts';
+import { decodeUserHandle } from '../../../shared/lib/webauthn.ts';
+import { hashPassword } from '../../../shared/lib/password.ts';
+import {
+  AuditLogRepository,
+  TokenRepository,
+  UserRepository,
+  WebAuthnCredentialRepository,
+} from '../../../shared/repositories/index.ts';
+import { AuditLogService } from '../../../shared/services/AuditLogService.ts';
+import { AuthService } from '../../../shared/services/auth.service.ts';
+import { WebAuthnService } from '../../../shared/services/WebAuthnService.ts';
+import { AuthenticationCredentialSchema, RegistrationCredentialSchema } from '../../../shared/types/webauthn.ts';
+import { webauthnFixtures } from '../../fixtures/webauthn.ts';
+import { setupTestKv } from '../../helpers/kv-test.ts';
+
+const { userId, platformPasskey, securityKey } = webauthnFixtures;
+
+type Fixture = typeof platformPasskey | typeof securityKey;
+
+describe('WebAuthnService', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let service: WebAuthnService;
+  let userRepo: UserRepository;
+  let tokenRepo: TokenRepository;
+  let credentialRepo: WebAuthnCredentialRepository;
+  let auditLog: AuditLogService;
+  let originalFrontendUrl: string | undefined;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    userRepo = new UserRepository({ kv });
+    tokenRepo = new TokenRepository({ kv });
+    credentialRepo = new WebAuthnCredentialRepository({ kv });
+    auditLog = new AuditLogService(new AuditLogRepository({ kv }));
+    const authService = new AuthService(userRepo, tokenRepo, undefined, undefined, auditLog, credentialRepo);
+    service = new WebAuthnService(userRepo, credentialRepo, tokenRepo, authService, auditLog);
+
+    // Fixtures were recorded for http://localhost:3000
+    originalFrontendUrl = Deno.env.get('FRONTEND_URL');
+    Deno.env.set('FRONTEND_URL', 'http://localhost:3000');
+  });
+
+  afterEach(async () => {
+    await cleanup();
+
+    if (originalFrontendUrl) {
+      Deno.env.set('FRONTEND_URL', originalFrontendUrl);
+    } else {
+      Deno.env.delete('FRONTEND_URL');
+    }
+  });
+
+  /**
+   * Store a pending challenge with the value a fixture was recorded against
+   */
+  async function seedChallenge(
+    challenge: string,
+    ceremony: 'registration' | 'authentication',
+    forUser: string | null,
+  ): Promise<string> {
+    const challengeId = crypto.randomUUID();
+    await tokenRepo.storeWebAuthnChallenge(challengeId, {
+      challenge,
+      userId: forUser,
+      ceremony,
+      expiresAt: Math.floor(Date.now() / 1000) + 300,
+    });
+    return challengeId;
+  }
+
+  async function register(fixture: Fixture, owner = userId, name?: string) {
+    const challengeId = await seedChallenge(fixture.registration.challenge, 'registration', owner);
+    return await service.finishRegistration(
+      owner,
+      challengeId,
+      RegistrationCredentialSchema.parse(fixture.registration.credential),
+      name,
+    );
+  }
+
+  function assertion(fixture: Fixture) {
+    return AuthenticationCredentialSchema.parse(fixture.authentication.credential);
+  }
+
+  describe('business logic: registration', () => {
+    it('should require the password to start registration', async () => {
+      // Arrange
+      const user = await userRepo.create({
+        email: 'passkey@example.com',
+        password: await hashPassword('password123'),
+        name: 'Passkey User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+
+      // Act & Assert
+      await assertRejects(
+        () => service.startRegistration(user.id, 'wrong-password'),
+        AuthenticationError,
+        'Invalid password',
+      );
+
+      const { challengeId, options } = await service.startRegistration(user.id, 'password123');
+      assertExists(challengeId);
+      assertEquals(options.rp.id, 'localhost');
+      assertEquals(decodeUserHandle(options.user.id), user.id);
+      assertEquals(options.user.name, 'passkey@example.com');
+    });
+
+    it('should save a verified passkey and record it in the audit log', async () => {
+      // Act
+      const passkey = await register(platformPasskey, userId, 'MacBook Touch ID');
+
+      // Assert
+      assertEquals(passkey.id, platformPasskey.registration.credential.id);
+      assertEquals(passkey.name, 'MacBook Touch ID');
+      assertEquals(passkey.backedUp, true);
+      assertEquals(passkey.lastUsedAt, null);
+
+      const stored = await credentialRepo.findById(passkey.id);
+      assertEquals(stored?.userId, userId);
+      assertEquals(stored?.signCount, 0);
+
+      const { items } = await auditLog.list({ action: 'auth.passkey_registered' });
+      assertEquals(items.length, 1);
+      assertEquals(items[0].targetId, userId);
+    });
+
+    it('should exclude already registered passkeys and enforce the limit', async () => {
+      // Arrange
+      const user = await userRepo.create({
+        email: 'limit@example.com',
+        password: await hashPassword('password123'),
+        name: 'Limit User',
+        role: 'user',
+        emailVerified: true,
+        emailVerifiedAt: new Date().toISOString(),
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorBackupCodes: [],
+      });
+      await register(securityKey, user.id);
+
+      // Act
+      const { options } = await service.startRegistration(user.id, 'password123');
+
+      // Assert
+      assertEquals(options.excludeCredentials.map((c) => c.id), [securityKey.registration.credential.id]);
+
+      for (let i = 1; i < WebAuthnConfig.MAX_CREDENTIALS_PER_USER; i++) {
+        await credentialRepo.create({
+          id: `credential-${i}`,
+          userId: user.id,
+          name: 'Passkey',
+          publicKey: 'AA',
+          algorithm: -7,
+          signCount: 0,
+          transports: [],
+          aaguid: '00000000-0000-0000-0000-000000000000',
+          backedUp: false,
+        });
+      }
+      await assertRejects(
+        () => service.startRegistration(user.id, 'password123'),
+        AppError,
+        'You can register up to',
+      );
+    });
+
+    it('should reject a challenge issued to another user', async () => {
+      // Arrange
+      const challengeId = await seedChallenge(platformPasskey.registration.challenge, 'registration', 'someone-else');
+
+      // Act & Assert
+      await assertRejects(
+        () =>
+          service.finishRegistration(
+            userId,
+            challengeId,
+            RegistrationCredentialSchema.parse(platformPasskey.registration.credential),
+          ),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should not accept the same challenge twice', async () => {
+      // Arrange
+      const challengeId = await seedChallenge(securityKey.registration.challenge, 'registration', userId);
+      const credential = RegistrationCredentialSchema.parse(securityKey.registration.credential);
+      await service.finishRegistration(userId, challengeId, credential);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.finishRegistration(userId, challengeId, credential),
+        AuthenticationError,
+        'expired',
+      );
+    });
+
+    it('should report verification failures without details', async () => {
+      // Arrange: Challenge differs from the one the fixture signed
+      const challengeId = await seedChallenge(securityKey.authentication.challenge, 'registration', userId);
+
+      // Act & Assert
+      await assertRejects(
+        () =>
+          service.finishRegistration(
+            userId,
+            challengeId,
+            RegistrationCredentialSchema.parse(securityKey.registration.credential),
+          ),
+        AuthenticationError,
+        'Passkey verification failed',
+      );
+      assertEquals(await credentialRepo.listByUser(userId), []);
+    });
+  });
+
+  describe('business logic: authentication', () => {
+    it('should sign in passwordless with a discoverable passkey', async () => {
+      // Arrange
+      await register(platformPasskey);
+      const challengeId = await seedChallenge(platformPasskey.authentication.challenge, 'authentication', null);
+
+      // Act
+      const result = await service.verifyAuthentication(challengeId, assertion(platformPasskey));
+
+      // Assert
+      assertEquals(result, userId);
+      const stored = await credentialRepo.findById(platformPasskey.registration.credential.id);
+      assertExists(stored?.lastUsedAt);
+    });
+
+    it('should require a user handle for passwordless sign-in', async () => {
+      // Arrange: Security key assertion carries no user handle
+      await register(securityKey);
+      const challengeId = await seedChallenge(securityKey.authentication.challenge, 'authentication', null);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.verifyAuthentication(challengeId, assertion(securityKey)),
+        AuthenticationError,
+        'does not match its account',
+      );
+    });
+
+    it('should verify a second factor and advance the counter', async () => {
+      // Arrange
+      await register(securityKey);
+      const challengeId = await seedChallenge(securityKey.authentication.challenge, 'authentication', userId);
+
+      // Act
+      const result = await service.verifyAuthentication(challengeId, assertion(securityKey), userId);
+
+      // Assert
+      assertEquals(result, userId);
+      const stored = await credentialRepo.findById(securityKey.registration.credential.id);
+      assertEquals(stored?.signCount, 42);
+    });
+
+    it('should reject a passkey that belongs to another user', async () => {
+      // Arrange
+      await register(securityKey, 'other-user');
+      const challengeId = await seedChallenge(securityKey.authentication.challenge, 'authentication', userId);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.verifyAuthentication(challengeId, assertion(securityKey), userId),
+        AuthenticationError,
+        'not registered',
+      );
+    });
+
+    it('should reject a replayed assertion (counter did not increase)', async () => {
+      // Arrange
+      await register(securityKey);
+      const first = await seedChallenge(securityKey.authentication.challenge, 'authentication', userId);
+      await service.verifyAuthentication(first, assertion(securityKey), userId);
+      const second = await seedChallenge(securityKey.authentication.challenge, 'authentication', userId);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.verifyAuthentication(second, assertion(securityKey), userId),
+        AuthenticationError,
+        'Passkey verification failed',
+      );
+    });
+
+    it('should not accept a registration challenge for sign-in', async () => {
+      // Arrange
+      await register(securityKey);
+      const challengeId = await seedChallenge(securityKey.authentication.challenge, 'registration', userId);
+
+      // Act & Assert
+      await assertRejects(
+        () => service.verifyAuthentication(challengeId, assertion(securityKey), userId),
+        AuthenticationError,
+        'expired',
+      );
+    });
+  });
+
+  describe('business logic: managing passkeys', () => {
+    it('should list and remove only the owner\'s passkeys', async () => {
+      // Arrange
+      await register(platformPasskey);
+      await register(securityKey, 'other-user');
+
+      // Act
+      const passkeys = await service.listCredentials(userId);
+
+      // Assert
+      assertEquals(passkeys.map((p) => p.id), [platformPasskey.registration.credential.id]);
+      assertEquals('publicKey' in passkeys[0], false);
+
+      await assertRejects(
+        () => service.deleteCredential(userId, securityKey.registration.credential.id),
+        NotFoundError,
+      );
+
+      await service.deleteCredential(userId, passkeys[0].id);
+      assertEquals(await service.listCredentials(userId), []);
+
+      const { items } = await auditLog.list({ action: 'auth.passkey_removed' });
+      assertEquals(items.length, 1);
+    });
+  });
+});
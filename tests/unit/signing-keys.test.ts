@@ -0,0 +1,119 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * Signing Key Store Tests
+ *
+ * Runs key stores against an in-memory KV; two stores sharing one KV
+ * simulate two server instances.
+ *
+ * Focus: Bootstrap, rotation, retired key expiry, JWKS contents.
+ */
+
+import { assert, assertEquals, assertExists, assertNotEquals } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { type SigningKeyRecord, SigningKeyStore } from '../../shared/lib/signing-keys.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SigningKeyStore', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let store: SigningKeyStore;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+    store = new SigningKeyStore({ getKv: () => Promise.resolve(kv), retentionMs: DAY_MS });
+  });
+
+  afterEach(async () => {
+    await cleanup();
+  });
+
+  it('should generate one active key on first use across instances', async () => {
+    const other = new SigningKeyStore({ getKv: () => Promise.resolve(kv) });
+
+    const [a, b] = await Promise.all([store.getActiveKey(), other.getActiveKey()]);
+
+    assertEquals(a.kid, b.kid);
+    assertEquals(a.alg, 'ES256');
+    assertEquals((await store.listKeys()).length, 1);
+  });
+
+  it('should sign with a key that verifies with its published public key', async () => {
+    const { kid, privateKey } = await store.getActiveKey();
+    const data = new TextEncoder().encode('payload');
+    const params = { name: 'ECDSA', hash: 'SHA-256' };
+
+    const signature = await crypto.subtle.sign(params, privateKey, data);
+    const publicKey = await store.getVerificationKey(kid);
+
+    assertExists(publicKey);
+    assertEquals(await crypto.subtle.verify(params, publicKey, signature, data), true);
+  });
+
+  it('should keep verifying the previous key after rotation', async () => {
+    const before = await store.getActiveKey();
+
+    const rotated = await store.rotate();
+    const after = await store.getActiveKey();
+
+    assertEquals(after.kid, rotated.kid);
+    assertNotEquals(after.kid, before.kid);
+    assertExists(await store.getVerificationKey(before.kid));
+
+    const previous = (await kv.get<SigningKeyRecord>(['signing_keys', before.kid])).value!;
+    assertExists(previous.retiredAt);
+    assertEquals(new Date(previous.expiresAt!).getTime() - new Date(previous.retiredAt).getTime(), DAY_MS);
+  });
+
+  it('should stop accepting a retired key once it expires', async () => {
+    const { kid } = await store.getActiveKey();
+    await store.rotate();
+
+    // Expire the retired key (and use a store without cached keys)
+    const entry = await kv.get<SigningKeyRecord>(['signing_keys', kid]);
+    await kv.set(entry.key, { ...entry.value!, expiresAt: new Date(Date.now() - 1000).toISOString() });
+    const fresh = new SigningKeyStore({ getKv: () => Promise.resolve(kv) });
+
+    assertEquals(await fresh.getVerificationKey(kid), null);
+    assertEquals((await fresh.getJwks()).keys.some((key) => key.kid === kid), false);
+  });
+
+  it('should reject unknown key IDs', async () => {
+    assertEquals(await store.getVerificationKey('no-such-key'), null);
+  });
+
+  it('should only rotate once the active key is old enough', async () => {
+    const first = await store.getActiveKey();
+
+    assertEquals(await store.rotateIfDue(), false);
+
+    // Backdate the active key past the rotation interval
+    const entry = await kv.get<SigningKeyRecord>(['signing_keys', first.kid]);
+    const createdAt = new Date(Date.now() - store.rotationIntervalMs - 1000).toISOString();
+    await kv.set(entry.key, { ...entry.value!, createdAt });
+
+    assertEquals(await store.rotateIfDue(), true);
+    assertNotEquals((await store.getActiveKey()).kid, first.kid);
+  });
+
+  it('should publish only public key material in the JWKS', async () => {
+    const { kid } = await store.getActiveKey();
+    await store.rotate();
+
+    const { keys } = await store.getJwks();
+
+    assertEquals(keys.length, 2);
+    assert(keys.some((key) => key.kid === kid));
+    for (const key of keys) {
+      assertEquals(key.kty, 'EC');
+      assertEquals(key.crv, 'P-256');
+      assertEquals(key.use, 'sig');
+      assertEquals(key.alg, 'ES256');
+      assertEquals(key.d, undefined);
+    }
+  });
+});
@@ -0,0 +1,194 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * Web Push Protocol Tests
+ *
+ * Encryption is checked against the RFC 8291 example; delivery runs against
+ * a local push service (tests/helpers/mock-push-service.ts) that verifies the
+ * VAPID token and decrypts what it receives, as a browser would.
+ *
+ * Focus: Payload encryption, VAPID signing, delivery results, VAPID key storage.
+ */
+
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { VapidKeyStore } from '../../shared/lib/vapid-keys.ts';
+import {
+  encryptPushPayload,
+  generateVapidKeys,
+  importP256KeyPair,
+  MAX_PAYLOAD_BYTES,
+  sendPushMessage,
+  type VapidCredentials,
+  WebPushError,
+} from '../../shared/lib/web-push.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+import { type MockPushService, startMockPushService } from '../helpers/mock-push-service.ts';
+
+async function createVapid(): Promise<VapidCredentials> {
+  const keys = await generateVapidKeys();
+  const { privateKey } = await importP256KeyPair(keys.publicKey, keys.privateKey, 'ECDSA');
+  return { publicKey: keys.publicKey, privateKey, subject: 'mailto:ops@example.com' };
+}
+
+describe('Web Push', () => {
+  describe('encryptPushPayload', () => {
+    it('should match the RFC 8291 example', async () => {
+      // Arrange - RFC 8291 Appendix A
+      const serverKeys = await importP256KeyPair(
+        'BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8',
+        'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+        'ECDH',
+      );
+      const keys = {
+        p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      };
+
+      // Act
+      const body = await encryptPushPayload(new TextEncoder().encode('When I grow up, I want to be a watermelon'), keys, {
+        salt: decodeBase64Url('DGv6ra1nlYgDCS1FRnbzlw'),
+        serverKeys,
+      });
+
+      // Assert
+      assertEquals(
+        encodeBase64Url(body),
+        'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+      );
+    });
+
+    it('should reject payloads larger than one record', async () => {
+      // Arrange
+      const keys = {
+        p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+        auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+      };
+
+      // Act & Assert
+      await assertRejects(
+        () => encryptPushPayload(new Uint8Array(MAX_PAYLOAD_BYTES + 1), keys),
+        WebPushError,
+        'limit',
+      );
+    });
+  });
+
+  describe('sendPushMessage', () => {
+    let pushService: MockPushService;
+    let vapid: VapidCredentials;
+
+    beforeEach(async () => {
+      pushService = await startMockPushService();
+      vapid = await createVapid();
+    });
+
+    afterEach(async () => {
+      await pushService.close();
+    });
+
+    it('should deliver a message the browser can decrypt', async () => {
+      // Arrange
+      const subscription = await pushService.createSubscription();
+
+      // Act
+      const result = await sendPushMessage(subscription, '{"title":"Hello"}', vapid, {
+        ttl: 60,
+        urgency: 'high',
+        topic: 'build-status',
+      });
+
+      // Assert
+      assertEquals(result, { ok: true, status: 201, gone: false });
+      assertEquals(pushService.rejected, []);
+      assertEquals(pushService.messages.length, 1);
+
+      const [message] = pushService.messages;
+      assertEquals(message.payload, '{"title":"Hello"}');
+      assertEquals(message.ttl, 60);
+      assertEquals(message.urgency, 'high');
+      assertEquals(message.topic, 'build-status');
+      assertEquals(message.vapidPublicKey, vapid.publicKey);
+    });
+
+    it('should report a subscription the push service no longer knows as gone', async () => {
+      // Arrange
+      const subscription = await pushService.createSubscription();
+      pushService.expire(subscription.endpoint);
+
+      // Act
+      const result = await sendPushMessage(subscription, '{}', vapid);
+
+      // Assert
+      assertEquals(result, { ok: false, status: 410, gone: true });
+      assertEquals(pushService.messages.length, 0);
+    });
+
+    it('should throw a WebPushError when the push service is unreachable', async () => {
+      // Arrange
+      const subscription = await pushService.createSubscription();
+      await pushService.close();
+
+      // Act & Assert
+      await assertRejects(() => sendPushMessage(subscription, '{}', vapid), WebPushError, '127.0.0.1');
+
+      pushService = await startMockPushService(); // afterEach closes it again
+    });
+  });
+
+  describe('VapidKeyStore', () => {
+    let kv: Deno.Kv;
+    let cleanup: () => Promise<void>;
+
+    beforeEach(async () => {
+      const setup = await setupTestKv();
+      kv = setup.kv;
+      cleanup = setup.cleanup;
+    });
+
+    afterEach(async () => {
+      Deno.env.delete('VAPID_PUBLIC_KEY');
+      Deno.env.delete('VAPID_PRIVATE_KEY');
+      await cleanup();
+    });
+
+    it('should generate one key pair shared by every instance', async () => {
+      // Arrange
+      const a = new VapidKeyStore({ getKv: () => Promise.resolve(kv) });
+      const b = new VapidKeyStore({ getKv: () => Promise.resolve(kv) });
+
+      // Act
+      const [keyA, keyB] = await Promise.all([a.getPublicKey(), b.getPublicKey()]);
+
+      // Assert
+      assertEquals(keyA, keyB);
+      assertEquals(decodeBase64Url(keyA).length, 65);
+      assert((await kv.get(['vapid_keys'])).value);
+    });
+
+    it('should use the key pair from the environment when set', async () => {
+      // Arrange
+      const keys = await generateVapidKeys();
+      Deno.env.set('VAPID_PUBLIC_KEY', keys.publicKey);
+      Deno.env.set('VAPID_PRIVATE_KEY', keys.privateKey);
+      const store = new VapidKeyStore({ getKv: () => Promise.resolve(kv) });
+
+      // Act
+      const publicKey = await store.getPublicKey();
+
+      // Assert
+      assertEquals(publicKey, keys.publicKey);
+      assertEquals((await kv.get(['vapid_keys'])).value, null);
+    });
+
+    it('should refuse half a key pair from the environment', async () => {
+      // Arrange
+      Deno.env.set('VAPID_PUBLIC_KEY', (await generateVapidKeys()).publicKey);
+      const store = new VapidKeyStore({ getKv: () => Promise.resolve(kv) });
+
+      // Act & Assert
+      await assertRejects(() => store.getCredentials(), Error, 'VAPID_PRIVATE_KEY');
+    });
+  });
+});
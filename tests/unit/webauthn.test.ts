@@ -0,0 +1,319 @@
+/**
+ * WebAuthn Verification Tests
+ *
+ * Verifies recorded registration and authentication ceremonies
+ * (tests/fixtures/webauthn.ts) and rejects tampered or mismatched ones:
+ * - Attestation formats: none, packed self-attestation
+ * - Algorithms: ES256, EdDSA, RS256
+ * - Challenge, origin, RP ID and user verification checks
+ * - Signature counter regression
+ */
+
+import { assertEquals, assertRejects } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import { decodeBase64Url, encodeBase64Url } from '@std/encoding/base64url';
+import {
+  COSE_ALG_EDDSA,
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  decodeUserHandle,
+  type ExpectedCeremony,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  type VerifiedRegistration,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  WebAuthnVerificationError,
+} from '../../shared/lib/webauthn.ts';
+import {
+  AuthenticationCredentialSchema,
+  RegistrationCredentialSchema,
+} from '../../shared/types/webauthn.ts';
+import { webauthnFixtures } from '../fixtures/webauthn.ts';
+
+const { rp, platformPasskey, securityKey, rsaAuthenticator } = webauthnFixtures;
+
+function expected(challenge: string, overrides: Partial<ExpectedCeremony> = {}): ExpectedCeremony {
+  return { challenge, rp, requireUserVerification: false, ...overrides };
+}
+
+function registration(fixture: typeof platformPasskey | typeof securityKey | typeof rsaAuthenticator) {
+  return RegistrationCredentialSchema.parse(fixture.registration.credential);
+}
+
+function authentication(fixture: typeof platformPasskey | typeof securityKey | typeof rsaAuthenticator) {
+  return AuthenticationCredentialSchema.parse(fixture.authentication.credential);
+}
+
+/**
+ * Re-encode clientDataJSON with changes (the signature no longer covers it)
+ */
+function withClientData(encoded: string, changes: Record<string, unknown>): string {
+  const clientData = JSON.parse(new TextDecoder().decode(decodeBase64Url(encoded)));
+  return encodeBase64Url(new TextEncoder().encode(JSON.stringify({ ...clientData, ...changes })));
+}
+
+async function register(fixture: typeof platformPasskey | typeof securityKey | typeof rsaAuthenticator) {
+  return await verifyRegistrationResponse(registration(fixture), expected(fixture.registration.challenge));
+}
+
+describe('WebAuthn', () => {
+  describe('verifyRegistrationResponse', () => {
+    it('should verify a platform passkey with "none" attestation', async () => {
+      const result = await register(platformPasskey);
+
+      assertEquals(result.credentialId, platformPasskey.registration.credential.id);
+      assertEquals(result.algorithm, COSE_ALG_ES256);
+      assertEquals(result.attestationFormat, 'none');
+      assertEquals(result.signCount, 0);
+      assertEquals(result.backedUp, true);
+      assertEquals(result.userVerified, true);
+      assertEquals(result.aaguid, '00000000-0000-0000-0000-000000000000');
+    });
+
+    it('should verify a security key with packed self-attestation', async () => {
+      const result = await register(securityKey);
+
+      assertEquals(result.algorithm, COSE_ALG_EDDSA);
+      assertEquals(result.attestationFormat, 'packed');
+      assertEquals(result.signCount, 41);
+      assertEquals(result.backedUp, false);
+      assertEquals(result.userVerified, false);
+      assertEquals(result.aaguid, '6d44ba9b-f6ec-4e9b-a1f2-53c4fb7a1c01');
+    });
+
+    it('should verify an RS256 credential', async () => {
+      const result = await register(rsaAuthenticator);
+
+      assertEquals(result.algorithm, COSE_ALG_RS256);
+      assertEquals(result.signCount, 7);
+    });
+
+    it('should reject a different challenge', async () => {
+      await assertRejects(
+        () => verifyRegistrationResponse(registration(platformPasskey), expected(platformPasskey.authentication.challenge)),
+        WebAuthnVerificationError,
+        'Challenge does not match',
+      );
+    });
+
+    it('should reject an unexpected origin', async () => {
+      await assertRejects(
+        () =>
+          verifyRegistrationResponse(
+            registration(platformPasskey),
+            expected(platformPasskey.registration.challenge, { rp: { ...rp, origin: 'https://example.com' } }),
+          ),
+        WebAuthnVerificationError,
+        'Unexpected origin',
+      );
+    });
+
+    it('should reject a credential scoped to another RP ID', async () => {
+      await assertRejects(
+        () =>
+          verifyRegistrationResponse(
+            registration(platformPasskey),
+            expected(platformPasskey.registration.challenge, { rp: { ...rp, id: 'example.com' } }),
+          ),
+        WebAuthnVerificationError,
+        'RP ID hash does not match',
+      );
+    });
+
+    it('should reject an assertion presented as a registration', async () => {
+      const credential = registration(platformPasskey);
+      credential.response.clientDataJSON = platformPasskey.authentication.credential.response.clientDataJSON;
+
+      await assertRejects(
+        () => verifyRegistrationResponse(credential, expected(platformPasskey.authentication.challenge)),
+        WebAuthnVerificationError,
+        'Unexpected client data type',
+      );
+    });
+
+    it('should require user verification when asked', async () => {
+      await assertRejects(
+        () =>
+          verifyRegistrationResponse(
+            registration(securityKey),
+            expected(securityKey.registration.challenge, { requireUserVerification: true }),
+          ),
+        WebAuthnVerificationError,
+        'User was not verified',
+      );
+    });
+
+    it('should reject a self-attestation that does not cover the client data', async () => {
+      const credential = registration(securityKey);
+      credential.response.clientDataJSON = withClientData(credential.response.clientDataJSON, { tokenBinding: 'x' });
+
+      await assertRejects(
+        () => verifyRegistrationResponse(credential, expected(securityKey.registration.challenge)),
+        WebAuthnVerificationError,
+        'Invalid packed self-attestation signature',
+      );
+    });
+
+    it('should reject a credential ID that differs from the attested one', async () => {
+      const credential = registration(platformPasskey);
+      credential.id = credential.rawId = securityKey.registration.credential.id;
+
+      await assertRejects(
+        () => verifyRegistrationResponse(credential, expected(platformPasskey.registration.challenge)),
+        WebAuthnVerificationError,
+        'Credential ID does not match',
+      );
+    });
+
+    it('should reject a malformed attestation object', async () => {
+      const credential = registration(platformPasskey);
+      credential.response.attestationObject = credential.response.attestationObject.slice(0, 40);
+
+      await assertRejects(
+        () => verifyRegistrationResponse(credential, expected(platformPasskey.registration.challenge)),
+        WebAuthnVerificationError,
+      );
+    });
+  });
+
+  describe('verifyAuthenticationResponse', () => {
+    async function stored(fixture: typeof platformPasskey | typeof securityKey | typeof rsaAuthenticator) {
+      const verified: VerifiedRegistration = await register(fixture);
+      return { publicKey: verified.publicKey, signCount: verified.signCount };
+    }
+
+    it('should verify a passkey assertion without a signature counter', async () => {
+      const result = await verifyAuthenticationResponse(
+        authentication(platformPasskey),
+        expected(platformPasskey.authentication.challenge, { requireUserVerification: true }),
+        await stored(platformPasskey),
+      );
+
+      assertEquals(result.signCount, 0);
+      assertEquals(result.userVerified, true);
+      assertEquals(result.backedUp, true);
+    });
+
+    it('should verify EdDSA and RS256 assertions with increasing counters', async () => {
+      const edResult = await verifyAuthenticationResponse(
+        authentication(securityKey),
+        expected(securityKey.authentication.challenge),
+        await stored(securityKey),
+      );
+      const rsaResult = await verifyAuthenticationResponse(
+        authentication(rsaAuthenticator),
+        expected(rsaAuthenticator.authentication.challenge),
+        await stored(rsaAuthenticator),
+      );
+
+      assertEquals(edResult.signCount, 42);
+      assertEquals(rsaResult.signCount, 8);
+    });
+
+    it('should reject a counter that did not increase (cloned authenticator)', async () => {
+      await assertRejects(
+        async () =>
+          verifyAuthenticationResponse(
+            authentication(securityKey),
+            expected(securityKey.authentication.challenge),
+            { ...(await stored(securityKey)), signCount: 42 },
+          ),
+        WebAuthnVerificationError,
+        'Signature counter did not increase',
+      );
+    });
+
+    it('should reject a signature from a different key', async () => {
+      const key = await stored(securityKey);
+
+      await assertRejects(
+        async () =>
+          verifyAuthenticationResponse(
+            authentication(platformPasskey),
+            expected(platformPasskey.authentication.challenge),
+            { publicKey: key.publicKey, signCount: 0 },
+          ),
+        WebAuthnVerificationError,
+        'Invalid assertion signature',
+      );
+    });
+
+    it('should reject tampered authenticator data', async () => {
+      const credential = authentication(rsaAuthenticator);
+      const authData = decodeBase64Url(credential.response.authenticatorData);
+      authData[36] = 99; // Bump the signature counter
+      credential.response.authenticatorData = encodeBase64Url(authData);
+
+      await assertRejects(
+        async () =>
+          verifyAuthenticationResponse(
+            credential,
+            expected(rsaAuthenticator.authentication.challenge),
+            await stored(rsaAuthenticator),
+          ),
+        WebAuthnVerificationError,
+        'Invalid assertion signature',
+      );
+    });
+
+    it('should reject a replayed assertion for a new challenge', async () => {
+      await assertRejects(
+        async () =>
+          verifyAuthenticationResponse(
+            authentication(platformPasskey),
+            expected(platformPasskey.registration.challenge),
+            await stored(platformPasskey),
+          ),
+        WebAuthnVerificationError,
+        'Challenge does not match',
+      );
+    });
+
+    it('should require user verification when asked', async () => {
+      await assertRejects(
+        async () =>
+          verifyAuthenticationResponse(
+            authentication(securityKey),
+            expected(securityKey.authentication.challenge, { requireUserVerification: true }),
+            await stored(securityKey),
+          ),
+        WebAuthnVerificationError,
+        'User was not verified',
+      );
+    });
+  });
+
+  describe('options', () => {
+    it('should build registration options with an opaque user handle', () => {
+      const options = generateRegistrationOptions({
+        rp,
+        user: { id: webauthnFixtures.userId, name: 'user@example.com', displayName: 'Test User' },
+        challenge: 'abc',
+        timeout: 60000,
+        excludeCredentials: [{ id: 'cred-1', transports: ['usb'] }],
+      });
+
+      assertEquals(options.rp, { id: 'localhost', name: 'Deno Fresh App' });
+      assertEquals(decodeUserHandle(options.user.id), webauthnFixtures.userId);
+      assertEquals(options.pubKeyCredParams.map((param) => param.alg), [COSE_ALG_ES256, COSE_ALG_EDDSA, COSE_ALG_RS256]);
+      assertEquals(options.excludeCredentials, [{ type: 'public-key', id: 'cred-1', transports: ['usb'] }]);
+      assertEquals(options.attestation, 'none');
+    });
+
+    it('should build authentication options for discoverable credentials', () => {
+      const options = generateAuthenticationOptions({ rp, challenge: 'abc', timeout: 60000, userVerification: 'required' });
+
+      assertEquals(options.rpId, 'localhost');
+      assertEquals(options.allowCredentials, []);
+      assertEquals(options.userVerification, 'required');
+    });
+
+    it('should decode the user handle returned by a discoverable credential', () => {
+      assertEquals(
+        decodeUserHandle(platformPasskey.authentication.credential.response.userHandle!),
+        webauthnFixtures.userId,
+      );
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/// <reference lib="deno.unstable" />
+
+/**
+ * WebSocket Pub/Sub Tests
+ *
+ * Runs two pub/sub instances against one in-memory KV to simulate two
+ * server isolates.
+ *
+ * Focus: Cross-instance delivery, de-duplication, presence tracking.
+ */
+
+import { assertEquals } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import {
+  type PubSubEnvelope,
+  type WebSocketTarget,
+  WebSocketPubSub,
+} from '../../shared/lib/websocket-pubsub.ts';
+import { setupTestKv } from '../helpers/kv-test.ts';
+
+function createEnvelope(target: WebSocketTarget, origin = 'instance-a'): PubSubEnvelope {
+  return {
+    id: crypto.randomUUID(),
+    origin,
+    target,
+    message: { type: 'test' },
+    publishedAt: Date.now(),
+  };
+}
+
+/**
+ * Wait for watcher delivery (or a fixed settle time when expecting nothing)
+ */
+async function settle(ms = 200): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe('WebSocketPubSub', () => {
+  let kv: Deno.Kv;
+  let cleanup: () => Promise<void>;
+  let instanceA: WebSocketPubSub;
+  let instanceB: WebSocketPubSub;
+  let receivedA: PubSubEnvelope[];
+  let receivedB: PubSubEnvelope[];
+  let presenceB: Map<string, number>;
+
+  beforeEach(async () => {
+    const setup = await setupTestKv();
+    kv = setup.kv;
+    cleanup = setup.cleanup;
+
+    receivedA = [];
+    receivedB = [];
+    presenceB = new Map();
+
+    instanceA = new WebSocketPubSub({
+      instanceId: 'instance-a',
+      deliver: (envelope) => receivedA.push(envelope),
+      getLocalPresence: () => new Map(),
+      getKv: () => Promise.resolve(kv),
+    });
+    instanceB = new WebSocketPubSub({
+      instanceId: 'instance-b',
+      deliver: (envelope) => receivedB.push(envelope),
+      getLocalPresence: () => presenceB,
+      getKv: () => Promise.resolve(kv),
+    });
+
+    await instanceA.start();
+    await instanceB.start();
+  });
+
+  afterEach(async () => {
+    await instanceA.stop();
+    await instanceB.stop();
+    await cleanup();
+  });
+
+  describe('Fan-out', () => {
+    it('should deliver broadcasts to other instances', async () => {
+      await instanceA.publish(createEnvelope({ type: 'admins' }));
+      await settle();
+
+      assertEquals(receivedB.length, 1);
+      assertEquals(receivedB[0]?.target, { type: 'admins' });
+    });
+
+    it('should not redeliver to the publishing instance', async () => {
+      await instanceA.publish(createEnvelope({ type: 'all' }));
+      await settle();
+
+      assertEquals(receivedA.length, 0);
+    });
+
+    it('should de-duplicate a message published twice', async () => {
+      const envelope = createEnvelope({ type: 'all' });
+
+      await instanceA.publish(envelope);
+      await instanceA.publish(envelope);
+      await settle();
+
+      assertEquals(receivedB.length, 1);
+    });
+
+    it('should stay local when not started', async () => {
+      await instanceA.stop();
+
+      await instanceA.publish(createEnvelope({ type: 'all' }));
+      await settle();
+
+      assertEquals(receivedB.length, 0);
+    });
+  });
+
+  describe('Presence', () => {
+    it('should only publish user messages when another instance holds the user', async () => {
+      await instanceA.publish(createEnvelope({ type: 'user', userId: 'user-1' }));
+      await settle();
+      assertEquals(receivedB.length, 0);
+
+      await instanceB.updatePresence('user-1', 1);
+      await instanceA.publish(createEnvelope({ type: 'user', userId: 'user-1' }));
+      await settle();
+      assertEquals(receivedB.length, 1);
+    });
+
+    it('should not count the instance\'s own presence as remote', async () => {
+      await instanceB.updatePresence('user-1', 2);
+
+      assertEquals(await instanceA.hasRemotePresence('user-1'), true);
+      assertEquals(await instanceB.hasRemotePresence('user-1'), false);
+    });
+
+    it('should clear presence when the last connection closes', async () => {
+      await instanceB.updatePresence('user-1', 1);
+      await instanceB.updatePresence('user-1', 0);
+
+      assertEquals(await instanceA.hasRemotePresence('user-1'), false);
+    });
+
+    it('should list running instances and remove them on stop', async () => {
+      const instances = await instanceA.listInstances();
+      assertEquals(instances.map((i) => i.instanceId).sort(), ['instance-a', 'instance-b']);
+
+      await instanceB.stop();
+
+      const remaining = await instanceA.listInstances();
+      assertEquals(remaining.map((i) => i.instanceId), ['instance-a']);
+    });
+  });
+});